@@ -24,11 +24,13 @@ import Animated, {
 } from 'react-native-reanimated';
 import StarField from '@/components/StarField';
 import { Colors, Fonts } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 export default function ForgotPasswordScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { resetPassword, isLoading, error, pendingPasswordReset } = useAuth();
+  const { t } = useAppLanguage();
 
   const [email, setEmail] = useState('');
   const [focused, setFocused] = useState(false);
@@ -72,7 +74,7 @@ export default function ForgotPasswordScreen() {
   const handleReset = async () => {
     setLocalError('');
     if (!email.trim()) {
-      setLocalError('Please enter your email address.');
+      setLocalError(t('auth.missingEmail'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       return;
     }
@@ -100,9 +102,9 @@ export default function ForgotPasswordScreen() {
           <Animated.View style={keyFloatStyle}>
             <Text style={styles.successEmoji}>✉️</Text>
           </Animated.View>
-          <Text style={styles.successTitle}>Check your inbox!</Text>
+          <Text style={styles.successTitle}>{t('auth.resetSentTitle')}</Text>
           <Text style={styles.successSubtitle}>
-            {"We've sent a password reset link to your email.\nFollow the link to create a new password."}
+            {t('auth.resetSent')}
           </Text>
 
           <TouchableOpacity
@@ -119,7 +121,7 @@ export default function ForgotPasswordScreen() {
               end={{ x: 1, y: 0 }}
               style={styles.buttonGradient}
             >
-              <Text style={styles.primaryButtonText}>← Back to Sign In</Text>
+              <Text style={styles.primaryButtonText}>{t('auth.backToSignIn')}</Text>
             </LinearGradient>
           </TouchableOpacity>
         </View>
@@ -154,16 +156,16 @@ export default function ForgotPasswordScreen() {
             }}
             hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
           >
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
 
           {/* Header */}
           <Animated.View style={[styles.header, keyFloatStyle]}>
             <Text style={styles.headerEmoji}>🔑</Text>
-            <Text style={styles.title}>Reset your password</Text>
+            <Text style={styles.title}>{t('auth.resetTitle')}</Text>
             <View style={styles.titleUnderline} />
             <Text style={styles.subtitle}>
-              {"Enter your email and we'll send you\na secure reset link"}
+              {t('auth.resetSubtitle')}
             </Text>
           </Animated.View>
 
@@ -187,13 +189,13 @@ export default function ForgotPasswordScreen() {
 
             {/* Email input */}
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>EMAIL ADDRESS</Text>
+              <Text style={styles.inputLabel}>{t('auth.emailLabel')}</Text>
               <View style={styles.inputWrapper}>
                 <Animated.View style={[styles.glowRing, glowStyle]} pointerEvents="none" />
                 <View style={[styles.inputContainer, focused && styles.inputFocused]}>
                   <TextInput
                     style={styles.input}
-                    placeholder="you@example.com"
+                    placeholder={t('auth.emailPlaceholder')}
                     placeholderTextColor="rgba(153,153,187,0.6)"
                     value={email}
                     onChangeText={setEmail}
@@ -224,7 +226,7 @@ export default function ForgotPasswordScreen() {
                 style={styles.buttonGradient}
               >
                 <Text style={styles.primaryButtonText}>
-                  {isLoading ? 'Sending…' : '📨 Send Reset Link'}
+                  {isLoading ? t('auth.sending') : t('auth.sendReset')}
                 </Text>
               </LinearGradient>
             </TouchableOpacity>
@@ -232,7 +234,7 @@ export default function ForgotPasswordScreen() {
 
           {/* Footer */}
           <View style={styles.footer}>
-            <Text style={styles.footerText}>Remember your password? </Text>
+            <Text style={styles.footerText}>{t('auth.rememberPassword')}</Text>
             <TouchableOpacity
               onPress={() => {
                 void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -240,7 +242,7 @@ export default function ForgotPasswordScreen() {
               }}
               hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
             >
-              <Text style={styles.footerLink}>Sign In</Text>
+              <Text style={styles.footerLink}>{t('auth.signInLink')}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -41,6 +41,7 @@ import Animated, {
 import StarField from '@/components/StarField';
 import StardustParticles from '@/components/StardustParticles';
 import { Colors, Fonts } from '@/constants/theme';
+import { useAppLanguage, type UseAppLanguageReturn } from '@/hooks/useAppLanguage';
 
 const { width: W, height: H } = Dimensions.get('window');
 const CARD_WIDTH = W - 40;
@@ -48,42 +49,42 @@ const CARD_WIDTH = W - 40;
 type Mode = 'signin' | 'signup';
 
 // ─── Error helpers ────────────────────────────────────────────────────────────
-function getFriendlyErrorMessage(err: unknown, context?: 'signin' | 'signup'): string {
+function getFriendlyErrorMessage(err: unknown, t: UseAppLanguageReturn['t'], context?: 'signin' | 'signup'): string {
   if (err !== null && typeof err === 'object' && !Array.isArray(err)) {
     const obj = err as Record<string, unknown>;
     if (obj['type'] === 'NETWORK_ERROR') {
       return context === 'signup'
-        ? 'An internet connection is required to create your account. Please check your connection and try again.'
+        ? t('auth.offlineSignUp')
         : context === 'signin'
-        ? 'An internet connection is required to access your account. Please check your connection and try again.'
-        : 'Unable to connect. Please check your internet connection and try again.';
+        ? t('auth.offlineSignIn')
+        : t('auth.offline');
     }
-    if (typeof obj['message'] === 'string') return getFriendlyErrorMessage(obj['message'], context);
-    if (obj['originalError']) return getFriendlyErrorMessage(obj['originalError'], context);
-    return 'Something went wrong. Please try again.';
+    if (typeof obj['message'] === 'string') return getFriendlyErrorMessage(obj['message'], t, context);
+    if (obj['originalError']) return getFriendlyErrorMessage(obj['originalError'], t, context);
+    return t('auth.somethingWrong');
   }
   const raw = err instanceof Error ? err.message : String(err ?? '');
-  if (!raw) return 'Something went wrong. Please try again.';
+  if (!raw) return t('auth.somethingWrong');
   const trimmed = raw.trim();
   if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
     try {
       const parsed = JSON.parse(trimmed) as Record<string, unknown>;
       const extracted = (typeof parsed['detail'] === 'string' ? parsed['detail'] : '') || (typeof parsed['message'] === 'string' ? parsed['message'] : '');
-      if (extracted) return getFriendlyErrorMessage(extracted, context);
+      if (extracted) return getFriendlyErrorMessage(extracted, t, context);
     } catch { /* ignore */ }
   }
   const lower = raw.toLowerCase();
   if (lower.includes('failed to fetch') || lower.includes('network request failed') || lower.includes('timeout') || lower.includes('no internet') || (lower.includes('network') && lower.includes('error'))) {
-    return context === 'signup' ? 'An internet connection is required to create your account.' : context === 'signin' ? 'An internet connection is required to access your account.' : 'Unable to connect. Please check your internet connection.';
+    return context === 'signup' ? t('auth.offlineSignUp') : context === 'signin' ? t('auth.offlineSignIn') : t('auth.offline');
   }
-  if (lower.includes('tenant not found') || lower.includes('managed supabase backend')) return 'Sign-in is temporarily unavailable. Please try again later.';
-  if (lower.includes('user already registered') || lower.includes('already exists')) return 'An account with this email already exists. Try signing in instead.';
-  if (lower.includes('invalid login credentials') || lower.includes('invalid credentials')) return 'Incorrect email or password. Please try again.';
-  if (lower.includes('email not confirmed') || lower.includes('not confirmed')) return 'Please verify your email address before signing in.';
-  if (lower.includes('rate limit') || lower.includes('too many request')) return 'Too many attempts. Please wait a moment and try again.';
-  if (lower.includes('placeholder.supabase') || lower.includes('placeholder-anon-key')) return 'Authentication service is not configured. Please contact support.';
-  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'Something went wrong. Please try again.';
-  return raw.length <= 200 ? raw : 'Something went wrong. Please try again.';
+  if (lower.includes('tenant not found') || lower.includes('managed supabase backend')) return t('auth.unavailable');
+  if (lower.includes('user already registered') || lower.includes('already exists')) return t('auth.accountExists');
+  if (lower.includes('invalid login credentials') || lower.includes('invalid credentials')) return t('auth.invalidCredentials');
+  if (lower.includes('email not confirmed') || lower.includes('not confirmed')) return t('auth.notConfirmed');
+  if (lower.includes('rate limit') || lower.includes('too many request')) return t('auth.rateLimited');
+  if (lower.includes('placeholder.supabase') || lower.includes('placeholder-anon-key')) return t('auth.notConfigured');
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return t('auth.somethingWrong');
+  return raw.length <= 200 ? raw : t('auth.somethingWrong');
 }
 
 // ─── GlassInput ───────────────────────────────────────────────────────────────
@@ -220,6 +221,7 @@ const inputStyles = StyleSheet.create({
 
 // ─── Social button ────────────────────────────────────────────────────────────
 function SocialButton({ provider, onPress, disabled }: { provider: 'google' | 'apple'; onPress: () => void; disabled?: boolean }) {
+  const { t } = useAppLanguage();
   const scale = useSharedValue(1);
   const handlePress = () => {
     scale.value = withSequence(withTiming(0.96, { duration: 80 }), withSpring(1, { damping: 8, stiffness: 300 }));
@@ -233,7 +235,7 @@ function SocialButton({ provider, onPress, disabled }: { provider: 'google' | 'a
       <Animated.View style={[btnStyle, socialStyles.wrapper]}>
         <TouchableOpacity style={socialStyles.googleBtn} onPress={handlePress} disabled={disabled} activeOpacity={0.9}>
           <View style={socialStyles.googleIconWrapper}><Text style={socialStyles.googleG}>G</Text></View>
-          <Text style={socialStyles.googleText}>Continue with Google</Text>
+          <Text style={socialStyles.googleText}>{t('auth.google')}</Text>
           <View style={{ width: 32 }} />
         </TouchableOpacity>
       </Animated.View>
@@ -243,7 +245,7 @@ function SocialButton({ provider, onPress, disabled }: { provider: 'google' | 'a
     <Animated.View style={[btnStyle, socialStyles.wrapper]}>
       <TouchableOpacity style={socialStyles.appleBtn} onPress={handlePress} disabled={disabled} activeOpacity={0.9}>
         <View style={socialStyles.appleIconWrapper}><Text style={socialStyles.appleIcon}></Text></View>
-        <Text style={socialStyles.appleText}>Continue with Apple</Text>
+        <Text style={socialStyles.appleText}>{t('auth.apple')}</Text>
         <View style={{ width: 32 }} />
       </TouchableOpacity>
     </Animated.View>
@@ -271,6 +273,7 @@ export default function SignInScreen() {
     signInWithEmail, signUpWithEmail, signInWithGoogle, signInWithApple,
     isLoading, error, pendingEmailVerification,
   } = useAuth();
+  const { t } = useAppLanguage();
 
   const [mode, setMode] = useState<Mode>('signin');
   const [email, setEmail] = useState('');
@@ -382,7 +385,7 @@ export default function SignInScreen() {
   const handleSignIn = async () => {
     setLocalError('');
     if (!email.trim() || !password) {
-      setLocalError('Please enter your email and password.');
+      setLocalError(t('auth.missingCredentials'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       return;
     }
@@ -390,21 +393,21 @@ export default function SignInScreen() {
       await signInWithEmail(email.trim(), password);
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (err) {
-      setLocalError(getFriendlyErrorMessage(err, 'signin'));
+      setLocalError(getFriendlyErrorMessage(err, t, 'signin'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     }
   };
 
   const handleSignUp = async () => {
     setLocalError('');
-    if (!email.trim() || !password) { setLocalError('Please enter your email and password.'); void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error); return; }
-    if (password !== confirmPassword) { setLocalError('Passwords do not match.'); void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error); return; }
-    if (password.length < 6) { setLocalError('Password must be at least 6 characters.'); void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error); return; }
+    if (!email.trim() || !password) { setLocalError(t('auth.missingCredentials')); void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error); return; }
+    if (password !== confirmPassword) { setLocalError(t('auth.passwordMismatch')); void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error); return; }
+    if (password.length < 6) { setLocalError(t('auth.passwordTooShort')); void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error); return; }
     try {
       await signUpWithEmail(email.trim(), password);
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (err) {
-      setLocalError(getFriendlyErrorMessage(err, 'signup'));
+      setLocalError(getFriendlyErrorMessage(err, t, 'signup'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     }
   };
@@ -414,8 +417,8 @@ export default function SignInScreen() {
   const rawAuthError = error ? error.message : '';
   const displayError =
     localError ||
-    (rawAuthError ? getFriendlyErrorMessage(rawAuthError) : '') ||
-    (params.error ? getFriendlyErrorMessage(decodeURIComponent(params.error)) : '');
+    (rawAuthError ? getFriendlyErrorMessage(rawAuthError, t) : '') ||
+    (params.error ? getFriendlyErrorMessage(decodeURIComponent(params.error), t) : '');
 
   // ── Email verification ────────────────────────────────────────────────────
   if (pendingEmailVerification) {
@@ -425,11 +428,11 @@ export default function SignInScreen() {
         <StarField count={35} />
         <View style={[styles.verifyContainer, { paddingTop: insets.top + 60, paddingBottom: insets.bottom + 40 }]}>
           <Text style={styles.verifyEmoji}>📬</Text>
-          <Text style={styles.verifyTitle}>Check your email!</Text>
-          <Text style={styles.verifySubtitle}>{"We've sent a magic verification link. Once confirmed, you can sign in."}</Text>
+          <Text style={styles.verifyTitle}>{t('auth.verifyTitle')}</Text>
+          <Text style={styles.verifySubtitle}>{t('auth.verify')}</Text>
           <TouchableOpacity style={styles.verifyButton} onPress={() => switchMode('signin')}>
             <LinearGradient colors={[Colors.celestialGold, '#E8A800']} start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }} style={styles.buttonGradient}>
-              <Text style={styles.primaryButtonText}>Go to Sign In</Text>
+              <Text style={styles.primaryButtonText}>{t('auth.goToSignIn')}</Text>
             </LinearGradient>
           </TouchableOpacity>
         </View>
@@ -466,17 +469,17 @@ export default function SignInScreen() {
         >
           {/* Back */}
           <TouchableOpacity style={styles.backBtn} onPress={() => router.back()} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
 
           {/* Logo */}
           <Animated.View style={[styles.logoArea, moonStyle]}>
             <Text style={styles.crystalGateEmoji}>🌙</Text>
-            <Text style={styles.appTitle}>The Crystal Gate</Text>
+            <Text style={styles.appTitle}>{t('auth.gateTitle')}</Text>
             <Text style={styles.appSubtitle}>StoryVoice</Text>
             <View style={styles.titleUnderline} />
             <Text style={styles.tagline}>
-              {mode === 'signin' ? 'Welcome back, storyteller ✨' : 'Begin your magical journey 🌟'}
+              {mode === 'signin' ? t('auth.welcomeBack') : t('auth.beginJourney')}
             </Text>
           </Animated.View>
 
@@ -515,12 +518,12 @@ export default function SignInScreen() {
                     <Animated.View style={[styles.modeIndicator, indicatorStyle]} />
                     <TouchableOpacity style={styles.modeTab} onPress={() => switchMode('signin')} activeOpacity={0.8}>
                       <Text style={[styles.modeTabText, mode === 'signin' && styles.modeTabTextActive]}>
-                        ✦ Sign In
+                        {t('auth.signInTab')}
                       </Text>
                     </TouchableOpacity>
                     <TouchableOpacity style={styles.modeTab} onPress={() => switchMode('signup')} activeOpacity={0.8}>
                       <Text style={[styles.modeTabText, mode === 'signup' && styles.modeTabTextActive]}>
-                        ✦ Sign Up
+                        {t('auth.signUpTab')}
                       </Text>
                     </TouchableOpacity>
                   </View>
@@ -538,8 +541,8 @@ export default function SignInScreen() {
                 <Animated.View style={formStyle}>
                   {/* Email field with stardust */}
                   <GlassInput
-                    label="Email address"
-                    placeholder="you@example.com"
+                    label={t('auth.email')}
+                    placeholder={t('auth.emailPlaceholder')}
                     value={email}
                     onChangeText={setEmail}
                     keyboardType="email-address"
@@ -552,7 +555,7 @@ export default function SignInScreen() {
 
                   <GlassInput
                     ref={passwordRef}
-                    label="Password"
+                    label={t('auth.password')}
                     placeholder="••••••••"
                     value={password}
                     onChangeText={setPassword}
@@ -570,8 +573,8 @@ export default function SignInScreen() {
                   {mode === 'signup' && (
                     <GlassInput
                       ref={confirmRef}
-                      label="Confirm password"
-                      placeholder="Repeat password"
+                      label={t('auth.confirmPassword')}
+                      placeholder={t('auth.repeatPassword')}
                       value={confirmPassword}
                       onChangeText={setConfirmPassword}
                       secureTextEntry={!showPassword}
@@ -585,7 +588,7 @@ export default function SignInScreen() {
                       style={styles.forgotBtn}
                       onPress={() => { void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); router.push('/(auth)/forgot-password'); }}
                     >
-                      <Text style={styles.forgotText}>Forgot password?</Text>
+                      <Text style={styles.forgotText}>{t('auth.forgot')}</Text>
                     </TouchableOpacity>
                   )}
 
@@ -598,8 +601,8 @@ export default function SignInScreen() {
                     >
                       <Text style={styles.primaryButtonText}>
                         {isLoading
-                          ? (mode === 'signin' ? 'Signing in…' : 'Creating account…')
-                          : (mode === 'signin' ? '✨ Sign In' : '🌟 Create Account')}
+                          ? (mode === 'signin' ? t('auth.signingIn') : t('auth.creatingAccount'))
+                          : (mode === 'signin' ? t('auth.signIn') : t('auth.createAccount'))}
                       </Text>
                     </LinearGradient>
                   </TouchableOpacity>
@@ -608,7 +611,7 @@ export default function SignInScreen() {
                 {/* Divider */}
                 <View style={styles.divider}>
                   <LinearGradient colors={['transparent', 'rgba(61,63,122,0.8)', 'transparent']} start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }} style={styles.dividerLine} />
-                  <Text style={styles.dividerText}>or</Text>
+                  <Text style={styles.dividerText}>{t('auth.or')}</Text>
                   <LinearGradient colors={['transparent', 'rgba(61,63,122,0.8)', 'transparent']} start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }} style={styles.dividerLine} />
                 </View>
 
@@ -624,10 +627,10 @@ export default function SignInScreen() {
           {/* Footer switcher */}
           <View style={styles.footer}>
             <Text style={styles.footerText}>
-              {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
+              {mode === 'signin' ? t('auth.noAccount') : t('auth.haveAccount')}
             </Text>
             <TouchableOpacity onPress={() => switchMode(mode === 'signin' ? 'signup' : 'signin')} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
-              <Text style={styles.footerLink}>{mode === 'signin' ? 'Sign Up' : 'Sign In'}</Text>
+              <Text style={styles.footerLink}>{mode === 'signin' ? t('auth.signUpLink') : t('auth.signInLink')}</Text>
             </TouchableOpacity>
           </View>
         </ScrollView>
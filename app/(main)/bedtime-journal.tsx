@@ -39,8 +39,10 @@ import Animated, {
 } from 'react-native-reanimated';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import StarField from '@/components/StarField';
+import { childStorageKey } from '@/lib/activeChild';
 import ParentalGate from '@/components/ParentalGate';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W } = Dimensions.get('window');
 
@@ -145,6 +147,7 @@ function DiaryPageCard({
   index:   number;
   onPress: () => void;
 }) {
+  const { language, t } = useAppLanguage();
   const opacity    = useSharedValue(0);
   const translateY = useSharedValue(28);
   const rotate     = useSharedValue(index % 2 === 0 ? -0.8 : 0.8); // subtle page tilt
@@ -164,9 +167,9 @@ function DiaryPageCard({
 
   const dateObj   = new Date(entry.date);
   const dayNum    = dateObj.getDate();
-  const monthName = dateObj.toLocaleDateString('en-US', { month: 'long' });
+  const monthName = dateObj.toLocaleDateString(language, { month: 'long' });
   const yearNum   = dateObj.getFullYear();
-  const weekday   = dateObj.toLocaleDateString('en-US', { weekday: 'long' });
+  const weekday   = dateObj.toLocaleDateString(language, { weekday: 'long' });
   const tint      = getThemeTint(entry.theme);
 
   return (
@@ -222,7 +225,7 @@ function DiaryPageCard({
           {/* Main text */}
           <View style={pageStyles.textArea}>
             <Text style={pageStyles.storyTitle} numberOfLines={1}>📖 {entry.storyTitle}</Text>
-            <Text style={pageStyles.childLabel}>for {entry.childName}</Text>
+            <Text style={pageStyles.childLabel}>{t('journal.for', { name: entry.childName })}</Text>
 
             {entry.answers.length > 0 && (
               <View style={pageStyles.previewBlock}>
@@ -234,9 +237,7 @@ function DiaryPageCard({
                     ↳ {entry.answers[0].answer}
                   </Text>
                 ) : (
-                  <Text style={pageStyles.previewEmpty}>
-                    ↳ tap to add your answer…
-                  </Text>
+                  <Text style={pageStyles.previewEmpty}>{t('journal.tapToAnswer')}</Text>
                 )}
               </View>
             )}
@@ -244,12 +245,14 @@ function DiaryPageCard({
             <View style={pageStyles.footerRow}>
               {entry.parentNotes ? (
                 <View style={pageStyles.notesBadge}>
-                  <Text style={pageStyles.notesBadgeText}>📝 Note added</Text>
+                  <Text style={pageStyles.notesBadgeText}>{t('journal.noteAdded')}</Text>
                 </View>
               ) : null}
               {entry.answers.length > 0 && (
                 <Text style={pageStyles.questionCount}>
-                  {entry.answers.length} question{entry.answers.length !== 1 ? 's' : ''}
+                  {entry.answers.length === 1
+                    ? t('journal.questionOne')
+                    : t('journal.questions', { count: entry.answers.length })}
                 </Text>
               )}
             </View>
@@ -373,6 +376,7 @@ function EntryDetailModal({
   onClose:     () => void;
   onSaveNotes: (notes: string) => void;
 }) {
+  const { language, t } = useAppLanguage();
   const [notes,    setNotes]    = useState(entry?.parentNotes ?? '');
   const [isSaving, setIsSaving] = useState(false);
 
@@ -394,8 +398,8 @@ function EntryDetailModal({
 
   const dateObj  = new Date(entry.date);
   const dayNum   = dateObj.getDate();
-  const monthFull = dateObj.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-  const weekday  = dateObj.toLocaleDateString('en-US', { weekday: 'long' });
+  const monthFull = dateObj.toLocaleDateString(language, { month: 'long', year: 'numeric' });
+  const weekday  = dateObj.toLocaleDateString(language, { weekday: 'long' });
   const tint     = getThemeTint(entry.theme);
 
   return (
@@ -444,7 +448,7 @@ function EntryDetailModal({
                 <Text style={modalStyles.pageStoryTitle} numberOfLines={2}>
                   📖 {entry.storyTitle}
                 </Text>
-                <Text style={modalStyles.pageChildName}>for {entry.childName}</Text>
+                <Text style={modalStyles.pageChildName}>{t('journal.for', { name: entry.childName })}</Text>
               </View>
 
               <TouchableOpacity style={modalStyles.closeBtn} onPress={onClose}>
@@ -457,10 +461,8 @@ function EntryDetailModal({
             {/* Quiet Time Reflections section */}
             {entry.answers.length > 0 && (
               <View style={modalStyles.section}>
-                <Text style={modalStyles.sectionHeader}>🌟 Quiet Time Reflections</Text>
-                <Text style={modalStyles.sectionSubtitle}>
-                  {'AI-generated discussion questions from tonight\'s story'}
-                </Text>
+                <Text style={modalStyles.sectionHeader}>{t('journal.reflections')}</Text>
+                <Text style={modalStyles.sectionSubtitle}>{t('journal.reflectionsHint')}</Text>
 
                 {entry.answers.map((item, i) => (
                   <View key={i} style={modalStyles.qaCard}>
@@ -486,7 +488,7 @@ function EntryDetailModal({
                           <Text style={modalStyles.qaAnswer}>{item.answer}</Text>
                         </View>
                       ) : (
-                        <Text style={modalStyles.qaNoAnswer}>No answer recorded yet</Text>
+                        <Text style={modalStyles.qaNoAnswer}>{t('journal.noAnswer')}</Text>
                       )}
                     </View>
                   </View>
@@ -498,16 +500,14 @@ function EntryDetailModal({
 
             {/* Parent notes section */}
             <View style={modalStyles.section}>
-              <Text style={modalStyles.sectionHeader}>✍️ Your Notes</Text>
-              <Text style={modalStyles.sectionSubtitle}>
-                Private thoughts, observations, or memories about tonight
-              </Text>
+              <Text style={modalStyles.sectionHeader}>{t('journal.notes')}</Text>
+              <Text style={modalStyles.sectionSubtitle}>{t('journal.notesHint')}</Text>
 
               <TextInput
                 style={modalStyles.notesInput}
                 value={notes}
                 onChangeText={setNotes}
-                placeholder={`Write your thoughts about ${entry.childName}'s story tonight…`}
+                placeholder={t('journal.notesPlaceholder', { name: entry.childName })}
                 placeholderTextColor="rgba(153,153,187,0.55)"
                 multiline
                 textAlignVertical="top"
@@ -527,7 +527,7 @@ function EntryDetailModal({
                 style={modalStyles.saveBtnGradient}
               >
                 <Text style={modalStyles.saveBtnText}>
-                  {isSaving ? '✓ Saved' : '💾 Save Notes'}
+                  {isSaving ? t('journal.saved') : t('journal.save')}
                 </Text>
               </LinearGradient>
             </TouchableOpacity>
@@ -736,6 +736,7 @@ const modalStyles = StyleSheet.create({
 export default function BedtimeJournalScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  const { language, t } = useAppLanguage();
 
   const [showGate,      setShowGate]      = useState(true);
   const [gateUnlocked,  setGateUnlocked]  = useState(false);
@@ -768,7 +769,7 @@ export default function BedtimeJournalScreen() {
 
   const loadEntries = useCallback(async () => {
     try {
-      const raw = await AsyncStorage.getItem(JOURNAL_KEY);
+      const raw = await AsyncStorage.getItem(await childStorageKey(JOURNAL_KEY));
       const data: JournalEntry[] = raw ? JSON.parse(raw) : [];
       data.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
       setEntries(data);
@@ -791,12 +792,12 @@ export default function BedtimeJournalScreen() {
   const handleSaveNotes = useCallback(async (notes: string) => {
     if (!selectedEntry) return;
     try {
-      const raw     = await AsyncStorage.getItem(JOURNAL_KEY);
+      const raw     = await AsyncStorage.getItem(await childStorageKey(JOURNAL_KEY));
       const data: JournalEntry[] = raw ? JSON.parse(raw) : [];
       const updated = data.map((e) =>
         e.id === selectedEntry.id ? { ...e, parentNotes: notes } : e
       );
-      await AsyncStorage.setItem(JOURNAL_KEY, JSON.stringify(updated));
+      await AsyncStorage.setItem(await childStorageKey(JOURNAL_KEY), JSON.stringify(updated));
       setEntries(updated.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch {
@@ -813,7 +814,7 @@ export default function BedtimeJournalScreen() {
   // Group entries by month
   const entriesByMonth: Record<string, JournalEntry[]> = {};
   entries.forEach((entry) => {
-    const key = new Date(entry.date).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    const key = new Date(entry.date).toLocaleDateString(language, { month: 'long', year: 'numeric' });
     if (!entriesByMonth[key]) entriesByMonth[key] = [];
     entriesByMonth[key].push(entry);
   });
@@ -838,7 +839,7 @@ export default function BedtimeJournalScreen() {
         visible={showGate && !gateUnlocked}
         onSuccess={handleGateSuccess}
         onDismiss={() => router.back()}
-        context="Bedtime Journal"
+        context={t('journal.title')}
       />
 
       {gateUnlocked && (
@@ -852,12 +853,12 @@ export default function BedtimeJournalScreen() {
           {/* ── Header ───────────────────────────────────────────────────────── */}
           <Animated.View style={[styles.header, headerStyle]}>
             <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
-              <Text style={styles.backText}>← Back</Text>
+              <Text style={styles.backText}>{t('common.back')}</Text>
             </TouchableOpacity>
 
             <View style={styles.headerCenter}>
               <Animated.Text style={[styles.headerMoon, moonStyle]}>🌙</Animated.Text>
-              <Text style={styles.headerTitle}>Bedtime Journal</Text>
+              <Text style={styles.headerTitle}>{t('journal.title')}</Text>
             </View>
 
             <View style={{ width: 60 }} />
@@ -891,9 +892,9 @@ export default function BedtimeJournalScreen() {
               <View style={styles.heroInner}>
                 <Text style={styles.heroEmoji}>📓</Text>
                 <View style={styles.heroTextBlock}>
-                  <Text style={styles.heroTitle}>{"Parent's Private Journal"}</Text>
+                  <Text style={styles.heroTitle}>{t('journal.heroTitle')}</Text>
                   <Text style={styles.heroSubtitle}>
-                    {"Your child's AI-generated reflection questions — one floating page per story. Protected by the Crystal Gate, just for you."}
+                    {t('journal.heroText')}
                   </Text>
                 </View>
               </View>
@@ -904,21 +905,21 @@ export default function BedtimeJournalScreen() {
               <View style={styles.statsRow}>
                 <View style={styles.statChip}>
                   <Text style={styles.statValue}>{entries.length}</Text>
-                  <Text style={styles.statLabel}>stories</Text>
+                  <Text style={styles.statLabel}>{t('journal.stories')}</Text>
                 </View>
                 <View style={styles.statDot} />
                 <View style={styles.statChip}>
                   <Text style={styles.statValue}>
                     {entries.reduce((acc, e) => acc + e.answers.filter(a => a.answer).length, 0)}
                   </Text>
-                  <Text style={styles.statLabel}>reflections</Text>
+                  <Text style={styles.statLabel}>{t('journal.reflectionCount')}</Text>
                 </View>
                 <View style={styles.statDot} />
                 <View style={styles.statChip}>
                   <Text style={styles.statValue}>
                     {entries.filter(e => e.parentNotes).length}
                   </Text>
-                  <Text style={styles.statLabel}>notes</Text>
+                  <Text style={styles.statLabel}>{t('journal.noteCount')}</Text>
                 </View>
               </View>
             )}
@@ -937,9 +938,9 @@ export default function BedtimeJournalScreen() {
                   <View style={styles.emptyShine} />
 
                   <Text style={styles.emptyEmoji}>📖</Text>
-                  <Text style={styles.emptyTitle}>No diary entries yet</Text>
+                  <Text style={styles.emptyTitle}>{t('journal.emptyTitle')}</Text>
                   <Text style={styles.emptyText}>
-                    {'When your child finishes a story and you tap "Begin Quiet Time", AI-generated reflection questions will appear here as floating journal pages.'}
+                    {t('journal.emptyText')}
                   </Text>
                   <TouchableOpacity
                     style={styles.emptyBtn}
@@ -949,7 +950,7 @@ export default function BedtimeJournalScreen() {
                       colors={['rgba(255,215,0,0.15)', 'rgba(255,215,0,0.05)']}
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                     />
-                    <Text style={styles.emptyBtnText}>✨ Create a Story →</Text>
+                    <Text style={styles.emptyBtnText}>{t('journal.createStory')}</Text>
                   </TouchableOpacity>
                 </View>
               </View>
@@ -985,7 +986,7 @@ export default function BedtimeJournalScreen() {
             {entries.length > 0 && (
               <View style={styles.bottomDecor}>
                 <ConstellationDivider />
-                <Text style={styles.bottomText}>✦ End of journal ✦</Text>
+                <Text style={styles.bottomText}>{t('journal.end')}</Text>
               </View>
             )}
           </Animated.View>
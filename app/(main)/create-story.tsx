@@ -11,7 +11,7 @@ import {
   Platform,
   Modal,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -35,11 +35,22 @@ import * as ImagePicker from 'expo-image-picker';
 import WarpStarField from '@/components/WarpStarField';
 import PolaroidReveal from '@/components/PolaroidReveal';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
-import { generateText, generateImage, useImageTransform } from '@fastshot/ai';
+import { generateImage, useImageTransform } from '@fastshot/ai';
 import { getChildren, createStory, isSupabaseAvailable, upsertUserPreferences } from '@/lib/supabase';
-import { buildStoryPrompt, buildImagePrompt, buildInteractiveStoryPrompt, NARRATOR_PERSONALITIES, STORY_ART_STYLES, type NarratorPersonality, type ArtStyle, type ChoiceOption } from '@/lib/newell';
-import type { Child } from '@/lib/supabase';
+import { buildStoryPrompt, buildImagePrompt, buildInteractiveStoryPrompt, buildSagaChapterPrompt, NARRATOR_PERSONALITIES, STORY_ART_STYLES, type NarratorPersonality, type ArtStyle } from '@/lib/newell';
+import { generateStructuredStory } from '@/lib/storyGeneration';
+import { moderateStory } from '@/lib/contentSafety';
+import type { Child, StoryCharacter, StorySaga } from '@/lib/supabase';
+import { getActiveChild, childStorageKey } from '@/lib/activeChild';
+import { canCreateStoriesFor, getMyFamilyRole, FAMILY_ROLES } from '@/lib/familyRoles';
+import { enqueueMutation, createLocalId } from '@/lib/mutationQueue';
+import { getSagas, recordSagaChapter, startSaga } from '@/lib/sagas';
+import { getCharacters, MAX_FEATURED } from '@/lib/characters';
+import { illustratePictureBook } from '@/lib/pictureBook';
+import { putStory } from '@/lib/storyStore';
+import { languageInfo, type StringKey } from '@/lib/i18n';
 import { useAdapty } from '@/hooks/useAdapty';
+import { useAppLanguage, type UseAppLanguageReturn } from '@/hooks/useAppLanguage';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Theme definitions
@@ -48,9 +59,13 @@ const NEBULA_PURPLE = '#9B6FDE';
 
 interface StoryTheme {
   id: string;
+  /** English label – goes into the story prompt, never shown on screen. */
   label: string;
+  labelKey: StringKey;
+  /** In-sentence form, e.g. "Ready to create your {theme} story". */
+  adjectiveKey: StringKey;
   icon: string;
-  description: string;
+  description: StringKey;
   accentColor: string;
   gradientColors: [string, string];
 }
@@ -59,37 +74,57 @@ const STORY_THEMES: StoryTheme[] = [
   {
     id: 'adventurous',
     label: 'Adventurous',
+    labelKey: 'create.themeAdventurous',
+    adjectiveKey: 'create.themeAdventurousAdj',
     icon: '🗺️',
-    description: 'Brave heroes & thrilling quests',
+    description: 'create.themeAdventurousDesc',
     accentColor: '#FF8C42',
     gradientColors: ['rgba(255,140,66,0.25)', 'rgba(255,140,66,0.05)'],
   },
   {
     id: 'calming',
     label: 'Calming',
+    labelKey: 'create.themeCalming',
+    adjectiveKey: 'create.themeCalmingAdj',
     icon: '🌙',
-    description: 'Peaceful dreams & soft magic',
+    description: 'create.themeCalmingDesc',
     accentColor: Colors.softBlue,
     gradientColors: ['rgba(126,200,227,0.25)', 'rgba(126,200,227,0.05)'],
   },
   {
     id: 'funny',
     label: 'Funny',
+    labelKey: 'create.themeFunny',
+    adjectiveKey: 'create.themeFunnyAdj',
     icon: '😄',
-    description: 'Silly characters & big laughs',
+    description: 'create.themeFunnyDesc',
     accentColor: Colors.accentPink,
     gradientColors: ['rgba(255,107,157,0.25)', 'rgba(255,107,157,0.05)'],
   },
   {
     id: 'educational',
     label: 'Educational',
+    labelKey: 'create.themeEducational',
+    adjectiveKey: 'create.themeEducationalAdj',
     icon: '📚',
-    description: 'Learn something wonderful',
+    description: 'create.themeEducationalDesc',
     accentColor: Colors.successGreen,
     gradientColors: ['rgba(107,203,119,0.25)', 'rgba(107,203,119,0.05)'],
   },
 ];
 
+const ART_STYLE_LABELS: Record<string, StringKey> = {
+  space_captain:  'create.artSpaceCaptain',
+  brave_knight:   'create.artBraveKnight',
+  forest_fairy:   'create.artForestFairy',
+  ocean_explorer: 'create.artOceanExplorer',
+};
+
+function artStyleLabel(style: ArtStyle, t: UseAppLanguageReturn['t']): string {
+  const key = ART_STYLE_LABELS[style.id];
+  return key ? t(key) : style.label;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Theme card
 // ─────────────────────────────────────────────────────────────────────────────
@@ -104,6 +139,7 @@ function ThemeCard({
   onPress: () => void;
   disabled: boolean;
 }) {
+  const { t } = useAppLanguage();
   const scale     = useSharedValue(1);
   const glowOpacity = useSharedValue(isSelected ? 1 : 0);
 
@@ -172,9 +208,9 @@ function ThemeCard({
         <View style={styles.glassTopEdge} />
         <Text style={styles.themeIcon}>{theme.icon}</Text>
         <Text style={[styles.themeLabel, isSelected && { color: theme.accentColor }]}>
-          {theme.label}
+          {t(theme.labelKey)}
         </Text>
-        <Text style={styles.themeDescription} numberOfLines={2}>{theme.description}</Text>
+        <Text style={styles.themeDescription} numberOfLines={2}>{t(theme.description)}</Text>
 
         {isSelected && (
           <View style={[styles.selectedBadge, { backgroundColor: theme.accentColor }]}>
@@ -254,6 +290,7 @@ function StardustLimitModal({
   onClose: () => void;
   onUpgrade: () => void;
 }) {
+  const { t } = useAppLanguage();
   const scale = useSharedValue(0.85);
   const opacity = useSharedValue(0);
 
@@ -288,10 +325,8 @@ function StardustLimitModal({
           <View style={limitModal.shine} />
 
           <Text style={limitModal.emoji}>⭐</Text>
-          <Text style={limitModal.title}>Stardust Limit Reached</Text>
-          <Text style={limitModal.subtitle}>
-            {"You've used all 3 stories for this week on the Star-Seeker plan."}
-          </Text>
+          <Text style={limitModal.title}>{t('create.limitTitle')}</Text>
+          <Text style={limitModal.subtitle}>{t('create.limitText')}</Text>
 
           <View style={limitModal.infoBox}>
             <LinearGradient
@@ -299,9 +334,9 @@ function StardustLimitModal({
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.md }]}
             />
             <Text style={limitModal.infoText}>
-              {'✦ Upgrade to '}
+              {t('create.limitUpgradeBefore')}
               <Text style={limitModal.infoHighlight}>Galaxy-Traveler</Text>
-              {' for unlimited story generation and exclusive narrators.'}
+              {t('create.limitUpgradeAfter')}
             </Text>
           </View>
 
@@ -317,12 +352,12 @@ function StardustLimitModal({
               end={{ x: 1, y: 0 }}
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
             />
-            <Text style={limitModal.upgradeBtnText}>🌌 Unlock Galaxy-Traveler</Text>
+            <Text style={limitModal.upgradeBtnText}>{t('create.limitUnlock')}</Text>
           </TouchableOpacity>
 
           {/* Dismiss */}
           <TouchableOpacity style={limitModal.dismissBtn} onPress={onClose} activeOpacity={0.7}>
-            <Text style={limitModal.dismissText}>Maybe later</Text>
+            <Text style={limitModal.dismissText}>{t('common.maybeLater')}</Text>
           </TouchableOpacity>
         </Animated.View>
       </View>
@@ -435,7 +470,9 @@ const CARD_PADDING = W < 360 ? Spacing.sm : W < 414 ? Spacing.md : Spacing.lg;
 export default function CreateStoryScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  const { sagaId } = useLocalSearchParams<{ sagaId?: string }>();
   const { user }  = useAuth();
+  const { language: appLanguage, t } = useAppLanguage();
   const { isPremium, openPaywall } = useAdapty();
 
   const [child,          setChild]          = useState<Child | null>(null);
@@ -453,7 +490,15 @@ export default function CreateStoryScreen() {
   const [transformStep,        setTransformStep]        = useState('');
 
   const [isInteractiveMode, setIsInteractiveMode] = useState(false);
-  const [appLanguage, setAppLanguage] = useState('en');
+  // Picture book: an illustration for every paragraph, painted after the story opens
+  const [isPictureBook, setIsPictureBook] = useState(false);
+  // Saga mode: 'new' starts a saga, otherwise the id of the saga to continue
+  const [isSagaMode,     setIsSagaMode]     = useState(Boolean(sagaId));
+  const [sagas,          setSagas]          = useState<StorySaga[]>([]);
+  const [selectedSagaId, setSelectedSagaId] = useState<string>(sagaId ?? 'new');
+  // Recurring characters from the child's cast to feature tonight
+  const [cast,        setCast]        = useState<StoryCharacter[]>([]);
+  const [featuredIds, setFeaturedIds] = useState<string[]>([]);
   const [showLimitModal, setShowLimitModal] = useState(false);
 
   // Image transform hook
@@ -469,24 +514,24 @@ export default function CreateStoryScreen() {
   const nebulaScale    = useSharedValue(1);
 
   const loadChild = useCallback(async () => {
+    let active: Child | null;
     try {
-      if (user?.id) {
-        const { children } = await getChildren(user.id);
-        if (children && children.length > 0) {
-          setChild(children[0]);
-        }
-      }
-      if (!child) {
-        const local = await AsyncStorage.getItem('pending_child_profile');
-        if (local) setChild(JSON.parse(local) as Child);
-      }
+      const { children } = user?.id ? await getChildren(user.id) : { children: null };
+      active = await getActiveChild(children && children.length > 0 ? children : undefined);
     } catch {
-      const local = await AsyncStorage.getItem('pending_child_profile');
-      if (local) setChild(JSON.parse(local) as Child);
+      active = await getActiveChild();
+    }
+    setChild(active);
+    // Ongoing sagas this child can continue
+    try {
+      const childSagas = active ? await getSagas(active.id) : [];
+      setSagas(childSagas.filter((s) => s.status === 'ongoing'));
+    } catch {
+      // non-fatal
     }
     // Load selected narrator personality
     try {
-      const narratorId = await AsyncStorage.getItem('selected_narrator_id');
+      const narratorId = await AsyncStorage.getItem(await childStorageKey('selected_narrator_id'));
       if (narratorId) {
         const narrator = NARRATOR_PERSONALITIES.find((n) => n.id === narratorId);
         setNarratorPersonality(narrator ?? null);
@@ -494,14 +539,6 @@ export default function CreateStoryScreen() {
     } catch {
       // non-fatal
     }
-    // Load app language
-    try {
-      const lang = await AsyncStorage.getItem('app_language');
-      if (lang) setAppLanguage(lang);
-    } catch {
-      // non-fatal
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
   useEffect(() => {
@@ -512,6 +549,15 @@ export default function CreateStoryScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [loadChild]);
 
+  // The cast can be edited on story-cast and come back here
+  useFocusEffect(useCallback(() => {
+    if (!child) return;
+    void getCharacters(child.id).then((characters) => {
+      setCast(characters);
+      setFeaturedIds((ids) => ids.filter((id) => characters.some((c) => c.id === id)));
+    });
+  }, [child]));
+
   // ── Start/stop nebula glow based on isGenerating ───────────────────────
   useEffect(() => {
     if (isGenerating) {
@@ -546,7 +592,7 @@ export default function CreateStoryScreen() {
     try {
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
       if (status !== 'granted') {
-        Alert.alert('Permission needed', 'Please allow access to your photo library to add a family portrait.');
+        Alert.alert(t('create.photoPermissionTitle'), t('create.photoPermission'));
         return;
       }
       const result = await ImagePicker.launchImageLibraryAsync({
@@ -561,7 +607,7 @@ export default function CreateStoryScreen() {
       }
     } catch (err) {
       console.error('[FamilyPortrait] Photo picker error:', err);
-      Alert.alert('Error', 'Could not open photo library. Please try again.');
+      Alert.alert(t('create.photoErrorTitle'), t('create.photoError'));
     }
   };
 
@@ -569,9 +615,9 @@ export default function CreateStoryScreen() {
     if (!selectedPhotoUri || !selectedArtStyle) return;
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setIsTransformingPhoto(true);
-    setTransformStep('Preparing your portrait…');
+    setTransformStep(t('create.portraitPreparing'));
     try {
-      setTransformStep('AI is painting your portrait…');
+      setTransformStep(t('create.portraitPainting'));
       const result = await transformImage({
         imageUrl: selectedPhotoUri,
         prompt: selectedArtStyle.transformPrompt,
@@ -585,48 +631,33 @@ export default function CreateStoryScreen() {
       }
     } catch (err) {
       console.error('[FamilyPortrait] Transform error:', err);
-      Alert.alert('Portrait failed', 'Could not transform the photo. Please try again.');
+      Alert.alert(t('create.portraitFailedTitle'), t('create.portraitFailed'));
     } finally {
       setIsTransformingPhoto(false);
       setTransformStep('');
     }
   };
 
-  // ── Parse choice point from interactive story response ────────────────
-  function parseChoicePoint(rawText: string): {
-    storyContent: string;
-    choiceOptions: ChoiceOption[];
-  } {
-    const choiceMatch = rawText.match(/\[CHOICE_POINT\]([\s\S]*?)\[\/CHOICE_POINT\]/);
-    if (!choiceMatch) return { storyContent: rawText, choiceOptions: [] };
-
-    const choiceBlock = choiceMatch[1];
-    const storyContent = rawText.replace(choiceMatch[0], '').trim();
-
-    const pathAEmoji = choiceBlock.match(/PATH_A_EMOJI:\s*(.+)/)?.[1]?.trim() ?? '🌟';
-    const pathALabel = choiceBlock.match(/PATH_A_LABEL:\s*(.+)/)?.[1]?.trim() ?? 'Follow the magic path';
-    const pathAHint  = choiceBlock.match(/PATH_A_HINT:\s*(.+)/)?.[1]?.trim() ?? pathALabel;
-    const pathBEmoji = choiceBlock.match(/PATH_B_EMOJI:\s*(.+)/)?.[1]?.trim() ?? '🏠';
-    const pathBLabel = choiceBlock.match(/PATH_B_LABEL:\s*(.+)/)?.[1]?.trim() ?? 'Return home to rest';
-    const pathBHint  = choiceBlock.match(/PATH_B_HINT:\s*(.+)/)?.[1]?.trim() ?? pathBLabel;
-
-    return {
-      storyContent,
-      choiceOptions: [
-        { emoji: pathAEmoji, label: pathALabel, value: pathAHint },
-        { emoji: pathBEmoji, label: pathBLabel, value: pathBHint },
-      ],
-    };
-  }
-
   // ── Generate handler ───────────────────────────────────────────────────
   const handleGenerate = async () => {
     if (!selectedTheme) {
-      Alert.alert('Choose a Theme', 'Please pick a story theme before generating.');
+      Alert.alert(t('create.chooseThemeTitle'), t('create.chooseThemeText'));
       return;
     }
     if (!child) {
-      Alert.alert('Child Profile Missing', 'Please set up a child profile first.');
+      Alert.alert(t('create.missingChildTitle'), t('create.missingChild'));
+      return;
+    }
+    if (!(await canCreateStoriesFor(child, user?.id))) {
+      const role = await getMyFamilyRole();
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Alert.alert(
+        t('profile.sharedTitle'),
+        t('create.sharedAs', {
+          name: child.name,
+          role: t(role ? FAMILY_ROLES[role].noun : 'create.sharedMember'),
+        }),
+      );
       return;
     }
 
@@ -641,7 +672,6 @@ export default function CreateStoryScreen() {
     }
 
     const themeObj = STORY_THEMES.find((t) => t.id === selectedTheme);
-    const storyTitle = `A ${themeObj?.label ?? 'Magical'} Story for ${child.name}`;
 
     // Button press bounce + haptic
     buttonScale.value = withSequence(
@@ -651,51 +681,76 @@ export default function CreateStoryScreen() {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
 
     setIsGenerating(true);
-    setGenerationStep('Gathering the stardust…');
+    setGenerationStep(t('create.stepGathering'));
 
     try {
-      // ── Step 1: Generate story text via Newell AI ───────────────────
-      let storyText: string;
-      let choiceOptions: ChoiceOption[] = [];
-
-      if (isInteractiveMode) {
-        const interactivePrompt = buildInteractiveStoryPrompt({
+      // ── Step 1: Generate the story as validated JSON via Newell AI ──
+      const continuedSaga = isSagaMode ? sagas.find((s) => s.id === selectedSagaId) ?? null : null;
+      const featuredCast  = cast.filter((c) => featuredIds.includes(c.id));
+      const prompt = isSagaMode
+        ? buildSagaChapterPrompt({
           child,
           voiceType: 'mom',
           theme:     themeObj?.label,
+          mood:      selectedTheme === 'calming' ? 'very soothing and sleep-inducing' : undefined,
           narratorPersonality: narratorPersonality ?? undefined,
-        }, appLanguage !== 'en' ? appLanguage : undefined);
-        const rawText = await generateText({ prompt: interactivePrompt, temperature: 0.75 });
-        if (!rawText || rawText.trim().length === 0) {
-          throw new Error('AI returned an empty story. Please try again.');
-        }
-        const parsed = parseChoicePoint(rawText.trim());
-        storyText = parsed.storyContent;
-        choiceOptions = parsed.choiceOptions;
-      } else {
-        const storyPrompt = buildStoryPrompt({
+          characters: featuredCast,
+          language:  appLanguage,
+        }, continuedSaga)
+        : isInteractiveMode
+        ? buildInteractiveStoryPrompt({
+          child,
+          voiceType: 'mom',
+          theme:     themeObj?.label,
+          narratorPersonality: narratorPersonality ?? undefined,
+          characters: featuredCast,
+          language:  appLanguage,
+        })
+        : buildStoryPrompt({
           child,
           voiceType: 'mom',
           theme:     themeObj?.label,
           mood:      selectedTheme === 'calming' ? 'very soothing and sleep-inducing' : undefined,
           narratorPersonality: narratorPersonality ?? undefined,
+          characters: featuredCast,
+          language:  appLanguage,
         });
-        const rawText = await generateText({ prompt: storyPrompt, temperature: 0.75 });
-        if (!rawText || rawText.trim().length === 0) {
-          throw new Error('AI returned an empty story. Please try again.');
-        }
-        storyText = rawText.trim();
-      }
+      const generate = () => generateStructuredStory({
+        prompt,
+        kind:  isSagaMode ? 'chapter' : isInteractiveMode ? 'interactive' : 'bedtime',
+        child,
+      });
+
+      // Screen it before the child sees it – flagged passages are softened or replaced
+      const { story: generated } = await moderateStory(await generate(), {
+        age:        child.age,
+        allowNames: [child.name],
+        childId:    child.id,
+        boundaries: child,
+        language:   appLanguage,
+        regenerate: generate,
+      });
+      const storyTitle    = generated.title;
+      const storyText     = generated.paragraphs.join('\n\n');
+      const choiceOptions = generated.choicePoint?.options ?? [];
 
-      setGenerationStep('Weaving the magic words…');
+      setGenerationStep(t('create.stepWeaving'));
       void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
+      // Saga chapters belong to a saga – tonight's title names a new one
+      const saga = isSagaMode
+        ? continuedSaga ?? await startSaga({ userId: user?.id, child, title: storyTitle, theme: themeObj?.label ?? selectedTheme })
+        : null;
+      const sagaFields = saga
+        ? { saga_id: saga.id, chapter_number: saga.chapter_count + 1, recap: generated.sagaMemory?.recap ?? null }
+        : {};
+
       // ── Step 2: Generate cover illustration via Newell AI ───────────
-      const imagePrompt = buildImagePrompt(child, storyTitle);
+      const imagePrompt = buildImagePrompt(child, storyTitle, generated.imagePrompt, featuredCast);
       let imageUrl: string | null = null;
 
       try {
-        setGenerationStep('Painting the dreamscape…');
+        setGenerationStep(t('create.stepPainting'));
         const imageResult = await generateImage({
           prompt: imagePrompt,
           width:  768,
@@ -706,31 +761,49 @@ export default function CreateStoryScreen() {
         console.warn('[CreateStory] Image generation failed (non-fatal):', imgErr);
       }
 
-      setGenerationStep('Almost ready…');
+      setGenerationStep(t('create.stepAlmost'));
       void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
       // ── Step 3: Save to Supabase ─────────────────────────────────────
       let savedStoryId: string | null = null;
       if (user?.id && isSupabaseAvailable) {
+        const storyRow = {
+          user_id:     user.id,
+          child_id:    child?.id ?? null,
+          title:       storyTitle,
+          content:     storyText,
+          image_url:   imageUrl,
+          theme:       themeObj?.label ?? selectedTheme,
+          is_favorite: false,
+          narrator_id:    narratorPersonality?.id ?? null,
+          is_interactive: isInteractiveMode,
+          language:       appLanguage,
+          ...sagaFields,
+        };
         try {
-          const { story: savedStory } = await createStory({
-            user_id:     user.id,
-            child_id:    child?.id ?? null,
-            title:       storyTitle,
-            content:     storyText,
-            image_url:   imageUrl,
-            theme:       themeObj?.label ?? selectedTheme,
-            is_favorite: false,
-          });
+          const { story: savedStory } = await createStory(storyRow);
           savedStoryId = savedStory?.id ?? null;
 
           // Update last_sync_at in user preferences
-          await upsertUserPreferences(user.id, {
-            last_sync_at: new Date().toISOString(),
-          });
+          if (savedStoryId) {
+            await upsertUserPreferences(user.id, {
+              last_sync_at: new Date().toISOString(),
+            });
+          }
         } catch (dbErr) {
           console.warn('[CreateStory] Supabase save failed (non-fatal):', dbErr);
         }
+        if (!savedStoryId) {
+          // Offline – keep a local id and let the mutation queue insert it later
+          savedStoryId = createLocalId();
+          await enqueueMutation({
+            userId:   user.id,
+            table:    'stories',
+            op:       'create',
+            recordId: savedStoryId,
+            payload:  storyRow,
+          });
+        }
       }
 
       // ── Step 4: Persist story for the player via AsyncStorage ────────
@@ -742,27 +815,43 @@ export default function CreateStoryScreen() {
         content:     storyText,
         imageUrl:    finalImageUrl,
         childName:   child.name,
+        child_id:    child.id ?? null,
         theme:       themeObj?.label ?? selectedTheme,
         createdAt:   new Date().toISOString(),
         is_favorite: false,
         isInteractive: isInteractiveMode,
         choiceOptions: choiceOptions.length > 0 ? choiceOptions : undefined,
+        choiceQuestion: generated.choicePoint?.question,
+        readingLevel:  generated.readingLevel,
         branchContent: null,
         hasFamilyPortrait: Boolean(transformedPortrait),
         artStyleLabel: selectedArtStyle?.label,
+        pictureBook:   isPictureBook,
+        narratorId:    narratorPersonality?.id,
+        language:      appLanguage,
+        ...sagaFields,
       };
 
+      if (saga) await recordSagaChapter(saga.id, generated.sagaMemory, user?.id);
+
       await AsyncStorage.setItem('current_story', JSON.stringify(storyEntry));
 
-      // Also append to local_stories for the Safe Mode bookshelf
+      // Also keep it in the story store for the bookshelf (and offline)
       try {
-        const existingRaw = await AsyncStorage.getItem('local_stories');
-        const existing: typeof storyEntry[] = existingRaw ? JSON.parse(existingRaw) : [];
-        // Keep only the most recent 20 stories to avoid unbounded growth
-        const updated = [storyEntry, ...existing].slice(0, 20);
-        await AsyncStorage.setItem('local_stories', JSON.stringify(updated));
+        await putStory(storyEntry);
       } catch (storageErr) {
-        console.warn('[CreateStory] Failed to update local_stories:', storageErr);
+        console.warn('[CreateStory] Failed to store story:', storageErr);
+      }
+
+      // Pages are painted in the background – the player shows them as they arrive
+      if (isPictureBook) {
+        void illustratePictureBook({
+          storyId:    storyEntry.id,
+          child,
+          title:      storyTitle,
+          paragraphs: generated.paragraphs,
+          characters: featuredCast,
+        }).catch((bookErr) => console.warn('[CreateStory] Picture book failed (non-fatal):', bookErr));
       }
 
       // ── Step 5: Navigate to the immersive player ─────────────────────
@@ -789,9 +878,9 @@ export default function CreateStoryScreen() {
       setIsGenerating(false);
       setGenerationStep('');
       Alert.alert(
-        'Generation Failed',
-        'Something went wrong while creating your story. Please try again.',
-        [{ text: 'OK' }]
+        t('create.failedTitle'),
+        t('create.failed'),
+        [{ text: t('create.ok') }]
       );
     }
   };
@@ -846,8 +935,8 @@ export default function CreateStoryScreen() {
             <Text style={styles.backIcon}>‹</Text>
           </TouchableOpacity>
           <View style={styles.headerCenter}>
-            <Text style={styles.headerTitle}>Create Story</Text>
-            <Text style={styles.headerSubtitle}>Personalised bedtime magic ✨</Text>
+            <Text style={styles.headerTitle}>{t('create.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('create.subtitle')}</Text>
           </View>
           {/* Spacer to balance back button */}
           <View style={styles.backButton} />
@@ -871,7 +960,7 @@ export default function CreateStoryScreen() {
                 </Text>
               </View>
               <View style={styles.childMiniInfo}>
-                <Text style={styles.childMiniLabel}>Story for</Text>
+                <Text style={styles.childMiniLabel}>{t('create.storyFor')}</Text>
                 <Text style={styles.childMiniName}>{child.name}</Text>
                 {child.interests.length > 0 && (
                   <Text style={styles.childMiniInterests} numberOfLines={1}>
@@ -886,7 +975,7 @@ export default function CreateStoryScreen() {
               style={styles.noChildCard}
               onPress={() => router.push('/(onboarding)/child-profile')}
             >
-              <Text style={styles.noChildText}>+ Set up a child profile first</Text>
+              <Text style={styles.noChildText}>{t('create.noChild')}</Text>
             </TouchableOpacity>
           )}
 
@@ -907,12 +996,12 @@ export default function CreateStoryScreen() {
             <View style={styles.portraitToggleLeft}>
               <Text style={styles.portraitToggleEmoji}>📸</Text>
               <View>
-                <Text style={styles.portraitToggleLabel}>AI Family Portrait</Text>
-                <Text style={styles.portraitToggleSubLabel}>Transform a photo into story art ✨</Text>
+                <Text style={styles.portraitToggleLabel}>{t('create.portraitToggle')}</Text>
+                <Text style={styles.portraitToggleSubLabel}>{t('create.portraitToggleHint')}</Text>
               </View>
             </View>
             <View style={styles.portraitProBadge}>
-              <Text style={styles.portraitProText}>PRO</Text>
+              <Text style={styles.portraitProText}>{t('create.pro')}</Text>
             </View>
             <Text style={styles.portraitToggleChevron}>{showPortraitSection ? '▲' : '▼'}</Text>
           </TouchableOpacity>
@@ -920,7 +1009,7 @@ export default function CreateStoryScreen() {
           {showPortraitSection && (
             <View style={styles.portraitSection}>
               {/* Art style selection */}
-              <Text style={styles.portraitSectionTitle}>Choose Art Style</Text>
+              <Text style={styles.portraitSectionTitle}>{t('create.chooseArtStyle')}</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.artStylesRow}>
                 {STORY_ART_STYLES.map((style) => (
                   <TouchableOpacity
@@ -947,7 +1036,7 @@ export default function CreateStoryScreen() {
                     <Text style={[
                       styles.artStyleCardLabel,
                       selectedArtStyle?.id === style.id && { color: Colors.celestialGold },
-                    ]}>{style.label}</Text>
+                    ]}>{artStyleLabel(style, t)}</Text>
                   </TouchableOpacity>
                 ))}
               </ScrollView>
@@ -965,7 +1054,7 @@ export default function CreateStoryScreen() {
                   ) : (
                     <>
                       <Text style={styles.pickPhotoBtnEmoji}>🖼️</Text>
-                      <Text style={styles.pickPhotoBtnText}>Upload Photo</Text>
+                      <Text style={styles.pickPhotoBtnText}>{t('create.uploadPhoto')}</Text>
                     </>
                   )}
                 </TouchableOpacity>
@@ -983,7 +1072,7 @@ export default function CreateStoryScreen() {
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                     />
                     <Text style={styles.transformBtnText}>
-                      {isTransformingPhoto ? '✨ Painting…' : `✨ Transform`}
+                      {isTransformingPhoto ? t('create.transforming') : t('create.transform')}
                     </Text>
                   </TouchableOpacity>
                 )}
@@ -994,8 +1083,10 @@ export default function CreateStoryScreen() {
                 <View style={styles.polaroidContainer}>
                   <PolaroidReveal
                     imageUri={transformedPortrait}
-                    caption={child?.name ? `${child.name}'s Story Portrait` : 'Story Portrait'}
-                    artStyleLabel={selectedArtStyle?.label}
+                    caption={child?.name
+                      ? t('create.portraitCaption', { name: child.name })
+                      : t('create.portraitCaptionNoName')}
+                    artStyleLabel={selectedArtStyle ? artStyleLabel(selectedArtStyle, t) : undefined}
                     artStyleEmoji={selectedArtStyle?.emoji}
                     isTransforming={isTransformingPhoto}
                     transformStep={transformStep}
@@ -1006,7 +1097,7 @@ export default function CreateStoryScreen() {
                       style={styles.retransformLink}
                       onPress={() => { setTransformedPortrait(null); setSelectedPhotoUri(null); }}
                     >
-                      <Text style={styles.retransformLinkText}>Change photo or style</Text>
+                      <Text style={styles.retransformLinkText}>{t('create.changePhoto')}</Text>
                     </TouchableOpacity>
                   )}
                 </View>
@@ -1025,6 +1116,7 @@ export default function CreateStoryScreen() {
                 return;
               }
               setIsInteractiveMode(!isInteractiveMode);
+              if (!isInteractiveMode) setIsSagaMode(false);
             }}
             disabled={isGenerating}
             activeOpacity={0.82}
@@ -1039,23 +1131,162 @@ export default function CreateStoryScreen() {
               <Text style={styles.portraitToggleEmoji}>🗺️</Text>
               <View>
                 <Text style={[styles.portraitToggleLabel, isInteractiveMode && { color: '#C9A8FF' }]}>
-                  Interactive Adventure
+                  {t('create.interactive')}
                 </Text>
                 <Text style={styles.portraitToggleSubLabel}>
-                  {isInteractiveMode ? '✓ Child chooses the story path!' : 'Let your child choose the story path ✨'}
+                  {isInteractiveMode ? t('create.interactiveOn') : t('create.interactiveOff')}
                 </Text>
               </View>
             </View>
             <View style={[styles.portraitProBadge, isInteractiveMode && { backgroundColor: 'rgba(107,72,184,0.4)' }]}>
-              <Text style={styles.portraitProText}>{isInteractiveMode ? 'ON' : 'PRO'}</Text>
+              <Text style={styles.portraitProText}>{isInteractiveMode ? t('create.on') : t('create.pro')}</Text>
+            </View>
+          </TouchableOpacity>
+
+          {/* ── Story Saga: a story that continues night after night ── */}
+          <TouchableOpacity
+            style={[styles.portraitToggleBtn, isSagaMode && styles.sagaActiveBtn]}
+            onPress={() => {
+              void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setIsSagaMode(!isSagaMode);
+              if (!isSagaMode) setIsInteractiveMode(false);
+            }}
+            disabled={isGenerating}
+            activeOpacity={0.82}
+          >
+            <LinearGradient
+              colors={isSagaMode
+                ? ['rgba(126,200,227,0.30)', 'rgba(126,200,227,0.10)']
+                : ['rgba(255,255,255,0.08)', 'rgba(255,255,255,0.02)']}
+              style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
+            />
+            <View style={styles.portraitToggleLeft}>
+              <Text style={styles.portraitToggleEmoji}>🌙</Text>
+              <View>
+                <Text style={[styles.portraitToggleLabel, isSagaMode && { color: Colors.softBlue }]}>
+                  {t('create.saga')}
+                </Text>
+                <Text style={styles.portraitToggleSubLabel}>
+                  {isSagaMode ? t('create.sagaOn') : t('create.sagaOff')}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.portraitToggleChevron}>{isSagaMode ? t('create.on') : t('create.off')}</Text>
+          </TouchableOpacity>
+
+          {isSagaMode && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.sagaChipsRow}
+              contentContainerStyle={styles.sagaChipsContent}
+            >
+              {[{ id: 'new', label: t('create.sagaNew') }, ...sagas.map((s) => ({
+                id:    s.id,
+                label: t('create.sagaChip', { title: s.title, chapter: s.chapter_count + 1 }),
+              }))].map((option) => {
+                const isSelected = selectedSagaId === option.id;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.sagaChip, isSelected && styles.sagaChipSelected]}
+                    onPress={() => {
+                      void Haptics.selectionAsync();
+                      setSelectedSagaId(option.id);
+                    }}
+                    disabled={isGenerating}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.sagaChipText, isSelected && { color: Colors.softBlue }]} numberOfLines={1}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          {/* ── Picture book: a painting on every page ────────────────── */}
+          <TouchableOpacity
+            style={[styles.portraitToggleBtn, isPictureBook && styles.pictureBookActiveBtn]}
+            onPress={() => {
+              void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setIsPictureBook(!isPictureBook);
+            }}
+            disabled={isGenerating}
+            activeOpacity={0.82}
+          >
+            <LinearGradient
+              colors={isPictureBook
+                ? ['rgba(255,140,66,0.28)', 'rgba(255,140,66,0.08)']
+                : ['rgba(255,255,255,0.08)', 'rgba(255,255,255,0.02)']}
+              style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
+            />
+            <View style={styles.portraitToggleLeft}>
+              <Text style={styles.portraitToggleEmoji}>📚</Text>
+              <View>
+                <Text style={[styles.portraitToggleLabel, isPictureBook && { color: '#FFB07A' }]}>
+                  {t('create.pictureBook')}
+                </Text>
+                <Text style={styles.portraitToggleSubLabel}>
+                  {isPictureBook ? t('create.pictureBookOn') : t('create.pictureBookOff')}
+                </Text>
+              </View>
             </View>
+            <Text style={styles.portraitToggleChevron}>{isPictureBook ? t('create.on') : t('create.off')}</Text>
           </TouchableOpacity>
 
+          {/* ── Recurring cast: who's in tonight's story ─────────────── */}
+          <View style={styles.castHeader}>
+            <Text style={styles.castTitle}>{t('create.castTitle')}</Text>
+            <TouchableOpacity
+              onPress={() => {
+                void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/(main)/story-cast');
+              }}
+              disabled={isGenerating}
+            >
+              <Text style={styles.castManage}>{cast.length > 0 ? t('create.castEdit') : t('create.castCreate')}</Text>
+            </TouchableOpacity>
+          </View>
+          {cast.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.sagaChipsRow}
+              contentContainerStyle={styles.sagaChipsContent}
+            >
+              {cast.map((character) => {
+                const isSelected = featuredIds.includes(character.id);
+                return (
+                  <TouchableOpacity
+                    key={character.id}
+                    style={[styles.sagaChip, isSelected && styles.castChipSelected]}
+                    onPress={() => {
+                      if (!isSelected && featuredIds.length >= MAX_FEATURED) {
+                        void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                        return;
+                      }
+                      void Haptics.selectionAsync();
+                      setFeaturedIds(isSelected
+                        ? featuredIds.filter((id) => id !== character.id)
+                        : [...featuredIds, character.id]);
+                    }}
+                    disabled={isGenerating}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.sagaChipText, isSelected && { color: Colors.celestialGold }]} numberOfLines={1}>
+                      {character.emoji} {character.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
           {/* ── Theme selection ───────────────────────────────────────── */}
-          <Text style={styles.sectionTitle}>Choose a Theme</Text>
-          <Text style={styles.sectionSubtitle}>
-            What kind of adventure awaits tonight?
-          </Text>
+          <Text style={styles.sectionTitle}>{t('create.chooseTheme')}</Text>
+          <Text style={styles.sectionSubtitle}>{t('create.themeSubtitle')}</Text>
 
           <View style={styles.themesGrid}>
             {STORY_THEMES.map((theme) => (
@@ -1090,12 +1321,15 @@ export default function CreateStoryScreen() {
               <Text style={styles.previewIcon}>📖</Text>
               <View style={styles.previewInfo}>
                 <Text style={styles.previewTitle}>
-                  A {selectedThemeObj?.label} story for {child.name}
+                  {t('create.previewTitle', {
+                    name:  child.name,
+                    theme: selectedThemeObj ? t(selectedThemeObj.adjectiveKey) : '',
+                  })}
                 </Text>
                 <Text style={styles.previewDetail}>
                   {child.interests.length > 0
-                    ? `Featuring: ${child.interests.slice(0, 2).join(', ')}`
-                    : 'A unique, personalised adventure'}
+                    ? t('create.previewFeaturing', { interests: child.interests.slice(0, 2).join(', ') })
+                    : t('create.previewUnique')}
                 </Text>
               </View>
             </View>
@@ -1133,7 +1367,7 @@ export default function CreateStoryScreen() {
                       <Text style={styles.generateIcon}>🌀</Text>
                       <View>
                         <Text style={[styles.generateLabel, { color: '#fff' }]}>
-                          Crafting your story…
+                          {t('create.crafting')}
                         </Text>
                         <Text style={styles.generatingStep}>{generationStep}</Text>
                       </View>
@@ -1147,7 +1381,7 @@ export default function CreateStoryScreen() {
                           { color: selectedTheme ? Colors.deepSpace : Colors.textMuted },
                         ]}
                       >
-                        Generate Story
+                        {t('create.generate')}
                       </Text>
                     </View>
                   )}
@@ -1160,8 +1394,13 @@ export default function CreateStoryScreen() {
           {!isGenerating && (
             <Text style={styles.hintText}>
               {!selectedTheme
-                ? 'Select a theme above to begin'
-                : `Ready to create a ${selectedThemeObj?.label?.toLowerCase()} story ✨`}
+                ? t('create.selectTheme')
+                : t('create.ready', { theme: selectedThemeObj ? t(selectedThemeObj.adjectiveKey) : '' })}
+            </Text>
+          )}
+          {!isGenerating && appLanguage !== 'en' && (
+            <Text style={styles.hintText}>
+              {t('create.writtenIn', { flag: languageInfo(appLanguage).emoji, language: languageInfo(appLanguage).nativeName })}
             </Text>
           )}
 
@@ -1170,17 +1409,17 @@ export default function CreateStoryScreen() {
             <View style={styles.infoStrip}>
               <View style={styles.infoItem}>
                 <Text style={styles.infoEmoji}>🧠</Text>
-                <Text style={styles.infoText}>AI personalised</Text>
+                <Text style={styles.infoText}>{t('create.infoPersonalised')}</Text>
               </View>
               <View style={styles.infoDivider} />
               <View style={styles.infoItem}>
                 <Text style={styles.infoEmoji}>🎙️</Text>
-                <Text style={styles.infoText}>In your voice</Text>
+                <Text style={styles.infoText}>{t('create.infoVoice')}</Text>
               </View>
               <View style={styles.infoDivider} />
               <View style={styles.infoItem}>
                 <Text style={styles.infoEmoji}>🌙</Text>
-                <Text style={styles.infoText}>Sleep magic</Text>
+                <Text style={styles.infoText}>{t('create.infoSleep')}</Text>
               </View>
             </View>
           )}
@@ -1188,9 +1427,7 @@ export default function CreateStoryScreen() {
           {/* Warp-mode label during generation */}
           {isGenerating && (
             <Animated.View style={[styles.warpLabel, nebulaRingStyle]}>
-              <Text style={styles.warpLabelText}>
-                ✦  Travelling through the dream galaxy  ✦
-              </Text>
+              <Text style={styles.warpLabelText}>{t('create.warp')}</Text>
             </Animated.View>
           )}
         </Animated.View>
@@ -1513,6 +1750,42 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(107,72,184,0.45)',
     borderWidth: 1.5,
   },
+  sagaActiveBtn: {
+    borderColor: 'rgba(126,200,227,0.45)',
+    borderWidth: 1.5,
+  },
+  pictureBookActiveBtn: {
+    borderColor: 'rgba(255,140,66,0.45)',
+    borderWidth: 1.5,
+  },
+  sagaChipsRow: { flexGrow: 0, marginTop: -4, marginBottom: Spacing.md },
+  sagaChipsContent: { gap: 8 },
+  sagaChip: {
+    paddingHorizontal: 14,
+    paddingVertical:   8,
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       'rgba(255,255,255,0.14)',
+    backgroundColor:   'rgba(255,255,255,0.05)',
+    maxWidth:          240,
+  },
+  sagaChipSelected: {
+    borderColor:     'rgba(126,200,227,0.55)',
+    backgroundColor: 'rgba(126,200,227,0.12)',
+  },
+  sagaChipText: { fontFamily: Fonts.bold, fontSize: 12, color: 'rgba(240,235,248,0.75)' },
+  castHeader: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'space-between',
+    marginBottom:   Spacing.sm,
+  },
+  castTitle:  { fontFamily: Fonts.bold, fontSize: 13, color: 'rgba(240,235,248,0.75)' },
+  castManage: { fontFamily: Fonts.bold, fontSize: 12, color: Colors.celestialGold },
+  castChipSelected: {
+    borderColor:     'rgba(255,215,0,0.50)',
+    backgroundColor: 'rgba(255,215,0,0.10)',
+  },
 
   portraitSection: {
     backgroundColor: 'rgba(255,255,255,0.05)',
@@ -4,10 +4,19 @@
  * Phase 5 Pro Feature. Lets families link accounts via an Invite Code system
  * to share Child Profiles, Voice Studio recordings, and Story Library.
  *
+ * The owner hands out invite codes for a role (see lib/familyRoles) – single
+ * use or shared for a week – and manages members: changes roles, removes
+ * them or transfers ownership. Everyone sees the group's recent activity.
+ *
+ * Voices from afar: the owner invites someone to record a voice for one of
+ * the family's children, then listens to it and approves it (see
+ * lib/voiceInvites). Anyone with such an invitation enters it here – or
+ * arrives through its link with ?voiceInvite=CODE – to start recording.
+ *
  * Uses Supabase when available, with AsyncStorage fallback for demo mode.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -20,12 +29,13 @@ import {
   Share,
   Platform,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '@fastshot/auth';
 import * as Haptics from 'expo-haptics';
+import { Audio } from 'expo-av';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -45,10 +55,77 @@ import {
   joinFamilyGroup,
   getFamilyGroup,
   leaveFamilyGroup,
+  removeFamilyMember,
+  setFamilyMemberRole,
+  transferFamilyOwnership,
+  deleteFamilyGroup,
+  createFamilyInvite,
+  getFamilyInvites,
+  revokeFamilyInvite,
+  getFamilyActivity,
+  getProfile,
+  createVoiceRecordingInvite,
+  getVoiceRecordingInvites,
+  revokeVoiceRecordingInvite,
+  acceptVoiceRecordingInvite,
+  getPendingInvitedVoices,
+  reviewInvitedVoice,
+  createRecordingSignedUrl,
   isSupabaseAvailable,
+  type Child,
+  type FamilyAuditEntry,
   type FamilyGroup,
+  type FamilyInvite,
   type FamilyMember,
+  type FamilyRole,
+  type ParentVoice,
+  type VoiceRecordingInvite,
 } from '@/lib/supabase';
+import { getCachedChildren, syncFromCloud } from '@/lib/syncService';
+import { FAMILY_ROLES, INVITABLE_ROLES } from '@/lib/familyRoles';
+import { previewRecordingPath, voiceInviteMessage } from '@/lib/voiceInvites';
+import { useAppLanguage, type UseAppLanguageReturn } from '@/hooks/useAppLanguage';
+
+type InvitableRole = Exclude<FamilyRole, 'owner'>;
+
+const INVITE_CODE_LENGTH = 8;
+const INVITE_VALID_HOURS = 24 * 7;
+
+function errorMessage(error: unknown): string {
+  return (error as { message?: string } | null)?.message ?? '';
+}
+
+function formatExpiry(iso: string, t: UseAppLanguageReturn['t']): string {
+  const hours = Math.max(0, Math.round((Date.parse(iso) - Date.now()) / 3_600_000));
+  if (hours < 1)  return t('family.expiresSoon');
+  if (hours < 48) return t('family.expiresHours', { count: hours });
+  return t('family.expiresDays', { count: Math.round(hours / 24) });
+}
+
+function describeActivity(
+  entry: FamilyAuditEntry,
+  nameOf: (userId: string | null) => string,
+  userId: string | undefined,
+  t: UseAppLanguageReturn['t'],
+): string {
+  const actor   = nameOf(entry.actor_user_id);
+  const subject = nameOf(entry.subject_user_id);
+  const role    = entry.role ? t(FAMILY_ROLES[entry.role].noun) : null;
+  const yours   = entry.subject_user_id === userId;
+  switch (entry.action) {
+    case 'created':               return t('family.activityCreated', { actor });
+    case 'joined':                return role ? t('family.activityJoinedAs', { subject, role }) : t('family.activityJoined', { subject });
+    case 'left':                  return t('family.activityLeft', { subject });
+    case 'removed':               return t('family.activityRemoved', { actor, subject });
+    case 'role_changed':          return role ? t('family.activityRoleChanged', { subject, role }) : t('family.activityRoleChangedMember', { subject });
+    case 'ownership_transferred': return t('family.activityOwnership', { actor, subject });
+    case 'invite_created':        return role ? t('family.activityInviteCreatedAs', { actor, role }) : t('family.activityInviteCreated', { actor });
+    case 'invite_revoked':        return role ? t('family.activityInviteRevokedAs', { actor, role }) : t('family.activityInviteRevoked', { actor });
+    case 'voice_invite_created':  return t('family.activityVoiceInvite', { actor });
+    case 'voice_approved':        return yours ? t('family.activityVoiceApprovedYours', { actor }) : t('family.activityVoiceApproved', { actor, subject });
+    case 'voice_rejected':        return yours ? t('family.activityVoiceRejectedYours', { actor }) : t('family.activityVoiceRejected', { actor, subject });
+  }
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Shared item row
@@ -70,6 +147,24 @@ function SharedItem({ emoji, label, description }: { emoji: string; label: strin
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Choice chip (invite role / invite kind)
+// ─────────────────────────────────────────────────────────────────────────────
+function ChoiceChip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={() => {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main Screen
 // ─────────────────────────────────────────────────────────────────────────────
@@ -77,6 +172,8 @@ export default function FamilySharingScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { language, t } = useAppLanguage();
+  const { voiceInvite } = useLocalSearchParams<{ voiceInvite?: string }>();
 
   const [familyGroup,  setFamilyGroup]  = useState<FamilyGroup | null>(null);
   const [members,      setMembers]      = useState<FamilyMember[]>([]);
@@ -84,7 +181,24 @@ export default function FamilySharingScreen() {
   const [isLoading,    setIsLoading]    = useState(false);
   const [isSyncing,    setIsSyncing]    = useState(false);
   const [activeTab,    setActiveTab]    = useState<'hub' | 'invite'>('hub');
-  const [groupName,    setGroupName]    = useState('Our Family');
+  const [groupName,    setGroupName]    = useState(() => t('family.groupNameDefault'));
+  const [invites,      setInvites]      = useState<FamilyInvite[]>([]);
+  const [activity,     setActivity]     = useState<FamilyAuditEntry[]>([]);
+  const [memberNames,  setMemberNames]  = useState<Record<string, string>>({});
+  const [inviteRole,   setInviteRole]   = useState<InvitableRole>('co_parent');
+  const [singleUse,    setSingleUse]    = useState(true);
+  const [familyChildren, setFamilyChildren] = useState<Child[]>([]);
+  const [voiceInvites,   setVoiceInvites]   = useState<VoiceRecordingInvite[]>([]);
+  const [pendingVoices,  setPendingVoices]  = useState<ParentVoice[]>([]);
+  const [voiceChildId,   setVoiceChildId]   = useState<string | null>(null);
+  const [voiceName,      setVoiceName]      = useState(() => t('family.voiceNameDefault'));
+  const [voiceCode,      setVoiceCode]      = useState((voiceInvite ?? '').toUpperCase());
+  const [playingVoiceId, setPlayingVoiceId] = useState<string | null>(null);
+  const previewSoundRef = useRef<Audio.Sound | null>(null);
+
+  const myRole  = members.find((m) => m.user_id === user?.id)?.role ?? null;
+  const isOwner = myRole === 'owner';
+  const latestInvite = invites[0] ?? null;
 
   // Entrance animations
   const headerOpacity = useSharedValue(0);
@@ -113,6 +227,7 @@ export default function FamilySharingScreen() {
     return () => {
       cancelAnimation(codePulse);
       cancelAnimation(syncRing);
+      void previewSoundRef.current?.unloadAsync();
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -126,9 +241,35 @@ export default function FamilySharingScreen() {
         if (group) {
           setFamilyGroup(group);
           setMembers(m);
+          const isGroupOwner = m.some((x) => x.user_id === user.id && x.role === 'owner');
+          const [profiles, { invites: active }, { entries }, { invites: voiceActive }, { voices: pending }, cached] = await Promise.all([
+            Promise.all(m.map((x) => getProfile(x.user_id))),
+            isGroupOwner ? getFamilyInvites(group.id) : Promise.resolve({ invites: [] as FamilyInvite[] }),
+            getFamilyActivity(group.id),
+            isGroupOwner ? getVoiceRecordingInvites(group.id) : Promise.resolve({ invites: [] as VoiceRecordingInvite[] }),
+            isGroupOwner ? getPendingInvitedVoices(user.id) : Promise.resolve({ voices: [] as ParentVoice[] }),
+            getCachedChildren(),
+          ]);
+          const memberIds = new Set(m.map((x) => x.user_id));
+          const groupChildren = cached.filter((c) => memberIds.has(c.user_id));
+          setFamilyChildren(groupChildren);
+          setVoiceChildId((prev) => prev ?? groupChildren[0]?.id ?? null);
+          setVoiceInvites(voiceActive);
+          setPendingVoices(pending);
+          setMemberNames(Object.fromEntries(
+            profiles.flatMap((p) => (p?.email ? [[p.id, p.email.split('@')[0]]] : [])),
+          ));
+          setInvites(active);
+          setActivity(entries);
           return;
         }
       }
+      setFamilyGroup(null);
+      setMembers([]);
+      setInvites([]);
+      setActivity([]);
+      setVoiceInvites([]);
+      setPendingVoices([]);
       // Fallback: check AsyncStorage
       const raw = await AsyncStorage.getItem(`family_group_${user.id}`);
       if (raw) {
@@ -141,6 +282,23 @@ export default function FamilySharingScreen() {
     }
   }, [user?.id]);
 
+  const nameOf = useCallback((userId: string | null) => {
+    if (!userId) return t('family.someone');
+    if (userId === user?.id) return t('family.you');
+    return memberNames[userId] ?? t('family.aMember');
+  }, [memberNames, user?.id, t]);
+
+  // Pulls the family's shared children, voices and stories, with the sparkle
+  // sweep shown for at least its full 3 s
+  const triggerSparkleSync = useCallback(() => {
+    setIsSyncing(true);
+    const startedAt = Date.now();
+    const sync = user?.id && isSupabaseAvailable ? syncFromCloud(user.id) : Promise.resolve(false);
+    void sync
+      .catch(() => false)
+      .then(() => setTimeout(() => setIsSyncing(false), Math.max(0, 3000 - (Date.now() - startedAt))));
+  }, [user?.id]);
+
   const handleCreateGroup = useCallback(async () => {
     if (!user?.id || isLoading) return;
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
@@ -151,13 +309,11 @@ export default function FamilySharingScreen() {
         const result = await createFamilyGroup(user.id, groupName);
         group = result.group;
       }
-      // Local fallback
+      // Local fallback (invites need the cloud)
       if (!group) {
-        const localCode = Math.random().toString(36).substring(2, 8).toUpperCase();
         group = {
           id:           `local_${Date.now()}`,
           owner_user_id: user.id,
-          invite_code:   localCode,
           group_name:    groupName,
           created_at:    new Date().toISOString(),
         };
@@ -170,6 +326,8 @@ export default function FamilySharingScreen() {
         };
         await AsyncStorage.setItem(`family_group_${user.id}`, JSON.stringify({ group, members: [member] }));
         setMembers([member]);
+      } else {
+        void loadFamilyGroup();
       }
       setFamilyGroup(group);
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -177,11 +335,11 @@ export default function FamilySharingScreen() {
       triggerSparkleSync();
     } catch (err) {
       console.error('[FamilySharing] createGroup error:', err);
-      Alert.alert('Error', 'Could not create family group. Please try again.');
+      Alert.alert(t('family.errorTitle'), t('family.createFailed'));
     } finally {
       setIsLoading(false);
     }
-  }, [user?.id, groupName, isLoading]);
+  }, [user?.id, groupName, isLoading, loadFamilyGroup, triggerSparkleSync, t]);
 
   const handleJoinGroup = useCallback(async () => {
     if (!user?.id || !inviteCode.trim() || isLoading) return;
@@ -199,72 +357,425 @@ export default function FamilySharingScreen() {
           return;
         }
         if (error) {
-          Alert.alert('Invalid Code', 'That invite code was not found. Please check and try again.');
+          const message = errorMessage(error);
+          if (message.startsWith('Already in another family group')) {
+            Alert.alert(t('family.alreadyInFamilyTitle'), t('family.alreadyInFamily'));
+          } else if (message.startsWith('Invite code has expired')) {
+            Alert.alert(t('family.inviteExpiredTitle'), t('family.inviteExpired'));
+          } else if (message.startsWith('Invite code has already been used')) {
+            Alert.alert(t('family.inviteUsedTitle'), t('family.inviteUsed'));
+          } else {
+            Alert.alert(t('family.invalidCodeTitle'), t('family.invalidCode'));
+          }
           return;
         }
       } else {
-        Alert.alert('Not Available', 'Family sharing requires a Supabase connection.');
+        Alert.alert(t('family.notAvailableTitle'), t('family.notAvailableGroup'));
       }
     } catch (err) {
       console.error('[FamilySharing] joinGroup error:', err);
-      Alert.alert('Error', 'Could not join family group. Please try again.');
+      Alert.alert(t('family.errorTitle'), t('family.joinFailed'));
     } finally {
       setIsLoading(false);
     }
-  }, [user?.id, inviteCode, isLoading, loadFamilyGroup]);
+  }, [user?.id, inviteCode, isLoading, loadFamilyGroup, triggerSparkleSync, t]);
+
+  const handleDeleteGroup = useCallback(() => {
+    if (!familyGroup || !user?.id) return;
+    Alert.alert(
+      t('family.deleteGroup'),
+      t('family.deleteText', { group: familyGroup.group_name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('family.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            const { error } = isSupabaseAvailable ? await deleteFamilyGroup(familyGroup.id) : { error: null };
+            if (error) {
+              Alert.alert(t('family.errorTitle'), t('family.deleteFailed'));
+              return;
+            }
+            await AsyncStorage.removeItem(`family_group_${user.id}`);
+            setFamilyGroup(null);
+            setMembers([]);
+            setInvites([]);
+            setActivity([]);
+            triggerSparkleSync();
+          },
+        },
+      ]
+    );
+  }, [familyGroup, user?.id, triggerSparkleSync, t]);
 
   const handleLeaveGroup = useCallback(() => {
     if (!familyGroup || !user?.id) return;
+    if (isOwner && members.length > 1) {
+      // The owner's row can't be deleted – hand the group on first
+      Alert.alert(
+        t('family.ownerLeaveTitle'),
+        t('family.ownerLeave'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('family.deleteGroupShort'), style: 'destructive', onPress: handleDeleteGroup },
+        ]
+      );
+      return;
+    }
+    if (isOwner) {
+      handleDeleteGroup();
+      return;
+    }
     Alert.alert(
-      'Leave Family Group',
-      'Are you sure you want to leave this family group? You will lose shared access.',
+      t('family.leaveGroup'),
+      t('family.leaveText'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Leave',
+          text: t('family.leave'),
           style: 'destructive',
           onPress: async () => {
             void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-            await leaveFamilyGroup(user.id, familyGroup.id);
+            const { error } = await leaveFamilyGroup(user.id, familyGroup.id);
+            if (error && isSupabaseAvailable) {
+              Alert.alert(t('family.errorTitle'), t('family.leaveFailed'));
+              return;
+            }
             await AsyncStorage.removeItem(`family_group_${user.id}`);
             setFamilyGroup(null);
             setMembers([]);
+            setInvites([]);
+            setActivity([]);
+            // Drop the family's shared children, voices and stories
+            triggerSparkleSync();
           },
         },
       ]
     );
-  }, [familyGroup, user?.id]);
+  }, [familyGroup, user?.id, isOwner, members.length, handleDeleteGroup, triggerSparkleSync, t]);
+
+  // ── Owner: member management ─────────────────────────────────────────────
+  const runMemberAction = useCallback(async (action: () => Promise<{ error: unknown }>, failure: string) => {
+    const { error } = await action();
+    if (error) {
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(t('family.errorTitle'), failure);
+      return;
+    }
+    void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    await loadFamilyGroup();
+    // Refresh the cached role and what's shared with whom
+    triggerSparkleSync();
+  }, [loadFamilyGroup, triggerSparkleSync, t]);
 
-  const handleCopyCode = useCallback(() => {
+  const handleChangeRole = useCallback((member: FamilyMember) => {
+    const name = nameOf(member.user_id);
+    Alert.alert(
+      t('family.changeRole'),
+      t('family.changeRoleText', { name }),
+      [
+        ...INVITABLE_ROLES.filter((r) => r !== member.role).map((role) => ({
+          text: `${FAMILY_ROLES[role].emoji} ${t(FAMILY_ROLES[role].label)}`,
+          onPress: () => void runMemberAction(
+            () => setFamilyMemberRole(member.user_id, role),
+            t('family.changeRoleFailed'),
+          ),
+        })),
+        { text: t('common.cancel'), style: 'cancel' as const },
+      ]
+    );
+  }, [nameOf, runMemberAction, t]);
+
+  const handleManageMember = useCallback((member: FamilyMember) => {
     if (!familyGroup) return;
-    Clipboard.setString(familyGroup.invite_code);
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    Alert.alert('Copied! 📋', `Invite code "${familyGroup.invite_code}" copied to clipboard.`);
-  }, [familyGroup]);
+    const name = nameOf(member.user_id);
+    Alert.alert(
+      name,
+      `${FAMILY_ROLES[member.role].emoji} ${t(FAMILY_ROLES[member.role].label)} – ${t(FAMILY_ROLES[member.role].description)}.`,
+      [
+        { text: t('family.changeRole'), onPress: () => handleChangeRole(member) },
+        {
+          text: t('family.makeOwner'),
+          onPress: () => Alert.alert(
+            t('family.transferTitle'),
+            t('family.transferText', { name }),
+            [
+              { text: t('common.cancel'), style: 'cancel' },
+              {
+                text: t('family.transfer'),
+                onPress: () => void runMemberAction(
+                  () => transferFamilyOwnership(member.user_id),
+                  t('family.transferFailed'),
+                ),
+              },
+            ]
+          ),
+        },
+        {
+          text: t('family.remove'),
+          style: 'destructive',
+          onPress: () => Alert.alert(
+            t('family.removeTitle'),
+            t('family.removeText', { name }),
+            [
+              { text: t('common.cancel'), style: 'cancel' },
+              {
+                text: t('family.remove'),
+                style: 'destructive',
+                onPress: () => void runMemberAction(
+                  () => removeFamilyMember(familyGroup.id, member.user_id),
+                  t('family.removeFailed'),
+                ),
+              },
+            ]
+          ),
+        },
+      ],
+      // Android shows no cancel button beside three actions
+      { cancelable: true }
+    );
+  }, [familyGroup, nameOf, handleChangeRole, runMemberAction, t]);
+
+  // ── Owner: invites ───────────────────────────────────────────────────────
+  const handleCreateInvite = useCallback(async () => {
+    if (!familyGroup || isLoading) return;
+    if (!isSupabaseAvailable) {
+      Alert.alert(t('family.notAvailableTitle'), t('family.notAvailableInvites'));
+      return;
+    }
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsLoading(true);
+    try {
+      const { invite, error } = await createFamilyInvite(inviteRole, { singleUse, validHours: INVITE_VALID_HOURS });
+      if (error || !invite) {
+        Alert.alert(t('family.errorTitle'), t('family.inviteFailed'));
+        return;
+      }
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setInvites((prev) => [invite, ...prev]);
+      void loadFamilyGroup();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [familyGroup, isLoading, inviteRole, singleUse, loadFamilyGroup, t]);
+
+  const handleRevokeInvite = useCallback((invite: FamilyInvite) => {
+    Alert.alert(
+      t('family.revokeInviteTitle'),
+      t('family.revokeText', { code: invite.code }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('family.revoke'),
+          style: 'destructive',
+          onPress: async () => {
+            void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            const { error } = await revokeFamilyInvite(invite.id);
+            if (error) {
+              Alert.alert(t('family.errorTitle'), t('family.revokeInviteFailed'));
+              return;
+            }
+            setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+            void loadFamilyGroup();
+          },
+        },
+      ]
+    );
+  }, [loadFamilyGroup, t]);
+
+  const handleCopyCode = useCallback((invite: FamilyInvite) => {
+    Clipboard.setString(invite.code);
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(t('family.copiedTitle'), t('family.copiedText', { code: invite.code }));
+  }, [t]);
 
-  const handleShareCode = useCallback(async () => {
+  const handleShareCode = useCallback(async (invite: FamilyInvite) => {
     if (!familyGroup) return;
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     try {
       await Share.share(
         {
-          message: `✨ Join our StoryVoice family group!\n\nUse invite code: ${familyGroup.invite_code}\n\nDownload StoryVoice and enter this code in the Family Sharing Hub to share stories, voices, and child profiles together. 🌙`,
-          title:   'Join our StoryVoice Family',
+          message: t('family.shareMessage', {
+            group:  familyGroup.group_name,
+            role:   t(FAMILY_ROLES[invite.role].noun),
+            code:   invite.code,
+            expiry: formatExpiry(invite.expires_at, t),
+          }),
+          title:   t('family.shareTitle'),
         },
         {
-          dialogTitle: 'Share Family Invite Code',
-          subject:     `Join our StoryVoice family — Code: ${familyGroup.invite_code}`,
+          dialogTitle: t('family.shareDialog'),
+          subject:     t('family.shareSubject', { code: invite.code }),
         }
       );
     } catch (err) {
       console.warn('[FamilySharing] share error:', err);
     }
-  }, [familyGroup]);
+  }, [familyGroup, t]);
 
-  const triggerSparkleSync = () => {
-    setIsSyncing(true);
-    setTimeout(() => setIsSyncing(false), 3000);
-  };
+  // ── Voices from afar ─────────────────────────────────────────────────────
+  const childNameOf = useCallback((childId: string | null) => (
+    familyChildren.find((c) => c.id === childId)?.name ?? t('family.yourChild')
+  ), [familyChildren, t]);
+
+  const handleShareVoiceInvite = useCallback(async (invite: VoiceRecordingInvite) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      await Share.share(
+        { message: voiceInviteMessage(invite, childNameOf(invite.child_id), language), title: t('family.voiceShareTitle') },
+        { dialogTitle: t('family.voiceShareDialog'), subject: t('family.voiceShareSubject', { code: invite.code }) }
+      );
+    } catch (err) {
+      console.warn('[FamilySharing] share error:', err);
+    }
+  }, [childNameOf, language, t]);
+
+  const handleCreateVoiceInvite = useCallback(async () => {
+    if (!familyGroup || !voiceChildId || !voiceName.trim() || isLoading) return;
+    if (!isSupabaseAvailable) {
+      Alert.alert(t('family.notAvailableTitle'), t('family.notAvailableVoices'));
+      return;
+    }
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsLoading(true);
+    try {
+      const { invite, error } = await createVoiceRecordingInvite(voiceChildId, voiceName.trim());
+      if (error || !invite) {
+        Alert.alert(t('family.errorTitle'), t('family.voiceInviteFailed'));
+        return;
+      }
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setVoiceInvites((prev) => [invite, ...prev]);
+      void handleShareVoiceInvite(invite);
+      void loadFamilyGroup();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [familyGroup, voiceChildId, voiceName, isLoading, handleShareVoiceInvite, loadFamilyGroup, t]);
+
+  const handleRevokeVoiceInvite = useCallback((invite: VoiceRecordingInvite) => {
+    Alert.alert(
+      t('family.revokeInvitationTitle'),
+      t('family.revokeText', { code: invite.code }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('family.revoke'),
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await revokeVoiceRecordingInvite(invite.id);
+            if (error) {
+              Alert.alert(t('family.errorTitle'), t('family.revokeInvitationFailed'));
+              return;
+            }
+            setVoiceInvites((prev) => prev.filter((i) => i.id !== invite.id));
+          },
+        },
+      ]
+    );
+  }, [t]);
+
+  const handleListen = useCallback(async (voice: ParentVoice) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await previewSoundRef.current?.unloadAsync().catch(() => {});
+    previewSoundRef.current = null;
+    if (playingVoiceId === voice.id) {
+      setPlayingVoiceId(null);
+      return;
+    }
+    const path = previewRecordingPath(voice);
+    const { url } = path ? await createRecordingSignedUrl(path, 10 * 60) : { url: null };
+    if (!url) {
+      Alert.alert(t('family.notReadyTitle'), t('family.notReady'));
+      return;
+    }
+    try {
+      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+      const { sound } = await Audio.Sound.createAsync({ uri: url }, { shouldPlay: true });
+      previewSoundRef.current = sound;
+      setPlayingVoiceId(voice.id);
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded && status.didJustFinish) setPlayingVoiceId(null);
+      });
+    } catch (err) {
+      console.warn('[FamilySharing] preview error:', err);
+      Alert.alert(t('family.playbackErrorTitle'), t('family.playbackError'));
+    }
+  }, [playingVoiceId, t]);
+
+  const handleReviewVoice = useCallback((voice: ParentVoice, approve: boolean) => {
+    const review = async () => {
+      const { error } = await reviewInvitedVoice(voice.id, approve);
+      if (error) {
+        void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(
+          t('family.errorTitle'),
+          errorMessage(error).startsWith('The recording is not finished')
+            ? t('family.reviewNotFinished')
+            : t('family.reviewFailed'),
+        );
+        return;
+      }
+      void Haptics.notificationAsync(
+        approve ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning,
+      );
+      setPendingVoices((prev) => prev.filter((v) => v.id !== voice.id));
+      void loadFamilyGroup();
+      // Bring the approved voice into the voice switcher
+      if (approve) triggerSparkleSync();
+    };
+    if (approve) {
+      void review();
+      return;
+    }
+    Alert.alert(
+      t('family.turnDownTitle'),
+      t('family.turnDownText', { voice: voice.voice_name ?? t('family.thisVoice'), child: childNameOf(voice.child_id) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('family.turnDown'), style: 'destructive', onPress: () => void review() },
+      ]
+    );
+  }, [childNameOf, loadFamilyGroup, triggerSparkleSync, t]);
+
+  const handleAcceptVoiceInvite = useCallback(async () => {
+    if (!user?.id || voiceCode.trim().length < INVITE_CODE_LENGTH || isLoading) return;
+    if (!isSupabaseAvailable) {
+      Alert.alert(t('family.notAvailableTitle'), t('family.notAvailableVoices'));
+      return;
+    }
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsLoading(true);
+    try {
+      const { accepted, error } = await acceptVoiceRecordingInvite(voiceCode);
+      if (!accepted) {
+        const message = errorMessage(error);
+        if (message.startsWith('Invitation has expired')) {
+          Alert.alert(t('family.invitationExpiredTitle'), t('family.invitationExpired'));
+        } else if (message.startsWith('Invitation has already been used')) {
+          Alert.alert(t('family.invitationUsedTitle'), t('family.invitationUsed'));
+        } else {
+          Alert.alert(t('family.invalidCodeTitle'), t('family.invalidInvitation'));
+        }
+        return;
+      }
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setVoiceCode('');
+      router.push({
+        pathname: '/(onboarding)/voice-studio',
+        params: {
+          inviteVoiceId: accepted.voice_id,
+          voiceType:     'custom',
+          childName:     accepted.child_name,
+          voiceName:     accepted.voice_name,
+        },
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, voiceCode, isLoading, router, t]);
 
   const handleSyncNow = () => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -277,6 +788,32 @@ export default function FamilySharingScreen() {
     transform: [{ scale: codePulse.value }],
   }));
 
+  // Shown with or without a family group – the recorder needn't be in one
+  const recordForFamilyCard = (
+    <View style={styles.sectionCard}>
+      <Text style={styles.sectionCardTitle}>{t('family.recordTitle')}</Text>
+      <Text style={styles.memberSince}>{t('family.recordText')}</Text>
+      <TextInput
+        style={[styles.textInput, styles.codeInput]}
+        value={voiceCode}
+        onChangeText={(v) => setVoiceCode(v.toUpperCase())}
+        placeholder="ABCD2345"
+        placeholderTextColor={Colors.textMuted}
+        maxLength={INVITE_CODE_LENGTH}
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+      <TouchableOpacity
+        style={[styles.createInviteBtn, (isLoading || voiceCode.length < INVITE_CODE_LENGTH) && styles.primaryBtnDisabled]}
+        onPress={() => void handleAcceptVoiceInvite()}
+        disabled={isLoading || voiceCode.length < INVITE_CODE_LENGTH}
+        activeOpacity={0.85}
+      >
+        <Text style={styles.createInviteBtnText}>{t('family.startRecording')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   return (
     <View style={styles.container}>
       <LinearGradient
@@ -303,9 +840,9 @@ export default function FamilySharingScreen() {
               router.back();
             }}
           >
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Family Hub</Text>
+          <Text style={styles.headerTitle}>{t('family.title')}</Text>
           <View style={{ width: 60 }} />
         </Animated.View>
 
@@ -322,10 +859,8 @@ export default function FamilySharingScreen() {
             <View style={styles.heroCornerTL} />
             <View style={styles.heroCornerBR} />
             <Text style={styles.heroEmoji}>👨‍👩‍👧‍👦</Text>
-            <Text style={styles.heroTitle}>Family Sharing Hub</Text>
-            <Text style={styles.heroSubtitle}>
-              Link your family&apos;s accounts and share the magic of StoryVoice together.
-            </Text>
+            <Text style={styles.heroTitle}>{t('family.heroTitle')}</Text>
+            <Text style={styles.heroSubtitle}>{t('family.heroText')}</Text>
             {/* Pro badge */}
             <View style={styles.proBadge}>
               <LinearGradient
@@ -333,7 +868,7 @@ export default function FamilySharingScreen() {
                 start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                 style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
               />
-              <Text style={styles.proBadgeText}>✨ PRO FEATURE</Text>
+              <Text style={styles.proBadgeText}>{t('family.proBadge')}</Text>
             </View>
           </View>
 
@@ -356,7 +891,7 @@ export default function FamilySharingScreen() {
                     />
                   )}
                   <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
-                    {tab === 'hub' ? '✦ Create Group' : '🔑 Join with Code'}
+                    {tab === 'hub' ? t('family.tabCreate') : t('family.tabJoin')}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -377,76 +912,247 @@ export default function FamilySharingScreen() {
                 />
                 <View style={styles.groupHeader}>
                   <View>
-                    <Text style={styles.groupLabel}>YOUR FAMILY GROUP</Text>
+                    <Text style={styles.groupLabel}>{t('family.groupLabel')}</Text>
                     <Text style={styles.groupName}>{familyGroup.group_name}</Text>
+                    {myRole && (
+                      <Text style={styles.myRoleText}>
+                        {FAMILY_ROLES[myRole].emoji} {t('family.youAre', { role: t(FAMILY_ROLES[myRole].noun) })} · {t(FAMILY_ROLES[myRole].description)}
+                      </Text>
+                    )}
                   </View>
                   <Text style={styles.groupEmoji}>🌟</Text>
                 </View>
 
-                {/* Invite code */}
-                <Text style={styles.inviteCodeLabel}>INVITE CODE</Text>
-                <Animated.View style={[styles.inviteCodeBox, codePulseStyle]}>
-                  <LinearGradient
-                    colors={['rgba(255,215,0,0.12)', 'rgba(255,215,0,0.04)']}
-                    style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
-                  />
-                  <Text style={styles.inviteCode}>{familyGroup.invite_code}</Text>
-                  <TouchableOpacity style={styles.copyBtn} onPress={handleCopyCode}>
-                    <Text style={styles.copyBtnText}>Copy</Text>
-                  </TouchableOpacity>
-                </Animated.View>
-                <Text style={styles.inviteCodeHint}>
-                  Share this code with family members so they can join ✨
-                </Text>
+                {/* Invites (owner only) */}
+                {isOwner && (
+                  <>
+                    <Text style={styles.inviteCodeLabel}>{t('family.inviteAs')}</Text>
+                    <View style={styles.chipRow}>
+                      {INVITABLE_ROLES.map((role) => (
+                        <ChoiceChip
+                          key={role}
+                          label={`${FAMILY_ROLES[role].emoji} ${t(FAMILY_ROLES[role].label)}`}
+                          selected={inviteRole === role}
+                          onPress={() => setInviteRole(role)}
+                        />
+                      ))}
+                    </View>
+                    <Text style={styles.inviteCodeHint}>{t(FAMILY_ROLES[inviteRole].description)}</Text>
+                    <View style={styles.chipRow}>
+                      <ChoiceChip label={t('family.onePersonChip')} selected={singleUse} onPress={() => setSingleUse(true)} />
+                      <ChoiceChip label={t('family.anyoneChip')} selected={!singleUse} onPress={() => setSingleUse(false)} />
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.createInviteBtn, isLoading && styles.primaryBtnDisabled]}
+                      onPress={() => void handleCreateInvite()}
+                      disabled={isLoading}
+                      activeOpacity={0.85}
+                    >
+                      <Text style={styles.createInviteBtnText}>
+                        {isLoading ? t('family.creating') : t('family.createInvite')}
+                      </Text>
+                    </TouchableOpacity>
 
-                {/* Native Share button */}
-                <TouchableOpacity
-                  style={styles.shareInviteBtn}
-                  onPress={() => void handleShareCode()}
-                  activeOpacity={0.85}
-                >
-                  <LinearGradient
-                    colors={[Colors.celestialGold, Colors.softGold]}
-                    start={{ x: 0, y: 0 }}
-                    end={{ x: 1, y: 0 }}
-                    style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
-                  />
-                  <Text style={styles.shareInviteBtnIcon}>📤</Text>
-                  <Text style={styles.shareInviteBtnText}>Share Invite Code</Text>
-                </TouchableOpacity>
+                    {latestInvite && (
+                      <>
+                        <Animated.View style={[styles.inviteCodeBox, codePulseStyle]}>
+                          <LinearGradient
+                            colors={['rgba(255,215,0,0.12)', 'rgba(255,215,0,0.04)']}
+                            style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
+                          />
+                          <Text style={styles.inviteCode}>{latestInvite.code}</Text>
+                          <TouchableOpacity style={styles.copyBtn} onPress={() => handleCopyCode(latestInvite)}>
+                            <Text style={styles.copyBtnText}>{t('family.copy')}</Text>
+                          </TouchableOpacity>
+                        </Animated.View>
+                        <Text style={styles.inviteCodeHint}>
+                          {t(FAMILY_ROLES[latestInvite.role].label)} · {latestInvite.single_use ? t('family.onePerson') : t('family.anyone')} · {formatExpiry(latestInvite.expires_at, t)} ✨
+                        </Text>
+
+                        {/* Native Share button */}
+                        <TouchableOpacity
+                          style={styles.shareInviteBtn}
+                          onPress={() => void handleShareCode(latestInvite)}
+                          activeOpacity={0.85}
+                        >
+                          <LinearGradient
+                            colors={[Colors.celestialGold, Colors.softGold]}
+                            start={{ x: 0, y: 0 }}
+                            end={{ x: 1, y: 0 }}
+                            style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
+                          />
+                          <Text style={styles.shareInviteBtnIcon}>📤</Text>
+                          <Text style={styles.shareInviteBtnText}>{t('family.shareInvite')}</Text>
+                        </TouchableOpacity>
+                      </>
+                    )}
+
+                    {invites.length > 0 && (
+                      <>
+                        <Text style={styles.membersTitle}>{t('family.activeInvites', { count: invites.length })}</Text>
+                        {invites.map((invite) => (
+                          <View key={invite.id} style={styles.inviteRow}>
+                            <View style={styles.memberInfo}>
+                              <Text style={styles.inviteRowCode}>{invite.code}</Text>
+                              <Text style={styles.memberSince}>
+                                {FAMILY_ROLES[invite.role].emoji} {t(FAMILY_ROLES[invite.role].label)}
+                                {' · '}{invite.single_use ? t('family.onePerson') : t('family.usedCount', { count: invite.use_count })} · {formatExpiry(invite.expires_at, t)}
+                              </Text>
+                            </View>
+                            <TouchableOpacity style={styles.revokeBtn} onPress={() => handleRevokeInvite(invite)}>
+                              <Text style={styles.revokeBtnText}>{t('family.revoke')}</Text>
+                            </TouchableOpacity>
+                          </View>
+                        ))}
+                      </>
+                    )}
+                  </>
+                )}
 
                 {/* Members */}
-                <Text style={styles.membersTitle}>Family Members ({members.length})</Text>
-                {members.map((m, i) => (
+                <Text style={styles.membersTitle}>{t('family.members', { count: members.length })}</Text>
+                {members.map((m) => (
                   <View key={m.id} style={styles.memberRow}>
                     <View style={styles.memberAvatar}>
-                      <Text style={styles.memberAvatarText}>{i + 1}</Text>
+                      <Text style={styles.memberAvatarText}>{FAMILY_ROLES[m.role].emoji}</Text>
                     </View>
                     <View style={styles.memberInfo}>
                       <Text style={styles.memberRole}>
-                        {m.role === 'owner' ? '👑 Family Admin' : '👤 Family Member'}
+                        {m.user_id === user?.id ? t(FAMILY_ROLES[m.role].label) : `${nameOf(m.user_id)} · ${t(FAMILY_ROLES[m.role].label)}`}
                       </Text>
                       <Text style={styles.memberSince}>
-                        Joined {new Date(m.joined_at).toLocaleDateString()}
+                        {t('family.joinedOn', { date: new Date(m.joined_at).toLocaleDateString(language) })}
                       </Text>
                     </View>
-                    {m.user_id === user?.id && (
+                    {m.user_id === user?.id ? (
                       <View style={styles.youBadge}>
-                        <Text style={styles.youBadgeText}>You</Text>
+                        <Text style={styles.youBadgeText}>{t('family.you')}</Text>
                       </View>
+                    ) : isOwner && isSupabaseAvailable && (
+                      <TouchableOpacity style={styles.manageBtn} onPress={() => handleManageMember(m)}>
+                        <Text style={styles.manageBtnText}>{t('family.manage')}</Text>
+                      </TouchableOpacity>
                     )}
                   </View>
                 ))}
               </View>
 
+              {/* Voices from afar (owner only) */}
+              {isOwner && isSupabaseAvailable && (
+                <View style={styles.sectionCard}>
+                  <Text style={styles.sectionCardTitle}>{t('family.voicesTitle')}</Text>
+                  <Text style={styles.memberSince}>{t('family.voicesText')}</Text>
+
+                  {familyChildren.length === 0 ? (
+                    <Text style={styles.inviteCodeHint}>{t('family.voicesNoChild')}</Text>
+                  ) : (
+                    <>
+                      <Text style={styles.inviteCodeLabel}>{t('family.voiceFor')}</Text>
+                      <View style={styles.chipRow}>
+                        {familyChildren.map((c) => (
+                          <ChoiceChip
+                            key={c.id}
+                            label={`👶 ${c.name}`}
+                            selected={voiceChildId === c.id}
+                            onPress={() => setVoiceChildId(c.id)}
+                          />
+                        ))}
+                      </View>
+                      <Text style={styles.inviteCodeLabel}>{t('family.voiceName')}</Text>
+                      <TextInput
+                        style={styles.textInput}
+                        value={voiceName}
+                        onChangeText={setVoiceName}
+                        placeholder={t('family.voiceNameDefault')}
+                        placeholderTextColor={Colors.textMuted}
+                        maxLength={24}
+                      />
+                      <TouchableOpacity
+                        style={[styles.createInviteBtn, (isLoading || !voiceName.trim()) && styles.primaryBtnDisabled]}
+                        onPress={() => void handleCreateVoiceInvite()}
+                        disabled={isLoading || !voiceName.trim()}
+                        activeOpacity={0.85}
+                      >
+                        <Text style={styles.createInviteBtnText}>{t('family.inviteVoice')}</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+
+                  {voiceInvites.length > 0 && (
+                    <>
+                      <Text style={styles.membersTitle}>{t('family.openInvitations', { count: voiceInvites.length })}</Text>
+                      {voiceInvites.map((invite) => (
+                        <View key={invite.id} style={styles.inviteRow}>
+                          <TouchableOpacity style={styles.memberInfo} onPress={() => void handleShareVoiceInvite(invite)}>
+                            <Text style={styles.inviteRowCode}>{invite.code}</Text>
+                            <Text style={styles.memberSince}>
+                              {t('family.voiceForChild', { voice: invite.voice_name, child: childNameOf(invite.child_id) })} · {formatExpiry(invite.expires_at, t)}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity style={styles.revokeBtn} onPress={() => handleRevokeVoiceInvite(invite)}>
+                            <Text style={styles.revokeBtnText}>{t('family.revoke')}</Text>
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                    </>
+                  )}
+
+                  {pendingVoices.length > 0 && (
+                    <>
+                      <Text style={styles.membersTitle}>{t('family.waiting', { count: pendingVoices.length })}</Text>
+                      {pendingVoices.map((voice) => (
+                        <View key={voice.id} style={styles.pendingVoiceRow}>
+                          <View style={styles.memberInfo}>
+                            <Text style={styles.memberRole}>{voice.voice_name ?? t('family.invitedVoice')}</Text>
+                            <Text style={styles.memberSince}>
+                              {t('family.forChild', { child: childNameOf(voice.child_id) })} · {voice.is_complete ? t('family.readyToReview') : t('family.stillRecording')}
+                            </Text>
+                          </View>
+                          <View style={styles.pendingVoiceActions}>
+                            <TouchableOpacity style={styles.manageBtn} onPress={() => void handleListen(voice)}>
+                              <Text style={styles.manageBtnText}>{playingVoiceId === voice.id ? t('family.stop') : t('family.listen')}</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={[styles.approveBtn, !voice.is_complete && styles.primaryBtnDisabled]}
+                              onPress={() => handleReviewVoice(voice, true)}
+                              disabled={!voice.is_complete}
+                            >
+                              <Text style={styles.approveBtnText}>{t('family.approve')}</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.revokeBtn} onPress={() => handleReviewVoice(voice, false)}>
+                              <Text style={styles.revokeBtnText}>{t('family.reject')}</Text>
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      ))}
+                    </>
+                  )}
+                </View>
+              )}
+
+              {/* Recent activity */}
+              {activity.length > 0 && (
+                <View style={styles.sectionCard}>
+                  <Text style={styles.sectionCardTitle}>{t('family.activity')}</Text>
+                  {activity.map((entry) => (
+                    <View key={entry.id} style={styles.activityRow}>
+                      <Text style={styles.activityText}>{describeActivity(entry, nameOf, user?.id, t)}</Text>
+                      <Text style={styles.activityDate}>{new Date(entry.created_at).toLocaleDateString(language)}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {isSupabaseAvailable && recordForFamilyCard}
+
               {/* Shared access list */}
               <View style={styles.sectionCard}>
-                <Text style={styles.sectionCardTitle}>✨ Shared Across Family</Text>
-                <SharedItem emoji="👶" label="Child Profiles" description="All family members can read stories to any profile" />
+                <Text style={styles.sectionCardTitle}>{t('family.sharedTitle')}</Text>
+                <SharedItem emoji="👶" label={t('family.sharedChildren')} description={t('family.sharedChildrenDesc')} />
                 <View style={styles.sharedDivider} />
-                <SharedItem emoji="🎙️" label="Voice Studio" description="Each parent's recorded voice is available to all" />
+                <SharedItem emoji="🎙️" label={t('family.sharedVoices')} description={t('family.sharedVoicesDesc')} />
                 <View style={styles.sharedDivider} />
-                <SharedItem emoji="📖" label="Story Library" description="All created stories are visible to the whole family" />
+                <SharedItem emoji="📖" label={t('family.sharedStories')} description={t('family.sharedStoriesDesc')} />
               </View>
 
               {/* Sync button */}
@@ -461,13 +1167,13 @@ export default function FamilySharingScreen() {
                 />
                 <Text style={styles.syncBtnIcon}>{isSyncing ? '✨' : '↻'}</Text>
                 <Text style={styles.syncBtnText}>
-                  {isSyncing ? 'Syncing to family…' : 'Sync to Family Now'}
+                  {isSyncing ? t('family.syncing') : t('family.syncNow')}
                 </Text>
               </TouchableOpacity>
 
               {/* Leave group */}
               <TouchableOpacity style={styles.leaveBtn} onPress={handleLeaveGroup}>
-                <Text style={styles.leaveBtnText}>Leave Family Group</Text>
+                <Text style={styles.leaveBtnText}>{isOwner && members.length <= 1 ? t('family.deleteGroup') : t('family.leaveGroup')}</Text>
               </TouchableOpacity>
             </>
           ) : (
@@ -478,17 +1184,15 @@ export default function FamilySharingScreen() {
                   {Platform.OS === 'ios' && (
                     <BlurView intensity={15} tint="dark" style={StyleSheet.absoluteFill} />
                   )}
-                  <Text style={styles.createCardTitle}>Start Your Family Group</Text>
-                  <Text style={styles.createCardSubtitle}>
-                    Create a family group and invite your loved ones to share StoryVoice together.
-                  </Text>
+                  <Text style={styles.createCardTitle}>{t('family.startTitle')}</Text>
+                  <Text style={styles.createCardSubtitle}>{t('family.startText')}</Text>
 
-                  <Text style={styles.inputLabel}>Group Name</Text>
+                  <Text style={styles.inputLabel}>{t('family.groupName')}</Text>
                   <TextInput
                     style={styles.textInput}
                     value={groupName}
                     onChangeText={setGroupName}
-                    placeholder="Our Family"
+                    placeholder={t('family.groupNameDefault')}
                     placeholderTextColor={Colors.textMuted}
                     maxLength={30}
                   />
@@ -505,7 +1209,7 @@ export default function FamilySharingScreen() {
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                     />
                     <Text style={styles.primaryBtnText}>
-                      {isLoading ? '✨ Creating…' : '✨ Create Family Group'}
+                      {isLoading ? t('family.creating') : t('family.createGroup')}
                     </Text>
                   </TouchableOpacity>
                 </View>
@@ -515,27 +1219,25 @@ export default function FamilySharingScreen() {
                   {Platform.OS === 'ios' && (
                     <BlurView intensity={15} tint="dark" style={StyleSheet.absoluteFill} />
                   )}
-                  <Text style={styles.createCardTitle}>Join a Family Group</Text>
-                  <Text style={styles.createCardSubtitle}>
-                    Enter the 6-letter invite code shared by a family member.
-                  </Text>
+                  <Text style={styles.createCardTitle}>{t('family.joinTitle')}</Text>
+                  <Text style={styles.createCardSubtitle}>{t('family.joinText')}</Text>
 
-                  <Text style={styles.inputLabel}>Invite Code</Text>
+                  <Text style={styles.inputLabel}>{t('family.inviteCode')}</Text>
                   <TextInput
                     style={[styles.textInput, styles.codeInput]}
                     value={inviteCode}
                     onChangeText={(v) => setInviteCode(v.toUpperCase())}
-                    placeholder="ABC123"
+                    placeholder="ABCD2345"
                     placeholderTextColor={Colors.textMuted}
-                    maxLength={6}
+                    maxLength={INVITE_CODE_LENGTH}
                     autoCapitalize="characters"
                     autoCorrect={false}
                   />
 
                   <TouchableOpacity
-                    style={[styles.primaryBtn, (isLoading || inviteCode.length < 6) && styles.primaryBtnDisabled]}
+                    style={[styles.primaryBtn, (isLoading || inviteCode.length < INVITE_CODE_LENGTH) && styles.primaryBtnDisabled]}
                     onPress={() => void handleJoinGroup()}
-                    disabled={isLoading || inviteCode.length < 6}
+                    disabled={isLoading || inviteCode.length < INVITE_CODE_LENGTH}
                     activeOpacity={0.85}
                   >
                     <LinearGradient
@@ -544,20 +1246,22 @@ export default function FamilySharingScreen() {
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                     />
                     <Text style={[styles.primaryBtnText, { color: '#fff' }]}>
-                      {isLoading ? '🔑 Joining…' : '🔑 Join Family Group'}
+                      {isLoading ? t('family.joining') : t('family.joinGroup')}
                     </Text>
                   </TouchableOpacity>
                 </View>
               )}
 
+              {isSupabaseAvailable && recordForFamilyCard}
+
               {/* Benefits list */}
               <View style={styles.benefitsCard}>
-                <Text style={styles.benefitsTitle}>What&apos;s shared</Text>
-                <SharedItem emoji="👶" label="Child Profiles" description="Everyone reads to the same profiles" />
+                <Text style={styles.benefitsTitle}>{t('family.benefitsTitle')}</Text>
+                <SharedItem emoji="👶" label={t('family.sharedChildren')} description={t('family.benefitChildrenDesc')} />
                 <View style={styles.sharedDivider} />
-                <SharedItem emoji="🎙️" label="Voice Studio" description="Mum, Dad & grandparents all in one place" />
+                <SharedItem emoji="🎙️" label={t('family.sharedVoices')} description={t('family.benefitVoicesDesc')} />
                 <View style={styles.sharedDivider} />
-                <SharedItem emoji="📖" label="Story Library" description="All bedtime stories shared with the family" />
+                <SharedItem emoji="📖" label={t('family.sharedStories')} description={t('family.benefitStoriesDesc')} />
               </View>
             </>
           )}
@@ -713,6 +1417,48 @@ const styles = StyleSheet.create({
     letterSpacing: 0.2,
   },
 
+  myRoleText: { fontFamily: Fonts.medium, fontSize: 11, color: Colors.celestialGold, marginTop: 2 },
+
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.xs },
+  chip: {
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       Colors.borderColor,
+    paddingHorizontal: 12,
+    paddingVertical:   6,
+  },
+  chipSelected:     { borderColor: 'rgba(255,215,0,0.5)', backgroundColor: 'rgba(255,215,0,0.12)' },
+  chipText:         { fontFamily: Fonts.bold, fontSize: 12, color: Colors.textMuted },
+  chipTextSelected: { color: Colors.celestialGold },
+
+  createInviteBtn: {
+    alignItems:      'center',
+    borderRadius:    Radius.full,
+    borderWidth:     1,
+    borderColor:     'rgba(255,215,0,0.35)',
+    backgroundColor: 'rgba(255,215,0,0.08)',
+    paddingVertical: 11,
+  },
+  createInviteBtnText: { fontFamily: Fonts.extraBold, fontSize: 14, color: Colors.celestialGold },
+
+  inviteRow: {
+    flexDirection:   'row',
+    alignItems:      'center',
+    gap:             Spacing.md,
+    backgroundColor: 'rgba(255,215,0,0.04)',
+    borderRadius:    Radius.md,
+    padding:         Spacing.sm,
+  },
+  inviteRowCode: { fontFamily: Fonts.black, fontSize: 15, color: Colors.celestialGold, letterSpacing: 2 },
+  revokeBtn: {
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       'rgba(255,107,107,0.4)',
+    paddingHorizontal: 10,
+    paddingVertical:   4,
+  },
+  revokeBtnText: { fontFamily: Fonts.bold, fontSize: 11, color: Colors.errorRed },
+
   membersTitle: { fontFamily: Fonts.bold, fontSize: 13, color: Colors.textMuted, marginTop: Spacing.sm },
   memberRow: {
     flexDirection:   'row',
@@ -743,6 +1489,39 @@ const styles = StyleSheet.create({
     borderColor:     'rgba(255,215,0,0.25)',
   },
   youBadgeText: { fontFamily: Fonts.bold, fontSize: 10, color: Colors.celestialGold },
+  manageBtn: {
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       'rgba(107,72,184,0.5)',
+    paddingHorizontal: 10,
+    paddingVertical:   4,
+  },
+  manageBtnText: { fontFamily: Fonts.bold, fontSize: 11, color: Colors.moonlightCream },
+
+  pendingVoiceRow: {
+    borderRadius:    Radius.md,
+    backgroundColor: 'rgba(255,255,255,0.04)',
+    padding:         Spacing.sm,
+    gap:             Spacing.xs,
+  },
+  pendingVoiceActions: { flexDirection: 'row', gap: Spacing.xs },
+  approveBtn: {
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       'rgba(107,203,119,0.5)',
+    paddingHorizontal: 10,
+    paddingVertical:   4,
+  },
+  approveBtnText: { fontFamily: Fonts.bold, fontSize: 11, color: Colors.successGreen },
+
+  activityRow: {
+    flexDirection:  'row',
+    justifyContent: 'space-between',
+    alignItems:     'center',
+    gap:            Spacing.sm,
+  },
+  activityText: { flex: 1, fontFamily: Fonts.regular, fontSize: 12, color: Colors.moonlightCream },
+  activityDate: { fontFamily: Fonts.regular, fontSize: 10, color: Colors.textMuted },
 
   // Shared items
   sectionCard: {
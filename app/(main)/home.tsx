@@ -11,6 +11,8 @@ import {
   Modal,
   Dimensions,
   Image,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -38,19 +40,19 @@ import StarField from '@/components/StarField';
 import StardustLoader from '@/components/StardustLoader';
 import ParentalGate from '@/components/ParentalGate';
 import MagicSyncModal, { type MagicSyncState } from '@/components/MagicSyncModal';
-import NarratorGallery from '@/components/NarratorGallery';
-import CollectionModal from '@/components/CollectionModal';
+import NarratorGallery, { NARRATOR_COPY } from '@/components/NarratorGallery';
+import CollectionModal, { loadCollections } from '@/components/CollectionModal';
 import StarsPaywall from '@/components/StarsPaywall';
 import ReadyForMagicScreen from '@/components/ReadyForMagicScreen';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import {
-  toggleStoryFavorite,
-  upsertUserPreferences,
   isSupabaseAvailable,
   getProfile,
 } from '@/lib/supabase';
-import type { Child, ParentVoice, Story } from '@/lib/supabase';
+import type { Child, ParentVoice, Story, StorySaga } from '@/lib/supabase';
 import { loadHybridData } from '@/lib/syncService';
+import { enqueueMutation } from '@/lib/mutationQueue';
+import { getStoredStories, updateStoredStory } from '@/lib/storyStore';
 import {
   detectLocalData,
   migrateLocalDataToCloud,
@@ -61,7 +63,16 @@ import { NARRATOR_PERSONALITIES, buildWelcomeGreetingPrompt } from '@/lib/newell
 import { generateText } from '@fastshot/ai';
 import { getStardustBalance } from '@/lib/stardust';
 import { getBedtimeStreak } from '@/lib/streak';
+import { getActiveChild, childStorageKey, isSharedChild } from '@/lib/activeChild';
+import { isVoiceSelectable } from '@/lib/voiceInvites';
+import { moderateText } from '@/lib/contentSafety';
+import { getSagas } from '@/lib/sagas';
+import { exportStoryPdf } from '@/lib/storyExport';
+import { useActiveChild } from '@/hooks/useActiveChild';
+import { useStoryPages } from '@/hooks/useStoryPages';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 import { getCached, setCached, greetingCacheKey } from '@/lib/magicCache';
+import { getAppLanguage, translate } from '@/lib/i18n';
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android') {
@@ -93,12 +104,15 @@ type BookshelfTab = 'all' | 'favorites';
 function StoryCard({
   story,
   onPress,
+  onLongPress,
   onToggleFavorite,
 }: {
   story: Story;
   onPress: () => void;
+  onLongPress: () => void;
   onToggleFavorite: () => void;
 }) {
+  const { t }      = useAppLanguage();
   const themeKey   = story.theme?.toLowerCase() ?? '';
   const emoji      = THEME_EMOJI[themeKey] ?? '📖';
   const accent     = THEME_COLORS[themeKey] ?? Colors.softPurple;
@@ -125,6 +139,7 @@ function StoryCard({
     <TouchableOpacity
       style={[styles.storyCard, { width: CARD_WIDTH }]}
       onPress={onPress}
+      onLongPress={story.content ? onLongPress : undefined}
       activeOpacity={story.content ? 0.8 : 1}
     >
       {/* Glass blur layer */}
@@ -154,10 +169,10 @@ function StoryCard({
       {story.content == null ? (
         <View style={styles.generatingRow}>
           <View style={[styles.generatingDot, { backgroundColor: accent }]} />
-          <Text style={styles.generatingText}>Generating…</Text>
+          <Text style={styles.generatingText}>{t('home.generating')}</Text>
         </View>
       ) : (
-        <Text style={[styles.storyCardPlay, { color: accent }]}>Tap to read ›</Text>
+        <Text style={[styles.storyCardPlay, { color: accent }]}>{t('home.tapToRead')}</Text>
       )}
       {/* Favourite button */}
       <TouchableOpacity
@@ -258,6 +273,7 @@ function TabSwitcher({
 // Floating empty-state for Story Library
 // ─────────────────────────────────────────────────────────────────────────────
 function EmptyStoryLibrary({ onCreateStory }: { onCreateStory: () => void }) {
+  const { t }       = useAppLanguage();
   const floatY      = useSharedValue(0);
   const glowPulse   = useSharedValue(0.6);
   const btnScale    = useSharedValue(1);
@@ -313,10 +329,8 @@ function EmptyStoryLibrary({ onCreateStory }: { onCreateStory: () => void }) {
     <View style={emptyStyles.wrapper}>
       <Animated.View style={[emptyStyles.floatGroup, floatStyle]}>
         <StardustLoader size={52} color={Colors.celestialGold} />
-        <Text style={emptyStyles.title}>Your Story Library</Text>
-        <Text style={emptyStyles.subtitle}>
-          Each night a new adventure{'\n'}waits to be written just for you ✨
-        </Text>
+        <Text style={emptyStyles.title}>{t('home.emptyTitle')}</Text>
+        <Text style={emptyStyles.subtitle}>{t('home.emptySubtitle')}</Text>
       </Animated.View>
 
       {/* Crystal "Begin Your First Adventure" button */}
@@ -343,7 +357,7 @@ function EmptyStoryLibrary({ onCreateStory }: { onCreateStory: () => void }) {
             {/* Specular top-left edge */}
             <View style={emptyStyles.crystalBtnEdge} />
             <Text style={emptyStyles.crystalBtnIcon}>🪄</Text>
-            <Text style={emptyStyles.crystalBtnLabel}>Begin Your First Adventure</Text>
+            <Text style={emptyStyles.crystalBtnLabel}>{t('home.firstAdventure')}</Text>
           </LinearGradient>
         </TouchableOpacity>
       </Animated.View>
@@ -424,10 +438,14 @@ export default function HomeScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { language, t } = useAppLanguage();
 
-  const [child,          setChild]          = useState<Child | null>(null);
+  const { activeChild: child, children, switchChild, refresh: refreshChildren } = useActiveChild(user?.id);
   const [voices,         setVoices]         = useState<ParentVoice[]>([]);
-  const [stories,        setStories]        = useState<Story[]>([]);
+  const storyPages    = useStoryPages({ childId: child?.id ?? null });
+  const favoritePages = useStoryPages({ childId: child?.id ?? null, favoritesOnly: true });
+  const { reload: reloadStories }   = storyPages;
+  const { reload: reloadFavorites } = favoritePages;
   const [activeVoiceId,  setActiveVoiceId]  = useState<string | null>(null);
   const [showVoiceModal, setShowVoiceModal] = useState(false);
   const [, setIsLoading]                   = useState(true);
@@ -436,6 +454,8 @@ export default function HomeScreen() {
 
   // Phase 4: Collections & Paywall
   const [showCollections, setShowCollections] = useState(false);
+  // Collection stories may be on pages the bookshelf has not loaded yet
+  const [collectionStories, setCollectionStories] = useState<Story[]>([]);
   const [showPaywall,     setShowPaywall]     = useState(false);
 
   // ── Bookshelf tab content opacity (animated crossfade)
@@ -466,6 +486,7 @@ export default function HomeScreen() {
   // ── Stardust Total & Bedtime Streak ─────────────────────────────────────────
   const [stardustBalance, setStardustBalance] = useState(0);
   const [bedtimeStreak,   setBedtimeStreak]   = useState(0);
+  const [sagas,           setSagas]           = useState<StorySaga[]>([]);
 
   // Pulsing ember for streak pill
   const emberPulse = useSharedValue(1);
@@ -517,8 +538,9 @@ export default function HomeScreen() {
   const contentScale   = useSharedValue(1.03);
 
   // ── Derived data ─────────────────────────────────────────────────────────────
-  const recentStories   = stories.slice(0, 10);
-  const favoriteStories = stories.filter((s) => s.is_favorite);
+  // Stories saved before multi-child support have no child_id – show them to everyone
+  const childStories    = storyPages.stories;
+  const favoriteStories = favoritePages.stories;
 
   // ── Animated tab content ─────────────────────────────────────────────────────
   const tabContentStyle = useAnimatedStyle(() => ({ opacity: tabContentOpacity.value }));
@@ -558,39 +580,44 @@ export default function HomeScreen() {
       }
 
       const data = await loadHybridData(user?.id ?? null);
-
-      if (data.children.length > 0) {
-        setChild(data.children[0]);
-      }
+      await refreshChildren();
       if (data.voices.length > 0) {
         setVoices(data.voices);
-        if (!savedVoiceId && data.voices[0]) {
-          setActiveVoiceId(data.voices[0].id);
-          await AsyncStorage.setItem('active_voice_id', data.voices[0].id);
+        const firstVoice = data.voices.find((v) => isVoiceSelectable(v, user?.id, null));
+        if (!savedVoiceId && firstVoice) {
+          setActiveVoiceId(firstVoice.id);
+          await AsyncStorage.setItem('active_voice_id', firstVoice.id);
         }
       }
-      if (data.stories.length > 0) {
-        setStories(data.stories);
-      }
+      // The sync refreshed the story store – show its first pages again
+      await Promise.all([reloadStories(), reloadFavorites()]);
       if (data.preferences?.active_voice_id) {
         setActiveVoiceId(data.preferences.active_voice_id);
       }
     } catch {
       try {
-        const local = await AsyncStorage.getItem('pending_child_profile');
-        if (local) setChild(JSON.parse(local) as Child);
-        const localStories = await AsyncStorage.getItem('local_stories');
-        if (localStories) {
-          const parsed = JSON.parse(localStories) as Story[];
-          setStories(parsed.map((s) => ({ ...s, is_favorite: s.is_favorite ?? false })));
-        }
+        await refreshChildren();
+        await Promise.all([reloadStories(), reloadFavorites()]);
       } catch {
         // ignore
       }
     } finally {
       setIsLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, refreshChildren, reloadStories, reloadFavorites]);
+
+  useEffect(() => {
+    if (!showCollections) return;
+    void loadCollections()
+      .then((collections) => getStoredStories([...new Set(collections.flatMap((c) => c.story_ids))]))
+      .then((found) => setCollectionStories(found as unknown as Story[]))
+      .catch(() => {});
+  }, [showCollections]);
+
+  // Sagas belong to the active child; a new chapter also changes stories
+  useEffect(() => {
+    void getSagas(child?.id ?? null).then(setSagas);
+  }, [child?.id, storyPages.stories]);
 
   // ── Migration check (runs once after user authenticates) ──────────────────
   const checkForMigration = useCallback(async (uid: string) => {
@@ -617,10 +644,6 @@ export default function HomeScreen() {
     contentOpacity.value = withDelay(280, withTiming(1, { duration: 700, easing: Easing.out(Easing.quad) }));
     contentScale.value   = withDelay(280, withTiming(1, { duration: 800, easing: Easing.out(Easing.back(1.05)) }));
 
-    // Load stardust balance and streak
-    void getStardustBalance().then(setStardustBalance);
-    void getBedtimeStreak().then(setBedtimeStreak);
-
     // Ember pulse animation — warm 3s breathing cycle
     emberPulse.value = withRepeat(
       withSequence(
@@ -648,6 +671,12 @@ export default function HomeScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [loadData]);
 
+  // Stardust and streaks belong to the active child – reload on every switch
+  useEffect(() => {
+    void getStardustBalance().then(setStardustBalance);
+    void getBedtimeStreak().then(setBedtimeStreak);
+  }, [child?.id]);
+
   // Run migration check once user is available
   useEffect(() => {
     if (user?.id) {
@@ -676,13 +705,12 @@ export default function HomeScreen() {
       if (!lastOpenRaw || (now - parseInt(lastOpenRaw, 10)) < THRESHOLD_MS) return;
 
       // Get selected narrator
-      const narratorId = await AsyncStorage.getItem('selected_narrator_id');
+      const narratorId = await AsyncStorage.getItem(await childStorageKey('selected_narrator_id'));
       const narrator = NARRATOR_PERSONALITIES.find((n) => n.id === narratorId) ?? NARRATOR_PERSONALITIES[0];
       setGreetingNarrator(narrator);
 
       // Get child name
-      const childRaw = await AsyncStorage.getItem('pending_child_profile');
-      const childProfile = childRaw ? JSON.parse(childRaw) as { name?: string } : null;
+      const childProfile = await getActiveChild();
       const childName = childProfile?.name ?? 'little one';
 
       // Determine time of day
@@ -690,21 +718,34 @@ export default function HomeScreen() {
       const timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night' =
         hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : hour < 21 ? 'evening' : 'night';
 
+      const language = await getAppLanguage();
       try {
         // Check Magic Cache before calling AI
-        const cacheKey = greetingCacheKey(narrator.id, childName, timeOfDay);
+        const cacheKey = greetingCacheKey(narrator.id, childName, timeOfDay, language);
         const cached   = await getCached(cacheKey);
         if (cached) {
           setGreetingText(cached);
         } else {
-          const prompt  = buildWelcomeGreetingPrompt(narrator, childName, timeOfDay);
+          const prompt  = buildWelcomeGreetingPrompt(narrator, childName, timeOfDay, childProfile, language);
           const greeting = await generateText({ prompt });
-          const text = greeting?.trim() || `Welcome back! ${childName} will love tonight's bedtime story. Shall we create one together?`;
+          const fallback = translate(language, 'home.greetingFallback', { name: childName });
+          const { text } = greeting?.trim()
+            ? await moderateText(greeting, {
+              kind:       'greeting',
+              age:        childProfile?.age,
+              title:      `${narrator.name}'s greeting`,
+              allowNames: [childName],
+              childId:    childProfile?.id,
+              boundaries: childProfile,
+              language,
+              fallback,
+            })
+            : { text: fallback };
           setGreetingText(text);
           await setCached(cacheKey, text);
         }
       } catch {
-        setGreetingText(`Welcome back! Time for a magical bedtime story. ${narrator.previewText}`);
+        setGreetingText(translate(language, 'home.greetingFallback', { name: childName }));
       }
 
       setShowGreeting(true);
@@ -755,27 +796,29 @@ export default function HomeScreen() {
 
   // ── Toggle favourite ──────────────────────────────────────────────────────────
   const handleToggleFavorite = useCallback(async (storyId: string) => {
-    const updatedStories = stories.map((s) =>
-      s.id === storyId ? { ...s, is_favorite: !s.is_favorite } : s
-    );
-    setStories(updatedStories);
+    const story = [...childStories, ...favoriteStories].find((s) => s.id === storyId);
+    const isFavorite = !(story?.is_favorite ?? false);
+    storyPages.patchStory(storyId, { is_favorite: isFavorite });
 
-    await AsyncStorage.setItem('local_stories', JSON.stringify(updatedStories.slice(0, 20)));
+    await updateStoredStory(storyId, { is_favorite: isFavorite });
+    await favoritePages.reload();
 
     const raw = await AsyncStorage.getItem('current_story');
     if (raw) {
       const current = JSON.parse(raw) as { id?: string };
       if (current.id === storyId) {
-        const updated = updatedStories.find((s) => s.id === storyId);
-        await AsyncStorage.setItem('current_story', JSON.stringify({ ...current, is_favorite: updated?.is_favorite }));
+        await AsyncStorage.setItem('current_story', JSON.stringify({ ...current, is_favorite: isFavorite }));
       }
     }
 
-    if (isSupabaseAvailable && user?.id) {
-      const updated = updatedStories.find((s) => s.id === storyId);
-      await toggleStoryFavorite(storyId, updated?.is_favorite ?? false);
-    }
-  }, [stories, user?.id]);
+    await enqueueMutation({
+      userId:   user?.id,
+      table:    'stories',
+      op:       'update',
+      recordId: storyId,
+      payload:  { is_favorite: isFavorite },
+    });
+  }, [childStories, favoriteStories, storyPages, favoritePages, user?.id]);
 
   // ── Open a story on the player ────────────────────────────────────────────────
   const openStory = useCallback(async (story: Story) => {
@@ -792,10 +835,41 @@ export default function HomeScreen() {
       theme:       story.theme ?? '',
       createdAt,
       is_favorite: story.is_favorite,
+      saga_id:        story.saga_id ?? null,
+      chapter_number: story.chapter_number ?? null,
+      recap:          story.recap ?? null,
+      language:       (story as unknown as { language?: string }).language,
     }));
     router.push('/(main)/player');
   }, [child?.name, router]);
 
+  // ── Long-press: keep a story as a PDF ──────────────────────────────────────────
+  const handleStoryOptions = useCallback((story: Story) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const local = story as unknown as { imageUrl?: string; createdAt?: string; childName?: string; hasFamilyPortrait?: boolean; artStyleLabel?: string };
+    Alert.alert(story.title, undefined, [
+      {
+        text: t('pdf.save'),
+        onPress: () => {
+          void exportStoryPdf({
+            id:        story.id,
+            title:     story.title,
+            content:   story.content ?? '',
+            imageUrl:  story.image_url ?? local.imageUrl ?? null,
+            childName: child?.name ?? local.childName ?? t('pdf.yourChild'),
+            createdAt: story.created_at ?? local.createdAt ?? new Date().toISOString(),
+            hasFamilyPortrait: local.hasFamilyPortrait,
+            artStyleLabel:     local.artStyleLabel,
+          }, language).catch((err) => {
+            console.warn('[Home] PDF export failed:', err);
+            Alert.alert(t('pdf.failedTitle'), t('pdf.failed'));
+          });
+        },
+      },
+      { text: t('common.cancel'), style: 'cancel' },
+    ]);
+  }, [child?.name, language, t]);
+
   // ── Play Series ────────────────────────────────────────────────────────────────
   const handlePlaySeries = useCallback(async (storyIds: string[]) => {
     if (storyIds.length === 0) return;
@@ -805,11 +879,19 @@ export default function HomeScreen() {
     await AsyncStorage.setItem('series_queue', JSON.stringify(storyIds));
 
     // Navigate to the first story
-    const firstStory = stories.find((s) => s.id === storyIds[0]);
+    const firstStory = childStories.find((s) => s.id === storyIds[0])
+      ?? (await getStoredStories([storyIds[0]]))[0] as unknown as Story | undefined;
     if (firstStory) {
       await openStory(firstStory);
     }
-  }, [stories, openStory]);
+  }, [childStories, openStory]);
+
+  // ── Child switching ────────────────────────────────────────────────────────────
+  const handleSwitchChild = useCallback(async (next: Child) => {
+    if (next.id === child?.id) return;
+    void Haptics.selectionAsync();
+    await switchChild(next);
+  }, [child?.id, switchChild]);
 
   // ── Voice switching ────────────────────────────────────────────────────────────
   const handleSelectVoice = useCallback(async (voice: ParentVoice) => {
@@ -818,9 +900,13 @@ export default function HomeScreen() {
     setShowVoiceModal(false);
     await AsyncStorage.setItem('active_voice_id',    voice.id);
     await AsyncStorage.setItem('selected_voice_type', voice.voice_type);
-    if (isSupabaseAvailable && user?.id) {
-      await upsertUserPreferences(user.id, { active_voice_id: voice.id });
-    }
+    await enqueueMutation({
+      userId:   user?.id,
+      table:    'user_preferences',
+      op:       'update',
+      recordId: user?.id ?? '',
+      payload:  { active_voice_id: voice.id },
+    });
   }, [user?.id]);
 
   // Scroll parallax tracking
@@ -844,7 +930,30 @@ export default function HomeScreen() {
     opacity:   contentOpacity.value,
     transform: [{ scale: contentScale.value }],
   }));
-  const activeVoice  = voices.find((v) => v.id === activeVoiceId) ?? voices[0] ?? null;
+  // Invited voices only once approved, and only for the child they were recorded for
+  const switcherVoices = voices.filter((v) => isVoiceSelectable(v, user?.id, child?.id));
+  const activeVoice  = switcherVoices.find((v) => v.id === activeVoiceId) ?? switcherVoices[0] ?? null;
+
+  // A stored voice the switcher no longer offers (sent back for review,
+  // recorded for another child) must not keep narrating – fall back to the
+  // first one it does
+  useEffect(() => {
+    if (!activeVoiceId || !child || voices.length === 0) return;
+    const selectable = voices.filter((v) => isVoiceSelectable(v, user?.id, child.id));
+    if (selectable.some((v) => v.id === activeVoiceId)) return;
+    const fallback = selectable[0] ?? null;
+    setActiveVoiceId(fallback?.id ?? null);
+    void (fallback
+      ? AsyncStorage.setItem('active_voice_id', fallback.id)
+      : AsyncStorage.removeItem('active_voice_id'));
+    void enqueueMutation({
+      userId:   user?.id,
+      table:    'user_preferences',
+      op:       'update',
+      recordId: user?.id ?? '',
+      payload:  { active_voice_id: fallback?.id ?? null },
+    });
+  }, [activeVoiceId, child, voices, user?.id]);
 
   const greetingStyle = useAnimatedStyle(() => ({
     opacity:   greetingOpacity.value,
@@ -863,7 +972,7 @@ export default function HomeScreen() {
   }));
 
   // ── Story section renderer ─────────────────────────────────────────────────────
-  const renderStoryList = (data: Story[], emptyMsg?: string) => {
+  const renderStoryList = (data: Story[], onEndReached?: () => void, emptyMsg?: string) => {
     if (data.length === 0 && !emptyMsg) return null;
     return (
       <>
@@ -878,10 +987,13 @@ export default function HomeScreen() {
             showsHorizontalScrollIndicator={false}
             contentContainerStyle={styles.horizontalList}
             keyExtractor={(item) => item.id}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.6}
             renderItem={({ item }) => (
               <StoryCard
                 story={item}
                 onPress={() => void openStory(item)}
+                onLongPress={() => handleStoryOptions(item)}
                 onToggleFavorite={() => void handleToggleFavorite(item.id)}
               />
             )}
@@ -910,7 +1022,7 @@ export default function HomeScreen() {
         {/* Header */}
         <Animated.View style={[styles.header, headerStyle]}>
           <View>
-            <Text style={styles.greeting}>Good evening 🌙</Text>
+            <Text style={styles.greeting}>{t('home.greeting')}</Text>
             <Text style={styles.userName}>
               {user?.email?.split('@')[0] ?? 'Storyteller'}
             </Text>
@@ -948,7 +1060,7 @@ export default function HomeScreen() {
                 colors={['rgba(255,215,0,0.22)', 'rgba(255,215,0,0.08)']}
                 style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
               />
-              <Text style={styles.proButtonText}>👑 Pro</Text>
+              <Text style={styles.proButtonText}>{t('home.pro')}</Text>
             </TouchableOpacity>
 
             {/* ── Dream Guardian Avatar or Settings ── */}
@@ -956,7 +1068,7 @@ export default function HomeScreen() {
               <TouchableOpacity
                 style={styles.guardianAvatarBtn}
                 onPress={() =>
-                  requireParentalGate('Observatory', () => router.push('/(main)/observatory'))
+                  requireParentalGate(t('settings.observatory'), () => router.push('/(main)/observatory'))
                 }
                 activeOpacity={0.85}
               >
@@ -975,7 +1087,7 @@ export default function HomeScreen() {
               <TouchableOpacity
                 style={styles.settingsButton}
                 onPress={() =>
-                  requireParentalGate('Settings', () => router.push('/(main)/settings'))
+                  requireParentalGate(t('settings.title'), () => router.push('/(main)/settings'))
                 }
               >
                 <Text style={styles.settingsIcon}>⚙️</Text>
@@ -985,6 +1097,45 @@ export default function HomeScreen() {
         </Animated.View>
 
         <Animated.View style={contentStyle}>
+          {/* Child switcher */}
+          {child && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.childSwitcher}
+            >
+              {children.map((c) => {
+                const isActive = c.id === child.id;
+                return (
+                  <TouchableOpacity
+                    key={c.id ?? c.name}
+                    style={[styles.childPill, isActive && styles.childPillActive]}
+                    onPress={() => void handleSwitchChild(c)}
+                    activeOpacity={0.8}
+                  >
+                    <View style={[styles.childPillAvatar, isActive && styles.childPillAvatarActive]}>
+                      <Text style={styles.childPillInitial}>{c.name.charAt(0).toUpperCase()}</Text>
+                    </View>
+                    <Text style={[styles.childPillName, isActive && styles.childPillNameActive]} numberOfLines={1}>
+                      {c.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity
+                style={[styles.childPill, styles.childPillAdd]}
+                onPress={() =>
+                  requireParentalGate(t('gate.addChild'), () =>
+                    router.push({ pathname: '/(onboarding)/child-profile', params: { mode: 'add' } }),
+                  )
+                }
+                activeOpacity={0.8}
+              >
+                <Text style={styles.childPillAddText}>{t('home.addChild')}</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+
           {/* Child profile card */}
           {child && (
             <Animated.View style={[styles.childCard, parallaxCardsStyle]}>
@@ -1020,16 +1171,23 @@ export default function HomeScreen() {
                     <Text style={styles.childAge}>{child.age} years old</Text>
                   )}
                 </View>
-                <TouchableOpacity
-                  style={styles.editChildButton}
-                  onPress={() =>
-                    requireParentalGate('Edit Profile', () =>
-                      router.push('/(onboarding)/child-profile'),
-                    )
-                  }
-                >
-                  <Text style={styles.editChildText}>Edit</Text>
-                </TouchableOpacity>
+                {isSharedChild(child, user?.id) ? (
+                  // Added by another parent in the family group – theirs to edit
+                  <View style={styles.sharedChildBadge}>
+                    <Text style={styles.sharedChildText}>{t('home.shared')}</Text>
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.editChildButton}
+                    onPress={() =>
+                      requireParentalGate(t('home.editProfile'), () =>
+                        router.push({ pathname: '/(onboarding)/child-profile', params: { mode: 'edit' } }),
+                      )
+                    }
+                  >
+                    <Text style={styles.editChildText}>{t('home.edit')}</Text>
+                  </TouchableOpacity>
+                )}
               </View>
               {child.interests && child.interests.length > 0 && (
                 <View style={styles.interestsRow}>
@@ -1067,7 +1225,7 @@ export default function HomeScreen() {
             <View style={styles.activVoiceBannerLeft}>
               <View style={styles.activeVoiceDot} />
               <View>
-                <Text style={styles.activeVoiceLabel}>Now Narrating</Text>
+                <Text style={styles.activeVoiceLabel}>{t('home.nowNarrating')}</Text>
                 <Text style={styles.activeVoiceName}>
                   {activeVoice
                     ? `${activeVoice.voice_type === 'mom' ? '👩' : activeVoice.voice_type === 'dad' ? '👨' : '🎙️'} ${activeVoice.voice_name ?? activeVoice.voice_type}`
@@ -1076,7 +1234,7 @@ export default function HomeScreen() {
               </View>
             </View>
             <View style={styles.switchVoiceBtn}>
-              <Text style={styles.switchVoiceText}>Switch ›</Text>
+              <Text style={styles.switchVoiceText}>{t('home.switch')}</Text>
             </View>
           </TouchableOpacity>
 
@@ -1097,7 +1255,7 @@ export default function HomeScreen() {
             >
               <Text style={styles.createStoryIcon}>🪄</Text>
               <View style={styles.createStoryTextGroup}>
-                <Text style={styles.createStoryLabel}>Create New Story</Text>
+                <Text style={styles.createStoryLabel}>{t('home.createStory')}</Text>
                 <Text style={styles.createStorySubLabel}>
                   Personalised for {child?.name ?? 'your child'}
                 </Text>
@@ -1107,9 +1265,21 @@ export default function HomeScreen() {
           </TouchableOpacity>
 
           {/* ── Bookshelf section with tab switcher ── */}
-          {stories.length > 0 && (
+          {childStories.length > 0 && (
             <View style={styles.bookshelfSection}>
-              <Text style={styles.sectionTitle}>📚 My Bookshelf</Text>
+              <View style={styles.bookshelfHeader}>
+                <Text style={[styles.sectionTitle, { marginBottom: 0 }]}>{t('home.bookshelf')}</Text>
+                <TouchableOpacity
+                  style={styles.searchPill}
+                  onPress={() => {
+                    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    router.push('/(main)/library');
+                  }}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.searchPillText}>{t('home.search')}</Text>
+                </TouchableOpacity>
+              </View>
               <TabSwitcher
                 activeTab={activeTab}
                 favCount={favoriteStories.length}
@@ -1118,15 +1288,13 @@ export default function HomeScreen() {
 
               <Animated.View style={tabContentStyle}>
                 {activeTab === 'all'
-                  ? renderStoryList(recentStories)
+                  ? renderStoryList(childStories, () => void storyPages.loadMore())
                   : favoriteStories.length > 0
-                    ? renderStoryList(favoriteStories)
+                    ? renderStoryList(favoriteStories, () => void favoritePages.loadMore())
                     : (
                       <View style={styles.emptyInline}>
                         <Text style={styles.emptyInlineEmoji}>🤍</Text>
-                        <Text style={styles.emptyInlineText}>
-                          No favourites yet — tap the heart on any story to save it here.
-                        </Text>
+                        <Text style={styles.emptyInlineText}>{t('home.noFavourites')}</Text>
                       </View>
                     )
                 }
@@ -1135,16 +1303,51 @@ export default function HomeScreen() {
           )}
 
           {/* Empty state when no stories at all */}
-          {stories.length === 0 && (
+          {childStories.length === 0 && (
             <EmptyStoryLibrary
               onCreateStory={() => router.push('/(main)/create-story')}
             />
           )}
 
+          {/* ── Story Sagas ─────────────────────────────────────────────────── */}
+          {sagas.length > 0 && (
+            <View style={styles.collectionsSection}>
+              <View style={styles.collectionsSectionHeader}>
+                <Text style={styles.sectionTitle}>{t('home.sagas')}</Text>
+              </View>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.horizontalList}
+              >
+                {sagas.map((saga) => (
+                  <TouchableOpacity
+                    key={saga.id}
+                    style={[styles.sagaCard, saga.status === 'finished' && { opacity: 0.6 }]}
+                    onPress={() => {
+                      void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      router.push({ pathname: '/(main)/saga', params: { id: saga.id } });
+                    }}
+                    activeOpacity={0.8}
+                  >
+                    <LinearGradient
+                      colors={['rgba(126,200,227,0.16)', 'rgba(255,255,255,0.02)']}
+                      style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
+                    />
+                    <Text style={styles.sagaCardTitle} numberOfLines={2}>{saga.title}</Text>
+                    <Text style={styles.sagaCardMeta}>
+                      {saga.status === 'finished' ? 'The End' : `Chapter ${saga.chapter_count + 1} tonight`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
           {/* ── Collections Section ─────────────────────────────────────────── */}
           <View style={styles.collectionsSection}>
             <View style={styles.collectionsSectionHeader}>
-              <Text style={styles.sectionTitle}>🗂️ Collections</Text>
+              <Text style={styles.sectionTitle}>{t('home.collections')}</Text>
               <TouchableOpacity
                 style={styles.manageBtn}
                 onPress={() => {
@@ -1152,7 +1355,7 @@ export default function HomeScreen() {
                   setShowCollections(true);
                 }}
               >
-                <Text style={styles.manageBtnText}>Manage ›</Text>
+                <Text style={styles.manageBtnText}>{t('home.manage')}</Text>
               </TouchableOpacity>
             </View>
             <TouchableOpacity
@@ -1173,10 +1376,8 @@ export default function HomeScreen() {
               <View style={styles.glassTopEdge} />
               <Text style={styles.collectionsCardEmoji}>📚</Text>
               <View style={styles.collectionsCardText}>
-                <Text style={styles.collectionsCardTitle}>Create a Series</Text>
-                <Text style={styles.collectionsCardSubtitle}>
-                  Group 2–3 stories for a continuous bedtime routine
-                </Text>
+                <Text style={styles.collectionsCardTitle}>{t('home.createSeries')}</Text>
+                <Text style={styles.collectionsCardSubtitle}>{t('home.seriesHint')}</Text>
               </View>
               <Text style={styles.collectionsCardArrow}>›</Text>
             </TouchableOpacity>
@@ -1203,7 +1404,7 @@ export default function HomeScreen() {
                   style={styles.quickActionGradient}
                 >
                   <Text style={styles.quickActionEmoji}>🎙️</Text>
-                  <Text style={styles.quickActionText}>Record Voice</Text>
+                  <Text style={styles.quickActionText}>{t('home.recordVoice')}</Text>
                 </LinearGradient>
               </View>
             </TouchableOpacity>
@@ -1223,7 +1424,27 @@ export default function HomeScreen() {
                   style={styles.quickActionGradient}
                 >
                   <Text style={styles.quickActionEmoji}>✏️</Text>
-                  <Text style={styles.quickActionText}>Edit Profile</Text>
+                  <Text style={styles.quickActionText}>{t('home.editProfile')}</Text>
+                </LinearGradient>
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.quickAction}
+              onPress={() => {
+                void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/(main)/story-cast');
+              }}
+            >
+              <View style={styles.quickActionGlassWrapper}>
+                {Platform.OS !== 'web' && (
+                  <BlurView intensity={20} tint="dark" style={StyleSheet.absoluteFill} />
+                )}
+                <LinearGradient
+                  colors={['rgba(255,215,0,0.16)', 'rgba(255,215,0,0.04)']}
+                  style={styles.quickActionGradient}
+                >
+                  <Text style={styles.quickActionEmoji}>🧸</Text>
+                  <Text style={styles.quickActionText}>{t('home.storyCast')}</Text>
                 </LinearGradient>
               </View>
             </TouchableOpacity>
@@ -1233,9 +1454,13 @@ export default function HomeScreen() {
 
       {/* ── Bedtime Streak Floating Pill ─────────────────────────────────────── */}
       {bedtimeStreak > 0 && (
-        <Animated.View
+        <TouchableOpacity
           style={[styles.streakPill, { bottom: insets.bottom + 20 }]}
-          pointerEvents="none"
+          onPress={() => {
+            void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.push('/(main)/streak-calendar');
+          }}
+          activeOpacity={0.85}
         >
           {Platform.OS !== 'web' && (
             <BlurView intensity={28} tint="dark" style={StyleSheet.absoluteFill} />
@@ -1250,9 +1475,9 @@ export default function HomeScreen() {
           <Animated.Text style={[styles.streakEmber, emberStyle]}>🔥</Animated.Text>
           <View>
             <Text style={styles.streakCount}>{bedtimeStreak}</Text>
-            <Text style={styles.streakLabel}>Night Streak</Text>
+            <Text style={styles.streakLabel}>{t('home.nightStreak')}</Text>
           </View>
-        </Animated.View>
+        </TouchableOpacity>
       )}
 
       {/* ── Parental Gate ─────────────────────────────────────────────────────── */}
@@ -1279,7 +1504,10 @@ export default function HomeScreen() {
       <CollectionModal
         visible={showCollections}
         onClose={() => setShowCollections(false)}
-        allStories={stories.filter((s) => Boolean(s.content))}
+        allStories={[
+          ...childStories,
+          ...collectionStories.filter((c) => !childStories.some((s) => s.id === c.id)),
+        ].filter((s) => Boolean(s.content))}
         onPlaySeries={(ids) => void handlePlaySeries(ids)}
       />
 
@@ -1316,12 +1544,12 @@ export default function HomeScreen() {
             <View style={styles.glassTopEdge} />
             <TouchableOpacity activeOpacity={1} style={styles.voiceModalBody}>
               <View style={styles.voiceModalHandle} />
-              <Text style={styles.voiceModalTitle}>🎙️  Choose Narrator</Text>
+              <Text style={styles.voiceModalTitle}>{t('home.chooseNarrator')}</Text>
               <Text style={styles.voiceModalSubtitle}>
                 {"Select which voice will narrate tonight's story"}
               </Text>
 
-              {voices.length === 0 ? (
+              {switcherVoices.length === 0 ? (
                 <TouchableOpacity
                   style={styles.addVoiceCard}
                   onPress={() => {
@@ -1330,12 +1558,12 @@ export default function HomeScreen() {
                   }}
                 >
                   <Text style={styles.addVoiceEmoji}>＋</Text>
-                  <Text style={styles.addVoiceText}>Record your first voice</Text>
+                  <Text style={styles.addVoiceText}>{t('home.recordFirstVoice')}</Text>
                 </TouchableOpacity>
               ) : (
                 <View style={styles.voiceList}>
-                  {voices.map((voice) => {
-                    const isActive = voice.id === activeVoiceId || (!activeVoiceId && voices.indexOf(voice) === 0);
+                  {switcherVoices.map((voice) => {
+                    const isActive = voice.id === activeVoice?.id;
                     return (
                       <TouchableOpacity
                         key={voice.id}
@@ -1355,6 +1583,9 @@ export default function HomeScreen() {
                         <View style={styles.voiceOptionInfo}>
                           <Text style={styles.voiceOptionName}>{voice.voice_name ?? voice.voice_type}</Text>
                           <Text style={styles.voiceOptionStatus}>
+                            {voice.invite_id
+                              ? `💌 For ${child?.name ?? 'this child'} · `
+                              : user?.id && voice.user_id !== user.id ? '👪 Family · ' : ''}
                             {voice.is_complete
                               ? '✓ Ready to narrate'
                               : `${voice.script_paragraphs_recorded}/5 paragraphs recorded`}
@@ -1362,7 +1593,7 @@ export default function HomeScreen() {
                         </View>
                         {isActive && (
                           <View style={styles.activeIndicator}>
-                            <Text style={styles.activeIndicatorText}>Active</Text>
+                            <Text style={styles.activeIndicatorText}>{t('home.active')}</Text>
                           </View>
                         )}
                         {!isActive && (
@@ -1379,7 +1610,7 @@ export default function HomeScreen() {
                       router.push('/(onboarding)/voice-selection');
                     }}
                   >
-                    <Text style={styles.addAnotherVoiceText}>+ Add Another Voice</Text>
+                    <Text style={styles.addAnotherVoiceText}>{t('home.addAnotherVoice')}</Text>
                   </TouchableOpacity>
                 </View>
               )}
@@ -1388,7 +1619,7 @@ export default function HomeScreen() {
                 style={styles.voiceModalClose}
                 onPress={() => setShowVoiceModal(false)}
               >
-                <Text style={styles.voiceModalCloseText}>Done</Text>
+                <Text style={styles.voiceModalCloseText}>{t('common.done')}</Text>
               </TouchableOpacity>
             </TouchableOpacity>
           </View>
@@ -1423,7 +1654,7 @@ export default function HomeScreen() {
 
             <Text style={styles.greetingNarratorEmoji}>{greetingNarrator.emoji}</Text>
             <Text style={[styles.greetingNarratorName, { color: greetingNarrator.accentColor }]}>
-              {greetingNarrator.name} {greetingNarrator.species}
+              {greetingNarrator.name} {t(NARRATOR_COPY[greetingNarrator.id].species)}
             </Text>
             <Text style={styles.greetingDivider}>· · ·</Text>
             <Text style={styles.greetingMessage}>{greetingText}</Text>
@@ -1440,13 +1671,13 @@ export default function HomeScreen() {
                 start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                 style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
               />
-              <Text style={styles.greetingCTAText}>🪄  Begin Tonight&apos;s Story</Text>
+              <Text style={styles.greetingCTAText}>{t('home.beginTonight')}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.greetingDismiss}
               onPress={() => setShowGreeting(false)}
             >
-              <Text style={styles.greetingDismissText}>Maybe later</Text>
+              <Text style={styles.greetingDismissText}>{t('common.maybeLater')}</Text>
             </TouchableOpacity>
           </Animated.View>
         </TouchableOpacity>
@@ -1559,6 +1790,20 @@ const styles = StyleSheet.create({
 
   // Collections section
   collectionsSection: { marginBottom: Spacing.xl },
+  sagaCard: {
+    width:           170,
+    minHeight:       88,
+    padding:         Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderColor:     'rgba(126,200,227,0.28)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    overflow:        'hidden',
+    justifyContent:  'space-between',
+    gap:             6,
+  },
+  sagaCardTitle: { fontFamily: Fonts.extraBold, fontSize: 14, color: '#FFFFFF' },
+  sagaCardMeta:  { fontFamily: Fonts.bold, fontSize: 11, color: Colors.softBlue },
   collectionsSectionHeader: {
     flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
     marginBottom: 12,
@@ -1588,6 +1833,36 @@ const styles = StyleSheet.create({
   collectionsCardSubtitle: { fontFamily: Fonts.regular, fontSize: 12, color: 'rgba(240,235,248,0.55)', marginTop: 2 },
   collectionsCardArrow: { fontSize: 22, color: 'rgba(240,235,248,0.45)', fontFamily: Fonts.bold },
 
+  // Child switcher
+  childSwitcher: { gap: 8, paddingBottom: Spacing.md },
+  childPill: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    maxWidth: 160,
+    paddingLeft: 4, paddingRight: 14, paddingVertical: 4,
+    borderRadius: Radius.full,
+    backgroundColor: 'rgba(255,255,255,0.07)',
+    borderWidth: 1, borderColor: 'rgba(255,255,255,0.14)',
+  },
+  childPillActive: {
+    backgroundColor: 'rgba(255,215,0,0.12)',
+    borderColor: 'rgba(255,215,0,0.45)',
+  },
+  childPillAvatar: {
+    width: 28, height: 28, borderRadius: 14,
+    backgroundColor: 'rgba(107,72,184,0.45)',
+    alignItems: 'center', justifyContent: 'center',
+  },
+  childPillAvatarActive: { backgroundColor: 'rgba(255,215,0,0.30)' },
+  childPillInitial:    { fontFamily: Fonts.extraBold, fontSize: 13, color: '#FFFFFF' },
+  childPillName:       { fontFamily: Fonts.bold, fontSize: 13, color: 'rgba(240,235,248,0.70)', flexShrink: 1 },
+  childPillNameActive: { color: Colors.celestialGold },
+  childPillAdd: {
+    paddingLeft: 14,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255,215,0,0.35)',
+  },
+  childPillAddText: { fontFamily: Fonts.bold, fontSize: 13, color: Colors.celestialGold },
+
   // Child card
   childCard: {
     borderRadius: Radius.xl,
@@ -1640,6 +1915,14 @@ const styles = StyleSheet.create({
     borderWidth: 1, borderColor: 'rgba(255,215,0,0.28)',
   },
   editChildText:  { fontFamily: Fonts.bold, fontSize: 12, color: Colors.celestialGold },
+  sharedChildBadge: {
+    marginLeft: 'auto',
+    paddingHorizontal: 12, paddingVertical: 6,
+    backgroundColor: 'rgba(126,200,227,0.10)',
+    borderRadius: Radius.full,
+    borderWidth: 1, borderColor: 'rgba(126,200,227,0.30)',
+  },
+  sharedChildText: { fontFamily: Fonts.bold, fontSize: 12, color: 'rgba(240,235,248,0.75)' },
   interestsRow:   { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
   interestChip:   {
     backgroundColor: 'rgba(255,215,0,0.09)',
@@ -1716,6 +1999,21 @@ const styles = StyleSheet.create({
 
   // Bookshelf section
   bookshelfSection: { marginBottom: Spacing.xl },
+  bookshelfHeader: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'space-between',
+    marginBottom:   12,
+  },
+  searchPill: {
+    paddingVertical:   6,
+    paddingHorizontal: 12,
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       'rgba(255,255,255,0.14)',
+    backgroundColor:   'rgba(255,255,255,0.06)',
+  },
+  searchPillText: { fontFamily: Fonts.bold, fontSize: 12, color: Colors.moonlightCream },
   sectionTitle: {
     fontFamily: Fonts.extraBold, fontSize: 18, color: '#FFFFFF', marginBottom: 12, letterSpacing: 0.2,
     textShadowColor: 'rgba(0,0,0,0.50)', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 6,
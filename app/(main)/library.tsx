@@ -0,0 +1,341 @@
+/**
+ * Library
+ *
+ * Search every story the family has made – by title, words in the story,
+ * theme, narrator or child – with fuzzy matching, and narrow the list with
+ * filters: favourites, interactive adventures, language, when it was made
+ * and collection. Searches the whole story store (lib/storyStore) through
+ * lib/storySearch, so it works offline.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import StarField from '@/components/StarField';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+import { loadCollections, type StoryCollection } from '@/components/CollectionModal';
+import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import type { StringKey } from '@/lib/i18n';
+import { SUPPORTED_LANGUAGES } from '@/lib/newell';
+import {
+  getSearchIndex,
+  refreshSearchIndex,
+  searchStories,
+  type IndexedStory,
+  type StorySearchFilters,
+  type StorySearchResult,
+} from '@/lib/storySearch';
+
+type DateRange = 'all' | 'week' | 'month' | 'year';
+
+const DATE_RANGES: { id: DateRange; label: StringKey; days: number | null }[] = [
+  { id: 'all',   label: 'library.anyTime',   days: null },
+  { id: 'week',  label: 'library.thisWeek',  days: 7 },
+  { id: 'month', label: 'library.thisMonth', days: 31 },
+  { id: 'year',  label: 'library.thisYear',  days: 365 },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Filter chip
+// ─────────────────────────────────────────────────────────────────────────────
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={() => {
+        void Haptics.selectionAsync();
+        onPress();
+      }}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Screen
+// ─────────────────────────────────────────────────────────────────────────────
+export default function LibraryScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t }  = useAppLanguage();
+
+  const [index,        setIndex]        = useState<IndexedStory[]>(getSearchIndex);
+  const [collections,  setCollections]  = useState<StoryCollection[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(true);
+  const [query,        setQuery]        = useState('');
+  const [favoritesOnly,   setFavoritesOnly]   = useState(false);
+  const [interactiveOnly, setInteractiveOnly] = useState(false);
+  const [language,     setLanguage]     = useState<string | null>(null);
+  const [dateRange,    setDateRange]    = useState<DateRange>('all');
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // The last index shows instantly; rebuild it to pick up new stories
+    void loadCollections().then(setCollections);
+    void refreshSearchIndex()
+      .then(setIndex)
+      .finally(() => setIsRefreshing(false));
+  }, []);
+
+  const languages = useMemo(
+    () => SUPPORTED_LANGUAGES.filter((l) => index.some((s) => s.language === l.code)),
+    [index],
+  );
+
+  const results: StorySearchResult[] = useMemo(() => {
+    const days = DATE_RANGES.find((r) => r.id === dateRange)?.days ?? null;
+    const filters: StorySearchFilters = {
+      favoritesOnly,
+      interactiveOnly,
+      language,
+      from:     days ? new Date(Date.now() - days * 86_400_000).toISOString() : null,
+      storyIds: collections.find((c) => c.id === collectionId)?.story_ids ?? null,
+    };
+    return searchStories(index, query, filters);
+  }, [index, query, favoritesOnly, interactiveOnly, language, dateRange, collectionId, collections]);
+
+  const openStory = useCallback(async (story: IndexedStory) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await AsyncStorage.setItem('current_story', JSON.stringify({
+      ...story.raw,
+      id:          story.id,
+      title:       story.title,
+      content:     story.content,
+      imageUrl:    story.imageUrl,
+      childName:   story.childName ?? 'your child',
+      theme:       story.theme ?? '',
+      createdAt:   story.createdAt,
+      is_favorite: story.isFavorite,
+    }));
+    router.push('/(main)/player');
+  }, [router]);
+
+  const hasFilters = favoritesOnly || interactiveOnly || language !== null || dateRange !== 'all' || collectionId !== null;
+
+  const renderResult = useCallback(({ item }: { item: StorySearchResult }) => {
+    const { story } = item;
+    const date = new Date(story.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+    const meta = [date, story.childName, story.narratorName, story.theme].filter(Boolean).join(' · ');
+    return (
+      <TouchableOpacity style={styles.resultRow} onPress={() => void openStory(story)} activeOpacity={0.82}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.resultTitle} numberOfLines={1}>
+            {story.isFavorite ? '❤️ ' : ''}{story.isInteractive ? '🎯 ' : ''}{story.title}
+          </Text>
+          <Text style={styles.resultMeta} numberOfLines={1}>{meta}</Text>
+          {item.snippet ? <Text style={styles.resultSnippet} numberOfLines={2}>{item.snippet}</Text> : null}
+        </View>
+        <Text style={styles.resultChevron}>▶</Text>
+      </TouchableOpacity>
+    );
+  }, [openStory]);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#0D0E24', '#1A1B41', '#2A1150']}
+        locations={[0, 0.5, 1]}
+        style={StyleSheet.absoluteFill}
+      />
+      <StarField count={40} />
+
+      <View style={[styles.top, { paddingTop: insets.top + 16 }]}>
+        {/* Header */}
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.backBtn}
+            onPress={() => {
+              void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Text style={styles.backText}>{t('common.back')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('library.title')}</Text>
+          <View style={styles.headerRight}>
+            {isRefreshing && <ActivityIndicator size="small" color={Colors.textMuted} />}
+          </View>
+        </View>
+
+        {/* Search */}
+        <View style={styles.searchBox}>
+          <Text style={styles.searchIcon}>🔍</Text>
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t('library.searchPlaceholder')}
+            placeholderTextColor={Colors.textMuted}
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+        </View>
+
+        {/* Filters */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Chip label={t('library.favourites')} selected={favoritesOnly} onPress={() => setFavoritesOnly(!favoritesOnly)} />
+          <Chip label={t('library.interactive')} selected={interactiveOnly} onPress={() => setInteractiveOnly(!interactiveOnly)} />
+          {languages.length > 1 && languages.map((l) => (
+            <Chip
+              key={l.code}
+              label={`${l.emoji} ${l.label}`}
+              selected={language === l.code}
+              onPress={() => setLanguage(language === l.code ? null : l.code)}
+            />
+          ))}
+        </ScrollView>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+          keyboardShouldPersistTaps="handled"
+        >
+          {DATE_RANGES.map((r) => (
+            <Chip key={r.id} label={t(r.label)} selected={dateRange === r.id} onPress={() => setDateRange(r.id)} />
+          ))}
+          {collections.map((c) => (
+            <Chip
+              key={c.id}
+              label={`${c.emoji} ${c.name}`}
+              selected={collectionId === c.id}
+              onPress={() => setCollectionId(collectionId === c.id ? null : c.id)}
+            />
+          ))}
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.story.id}
+        renderItem={renderResult}
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + 40 }]}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+        ListHeaderComponent={
+          <Text style={styles.countText}>
+            {results.length === 1 ? t('library.countOne') : t('library.count', { count: results.length })}
+            {query.trim() || hasFilters ? t('library.countOf', { total: index.length }) : ''}
+          </Text>
+        }
+        ListEmptyComponent={
+          isRefreshing ? null : (
+            <Text style={styles.emptyText}>
+              {index.length === 0
+                ? t('library.emptyFirst')
+                : t('library.emptyNoMatch')}
+            </Text>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Styles
+// ─────────────────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.deepSpace },
+  top:       { paddingHorizontal: Spacing.lg },
+  list:      { paddingHorizontal: Spacing.lg },
+
+  headerRow: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'space-between',
+    marginBottom:   Spacing.md,
+  },
+  backBtn:     { paddingVertical: 8, minWidth: 60 },
+  backText:    { fontFamily: Fonts.medium, fontSize: 14, color: Colors.textMuted },
+  headerTitle: {
+    fontFamily:    Fonts.extraBold,
+    fontSize:      20,
+    color:         Colors.moonlightCream,
+    letterSpacing: 0.3,
+  },
+  headerRight: { minWidth: 60, alignItems: 'flex-end' },
+
+  // Search
+  searchBox: {
+    flexDirection:     'row',
+    alignItems:        'center',
+    gap:               Spacing.sm,
+    height:            48,
+    paddingHorizontal: Spacing.md,
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       Colors.glassBorder,
+    backgroundColor:   Colors.glassWhite,
+    marginBottom:      Spacing.sm,
+  },
+  searchIcon:  { fontSize: 16 },
+  searchInput: { flex: 1, fontFamily: Fonts.medium, fontSize: 15, color: Colors.moonlightCream },
+
+  // Filters
+  chipRow: { gap: Spacing.sm, paddingVertical: 6 },
+  chip: {
+    paddingVertical:   7,
+    paddingHorizontal: 14,
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       Colors.glassBorder,
+    backgroundColor:   Colors.glassWhite,
+  },
+  chipSelected:     { borderColor: Colors.glassBorderGold, backgroundColor: Colors.glassGold },
+  chipText:         { fontFamily: Fonts.bold, fontSize: 12, color: Colors.textMuted },
+  chipTextSelected: { color: Colors.celestialGold },
+
+  // Results
+  countText: {
+    fontFamily:   Fonts.bold,
+    fontSize:     11,
+    color:        Colors.textMuted,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+    marginVertical: Spacing.sm,
+  },
+  resultRow: {
+    flexDirection:   'row',
+    alignItems:      'center',
+    gap:             Spacing.sm,
+    padding:         Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Colors.glassWhite,
+    marginBottom:    Spacing.sm,
+  },
+  resultTitle:   { fontFamily: Fonts.bold, fontSize: 14, color: Colors.moonlightCream },
+  resultMeta:    { fontFamily: Fonts.medium, fontSize: 11, color: Colors.softBlue, marginTop: 2 },
+  resultSnippet: { fontFamily: Fonts.regular, fontSize: 12, lineHeight: 17, color: Colors.textMuted, marginTop: 4 },
+  resultChevron: { fontSize: 12, color: Colors.celestialGold },
+
+  emptyText: {
+    fontFamily: Fonts.medium,
+    fontSize:   13,
+    color:      Colors.textMuted,
+    textAlign:  'center',
+    marginVertical: Spacing.lg,
+  },
+});
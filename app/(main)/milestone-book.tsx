@@ -38,7 +38,11 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import StarField from '@/components/StarField';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import { buildGrowthThemesPrompt } from '@/lib/newell';
+import { getActiveChild, getActiveChildId } from '@/lib/activeChild';
+import { getAppLanguage, type StringKey } from '@/lib/i18n';
+import { listStories } from '@/lib/storyStore';
 import { generateText } from '@fastshot/ai';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -59,18 +63,10 @@ interface GrowthTheme {
   count:       number;
 }
 
-interface LocalStory {
-  id:        string;
-  title:     string;
-  content:   string;
-  theme:     string;
-  createdAt: string;
-}
-
-const MILESTONE_EMOJIS: { type: Milestone['type']; emoji: string; label: string }[] = [
-  { type: 'first',    emoji: '⭐', label: 'A First' },
-  { type: 'favorite', emoji: '💛', label: 'A Favourite' },
-  { type: 'memory',   emoji: '🌟', label: 'A Memory' },
+const MILESTONE_EMOJIS: { type: Milestone['type']; emoji: string; label: StringKey }[] = [
+  { type: 'first',    emoji: '⭐', label: 'memory.typeFirst' },
+  { type: 'favorite', emoji: '💛', label: 'memory.typeFavourite' },
+  { type: 'memory',   emoji: '🌟', label: 'memory.typeMemory' },
 ];
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -102,6 +98,7 @@ function ManuscriptOrnament({ size = 18 }: { size?: number }) {
 // Timeline Entry
 // ─────────────────────────────────────────────────────────────────────────────
 function TimelineEntry({ milestone, isLast }: { milestone: Milestone; isLast: boolean }) {
+  const { language, t } = useAppLanguage();
   const scale = useSharedValue(0.9);
   const opacity = useSharedValue(0);
 
@@ -149,11 +146,11 @@ function TimelineEntry({ milestone, isLast }: { milestone: Milestone; isLast: bo
           <View style={styles.entryHeader}>
             <View style={[styles.typeBadge, { backgroundColor: `${badgeColor}20`, borderColor: `${badgeColor}40` }]}>
               <Text style={[styles.typeBadgeText, { color: badgeColor }]}>
-                {MILESTONE_EMOJIS.find((m) => m.type === milestone.type)?.label ?? milestone.type}
+                {t(MILESTONE_EMOJIS.find((m) => m.type === milestone.type)?.label ?? 'memory.typeMemory')}
               </Text>
             </View>
             <Text style={styles.entryDate}>
-              {new Date(milestone.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+              {new Date(milestone.date).toLocaleDateString(language, { month: 'short', day: 'numeric', year: 'numeric' })}
             </Text>
           </View>
           <Text style={styles.entryTitle}>{milestone.title}</Text>
@@ -170,6 +167,7 @@ function TimelineEntry({ milestone, isLast }: { milestone: Milestone; isLast: bo
 // Growth Theme card
 // ─────────────────────────────────────────────────────────────────────────────
 function GrowthThemeCard({ theme, index }: { theme: GrowthTheme; index: number }) {
+  const { t } = useAppLanguage();
   const opacity = useSharedValue(0);
   const transY  = useSharedValue(20);
 
@@ -207,7 +205,7 @@ function GrowthThemeCard({ theme, index }: { theme: GrowthTheme; index: number }
       </View>
       <View style={styles.growthCount}>
         <Text style={styles.growthCountNum}>{theme.count}</Text>
-        <Text style={styles.growthCountLabel}>stories</Text>
+        <Text style={styles.growthCountLabel}>{t('memory.stories')}</Text>
       </View>
     </Animated.View>
   );
@@ -220,6 +218,7 @@ export default function MilestoneBookScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { language, t } = useAppLanguage();
 
   const [milestones,     setMilestones]     = useState<Milestone[]>([]);
   const [growthThemes,   setGrowthThemes]   = useState<GrowthTheme[]>([]);
@@ -274,16 +273,16 @@ export default function MilestoneBookScreen() {
             id:          'seed_1',
             type:        'first',
             emoji:       '⭐',
-            title:       'First Bedtime Story',
-            description: 'The night we discovered the magic of StoryVoice together.',
+            title:       t('memory.seedFirstTitle'),
+            description: t('memory.seedFirstText'),
             date:        new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
           },
           {
             id:          'seed_2',
             type:        'favorite',
             emoji:       '💛',
-            title:       'Favourite Narrator Chosen',
-            description: "Luna the Owl became our nightly companion.",
+            title:       t('memory.seedFavouriteTitle'),
+            description: t('memory.seedFavouriteText'),
             date:        new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString(),
           },
         ];
@@ -298,21 +297,22 @@ export default function MilestoneBookScreen() {
     setIsLoadingThemes(true);
     try {
       // Get recent stories
-      const storiesRaw = await AsyncStorage.getItem('local_stories');
-      const stories: LocalStory[] = storiesRaw ? JSON.parse(storiesRaw) : [];
-      if (stories.length === 0) {
+      const childId = await getActiveChildId();
+      const { stories: recentStories } = await listStories({ childId, limit: 8 });
+      if (recentStories.length === 0) {
         // Default themes when no stories
         setGrowthThemes([
-          { theme: 'Kindness',     emoji: '💛', description: 'Acts of generosity and care',    count: 0 },
-          { theme: 'Bravery',      emoji: '🦁', description: 'Facing fears with courage',      count: 0 },
-          { theme: 'Curiosity',    emoji: '🔭', description: 'Wonder and love of learning',    count: 0 },
+          { theme: t('memory.kindness'),  emoji: '💛', description: t('memory.kindnessText'),  count: 0 },
+          { theme: t('memory.bravery'),   emoji: '🦁', description: t('memory.braveryText'),   count: 0 },
+          { theme: t('memory.curiosity'), emoji: '🔭', description: t('memory.curiosityText'), count: 0 },
         ]);
         return;
       }
-      const recentStories = stories.slice(0, 8);
       const prompt = buildGrowthThemesPrompt(
         recentStories.map((s) => s.title),
-        recentStories.map((s) => s.content ?? '')
+        recentStories.map((s) => s.content ?? ''),
+        await getActiveChild(),
+        await getAppLanguage()
       );
       const raw = await generateText({ prompt });
       if (raw) {
@@ -329,9 +329,9 @@ export default function MilestoneBookScreen() {
         }
       }
       setGrowthThemes([
-        { theme: 'Kindness',  emoji: '💛', description: 'Acts of generosity and care',  count: recentStories.length },
-        { theme: 'Bravery',   emoji: '🦁', description: 'Facing fears with courage',    count: Math.floor(recentStories.length * 0.7) },
-        { theme: 'Curiosity', emoji: '🔭', description: 'Wonder and love of learning',  count: Math.floor(recentStories.length * 0.5) },
+        { theme: t('memory.kindness'),  emoji: '💛', description: t('memory.kindnessText'),  count: recentStories.length },
+        { theme: t('memory.bravery'),   emoji: '🦁', description: t('memory.braveryText'),   count: Math.floor(recentStories.length * 0.7) },
+        { theme: t('memory.curiosity'), emoji: '🔭', description: t('memory.curiosityText'), count: Math.floor(recentStories.length * 0.5) },
       ]);
     } catch (err) {
       console.error('[MilestoneBook] loadGrowthThemes error:', err);
@@ -342,7 +342,7 @@ export default function MilestoneBookScreen() {
 
   const handleSaveMilestone = useCallback(async () => {
     if (!newMilestone.title?.trim()) {
-      Alert.alert('Add a title', 'Please enter a title for this milestone.');
+      Alert.alert(t('memory.titleNeededTitle'), t('memory.titleNeeded'));
       return;
     }
     void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -359,7 +359,7 @@ export default function MilestoneBookScreen() {
     await AsyncStorage.setItem(`milestones_${user?.id ?? 'local'}`, JSON.stringify(updated));
     setIsAddingMilestone(false);
     setNewMilestone({ type: 'first', emoji: '⭐', title: '', description: '' });
-  }, [newMilestone, milestones, user?.id]);
+  }, [newMilestone, milestones, user?.id, t]);
 
   const headerStyle  = useAnimatedStyle(() => ({ opacity: headerOpacity.value }));
   const contentStyle = useAnimatedStyle(() => ({ opacity: contentOpacity.value }));
@@ -390,11 +390,11 @@ export default function MilestoneBookScreen() {
               router.back();
             }}
           >
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
           <View style={styles.headerCenter}>
             <Animated.Text style={[styles.headerOrnament, ornamentStyle]}>✦</Animated.Text>
-            <Text style={styles.headerTitle}>Memory Book</Text>
+            <Text style={styles.headerTitle}>{t('memory.title')}</Text>
             <Animated.Text style={[styles.headerOrnament, ornamentStyle]}>✦</Animated.Text>
           </View>
           <View style={{ width: 60 }} />
@@ -414,13 +414,11 @@ export default function MilestoneBookScreen() {
           <View style={styles.cornerBL}><Text style={styles.cornerOrnamentAlt}>❧</Text></View>
 
           <ManuscriptOrnament size={20} />
-          <Text style={styles.manuscriptTitle}>The Illuminated Chronicle</Text>
+          <Text style={styles.manuscriptTitle}>{t('memory.chronicle')}</Text>
           <ManuscriptOrnament size={16} />
-          <Text style={styles.manuscriptSubtitle}>
-            A treasury of firsts, favourites & milestones
-          </Text>
+          <Text style={styles.manuscriptSubtitle}>{t('memory.chronicleSubtitle')}</Text>
           <Text style={styles.manuscriptDate}>
-            {new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            {new Date().toLocaleDateString(language, { month: 'long', year: 'numeric' })}
           </Text>
         </Animated.View>
 
@@ -442,7 +440,7 @@ export default function MilestoneBookScreen() {
                 />
               )}
               <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
-                {tab === 'timeline' ? '📜 Timeline' : '🌱 Growth Themes'}
+                {tab === 'timeline' ? t('memory.tabTimeline') : t('memory.tabGrowth')}
               </Text>
             </TouchableOpacity>
           ))}
@@ -467,7 +465,7 @@ export default function MilestoneBookScreen() {
                 />
                 <Text style={styles.addMilestoneBtnIcon}>{isAddingMilestone ? '✕' : '+'}</Text>
                 <Text style={styles.addMilestoneBtnText}>
-                  {isAddingMilestone ? 'Cancel' : 'Record a Milestone'}
+                  {isAddingMilestone ? t('common.cancel') : t('memory.record')}
                 </Text>
               </TouchableOpacity>
 
@@ -477,7 +475,7 @@ export default function MilestoneBookScreen() {
                   {Platform.OS === 'ios' && (
                     <BlurView intensity={15} tint="dark" style={StyleSheet.absoluteFill} />
                   )}
-                  <Text style={styles.addFormTitle}>New Milestone</Text>
+                  <Text style={styles.addFormTitle}>{t('memory.newMilestone')}</Text>
 
                   {/* Type selector */}
                   <View style={styles.typeRow}>
@@ -495,7 +493,7 @@ export default function MilestoneBookScreen() {
                         )}
                         <Text style={styles.typeBtnEmoji}>{m.emoji}</Text>
                         <Text style={[styles.typeBtnLabel, newMilestone.type === m.type && { color: Colors.celestialGold }]}>
-                          {m.label}
+                          {t(m.label)}
                         </Text>
                       </TouchableOpacity>
                     ))}
@@ -505,7 +503,7 @@ export default function MilestoneBookScreen() {
                     style={styles.formInput}
                     value={newMilestone.title}
                     onChangeText={(v) => setNewMilestone((prev) => ({ ...prev, title: v }))}
-                    placeholder="Title (e.g. First full night sleeping)"
+                    placeholder={t('memory.titlePlaceholder')}
                     placeholderTextColor={Colors.textMuted}
                     maxLength={60}
                   />
@@ -513,7 +511,7 @@ export default function MilestoneBookScreen() {
                     style={[styles.formInput, styles.formTextArea]}
                     value={newMilestone.description}
                     onChangeText={(v) => setNewMilestone((prev) => ({ ...prev, description: v }))}
-                    placeholder="Add a note… (optional)"
+                    placeholder={t('memory.notePlaceholder')}
                     placeholderTextColor={Colors.textMuted}
                     multiline
                     numberOfLines={3}
@@ -530,7 +528,7 @@ export default function MilestoneBookScreen() {
                       start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                     />
-                    <Text style={styles.saveBtnText}>Save to Memory Book</Text>
+                    <Text style={styles.saveBtnText}>{t('memory.save')}</Text>
                   </TouchableOpacity>
                 </View>
               )}
@@ -539,10 +537,8 @@ export default function MilestoneBookScreen() {
               {milestones.length === 0 ? (
                 <View style={styles.emptyState}>
                   <Text style={styles.emptyEmoji}>📖</Text>
-                  <Text style={styles.emptyTitle}>Your chronicle awaits</Text>
-                  <Text style={styles.emptyText}>
-                    Record milestones, firsts, and favourite moments to fill your Memory Book.
-                  </Text>
+                  <Text style={styles.emptyTitle}>{t('memory.emptyTitle')}</Text>
+                  <Text style={styles.emptyText}>{t('memory.emptyText')}</Text>
                 </View>
               ) : (
                 <View style={styles.timeline}>
@@ -558,21 +554,19 @@ export default function MilestoneBookScreen() {
           {activeTab === 'growth' && (
             <>
               <View style={styles.growthHeader}>
-                <Text style={styles.growthHeaderTitle}>Themes of Growth</Text>
-                <Text style={styles.growthHeaderSubtitle}>
-                  AI-extracted from this month&apos;s stories — the values your child is absorbing.
-                </Text>
+                <Text style={styles.growthHeaderTitle}>{t('memory.growthTitle')}</Text>
+                <Text style={styles.growthHeaderSubtitle}>{t('memory.growthSubtitle')}</Text>
               </View>
 
               {isLoadingThemes ? (
                 <View style={styles.loadingState}>
                   <Text style={styles.loadingEmoji}>🌱</Text>
-                  <Text style={styles.loadingText}>Analysing your stories for growth themes…</Text>
+                  <Text style={styles.loadingText}>{t('memory.analysing')}</Text>
                 </View>
               ) : growthThemes.length > 0 ? (
                 <>
-                  {growthThemes.map((t, i) => (
-                    <GrowthThemeCard key={t.theme} theme={t} index={i} />
+                  {growthThemes.map((theme, i) => (
+                    <GrowthThemeCard key={theme.theme} theme={theme} index={i} />
                   ))}
 
                   {/* Insights card */}
@@ -584,32 +578,27 @@ export default function MilestoneBookScreen() {
                       colors={['rgba(107,72,184,0.15)', 'transparent']}
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
                     />
-                    <Text style={styles.insightsTitle}>💡 Parent Insight</Text>
-                    <Text style={styles.insightsText}>
-                      These themes reflect the values being gently woven into each bedtime story.
-                      The stories you create are shaping how your child sees the world.
-                    </Text>
+                    <Text style={styles.insightsTitle}>{t('memory.insightTitle')}</Text>
+                    <Text style={styles.insightsText}>{t('memory.insightText')}</Text>
                     <TouchableOpacity
                       style={styles.refreshBtn}
                       onPress={() => { setGrowthThemes([]); void loadGrowthThemes(); }}
                       activeOpacity={0.85}
                     >
-                      <Text style={styles.refreshBtnText}>↻  Refresh Themes</Text>
+                      <Text style={styles.refreshBtnText}>{t('memory.refresh')}</Text>
                     </TouchableOpacity>
                   </View>
                 </>
               ) : (
                 <View style={styles.emptyState}>
                   <Text style={styles.emptyEmoji}>🌱</Text>
-                  <Text style={styles.emptyTitle}>No stories yet</Text>
-                  <Text style={styles.emptyText}>
-                    Create some stories to see the growth themes emerging from your bedtime sessions.
-                  </Text>
+                  <Text style={styles.emptyTitle}>{t('memory.noStoriesTitle')}</Text>
+                  <Text style={styles.emptyText}>{t('memory.noStoriesText')}</Text>
                   <TouchableOpacity
                     style={styles.createStoryBtn}
                     onPress={() => router.push('/(main)/create-story')}
                   >
-                    <Text style={styles.createStoryBtnText}>Create a Story</Text>
+                    <Text style={styles.createStoryBtnText}>{t('memory.createStory')}</Text>
                   </TouchableOpacity>
                 </View>
               )}
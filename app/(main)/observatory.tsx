@@ -6,7 +6,8 @@
  * name and age — persisted in the Supabase `profiles` table and used to
  * personalise AI narrator greetings.
  *
- * Also includes the Dream Guardian Workshop for generating AI portrait avatars.
+ * Also includes the Dream Guardian Workshop for generating AI portrait avatars,
+ * and the Story Safety Filter log of passages blocked before the child saw them.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -46,17 +47,27 @@ import Animated, {
 import { useImageGeneration } from '@fastshot/ai';
 import StarField from '@/components/StarField';
 import { upsertProfile, getProfile } from '@/lib/supabase';
+import {
+  getSafetyLog,
+  clearSafetyLog,
+  SAFETY_CATEGORY_INFO,
+  type SafetyLogEntry,
+  type SafetyCategory,
+  type ModerationAction,
+} from '@/lib/contentSafety';
+import type { StringKey } from '@/lib/i18n';
 import { Colors, Fonts, Radius, Spacing } from '@/constants/theme';
 import { useAdapty } from '@/hooks/useAdapty';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W } = Dimensions.get('window');
 
 // ─── Guardian Themes ──────────────────────────────────────────────────────────
 interface GuardianTheme {
   id: string;
-  label: string;
+  label: StringKey;
   emoji: string;
-  description: string;
+  description: StringKey;
   accentColor: string;
   glowColor: string;
   prompt: (childName: string) => string;
@@ -65,9 +76,9 @@ interface GuardianTheme {
 const GUARDIAN_THEMES: GuardianTheme[] = [
   {
     id: 'star_knight',
-    label: 'Star Knight',
+    label: 'observatory.starKnight',
     emoji: '⚔️',
-    description: 'Noble protector of the cosmos',
+    description: 'observatory.starKnightDesc',
     accentColor: '#7EC8E3',
     glowColor: '#4A9CB5',
     prompt: (name) =>
@@ -75,9 +86,9 @@ const GUARDIAN_THEMES: GuardianTheme[] = [
   },
   {
     id: 'moon_fairy',
-    label: 'Moon Fairy',
+    label: 'observatory.moonFairy',
     emoji: '🧚',
-    description: 'Gentle keeper of moonlit dreams',
+    description: 'observatory.moonFairyDesc',
     accentColor: '#C9A8FF',
     glowColor: '#8B5CF6',
     prompt: (name) =>
@@ -85,9 +96,9 @@ const GUARDIAN_THEMES: GuardianTheme[] = [
   },
   {
     id: 'galactic_owl',
-    label: 'Galactic Owl',
+    label: 'observatory.galacticOwl',
     emoji: '🦉',
-    description: 'Ancient wisdom of the stars',
+    description: 'observatory.galacticOwlDesc',
     accentColor: '#FFD700',
     glowColor: '#FFA500',
     prompt: (name) =>
@@ -95,9 +106,9 @@ const GUARDIAN_THEMES: GuardianTheme[] = [
   },
   {
     id: 'forest_sprite',
-    label: 'Forest Sprite',
+    label: 'observatory.forestSprite',
     emoji: '🌿',
-    description: 'Enchanted guardian of nature',
+    description: 'observatory.forestSpriteDesc',
     accentColor: '#34D399',
     glowColor: '#059669',
     prompt: (name) =>
@@ -313,11 +324,12 @@ const sectionStyles = StyleSheet.create({
 const AGES = Array.from({ length: 14 }, (_, i) => i + 2); // 2..15
 
 function AgePicker({ value, onChange }: { value: number | null; onChange: (age: number) => void }) {
+  const { t } = useAppLanguage();
   return (
     <View>
       <View style={ageStyles.labelRow}>
         <Text style={ageStyles.icon}>🎂</Text>
-        <Text style={ageStyles.label}>{"Child's Age"}</Text>
+        <Text style={ageStyles.label}>{t('observatory.childAge')}</Text>
       </View>
       <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={ageStyles.scroll}>
         {AGES.map((age) => {
@@ -386,6 +398,7 @@ const ageStyles = StyleSheet.create({
 
 // ─── Magical Loading Orb ──────────────────────────────────────────────────────
 function ManifestingOrb() {
+  const { t } = useAppLanguage();
   const orbScale    = useSharedValue(1);
   const orbRotation = useSharedValue(0);
   const glowPulse   = useSharedValue(0.5);
@@ -526,8 +539,8 @@ function ManifestingOrb() {
       </Animated.View>
 
       <Animated.View style={[orbStyles.labelWrapper, textStyle]}>
-        <Text style={orbStyles.manifestingTitle}>Manifesting your Guardian…</Text>
-        <Text style={orbStyles.manifestingSubtitle}>Gathering stardust from the cosmos</Text>
+        <Text style={orbStyles.manifestingTitle}>{t('observatory.manifesting')}</Text>
+        <Text style={orbStyles.manifestingSubtitle}>{t('observatory.manifestingHint')}</Text>
       </Animated.View>
     </View>
   );
@@ -629,6 +642,7 @@ function GuardianAvatarDisplay({
   onRegenerate: () => void;
   isSaving: boolean;
 }) {
+  const { t } = useAppLanguage();
   const glowPulse = useSharedValue(0.5);
   const scale = useSharedValue(0.85);
   const opacity = useSharedValue(0);
@@ -707,8 +721,8 @@ function GuardianAvatarDisplay({
           style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
         />
         <Text style={avatarStyles.themeEmoji}>{theme.emoji}</Text>
-        <Text style={[avatarStyles.themeLabel, { color: theme.accentColor }]}>{theme.label}</Text>
-        <Text style={avatarStyles.guardianTag}>Dream Guardian</Text>
+        <Text style={[avatarStyles.themeLabel, { color: theme.accentColor }]}>{t(theme.label)}</Text>
+        <Text style={avatarStyles.guardianTag}>{t('observatory.dreamGuardian')}</Text>
       </View>
 
       {/* Commune button */}
@@ -728,7 +742,7 @@ function GuardianAvatarDisplay({
             style={avatarStyles.communeGradient}
           >
             <Text style={avatarStyles.communeText}>
-              {isSaving ? '⏳ Bonding with Guardian…' : '🔮 Commune with this Guardian'}
+              {isSaving ? t('observatory.bonding') : t('observatory.commune')}
             </Text>
           </LinearGradient>
         </TouchableOpacity>
@@ -736,7 +750,7 @@ function GuardianAvatarDisplay({
 
       {/* Regenerate option */}
       <TouchableOpacity onPress={onRegenerate} style={avatarStyles.regenBtn}>
-        <Text style={avatarStyles.regenText}>↺ Summon a different Guardian</Text>
+        <Text style={avatarStyles.regenText}>{t('observatory.regenerate')}</Text>
       </TouchableOpacity>
     </Animated.View>
   );
@@ -853,6 +867,7 @@ function DreamGuardianWorkshop({
   currentAvatarUrl: string | null;
   onAvatarSaved: (url: string) => void;
 }) {
+  const { t } = useAppLanguage();
   const [selectedTheme, setSelectedTheme] = useState<GuardianTheme | null>(null);
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
@@ -870,7 +885,7 @@ function DreamGuardianWorkshop({
   const handleGenerate = async () => {
     if (!selectedTheme) return;
     if (!childName.trim()) {
-      Alert.alert('Name required', "Please enter your child's name first before summoning their Guardian.");
+      Alert.alert(t('observatory.nameRequiredTitle'), t('observatory.nameRequired'));
       return;
     }
     setGeneratedImageUrl(null);
@@ -887,10 +902,10 @@ function DreamGuardianWorkshop({
         setGeneratedImageUrl(result.images[0]);
         void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       } else {
-        Alert.alert('Generation failed', 'The stars could not align. Please try again.');
+        Alert.alert(t('observatory.generationFailedTitle'), t('observatory.generationFailed'));
       }
     } catch {
-      Alert.alert('Cosmic disruption', 'Something went wrong while summoning your Guardian. Please try again.');
+      Alert.alert(t('observatory.disruptionTitle'), t('observatory.disruption'));
     }
   };
 
@@ -925,8 +940,8 @@ function DreamGuardianWorkshop({
             style={workshopStyles.currentAvatar}
           />
           <View style={workshopStyles.currentInfo}>
-            <Text style={workshopStyles.currentLabel}>Current Guardian</Text>
-            <Text style={workshopStyles.currentHint}>Summon a new one below ✨</Text>
+            <Text style={workshopStyles.currentLabel}>{t('observatory.currentGuardian')}</Text>
+            <Text style={workshopStyles.currentHint}>{t('observatory.currentGuardianHint')}</Text>
           </View>
         </View>
       )}
@@ -938,12 +953,12 @@ function DreamGuardianWorkshop({
           style={[StyleSheet.absoluteFill, { borderRadius: Radius.md }]}
         />
         <Text style={workshopStyles.introText}>
-          {'🔮 Choose a theme below to summon a unique Dream Guardian — a magical AI-generated portrait that watches over your child\'s dreams.'}
+          {t('observatory.workshopIntro')}
         </Text>
       </View>
 
       {/* Theme selector */}
-      <Text style={workshopStyles.sectionLabel}>✦ Choose Your Theme</Text>
+      <Text style={workshopStyles.sectionLabel}>{t('observatory.chooseTheme')}</Text>
       <View style={workshopStyles.themeGrid}>
         {GUARDIAN_THEMES.map((theme) => {
           const isSelected = selectedTheme?.id === theme.id;
@@ -964,8 +979,8 @@ function DreamGuardianWorkshop({
                 <BlurView intensity={isSelected ? 20 : 14} tint="dark" style={StyleSheet.absoluteFill} />
               )}
               <Text style={workshopStyles.themeCardEmoji}>{theme.emoji}</Text>
-              <Text style={[workshopStyles.themeCardLabel, isSelected && { color: theme.accentColor }]}>{theme.label}</Text>
-              <Text style={workshopStyles.themeCardDesc}>{theme.description}</Text>
+              <Text style={[workshopStyles.themeCardLabel, isSelected && { color: theme.accentColor }]}>{t(theme.label)}</Text>
+              <Text style={workshopStyles.themeCardDesc}>{t(theme.description)}</Text>
               {isSelected && (
                 <View style={[workshopStyles.selectedDot, { backgroundColor: theme.accentColor }]} />
               )}
@@ -988,7 +1003,7 @@ function DreamGuardianWorkshop({
             style={workshopStyles.summonGradient}
           >
             <Text style={workshopStyles.summonBtnIcon}>{selectedTheme.emoji}</Text>
-            <Text style={workshopStyles.summonBtnText}>Summon {selectedTheme.label} Guardian</Text>
+            <Text style={workshopStyles.summonBtnText}>{t('observatory.summon', { theme: t(selectedTheme.label) })}</Text>
           </LinearGradient>
         </TouchableOpacity>
       )}
@@ -1013,9 +1028,7 @@ function DreamGuardianWorkshop({
             colors={['rgba(107,203,119,0.20)', 'rgba(107,203,119,0.07)']}
             style={[StyleSheet.absoluteFill, { borderRadius: Radius.md }]}
           />
-          <Text style={workshopStyles.saveSuccessText}>
-            ✓ Your Dream Guardian has been bonded and saved!
-          </Text>
+          <Text style={workshopStyles.saveSuccessText}>{t('observatory.bonded')}</Text>
         </View>
       )}
     </View>
@@ -1162,18 +1175,71 @@ const workshopStyles = StyleSheet.create({
   },
 });
 
+// ─── Story safety log ─────────────────────────────────────────────────────────
+const SAFETY_ACTION_LABELS: Record<Exclude<ModerationAction, 'passed'>, StringKey> = {
+  softened:    'observatory.actionSoftened',
+  regenerated: 'observatory.actionRegenerated',
+  removed:     'observatory.actionRemoved',
+};
+
+const SAFETY_KIND_LABELS: Record<SafetyLogEntry['kind'], StringKey> = {
+  story:      'observatory.kindStory',
+  branch:     'observatory.kindBranch',
+  reflection: 'observatory.kindReflection',
+  greeting:   'observatory.kindGreeting',
+  character:  'observatory.kindCharacter',
+  details:    'observatory.kindDetails',
+};
+
+const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, StringKey> = {
+  closing_peril:   'observatory.categoryClosingPeril',
+  scary_imagery:   'observatory.categoryScaryImagery',
+  unsafe_activity: 'observatory.categoryUnsafeActivity',
+  real_names:      'observatory.categoryRealNames',
+  parent_boundary: 'observatory.categoryParentBoundary',
+};
+
+function SafetyLogRow({ entry }: { entry: SafetyLogEntry }) {
+  const { language, t } = useAppLanguage();
+  const categories = [...new Set(entry.blocked.map((b) => b.category))];
+  const first = entry.blocked[0];
+  return (
+    <View style={styles.safetyRow}>
+      <Text style={styles.safetyRowEmoji}>{SAFETY_CATEGORY_INFO[categories[0] ?? 'scary_imagery'].emoji}</Text>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.safetyRowTitle} numberOfLines={1}>
+          {t(SAFETY_KIND_LABELS[entry.kind])}{entry.title ? ` · ${entry.title}` : ''}
+        </Text>
+        <Text style={styles.safetyRowMeta}>
+          {categories.map((c) => t(SAFETY_CATEGORY_LABELS[c])).join(', ')} · {t(SAFETY_ACTION_LABELS[entry.action])}
+        </Text>
+        {first && (
+          <Text style={styles.safetyRowPassage} numberOfLines={2}>
+            {t('observatory.blocked', { match: first.match, passage: first.passage })}
+          </Text>
+        )}
+        <Text style={styles.safetyRowDate}>
+          {new Date(entry.createdAt).toLocaleDateString(language, { month: 'short', day: 'numeric' })}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
 // ─── Main screen ──────────────────────────────────────────────────────────────
 export default function ObservatoryScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user, signOut } = useAuth();
   const { isPremium, restorePurchases, isLoading: adaptyLoading } = useAdapty();
+  const { t } = useAppLanguage();
 
   const [childName, setChildName] = useState('');
   const [childAge, setChildAge] = useState<number | null>(null);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [safetyLog, setSafetyLog] = useState<SafetyLogEntry[]>([]);
 
   // Entrance animation
   const headerOpacity = useSharedValue(0);
@@ -1187,6 +1253,7 @@ export default function ObservatoryScreen() {
     if (user?.id) {
       void loadProfile();
     }
+    void getSafetyLog().then(setSafetyLog);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
@@ -1206,11 +1273,11 @@ export default function ObservatoryScreen() {
 
   const handleSave = async () => {
     if (!user?.id) {
-      Alert.alert('Not signed in', 'Please sign in to save your profile.');
+      Alert.alert(t('observatory.notSignedInTitle'), t('observatory.notSignedIn'));
       return;
     }
     if (!childName.trim()) {
-      Alert.alert('Missing name', "Please enter your child's name.");
+      Alert.alert(t('observatory.missingNameTitle'), t('observatory.missingName'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       return;
     }
@@ -1230,7 +1297,7 @@ export default function ObservatoryScreen() {
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setTimeout(() => setSaveSuccess(false), 2500);
     } catch {
-      Alert.alert('Save failed', 'Unable to save your profile. Please try again.');
+      Alert.alert(t('observatory.saveFailedTitle'), t('observatory.saveFailed'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
       setSaving(false);
@@ -1239,12 +1306,12 @@ export default function ObservatoryScreen() {
 
   const handleSignOut = () => {
     Alert.alert(
-      'Sign Out',
-      'Are you sure you want to sign out of Cloud Magic?',
+      t('observatory.signOutTitle'),
+      t('observatory.signOutMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Sign Out',
+          text: t('observatory.signOutTitle'),
           style: 'destructive',
           onPress: async () => {
             void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -1270,6 +1337,25 @@ export default function ObservatoryScreen() {
     }
   };
 
+  const handleClearSafetyLog = () => {
+    Alert.alert(
+      t('observatory.clearLog'),
+      t('observatory.clearLogMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('observatory.clear'),
+          style: 'destructive',
+          onPress: async () => {
+            void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            await clearSafetyLog();
+            setSafetyLog([]);
+          },
+        },
+      ]
+    );
+  };
+
   // Save button animation
   const saveBtnScale = useSharedValue(1);
   const handleSavePress = () => {
@@ -1342,30 +1428,30 @@ export default function ObservatoryScreen() {
             onPress={() => router.back()}
             hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
           >
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
 
           {/* Header */}
           <Animated.View style={[styles.header, headerStyle]}>
             <Animated.Text style={[styles.telescopeEmoji, telescopeStyle]}>🔭</Animated.Text>
-            <Text style={styles.headerTitle}>{"The Parent's Observatory"}</Text>
-            <Text style={styles.headerSubtitle}>Manage your Cloud Magic identity</Text>
+            <Text style={styles.headerTitle}>{t('observatory.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('observatory.subtitle')}</Text>
             <View style={styles.headerUnderline} />
           </Animated.View>
 
           {/* ── Account section ── */}
           <GlassSection
-            title="Star Account"
+            title={t('observatory.account')}
             icon="⭐"
             accentColor={Colors.softBlue}
             delay={200}
           >
             <ObservatoryInput
-              label="Email"
+              label={t('observatory.email')}
               icon="📧"
               value={user?.email ?? ''}
               editable={false}
-              placeholder="your@email.com"
+              placeholder={t('observatory.emailPlaceholder')}
             />
 
             <TouchableOpacity
@@ -1378,13 +1464,13 @@ export default function ObservatoryScreen() {
                 style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
               />
               <View style={styles.signOutBtnShine} />
-              <Text style={styles.signOutText}>🚪 Sign Out of Cloud Magic</Text>
+              <Text style={styles.signOutText}>{t('observatory.signOut')}</Text>
             </TouchableOpacity>
           </GlassSection>
 
           {/* ── Subscription section ── */}
           <GlassSection
-            title="Subscription"
+            title={t('observatory.subscription')}
             icon="✦"
             accentColor={Colors.celestialGold}
             delay={280}
@@ -1404,7 +1490,7 @@ export default function ObservatoryScreen() {
                     <Text style={styles.subTierEmoji}>🌌</Text>
                     <View style={{ flex: 1 }}>
                       <Text style={styles.subTierName}>Galaxy-Traveler</Text>
-                      <Text style={styles.subTierLabel}>Pro · Active</Text>
+                      <Text style={styles.subTierLabel}>{t('observatory.proActive')}</Text>
                     </View>
                     <View style={styles.subTierActiveDot} />
                   </>
@@ -1417,7 +1503,7 @@ export default function ObservatoryScreen() {
                     <Text style={styles.subTierEmoji}>🌙</Text>
                     <View style={{ flex: 1 }}>
                       <Text style={styles.subTierNameFree}>Star-Seeker</Text>
-                      <Text style={styles.subTierLabel}>Free Plan</Text>
+                      <Text style={styles.subTierLabel}>{t('observatory.freePlan')}</Text>
                     </View>
                   </>
                 )}
@@ -1434,7 +1520,7 @@ export default function ObservatoryScreen() {
                   colors={['rgba(255,215,0,0.18)', 'rgba(255,215,0,0.08)']}
                   style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
                 />
-                <Text style={styles.upgradeShortcutText}>✦ Unlock Galaxy-Traveler →</Text>
+                <Text style={styles.upgradeShortcutText}>{t('observatory.unlockPro')}</Text>
               </TouchableOpacity>
             )}
 
@@ -1445,22 +1531,20 @@ export default function ObservatoryScreen() {
                 void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                 const ok = await restorePurchases();
                 Alert.alert(
-                  ok ? '✨ Restored' : 'No Purchase Found',
-                  ok
-                    ? 'Galaxy-Traveler restored successfully!'
-                    : 'No active subscription was found to restore.'
+                  ok ? t('shop.restoredTitle') : t('shop.noPurchaseTitle'),
+                  ok ? t('observatory.restored') : t('shop.noPurchase')
                 );
               }}
               activeOpacity={0.7}
               disabled={adaptyLoading}
             >
-              <Text style={styles.restoreSubText}>Restore Purchases</Text>
+              <Text style={styles.restoreSubText}>{t('shop.restore')}</Text>
             </TouchableOpacity>
           </GlassSection>
 
           {/* ── Child's Cosmic Identity section ── */}
           <GlassSection
-            title="Child's Cosmic Identity"
+            title={t('observatory.identity')}
             icon="🌟"
             accentColor={Colors.celestialGold}
             delay={350}
@@ -1472,16 +1556,16 @@ export default function ObservatoryScreen() {
                 style={[StyleSheet.absoluteFill, { borderRadius: Radius.md }]}
               />
               <Text style={styles.cosmicDescText}>
-                {"✨ Your child's name and age are woven into the magic — AI narrators will greet them by name and craft stories perfectly suited to their age."}
+                {t('observatory.identityIntro')}
               </Text>
             </View>
 
             <ObservatoryInput
-              label="Child's Name"
+              label={t('observatory.childName')}
               icon="👦"
               value={childName}
               onChangeText={setChildName}
-              placeholder="e.g. Luna, Orion, Sage…"
+              placeholder={t('observatory.childNamePlaceholder')}
               maxLength={40}
             />
 
@@ -1490,7 +1574,7 @@ export default function ObservatoryScreen() {
 
           {/* ── Dream Guardian Workshop ── */}
           <GlassSection
-            title="Dream Guardian Workshop"
+            title={t('observatory.workshop')}
             icon="🔮"
             accentColor="#C9A8FF"
             delay={450}
@@ -1505,7 +1589,7 @@ export default function ObservatoryScreen() {
           {/* ── Personalisation preview ── */}
           {(childName.trim() || childAge) && (
             <GlassSection
-              title="Narrator Preview"
+              title={t('observatory.preview')}
               icon="🎙️"
               accentColor={Colors.accentPink}
               delay={550}
@@ -1516,11 +1600,12 @@ export default function ObservatoryScreen() {
                   style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
                 />
                 <Text style={styles.previewText}>
-                  {`"Good evening${childName.trim() ? `, ${childName.trim()}` : ''}! ${
-                    childAge
-                      ? `I have a magical story just right for a ${childAge}-year-old explorer like you.`
-                      : "I have a magical story waiting just for you."
-                  } Are you ready to begin?"`}
+                  {t(childName.trim() ? 'observatory.previewGreetingNamed' : 'observatory.previewGreeting', {
+                    name: childName.trim(),
+                    line: childAge
+                      ? t('observatory.previewAge', { age: childAge })
+                      : t('observatory.previewNoAge'),
+                  })}
                 </Text>
               </View>
             </GlassSection>
@@ -1544,24 +1629,48 @@ export default function ObservatoryScreen() {
                 style={styles.saveGradient}
               >
                 <Text style={styles.saveText}>
-                  {saving ? '⏳ Saving to Stars…' : saveSuccess ? '✓ Saved to the Cosmos!' : '✨ Save Cosmic Identity'}
+                  {saving ? t('observatory.saving') : saveSuccess ? t('observatory.saved') : t('observatory.save')}
                 </Text>
               </LinearGradient>
             </TouchableOpacity>
           </Animated.View>
 
+          {/* ── Story Safety Filter ── */}
+          <GlassSection
+            title={t('observatory.safety')}
+            icon="🛡️"
+            accentColor={Colors.softBlue}
+            delay={600}
+          >
+            <Text style={styles.safetyIntro}>
+              {t('observatory.safetyIntro')}
+            </Text>
+            {safetyLog.length === 0 ? (
+              <Text style={styles.safetyEmpty}>{t('observatory.safetyEmpty')}</Text>
+            ) : (
+              <>
+                {safetyLog.slice(0, 10).map((entry) => (
+                  <SafetyLogRow key={entry.id} entry={entry} />
+                ))}
+                <TouchableOpacity style={styles.restoreSubBtn} onPress={handleClearSafetyLog} activeOpacity={0.7}>
+                  <Text style={styles.restoreSubText}>{t('observatory.clearLog')}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </GlassSection>
+
           {/* ── Cloud Magic tips ── */}
           <GlassSection
-            title="Cloud Magic Tips"
+            title={t('observatory.tips')}
             icon="💡"
             accentColor={Colors.softPurple}
             delay={650}
           >
             {[
-              { icon: '☁️', tip: "Your child's identity syncs across all devices instantly." },
-              { icon: '🤖', tip: 'AI narrators use the name and age to personalise every story.' },
-              { icon: '🔮', tip: 'Dream Guardian avatars are unique AI portraits generated just for your child.' },
-              { icon: '🔐', tip: 'All profile data is encrypted and protected in the cloud vault.' },
+              { icon: '☁️', tip: t('observatory.tipSync') },
+              { icon: '🤖', tip: t('observatory.tipNarrators') },
+              { icon: '🔮', tip: t('observatory.tipGuardian') },
+              { icon: '🔐', tip: t('observatory.tipVault') },
             ].map((item, i) => (
               <View key={i} style={styles.tipRow}>
                 <Text style={styles.tipIcon}>{item.icon}</Text>
@@ -1765,6 +1874,56 @@ const styles = StyleSheet.create({
     opacity: 0.9,
   },
 
+  // Story safety log
+  safetyIntro: {
+    fontFamily: Fonts.regular,
+    fontSize: 13,
+    color: Colors.textMuted,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  safetyEmpty: {
+    fontFamily: Fonts.medium,
+    fontSize: 13,
+    color: Colors.moonlightCream,
+    opacity: 0.8,
+  },
+  safetyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.06)',
+  },
+  safetyRowEmoji: { fontSize: 18, marginTop: 1 },
+  safetyRowTitle: {
+    fontFamily: Fonts.bold,
+    fontSize: 13,
+    color: Colors.moonlightCream,
+  },
+  safetyRowMeta: {
+    fontFamily: Fonts.medium,
+    fontSize: 12,
+    color: Colors.softBlue,
+    marginTop: 2,
+  },
+  safetyRowPassage: {
+    fontFamily: Fonts.regular,
+    fontSize: 12,
+    color: Colors.textMuted,
+    lineHeight: 18,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  safetyRowDate: {
+    fontFamily: Fonts.regular,
+    fontSize: 11,
+    color: Colors.textMuted,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+
   // Save button
   saveBtnWrapper: {
     marginBottom: 16,
@@ -5,14 +5,18 @@
  *  - Safe Mode: reads story entirely from AsyncStorage – never crashes when
  *    Supabase is disconnected.
  *  - Sleep Timer: countdown backed by a useRef<NodeJS.Timeout> interval so the
- *    timer is guaranteed to be cleared on unmount (no ghost intervals).
+ *    timer is guaranteed to be cleared on unmount (no ghost intervals). Over
+ *    the final fade tail it drives lib/audioController to fade soundscapes and
+ *    narration and dims the screen to black – no Alert to wake the child.
  *  - Background ambient audio (expo-av): Sound object is properly unloaded and
  *    the playback-status callback is set to null before unload.
  *  - AppState listener: subscription removed in the cleanup return.
+ *  - Narration: the story is read aloud paragraph by paragraph in the active
+ *    ParentVoice (see lib/narration.ts); the paragraph being read is highlighted.
  *  - All setTimeout / setInterval refs are stored in useRef to survive re-renders.
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -23,11 +27,14 @@ import {
   AppState,
   AppStateStatus,
   Modal,
-  Alert,
+  Switch,
   Image,
   Platform,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
+import { useAuth } from '@fastshot/auth';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BlurView } from 'expo-blur';
@@ -51,18 +58,60 @@ import StarField from '@/components/StarField';
 import AmbientMixer from '@/components/AmbientMixer';
 import StardustLoader from '@/components/StardustLoader';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
-import { toggleStoryFavorite, isSupabaseAvailable } from '@/lib/supabase';
-import { NARRATOR_PERSONALITIES, buildReflectionQuestionsPrompt, buildStoryBranchPrompt, type NarratorPersonality } from '@/lib/newell';
+import type { ParentVoice } from '@/lib/supabase';
+import { enqueueMutation } from '@/lib/mutationQueue';
+import {
+  NARRATOR_PERSONALITIES,
+  SUPPORTED_LANGUAGES,
+  buildReflectionQuestionsPrompt,
+  type LanguageCode,
+  type NarratorPersonality,
+  type ReadingLevel,
+  type StoryChoicePoint,
+} from '@/lib/newell';
 import { generateText } from '@fastshot/ai';
 import { addStardust, incrementStoriesCompleted } from '@/lib/stardust';
 import { updateBedtimeStreak } from '@/lib/streak';
 import { trackStoryEvent, trackSession } from '@/lib/analytics';
 import { cacheStory } from '@/lib/offlineCache';
+import { updateStoredStory } from '@/lib/storyStore';
+import { loadActiveParentVoice, splitIntoParagraphs, voiceDisplayName } from '@/lib/narration';
+import { useNarration } from '@/hooks/useNarration';
+import { setAudioGain, resetAudioGain, stopAudio } from '@/lib/audioController';
+import { getActiveChild, childStorageKey } from '@/lib/activeChild';
+import { moderateText } from '@/lib/contentSafety';
+import { getCharacters } from '@/lib/characters';
+import {
+  ensureStoryGraph,
+  getStoryGraph,
+  nodesForPath,
+  pathLabels,
+  saveCompletedPath,
+  takeChoice,
+  type StoryGraph,
+} from '@/lib/storyGraph';
+import {
+  getPictureBook,
+  illustratePictureBook,
+  isPictureBookIncomplete,
+  onPictureBookProgress,
+  pageImageUri,
+  type PictureBook,
+} from '@/lib/pictureBook';
 import StardustEarnedAnimation from '@/components/StardustEarnedAnimation';
+import PictureBookPager from '@/components/PictureBookPager';
+import { exportStoryPdf } from '@/lib/storyExport';
+import { translateStory, type StoryTranslation } from '@/lib/storyTranslation';
+import { getAppLanguage, languageInfo, translate } from '@/lib/i18n';
+import { useAppLanguage, type UseAppLanguageReturn } from '@/hooks/useAppLanguage';
+
+/** Sphere colour of each adventure choice card */
+const CHOICE_COLORS = ['#9B6FDE', '#FF8C42', '#7EC8E3'];
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
+
 interface CurrentStory {
   id: string | null;
   title: string;
@@ -74,7 +123,21 @@ interface CurrentStory {
   is_favorite?: boolean;
   isInteractive?: boolean;
   choiceOptions?: { emoji: string; label: string; value: string }[];
+  choiceQuestion?: string;
+  /** Everything after the opening along the path read last (see lib/storyGraph) */
   branchContent?: string | null;
+  /** Choices made on the path read last */
+  choicePath?: number[];
+  /** Made in picture-book mode – pages live in lib/pictureBook */
+  pictureBook?: boolean;
+  hasFamilyPortrait?: boolean;
+  artStyleLabel?: string;
+  readingLevel?: ReadingLevel;
+  saga_id?: string | null;
+  chapter_number?: number | null;
+  recap?: string | null;
+  /** Language the story was written in – English when missing */
+  language?: string;
 }
 
 interface JournalEntry {
@@ -89,14 +152,21 @@ interface JournalEntry {
 
 const JOURNAL_KEY = 'journal_entries';
 
-const SLEEP_TIMER_OPTIONS = [
-  { label: 'Off',    minutes: 0  },
-  { label: '5 min',  minutes: 5  },
-  { label: '15 min', minutes: 15 },
-  { label: '30 min', minutes: 30 },
-  { label: '45 min', minutes: 45 },
-  { label: '1 hr',   minutes: 60 },
-];
+const SLEEP_TIMER_OPTIONS = [0, 5, 15, 30, 45, 60];
+
+// How long the final fade-out lasts before the timer ends
+const SLEEP_FADE_OPTIONS = [30, 120, 300];
+
+/** Timer chip copy: 'Off', '30 sec', '5 min', '1 hr'. */
+function durationLabel(seconds: number, t: UseAppLanguageReturn['t']): string {
+  if (seconds === 0) return t('player.timerOff');
+  if (seconds % 3600 === 0) return t('player.timerHours', { count: seconds / 3600 });
+  if (seconds % 60 === 0) return t('player.timerMinutes', { count: seconds / 60 });
+  return t('player.timerSeconds', { count: seconds });
+}
+
+// Screen dims toward this opacity during the fade, then to full black
+const SLEEP_DIM_MAX = 0.92;
 
 const THEME_GRADIENT: Record<string, [string, string]> = {
   Adventurous: ['#FF8C42', '#C24000'],
@@ -133,6 +203,8 @@ function PulsingMoon() {
 // ─────────────────────────────────────────────────────────────────────────────
 export default function PlayerScreen() {
   const router = useRouter();
+  const { language: appLanguage, t } = useAppLanguage();
+  const { user } = useAuth();
   const insets = useSafeAreaInsets();
 
   const [story,            setStory]            = useState<CurrentStory | null>(null);
@@ -152,6 +224,10 @@ export default function PlayerScreen() {
   const [sleepSecondsLeft,  setSleepSecondsLeft]  = useState(0);
   const [showTimerModal,    setShowTimerModal]    = useState(false);
   const [timerActive,       setTimerActive]       = useState(false);
+  const [sleepFadeSeconds,  setSleepFadeSeconds]  = useState(120);
+  const [keepSoundscapes,   setKeepSoundscapes]   = useState(false);
+  const [isAsleep,          setIsAsleep]          = useState(false);
+  const sleepDim = useSharedValue(0);
 
   // Ambient mixer
   const [showAmbientMixer, setShowAmbientMixer] = useState(false);
@@ -162,6 +238,17 @@ export default function PlayerScreen() {
   // Reading progress
   const [scrollProgress, setScrollProgress] = useState(0);
 
+  // Narration
+  const [narrationVoice, setNarrationVoice] = useState<ParentVoice | null>(null);
+  // "Read in …": the translation shown instead of the story (lib/storyTranslation)
+  const [translation,   setTranslation]   = useState<StoryTranslation | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const scrollRef          = useRef<ScrollView>(null);
+  const storyCardYRef      = useRef(0);
+  const branchCardYRef     = useRef(0);
+  const paragraphOffsetRef = useRef<number[]>([]);
+  const narrationTrackWidthRef = useRef(0);
+
   // Quiet Time Reflections
   const [showQuietTimeBtn,   setShowQuietTimeBtn]   = useState(false);
   const [quietTimeActive,    setQuietTimeActive]    = useState(false);
@@ -178,12 +265,21 @@ export default function PlayerScreen() {
   const [selectedChoiceIdx, setSelectedChoiceIdx] = useState<number | null>(null);
   const [choiceTimerLeft, setChoiceTimerLeft] = useState(30);
   const choiceTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Branching graph of this adventure and the choices made on this reading
+  const [storyGraph, setStoryGraph] = useState<StoryGraph | null>(null);
+  const [choicePath, setChoicePath] = useState<number[]>([]);
+  // Picture-book pages, and whether they are shown instead of the scrolling text
+  const [pictureBook, setPictureBook] = useState<PictureBook | null>(null);
+  const [readAsBook,  setReadAsBook]  = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Choice zoom animations
   const choiceAScale = useSharedValue(1);
   const choiceAOpacity = useSharedValue(1);
   const choiceBScale = useSharedValue(1);
   const choiceBOpacity = useSharedValue(1);
+  const choiceCScale = useSharedValue(1);
+  const choiceCOpacity = useSharedValue(1);
 
   // Reflection answers for journal (populated when parent types answers in future phase)
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -204,6 +300,13 @@ export default function PlayerScreen() {
   // be cleared reliably from the cleanup function.
   const sleepIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const appStateSubRef   = useRef<ReturnType<typeof AppState.addEventListener> | null>(null);
+  // Wall-clock end time so the countdown stays correct after backgrounding
+  const sleepEndsAtRef      = useRef<number | null>(null);
+  const sleepTotalMsRef     = useRef(0);
+  const sleepFadeSecondsRef = useRef(sleepFadeSeconds);
+  const keepSoundscapesRef  = useRef(keepSoundscapes);
+  sleepFadeSecondsRef.current = sleepFadeSeconds;
+  keepSoundscapesRef.current  = keepSoundscapes;
 
   // ── Entrance animations — frosting glass-panel materialise effect ──────────
   const headerOpacity  = useSharedValue(0);
@@ -212,6 +315,55 @@ export default function PlayerScreen() {
   const contentScale   = useSharedValue(1.04); // glass panel crystallises from slightly larger
   const controlsY      = useSharedValue(40);
 
+  // ── Adventure path: the nodes read so far and the choice waiting, if any ──
+  const pathNodes = useMemo(
+    () => (storyGraph ? nodesForPath(storyGraph, choicePath).slice(1) : []),
+    [storyGraph, choicePath],
+  );
+  const activeChoicePoint: StoryChoicePoint | null = useMemo(() => {
+    if (!story?.isInteractive) return null;
+    if (storyGraph) {
+      const leaf = pathNodes[pathNodes.length - 1] ?? storyGraph.nodes.root;
+      return leaf.choicePoint;
+    }
+    // Opening not turned into a graph yet (or an adventure finished before graphs)
+    return !story.branchContent && story.choiceOptions?.length
+      ? { question: story.choiceQuestion ?? t('player.choiceFallback', { name: story.childName }), options: story.choiceOptions }
+      : null;
+  }, [story, storyGraph, pathNodes, t]);
+  const isAwaitingChoice = activeChoicePoint !== null;
+
+  // ── Narration queue: story paragraphs followed by any branch continuation ──
+  const originalStoryParagraphs  = useMemo(() => splitIntoParagraphs(story?.content ?? ''), [story?.content]);
+  const originalBranchParagraphs = useMemo(
+    () => (storyGraph
+      ? pathNodes.flatMap((n) => n.paragraphs)
+      : story?.branchContent ? splitIntoParagraphs(story.branchContent) : []),
+    [storyGraph, pathNodes, story?.branchContent],
+  );
+  const originalParagraphs = useMemo(
+    () => [...originalStoryParagraphs, ...originalBranchParagraphs],
+    [originalStoryParagraphs, originalBranchParagraphs],
+  );
+  // A translation covers the text read so far; another path drops it
+  useEffect(() => { setTranslation(null); }, [originalParagraphs]);
+  const shownTranslation = translation && translation.paragraphs.length === originalParagraphs.length
+    ? translation
+    : null;
+  const storyParagraphs = useMemo(
+    () => (shownTranslation ? shownTranslation.paragraphs.slice(0, originalStoryParagraphs.length) : originalStoryParagraphs),
+    [shownTranslation, originalStoryParagraphs],
+  );
+  const branchParagraphs = useMemo(
+    () => (shownTranslation ? shownTranslation.paragraphs.slice(originalStoryParagraphs.length) : originalBranchParagraphs),
+    [shownTranslation, originalStoryParagraphs.length, originalBranchParagraphs],
+  );
+  const narrationParagraphs = shownTranslation?.paragraphs ?? originalParagraphs;
+  const storyLanguage       = story?.language ?? 'en';
+  const narrationLanguage   = shownTranslation?.language ?? storyLanguage;
+  const narration = useNarration(narrationParagraphs, narrationVoice, narrationLanguage);
+  const isNarrating = narration.status === 'playing' || narration.status === 'paused';
+
   // ── Load story from AsyncStorage (Safe Mode) ───────────────────────────────
   const loadStory = useCallback(async () => {
     setIsLoading(true);
@@ -230,6 +382,44 @@ export default function PlayerScreen() {
       setStory(parsed);
       setIsFavorite(parsed.is_favorite ?? false);
 
+      // Opened from the library the flag is gone, but the book is still cached
+      const book = parsed.id ? await getPictureBook(parsed.id) : null;
+      setPictureBook(book);
+      if (parsed.id && (parsed.pictureBook || book)) {
+        // Finish a book whose painting was interrupted
+        if (isPictureBookIncomplete(book)) {
+          const childProfile = await getActiveChild();
+          if (childProfile) {
+            const cast = await getCharacters(childProfile.id);
+            void illustratePictureBook({
+              storyId:    parsed.id,
+              child:      childProfile,
+              title:      parsed.title,
+              paragraphs: splitIntoParagraphs(parsed.content),
+              characters: cast.filter((c) => parsed.content.includes(c.name)),
+            }).catch((err) => console.warn('[Player] Picture book failed:', err));
+          }
+        }
+      }
+
+      // Interactive adventures play from their story graph. One finished
+      // before graphs existed (branchContent but no graph) is shown as it was.
+      if (parsed.isInteractive && parsed.choiceOptions?.length) {
+        const graphId = parsed.id ?? `local:${parsed.createdAt}`;
+        const existing = await getStoryGraph(graphId);
+        if (existing || !parsed.branchContent) {
+          const graph = existing ?? await ensureStoryGraph(graphId, {
+            paragraphs:  splitIntoParagraphs(parsed.content),
+            choicePoint: {
+              question: parsed.choiceQuestion ?? translate(await getAppLanguage(), 'player.choiceFallback', { name: parsed.childName }),
+              options:  parsed.choiceOptions,
+            },
+          });
+          setStoryGraph(graph);
+          setChoicePath(parsed.choicePath ?? []);
+        }
+      }
+
       // Track story start & cache for offline access
       void trackSession();
       void trackStoryEvent({
@@ -239,18 +429,27 @@ export default function PlayerScreen() {
         narrator_id: 'unknown',
         event:       'started',
       });
-      void cacheStory({
-        id:         parsed.id ?? `story_${Date.now()}`,
-        title:      parsed.title ?? 'Untitled',
-        content:    parsed.content,
-        theme:      parsed.theme ?? 'unknown',
-        image_url:  parsed.imageUrl ?? undefined,
-        child_name: parsed.childName,
-      });
+      if (parsed.id) {
+        void cacheStory({
+          id:         parsed.id,
+          title:      parsed.title ?? 'Untitled',
+          content:    parsed.content,
+          theme:      parsed.theme ?? 'unknown',
+          image_url:  parsed.imageUrl ?? undefined,
+          child_name: parsed.childName,
+        });
+      }
+
+      // Load the parent voice that will read the story aloud
+      try {
+        setNarrationVoice(await loadActiveParentVoice());
+      } catch {
+        // non-fatal – narration falls back to the storyteller voice
+      }
 
       // Load active narrator
       try {
-        const narratorId = await AsyncStorage.getItem('selected_narrator_id');
+        const narratorId = await AsyncStorage.getItem(await childStorageKey('selected_narrator_id'));
         if (narratorId) {
           const narrator = NARRATOR_PERSONALITIES.find((n) => n.id === narratorId);
           setActiveNarrator(narrator ?? null);
@@ -300,60 +499,136 @@ export default function PlayerScreen() {
     void loadStory();
   }, [loadStory]);
 
-  // ── AppState listener – pause timer when app backgrounds ──────────────────
-  // The subscription is stored in a ref and removed in cleanup to prevent leaks.
+  // ── Picture book: pages appear as they are painted ──────────────────────────
+  const hasPictureBook = Boolean(story?.pictureBook) || pictureBook !== null;
   useEffect(() => {
-    const handleAppState = (nextState: AppStateStatus) => {
-      if (nextState === 'background' || nextState === 'inactive') {
-        // Timer keeps running in background (intentional – this is a bedtime app)
-        // but we could pause here if needed.
-      }
-    };
-    appStateSubRef.current = AppState.addEventListener('change', handleAppState);
+    if (!story?.id) return;
+    const storyId = story.id;
+    return onPictureBookProgress((book) => {
+      if (book.storyId === storyId) setPictureBook(book);
+    });
+  }, [story?.id]);
 
-    return () => {
-      // Always remove listener on unmount
-      appStateSubRef.current?.remove();
-      appStateSubRef.current = null;
-    };
-  }, []);
+  const bookPages = useMemo(() => storyParagraphs.map((paragraph, idx) => {
+    const page = pictureBook?.pages.find((p) => p.index === idx);
+    return { paragraph, imageUri: page ? pageImageUri(page) : null, status: page?.status };
+  }), [storyParagraphs, pictureBook]);
+  const showBook = hasPictureBook && readAsBook;
+
+  // ── Narration: keep the paragraph being read in view ──────────────────────
+  useEffect(() => {
+    if (narration.status !== 'playing') return;
+    const relativeY = paragraphOffsetRef.current[narration.paragraphIndex];
+    if (relativeY === undefined) return;
+    const cardY = narration.paragraphIndex < storyParagraphs.length
+      ? storyCardYRef.current
+      : branchCardYRef.current;
+    scrollRef.current?.scrollTo({ y: Math.max(cardY + relativeY - 140, 0), animated: true });
+  }, [narration.status, narration.paragraphIndex, storyParagraphs.length]);
+
+  // ── Narration finished: reveal what normally appears at the end of reading ──
+  useEffect(() => {
+    if (narration.status !== 'finished' || !story) return;
+    if (isAwaitingChoice) {
+      if (selectedChoiceIdx === null) setShowChoiceCards(true);
+    } else if (!quietTimeActive) {
+      setShowQuietTimeBtn(true);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [narration.status]);
 
   // ── Sleep Timer logic ──────────────────────────────────────────────────────
   // The interval ref pattern guarantees no ghost timers survive unmount.
-  const clearSleepTimer = useCallback(() => {
+  // Each tick derives everything from sleepEndsAtRef, so a tick that fires
+  // late (or after the app returns from the background) simply catches up.
+  const stopSleepInterval = useCallback(() => {
     if (sleepIntervalRef.current !== null) {
       clearInterval(sleepIntervalRef.current);
       sleepIntervalRef.current = null;
     }
+    sleepEndsAtRef.current = null;
+  }, []);
+
+  const clearSleepTimer = useCallback(() => {
+    stopSleepInterval();
     setTimerActive(false);
     setSleepSecondsLeft(0);
-  }, []);
+    setIsAsleep(false);
+    resetAudioGain();
+    sleepDim.value = withTiming(0, { duration: 600 });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stopSleepInterval]);
+
+  const finishSleepTimer = useCallback(() => {
+    stopSleepInterval();
+    setTimerActive(false);
+    setSleepSecondsLeft(0);
+    setIsAsleep(true);
+    sleepDim.value = withTiming(1, { duration: 1500 });
+    // Narration always ends here; soundscapes keep looping if the parent asked
+    void stopAudio(keepSoundscapesRef.current ? ['narration'] : undefined);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stopSleepInterval]);
+
+  const tickSleepTimer = useCallback(() => {
+    const endsAt = sleepEndsAtRef.current;
+    if (endsAt === null) return;
+
+    const remainingMs = Math.max(0, endsAt - Date.now());
+    setSleepSecondsLeft(Math.ceil(remainingMs / 1000));
+    if (remainingMs <= 0) {
+      finishSleepTimer();
+      return;
+    }
+
+    // Gain falls linearly from 1 → 0 across the fade tail
+    const tailMs = Math.min(sleepFadeSecondsRef.current * 1000, sleepTotalMsRef.current);
+    const gain = remainingMs >= tailMs ? 1 : remainingMs / tailMs;
+    setAudioGain('narration', gain);
+    setAudioGain('ambient', keepSoundscapesRef.current ? 1 : gain);
+    sleepDim.value = withTiming((1 - gain) * SLEEP_DIM_MAX, { duration: 900 });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [finishSleepTimer]);
 
   const startSleepTimer = useCallback((minutes: number) => {
     clearSleepTimer();
     if (minutes === 0) return;
 
-    const totalSeconds = minutes * 60;
-    setSleepSecondsLeft(totalSeconds);
+    sleepTotalMsRef.current = minutes * 60 * 1000;
+    sleepEndsAtRef.current  = Date.now() + sleepTotalMsRef.current;
+    setSleepSecondsLeft(minutes * 60);
     setTimerActive(true);
 
-    sleepIntervalRef.current = setInterval(() => {
-      setSleepSecondsLeft((prev) => {
-        if (prev <= 1) {
-          // Timer expired – clear and notify
-          if (sleepIntervalRef.current !== null) {
-            clearInterval(sleepIntervalRef.current);
-            sleepIntervalRef.current = null;
-          }
-          setTimerActive(false);
-          Alert.alert('Sweet Dreams 🌙', 'Sleep timer has ended. Goodnight!');
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    sleepIntervalRef.current = setInterval(tickSleepTimer, 1000);
+  }, [clearSleepTimer, tickSleepTimer]);
+
+  // Tap the blacked-out screen to wake it; long-press also stops any
+  // soundscapes still looping (the hard stop)
+  const handleWake = useCallback((hardStop: boolean) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (hardStop) void stopAudio();
+    clearSleepTimer();
   }, [clearSleepTimer]);
 
+  // ── AppState listener – keep the sleep timer honest across backgrounding ──
+  // The subscription is stored in a ref and removed in cleanup to prevent leaks.
+  useEffect(() => {
+    const handleAppState = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        // JS timers may have been suspended while backgrounded – catch the
+        // countdown and fade up to wall-clock time (or finish it) immediately.
+        tickSleepTimer();
+      }
+    };
+    appStateSubRef.current = AppState.addEventListener('change', handleAppState);
+
+    return () => {
+      // Always remove listener on unmount
+      appStateSubRef.current?.remove();
+      appStateSubRef.current = null;
+    };
+  }, [tickSleepTimer]);
+
   // Cleanup on unmount – clears ANY lingering interval
   useEffect(() => {
     return () => {
@@ -361,6 +636,8 @@ export default function PlayerScreen() {
         clearInterval(sleepIntervalRef.current);
         sleepIntervalRef.current = null;
       }
+      // Don't leave the next story starting at a faded-out volume
+      resetAudioGain();
       if (heartbeatIntervalRef.current !== null) {
         clearInterval(heartbeatIntervalRef.current);
         heartbeatIntervalRef.current = null;
@@ -382,8 +659,33 @@ export default function PlayerScreen() {
   }, [startSleepTimer]);
 
   // ── Interactive Adventure – Choice Selection ──────────────────────────────
+  const choiceAnims = [
+    { scale: choiceAScale, opacity: choiceAOpacity },
+    { scale: choiceBScale, opacity: choiceBOpacity },
+    { scale: choiceCScale, opacity: choiceCOpacity },
+  ];
+
+  const resetChoiceAnims = () => {
+    for (const anim of choiceAnims) {
+      anim.scale.value   = 1;
+      anim.opacity.value = 1;
+    }
+  };
+
+  /** Save the path on current_story and its story store entry. */
+  const persistAdventure = useCallback(async (updatedStory: CurrentStory) => {
+    await AsyncStorage.setItem('current_story', JSON.stringify(updatedStory));
+    if (updatedStory.id) {
+      await updateStoredStory(updatedStory.id, {
+        branchContent: updatedStory.branchContent,
+        choicePath:    updatedStory.choicePath,
+      });
+    }
+    setStory(updatedStory);
+  }, []);
+
   const handleChoiceSelect = useCallback(async (choiceIdx: number) => {
-    if (!story || selectedChoiceIdx !== null || isGeneratingBranch) return;
+    if (!story || !storyGraph || selectedChoiceIdx !== null || isGeneratingBranch) return;
 
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -396,66 +698,93 @@ export default function PlayerScreen() {
       choiceTimerRef.current = null;
     }
 
-    // Zoom animation: selected expands, other fades
-    if (choiceIdx === 0) {
-      choiceAScale.value = withSpring(1.05, { damping: 8, stiffness: 200 });
-      choiceBScale.value = withTiming(0.85, { duration: 400 });
-      choiceBOpacity.value = withTiming(0, { duration: 350 });
-    } else {
-      choiceBScale.value = withSpring(1.05, { damping: 8, stiffness: 200 });
-      choiceAScale.value = withTiming(0.85, { duration: 400 });
-      choiceAOpacity.value = withTiming(0, { duration: 350 });
-    }
+    // Zoom animation: selected expands, the others fade
+    choiceAnims.forEach((anim, idx) => {
+      if (idx === choiceIdx) {
+        anim.scale.value = withSpring(1.05, { damping: 8, stiffness: 200 });
+      } else {
+        anim.scale.value   = withTiming(0.85, { duration: 400 });
+        anim.opacity.value = withTiming(0, { duration: 350 });
+      }
+    });
 
     setShowChoiceCards(false);
     setIsGeneratingBranch(true);
 
     try {
-      const chosenOption = story.choiceOptions?.[choiceIdx];
-      const narratorId = await AsyncStorage.getItem('selected_narrator_id');
+      const narratorId = await AsyncStorage.getItem(await childStorageKey('selected_narrator_id'));
       const narrator = narratorId ? NARRATOR_PERSONALITIES.find((n) => n.id === narratorId) : null;
-      const langCode = await AsyncStorage.getItem('app_language') ?? 'en';
-
-      const branchPrompt = buildStoryBranchPrompt(
-        story.content,
-        chosenOption?.value ?? chosenOption?.label ?? 'continue',
-        story.childName,
-        narrator ?? undefined,
-        langCode !== 'en' ? langCode : undefined
-      );
-
-      const branchText = await generateText({ prompt: branchPrompt });
-      if (!branchText) throw new Error('Empty branch');
-
-      const updatedStory = { ...story, branchContent: branchText.trim() };
-      await AsyncStorage.setItem('current_story', JSON.stringify(updatedStory));
+      const childProfile = await getActiveChild();
+      const cast = childProfile ? await getCharacters(childProfile.id) : [];
+
+      const leafId = pathNodes[pathNodes.length - 1]?.id ?? 'root';
+      const { graph, node } = await takeChoice(storyGraph, leafId, choiceIdx, {
+        child:      childProfile ?? { id: '', name: story.childName, age: null },
+        title:      story.title,
+        narrator,
+        // Continue in the language the adventure began in
+        language:   story.language,
+        // Keep any cast member the story already introduced
+        characters: cast.filter((c) => story.content.includes(c.name)),
+      });
+      const nextPath = [...choicePath, choiceIdx];
+      const isFirstEnding = graph.paths.length === 0;
+      const finalGraph = node.choicePoint ? graph : await saveCompletedPath(graph, nextPath);
+
+      setStoryGraph(finalGraph);
+      setChoicePath(nextPath);
+      await persistAdventure({
+        ...story,
+        choicePath:    nextPath,
+        branchContent: node.choicePoint
+          ? null
+          : nodesForPath(finalGraph, nextPath).slice(1).flatMap((n) => n.paragraphs).join('\n\n'),
+      });
 
-      // Update local_stories
-      const localRaw = await AsyncStorage.getItem('local_stories');
-      if (localRaw) {
-        const local = JSON.parse(localRaw) as CurrentStory[];
-        const updated = local.map((s) => s.id === story.id ? updatedStory : s);
-        await AsyncStorage.setItem('local_stories', JSON.stringify(updated));
+      // Award stardust the first time the adventure reaches an ending
+      if (!node.choicePoint && isFirstEnding) {
+        await addStardust(15, t('player.stardustAdventure'), '🎯');
+        await incrementStoriesCompleted();
+        setStardustEarned(15);
+        setStardustReason(t('player.stardustAdventureDone'));
+        setShowStardustAnim(true);
       }
 
-      setStory(updatedStory);
-
-      // Award stardust for interactive adventure completion
-      await addStardust(15, 'Completed Interactive Adventure! 🌟', '🎯');
-      await incrementStoriesCompleted();
-      // Trigger stardust animation
-      setStardustEarned(15);
-      setStardustReason('Interactive Adventure completed! 🎯');
-      setShowStardustAnim(true);
-
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (err) {
       console.error('[Player] Branch generation failed:', err);
       // Fallback: show quiet time anyway
     } finally {
       setIsGeneratingBranch(false);
+      setSelectedChoiceIdx(null);
+      resetChoiceAnims();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [story, storyGraph, choicePath, pathNodes, selectedChoiceIdx, isGeneratingBranch, persistAdventure, t]);
+
+  // ── Replay: start over at the first choice, or follow a saved path ─────────
+  const handleReplayPath = useCallback(async (choices: number[]) => {
+    if (!story || !storyGraph) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    narration.stop();
+    setShowChoiceCards(false);
+    setSelectedChoiceIdx(null);
+    resetChoiceAnims();
+    setChoicePath(choices);
+    await persistAdventure({
+      ...story,
+      choicePath:    choices,
+      branchContent: choices.length > 0
+        ? nodesForPath(storyGraph, choices).slice(1).flatMap((n) => n.paragraphs).join('\n\n')
+        : null,
+    });
+    if (choices.length === 0) {
+      // Back to the first choice moment
+      scrollRef.current?.scrollTo({ y: storyCardYRef.current, animated: true });
+      setShowChoiceCards(true);
     }
-  }, [story, selectedChoiceIdx, isGeneratingBranch, choiceAScale, choiceAOpacity, choiceBScale, choiceBOpacity]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [story, storyGraph, persistAdventure, narration.stop]);
 
   // ── Choice timer effect ────────────────────────────────────────────────────
   useEffect(() => {
@@ -534,31 +863,45 @@ export default function PlayerScreen() {
     startHeartbeatHaptics();
 
     try {
-      // Get child life notes from AsyncStorage
-      const childRaw = await AsyncStorage.getItem('pending_child_profile');
-      const childProfile = childRaw ? JSON.parse(childRaw) as { life_notes?: string; name?: string } : null;
+      // Life notes come from the active child
+      const childProfile = await getActiveChild();
       const lifeNotes = childProfile?.life_notes ?? null;
       const childName = childProfile?.name ?? story.childName;
 
+      const language = await getAppLanguage();
       const prompt = buildReflectionQuestionsPrompt(
         story.title,
         story.content,
         childName,
-        lifeNotes
+        lifeNotes,
+        childProfile,
+        language
       );
-      const raw = await generateText({ prompt });
+      const generatedQuestions = await generateText({ prompt });
+      const { text: raw } = generatedQuestions
+        ? await moderateText(generatedQuestions, {
+          kind:       'reflection',
+          age:        childProfile?.age,
+          title:      story.title,
+          allowNames: [childName],
+          childId:    childProfile?.id,
+          boundaries: childProfile,
+          language,
+          fallback:   t('player.reflectionFallback'),
+        })
+        : { text: '' };
       if (raw) {
         const questions = raw.trim().split('\n').filter((q) => q.trim().length > 0).slice(0, 3);
         setReflectionQuestions(questions);
 
         // Award stardust for story completion
         if (!story.isInteractive) {
-          await addStardust(10, `Completed "${story.title}"`, '📖');
+          await addStardust(10, t('player.stardustStory', { title: story.title }), '📖');
           await incrementStoriesCompleted();
           await updateBedtimeStreak();
           // Trigger stardust animation
           setStardustEarned(10);
-          setStardustReason(`Completed "${story.title}" 📖`);
+          setStardustReason(t('player.stardustStoryDone', { title: story.title }));
           setShowStardustAnim(true);
           // Track completion for analytics
           void trackStoryEvent({
@@ -580,22 +923,22 @@ export default function PlayerScreen() {
           answers: questions.map(q => ({ question: q, answer: '' })),
           parentNotes: '',
         };
-        const existingJournalRaw = await AsyncStorage.getItem(JOURNAL_KEY);
+        const existingJournalRaw = await AsyncStorage.getItem(await childStorageKey(JOURNAL_KEY));
         const existingJournal = existingJournalRaw ? JSON.parse(existingJournalRaw) : [];
-        await AsyncStorage.setItem(JOURNAL_KEY, JSON.stringify([journalEntry, ...existingJournal].slice(0, 100)));
+        await AsyncStorage.setItem(await childStorageKey(JOURNAL_KEY), JSON.stringify([journalEntry, ...existingJournal].slice(0, 100)));
       }
     } catch (err) {
       console.error('[QuietTime] Failed to generate reflections:', err);
       // Fallback questions
       setReflectionQuestions([
-        `What was your favourite part of the story?`,
-        `How did the story make you feel?`,
-        `What did you learn from tonight's story?`,
+        t('player.reflectionFallback'),
+        t('player.reflectionFeel'),
+        t('player.reflectionLearn'),
       ]);
     } finally {
       setIsLoadingReflections(false);
     }
-  }, [story, glowBorderPulse, startHeartbeatHaptics]);
+  }, [story, glowBorderPulse, startHeartbeatHaptics, t]);
 
   const handleEndQuietTime = useCallback(() => {
     setQuietTimeActive(false);
@@ -624,19 +967,92 @@ export default function PlayerScreen() {
       const current = JSON.parse(raw) as CurrentStory;
       await AsyncStorage.setItem('current_story', JSON.stringify({ ...current, is_favorite: newVal }));
     }
-    // Sync local_stories cache
-    const localRaw = await AsyncStorage.getItem('local_stories');
-    if (localRaw && story.id) {
-      const localStories = (JSON.parse(localRaw) as CurrentStory[]).map((s) =>
-        s.id === story.id ? { ...s, is_favorite: newVal } : s
-      );
-      await AsyncStorage.setItem('local_stories', JSON.stringify(localStories));
+    // Keep the story store in step
+    if (story.id) await updateStoredStory(story.id, { is_favorite: newVal });
+    // Queue for Supabase (replayed when offline)
+    if (story.id) {
+      await enqueueMutation({
+        userId:   user?.id,
+        table:    'stories',
+        op:       'update',
+        recordId: story.id,
+        payload:  { is_favorite: newVal },
+      });
+    }
+  }, [story, isFavorite, heartScale, user?.id]);
+
+  // ── Keepsake PDF ───────────────────────────────────────────────────────────
+  const handleExportPdf = useCallback(async () => {
+    if (!story || isExporting) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsExporting(true);
+    try {
+      // An adventure prints the path taken, just as it is shown here
+      await exportStoryPdf({ ...story, paragraphs: [...storyParagraphs, ...branchParagraphs] }, appLanguage);
+    } catch (err) {
+      console.warn('[Player] PDF export failed:', err);
+      Alert.alert(t('pdf.failedTitle'), t('pdf.failed'));
+    } finally {
+      setIsExporting(false);
     }
-    // Sync to Supabase
-    if (isSupabaseAvailable && story.id) {
-      await toggleStoryFavorite(story.id, newVal);
+  }, [story, isExporting, storyParagraphs, branchParagraphs, appLanguage, t]);
+
+  // ── Read in another language: translated once, then kept with the story ───
+  const handleTranslate = useCallback(async (language: LanguageCode | null) => {
+    if (!story || isTranslating) return;
+    void Haptics.selectionAsync();
+    if (!language) {
+      setTranslation(null);
+      return;
     }
-  }, [story, isFavorite, heartScale]);
+    setIsTranslating(true);
+    try {
+      setTranslation(await translateStory(
+        { id: story.id, title: story.title, paragraphs: originalParagraphs },
+        language,
+        activeNarrator,
+        await getActiveChild(),
+      ));
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      console.warn('[Player] Translation failed:', err);
+      Alert.alert(t('player.translateTitle'), t('player.translateFailed'));
+    } finally {
+      setIsTranslating(false);
+    }
+  }, [story, isTranslating, originalParagraphs, activeNarrator, t]);
+
+  // ── Narration controls ─────────────────────────────────────────────────────
+  const handleNarrationToggle = useCallback(() => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (narration.status === 'playing') narration.pause(); else narration.play();
+  }, [narration]);
+
+  const handleNarrationStep = useCallback((delta: number) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    narration.seekToParagraph(narration.paragraphIndex + delta);
+  }, [narration]);
+
+  const renderParagraphs = (paragraphs: string[], offset: number) =>
+    paragraphs.map((text, i) => {
+      const globalIdx = offset + i;
+      const isActive  = isNarrating && narration.paragraphIndex === globalIdx;
+      return (
+        <Text
+          key={globalIdx}
+          style={[
+            styles.storyText,
+            styles.storyParagraph,
+            isNarrating && !isActive && styles.storyParagraphDim,
+            isActive && styles.storyParagraphActive,
+          ]}
+          onLayout={(e) => { paragraphOffsetRef.current[globalIdx] = e.nativeEvent.layout.y; }}
+          onPress={isNarrating ? () => narration.seekToParagraph(globalIdx) : undefined}
+        >
+          {text}
+        </Text>
+      );
+    });
 
   // ── Heart animated style ───────────────────────────────────────────────────
   const heartStyle = useAnimatedStyle(() => ({
@@ -662,7 +1078,7 @@ export default function PlayerScreen() {
         setShowQuietTimeBtn(true);
       }
       // Show choice cards for interactive stories
-      if (progress >= 0.85 && story?.isInteractive && !story?.branchContent && !showChoiceCards && !selectedChoiceIdx) {
+      if (progress >= 0.85 && isAwaitingChoice && !showChoiceCards && selectedChoiceIdx === null && !isGeneratingBranch) {
         setShowChoiceCards(true);
       }
     }
@@ -679,6 +1095,7 @@ export default function PlayerScreen() {
     opacity:   interpolate(controlsY.value, [40, 0], [0, 1]),
     transform: [{ translateY: controlsY.value }],
   }));
+  const sleepDimStyle = useAnimatedStyle(() => ({ opacity: sleepDim.value }));
 
   // Breathing glow style for primary CTA button
   const breathGlowStyle = useAnimatedStyle(() => {
@@ -720,6 +1137,11 @@ export default function PlayerScreen() {
     transform: [{ scale: choiceBScale.value }],
     opacity: choiceBOpacity.value,
   }));
+  const choiceCStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: choiceCScale.value }],
+    opacity: choiceCOpacity.value,
+  }));
+  const choiceStyles = [choiceAStyle, choiceBStyle, choiceCStyle];
 
   // ─────────────────────────────────────────────────────────────────────────
   // Render: Loading
@@ -731,7 +1153,7 @@ export default function PlayerScreen() {
         <StarField count={40} />
         <View style={styles.centeredState}>
           <StardustLoader size={56} color={Colors.celestialGold} />
-          <Text style={styles.loadingText}>Sprinkling magic dust…</Text>
+          <Text style={styles.loadingText}>{t('player.loading')}</Text>
         </View>
       </View>
     );
@@ -758,11 +1180,11 @@ export default function PlayerScreen() {
             {/* Top shine */}
             <View style={styles.errorGlassPanelEdge} />
             <Text style={styles.errorEmoji}>🌙</Text>
-            <Text style={styles.errorTitle}>Oops, the story flew away!</Text>
+            <Text style={styles.errorTitle}>{t('player.errorTitle')}</Text>
             <Text style={styles.errorText}>
               {error
-                ? "The story couldn't be found. Let's create a brand-new adventure!"
-                : "No story here yet — tap the button below to begin the magic!"}
+                ? t('player.notFound')
+                : t('player.empty')}
             </Text>
           </View>
           <TouchableOpacity
@@ -777,14 +1199,14 @@ export default function PlayerScreen() {
               start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
               style={styles.errorButtonGradient}
             >
-              <Text style={styles.errorButtonText}>✨ Create a Story</Text>
+              <Text style={styles.errorButtonText}>{t('player.createStory')}</Text>
             </LinearGradient>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.errorBackButton}
             onPress={() => router.back()}
           >
-            <Text style={styles.errorBackText}>← Go Back</Text>
+            <Text style={styles.errorBackText}>{t('player.goBack')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -818,8 +1240,8 @@ export default function PlayerScreen() {
         </TouchableOpacity>
 
         <View style={styles.headerCenter}>
-          <Text style={styles.headerLabel}>Bedtime Story</Text>
-          <Text style={styles.headerChild}>for {story.childName} ✨</Text>
+          <Text style={styles.headerLabel}>{t('player.header')}</Text>
+          <Text style={styles.headerChild}>{t('player.headerFor', { name: story.childName })}</Text>
         </View>
 
         <View style={styles.headerActions}>
@@ -833,6 +1255,17 @@ export default function PlayerScreen() {
             </Animated.Text>
           </TouchableOpacity>
 
+          {/* Save as a printable PDF */}
+          <TouchableOpacity
+            style={styles.headerActionBtn}
+            onPress={() => void handleExportPdf()}
+            disabled={isExporting}
+          >
+            {isExporting
+              ? <ActivityIndicator size="small" color={Colors.celestialGold} />
+              : <Text style={styles.headerActionIcon}>📄</Text>}
+          </TouchableOpacity>
+
           {/* Sleep timer button */}
           <TouchableOpacity
             style={[styles.timerButton, timerActive && styles.timerButtonActive]}
@@ -851,6 +1284,7 @@ export default function PlayerScreen() {
 
       {/* ── Main scroll content ─────────────────────────────────────────────── */}
       <ScrollView
+        ref={scrollRef}
         contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 120 }]}
         showsVerticalScrollIndicator={false}
         onScroll={handleScroll}
@@ -882,11 +1316,27 @@ export default function PlayerScreen() {
 
         {/* Story title */}
         <Animated.View style={[styles.titleSection, contentStyle]}>
-          <Text style={styles.storyTitle}>{story.title}</Text>
+          <Text style={styles.storyTitle}>{shownTranslation?.title ?? story.title}</Text>
           <View style={styles.badgeRow}>
+            {story.saga_id && story.chapter_number ? (
+              <TouchableOpacity
+                style={[styles.themeBadge, styles.chapterBadge]}
+                onPress={() => router.push({ pathname: '/(main)/saga', params: { id: story.saga_id ?? '' } })}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.themeBadgeText, { color: Colors.softBlue }]}>{t('player.chapterBadge', { count: story.chapter_number })}</Text>
+              </TouchableOpacity>
+            ) : null}
             <View style={styles.themeBadge}>
               <Text style={styles.themeBadgeText}>{story.theme}</Text>
             </View>
+            {story.readingLevel && (
+              <View style={styles.themeBadge}>
+                <Text style={styles.themeBadgeText}>
+                  {story.readingLevel.readingMinutes} min · ages {story.readingLevel.ageBand}
+                </Text>
+              </View>
+            )}
             {activeNarrator && (
               <View style={[styles.narratorBadge, { borderColor: `${activeNarrator.accentColor}60`, backgroundColor: `${activeNarrator.glowColor}18` }]}>
                 <Text style={styles.narratorBadgeEmoji}>{activeNarrator.emoji}</Text>
@@ -898,43 +1348,201 @@ export default function PlayerScreen() {
           </View>
         </Animated.View>
 
-        {/* ── Crystal Night glass story text card ─────────────────────────── */}
-        <Animated.View style={[styles.storyCard, contentStyle]}>
+        {/* ── Saga recap — "Previously on…" before the next chapter ─────────── */}
+        {story.recap ? (
+          <Animated.View style={[styles.recapCard, contentStyle]}>
+            <Text style={styles.recapLabel}>{t('player.previously')}</Text>
+            <Text style={styles.recapText}>{story.recap}</Text>
+          </Animated.View>
+        ) : null}
+
+        {/* ── Narration bar — story read aloud in the parent's voice ────────── */}
+        <Animated.View style={[styles.narrationBar, contentStyle]}>
           {Platform.OS !== 'web' && (
-            <BlurView intensity={28} tint="dark" style={StyleSheet.absoluteFill} />
+            <BlurView intensity={24} tint="dark" style={StyleSheet.absoluteFill} />
           )}
           <LinearGradient
-            colors={['rgba(255,255,255,0.10)', 'rgba(255,255,255,0.03)']}
+            colors={['rgba(255,215,0,0.10)', 'rgba(255,255,255,0.03)']}
             style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
           />
-          {/* Top glass shine edge */}
-          <View style={styles.storyCardTopEdge} />
-          <View style={styles.storyCardInner}>
-            <Text style={styles.storyText}>{story.content}</Text>
+          <View style={styles.narrationRow}>
+            <TouchableOpacity
+              style={styles.narrationStepBtn}
+              onPress={() => handleNarrationStep(-1)}
+              disabled={narration.paragraphIndex === 0}
+            >
+              <Text style={[styles.narrationStepIcon, narration.paragraphIndex === 0 && styles.narrationStepIconDisabled]}>⏮</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.narrationPlayBtn} onPress={handleNarrationToggle} activeOpacity={0.85}>
+              <LinearGradient
+                colors={[Colors.celestialGold, Colors.softGold]}
+                style={styles.narrationPlayGradient}
+              >
+                <Text style={styles.narrationPlayIcon}>{narration.status === 'playing' ? '⏸' : '▶'}</Text>
+              </LinearGradient>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.narrationStepBtn}
+              onPress={() => handleNarrationStep(1)}
+              disabled={narration.paragraphIndex >= narrationParagraphs.length - 1}
+            >
+              <Text style={[
+                styles.narrationStepIcon,
+                narration.paragraphIndex >= narrationParagraphs.length - 1 && styles.narrationStepIconDisabled,
+              ]}>⏭</Text>
+            </TouchableOpacity>
+            <View style={styles.narrationInfo}>
+              <Text style={styles.narrationVoiceLabel} numberOfLines={1}>
+                🎙️ {voiceDisplayName(narrationVoice)}
+              </Text>
+              <TouchableOpacity
+                activeOpacity={1}
+                onPress={(e) => {
+                  const width = narrationTrackWidthRef.current;
+                  if (width > 0) narration.seek(e.nativeEvent.locationX / width);
+                }}
+                style={styles.narrationTrackHitArea}
+              >
+                <View
+                  style={styles.narrationTrack}
+                  onLayout={(e) => { narrationTrackWidthRef.current = e.nativeEvent.layout.width; }}
+                >
+                  <View style={[styles.narrationTrackFill, { width: `${narration.progress * 100}%` as `${number}%` }]} />
+                </View>
+              </TouchableOpacity>
+              <Text style={styles.narrationParagraphLabel}>
+                {narration.status === 'finished'
+                  ? t('player.finished')
+                  : t('player.paragraphOf', { index: narration.paragraphIndex + 1, count: narrationParagraphs.length })}
+              </Text>
+            </View>
           </View>
         </Animated.View>
 
+        {/* ── Read in another language ────────────────────────────────────── */}
+        {narrationParagraphs.length > 0 && (
+          <Animated.View style={[styles.translateRow, contentStyle]}>
+            {isTranslating ? (
+              <View style={styles.translateStatus}>
+                <ActivityIndicator size="small" color={Colors.celestialGold} />
+                <Text style={styles.translateStatusText}>{t('player.translating')}</Text>
+              </View>
+            ) : (
+              <>
+                {shownTranslation && (
+                  <TouchableOpacity
+                    style={[styles.bookToggleChip, styles.bookToggleChipActive]}
+                    onPress={() => void handleTranslate(null)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.bookToggleText, { color: Colors.celestialGold }]}>{t('player.readOriginal')}</Text>
+                  </TouchableOpacity>
+                )}
+                {SUPPORTED_LANGUAGES
+                  .filter((lang) => lang.code !== storyLanguage && lang.code !== shownTranslation?.language)
+                  .map((lang) => (
+                    <TouchableOpacity
+                      key={lang.code}
+                      style={styles.bookToggleChip}
+                      onPress={() => void handleTranslate(lang.code)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={styles.bookToggleText}>
+                        {t('player.readIn', { flag: lang.emoji, language: lang.nativeName })}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+              </>
+            )}
+            {shownTranslation && !isTranslating && (
+              <Text style={styles.translateStatusText}>
+                {t('player.translatedInto', { language: languageInfo(shownTranslation.language).nativeName })}
+              </Text>
+            )}
+          </Animated.View>
+        )}
+
+        {/* ── Picture book: swipe through the painted pages ───────────────── */}
+        {hasPictureBook && (
+          <Animated.View style={[styles.bookToggleRow, contentStyle]}>
+            {[{ asBook: true, label: t('player.pages') }, { asBook: false, label: t('player.scroll') }].map((mode) => (
+              <TouchableOpacity
+                key={mode.label}
+                style={[styles.bookToggleChip, readAsBook === mode.asBook && styles.bookToggleChipActive]}
+                onPress={() => {
+                  void Haptics.selectionAsync();
+                  setReadAsBook(mode.asBook);
+                }}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.bookToggleText, readAsBook === mode.asBook && { color: Colors.celestialGold }]}>
+                  {mode.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </Animated.View>
+        )}
+        {showBook && (
+          <Animated.View
+            style={[styles.bookSection, contentStyle]}
+            onLayout={(e) => { storyCardYRef.current = e.nativeEvent.layout.y; }}
+          >
+            <PictureBookPager
+              pages={bookPages}
+              pageIndex={narration.paragraphIndex}
+              width={W}
+              onPageChange={(idx) => {
+                void Haptics.selectionAsync();
+                if (isNarrating) narration.seekToParagraph(idx);
+              }}
+            />
+          </Animated.View>
+        )}
+
+        {/* ── Crystal Night glass story text card ─────────────────────────── */}
+        {!showBook && (
+          <Animated.View
+            style={[styles.storyCard, contentStyle]}
+            onLayout={(e) => { storyCardYRef.current = e.nativeEvent.layout.y; }}
+          >
+            {Platform.OS !== 'web' && (
+              <BlurView intensity={28} tint="dark" style={StyleSheet.absoluteFill} />
+            )}
+            <LinearGradient
+              colors={['rgba(255,255,255,0.10)', 'rgba(255,255,255,0.03)']}
+              style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
+            />
+            {/* Top glass shine edge */}
+            <View style={styles.storyCardTopEdge} />
+            <View style={styles.storyCardInner}>
+              {renderParagraphs(storyParagraphs, 0)}
+            </View>
+          </Animated.View>
+        )}
+
         {/* ── Interactive Adventure Choice Cards ─────────────────────────── */}
-        {story.isInteractive && !story.branchContent && showChoiceCards && (
+        {activeChoicePoint && showChoiceCards && (
           <View style={styles.choiceSection}>
-            <Text style={styles.choiceSectionTitle}>✨ The Adventure Awaits…</Text>
-            <Text style={styles.choiceSectionSubtitle}>What should {story.childName} do?</Text>
+            <Text style={styles.choiceSectionTitle}>{t('player.adventureAwaits')}</Text>
+            <Text style={styles.choiceSectionSubtitle}>
+              {activeChoicePoint.question}
+            </Text>
 
             {/* Choice Timer */}
             <View style={styles.choiceTimerRow}>
               <View style={styles.choiceTimerBg}>
                 <Text style={styles.choiceTimerText}>{choiceTimerLeft}</Text>
-                <Text style={styles.choiceTimerSec}>sec</Text>
+                <Text style={styles.choiceTimerSec}>{t('player.choiceSeconds')}</Text>
               </View>
             </View>
 
             <View style={styles.choiceCards}>
-              {story.choiceOptions?.map((option, idx) => {
-                const sphereColor = idx === 0 ? '#9B6FDE' : '#FF8C42';
+              {activeChoicePoint.options.map((option, idx) => {
+                const sphereColor = CHOICE_COLORS[idx] ?? CHOICE_COLORS[0];
                 return (
                   <Animated.View
                     key={idx}
-                    style={[styles.choiceCardWrapper, idx === 0 ? choiceAStyle : choiceBStyle]}
+                    style={[styles.choiceCardWrapper, choiceStyles[idx]]}
                   >
                     <TouchableOpacity
                       style={[styles.choiceSphere, { shadowColor: sphereColor }]}
@@ -974,13 +1582,20 @@ export default function PlayerScreen() {
         {isGeneratingBranch && (
           <View style={styles.branchLoadingSection}>
             <StardustLoader size={36} color={Colors.celestialGold} />
-            <Text style={styles.branchLoadingText}>{"Weaving your magical ending\u2026"}</Text>
+            <Text style={styles.branchLoadingText}>
+              {storyGraph && choicePath.length + 1 < storyGraph.maxDepth
+                ? t('player.weavingNext')
+                : t('player.weavingEnding')}
+            </Text>
           </View>
         )}
 
         {/* Branch content */}
-        {story.isInteractive && story.branchContent && (
-          <Animated.View style={[styles.storyCard, contentStyle, { marginTop: 0 }]}>
+        {story.isInteractive && branchParagraphs.length > 0 && (
+          <Animated.View
+            style={[styles.storyCard, contentStyle, { marginTop: 0 }]}
+            onLayout={(e) => { branchCardYRef.current = e.nativeEvent.layout.y; }}
+          >
             {Platform.OS !== 'web' && (
               <BlurView intensity={28} tint="dark" style={StyleSheet.absoluteFill} />
             )}
@@ -996,19 +1611,61 @@ export default function PlayerScreen() {
             <View style={styles.storyCardInner}>
               <View style={styles.branchHeader}>
                 <Text style={styles.branchHeaderEmoji}>🌟</Text>
-                <Text style={styles.branchHeaderText}>Your Adventure Continues…</Text>
+                <Text style={styles.branchHeaderText}>{t('player.adventureContinues')}</Text>
               </View>
-              <Text style={styles.storyText}>{story.branchContent}</Text>
+              {storyGraph
+                ? pathNodes.map((node, i) => {
+                  const start  = pathNodes.slice(0, i).reduce((n, p) => n + p.paragraphs.length, 0);
+                  const offset = storyParagraphs.length + start;
+                  return (
+                    <View key={node.id}>
+                      <Text style={styles.branchChoiceLabel}>
+                        {pathLabels(storyGraph, choicePath)[i]}
+                      </Text>
+                      {renderParagraphs(branchParagraphs.slice(start, start + node.paragraphs.length), offset)}
+                    </View>
+                  );
+                })
+                : renderParagraphs(branchParagraphs, storyParagraphs.length)}
             </View>
           </Animated.View>
         )}
 
         {/* Decorative end-of-story stars */}
-        <Animated.View style={[styles.endOfStory, contentStyle]}>
-          <Text style={styles.endStar}>✦</Text>
-          <Text style={styles.endText}>The End</Text>
-          <Text style={styles.endStar}>✦</Text>
-        </Animated.View>
+        {!isAwaitingChoice && (
+          <Animated.View style={[styles.endOfStory, contentStyle]}>
+            <Text style={styles.endStar}>✦</Text>
+            <Text style={styles.endText}>{t('player.theEnd')}</Text>
+            <Text style={styles.endStar}>✦</Text>
+          </Animated.View>
+        )}
+
+        {/* ── Replay the adventure down another path ──────────────────── */}
+        {storyGraph && !isAwaitingChoice && !isGeneratingBranch && (
+          <Animated.View style={[styles.pathsSection, contentStyle]}>
+            <Text style={styles.pathsTitle}>{t('player.pathsTitle')}</Text>
+            {storyGraph.paths.map((path) => {
+              const isCurrent = path.choices.join('.') === choicePath.join('.');
+              return (
+                <TouchableOpacity
+                  key={path.choices.join('.')}
+                  style={[styles.pathRow, isCurrent && styles.pathRowCurrent]}
+                  onPress={() => void handleReplayPath(path.choices)}
+                  disabled={isCurrent}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.pathRowText} numberOfLines={2}>
+                    {pathLabels(storyGraph, path.choices).join('  →  ')}
+                  </Text>
+                  {isCurrent && <Text style={styles.pathRowBadge}>{t('player.pathTonight')}</Text>}
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.pathNewBtn} onPress={() => void handleReplayPath([])} activeOpacity={0.85}>
+              <Text style={styles.pathNewText}>{t('player.pathNew')}</Text>
+            </TouchableOpacity>
+          </Animated.View>
+        )}
 
         {/* ── Quiet Time Reflections ───────────────────────────────────── */}
         {showQuietTimeBtn && !quietTimeActive && (
@@ -1031,8 +1688,8 @@ export default function PlayerScreen() {
               />
               <Text style={styles.quietTimeBtnEmoji}>🌿</Text>
               <View style={styles.quietTimeBtnText}>
-                <Text style={styles.quietTimeBtnTitle}>Begin Quiet Time</Text>
-                <Text style={styles.quietTimeBtnSubtitle}>Gentle reflection questions await…</Text>
+                <Text style={styles.quietTimeBtnTitle}>{t('player.beginQuietTime')}</Text>
+                <Text style={styles.quietTimeBtnSubtitle}>{t('player.quietTimeSubtitle')}</Text>
               </View>
               <Text style={styles.quietTimeBtnChevron}>›</Text>
             </TouchableOpacity>
@@ -1052,14 +1709,12 @@ export default function PlayerScreen() {
               colors={['rgba(255,215,0,0.06)', 'transparent', 'rgba(255,215,0,0.04)']}
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
             />
-            <Text style={styles.quietTimeSectionTitle}>🌟  Quiet Time Reflections</Text>
-            <Text style={styles.quietTimeSectionSubtitle}>
-              Take a breath together and think about tonight&apos;s story…
-            </Text>
+            <Text style={styles.quietTimeSectionTitle}>{t('player.quietTimeTitle')}</Text>
+            <Text style={styles.quietTimeSectionSubtitle}>{t('player.quietTimeBreath')}</Text>
             {isLoadingReflections ? (
               <View style={styles.reflectionsLoading}>
                 <Text style={styles.reflectionsLoadingEmoji}>✨</Text>
-                <Text style={styles.reflectionsLoadingText}>Crafting your reflection questions…</Text>
+                <Text style={styles.reflectionsLoadingText}>{t('player.craftingReflections')}</Text>
               </View>
             ) : (
               <>
@@ -1076,7 +1731,7 @@ export default function PlayerScreen() {
                   onPress={handleEndQuietTime}
                   activeOpacity={0.85}
                 >
-                  <Text style={styles.endQuietTimeBtnText}>Sweet Dreams 🌙</Text>
+                  <Text style={styles.endQuietTimeBtnText}>{t('player.sweetDreams')}</Text>
                 </TouchableOpacity>
               </>
             )}
@@ -1119,8 +1774,8 @@ export default function PlayerScreen() {
             <View style={styles.journalCTAInner}>
               <Text style={styles.journalCTAIcon}>📔</Text>
               <View style={styles.journalCTATextGroup}>
-                <Text style={styles.journalCTATitle}>{"Reflect on Tonight\u2019s Journey"}</Text>
-                <Text style={styles.journalCTASubtitle}>Visit the Bedtime Journal →</Text>
+                <Text style={styles.journalCTATitle}>{t('player.journalTitle')}</Text>
+                <Text style={styles.journalCTASubtitle}>{t('player.journalSubtitle')}</Text>
               </View>
             </View>
           </TouchableOpacity>
@@ -1162,7 +1817,7 @@ export default function PlayerScreen() {
             }}
           >
             <Text style={styles.controlBtnIcon}>🏠</Text>
-            <Text style={styles.controlBtnLabel}>Home</Text>
+            <Text style={styles.controlBtnLabel}>{t('player.home')}</Text>
           </TouchableOpacity>
 
           {/* Create new story — with calming breathing glow */}
@@ -1187,7 +1842,7 @@ export default function PlayerScreen() {
                 style={styles.controlBtnPrimaryGradient}
               >
                 <Text style={styles.controlBtnPrimaryIcon}>🪄</Text>
-                <Text style={styles.controlBtnPrimaryLabel}>New Story</Text>
+                <Text style={styles.controlBtnPrimaryLabel}>{t('player.newStory')}</Text>
               </LinearGradient>
             </TouchableOpacity>
           </Animated.View>
@@ -1201,7 +1856,7 @@ export default function PlayerScreen() {
             }}
           >
             <Text style={styles.controlBtnIcon}>🌊</Text>
-            <Text style={styles.controlBtnLabel}>Sounds</Text>
+            <Text style={styles.controlBtnLabel}>{t('player.sounds')}</Text>
           </TouchableOpacity>
 
           {/* Sleep timer toggle */}
@@ -1266,27 +1921,66 @@ export default function PlayerScreen() {
               onPress={() => {/* prevent close when tapping modal body */}}
               style={styles.timerModalBody}
             >
-              <Text style={styles.timerModalTitle}>⏱  Sleep Timer</Text>
-              <Text style={styles.timerModalSubtitle}>
-                The story will end after the selected time
-              </Text>
+              <Text style={styles.timerModalTitle}>{t('player.sleepTimer')}</Text>
+              <Text style={styles.timerModalSubtitle}>{t('player.timerSubtitle')}</Text>
+
+              <Text style={styles.timerSectionLabel}>{t('player.timerFadeOver')}</Text>
+              <View style={styles.timerOptions}>
+                {SLEEP_FADE_OPTIONS.map((seconds) => (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[
+                      styles.timerOption,
+                      sleepFadeSeconds === seconds && styles.timerOptionSelected,
+                    ]}
+                    onPress={() => {
+                      void Haptics.selectionAsync();
+                      setSleepFadeSeconds(seconds);
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.timerOptionText,
+                        sleepFadeSeconds === seconds && styles.timerOptionTextSelected,
+                      ]}
+                    >
+                      {durationLabel(seconds, t)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.timerToggleRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.timerToggleLabel}>{t('player.timerKeepSounds')}</Text>
+                  <Text style={styles.timerToggleHint}>{t('player.timerKeepSoundsHint')}</Text>
+                </View>
+                <Switch
+                  value={keepSoundscapes}
+                  onValueChange={setKeepSoundscapes}
+                  trackColor={{ false: Colors.borderColor, true: `${Colors.celestialGold}60` }}
+                  thumbColor={keepSoundscapes ? Colors.celestialGold : Colors.textMuted}
+                />
+              </View>
+
+              <Text style={styles.timerSectionLabel}>{t('player.timerEndAfter')}</Text>
               <View style={styles.timerOptions}>
-                {SLEEP_TIMER_OPTIONS.map((opt) => (
+                {SLEEP_TIMER_OPTIONS.map((minutes) => (
                   <TouchableOpacity
-                    key={opt.minutes}
+                    key={minutes}
                     style={[
                       styles.timerOption,
-                      sleepTimerMinutes === opt.minutes && styles.timerOptionSelected,
+                      sleepTimerMinutes === minutes && styles.timerOptionSelected,
                     ]}
-                    onPress={() => handleTimerSelect(opt.minutes)}
+                    onPress={() => handleTimerSelect(minutes)}
                   >
                     <Text
                       style={[
                         styles.timerOptionText,
-                        sleepTimerMinutes === opt.minutes && styles.timerOptionTextSelected,
+                        sleepTimerMinutes === minutes && styles.timerOptionTextSelected,
                       ]}
                     >
-                      {opt.label}
+                      {durationLabel(minutes * 60, t)}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -1295,12 +1989,32 @@ export default function PlayerScreen() {
                 style={styles.timerModalClose}
                 onPress={() => setShowTimerModal(false)}
               >
-                <Text style={styles.timerModalCloseText}>Cancel</Text>
+                <Text style={styles.timerModalCloseText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
             </TouchableOpacity>
           </View>
         </TouchableOpacity>
       </Modal>
+
+      {/* ── Sleep dim – fades the whole player to black as the timer ends ───── */}
+      <Animated.View
+        style={[StyleSheet.absoluteFill, styles.sleepDim, sleepDimStyle]}
+        pointerEvents={isAsleep ? 'auto' : 'none'}
+      >
+        {isAsleep && (
+          <TouchableOpacity
+            style={styles.sleepWake}
+            activeOpacity={1}
+            onPress={() => handleWake(false)}
+            onLongPress={() => handleWake(true)}
+            delayLongPress={800}
+          >
+            <Text style={styles.sleepWakeText}>
+              {keepSoundscapes ? t('player.wakeOrStop') : t('player.wake')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </Animated.View>
     </View>
   );
 }
@@ -1522,6 +2236,28 @@ const styles = StyleSheet.create({
     borderColor:       'rgba(255,215,0,0.30)',
   },
   themeBadgeText: { fontFamily: Fonts.bold, fontSize: 12, color: Colors.celestialGold },
+  chapterBadge: {
+    backgroundColor: 'rgba(126,200,227,0.12)',
+    borderColor:     'rgba(126,200,227,0.35)',
+  },
+  recapCard: {
+    marginHorizontal: Spacing.lg,
+    marginBottom:     Spacing.md,
+    padding:          Spacing.md,
+    borderRadius:     Radius.lg,
+    backgroundColor:  'rgba(126,200,227,0.07)',
+    borderWidth:      1,
+    borderColor:      'rgba(126,200,227,0.22)',
+    gap:              4,
+  },
+  recapLabel: {
+    fontFamily:    Fonts.bold,
+    fontSize:      11,
+    color:         Colors.softBlue,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  recapText: { fontFamily: Fonts.regular, fontSize: 14, lineHeight: 21, color: 'rgba(240,235,248,0.78)', fontStyle: 'italic' },
   narratorBadge: {
     flexDirection:     'row',
     alignItems:        'center',
@@ -1535,6 +2271,25 @@ const styles = StyleSheet.create({
   narratorBadgeText:  { fontFamily: Fonts.bold, fontSize: 11 },
 
   // ── Crystal Night glass story card
+  bookToggleRow: {
+    flexDirection: 'row', justifyContent: 'center', gap: 8,
+    marginBottom: Spacing.md,
+  },
+  bookToggleChip: {
+    paddingVertical: 6, paddingHorizontal: 14,
+    borderRadius: Radius.full,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)',
+  },
+  bookToggleChipActive: { borderColor: 'rgba(255,215,0,0.45)', backgroundColor: 'rgba(255,215,0,0.10)' },
+  bookToggleText: { fontFamily: Fonts.bold, fontSize: 12, color: 'rgba(240,235,248,0.7)' },
+  bookSection: { marginBottom: Spacing.lg },
+  translateRow: {
+    flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', alignItems: 'center', gap: 8,
+    marginHorizontal: Spacing.lg, marginBottom: Spacing.md,
+  },
+  translateStatus: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  translateStatusText: { fontFamily: Fonts.regular, fontSize: 12, color: 'rgba(240,235,248,0.55)' },
   storyCard: {
     marginHorizontal: Spacing.lg,
     borderRadius:     Radius.xl,
@@ -1567,6 +2322,70 @@ const styles = StyleSheet.create({
     color:      '#F0EBF8',
     lineHeight: 28,
   },
+  storyParagraph: {
+    marginBottom:      12,
+    marginHorizontal:  -8,
+    paddingHorizontal: 8,
+    borderRadius:      Radius.sm,
+  },
+  storyParagraphDim:    { opacity: 0.55 },
+  storyParagraphActive: {
+    color:           '#FFFFFF',
+    backgroundColor: 'rgba(255,215,0,0.10)',
+  },
+
+  // ── Narration bar
+  narrationBar: {
+    marginHorizontal: Spacing.lg,
+    marginBottom:     Spacing.md,
+    borderRadius:     Radius.xl,
+    overflow:         'hidden',
+    borderWidth:      1,
+    borderColor:      'rgba(255,215,0,0.22)',
+    padding:          Spacing.md,
+  },
+  narrationRow: {
+    flexDirection: 'row',
+    alignItems:    'center',
+    gap:           10,
+  },
+  narrationStepBtn: {
+    width:          36,
+    height:         36,
+    borderRadius:   18,
+    alignItems:     'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.07)',
+  },
+  narrationStepIcon:         { fontSize: 14, color: '#FFFFFF' },
+  narrationStepIconDisabled: { opacity: 0.3 },
+  narrationPlayBtn: {
+    width:         48,
+    height:        48,
+    borderRadius:  24,
+    overflow:      'hidden',
+    shadowColor:   Colors.celestialGold,
+    shadowOffset:  { width: 0, height: 0 },
+    shadowRadius:  10,
+    shadowOpacity: 0.5,
+    elevation:     6,
+  },
+  narrationPlayGradient: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  narrationPlayIcon:     { fontSize: 18, color: Colors.deepSpace },
+  narrationInfo:         { flex: 1, gap: 4 },
+  narrationVoiceLabel:   { fontFamily: Fonts.bold, fontSize: 12, color: Colors.celestialGold },
+  narrationTrackHitArea: { paddingVertical: 6 },
+  narrationTrack: {
+    height:          4,
+    borderRadius:    2,
+    backgroundColor: 'rgba(255,255,255,0.10)',
+    overflow:        'hidden',
+  },
+  narrationTrackFill: {
+    height:          '100%',
+    backgroundColor: Colors.celestialGold,
+  },
+  narrationParagraphLabel: { fontFamily: Fonts.regular, fontSize: 11, color: 'rgba(240,235,248,0.55)' },
 
   // End of story
   endOfStory: {
@@ -1874,6 +2693,30 @@ const styles = StyleSheet.create({
   },
   branchHeaderEmoji: { fontSize: 20 },
   branchHeaderText: { fontFamily: Fonts.extraBold, fontSize: 15, color: Colors.celestialGold },
+  branchChoiceLabel: {
+    fontFamily: Fonts.bold, fontSize: 12, color: 'rgba(255,215,0,0.70)',
+    marginBottom: Spacing.sm, marginTop: Spacing.xs,
+  },
+
+  // Paths explored
+  pathsSection: { marginHorizontal: Spacing.lg, marginBottom: Spacing.xl, gap: 8 },
+  pathsTitle: { fontFamily: Fonts.extraBold, fontSize: 15, color: '#FFFFFF', marginBottom: 4 },
+  pathRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    paddingVertical: 10, paddingHorizontal: 14,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderWidth: 1, borderColor: 'rgba(255,255,255,0.10)',
+  },
+  pathRowCurrent: { borderColor: 'rgba(155,111,222,0.55)', backgroundColor: 'rgba(155,111,222,0.14)' },
+  pathRowText: { flex: 1, fontFamily: Fonts.medium, fontSize: 13, color: 'rgba(240,235,248,0.85)' },
+  pathRowBadge: { fontFamily: Fonts.bold, fontSize: 11, color: Colors.celestialGold },
+  pathNewBtn: {
+    alignItems: 'center', paddingVertical: 12, borderRadius: 14, marginTop: 4,
+    backgroundColor: 'rgba(155,111,222,0.22)',
+    borderWidth: 1, borderColor: 'rgba(155,111,222,0.45)',
+  },
+  pathNewText: { fontFamily: Fonts.extraBold, fontSize: 14, color: '#FFFFFF' },
 
   // ── Sleep Timer Modal
   modalOverlay: {
@@ -1963,6 +2806,54 @@ const styles = StyleSheet.create({
     fontSize:   14,
     color:      'rgba(240,235,248,0.50)',
   },
+  timerSectionLabel: {
+    fontFamily:    Fonts.bold,
+    fontSize:      12,
+    color:         'rgba(240,235,248,0.45)',
+    textAlign:     'center',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+    marginBottom:  -Spacing.sm,
+  },
+  timerToggleRow: {
+    flexDirection:     'row',
+    alignItems:        'center',
+    gap:               Spacing.md,
+    paddingVertical:   Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius:      Radius.lg,
+    backgroundColor:   'rgba(255,255,255,0.06)',
+    borderWidth:       1,
+    borderColor:       'rgba(255,255,255,0.10)',
+  },
+  timerToggleLabel: {
+    fontFamily: Fonts.bold,
+    fontSize:   14,
+    color:      '#FFFFFF',
+  },
+  timerToggleHint: {
+    fontFamily: Fonts.regular,
+    fontSize:   11,
+    color:      'rgba(240,235,248,0.50)',
+    marginTop:  2,
+  },
+
+  // ── Sleep dim overlay
+  sleepDim: {
+    backgroundColor: '#000000',
+  },
+  sleepWake: {
+    flex:           1,
+    alignItems:     'center',
+    justifyContent: 'flex-end',
+    paddingBottom:  Spacing.xxl * 2,
+  },
+  sleepWakeText: {
+    fontFamily: Fonts.regular,
+    fontSize:   12,
+    // Barely visible so the screen stays dark in a sleeping child's room
+    color:      'rgba(255,255,255,0.14)',
+  },
 
   // ── Interactive Adventure Choice section
   choiceSection: {
@@ -0,0 +1,346 @@
+/**
+ * Saga
+ *
+ * One story saga: the characters and places met so far, the story so far,
+ * and its chapters in reading order. Parents continue the saga tonight from
+ * here (create-story with the saga preselected) or bring it to an end.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BlurView } from 'expo-blur';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@fastshot/auth';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+  withDelay,
+} from 'react-native-reanimated';
+import StarField from '@/components/StarField';
+import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { finishSaga, getSaga, getSagaChapters, type SagaChapter } from '@/lib/sagas';
+import type { SagaEntity, StorySaga } from '@/lib/supabase';
+import { useActiveChild } from '@/hooks/useActiveChild';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Entity chips (characters / places)
+// ─────────────────────────────────────────────────────────────────────────────
+function EntityList({ title, emoji, entities }: { title: string; emoji: string; entities: SagaEntity[] }) {
+  if (entities.length === 0) return null;
+  return (
+    <View style={styles.entitySection}>
+      <Text style={styles.sectionLabel}>{title}</Text>
+      {entities.map((entity) => (
+        <View key={entity.name} style={styles.entityRow}>
+          <Text style={styles.entityEmoji}>{emoji}</Text>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.entityName}>{entity.name}</Text>
+            {entity.description ? <Text style={styles.entityDesc}>{entity.description}</Text> : null}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Screen
+// ─────────────────────────────────────────────────────────────────────────────
+export default function SagaScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { activeChild } = useActiveChild();
+  const { t } = useAppLanguage();
+
+  const [saga,     setSaga]     = useState<StorySaga | null>(null);
+  const [chapters, setChapters] = useState<SagaChapter[]>([]);
+  const [loaded,   setLoaded]   = useState(false);
+
+  const contentOpacity = useSharedValue(0);
+
+  const loadData = useCallback(async () => {
+    if (!id) return;
+    const [s, c] = await Promise.all([getSaga(id), getSagaChapters(id)]);
+    setSaga(s);
+    setChapters(c);
+    setLoaded(true);
+  }, [id]);
+
+  useEffect(() => {
+    void loadData();
+    contentOpacity.value = withDelay(150, withTiming(1, { duration: 600 }));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadData]);
+
+  const openChapter = useCallback(async (chapter: SagaChapter) => {
+    if (!chapter.content) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const cached = chapter as SagaChapter & { imageUrl?: string | null; image_url?: string | null; theme?: string | null; childName?: string };
+    await AsyncStorage.setItem('current_story', JSON.stringify({
+      ...chapter,
+      imageUrl:  cached.imageUrl ?? cached.image_url ?? null,
+      childName: cached.childName ?? activeChild?.name ?? 'your child',
+      theme:     cached.theme ?? saga?.theme ?? '',
+      createdAt: chapter.createdAt ?? chapter.created_at ?? new Date().toISOString(),
+    }));
+    router.push('/(main)/player');
+  }, [activeChild?.name, router, saga?.theme]);
+
+  const handleContinue = useCallback(() => {
+    if (!saga) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    router.push({ pathname: '/(main)/create-story', params: { sagaId: saga.id } });
+  }, [router, saga]);
+
+  const handleFinish = useCallback(() => {
+    if (!saga) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      t('saga.endTitle'),
+      t('saga.endMessage', { title: saga.title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('saga.end'),
+          style: 'destructive',
+          onPress: async () => {
+            await finishSaga(saga.id, user?.id);
+            void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            await loadData();
+          },
+        },
+      ]
+    );
+  }, [loadData, saga, user?.id, t]);
+
+  const contentStyle = useAnimatedStyle(() => ({ opacity: contentOpacity.value }));
+
+  const isOngoing = saga?.status === 'ongoing';
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#0D0E24', '#1A1B41', '#2A1150']}
+        locations={[0, 0.5, 1]}
+        style={StyleSheet.absoluteFill}
+      />
+      <StarField count={40} />
+
+      <ScrollView
+        contentContainerStyle={[
+          styles.scroll,
+          { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 40 },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.backBtn}
+            onPress={() => {
+              void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Text style={styles.backText}>{t('common.back')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('saga.title')}</Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        {loaded && !saga ? (
+          <Text style={styles.emptyText}>{t('saga.notOnDevice')}</Text>
+        ) : saga ? (
+          <Animated.View style={contentStyle}>
+            {/* Title card */}
+            <View style={styles.glassCard}>
+              {Platform.OS !== 'web' && (
+                <BlurView intensity={20} tint="dark" style={StyleSheet.absoluteFill} />
+              )}
+              <LinearGradient
+                colors={['rgba(126,200,227,0.14)', 'rgba(255,255,255,0.02)']}
+                style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
+              />
+              <Text style={styles.sagaTitle}>{saga.title}</Text>
+              <Text style={styles.sagaMeta}>
+                {saga.chapter_count === 1 ? t('saga.chapterOne') : t('saga.chapterCount', { count: saga.chapter_count })}
+                {saga.theme ? ` · ${saga.theme}` : ''}
+                {isOngoing ? '' : ` · ${t('saga.theEnd')}`}
+              </Text>
+              {saga.summary ? (
+                <>
+                  <Text style={styles.sectionLabel}>{t('saga.storySoFar')}</Text>
+                  <Text style={styles.summaryText}>{saga.summary}</Text>
+                </>
+              ) : null}
+              <EntityList title={t('saga.characters')} emoji="🧸" entities={saga.characters} />
+              <EntityList title={t('saga.places')} emoji="🏰" entities={saga.places} />
+            </View>
+
+            {/* Chapters */}
+            <Text style={styles.listTitle}>{t('saga.chapters')}</Text>
+            {chapters.length === 0 ? (
+              <Text style={styles.emptyText}>{t('saga.noChapters')}</Text>
+            ) : chapters.map((chapter) => (
+              <TouchableOpacity
+                key={chapter.id}
+                style={styles.chapterRow}
+                onPress={() => void openChapter(chapter)}
+                activeOpacity={0.82}
+              >
+                <View style={styles.chapterNumber}>
+                  <Text style={styles.chapterNumberText}>{chapter.chapter_number}</Text>
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.chapterTitle} numberOfLines={1}>{chapter.title}</Text>
+                  {chapter.recap ? (
+                    <Text style={styles.chapterRecap} numberOfLines={2}>{chapter.recap}</Text>
+                  ) : null}
+                </View>
+                <Text style={styles.chapterChevron}>▶</Text>
+              </TouchableOpacity>
+            ))}
+
+            {/* Actions */}
+            {isOngoing && (
+              <>
+                <TouchableOpacity style={styles.continueBtn} onPress={handleContinue} activeOpacity={0.85}>
+                  <LinearGradient
+                    colors={[Colors.celestialGold, Colors.softGold]}
+                    style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
+                  />
+                  <Text style={styles.continueText}>{t('saga.continue', { number: saga.chapter_count + 1 })}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.finishBtn} onPress={handleFinish}>
+                  <Text style={styles.finishText}>{t('saga.end')}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </Animated.View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Styles
+// ─────────────────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.deepSpace },
+  scroll:    { paddingHorizontal: Spacing.lg },
+
+  headerRow: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'space-between',
+    marginBottom:   Spacing.lg,
+  },
+  backBtn:     { paddingVertical: 8, minWidth: 60 },
+  backText:    { fontFamily: Fonts.medium, fontSize: 14, color: Colors.textMuted },
+  headerTitle: {
+    fontFamily:    Fonts.extraBold,
+    fontSize:      20,
+    color:         Colors.moonlightCream,
+    letterSpacing: 0.3,
+  },
+
+  emptyText: {
+    fontFamily: Fonts.medium,
+    fontSize:   13,
+    color:      Colors.textMuted,
+    textAlign:  'center',
+    marginVertical: Spacing.md,
+  },
+
+  // Title card
+  glassCard: {
+    borderRadius:    Radius.xl,
+    borderWidth:     1,
+    borderColor:     'rgba(126,200,227,0.25)',
+    backgroundColor: Platform.OS === 'ios' ? 'rgba(13,14,36,0.6)' : 'rgba(26,27,65,0.92)',
+    padding:         Spacing.md,
+    marginBottom:    Spacing.lg,
+    overflow:        'hidden',
+    gap:             Spacing.sm,
+  },
+  sagaTitle:   { fontFamily: Fonts.black, fontSize: 22, color: Colors.moonlightCream },
+  sagaMeta:    { fontFamily: Fonts.bold, fontSize: 12, color: Colors.softBlue },
+  sectionLabel: {
+    fontFamily:    Fonts.bold,
+    fontSize:      11,
+    color:         Colors.textMuted,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+    marginTop:     Spacing.xs,
+  },
+  summaryText: { fontFamily: Fonts.regular, fontSize: 14, lineHeight: 21, color: 'rgba(240,235,248,0.82)' },
+
+  entitySection: { gap: 6 },
+  entityRow:     { flexDirection: 'row', alignItems: 'flex-start', gap: 8 },
+  entityEmoji:   { fontSize: 16, marginTop: 1 },
+  entityName:    { fontFamily: Fonts.bold, fontSize: 13, color: Colors.moonlightCream },
+  entityDesc:    { fontFamily: Fonts.regular, fontSize: 12, color: Colors.textMuted, marginTop: 1 },
+
+  // Chapters
+  listTitle: {
+    fontFamily:   Fonts.extraBold,
+    fontSize:     16,
+    color:        Colors.moonlightCream,
+    marginBottom: Spacing.sm,
+  },
+  chapterRow: {
+    flexDirection:   'row',
+    alignItems:      'center',
+    gap:             Spacing.sm,
+    padding:         Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Colors.glassWhite,
+    marginBottom:    Spacing.sm,
+  },
+  chapterNumber: {
+    width:           32,
+    height:          32,
+    borderRadius:    16,
+    alignItems:      'center',
+    justifyContent:  'center',
+    backgroundColor: 'rgba(126,200,227,0.15)',
+    borderWidth:     1,
+    borderColor:     'rgba(126,200,227,0.40)',
+  },
+  chapterNumberText: { fontFamily: Fonts.black, fontSize: 14, color: Colors.softBlue },
+  chapterTitle:      { fontFamily: Fonts.bold, fontSize: 14, color: Colors.moonlightCream },
+  chapterRecap:      { fontFamily: Fonts.regular, fontSize: 12, color: Colors.textMuted, marginTop: 2 },
+  chapterChevron:    { fontSize: 12, color: Colors.celestialGold },
+
+  // Actions
+  continueBtn: {
+    height:         52,
+    borderRadius:   Radius.full,
+    alignItems:     'center',
+    justifyContent: 'center',
+    overflow:       'hidden',
+    marginTop:      Spacing.md,
+  },
+  continueText: { fontFamily: Fonts.extraBold, fontSize: 15, color: Colors.deepSpace },
+  finishBtn:    { alignSelf: 'center', paddingVertical: Spacing.md },
+  finishText:   { fontFamily: Fonts.medium, fontSize: 13, color: Colors.textMuted, textDecorationLine: 'underline' },
+});
@@ -31,23 +31,30 @@ import Animated, {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import StarField from '@/components/StarField';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
-import { isSupabaseAvailable, deleteAllUserData, upsertUserPreferences } from '@/lib/supabase';
+import { isSupabaseAvailable, deleteAllUserData } from '@/lib/supabase';
 import {
   getSyncState,
   syncFromCloud,
   clearSyncCache,
   type SyncState,
 } from '@/lib/syncService';
+import { clearVoiceUploadQueue } from '@/lib/voiceUploadService';
+import { clearPictureBooks } from '@/lib/pictureBook';
+import { clearSoundscapePresets } from '@/lib/soundscapePresets';
+import { clearChildScopedData } from '@/lib/activeChild';
+import { enqueueMutation, clearMutationQueue } from '@/lib/mutationQueue';
 import {
   isMigrationComplete,
   getMigrationTimestamp,
 } from '@/lib/migrationService';
+import type { StringKey } from '@/lib/i18n';
 import { SUPPORTED_LANGUAGES, type LanguageCode } from '@/lib/newell';
 import {
   getAnalyticsSummary,
   type AnalyticsSummary,
 } from '@/lib/analytics';
 import { getCacheMeta, type CacheMeta } from '@/lib/offlineCache';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 interface SettingRow {
@@ -146,6 +153,13 @@ function Section({ title, items, delay = 0 }: { title: string; items: SettingRow
 }
 
 // ─── Sync Status Card ─────────────────────────────────────────────────────────
+const SYNC_COVERAGE: { icon: string; label: StringKey }[] = [
+  { icon: '👶', label: 'settings.coverageProfiles' },
+  { icon: '🎙️', label: 'settings.coverageVoices' },
+  { icon: '📖', label: 'settings.coverageStories' },
+  { icon: '⚙️', label: 'settings.coverageSettings' },
+];
+
 function SyncStatusCard({
   syncState,
   isSyncing,
@@ -159,6 +173,7 @@ function SyncStatusCard({
   delay: number;
   migrationComplete: boolean;
 }) {
+  const { t } = useAppLanguage();
   const cardOpacity = useSharedValue(0);
   const cardTransY  = useSharedValue(16);
   const spinValue   = useSharedValue(0);
@@ -209,14 +224,14 @@ function SyncStatusCard({
         : '☁️';
 
   const statusText = isSyncing
-    ? 'Syncing to cloud…'
+    ? t('settings.syncingToCloud')
     : migrationComplete && syncState.status === 'success'
-      ? '✦ All legacy data protected in the cloud'
+      ? t('settings.legacyProtected')
       : syncState.status === 'success'
-        ? 'Cloud backup up to date'
+        ? t('settings.backupUpToDate')
         : syncState.status === 'error'
-          ? 'Last sync had issues'
-          : 'Not yet synced';
+          ? t('settings.syncIssues')
+          : t('settings.notSynced');
 
   return (
     <Animated.View style={[styles.syncCard, cardStyle]}>
@@ -229,7 +244,7 @@ function SyncStatusCard({
       <View style={styles.syncCardCornerBR} />
 
       <View style={styles.syncHeader}>
-        <Text style={styles.syncCardSectionTitle}>☁️  Cloud Backup</Text>
+        <Text style={styles.syncCardSectionTitle}>{t('settings.cloudBackup')}</Text>
         {isSupabaseAvailable && (
           <TouchableOpacity
             style={[styles.syncNowBtn, isSyncing && styles.syncNowBtnDisabled]}
@@ -238,7 +253,7 @@ function SyncStatusCard({
             activeOpacity={0.75}
           >
             <Animated.Text style={[styles.syncNowIcon, isSyncing && spinStyle]}>↻</Animated.Text>
-            <Text style={styles.syncNowText}>{isSyncing ? 'Syncing' : 'Sync Now'}</Text>
+            <Text style={styles.syncNowText}>{isSyncing ? t('settings.syncing') : t('settings.syncNow')}</Text>
           </TouchableOpacity>
         )}
       </View>
@@ -248,11 +263,15 @@ function SyncStatusCard({
         <View style={styles.syncInfo}>
           <Text style={[styles.syncStatusText, { color: statusColor }]}>{statusText}</Text>
           <Text style={styles.syncLastTime}>
-            {syncState.lastSyncAt
-              ? `Last backup · ${syncState.lastSyncLabel}`
+            {syncState.pendingChanges > 0
+              ? syncState.pendingChanges === 1
+                ? t('settings.pendingOne')
+                : t('settings.pending', { count: syncState.pendingChanges })
+              : syncState.lastSyncAt
+              ? t('settings.lastBackup', { time: syncState.lastSyncLabel })
               : isSupabaseAvailable
-                ? 'Tap "Sync Now" to back up your stories'
-                : 'Connect Supabase to enable cloud backup'}
+                ? t('settings.tapSyncNow')
+                : t('settings.connectSupabase')}
           </Text>
         </View>
         <Text style={styles.syncStatusIcon}>{statusIcon}</Text>
@@ -260,15 +279,10 @@ function SyncStatusCard({
 
       {/* Data coverage row */}
       <View style={styles.syncCoverageRow}>
-        {[
-          { icon: '👶', label: 'Profiles' },
-          { icon: '🎙️', label: 'Voices' },
-          { icon: '📖', label: 'Stories' },
-          { icon: '⚙️', label: 'Settings' },
-        ].map((item) => (
+        {SYNC_COVERAGE.map((item) => (
           <View key={item.label} style={styles.syncCoverageItem}>
             <Text style={styles.syncCoverageIcon}>{item.icon}</Text>
-            <Text style={styles.syncCoverageLabel}>{item.label}</Text>
+            <Text style={styles.syncCoverageLabel}>{t(item.label)}</Text>
           </View>
         ))}
       </View>
@@ -276,9 +290,7 @@ function SyncStatusCard({
       {/* Legacy migration badge */}
       {migrationComplete && (
         <View style={styles.migrationBadge}>
-          <Text style={styles.migrationBadgeText}>
-            ✨ Magic Sync complete — legacy data safely moved to cloud
-          </Text>
+          <Text style={styles.migrationBadgeText}>{t('settings.migrationDone')}</Text>
         </View>
       )}
     </Animated.View>
@@ -290,17 +302,18 @@ export default function SettingsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user, signOut } = useAuth();
+  const { language: appLanguage, t, setLanguage: setAppLanguage } = useAppLanguage();
 
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [isDeletingAccount,    setIsDeletingAccount]    = useState(false);
   const [syncState,            setSyncState]            = useState<SyncState>({
     status: 'never',
     lastSyncAt: null,
-    lastSyncLabel: 'Never synced',
+    lastSyncLabel: '',
+    pendingChanges: 0,
   });
   const [isSyncing,          setIsSyncing]          = useState(false);
   const [migrationComplete,  setMigrationComplete]  = useState(false);
-  const [appLanguage,        setAppLanguage]        = useState<LanguageCode>('en');
   const [isChangingLanguage, setIsChangingLanguage] = useState(false);
   const [analyticsVisible,   setAnalyticsVisible]   = useState(false);
   const [analyticsSummary,   setAnalyticsSummary]   = useState<AnalyticsSummary | null>(null);
@@ -332,19 +345,19 @@ export default function SettingsScreen() {
     void loadSettings();
     // Refresh label every 30 seconds
     labelRefreshRef.current = setInterval(() => {
-      void getSyncState().then(setSyncState);
+      void getSyncState(appLanguage).then(setSyncState);
     }, 30_000);
     return () => {
       if (labelRefreshRef.current) clearInterval(labelRefreshRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]);
+  }, [user?.id, appLanguage]);
 
   const loadSettings = async () => {
     try {
       const [notifRaw, state] = await Promise.all([
         AsyncStorage.getItem('notifications_enabled'),
-        getSyncState(),
+        getSyncState(appLanguage),
       ]);
       if (notifRaw !== null) setNotificationsEnabled(notifRaw === 'true');
       setSyncState(state);
@@ -359,9 +372,6 @@ export default function SettingsScreen() {
           if (ts) setMigrationComplete(true);
         }
       }
-      const savedLang = await AsyncStorage.getItem('app_language');
-      if (savedLang) setAppLanguage(savedLang as LanguageCode);
-
       // Load offline cache metadata
       const meta = await getCacheMeta();
       setCacheMeta(meta);
@@ -396,10 +406,10 @@ export default function SettingsScreen() {
   }));
 
   // User display data
-  const userEmail = user?.email ?? 'Not signed in';
+  const userEmail = user?.email ?? t('settings.notSignedIn');
   const userInitial = userEmail.charAt(0).toUpperCase();
   const memberSince = user?.created_at
-    ? new Date(user.created_at).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    ? new Date(user.created_at).toLocaleDateString(appLanguage, { month: 'long', year: 'numeric' })
     : null;
 
   // ── Sync Now ──────────────────────────────────────────────────────────────────
@@ -409,7 +419,7 @@ export default function SettingsScreen() {
     setIsSyncing(true);
     try {
       const ok = await syncFromCloud(user.id);
-      const fresh = await getSyncState();
+      const fresh = await getSyncState(appLanguage);
       setSyncState(fresh);
       if (ok) {
         void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -421,17 +431,17 @@ export default function SettingsScreen() {
     } finally {
       setIsSyncing(false);
     }
-  }, [user?.id, isSyncing]);
+  }, [user?.id, isSyncing, appLanguage]);
 
   // ── Sign Out ──────────────────────────────────────────────────────────────────
   const handleSignOut = useCallback(() => {
     Alert.alert(
-      'Sign Out',
-      'Are you sure you want to sign out?',
+      t('settings.signOut'),
+      t('settings.signOutText'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Sign Out',
+          text: t('settings.signOut'),
           style: 'destructive',
           onPress: async () => {
             void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
@@ -441,11 +451,11 @@ export default function SettingsScreen() {
               'selected_voice_type',
               'onboarding_complete',
               'pending_child_profile',
-              'local_stories',
               'current_story',
               'notifications_enabled',
             ]);
             await clearSyncCache();
+            await clearPictureBooks();
             await signOut();
             void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
           },
@@ -453,26 +463,26 @@ export default function SettingsScreen() {
       ],
       { cancelable: true }
     );
-  }, [signOut]);
+  }, [signOut, t]);
 
   // ── Delete Account ────────────────────────────────────────────────────────────
   const handleDeleteAccount = useCallback(() => {
     Alert.alert(
-      '⚠️ Delete Account',
-      'This will permanently delete your account and all associated data including stories, voice recordings, and child profiles. This action cannot be undone.',
+      t('settings.deleteTitle'),
+      t('settings.deleteText'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Delete Account',
+          text: t('settings.deleteAccount'),
           style: 'destructive',
           onPress: () => {
             Alert.alert(
-              'Are you absolutely sure?',
-              'Type "DELETE" in the next step to confirm.',
+              t('settings.deleteConfirmTitle'),
+              t('settings.deleteConfirm'),
               [
-                { text: 'Cancel', style: 'cancel' },
+                { text: t('common.cancel'), style: 'cancel' },
                 {
-                  text: 'Yes, delete everything',
+                  text: t('settings.deleteEverything'),
                   style: 'destructive',
                   onPress: async () => {
                     setIsDeletingAccount(true);
@@ -488,20 +498,24 @@ export default function SettingsScreen() {
                         'selected_voice_type',
                         'onboarding_complete',
                         'pending_child_profile',
-                        'local_stories',
                         'current_story',
                         'walkthrough_seen',
                         'notifications_enabled',
                       ]);
                       await clearSyncCache();
+                      await clearVoiceUploadQueue();
+                      await clearPictureBooks();
+                      await clearSoundscapePresets();
+                      await clearChildScopedData();
+                      await clearMutationQueue();
                       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
                       await signOut();
                     } catch (err) {
                       console.error('Delete account error:', err);
                       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
                       Alert.alert(
-                        'Error',
-                        'Could not fully delete your account. Please contact support at help@storyvoice.app'
+                        t('settings.deleteFailedTitle'),
+                        t('settings.deleteFailed')
                       );
                     } finally {
                       setIsDeletingAccount(false);
@@ -515,17 +529,21 @@ export default function SettingsScreen() {
       ],
       { cancelable: true }
     );
-  }, [user?.id, signOut]);
+  }, [user?.id, signOut, t]);
 
   // ── Notifications toggle ──────────────────────────────────────────────────────
   const handleToggleNotifications = useCallback(async (v: boolean) => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setNotificationsEnabled(v);
     await AsyncStorage.setItem('notifications_enabled', String(v));
-    // Sync to cloud preferences
-    if (isSupabaseAvailable && user?.id) {
-      await upsertUserPreferences(user.id, { notifications_enabled: v });
-    }
+    // Sync to cloud preferences (replayed when offline)
+    await enqueueMutation({
+      userId:   user?.id,
+      table:    'user_preferences',
+      op:       'update',
+      recordId: user?.id ?? '',
+      payload:  { notifications_enabled: v },
+    });
   }, [user?.id]);
 
   // ── Language Change ───────────────────────────────────────────────────────────
@@ -548,12 +566,11 @@ export default function SettingsScreen() {
 
     // Update state after brief delay for animation
     setTimeout(async () => {
-      setAppLanguage(code);
-      await AsyncStorage.setItem('app_language', code);
+      await setAppLanguage(code);
       setIsChangingLanguage(false);
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }, 280);
-  }, [appLanguage, langFlipAnim, langShimmer]);
+  }, [appLanguage, setAppLanguage, langFlipAnim, langShimmer]);
 
   // ── Report an Issue ───────────────────────────────────────────────────────────
   const handleReportIssue = useCallback(async () => {
@@ -570,12 +587,12 @@ export default function SettingsScreen() {
       await Linking.openURL(mailUrl);
     } else {
       Alert.alert(
-        'Email Not Available',
-        'Please email us directly at support@storyvoice.app',
-        [{ text: 'OK' }]
+        t('settings.emailTitle'),
+        t('settings.email'),
+        [{ text: t('settings.ok') }]
       );
     }
-  }, []);
+  }, [t]);
 
   // ── View Analytics ────────────────────────────────────────────────────────────
   const handleViewAnalytics = useCallback(async () => {
@@ -593,7 +610,7 @@ export default function SettingsScreen() {
   const appRows: SettingRow[] = [
     {
       icon: '🔔',
-      label: 'Story Notifications',
+      label: t('settings.notifications'),
       chevron: false,
       rightElement: (
         <Switch
@@ -606,15 +623,15 @@ export default function SettingsScreen() {
     },
     {
       icon: '👶',
-      label: 'Child Profile',
-      value: "Manage your child's settings",
+      label: t('settings.childProfile'),
+      value: t('settings.childProfileHint'),
       chevron: true,
       onPress: () => router.push('/(onboarding)/child-profile'),
     },
     {
       icon: '🎙️',
-      label: 'Voice Studio',
-      value: 'Record or update your voice',
+      label: t('settings.voiceStudio'),
+      value: t('settings.voiceStudioHint'),
       chevron: true,
       onPress: () => router.push('/(onboarding)/voice-studio'),
     },
@@ -623,29 +640,29 @@ export default function SettingsScreen() {
   const familyRows: SettingRow[] = [
     {
       icon: '👨‍👩‍👧‍👦',
-      label: 'Family Sharing Hub',
-      value: 'Link accounts & share stories',
+      label: t('settings.familyHub'),
+      value: t('settings.familyHubHint'),
       chevron: true,
       onPress: () => router.push('/(main)/family-sharing'),
     },
     {
       icon: '📖',
-      label: 'Memory Book',
-      value: "Milestones & growth themes",
+      label: t('settings.memoryBook'),
+      value: t('settings.memoryBookHint'),
       chevron: true,
       onPress: () => router.push('/(main)/milestone-book'),
     },
     {
       icon: '📓',
-      label: 'Bedtime Journal',
-      value: "View child's reflection answers",
+      label: t('settings.journal'),
+      value: t('settings.journalHint'),
       chevron: true,
       onPress: () => router.push('/(main)/bedtime-journal'),
     },
     {
       icon: '⭐',
-      label: 'Stardust Shop',
-      value: 'Unlock magic dust & badges',
+      label: t('settings.shop'),
+      value: t('settings.shopHint'),
       chevron: true,
       onPress: () => router.push('/(main)/stardust-shop'),
     },
@@ -654,22 +671,22 @@ export default function SettingsScreen() {
   const supportRows: SettingRow[] = [
     {
       icon:    '📊',
-      label:   'Story Analytics',
-      value:   'Top narrators & completion rates',
+      label:   t('settings.analytics'),
+      value:   t('settings.analyticsHint'),
       chevron: true,
       onPress: () => void handleViewAnalytics(),
     },
     {
       icon:    '🐛',
-      label:   'Report an Issue',
-      value:   'Send a pre-filled email to support',
+      label:   t('settings.report'),
+      value:   t('settings.reportHint'),
       chevron: true,
       onPress: () => void handleReportIssue(),
     },
     {
       icon:    '💾',
-      label:   'Offline Stories',
-      value:   cacheMeta ? `${cacheMeta.total_stories} stories cached locally` : 'Loading…',
+      label:   t('settings.offline'),
+      value:   cacheMeta ? t('settings.offlineHint', { count: cacheMeta.total_stories }) : t('settings.loading'),
       chevron: false,
     },
   ];
@@ -677,20 +694,20 @@ export default function SettingsScreen() {
   const accountRows: SettingRow[] = [
     {
       icon: '🔭',
-      label: "Parent's Observatory",
-      value: 'Cloud Magic identity & profile',
+      label: t('settings.observatory'),
+      value: t('settings.observatoryHint'),
       chevron: true,
       onPress: () => router.push('/(main)/observatory'),
     },
     {
       icon: '🚪',
-      label: 'Sign Out',
+      label: t('settings.signOut'),
       chevron: true,
       onPress: handleSignOut,
     },
     {
       icon: '🗑️',
-      label: isDeletingAccount ? 'Deleting…' : 'Delete Account',
+      label: isDeletingAccount ? t('settings.deleting') : t('settings.deleteAccount'),
       destructive: true,
       chevron: true,
       onPress: isDeletingAccount ? undefined : handleDeleteAccount,
@@ -728,9 +745,9 @@ export default function SettingsScreen() {
               }}
               hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
             >
-              <Text style={styles.backText}>← Back</Text>
+              <Text style={styles.backText}>{t('common.back')}</Text>
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Settings</Text>
+            <Text style={styles.headerTitle}>{t('settings.title')}</Text>
             <View style={{ width: 60 }} />
           </View>
         </Animated.View>
@@ -763,13 +780,13 @@ export default function SettingsScreen() {
 
               {/* Info */}
               <View style={styles.profileInfo}>
-                <Text style={styles.profileEmailLabel}>SIGNED IN AS</Text>
+                <Text style={styles.profileEmailLabel}>{t('settings.signedInAs')}</Text>
                 <Text style={styles.profileEmail} numberOfLines={1}>
                   {userEmail}
                 </Text>
                 {memberSince && (
                   <View style={styles.memberBadge}>
-                    <Text style={styles.memberBadgeText}>⭐ Member since {memberSince}</Text>
+                    <Text style={styles.memberBadgeText}>{t('settings.memberSince', { date: memberSince })}</Text>
                   </View>
                 )}
               </View>
@@ -799,7 +816,7 @@ export default function SettingsScreen() {
 
         {/* Language Selector */}
         <Animated.View style={[styles.section, { opacity: 1 }]}>
-          <Text style={styles.sectionTitle}>🌍  Story Language</Text>
+          <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
           <Animated.View style={[styles.langCard, langCardFlipStyle]}>
             {Platform.OS === 'ios' && (
               <BlurView intensity={15} tint="dark" style={StyleSheet.absoluteFill} />
@@ -807,8 +824,8 @@ export default function SettingsScreen() {
             {/* Shimmer overlay */}
             <Animated.View style={[StyleSheet.absoluteFill, styles.langShimmerOverlay, langShimmerStyle]} />
 
-            <Text style={styles.langCardTitle}>Narration Language</Text>
-            <Text style={styles.langCardSubtitle}>Stories & narration will be generated in your chosen language</Text>
+            <Text style={styles.langCardTitle}>{t('settings.languageTitle')}</Text>
+            <Text style={styles.langCardSubtitle}>{t('settings.languageSubtitle')}</Text>
 
             <View style={styles.langOptions}>
               {SUPPORTED_LANGUAGES.map((lang) => (
@@ -842,21 +859,21 @@ export default function SettingsScreen() {
         </Animated.View>
 
         {/* App Settings Section */}
-        <Section title="App Settings" items={appRows} delay={200} />
+        <Section title={t('settings.appSettings')} items={appRows} delay={200} />
 
         {/* Family & Memories Section */}
-        <Section title="✦ Family & Memories" items={familyRows} delay={280} />
+        <Section title={t('settings.family')} items={familyRows} delay={280} />
 
         {/* Support & Analytics Section */}
-        <Section title="🔍 Support & Analytics" items={supportRows} delay={320} />
+        <Section title={t('settings.support')} items={supportRows} delay={320} />
 
         {/* Account Section */}
-        <Section title="Account" items={accountRows} delay={380} />
+        <Section title={t('settings.account')} items={accountRows} delay={380} />
 
         {/* App version */}
         <Animated.View style={[versionStyle, styles.versionRow]}>
           <Text style={styles.versionText}>StoryVoice · Phase 7 · v7.0</Text>
-          <Text style={styles.versionSubText}>Made with 🌙 for sleepy little ones</Text>
+          <Text style={styles.versionSubText}>{t('settings.madeWith')}</Text>
         </Animated.View>
       </ScrollView>
 
@@ -883,7 +900,7 @@ export default function SettingsScreen() {
 
             {/* Header */}
             <View style={styles.analyticsHeader}>
-              <Text style={styles.analyticsTitle}>📊 Story Analytics</Text>
+              <Text style={styles.analyticsTitle}>{t('settings.analyticsTitle')}</Text>
               <TouchableOpacity
                 style={styles.analyticsCloseBtn}
                 onPress={() => setAnalyticsVisible(false)}
@@ -898,7 +915,7 @@ export default function SettingsScreen() {
               <View style={styles.analyticsStatRow}>
                 <Text style={styles.analyticsStatIcon}>🌙</Text>
                 <View style={styles.analyticsStatInfo}>
-                  <Text style={styles.analyticsStatLabel}>Total App Sessions</Text>
+                  <Text style={styles.analyticsStatLabel}>{t('settings.totalSessions')}</Text>
                   <Text style={styles.analyticsStatValue}>{analyticsSummary?.total_sessions ?? 0}</Text>
                 </View>
               </View>
@@ -907,9 +924,9 @@ export default function SettingsScreen() {
               <View style={styles.analyticsStatRow}>
                 <Text style={styles.analyticsStatIcon}>🏆</Text>
                 <View style={styles.analyticsStatInfo}>
-                  <Text style={styles.analyticsStatLabel}>Favourite Narrator</Text>
+                  <Text style={styles.analyticsStatLabel}>{t('settings.topNarrator')}</Text>
                   <Text style={styles.analyticsStatValue}>
-                    {analyticsSummary?.top_narrator ?? 'None yet'}
+                    {analyticsSummary?.top_narrator ?? t('settings.noneYet')}
                   </Text>
                 </View>
               </View>
@@ -918,7 +935,7 @@ export default function SettingsScreen() {
               <View style={styles.analyticsStatRow}>
                 <Text style={styles.analyticsStatIcon}>📖</Text>
                 <View style={styles.analyticsStatInfo}>
-                  <Text style={styles.analyticsStatLabel}>Story Completion Rate</Text>
+                  <Text style={styles.analyticsStatLabel}>{t('settings.completionRate')}</Text>
                   <Text style={styles.analyticsStatValue}>
                     {analyticsSummary?.overall_completion_rate ?? 0}%
                   </Text>
@@ -928,7 +945,7 @@ export default function SettingsScreen() {
               {/* Narrator breakdown */}
               {analyticsSummary && analyticsSummary.narrator_stats.length > 0 && (
                 <View style={styles.analyticsSection}>
-                  <Text style={styles.analyticsSectionTitle}>NARRATOR POPULARITY</Text>
+                  <Text style={styles.analyticsSectionTitle}>{t('settings.narratorPopularity')}</Text>
                   {analyticsSummary.narrator_stats.slice(0, 5).map((ns) => (
                     <View key={ns.narrator_id} style={styles.narratorStatRow}>
                       <Text style={styles.narratorStatEmoji}>{ns.emoji}</Text>
@@ -949,7 +966,7 @@ export default function SettingsScreen() {
               {/* Completion by theme */}
               {analyticsSummary && analyticsSummary.story_completion.length > 0 && (
                 <View style={styles.analyticsSection}>
-                  <Text style={styles.analyticsSectionTitle}>COMPLETION BY THEME</Text>
+                  <Text style={styles.analyticsSectionTitle}>{t('settings.completionByTheme')}</Text>
                   {analyticsSummary.story_completion.slice(0, 4).map((sc) => (
                     <View key={sc.theme} style={styles.themeStatRow}>
                       <View style={styles.themeStatInfo}>
@@ -958,7 +975,7 @@ export default function SettingsScreen() {
                           <Text style={styles.themeStatPct}>{sc.completion_rate}%</Text>
                         </View>
                         <Text style={styles.themeStatSub}>
-                          {sc.completed}/{sc.started} completed
+                          {t('settings.completedOf', { completed: sc.completed, started: sc.started })}
                         </Text>
                       </View>
                     </View>
@@ -969,13 +986,13 @@ export default function SettingsScreen() {
               {/* Offline cache */}
               {cacheMeta && (
                 <View style={styles.analyticsSection}>
-                  <Text style={styles.analyticsSectionTitle}>OFFLINE CACHE</Text>
+                  <Text style={styles.analyticsSectionTitle}>{t('settings.offlineCache')}</Text>
                   <View style={styles.analyticsStatRow}>
                     <Text style={styles.analyticsStatIcon}>💾</Text>
                     <View style={styles.analyticsStatInfo}>
-                      <Text style={styles.analyticsStatLabel}>Stories Cached</Text>
+                      <Text style={styles.analyticsStatLabel}>{t('settings.storiesCached')}</Text>
                       <Text style={styles.analyticsStatValue}>
-                        {cacheMeta.total_stories} / 20 max
+                        {t('settings.storiesCount', { count: cacheMeta.total_stories })}
                       </Text>
                     </View>
                   </View>
@@ -985,9 +1002,7 @@ export default function SettingsScreen() {
               {analyticsSummary?.narrator_stats.length === 0 && analyticsSummary?.story_completion.length === 0 && (
                 <View style={styles.analyticsEmpty}>
                   <Text style={styles.analyticsEmptyEmoji}>🌙</Text>
-                  <Text style={styles.analyticsEmptyText}>
-                    No data yet — create some stories and your analytics will appear here!
-                  </Text>
+                  <Text style={styles.analyticsEmptyText}>{t('settings.analyticsEmpty')}</Text>
                 </View>
               )}
             </ScrollView>
@@ -35,35 +35,60 @@ import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import {
   getStardustBalance,
   getUnlockedItems,
-  spendStardust,
-  unlockItem,
+  purchaseShopItem,
+  syncStardust,
   getStardustHistory,
   SHOP_ITEMS,
   type ShopItem,
   type StardustTransaction,
 } from '@/lib/stardust';
 import { useAdapty } from '@/hooks/useAdapty';
+import { useAppLanguage, type UseAppLanguageReturn } from '@/hooks/useAppLanguage';
+import type { StringKey } from '@/lib/i18n';
 
 const { width: W } = Dimensions.get('window');
 const CARD_WIDTH = (W - Spacing.lg * 2 - 12) / 2;
 
 // ─── Free tier features ────────────────────────────────────────────────────────
-const FREE_FEATURES = [
-  { emoji: '📖', label: '3 stories per week' },
-  { emoji: '🎙️', label: 'Standard narrators' },
-  { emoji: '☁️', label: 'Basic cloud sync' },
+const FREE_FEATURES: { emoji: string; label: StringKey }[] = [
+  { emoji: '📖', label: 'shop.freeStories' },
+  { emoji: '🎙️', label: 'shop.freeNarrators' },
+  { emoji: '☁️', label: 'shop.freeSync' },
 ];
 
 // ─── Pro tier features ─────────────────────────────────────────────────────────
-const PRO_FEATURES = [
-  { emoji: '🪄', label: 'Unlimited story generation' },
-  { emoji: '🐋', label: 'Exclusive narrators (Seraphina the Star-Whale)' },
-  { emoji: '🎭', label: 'All 5 AI narrator personalities' },
-  { emoji: '🎨', label: 'High-definition story art' },
-  { emoji: '🎵', label: 'Atmospheric soundscapes' },
-  { emoji: '📚', label: 'Unlimited Voice Studio storage' },
+const PRO_FEATURES: { emoji: string; label: StringKey }[] = [
+  { emoji: '🪄', label: 'shop.proStories' },
+  { emoji: '🐋', label: 'shop.proNarrators' },
+  { emoji: '🎭', label: 'shop.proPersonalities' },
+  { emoji: '🎨', label: 'shop.proArt' },
+  { emoji: '🎵', label: 'shop.proSoundscapes' },
+  { emoji: '📚', label: 'shop.proStorage' },
 ];
 
+// ─── Shop item text ────────────────────────────────────────────────────────────
+const ITEM_TEXT: Record<string, { name: StringKey; description: StringKey }> = {
+  particle_moonbeam: { name: 'shop.particleMoonbeam', description: 'shop.particleMoonbeamDesc' },
+  particle_sunset:   { name: 'shop.particleSunset',   description: 'shop.particleSunsetDesc' },
+  particle_emerald:  { name: 'shop.particleEmerald',  description: 'shop.particleEmeraldDesc' },
+  particle_rainbow:  { name: 'shop.particleRainbow',  description: 'shop.particleRainbowDesc' },
+  particle_dragon:   { name: 'shop.particleDragon',   description: 'shop.particleDragonDesc' },
+  badge_star:        { name: 'shop.badgeStar',        description: 'shop.badgeStarDesc' },
+  badge_moon:        { name: 'shop.badgeMoon',        description: 'shop.badgeMoonDesc' },
+  badge_dragon:      { name: 'shop.badgeDragon',      description: 'shop.badgeDragonDesc' },
+  badge_rainbow:     { name: 'shop.badgeRainbow',     description: 'shop.badgeRainbowDesc' },
+  badge_fairy:       { name: 'shop.badgeFairy',       description: 'shop.badgeFairyDesc' },
+};
+
+/** An item's name in the app language – its catalogue name if untranslated. */
+function itemName(item: ShopItem, t: UseAppLanguageReturn['t']): string {
+  return ITEM_TEXT[item.id] ? t(ITEM_TEXT[item.id].name) : item.name;
+}
+
+function itemDescription(item: ShopItem, t: UseAppLanguageReturn['t']): string {
+  return ITEM_TEXT[item.id] ? t(ITEM_TEXT[item.id].description) : item.description;
+}
+
 // ─── Shimmer animation ─────────────────────────────────────────────────────────
 function ShimmerOverlay() {
   const shimmerX = useSharedValue(-W);
@@ -110,6 +135,7 @@ const shimmerStyles = StyleSheet.create({
 
 // ─── Star-Seeker Free Card ─────────────────────────────────────────────────────
 function FreeCard({ isCurrentPlan }: { isCurrentPlan: boolean }) {
+  const { t } = useAppLanguage();
   const opacity = useSharedValue(0);
   const translateY = useSharedValue(30);
 
@@ -142,14 +168,14 @@ function FreeCard({ isCurrentPlan }: { isCurrentPlan: boolean }) {
           <Text style={planStyles.freeEmoji}>🌙</Text>
           <View>
             <Text style={planStyles.freePlanName}>Star-Seeker</Text>
-            <Text style={planStyles.freeTagline}>Your journey begins here.</Text>
+            <Text style={planStyles.freeTagline}>{t('shop.freeTagline')}</Text>
           </View>
         </View>
 
         {/* Price */}
         <View style={planStyles.priceRow}>
-          <Text style={planStyles.freePrice}>Free</Text>
-          <Text style={planStyles.freePriceSub}>always</Text>
+          <Text style={planStyles.freePrice}>{t('shop.free')}</Text>
+          <Text style={planStyles.freePriceSub}>{t('shop.always')}</Text>
         </View>
 
         <View style={planStyles.divider} />
@@ -159,7 +185,7 @@ function FreeCard({ isCurrentPlan }: { isCurrentPlan: boolean }) {
           {FREE_FEATURES.map((f) => (
             <View key={f.label} style={planStyles.featureRow}>
               <Text style={planStyles.featureEmoji}>{f.emoji}</Text>
-              <Text style={planStyles.freeFeatureText}>{f.label}</Text>
+              <Text style={planStyles.freeFeatureText}>{t(f.label)}</Text>
             </View>
           ))}
         </View>
@@ -167,7 +193,7 @@ function FreeCard({ isCurrentPlan }: { isCurrentPlan: boolean }) {
         {/* Current plan indicator */}
         {isCurrentPlan && (
           <View style={planStyles.currentPlanBadge}>
-            <Text style={planStyles.currentPlanText}>✓ Current Plan</Text>
+            <Text style={planStyles.currentPlanText}>{t('shop.currentPlan')}</Text>
           </View>
         )}
       </View>
@@ -187,6 +213,7 @@ function ProCard({
   isLoading: boolean;
   productPrice: string;
 }) {
+  const { t } = useAppLanguage();
   const opacity = useSharedValue(0);
   const translateY = useSharedValue(30);
   const borderGlow = useSharedValue(0.4);
@@ -248,7 +275,7 @@ function ProCard({
           end={{ x: 1, y: 0 }}
           style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
         />
-        <Text style={planStyles.valueBadgeText}>✦ Most Magical</Text>
+        <Text style={planStyles.valueBadgeText}>{t('shop.mostMagical')}</Text>
       </View>
 
       <Animated.View style={[planStyles.proCard, borderStyle]}>
@@ -272,14 +299,14 @@ function ProCard({
           <Text style={planStyles.proEmoji}>🌌</Text>
           <View>
             <Text style={planStyles.proPlanName}>Galaxy-Traveler</Text>
-            <Text style={planStyles.proTagline}>Unlock the entire universe.</Text>
+            <Text style={planStyles.proTagline}>{t('shop.proTagline')}</Text>
           </View>
         </View>
 
         {/* Price */}
         <View style={planStyles.priceRow}>
           <Text style={planStyles.proPrice}>{productPrice}</Text>
-          <Text style={planStyles.proPriceSub}>/month</Text>
+          <Text style={planStyles.proPriceSub}>{t('shop.perMonth')}</Text>
         </View>
 
         <View style={[planStyles.divider, { borderColor: 'rgba(255,215,0,0.25)' }]} />
@@ -289,7 +316,7 @@ function ProCard({
           {PRO_FEATURES.map((f) => (
             <View key={f.label} style={planStyles.featureRow}>
               <Text style={planStyles.featureEmoji}>{f.emoji}</Text>
-              <Text style={planStyles.proFeatureText}>{f.label}</Text>
+              <Text style={planStyles.proFeatureText}>{t(f.label)}</Text>
             </View>
           ))}
         </View>
@@ -297,7 +324,7 @@ function ProCard({
         {/* Upgrade / Current Plan button */}
         {isCurrentPlan ? (
           <View style={planStyles.currentProBadge}>
-            <Text style={planStyles.currentProText}>✦ Galaxy-Traveler Active</Text>
+            <Text style={planStyles.currentProText}>{t('shop.proActive')}</Text>
           </View>
         ) : (
           <Animated.View style={[planStyles.upgradeBtnWrapper, btnStyle]}>
@@ -316,7 +343,7 @@ function ProCard({
               {isLoading ? (
                 <ActivityIndicator color={Colors.deepSpace} size="small" />
               ) : (
-                <Text style={planStyles.upgradeBtnText}>✦ Unlock Galaxy-Traveler</Text>
+                <Text style={planStyles.upgradeBtnText}>{t('shop.unlockPro')}</Text>
               )}
             </TouchableOpacity>
           </Animated.View>
@@ -517,6 +544,7 @@ const planStyles = StyleSheet.create({
 
 // ─── Animated Stardust Counter ────────────────────────────────────────────────
 function StardustCounter({ balance }: { balance: number }) {
+  const { t } = useAppLanguage();
   const scale = useSharedValue(1);
   const glow  = useSharedValue(0);
 
@@ -545,7 +573,7 @@ function StardustCounter({ balance }: { balance: number }) {
         />
         <Text style={counter.star}>⭐</Text>
         <Text style={counter.amount}>{balance}</Text>
-        <Text style={counter.label}>Stardust</Text>
+        <Text style={counter.label}>{t('shop.stardust')}</Text>
       </Animated.View>
     </View>
   );
@@ -595,6 +623,7 @@ function ShopItemCard({
   onBuy: (item: ShopItem) => void;
   delay: number;
 }) {
+  const { t } = useAppLanguage();
   const opacity    = useSharedValue(0);
   const translateY = useSharedValue(24);
   const pulseAnim  = useSharedValue(1);
@@ -635,13 +664,13 @@ function ShopItemCard({
 
       {isUnlocked && (
         <View style={shopStyles.unlockedBadge}>
-          <Text style={shopStyles.unlockedBadgeText}>✓ Owned</Text>
+          <Text style={shopStyles.unlockedBadgeText}>{t('shop.owned')}</Text>
         </View>
       )}
 
       <Text style={shopStyles.cardEmoji}>{item.emoji}</Text>
-      <Text style={shopStyles.cardName}>{item.name}</Text>
-      <Text style={shopStyles.cardDesc} numberOfLines={2}>{item.description}</Text>
+      <Text style={shopStyles.cardName}>{itemName(item, t)}</Text>
+      <Text style={shopStyles.cardDesc} numberOfLines={2}>{itemDescription(item, t)}</Text>
 
       {item.color && !isUnlocked && (
         <View style={[shopStyles.colorDot, { backgroundColor: item.color }]} />
@@ -658,7 +687,7 @@ function ShopItemCard({
         activeOpacity={0.8}
       >
         {isUnlocked ? (
-          <Text style={shopStyles.buyBtnTextOwned}>✨ Unlocked</Text>
+          <Text style={shopStyles.buyBtnTextOwned}>{t('shop.unlocked')}</Text>
         ) : (
           <>
             <Text style={[shopStyles.buyBtnStar, !canAfford && { opacity: 0.5 }]}>⭐</Text>
@@ -740,6 +769,7 @@ const shopStyles = StyleSheet.create({
 
 // ─── Purchase Error Modal ──────────────────────────────────────────────────────
 function PurchaseErrorModal({ message, onClose }: { message: string; onClose: () => void }) {
+  const { t } = useAppLanguage();
   return (
     <Modal visible transparent animationType="fade" onRequestClose={onClose}>
       <View style={errorModal.overlay}>
@@ -751,10 +781,10 @@ function PurchaseErrorModal({ message, onClose }: { message: string; onClose: ()
             colors={['rgba(255,107,107,0.15)', 'rgba(14,8,32,0.9)']}
             style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
           />
-          <Text style={errorModal.title}>⚠️ Purchase Failed</Text>
+          <Text style={errorModal.title}>{t('shop.purchaseFailed')}</Text>
           <Text style={errorModal.message}>{message}</Text>
           <TouchableOpacity style={errorModal.btn} onPress={onClose} activeOpacity={0.8}>
-            <Text style={errorModal.btnText}>OK</Text>
+            <Text style={errorModal.btnText}>{t('shop.ok')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -811,6 +841,7 @@ const errorModal = StyleSheet.create({
 export default function StardustShopScreen() {
   const router  = useRouter();
   const insets  = useSafeAreaInsets();
+  const { language, t } = useAppLanguage();
   const {
     isPremium,
     isLoading: adaptyLoading,
@@ -863,6 +894,18 @@ export default function StardustShopScreen() {
     setUnlockedItems(unlocked);
     setHistory(hist);
     setIsLoading(false);
+
+    // Refresh from the cloud ledger, then show the server balance
+    if (await syncStardust()) {
+      const [freshBal, freshUnlocked, freshHist] = await Promise.all([
+        getStardustBalance(),
+        getUnlockedItems(),
+        getStardustHistory(),
+      ]);
+      setBalance(freshBal);
+      setUnlockedItems(freshUnlocked);
+      setHistory(freshHist);
+    }
   };
 
   const breatheStyle = useAnimatedStyle(() => ({
@@ -892,7 +935,7 @@ export default function StardustShopScreen() {
         }, 2800);
       }
     } catch {
-      setErrorMessage('Something went wrong. Please try again.');
+      setErrorMessage(t('shop.genericError'));
       setShowErrorModal(true);
     } finally {
       setIsPurchasing(false);
@@ -904,38 +947,44 @@ export default function StardustShopScreen() {
     const restored = await restorePurchases();
     if (restored) {
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert('✨ Restored', 'Galaxy-Traveler subscription restored successfully!');
+      Alert.alert(t('shop.restoredTitle'), t('shop.restored'));
     } else {
-      Alert.alert('No Purchase Found', 'No active subscription was found to restore.');
+      Alert.alert(t('shop.noPurchaseTitle'), t('shop.noPurchase'));
     }
   };
 
   const handleBuy = useCallback(async (item: ShopItem) => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const name = itemName(item, t);
     Alert.alert(
-      `Unlock ${item.name}?`,
-      `Spend ${item.cost} ⭐ Stardust to unlock "${item.name}"?`,
+      t('shop.unlockTitle', { name }),
+      t('shop.unlockMessage', { cost: item.cost, name }),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: `Unlock for ${item.cost} ⭐`,
+          text: t('shop.unlockFor', { cost: item.cost }),
           onPress: async () => {
-            const result = await spendStardust(item.cost, `Unlocked ${item.name}`);
+            const result = await purchaseShopItem(item);
             if (result.success) {
-              await unlockItem(item.id);
               setBalance(result.newBalance);
               setUnlockedItems((prev) => [...prev, item.id]);
               void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-              Alert.alert('✨ Unlocked!', `${item.emoji} ${item.name} is now yours!`);
+              Alert.alert(t('shop.unlockedTitle'), t('shop.unlockedMessage', { emoji: item.emoji, name }));
+            } else if (result.failure === 'offline') {
+              void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+              Alert.alert(t('shop.offlineTitle'), t('shop.offline'));
+            } else if (result.failure === 'declined') {
+              void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+              Alert.alert(t('shop.declinedTitle'), t('shop.declined', { name }));
             } else {
               void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-              Alert.alert('Not enough Stardust', `You need ${item.cost} ⭐ but only have ${balance} ⭐. Complete more stories to earn more!`);
+              Alert.alert(t('shop.notEnoughTitle'), t('shop.notEnough', { cost: item.cost, balance }));
             }
           },
         },
       ]
     );
-  }, [balance]);
+  }, [balance, t]);
 
   const headerStyle  = useAnimatedStyle(() => ({ opacity: headerAnim.value, transform: [{ translateY: (1 - headerAnim.value) * -20 }] }));
   const balanceStyle = useAnimatedStyle(() => ({ opacity: balanceAnim.value, transform: [{ scale: 0.8 + balanceAnim.value * 0.2 }] }));
@@ -987,24 +1036,24 @@ export default function StardustShopScreen() {
         {/* Header */}
         <Animated.View style={[styles.header, headerStyle]}>
           <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>✨ Stardust Shop</Text>
+          <Text style={styles.headerTitle}>{t('shop.title')}</Text>
           <View style={{ width: 60 }} />
         </Animated.View>
 
         {/* Balance */}
         <Animated.View style={[styles.balanceSection, balanceStyle]}>
           <StardustCounter balance={balance} />
-          <Text style={styles.balanceHint}>Earn by completing stories & reflections</Text>
+          <Text style={styles.balanceHint}>{t('shop.balanceHint')}</Text>
         </Animated.View>
 
         {/* Tabs */}
         <View style={styles.tabs}>
           {([
-            { id: 'plans',   label: '🌌 Galaxy Plans' },
-            { id: 'shop',    label: '✨ Stardust' },
-            { id: 'history', label: '📜 History' },
+            { id: 'plans',   label: t('shop.tabPlans') },
+            { id: 'shop',    label: t('shop.tabShop') },
+            { id: 'history', label: t('shop.tabHistory') },
           ] as const).map((tab) => (
             <TouchableOpacity
               key={tab.id}
@@ -1026,8 +1075,8 @@ export default function StardustShopScreen() {
           <View style={styles.plansSection}>
             {/* Section headline */}
             <View style={styles.planHeadline}>
-              <Text style={styles.planTitle}>Premium Stars</Text>
-              <Text style={styles.planSubtitle}>Choose your cosmic journey</Text>
+              <Text style={styles.planTitle}>{t('shop.plansTitle')}</Text>
+              <Text style={styles.planSubtitle}>{t('shop.plansSubtitle')}</Text>
             </View>
 
             {/* Pro card first (highlighted) */}
@@ -1043,13 +1092,11 @@ export default function StardustShopScreen() {
 
             {/* Restore */}
             <TouchableOpacity style={styles.restoreBtn} onPress={() => void handleRestore()} activeOpacity={0.7}>
-              <Text style={styles.restoreBtnText}>Restore Purchases</Text>
+              <Text style={styles.restoreBtnText}>{t('shop.restore')}</Text>
             </TouchableOpacity>
 
             {/* Fine print */}
-            <Text style={styles.finePrint}>
-              Subscription auto-renews monthly. Cancel anytime in your account settings.
-            </Text>
+            <Text style={styles.finePrint}>{t('shop.finePrint')}</Text>
           </View>
         )}
 
@@ -1062,12 +1109,12 @@ export default function StardustShopScreen() {
                 colors={['rgba(255,215,0,0.08)', 'rgba(255,215,0,0.02)']}
                 style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
               />
-              <Text style={styles.earnTitle}>How to Earn ⭐ Stardust</Text>
+              <Text style={styles.earnTitle}>{t('shop.earnTitle')}</Text>
               <View style={styles.earnRows}>
                 {[
-                  { emoji: '📖', label: 'Complete a story', amount: '+10' },
-                  { emoji: '🌿', label: 'Answer a reflection', amount: '+5' },
-                  { emoji: '🎯', label: 'Interactive adventure', amount: '+15' },
+                  { emoji: '📖', label: t('shop.earnStory'),       amount: '+10' },
+                  { emoji: '🌿', label: t('shop.earnReflection'),  amount: '+5' },
+                  { emoji: '🎯', label: t('shop.earnInteractive'), amount: '+15' },
                 ].map((row) => (
                   <View key={row.label} style={styles.earnRow}>
                     <Text style={styles.earnRowEmoji}>{row.emoji}</Text>
@@ -1079,8 +1126,8 @@ export default function StardustShopScreen() {
             </View>
 
             {/* Particle Colors */}
-            <Text style={styles.sectionTitle}>✨ Magic Dust Colours</Text>
-            <Text style={styles.sectionSubtitle}>Customise the sparkles in your stories</Text>
+            <Text style={styles.sectionTitle}>{t('shop.particlesTitle')}</Text>
+            <Text style={styles.sectionSubtitle}>{t('shop.particlesSubtitle')}</Text>
             <View style={styles.grid}>
               {particleItems.map((item, i) => (
                 <ShopItemCard
@@ -1095,8 +1142,8 @@ export default function StardustShopScreen() {
             </View>
 
             {/* Badges */}
-            <Text style={[styles.sectionTitle, { marginTop: Spacing.xl }]}>🏅 Profile Badges</Text>
-            <Text style={styles.sectionSubtitle}>Show off your adventures</Text>
+            <Text style={[styles.sectionTitle, { marginTop: Spacing.xl }]}>{t('shop.badgesTitle')}</Text>
+            <Text style={styles.sectionSubtitle}>{t('shop.badgesSubtitle')}</Text>
             <View style={styles.grid}>
               {badgeItems.map((item, i) => (
                 <ShopItemCard
@@ -1118,9 +1165,7 @@ export default function StardustShopScreen() {
             {history.length === 0 ? (
               <View style={styles.emptyHistory}>
                 <Text style={styles.emptyHistoryEmoji}>⭐</Text>
-                <Text style={styles.emptyHistoryText}>
-                  No Stardust earned yet.{'\n'}Complete a story to start!
-                </Text>
+                <Text style={styles.emptyHistoryText}>{t('shop.historyEmpty')}</Text>
               </View>
             ) : (
               history.map((txn, i) => (
@@ -1132,7 +1177,7 @@ export default function StardustShopScreen() {
                   <View style={styles.historyInfo}>
                     <Text style={styles.historyReason}>{txn.reason}</Text>
                     <Text style={styles.historyDate}>
-                      {new Date(txn.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      {new Date(txn.date).toLocaleDateString(language, { month: 'short', day: 'numeric', year: 'numeric' })}
                     </Text>
                   </View>
                   <Text style={[
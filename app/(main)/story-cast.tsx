@@ -0,0 +1,444 @@
+/**
+ * Story Cast
+ *
+ * The active child's recurring characters. Parents add companions by hand or
+ * let Newell AI invent one from an idea, edit how they look and behave, and
+ * remove them. create-story offers the cast as "who's in tonight's story".
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Platform,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@fastshot/auth';
+import StarField from '@/components/StarField';
+import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import {
+  addCharacter,
+  deleteCharacter,
+  getCharacters,
+  inventCharacter,
+  updateCharacter,
+  MAX_CAST_SIZE,
+  type CharacterDraft,
+} from '@/lib/characters';
+import type { StoryCharacter } from '@/lib/supabase';
+import { useActiveChild } from '@/hooks/useActiveChild';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+import type { StringKey } from '@/lib/i18n';
+
+const EMPTY_DRAFT: CharacterDraft = { name: '', species: '', personality: '', appearance: '', emoji: '✨' };
+
+const DRAFT_FIELDS: { key: keyof CharacterDraft; label: StringKey; placeholder: StringKey; multiline?: boolean }[] = [
+  { key: 'name',        label: 'cast.name',        placeholder: 'cast.namePlaceholder' },
+  { key: 'species',     label: 'cast.species',     placeholder: 'cast.speciesPlaceholder' },
+  { key: 'personality', label: 'cast.personality', placeholder: 'cast.personalityPlaceholder', multiline: true },
+  { key: 'appearance',  label: 'cast.appearance',  placeholder: 'cast.appearancePlaceholder', multiline: true },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Character card
+// ─────────────────────────────────────────────────────────────────────────────
+function CharacterCard({
+  character,
+  onEdit,
+  onDelete,
+}: {
+  character: StoryCharacter;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const { t } = useAppLanguage();
+  return (
+    <TouchableOpacity style={styles.card} onPress={onEdit} activeOpacity={0.85}>
+      <Text style={styles.cardEmoji}>{character.emoji}</Text>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.cardName}>
+          {character.name}
+          {character.species ? <Text style={styles.cardSpecies}>  {t('cast.speciesLine', { species: character.species })}</Text> : null}
+        </Text>
+        {character.personality ? <Text style={styles.cardLine}>{character.personality}</Text> : null}
+        {character.appearance ? <Text style={styles.cardLooks}>👀 {character.appearance}</Text> : null}
+      </View>
+      <TouchableOpacity onPress={onDelete} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+        <Text style={styles.cardDelete}>✕</Text>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Screen
+// ─────────────────────────────────────────────────────────────────────────────
+export default function StoryCastScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { activeChild } = useActiveChild();
+  const { t } = useAppLanguage();
+
+  const [cast,       setCast]       = useState<StoryCharacter[]>([]);
+  const [draft,      setDraft]      = useState<CharacterDraft | null>(null);
+  const [editingId,  setEditingId]  = useState<string | null>(null);
+  const [idea,       setIdea]       = useState('');
+  const [isInventing, setIsInventing] = useState(false);
+  const [draftSource, setDraftSource] = useState<StoryCharacter['created_by']>('parent');
+
+  const loadCast = useCallback(async () => {
+    setCast(activeChild ? await getCharacters(activeChild.id) : []);
+  }, [activeChild]);
+
+  // The cast belongs to the active child – reload on every switch
+  useEffect(() => {
+    void loadCast();
+  }, [loadCast]);
+
+  const isFull = cast.length >= MAX_CAST_SIZE;
+
+  const startNew = useCallback(() => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingId(null);
+    setDraftSource('parent');
+    setDraft(EMPTY_DRAFT);
+  }, []);
+
+  const startEdit = useCallback((character: StoryCharacter) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingId(character.id);
+    setDraft({
+      name:        character.name,
+      species:     character.species,
+      personality: character.personality,
+      appearance:  character.appearance,
+      emoji:       character.emoji,
+    });
+  }, []);
+
+  const handleInvent = useCallback(async () => {
+    if (!activeChild || isInventing) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsInventing(true);
+    try {
+      const invented = await inventCharacter(activeChild, idea);
+      setEditingId(null);
+      setDraftSource('ai');
+      setDraft(invented);
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      console.warn('[StoryCast] Invent failed:', err);
+      Alert.alert(t('cast.inventFailedTitle'), t('cast.inventFailed'));
+    } finally {
+      setIsInventing(false);
+    }
+  }, [activeChild, idea, isInventing, t]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft || !activeChild) return;
+    if (!draft.name.trim()) {
+      Alert.alert(t('cast.nameNeededTitle'), t('cast.nameNeeded'));
+      return;
+    }
+    if (editingId) {
+      await updateCharacter(editingId, draft, user?.id);
+    } else {
+      const saved = await addCharacter({
+        userId:    user?.id,
+        child:     activeChild,
+        draft,
+        createdBy: draftSource,
+      });
+      if (!saved) {
+        Alert.alert(t('cast.fullTitle'), t('cast.fullMessage', { max: MAX_CAST_SIZE }));
+        return;
+      }
+    }
+    void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setDraft(null);
+    setEditingId(null);
+    setIdea('');
+    await loadCast();
+  }, [activeChild, draft, draftSource, editingId, loadCast, user?.id, t]);
+
+  const handleDelete = useCallback((character: StoryCharacter) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      t('cast.removeTitle', { name: character.name }),
+      t('cast.removeMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('cast.remove'),
+          style: 'destructive',
+          onPress: async () => {
+            await deleteCharacter(character.id, user?.id);
+            if (editingId === character.id) setDraft(null);
+            await loadCast();
+          },
+        },
+      ]
+    );
+  }, [editingId, loadCast, user?.id, t]);
+
+  const childName = activeChild?.name ?? t('cast.yourChild');
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#0D0E24', '#1A1B41', '#2A1150']}
+        locations={[0, 0.5, 1]}
+        style={StyleSheet.absoluteFill}
+      />
+      <StarField count={40} />
+
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView
+          contentContainerStyle={[
+            styles.scroll,
+            { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 40 },
+          ]}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <View style={styles.headerRow}>
+            <TouchableOpacity
+              style={styles.backBtn}
+              onPress={() => {
+                void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.back();
+              }}
+            >
+              <Text style={styles.backText}>{t('common.back')}</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>{t('cast.title')}</Text>
+            <View style={{ width: 60 }} />
+          </View>
+
+          <Text style={styles.intro}>{t('cast.intro', { name: childName })}</Text>
+
+          {cast.map((character) => (
+            <CharacterCard
+              key={character.id}
+              character={character}
+              onEdit={() => startEdit(character)}
+              onDelete={() => handleDelete(character)}
+            />
+          ))}
+
+          {cast.length === 0 && !draft && (
+            <Text style={styles.emptyText}>{t('cast.empty')}</Text>
+          )}
+
+          {/* Editor */}
+          {draft ? (
+            <View style={styles.editor}>
+              <Text style={styles.editorTitle}>{editingId ? t('cast.editTitle') : t('cast.newTitle')}</Text>
+              <View style={styles.emojiRow}>
+                <Text style={styles.fieldLabel}>{t('cast.emoji')}</Text>
+                <TextInput
+                  style={[styles.input, styles.emojiInput]}
+                  value={draft.emoji}
+                  onChangeText={(emoji) => setDraft({ ...draft, emoji })}
+                  maxLength={4}
+                />
+              </View>
+              {DRAFT_FIELDS.map((field) => (
+                <View key={field.key}>
+                  <Text style={styles.fieldLabel}>{t(field.label)}</Text>
+                  <TextInput
+                    style={[styles.input, field.multiline && styles.inputMultiline]}
+                    value={draft[field.key]}
+                    onChangeText={(value) => setDraft({ ...draft, [field.key]: value })}
+                    placeholder={t(field.placeholder)}
+                    placeholderTextColor="rgba(240,235,248,0.30)"
+                    multiline={field.multiline}
+                  />
+                </View>
+              ))}
+              <View style={styles.editorActions}>
+                <TouchableOpacity onPress={() => { setDraft(null); setEditingId(null); }}>
+                  <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveBtn} onPress={() => void handleSave()} activeOpacity={0.85}>
+                  <LinearGradient
+                    colors={[Colors.celestialGold, Colors.softGold]}
+                    style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
+                  />
+                  <Text style={styles.saveText}>{t('cast.save')}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : !isFull && (
+            <>
+              <TouchableOpacity style={styles.addBtn} onPress={startNew} activeOpacity={0.85}>
+                <Text style={styles.addText}>{t('cast.add')}</Text>
+              </TouchableOpacity>
+
+              <View style={styles.editor}>
+                <Text style={styles.editorTitle}>{t('cast.inventTitle')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={idea}
+                  onChangeText={setIdea}
+                  placeholder={t('cast.ideaPlaceholder')}
+                  placeholderTextColor="rgba(240,235,248,0.30)"
+                />
+                <TouchableOpacity
+                  style={[styles.saveBtn, isInventing && { opacity: 0.6 }]}
+                  onPress={() => void handleInvent()}
+                  disabled={isInventing || !activeChild}
+                  activeOpacity={0.85}
+                >
+                  <LinearGradient
+                    colors={['#9B6FDE', '#6B48B8']}
+                    style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
+                  />
+                  {isInventing
+                    ? <ActivityIndicator color="#FFFFFF" />
+                    : <Text style={[styles.saveText, { color: '#FFFFFF' }]}>{t('cast.invent')}</Text>}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          {isFull && !draft && (
+            <Text style={styles.emptyText}>{t('cast.full', { max: MAX_CAST_SIZE })}</Text>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Styles
+// ─────────────────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.deepSpace },
+  scroll:    { paddingHorizontal: Spacing.lg },
+
+  headerRow: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'space-between',
+    marginBottom:   Spacing.lg,
+  },
+  backBtn:     { paddingVertical: 8, minWidth: 60 },
+  backText:    { fontFamily: Fonts.medium, fontSize: 14, color: Colors.textMuted },
+  headerTitle: {
+    fontFamily:    Fonts.extraBold,
+    fontSize:      20,
+    color:         Colors.moonlightCream,
+    letterSpacing: 0.3,
+  },
+
+  intro: {
+    fontFamily:   Fonts.regular,
+    fontSize:     13,
+    lineHeight:   19,
+    color:        Colors.textMuted,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    fontFamily:     Fonts.medium,
+    fontSize:       13,
+    color:          Colors.textMuted,
+    textAlign:      'center',
+    marginVertical: Spacing.md,
+  },
+
+  // Character card
+  card: {
+    flexDirection:   'row',
+    alignItems:      'flex-start',
+    gap:             Spacing.sm,
+    padding:         Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Colors.glassWhite,
+    marginBottom:    Spacing.sm,
+  },
+  cardEmoji:   { fontSize: 28 },
+  cardName:    { fontFamily: Fonts.extraBold, fontSize: 15, color: Colors.moonlightCream },
+  cardSpecies: { fontFamily: Fonts.medium, fontSize: 12, color: Colors.softBlue },
+  cardLine:    { fontFamily: Fonts.regular, fontSize: 12, color: 'rgba(240,235,248,0.75)', marginTop: 2 },
+  cardLooks:   { fontFamily: Fonts.regular, fontSize: 12, color: Colors.textMuted, marginTop: 4 },
+  cardDelete:  { fontFamily: Fonts.bold, fontSize: 14, color: Colors.textMuted },
+
+  // Editor
+  editor: {
+    borderRadius:    Radius.xl,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Platform.OS === 'ios' ? 'rgba(13,14,36,0.6)' : 'rgba(26,27,65,0.92)',
+    padding:         Spacing.md,
+    marginTop:       Spacing.md,
+    gap:             Spacing.sm,
+  },
+  editorTitle: { fontFamily: Fonts.extraBold, fontSize: 15, color: Colors.moonlightCream },
+  emojiRow:    { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+  fieldLabel: {
+    fontFamily:    Fonts.bold,
+    fontSize:      11,
+    color:         Colors.textMuted,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+    marginBottom:  4,
+  },
+  input: {
+    borderRadius:      Radius.md,
+    borderWidth:       1,
+    borderColor:       'rgba(255,255,255,0.14)',
+    backgroundColor:   'rgba(255,255,255,0.06)',
+    paddingHorizontal: 12,
+    paddingVertical:   10,
+    fontFamily:        Fonts.medium,
+    fontSize:          14,
+    color:             '#FFFFFF',
+  },
+  inputMultiline: { minHeight: 64, textAlignVertical: 'top' },
+  emojiInput:     { width: 56, textAlign: 'center', fontSize: 20, paddingVertical: 6 },
+  editorActions: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'flex-end',
+    gap:            Spacing.md,
+    marginTop:      Spacing.xs,
+  },
+  cancelText: { fontFamily: Fonts.medium, fontSize: 13, color: Colors.textMuted },
+  saveBtn: {
+    height:            44,
+    minWidth:          120,
+    paddingHorizontal: Spacing.lg,
+    borderRadius:      Radius.full,
+    alignItems:        'center',
+    justifyContent:    'center',
+    overflow:          'hidden',
+  },
+  saveText: { fontFamily: Fonts.extraBold, fontSize: 14, color: Colors.deepSpace },
+
+  addBtn: {
+    marginTop:       Spacing.sm,
+    paddingVertical: Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderStyle:     'dashed',
+    borderColor:     'rgba(255,255,255,0.22)',
+    alignItems:      'center',
+  },
+  addText: { fontFamily: Fonts.bold, fontSize: 14, color: Colors.celestialGold },
+});
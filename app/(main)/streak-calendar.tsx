@@ -0,0 +1,495 @@
+/**
+ * Streak Calendar
+ *
+ * The active child's bedtime streak night by night: a month grid of story
+ * nights (🔥) and frozen nights (❄️), current and longest streaks, streak
+ * freezes bought with stardust, and the bedtime window that decides which
+ * night a late story counts for.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BlurView } from 'expo-blur';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+  withDelay,
+} from 'react-native-reanimated';
+import StarField from '@/components/StarField';
+import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import {
+  getStreakLog,
+  getStreakSummary,
+  getBedtimeWindowEnd,
+  setBedtimeWindowEnd,
+  buyStreakFreeze,
+  nightKeyFor,
+  BEDTIME_WINDOW_END_OPTIONS,
+  MAX_STREAK_FREEZES,
+  type StreakLog,
+  type StreakSummary,
+} from '@/lib/streak';
+import { getStardustBalance, STREAK_FREEZE_ITEM } from '@/lib/stardust';
+import { useActiveChild } from '@/hooks/useActiveChild';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+function monthCells(year: number, month: number): (string | null)[] {
+  const first = new Date(year, month, 1).getDay();
+  const days  = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = Array.from({ length: first }, () => null);
+  for (let d = 1; d <= days; d++) {
+    cells.push(`${year}-${String(month + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`);
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+  return cells;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Screen
+// ─────────────────────────────────────────────────────────────────────────────
+export default function StreakCalendarScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { activeChild } = useActiveChild();
+  const { language, t } = useAppLanguage();
+
+  const [log,        setLog]        = useState<StreakLog | null>(null);
+  const [summary,    setSummary]    = useState<StreakSummary | null>(null);
+  const [windowEnd,  setWindowEnd]  = useState(4);
+  const [balance,    setBalance]    = useState(0);
+  const [isBuying,   setIsBuying]   = useState(false);
+  const [monthStart, setMonthStart] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const contentOpacity = useSharedValue(0);
+
+  const loadData = useCallback(async () => {
+    const [l, s, w, b] = await Promise.all([
+      getStreakLog(),
+      getStreakSummary(),
+      getBedtimeWindowEnd(),
+      getStardustBalance(),
+    ]);
+    setLog(l);
+    setSummary(s);
+    setWindowEnd(w);
+    setBalance(b);
+  }, []);
+
+  useEffect(() => {
+    contentOpacity.value = withDelay(150, withTiming(1, { duration: 600 }));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Streaks belong to the active child – reload on every switch
+  useEffect(() => {
+    void loadData();
+  }, [activeChild?.id, loadData]);
+
+  const tonight = nightKeyFor(new Date(), windowEnd);
+  const storyNights  = useMemo(() => new Set(log?.nights ?? []), [log]);
+  const frozenNights = useMemo(() => new Set(log?.frozen ?? []), [log]);
+  const cells = useMemo(
+    () => monthCells(monthStart.getFullYear(), monthStart.getMonth()),
+    [monthStart],
+  );
+  const monthNights = cells.filter((c) => c && storyNights.has(c)).length;
+
+  const shiftMonth = useCallback((delta: number) => {
+    void Haptics.selectionAsync();
+    setMonthStart((prev) => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  }, []);
+
+  const handleWindowEnd = useCallback(async (hour: number) => {
+    if (hour === windowEnd) return;
+    void Haptics.selectionAsync();
+    setWindowEnd(hour);
+    await setBedtimeWindowEnd(hour);
+    setSummary(await getStreakSummary());
+  }, [windowEnd]);
+
+  const handleBuyFreeze = useCallback(() => {
+    if (isBuying) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      t('streak.buyTitle', { name: t('streak.freezeName') }),
+      t('streak.buyMessage', { cost: STREAK_FREEZE_ITEM.cost }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('streak.buyFor', { cost: STREAK_FREEZE_ITEM.cost }),
+          onPress: async () => {
+            setIsBuying(true);
+            try {
+              const result = await buyStreakFreeze();
+              if (result.success) {
+                void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                await loadData();
+              } else {
+                void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+                if (result.failure === 'max') {
+                  Alert.alert(t('streak.freezerFullTitle'), t('streak.freezerFull', { max: MAX_STREAK_FREEZES }));
+                } else if (result.failure === 'offline') {
+                  Alert.alert(t('streak.offlineTitle'), t('streak.offline'));
+                } else if (result.failure === 'declined') {
+                  Alert.alert(t('streak.declinedTitle'), t('streak.declined'));
+                } else {
+                  Alert.alert(t('streak.notEnoughTitle'), t('streak.notEnough', { cost: STREAK_FREEZE_ITEM.cost }));
+                }
+              }
+            } finally {
+              setIsBuying(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [isBuying, loadData, t]);
+
+  const contentStyle = useAnimatedStyle(() => ({ opacity: contentOpacity.value }));
+
+  const canBuy = (summary?.freezes ?? 0) < MAX_STREAK_FREEZES;
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#0D0E24', '#1A1B41', '#2A1150']}
+        locations={[0, 0.5, 1]}
+        style={StyleSheet.absoluteFill}
+      />
+      <StarField count={40} />
+
+      <ScrollView
+        contentContainerStyle={[
+          styles.scroll,
+          { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 40 },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.backBtn}
+            onPress={() => {
+              void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.back();
+            }}
+          >
+            <Text style={styles.backText}>{t('common.back')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>
+            {activeChild?.name ? t('streak.titleFor', { name: activeChild.name }) : t('streak.title')}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <Animated.View style={contentStyle}>
+          {/* Stats */}
+          <View style={styles.statsRow}>
+            {[
+              { emoji: '🔥', value: summary?.current ?? 0, label: t('streak.current') },
+              { emoji: '🏆', value: summary?.longest ?? 0, label: t('streak.longest') },
+              { emoji: '❄️', value: summary?.freezes ?? 0, label: t('streak.freezes') },
+            ].map((stat) => (
+              <View key={stat.label} style={styles.statCard}>
+                {Platform.OS === 'ios' && (
+                  <BlurView intensity={12} tint="dark" style={StyleSheet.absoluteFill} />
+                )}
+                <Text style={styles.statEmoji}>{stat.emoji}</Text>
+                <Text style={styles.statValue}>{stat.value}</Text>
+                <Text style={styles.statLabel}>{stat.label}</Text>
+              </View>
+            ))}
+          </View>
+
+          {summary && summary.pendingFreezes > 0 && (
+            <Text style={styles.pendingNote}>
+              {summary.pendingFreezes === 1
+                ? t('streak.pendingOne')
+                : t('streak.pending', { count: summary.pendingFreezes })}
+            </Text>
+          )}
+          {summary && !summary.tonightLogged && summary.current > 0 && summary.pendingFreezes === 0 && (
+            <Text style={styles.pendingNote}>{t('streak.readTonight')}</Text>
+          )}
+
+          {/* Calendar */}
+          <View style={styles.calendarCard}>
+            {Platform.OS === 'ios' && (
+              <BlurView intensity={15} tint="dark" style={StyleSheet.absoluteFill} />
+            )}
+            <View style={styles.monthRow}>
+              <TouchableOpacity style={styles.monthArrow} onPress={() => shiftMonth(-1)}>
+                <Text style={styles.monthArrowText}>‹</Text>
+              </TouchableOpacity>
+              <View style={styles.monthCenter}>
+                <Text style={styles.monthTitle}>
+                  {monthStart.toLocaleDateString(language, { month: 'long', year: 'numeric' })}
+                </Text>
+                <Text style={styles.monthSub}>
+                  {monthNights === 1 ? t('streak.monthNightsOne') : t('streak.monthNights', { count: monthNights })}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.monthArrow} onPress={() => shiftMonth(1)}>
+                <Text style={styles.monthArrowText}>›</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.weekRow}>
+              {[...t('streak.weekdays')].map((d, i) => (
+                <Text key={`${d}${i}`} style={styles.weekday}>{d}</Text>
+              ))}
+            </View>
+
+            <View style={styles.grid}>
+              {cells.map((key, i) => {
+                const isStory  = key !== null && storyNights.has(key);
+                const isFrozen = key !== null && frozenNights.has(key);
+                const isTonight = key === tonight;
+                return (
+                  <View key={key ?? `blank_${i}`} style={styles.cell}>
+                    {key && (
+                      <View
+                        style={[
+                          styles.cellInner,
+                          isStory  && styles.cellStory,
+                          isFrozen && styles.cellFrozen,
+                          isTonight && styles.cellTonight,
+                        ]}
+                      >
+                        {isStory || isFrozen ? (
+                          <Text style={styles.cellEmoji}>{isStory ? '🔥' : '❄️'}</Text>
+                        ) : (
+                          <Text style={styles.cellDay}>{Number(key.slice(8))}</Text>
+                        )}
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+
+            <View style={styles.legendRow}>
+              <Text style={styles.legendItem}>{t('streak.storyNight')}</Text>
+              <Text style={styles.legendItem}>{t('streak.frozenNight')}</Text>
+            </View>
+          </View>
+
+          {/* Streak freezes */}
+          <View style={styles.freezeCard}>
+            <LinearGradient
+              colors={['rgba(126,200,227,0.14)', 'rgba(126,200,227,0.04)']}
+              style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
+            />
+            <Text style={styles.freezeEmoji}>{STREAK_FREEZE_ITEM.emoji}</Text>
+            <View style={styles.freezeInfo}>
+              <Text style={styles.freezeTitle}>{t('streak.freezeTitle')}</Text>
+              <Text style={styles.freezeText}>
+                {t('streak.freezeText', { max: MAX_STREAK_FREEZES, balance })}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.freezeBtn, (!canBuy || isBuying) && styles.freezeBtnDisabled]}
+              onPress={handleBuyFreeze}
+              disabled={!canBuy || isBuying}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.freezeBtnText}>
+                {canBuy ? `${STREAK_FREEZE_ITEM.cost} ⭐` : t('streak.full')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Bedtime window */}
+          <View style={styles.windowCard}>
+            <Text style={styles.sectionLabel}>{t('streak.windowTitle')}</Text>
+            <Text style={styles.windowHint}>{t('streak.windowHint')}</Text>
+            <View style={styles.windowChips}>
+              {BEDTIME_WINDOW_END_OPTIONS.map((hour) => (
+                <TouchableOpacity
+                  key={hour}
+                  style={[styles.windowChip, windowEnd === hour && styles.windowChipActive]}
+                  onPress={() => void handleWindowEnd(hour)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.windowChipText, windowEnd === hour && styles.windowChipTextActive]}>
+                    {hour === 0 ? t('streak.midnight') : t('streak.hour', { hour })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </Animated.View>
+      </ScrollView>
+    </View>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Styles
+// ─────────────────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.deepSpace },
+  scroll:    { paddingHorizontal: Spacing.lg },
+
+  headerRow: {
+    flexDirection:  'row',
+    alignItems:     'center',
+    justifyContent: 'space-between',
+    marginBottom:   Spacing.lg,
+  },
+  backBtn:     { paddingVertical: 8, minWidth: 60 },
+  backText:    { fontFamily: Fonts.medium, fontSize: 14, color: Colors.textMuted },
+  headerTitle: {
+    fontFamily:    Fonts.extraBold,
+    fontSize:      20,
+    color:         Colors.moonlightCream,
+    letterSpacing: 0.3,
+  },
+
+  // Stats
+  statsRow: { flexDirection: 'row', gap: Spacing.sm, marginBottom: Spacing.md },
+  statCard: {
+    flex:            1,
+    alignItems:      'center',
+    paddingVertical: Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Colors.glassWhite,
+    overflow:        'hidden',
+  },
+  statEmoji: { fontSize: 22, marginBottom: 2 },
+  statValue: { fontFamily: Fonts.black, fontSize: 24, color: '#FFB347' },
+  statLabel: { fontFamily: Fonts.medium, fontSize: 11, color: Colors.textMuted, letterSpacing: 0.3 },
+
+  pendingNote: {
+    fontFamily:   Fonts.medium,
+    fontSize:     12,
+    color:        'rgba(255,200,120,0.85)',
+    textAlign:    'center',
+    marginBottom: Spacing.md,
+  },
+
+  // Calendar
+  calendarCard: {
+    borderRadius:    Radius.xl,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Platform.OS === 'ios' ? 'rgba(13,14,36,0.6)' : 'rgba(26,27,65,0.92)',
+    padding:         Spacing.md,
+    marginBottom:    Spacing.md,
+    overflow:        'hidden',
+  },
+  monthRow:       { flexDirection: 'row', alignItems: 'center', marginBottom: Spacing.sm },
+  monthArrow:     { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  monthArrowText: { fontFamily: Fonts.bold, fontSize: 26, color: Colors.celestialGold },
+  monthCenter:    { flex: 1, alignItems: 'center' },
+  monthTitle:     { fontFamily: Fonts.extraBold, fontSize: 16, color: Colors.moonlightCream },
+  monthSub:       { fontFamily: Fonts.medium, fontSize: 11, color: Colors.textMuted, marginTop: 2 },
+  weekRow:        { flexDirection: 'row', marginBottom: 4 },
+  weekday: {
+    flex:       1,
+    textAlign:  'center',
+    fontFamily: Fonts.bold,
+    fontSize:   11,
+    color:      Colors.textMuted,
+  },
+  grid:      { flexDirection: 'row', flexWrap: 'wrap' },
+  cell:      { width: `${100 / 7}%`, aspectRatio: 1, padding: 3 },
+  cellInner: {
+    flex:            1,
+    alignItems:      'center',
+    justifyContent:  'center',
+    borderRadius:    Radius.sm,
+    backgroundColor: 'rgba(255,255,255,0.03)',
+  },
+  cellStory: {
+    backgroundColor: 'rgba(255,140,0,0.18)',
+    borderWidth:     1,
+    borderColor:     'rgba(255,160,0,0.38)',
+  },
+  cellFrozen: {
+    backgroundColor: 'rgba(126,200,227,0.16)',
+    borderWidth:     1,
+    borderColor:     'rgba(126,200,227,0.38)',
+  },
+  cellTonight: { borderWidth: 1.5, borderColor: Colors.celestialGold },
+  cellEmoji:   { fontSize: 16 },
+  cellDay:     { fontFamily: Fonts.medium, fontSize: 12, color: 'rgba(232,232,240,0.55)' },
+  legendRow:   { flexDirection: 'row', justifyContent: 'center', gap: Spacing.lg, marginTop: Spacing.sm },
+  legendItem:  { fontFamily: Fonts.medium, fontSize: 11, color: Colors.textMuted },
+
+  // Freezes
+  freezeCard: {
+    flexDirection: 'row',
+    alignItems:    'center',
+    gap:           Spacing.sm,
+    padding:       Spacing.md,
+    borderRadius:  Radius.lg,
+    borderWidth:   1,
+    borderColor:   'rgba(126,200,227,0.3)',
+    marginBottom:  Spacing.md,
+    overflow:      'hidden',
+  },
+  freezeEmoji: { fontSize: 28 },
+  freezeInfo:  { flex: 1 },
+  freezeTitle: { fontFamily: Fonts.extraBold, fontSize: 15, color: Colors.moonlightCream },
+  freezeText:  { fontFamily: Fonts.regular, fontSize: 12, color: Colors.textMuted, lineHeight: 17, marginTop: 2 },
+  freezeBtn: {
+    paddingHorizontal: 14,
+    paddingVertical:   8,
+    borderRadius:      Radius.full,
+    backgroundColor:   'rgba(255,215,0,0.16)',
+    borderWidth:       1,
+    borderColor:       Colors.glassBorderGold,
+  },
+  freezeBtnDisabled: { opacity: 0.45 },
+  freezeBtnText:     { fontFamily: Fonts.bold, fontSize: 13, color: Colors.celestialGold },
+
+  // Bedtime window
+  windowCard: {
+    padding:         Spacing.md,
+    borderRadius:    Radius.lg,
+    borderWidth:     1,
+    borderColor:     Colors.glassBorder,
+    backgroundColor: Colors.glassWhite,
+  },
+  sectionLabel: {
+    fontFamily:    Fonts.bold,
+    fontSize:      12,
+    color:         Colors.celestialGold,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  windowHint:  { fontFamily: Fonts.regular, fontSize: 12, color: Colors.textMuted, lineHeight: 17, marginTop: 4 },
+  windowChips: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.sm, marginTop: Spacing.sm },
+  windowChip: {
+    paddingHorizontal: 12,
+    paddingVertical:   7,
+    borderRadius:      Radius.full,
+    borderWidth:       1,
+    borderColor:       Colors.glassBorder,
+  },
+  windowChipActive:     { borderColor: Colors.celestialGold, backgroundColor: Colors.glassGold },
+  windowChipText:       { fontFamily: Fonts.medium, fontSize: 12, color: Colors.textLight },
+  windowChipTextActive: { color: Colors.celestialGold },
+});
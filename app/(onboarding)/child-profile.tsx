@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -10,31 +10,124 @@ import {
   Platform,
   Alert,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useRouter, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '@fastshot/auth';
 import StarField from '@/components/StarField';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
-import { createChild, updateChild, getChildren, isSupabaseAvailable, upsertUserPreferences } from '@/lib/supabase';
+import { createChild, updateChild, getChildren } from '@/lib/supabase';
+import type { Child, ChildInclusion } from '@/lib/supabase';
+import { getActiveChild, getActiveChildId, isSharedChild, setActiveChild } from '@/lib/activeChild';
+import { enqueueMutation } from '@/lib/mutationQueue';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+import type { StringKey } from '@/lib/i18n';
 
-const INTERESTS = [
-  { label: '🦁 Animals', value: 'Animals' },
-  { label: '🚀 Space', value: 'Space' },
-  { label: '✨ Magic', value: 'Magic' },
-  { label: '🗡️ Adventure', value: 'Adventure' },
-  { label: '🐉 Dragons', value: 'Dragons' },
-  { label: '🧚 Fairy Tales', value: 'Fairy Tales' },
-  { label: '🏴‍☠️ Pirates', value: 'Pirates' },
-  { label: '🔬 Science', value: 'Science' },
-  { label: '🦕 Dinosaurs', value: 'Dinosaurs' },
-  { label: '🦸 Superheroes', value: 'Superheroes' },
-  { label: '🌊 Ocean', value: 'Ocean' },
-  { label: '🏔️ Mountains', value: 'Mountains' },
+const INTERESTS: { label: StringKey; value: string }[] = [
+  { label: 'profile.interestAnimals',     value: 'Animals' },
+  { label: 'profile.interestSpace',       value: 'Space' },
+  { label: 'profile.interestMagic',       value: 'Magic' },
+  { label: 'profile.interestAdventure',   value: 'Adventure' },
+  { label: 'profile.interestDragons',     value: 'Dragons' },
+  { label: 'profile.interestFairyTales',  value: 'Fairy Tales' },
+  { label: 'profile.interestPirates',     value: 'Pirates' },
+  { label: 'profile.interestScience',     value: 'Science' },
+  { label: 'profile.interestDinosaurs',   value: 'Dinosaurs' },
+  { label: 'profile.interestSuperheroes', value: 'Superheroes' },
+  { label: 'profile.interestOcean',       value: 'Ocean' },
+  { label: 'profile.interestMountains',   value: 'Mountains' },
 ];
 
+// Stored in English (story prompts read them); shown through FEAR_LABELS
+const COMMON_FEARS = ['The dark', 'Monsters', 'Thunder', 'Water', 'Dogs', 'Spiders', 'Doctors', 'Being alone'];
+
+const FEAR_LABELS: Record<string, StringKey> = {
+  'The dark':    'profile.fearDark',
+  'Monsters':    'profile.fearMonsters',
+  'Thunder':     'profile.fearThunder',
+  'Water':       'profile.fearWater',
+  'Dogs':        'profile.fearDogs',
+  'Spiders':     'profile.fearSpiders',
+  'Doctors':     'profile.fearDoctors',
+  'Being alone': 'profile.fearAlone',
+};
+
+const INCLUSION_KINDS: { kind: ChildInclusion['kind']; label: StringKey; placeholder: StringKey }[] = [
+  { kind: 'pet',     label: 'profile.includePet',     placeholder: 'profile.includePetPlaceholder' },
+  { kind: 'sibling', label: 'profile.includeSibling', placeholder: 'profile.includeSiblingPlaceholder' },
+  { kind: 'comfort', label: 'profile.includeComfort', placeholder: 'profile.includeComfortPlaceholder' },
+  { kind: 'other',   label: 'profile.includeOther',   placeholder: 'profile.includeOtherPlaceholder' },
+];
+
+const INCLUSION_EMOJI: Record<ChildInclusion['kind'], string> = {
+  pet: '🐶', sibling: '👧', comfort: '🧸', other: '💛',
+};
+
+/** Removable chips plus a text field that adds a new entry on submit. */
+function TagListInput({
+  values,
+  onChange,
+  placeholder,
+}: {
+  values: string[];
+  onChange: (next: string[]) => void;
+  placeholder: string;
+}) {
+  const { t } = useAppLanguage();
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const entries = draft.split(',').map((part) => part.trim()).filter(Boolean);
+    const next = [...values];
+    for (const entry of entries) {
+      if (!next.some((v) => v.toLowerCase() === entry.toLowerCase())) next.push(entry);
+    }
+    onChange(next);
+    setDraft('');
+  };
+
+  return (
+    <View>
+      {values.length > 0 && (
+        <View style={[styles.chipsGrid, styles.tagList]}>
+          {values.map((value) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, styles.chipSelected]}
+              onPress={() => onChange(values.filter((v) => v !== value))}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, styles.chipTextSelected]}>{value}</Text>
+              <Text style={styles.chipCheck}>✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      <View style={styles.tagInputRow}>
+        <TextInput
+          style={[styles.input, styles.tagInput]}
+          placeholder={placeholder}
+          placeholderTextColor={Colors.textMuted}
+          value={draft}
+          onChangeText={setDraft}
+          onSubmitEditing={add}
+          returnKeyType="done"
+          maxLength={60}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !draft.trim() && styles.buttonDisabled]}
+          onPress={add}
+          disabled={!draft.trim()}
+        >
+          <Text style={styles.addButtonText}>{t('profile.add')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
 function calculateAge(birthday: Date): number {
   const today = new Date();
   let age = today.getFullYear() - birthday.getFullYear();
@@ -45,37 +138,98 @@ function calculateAge(birthday: Date): number {
   return Math.max(0, age);
 }
 
+/** Apply an edit to the cached profile and queue it for Supabase. */
+async function saveChildEditOffline(userId: string, childId: string, profileData: Partial<Child>) {
+  await enqueueMutation({
+    userId,
+    table:    'child_profiles',
+    op:       'update',
+    recordId: childId,
+    payload:  profileData,
+  });
+  const raw = await AsyncStorage.getItem('sync_child_profiles');
+  const children: Child[] = raw ? JSON.parse(raw) : [];
+  const edited = children.map((c) => (c.id === childId ? { ...c, ...profileData } : c));
+  await AsyncStorage.setItem('sync_child_profiles', JSON.stringify(edited));
+  const current = edited.find((c) => c.id === childId);
+  if (current) await setActiveChild(current);
+}
+
 export default function ChildProfileScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { language, t } = useAppLanguage();
+  // Onboarding (no mode) → first child; 'add' → a sibling; 'edit' → the active child
+  const { mode } = useLocalSearchParams<{ mode?: 'add' | 'edit' }>();
+  const isAdding  = mode === 'add';
+  const isEditing = mode === 'edit';
 
   const [name, setName] = useState('');
   const [birthday, setBirthday] = useState<Date>(new Date(new Date().getFullYear() - 5, 0, 1));
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [lifeNotes, setLifeNotes] = useState('');
+  const [avoidTopics, setAvoidTopics] = useState<string[]>([]);
+  const [fears, setFears] = useState<string[]>([]);
+  const [inclusions, setInclusions] = useState<ChildInclusion[]>([]);
+  const [inclusionKind, setInclusionKind] = useState<ChildInclusion['kind']>('pet');
+  const [inclusionDraft, setInclusionDraft] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
   const age = calculateAge(birthday);
 
+  // Pre-fill the form when editing the active child
+  useEffect(() => {
+    if (!isEditing) return;
+    void (async () => {
+      const child = await getActiveChild();
+      if (!child) return;
+      if (isSharedChild(child, user?.id)) {
+        Alert.alert(t('profile.sharedTitle'), t('profile.sharedText', { name: child.name }));
+        router.back();
+        return;
+      }
+      setName(child.name);
+      if (child.birthday) setBirthday(new Date(child.birthday));
+      setSelectedInterests(child.interests ?? []);
+      setLifeNotes(child.life_notes ?? '');
+      setAvoidTopics(child.avoid_topics ?? []);
+      setFears(child.fears ?? []);
+      setInclusions(child.inclusions ?? []);
+    })();
+  }, [isEditing, user?.id, router, t]);
+
   const toggleInterest = useCallback((value: string) => {
     setSelectedInterests((prev) =>
       prev.includes(value) ? prev.filter((i) => i !== value) : [...prev, value]
     );
   }, []);
 
+  const toggleFear = useCallback((fear: string) => {
+    setFears((prev) =>
+      prev.includes(fear) ? prev.filter((f) => f !== fear) : [...prev, fear]
+    );
+  }, []);
+
+  const addInclusion = () => {
+    const name = inclusionDraft.trim();
+    if (!name) return;
+    setInclusions((prev) => [...prev, { kind: inclusionKind, name }]);
+    setInclusionDraft('');
+  };
+
   const handleSave = async () => {
     if (!name.trim()) {
-      Alert.alert('Missing Name', "Please enter your child's name.");
+      Alert.alert(t('profile.missingNameTitle'), t('profile.missingName'));
       return;
     }
     if (selectedInterests.length === 0) {
-      Alert.alert('Pick Some Interests', 'Select at least one interest to personalise the stories.');
+      Alert.alert(t('profile.pickInterestsTitle'), t('profile.pickInterests'));
       return;
     }
     if (!user?.id) {
-      Alert.alert('Not signed in', 'Please sign in to continue.');
+      Alert.alert(t('profile.notSignedInTitle'), t('profile.notSignedIn'));
       return;
     }
 
@@ -87,40 +241,54 @@ export default function ChildProfileScreen() {
         age,
         interests: selectedInterests,
         life_notes: lifeNotes.trim() || null,
+        avoid_topics: avoidTopics,
+        fears,
+        inclusions,
       };
 
-      // Check if child already exists in cloud to decide create vs update
-      let savedChildId: string | null = null;
-      const existingIdRaw = await AsyncStorage.getItem('active_child_id');
+      // Adding a sibling always creates; otherwise update the active child if one
+      // exists and is this parent's own (a family member's child is read-only)
+      const active = isAdding ? null : await getActiveChild();
+      const existingId = active && !isSharedChild(active, user.id) ? await getActiveChildId() : null;
 
-      const { child, error } = existingIdRaw
-        ? await updateChild(existingIdRaw, profileData)
+      const { child, error } = existingId
+        ? await updateChild(existingId, profileData)
         : await createChild({ user_id: user.id, ...profileData });
 
       if (error) {
-        // If Supabase not yet connected, store locally and proceed
-        await AsyncStorage.setItem('pending_child_profile', JSON.stringify(profileData));
+        if (isAdding) {
+          // A sibling needs a cloud id to keep their stories and streaks apart
+          Alert.alert(t('profile.addFailedTitle'), t('profile.addFailed'));
+          return;
+        }
+        if (existingId) {
+          // Offline edit – show it straight away and replay it when back online
+          await saveChildEditOffline(user.id, existingId, profileData);
+        } else {
+          // If Supabase not yet connected, store locally and proceed
+          await AsyncStorage.setItem('pending_child_profile', JSON.stringify(profileData));
+        }
       } else if (child) {
-        savedChildId = child.id;
-        await AsyncStorage.setItem('active_child_id', child.id);
-        await AsyncStorage.setItem('pending_child_profile', JSON.stringify(child));
-
         // Refresh the child profile cache
         const { children } = await getChildren(user.id);
         if (children) {
           await AsyncStorage.setItem('sync_child_profiles', JSON.stringify(children));
         }
 
-        // Sync active_child_id to user_preferences
-        if (isSupabaseAvailable) {
-          await upsertUserPreferences(user.id, {
-            active_child_id: savedChildId,
-          });
-        }
+        // Newly added or edited child becomes the active one (synced to user_preferences)
+        await setActiveChild(child, user.id);
       }
 
-      router.push('/(onboarding)/voice-selection');
+      if (isAdding || isEditing) {
+        router.back();
+      } else {
+        router.push('/(onboarding)/voice-selection');
+      }
     } catch {
+      if (isAdding) {
+        Alert.alert(t('profile.addFailedTitle'), t('profile.addFailed'));
+        return;
+      }
       // Store locally and proceed even if DB fails
       await AsyncStorage.setItem('pending_child_profile', JSON.stringify({
         name: name.trim(),
@@ -128,8 +296,11 @@ export default function ChildProfileScreen() {
         age,
         interests: selectedInterests,
         life_notes: lifeNotes.trim() || null,
+        avoid_topics: avoidTopics,
+        fears,
+        inclusions,
       }));
-      router.push('/(onboarding)/voice-selection');
+      if (isEditing) router.back(); else router.push('/(onboarding)/voice-selection');
     } finally {
       setIsSaving(false);
     }
@@ -158,21 +329,23 @@ export default function ChildProfileScreen() {
         >
           {/* Header */}
           <View style={styles.header}>
-            <View style={styles.stepBadge}>
-              <Text style={styles.stepText}>Step 1 of 3</Text>
-            </View>
-            <Text style={styles.title}>Tell us about{'\n'}your little one ✨</Text>
-            <Text style={styles.subtitle}>
-              This helps us craft stories that feel like they were written just for them.
+            {!isAdding && !isEditing && (
+              <View style={styles.stepBadge}>
+                <Text style={styles.stepText}>{t('onboarding.step', { step: 1 })}</Text>
+              </View>
+            )}
+            <Text style={styles.title}>
+              {isAdding ? t('profile.titleAdd') : t('profile.title')}
             </Text>
+            <Text style={styles.subtitle}>{t('profile.subtitle')}</Text>
           </View>
 
           {/* Name */}
           <View style={styles.section}>
-            <Text style={styles.sectionLabel}>{"Child's Name"}</Text>
+            <Text style={styles.sectionLabel}>{t('profile.name')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="e.g. Sophie, Jack…"
+              placeholder={t('profile.namePlaceholder')}
               placeholderTextColor={Colors.textMuted}
               value={name}
               onChangeText={setName}
@@ -183,17 +356,17 @@ export default function ChildProfileScreen() {
 
           {/* Birthday */}
           <View style={styles.section}>
-            <Text style={styles.sectionLabel}>Birthday</Text>
+            <Text style={styles.sectionLabel}>{t('profile.birthday')}</Text>
             <TouchableOpacity
               style={styles.datePickerButton}
               onPress={() => setShowDatePicker(true)}
             >
               <Text style={styles.datePickerButtonText}>
-                🎂 {birthday.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}
+                🎂 {birthday.toLocaleDateString(language, { day: 'numeric', month: 'long', year: 'numeric' })}
               </Text>
               {age > 0 && (
                 <View style={styles.ageBadge}>
-                  <Text style={styles.ageBadgeText}>{age} years old</Text>
+                  <Text style={styles.ageBadgeText}>{age === 1 ? t('profile.yearOld') : t('profile.yearsOld', { count: age })}</Text>
                 </View>
               )}
             </TouchableOpacity>
@@ -218,7 +391,7 @@ export default function ChildProfileScreen() {
                 style={styles.doneButton}
                 onPress={() => setShowDatePicker(false)}
               >
-                <Text style={styles.doneButtonText}>Done</Text>
+                <Text style={styles.doneButtonText}>{t('common.done')}</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -226,8 +399,8 @@ export default function ChildProfileScreen() {
           {/* Interests */}
           <View style={styles.section}>
             <Text style={styles.sectionLabel}>
-              Favourite Themes
-              <Text style={styles.sectionNote}> (pick as many as you like)</Text>
+              {t('profile.themes')}
+              <Text style={styles.sectionNote}>{t('profile.themesNote')}</Text>
             </Text>
             <View style={styles.chipsGrid}>
               {INTERESTS.map((interest) => {
@@ -246,7 +419,7 @@ export default function ChildProfileScreen() {
                       />
                     )}
                     <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
-                      {interest.label}
+                      {t(interest.label)}
                     </Text>
                     {selected && <Text style={styles.chipCheck}>✓</Text>}
                   </TouchableOpacity>
@@ -258,15 +431,13 @@ export default function ChildProfileScreen() {
           {/* Life Notes */}
           <View style={styles.section}>
             <Text style={styles.sectionLabel}>
-              Life Notes{' '}
-              <Text style={styles.sectionNote}>(optional)</Text>
-            </Text>
-            <Text style={styles.sectionHint}>
-              {"Anything special to weave into tonight's story? A new baby sister, starting school, losing a tooth…"}
+              {t('profile.lifeNotes')}{' '}
+              <Text style={styles.sectionNote}>{t('profile.optional')}</Text>
             </Text>
+            <Text style={styles.sectionHint}>{t('profile.lifeNotesHint')}</Text>
             <TextInput
               style={[styles.input, styles.textArea]}
-              placeholder="e.g. 'She started swimming lessons today and was nervous but so brave!'"
+              placeholder={t('profile.lifeNotesPlaceholder')}
               placeholderTextColor={Colors.textMuted}
               value={lifeNotes}
               onChangeText={setLifeNotes}
@@ -278,6 +449,108 @@ export default function ChildProfileScreen() {
             <Text style={styles.charCount}>{lifeNotes.length}/300</Text>
           </View>
 
+          {/* Content boundaries */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>
+              {t('profile.avoid')}{' '}
+              <Text style={styles.sectionNote}>{t('profile.optional')}</Text>
+            </Text>
+            <Text style={styles.sectionHint}>{t('profile.avoidHint')}</Text>
+            <TagListInput
+              values={avoidTopics}
+              onChange={setAvoidTopics}
+              placeholder={t('profile.avoidPlaceholder')}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>
+              {t('profile.fears')}{' '}
+              <Text style={styles.sectionNote}>{t('profile.optional')}</Text>
+            </Text>
+            <Text style={styles.sectionHint}>{t('profile.fearsHint')}</Text>
+            <View style={[styles.chipsGrid, styles.tagList]}>
+              {COMMON_FEARS.map((fear) => {
+                const selected = fears.includes(fear);
+                return (
+                  <TouchableOpacity
+                    key={fear}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleFear(fear)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{t(FEAR_LABELS[fear])}</Text>
+                    {selected && <Text style={styles.chipCheck}>✓</Text>}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TagListInput
+              values={fears.filter((f) => !COMMON_FEARS.includes(f))}
+              onChange={(custom) => setFears([...fears.filter((f) => COMMON_FEARS.includes(f)), ...custom])}
+              placeholder={t('profile.fearsPlaceholder')}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>
+              {t('profile.include')}{' '}
+              <Text style={styles.sectionNote}>{t('profile.optional')}</Text>
+            </Text>
+            <Text style={styles.sectionHint}>{t('profile.includeHint')}</Text>
+            {inclusions.length > 0 && (
+              <View style={[styles.chipsGrid, styles.tagList]}>
+                {inclusions.map((inclusion, index) => (
+                  <TouchableOpacity
+                    key={`${inclusion.kind}_${inclusion.name}_${index}`}
+                    style={[styles.chip, styles.chipSelected]}
+                    onPress={() => setInclusions((prev) => prev.filter((_, i) => i !== index))}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, styles.chipTextSelected]}>
+                      {INCLUSION_EMOJI[inclusion.kind]} {inclusion.name}
+                    </Text>
+                    <Text style={styles.chipCheck}>✕</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <View style={[styles.chipsGrid, styles.tagList]}>
+              {INCLUSION_KINDS.map((option) => {
+                const selected = inclusionKind === option.kind;
+                return (
+                  <TouchableOpacity
+                    key={option.kind}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setInclusionKind(option.kind)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{t(option.label)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.tagInputRow}>
+              <TextInput
+                style={[styles.input, styles.tagInput]}
+                placeholder={t(INCLUSION_KINDS.find((k) => k.kind === inclusionKind)?.placeholder ?? 'profile.includeOtherPlaceholder')}
+                placeholderTextColor={Colors.textMuted}
+                value={inclusionDraft}
+                onChangeText={setInclusionDraft}
+                onSubmitEditing={addInclusion}
+                returnKeyType="done"
+                maxLength={60}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, !inclusionDraft.trim() && styles.buttonDisabled]}
+                onPress={addInclusion}
+                disabled={!inclusionDraft.trim()}
+              >
+                <Text style={styles.addButtonText}>{t('profile.add')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
           {/* CTA */}
           <TouchableOpacity
             style={[styles.continueButton, isSaving && styles.buttonDisabled]}
@@ -291,7 +564,13 @@ export default function ChildProfileScreen() {
               style={styles.buttonGradient}
             >
               <Text style={styles.continueButtonText}>
-                {isSaving ? 'Saving…' : "Next: Choose a Voice →"}
+                {isSaving
+                  ? t('profile.saving')
+                  : isAdding
+                    ? (name.trim() ? t('profile.addChild', { name: name.trim() }) : t('profile.addChildNoName'))
+                    : isEditing
+                      ? t('profile.saveChanges')
+                      : t('profile.next')}
               </Text>
             </LinearGradient>
           </TouchableOpacity>
@@ -377,6 +656,16 @@ const styles = StyleSheet.create({
   chipText: { fontFamily: Fonts.medium, fontSize: 13, color: Colors.textMuted },
   chipTextSelected: { color: Colors.celestialGold },
   chipCheck: { fontSize: 12, color: Colors.celestialGold },
+  tagList: { marginBottom: 12 },
+  tagInputRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  tagInput: { flex: 1 },
+  addButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: Colors.softPurple,
+  },
+  addButtonText: { fontFamily: Fonts.bold, fontSize: 14, color: '#fff' },
   continueButton: { borderRadius: 18, overflow: 'hidden', marginTop: 8 },
   buttonDisabled: { opacity: 0.6 },
   buttonGradient: { paddingVertical: 18, alignItems: 'center' },
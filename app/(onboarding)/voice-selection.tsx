@@ -22,10 +22,20 @@ import StarField from '@/components/StarField';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import { useAdapty } from '@/hooks/useAdapty';
 import { createParentVoice } from '@/lib/supabase';
+import { getActiveChildId } from '@/lib/activeChild';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+import type { StringKey } from '@/lib/i18n';
 
 type VoiceType = 'mom' | 'dad';
 
+const PREMIUM_FEATURES: StringKey[] = [
+  'voices.featureVoices',
+  'voices.featureAdFree',
+  'voices.featureStories',
+  'voices.featureThemes',
+];
+
 interface VoiceCardProps {
   type: VoiceType;
   label: string;
@@ -36,6 +46,7 @@ interface VoiceCardProps {
 }
 
 function VoiceCard({ type, label, emoji, description, isSelected, onPress }: VoiceCardProps) {
+  const { t } = useAppLanguage();
   const scale = useSharedValue(1);
   const animStyle = useAnimatedStyle(() => ({ transform: [{ scale: scale.value }] }));
 
@@ -67,7 +78,7 @@ function VoiceCard({ type, label, emoji, description, isSelected, onPress }: Voi
           <Text style={styles.cardDescription}>{description}</Text>
           {isSelected && (
             <View style={styles.selectedBadge}>
-              <Text style={styles.selectedBadgeText}>✓ Selected</Text>
+              <Text style={styles.selectedBadgeText}>{t('voices.selected')}</Text>
             </View>
           )}
         </View>
@@ -96,6 +107,7 @@ function PaywallModal({
   error: string | null;
   onRestore: () => void;
 }) {
+  const { t } = useAppLanguage();
   return (
     <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
       <View style={styles.modalOverlay}>
@@ -111,20 +123,13 @@ function PaywallModal({
           </TouchableOpacity>
 
           <Text style={styles.paywallEmoji}>⭐</Text>
-          <Text style={styles.paywallTitle}>Unlock Premium Voices</Text>
-          <Text style={styles.paywallSubtitle}>
-            Add custom voices for grandparents, aunties, uncles — anyone your child loves.
-          </Text>
+          <Text style={styles.paywallTitle}>{t('voices.paywallTitle')}</Text>
+          <Text style={styles.paywallSubtitle}>{t('voices.paywallText')}</Text>
 
           <View style={styles.paywallFeatures}>
-            {[
-              '🎙️ Unlimited custom voices',
-              '🌙 Ad-free experience',
-              '📚 Unlimited story generation',
-              '🎨 Premium story themes',
-            ].map((feat) => (
+            {PREMIUM_FEATURES.map((feat) => (
               <View key={feat} style={styles.featureRow}>
-                <Text style={styles.featureText}>{feat}</Text>
+                <Text style={styles.featureText}>{t(feat)}</Text>
               </View>
             ))}
           </View>
@@ -170,7 +175,7 @@ function PaywallModal({
           )}
 
           <TouchableOpacity style={styles.restoreLink} onPress={onRestore}>
-            <Text style={styles.restoreLinkText}>Restore purchases</Text>
+            <Text style={styles.restoreLinkText}>{t('voices.restore')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -182,6 +187,7 @@ export default function VoiceSelectionScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { t } = useAppLanguage();
   const { isPremium, products, openPaywall, closePaywall, paywallVisible, makePurchase, restorePurchases, purchaseError } = useAdapty();
 
   const [selectedVoice, setSelectedVoice] = useState<VoiceType | null>(null);
@@ -190,19 +196,19 @@ export default function VoiceSelectionScreen() {
 
   const handleContinue = async () => {
     if (!selectedVoice) {
-      Alert.alert('Choose a Voice', 'Please select Mom\'s or Dad\'s voice to continue.');
+      Alert.alert(t('voices.chooseTitle'), t('voices.choose'));
       return;
     }
 
     setIsContinuing(true);
     try {
-      const childId = await AsyncStorage.getItem('active_child_id');
+      const childId = await getActiveChildId();
       if (user?.id) {
         const { voice } = await createParentVoice({
           user_id: user.id,
           child_id: childId,
           voice_type: selectedVoice,
-          voice_name: selectedVoice === 'mom' ? "Mom's Voice" : "Dad's Voice",
+          voice_name: selectedVoice === 'mom' ? t('voices.mom') : t('voices.dad'),
           recording_url: null,
           duration_seconds: null,
           script_paragraphs_recorded: 0,
@@ -225,7 +231,7 @@ export default function VoiceSelectionScreen() {
 
   const handleAddCustom = async () => {
     if (isPremium) {
-      Alert.alert('Custom Voice', 'Custom voice feature coming soon!');
+      Alert.alert(t('voices.customTitle'), t('voices.customSoon'));
       return;
     }
     await openPaywall();
@@ -240,10 +246,10 @@ export default function VoiceSelectionScreen() {
   const handleRestore = async () => {
     const restored = await restorePurchases();
     if (restored) {
-      Alert.alert('Restored!', 'Your premium subscription has been restored.');
+      Alert.alert(t('voices.restoredTitle'), t('voices.restored'));
       closePaywall();
     } else {
-      Alert.alert('No Purchase Found', 'No active subscription was found to restore.');
+      Alert.alert(t('shop.noPurchaseTitle'), t('shop.noPurchase'));
     }
   };
 
@@ -265,35 +271,33 @@ export default function VoiceSelectionScreen() {
       >
         {/* Back */}
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
-          <Text style={styles.backText}>← Back</Text>
+          <Text style={styles.backText}>{t('common.back')}</Text>
         </TouchableOpacity>
 
         {/* Header */}
         <View style={styles.header}>
           <View style={styles.stepBadge}>
-            <Text style={styles.stepText}>Step 2 of 3</Text>
+            <Text style={styles.stepText}>{t('onboarding.step', { step: 2 })}</Text>
           </View>
-          <Text style={styles.title}>Choose whose{'\n'}voice reads the story 🎙️</Text>
-          <Text style={styles.subtitle}>
-            Your child will hear their favourite bedtime story read in a voice they know and love.
-          </Text>
+          <Text style={styles.title}>{t('voices.title')}</Text>
+          <Text style={styles.subtitle}>{t('voices.subtitle')}</Text>
         </View>
 
         {/* Voice Cards */}
         <View style={styles.cardsContainer}>
           <VoiceCard
             type="mom"
-            label="Mom's Voice"
+            label={t('voices.mom')}
             emoji="👩"
-            description="Warm, comforting stories read by Mum. The voice that makes everything feel safe."
+            description={t('voices.momDesc')}
             isSelected={selectedVoice === 'mom'}
             onPress={() => setSelectedVoice('mom')}
           />
           <VoiceCard
             type="dad"
-            label="Dad's Voice"
+            label={t('voices.dad')}
             emoji="👨"
-            description="Adventure-filled tales told by Dad. The voice that brings stories to life."
+            description={t('voices.dadDesc')}
             isSelected={selectedVoice === 'dad'}
             onPress={() => setSelectedVoice('dad')}
           />
@@ -305,16 +309,14 @@ export default function VoiceSelectionScreen() {
             activeOpacity={0.75}
           >
             <View style={styles.lockBadge}>
-              <Text style={styles.lockBadgeText}>{isPremium ? '✨ Premium' : '🔒 Premium'}</Text>
+              <Text style={styles.lockBadgeText}>{isPremium ? t('voices.premium') : t('voices.premiumLocked')}</Text>
             </View>
             <View style={styles.addCustomCircle}>
               <Text style={styles.addCustomIcon}>+</Text>
             </View>
             <View style={styles.cardContent}>
-              <Text style={styles.addCustomLabel}>Add Custom Voice</Text>
-              <Text style={styles.addCustomDescription}>
-                Grandma, Grandpa, or any loved one — add as many voices as you like.
-              </Text>
+              <Text style={styles.addCustomLabel}>{t('voices.addCustom')}</Text>
+              <Text style={styles.addCustomDescription}>{t('voices.addCustomDesc')}</Text>
             </View>
           </TouchableOpacity>
         </View>
@@ -322,9 +324,7 @@ export default function VoiceSelectionScreen() {
         {/* Info banner */}
         <View style={styles.infoBanner}>
           <Text style={styles.infoEmoji}>💡</Text>
-          <Text style={styles.infoText}>
-            {"You'll record 5 short paragraphs. The whole process takes about 3 minutes."}
-          </Text>
+          <Text style={styles.infoText}>{t('voices.info')}</Text>
         </View>
 
         {/* Continue CTA */}
@@ -340,7 +340,7 @@ export default function VoiceSelectionScreen() {
             style={styles.buttonGradient}
           >
             <Text style={styles.continueButtonText}>
-              {isContinuing ? 'Setting up…' : 'Record My Voice →'}
+              {isContinuing ? t('voices.settingUp') : t('voices.record')}
             </Text>
           </LinearGradient>
         </TouchableOpacity>
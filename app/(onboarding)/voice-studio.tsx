@@ -7,7 +7,7 @@ import {
   Alert,
   Platform,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { Audio } from 'expo-av';
@@ -28,7 +28,19 @@ import AudioWaveform from '@/components/AudioWaveform';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import { buildVoiceScript } from '@/lib/newell';
 import { updateParentVoice, getParentVoices, isSupabaseAvailable, upsertUserPreferences } from '@/lib/supabase';
+import { analyseTake, takeGradeLabel, type RecordingQuality } from '@/lib/recordingQuality';
+import {
+  commitVoiceLabels,
+  enqueueVoiceRecording,
+  onVoiceUploadProgress,
+  processVoiceUploads,
+  saveRecordingQualities,
+  type VoiceUploadStatus,
+} from '@/lib/voiceUploadService';
+import { getCachedVoices } from '@/lib/syncService';
+import { canShareRecordedVoice } from '@/lib/familyRoles';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const TOTAL_PARAGRAPHS = 5;
 
@@ -47,26 +59,40 @@ function formatTime(seconds: number): string {
  *   • Which phrases are still pending (dim outline)
  *   • How many are left to record (status text)
  *   • An overall completion percentage bar
+ *   • Cloud upload progress per phrase (thin bar along each segment)
+ *   • Phrases whose take scored poorly (amber — re-record suggested)
  */
+interface ParagraphUpload {
+  status: VoiceUploadStatus;
+  fraction: number;
+}
+
 function VoiceProgressTracker({
   current,
   total,
   completed,
+  uploads,
+  needsRetake,
 }: {
   current: number;
   total: number;
   completed: Set<number>;
+  uploads: Record<number, ParagraphUpload>;
+  needsRetake: Set<number>;
 }) {
+  const { t } = useAppLanguage();
   const recordedCount = completed.size;
   const remaining = total - recordedCount;
   const pct = Math.round((recordedCount / total) * 100);
 
   // Derive status copy
   const statusCopy = remaining === 0
-    ? '🎉 All phrases recorded!'
+    ? t('studio.allRecorded')
     : remaining === total
-    ? `Record phrase ${current + 1} to begin`
-    : `${remaining} phrase${remaining > 1 ? 's' : ''} left to record`;
+    ? t('studio.recordToBegin', { number: current + 1 })
+    : remaining === 1
+    ? t('studio.phraseLeft')
+    : t('studio.phrasesLeft', { count: remaining });
 
   return (
     <View style={styles.progressTracker}>
@@ -86,12 +112,14 @@ function VoiceProgressTracker({
         {Array.from({ length: total }, (_, i) => {
           const isDone    = completed.has(i);
           const isCurrent = i === current;
+          const upload    = uploads[i];
           return (
             <View
               key={i}
               style={[
                 styles.progressSegment,
                 isDone    && styles.progressSegmentDone,
+                isDone    && needsRetake.has(i) && styles.progressSegmentRetake,
                 isCurrent && !isDone && styles.progressSegmentActive,
               ]}
             >
@@ -109,6 +137,18 @@ function VoiceProgressTracker({
               ]}>
                 {i + 1}
               </Text>
+              {upload && (
+                <View style={styles.uploadTrack}>
+                  <View
+                    style={[
+                      styles.uploadFill,
+                      upload.status === 'uploaded' && styles.uploadFillDone,
+                      upload.status === 'failed'   && styles.uploadFillFailed,
+                      { width: `${Math.round((upload.status === 'failed' ? 1 : upload.fraction) * 100)}%` },
+                    ]}
+                  />
+                </View>
+              )}
             </View>
           );
         })}
@@ -137,6 +177,14 @@ export default function VoiceStudioScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { language, t } = useAppLanguage();
+  // Set when recording for another family's voice invitation (see lib/voiceInvites)
+  const invited = useLocalSearchParams<{
+    inviteVoiceId?: string;
+    voiceType?: 'mom' | 'dad' | 'custom';
+    childName?: string;
+    voiceName?: string;
+  }>();
 
   const [voiceType, setVoiceType] = useState<'mom' | 'dad' | 'custom'>('mom');
   const [paragraphIndex, setParagraphIndex] = useState(0);
@@ -146,10 +194,16 @@ export default function VoiceStudioScreen() {
   const [completedParagraphs, setCompletedParagraphs] = useState<Set<number>>(new Set());
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [uploads, setUploads] = useState<Record<number, ParagraphUpload>>({});
+  const [qualities, setQualities] = useState<Record<number, RecordingQuality>>({});
 
   const recordingRef = useRef<Audio.Recording | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const recordingUriRef = useRef<string[]>([]);
+  const recordingDurationsRef = useRef<number[]>([]);
+  const voiceIdRef = useRef<string | null>(null);
+  const meteringRef = useRef<number[]>([]);
+  const qualitiesRef = useRef<Record<number, RecordingQuality>>({});
 
   // Animations
   const recordButtonScale = useSharedValue(1);
@@ -166,11 +220,53 @@ export default function VoiceStudioScreen() {
     };
   }, []);
 
+  // Per-paragraph cloud upload progress
+  useEffect(() => {
+    return onVoiceUploadProgress((progress) => {
+      if (progress.voiceId !== voiceIdRef.current) return;
+      setUploads((prev) => ({
+        ...prev,
+        [progress.paragraph - 1]: { status: progress.status, fraction: progress.fraction },
+      }));
+    });
+  }, []);
+
   const loadInitialData = async () => {
+    if (invited.inviteVoiceId) {
+      const type = invited.voiceType ?? 'custom';
+      setVoiceType(type);
+      setParagraphs(buildVoiceScript(type));
+      voiceIdRef.current = invited.inviteVoiceId;
+      return;
+    }
+
     const vt = (await AsyncStorage.getItem('selected_voice_type')) as 'mom' | 'dad' | 'custom' | null;
     const type = vt ?? 'mom';
     setVoiceType(type);
     setParagraphs(buildVoiceScript(type));
+    voiceIdRef.current = await AsyncStorage.getItem('active_voice_id');
+
+    // A voice shared by the family group can be narrated with, not re-recorded
+    const active = (await getCachedVoices()).find((v) => v.id === voiceIdRef.current);
+    if (active && user?.id && active.user_id !== user.id) {
+      Alert.alert(
+        t('studio.familyVoiceTitle'),
+        t('studio.familyVoice', { voice: active.voice_name ?? t('studio.thisVoice') }),
+        [
+          { text: t('studio.notNow'), style: 'cancel', onPress: () => router.back() },
+          { text: t('studio.recordMine'), onPress: () => router.replace('/(onboarding)/voice-selection') },
+        ],
+      );
+    } else if (!(await canShareRecordedVoice())) {
+      Alert.alert(
+        t('studio.playOnlyTitle'),
+        t('studio.playOnly'),
+        [
+          { text: t('studio.notNow'), style: 'cancel', onPress: () => router.back() },
+          { text: t('studio.recordAnyway') },
+        ],
+      );
+    }
   };
 
   const requestPermissions = async () => {
@@ -178,9 +274,9 @@ export default function VoiceStudioScreen() {
     setHasPermission(status === 'granted');
     if (status !== 'granted') {
       Alert.alert(
-        'Microphone Access',
-        'StoryVoice needs microphone access to record your voice. Please enable it in Settings.',
-        [{ text: 'OK' }]
+        t('studio.micTitle'),
+        t('studio.mic'),
+        [{ text: t('studio.ok') }]
       );
     }
     await Audio.setAudioModeAsync({
@@ -208,9 +304,17 @@ export default function VoiceStudioScreen() {
     try {
       await cleanupRecording();
       setRecordingSeconds(0);
+      meteringRef.current = [];
 
+      // Metering samples feed the on-device take quality analysis
       const { recording } = await Audio.Recording.createAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
+        { ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true },
+        (status) => {
+          if (status.isRecording && typeof status.metering === 'number') {
+            meteringRef.current.push(status.metering);
+          }
+        },
+        100
       );
       recordingRef.current = recording;
       setIsRecording(true);
@@ -229,9 +333,9 @@ export default function VoiceStudioScreen() {
         setRecordingSeconds((s) => s + 1);
       }, 1000);
     } catch {
-      Alert.alert('Recording Error', 'Could not start recording. Please try again.');
+      Alert.alert(t('studio.recordErrorTitle'), t('studio.recordError'));
     }
-  }, [hasPermission]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [hasPermission, t]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const stopRecording = useCallback(async () => {
     if (!recordingRef.current) return;
@@ -243,15 +347,41 @@ export default function VoiceStudioScreen() {
         timerRef.current = null;
       }
 
-      await recordingRef.current.stopAndUnloadAsync();
+      const finalStatus = await recordingRef.current.stopAndUnloadAsync();
       const uri = recordingRef.current.getURI();
+      const takeSeconds = finalStatus.durationMillis > 0 ? finalStatus.durationMillis / 1000 : recordingSeconds;
       if (uri) {
         recordingUriRef.current[paragraphIndex] = uri;
+        recordingDurationsRef.current[paragraphIndex] = Math.round(takeSeconds);
+        // Start uploading straight away so the parent isn't kept waiting at the end
+        if (voiceIdRef.current && user?.id && isSupabaseAvailable) {
+          void enqueueVoiceRecording({
+            userId:    user.id,
+            voiceId:   voiceIdRef.current,
+            paragraph: paragraphIndex + 1,
+            uri,
+          }).then(() => processVoiceUploads(voiceIdRef.current ?? undefined));
+        }
       }
       recordingRef.current = null;
       setIsRecording(false);
       setCompletedParagraphs((prev) => new Set([...prev, paragraphIndex]));
 
+      // Score the take and suggest a re-record when it is unlikely to sound good
+      const quality = analyseTake(meteringRef.current, takeSeconds, paragraphs[paragraphIndex] ?? '');
+      qualitiesRef.current = { ...qualitiesRef.current, [paragraphIndex]: quality };
+      setQualities(qualitiesRef.current);
+      if (quality.grade === 'retake') {
+        Alert.alert(
+          t('studio.retakeTitle'),
+          t(quality.issues[0] ?? 'studio.retake'),
+          [
+            { text: t('studio.keepIt'), style: 'cancel' },
+            { text: t('studio.rerecord'), onPress: () => void startRecording() },
+          ]
+        );
+      }
+
       // Button bounce
       recordButtonScale.value = withSpring(1.2, {}, () => {
         recordButtonScale.value = withSpring(1);
@@ -261,7 +391,7 @@ export default function VoiceStudioScreen() {
     }
     // pulseScale / recordButtonScale are stable Reanimated shared value refs
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [paragraphIndex]);
+  }, [paragraphIndex, paragraphs, recordingSeconds, user?.id, startRecording, t]);
 
   const goToNextParagraph = useCallback(() => {
     if (paragraphIndex < TOTAL_PARAGRAPHS - 1) {
@@ -305,11 +435,11 @@ export default function VoiceStudioScreen() {
     if (!allDone) {
       const remaining = TOTAL_PARAGRAPHS - completedParagraphs.size;
       Alert.alert(
-        'Almost there!',
-        `You have ${remaining} paragraph${remaining > 1 ? 's' : ''} left to record. Would you like to finish the remaining ones?`,
+        t('studio.almostTitle'),
+        remaining === 1 ? t('studio.almostOne') : t('studio.almost', { count: remaining }),
         [
-          { text: 'Keep Recording', style: 'cancel' },
-          { text: 'Skip & Finish', onPress: () => void saveAndFinish() },
+          { text: t('studio.keepRecording'), style: 'cancel' },
+          { text: t('studio.skipFinish'), onPress: () => void saveAndFinish() },
         ]
       );
       return;
@@ -320,26 +450,46 @@ export default function VoiceStudioScreen() {
   const saveAndFinish = async () => {
     setIsSaving(true);
     try {
-      const voiceId = await AsyncStorage.getItem('active_voice_id');
+      const voiceId = invited.inviteVoiceId ?? await AsyncStorage.getItem('active_voice_id');
       const isComplete = completedParagraphs.size >= TOTAL_PARAGRAPHS;
 
       if (voiceId && user?.id) {
-        // Build recording labels: map each paragraph index to its URI
-        const recordingLabels: Record<string, string> = {};
-        recordingUriRef.current.forEach((uri, idx) => {
-          if (uri) recordingLabels[`paragraph_${idx + 1}`] = uri;
-        });
+        // Recordings were queued as each paragraph finished; wait for the
+        // queue so recording_labels hold cloud object paths. Anything that
+        // still fails stays queued and is retried on the next sync.
+        if (isSupabaseAvailable) {
+          const { failed } = await processVoiceUploads(voiceId);
+          if (failed > 0) {
+            console.warn(`[VoiceStudio] ${failed} recording(s) will finish uploading later`);
+          }
+        }
+
+        // Quality scores sit alongside the paragraph object paths. They are
+        // kept on the device and merged into the stored labels, which are
+        // left alone when they can't be read – the next sync retries.
+        await saveRecordingQualities(voiceId, Object.fromEntries(
+          Object.entries(qualitiesRef.current).map(([idx, q]) => [`paragraph_${Number(idx) + 1}`, q]),
+        ));
+        if (isSupabaseAvailable) await commitVoiceLabels(voiceId);
 
         await updateParentVoice(voiceId, {
           script_paragraphs_recorded: completedParagraphs.size,
           is_complete: isComplete,
-          recording_labels: recordingLabels,
-          duration_seconds: recordingUriRef.current.reduce(
-            (acc, _) => acc + Math.round(recordingSeconds / Math.max(recordingUriRef.current.filter(Boolean).length, 1)),
-            0
-          ),
+          duration_seconds: recordingDurationsRef.current.reduce((acc, secs) => acc + (secs ?? 0), 0),
         });
 
+        // An invited voice goes to the family owner – it isn't this user's narrator
+        if (invited.inviteVoiceId) {
+          Alert.alert(
+            isComplete ? t('studio.sentTitle') : t('studio.savedTitle'),
+            isComplete
+              ? (invited.childName ? t('studio.sent', { child: invited.childName }) : t('studio.sentNoChild'))
+              : t('studio.saved'),
+            [{ text: t('studio.ok'), onPress: () => router.back() }],
+          );
+          return;
+        }
+
         // Refresh voice profiles cache in AsyncStorage
         if (isSupabaseAvailable) {
           const { voices } = await getParentVoices(user.id);
@@ -381,6 +531,11 @@ export default function VoiceStudioScreen() {
   const currentParagraph = paragraphs[paragraphIndex] ?? '';
   const isDoneWithCurrent = completedParagraphs.has(paragraphIndex);
   const allRecorded = completedParagraphs.size >= TOTAL_PARAGRAPHS;
+  const isUploading = Object.values(uploads).some((u) => u.status === 'pending' || u.status === 'uploading');
+  const currentQuality = qualities[paragraphIndex];
+  const needsRetake = new Set(
+    Object.entries(qualities).filter(([, q]) => q.grade === 'retake').map(([idx]) => Number(idx))
+  );
 
   return (
     <View style={styles.container}>
@@ -391,16 +546,21 @@ export default function VoiceStudioScreen() {
         {/* Header */}
         <View style={styles.header}>
           <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
-            <Text style={styles.backText}>← Back</Text>
+            <Text style={styles.backText}>{t('common.back')}</Text>
           </TouchableOpacity>
           <View style={styles.stepBadge}>
-            <Text style={styles.stepText}>Step 3 of 3</Text>
+            <Text style={styles.stepText}>{invited.inviteVoiceId ? t('studio.invitation') : t('onboarding.step', { step: 3 })}</Text>
           </View>
         </View>
 
-        <Text style={styles.title}>Voice Studio 🎙️</Text>
+        <Text style={styles.title}>{t('studio.title')}</Text>
         <Text style={styles.subtitle}>
-          {voiceType === 'mom' ? "Mom's" : voiceType === 'dad' ? "Dad's" : 'Custom'} voice — read each paragraph aloud
+          {invited.inviteVoiceId
+            ? t('studio.subtitleInvited', {
+              voice: invited.voiceName ?? t('studio.yourVoice'),
+              child: invited.childName ?? t('studio.theFamily'),
+            })
+            : t(voiceType === 'mom' ? 'studio.subtitleMom' : voiceType === 'dad' ? 'studio.subtitleDad' : 'studio.subtitleCustom')}
         </Text>
 
         {/* Progress */}
@@ -408,6 +568,8 @@ export default function VoiceStudioScreen() {
           current={paragraphIndex}
           total={TOTAL_PARAGRAPHS}
           completed={completedParagraphs}
+          uploads={uploads}
+          needsRetake={needsRetake}
         />
 
         {/* Script card */}
@@ -428,7 +590,7 @@ export default function VoiceStudioScreen() {
           <View style={styles.scriptCardHeader}>
             <View style={[styles.paragraphBadge, isDoneWithCurrent && styles.paragraphBadgeDone]}>
               <Text style={styles.paragraphBadgeText}>
-                {isDoneWithCurrent ? '✓ Recorded' : `¶ ${paragraphIndex + 1}`}
+                {isDoneWithCurrent ? t('studio.recorded') : `¶ ${paragraphIndex + 1}`}
               </Text>
             </View>
             {recordingSeconds > 0 && !isRecording && (
@@ -436,6 +598,20 @@ export default function VoiceStudioScreen() {
             )}
           </View>
           <Text style={styles.scriptText}>{currentParagraph}</Text>
+          {currentQuality && !isRecording && (
+            <View style={[styles.qualityRow, currentQuality.grade === 'retake' && styles.qualityRowRetake]}>
+              <Text style={[
+                styles.qualityBadge,
+                currentQuality.grade === 'great'  && styles.qualityBadgeGreat,
+                currentQuality.grade === 'retake' && styles.qualityBadgeRetake,
+              ]}>
+                {takeGradeLabel(currentQuality, language)}
+              </Text>
+              {currentQuality.issues[0] && (
+                <Text style={styles.qualityTip}>{t(currentQuality.issues[0])}</Text>
+              )}
+            </View>
+          )}
 
           {/* Navigation arrows */}
           <View style={styles.navButtons}>
@@ -499,7 +675,7 @@ export default function VoiceStudioScreen() {
               >
                 <Text style={styles.recordButtonIcon}>{isRecording ? '⬛' : '🎙️'}</Text>
                 <Text style={styles.recordButtonText}>
-                  {isRecording ? 'Stop' : isDoneWithCurrent ? 'Re-record' : 'Record'}
+                  {isRecording ? t('studio.stop') : isDoneWithCurrent ? t('studio.rerecord') : t('studio.record')}
                 </Text>
               </LinearGradient>
             </TouchableOpacity>
@@ -507,7 +683,7 @@ export default function VoiceStudioScreen() {
 
           {isDoneWithCurrent && !isRecording && paragraphIndex < TOTAL_PARAGRAPHS - 1 && (
             <TouchableOpacity style={styles.nextButton} onPress={goToNextParagraph}>
-              <Text style={styles.nextButtonText}>Next paragraph →</Text>
+              <Text style={styles.nextButtonText}>{t('studio.next')}</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -530,10 +706,10 @@ export default function VoiceStudioScreen() {
             <Text style={styles.tipEmoji}>💡</Text>
             <Text style={styles.tipText}>
               {hasPermission === false
-                ? 'Microphone permission needed. Tap Record to request access.'
+                ? t('studio.tipPermission')
                 : isDoneWithCurrent
-                ? 'Great job! Tap re-record if you want another take, or move to the next paragraph.'
-                : 'Find a quiet spot, take a breath, and read in your natural bedtime voice.'}
+                ? t('studio.tipDone')
+                : t('studio.tipStart')}
             </Text>
           </View>
         )}
@@ -554,15 +730,15 @@ export default function VoiceStudioScreen() {
               style={styles.finishButtonGradient}
             >
               <Text style={styles.finishButtonTextReady}>
-                {isSaving ? '✓ Saving…' : '✨ Finish & Generate Stories!'}
+                {isSaving ? (isUploading ? t('studio.uploading') : t('studio.savingReady')) : t('studio.finish')}
               </Text>
             </LinearGradient>
           ) : (
             <View style={styles.finishButtonInner}>
               <Text style={styles.finishButtonText}>
                 {isSaving
-                  ? 'Saving…'
-                  : `Save Progress (${completedParagraphs.size}/${TOTAL_PARAGRAPHS} done)`}
+                  ? t('studio.saving')
+                  : t('studio.saveProgress', { done: completedParagraphs.size, total: TOTAL_PARAGRAPHS })}
               </Text>
             </View>
           )}
@@ -640,6 +816,10 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(107,203,119,0.15)',
     borderColor: Colors.successGreen,
   },
+  progressSegmentRetake: {
+    backgroundColor: 'rgba(255,200,87,0.15)',
+    borderColor: Colors.softGold,
+  },
   progressSegmentActive: {
     backgroundColor: 'rgba(255,215,0,0.12)',
     borderColor: Colors.celestialGold,
@@ -669,6 +849,26 @@ const styles = StyleSheet.create({
   progressSegmentLabelActive: {
     color: Colors.celestialGold,
   },
+  uploadTrack: {
+    position: 'absolute',
+    left: 6,
+    right: 6,
+    bottom: 4,
+    height: 2,
+    borderRadius: 1,
+    backgroundColor: 'rgba(255,255,255,0.10)',
+    overflow: 'hidden',
+  },
+  uploadFill: {
+    height: '100%',
+    backgroundColor: Colors.softBlue,
+  },
+  uploadFillDone: {
+    backgroundColor: Colors.successGreen,
+  },
+  uploadFillFailed: {
+    backgroundColor: Colors.errorRed,
+  },
   progressBarTrack: {
     height: 4,
     borderRadius: 2,
@@ -743,6 +943,18 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     flex: 1,
   },
+  qualityRow: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: Radius.md,
+    backgroundColor: 'rgba(107,203,119,0.10)',
+    gap: 4,
+  },
+  qualityRowRetake: { backgroundColor: 'rgba(255,200,87,0.12)' },
+  qualityBadge: { fontFamily: Fonts.bold, fontSize: 12, color: Colors.textLight },
+  qualityBadgeGreat: { color: Colors.successGreen },
+  qualityBadgeRetake: { color: Colors.softGold },
+  qualityTip: { fontFamily: Fonts.regular, fontSize: 12, color: Colors.textMuted, lineHeight: 17 },
   navButtons: { flexDirection: 'row', justifyContent: 'space-between', marginTop: 12 },
   navButton: {
     width: 36,
@@ -17,12 +17,15 @@ import { supabase } from '@/lib/supabase';
 import { Colors } from '@/constants/theme';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { getStoriesCompleted } from '@/lib/stardust';
+import { startMutationReplay } from '@/lib/mutationQueue';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 SplashScreen.preventAutoHideAsync();
 
 // ─── Custom Splash Overlay ────────────────────────────────────────────────────
 function SplashOverlay({ onComplete }: { onComplete: () => void }) {
+  const { t } = useAppLanguage();
   const moonScale    = useRef(new RNAnimated.Value(0)).current;
   const moonOpacity  = useRef(new RNAnimated.Value(0)).current;
   const titleOpacity = useRef(new RNAnimated.Value(0)).current;
@@ -122,7 +125,7 @@ function SplashOverlay({ onComplete }: { onComplete: () => void }) {
 
       {/* Tagline */}
       <RNAnimated.Text style={[splashStyles.tagline, { opacity: taglineOpacity }]}>
-        Bedtime magic, in your voice
+        {t('splash.tagline')}
       </RNAnimated.Text>
     </RNAnimated.View>
   );
@@ -218,6 +221,7 @@ export default function RootLayout() {
     Nunito_900Black,
   });
 
+  const { t } = useAppLanguage();
   const [showSplash, setShowSplash] = useState(true);
   const [showRateUs, setShowRateUs] = useState(false);
 
@@ -227,6 +231,9 @@ export default function RootLayout() {
     }
   }, [fontsLoaded]);
 
+  // Replay offline writes now and whenever the app comes back to the foreground
+  useEffect(() => startMutationReplay(), []);
+
   useEffect(() => {
     if (!fontsLoaded) return;
     // Check if we should show rate us prompt
@@ -302,9 +309,9 @@ export default function RootLayout() {
                 style={[StyleSheet.absoluteFill, { borderRadius: 24 }]}
               />
               <Text style={rateUsStyles.emoji}>⭐</Text>
-              <Text style={rateUsStyles.title}>Enjoying StoryVoice?</Text>
+              <Text style={rateUsStyles.title}>{t('rateUs.title')}</Text>
               <Text style={rateUsStyles.subtitle}>
-                Your rating helps other families discover bedtime magic! 🌙
+                {t('rateUs.subtitle')}
               </Text>
               <TouchableOpacity
                 style={rateUsStyles.rateBtn}
@@ -315,13 +322,13 @@ export default function RootLayout() {
                   start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                   style={[StyleSheet.absoluteFill, { borderRadius: 999 }]}
                 />
-                <Text style={rateUsStyles.rateBtnText}>⭐ Rate Us Now</Text>
+                <Text style={rateUsStyles.rateBtnText}>{t('rateUs.rate')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={rateUsStyles.dismissBtn}
                 onPress={() => void handleDismissRateUs()}
               >
-                <Text style={rateUsStyles.dismissText}>Maybe later</Text>
+                <Text style={rateUsStyles.dismissText}>{t('common.maybeLater')}</Text>
               </TouchableOpacity>
             </View>
           </View>
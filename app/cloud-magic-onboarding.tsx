@@ -36,6 +36,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import StarField from '@/components/StarField';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W, height: H } = Dimensions.get('window');
 
@@ -45,10 +46,10 @@ const SLIDES = [
     id: 'stardust',
     emoji: '✨',
     nebula: ['rgba(255,215,0,0.22)', 'rgba(107,72,184,0.18)', 'transparent'] as const,
-    title: 'Syncing Stardust',
-    subtitle: 'Your magical rewards follow you everywhere',
-    body: 'Every stardust crystal you earn syncs instantly across all your devices. Pick up from any screen — your streak, rewards, and progress are always right where you left them.',
-    pillLabel: 'Cloud Sync',
+    title: 'cloudMagic.stardustTitle',
+    subtitle: 'cloudMagic.stardustSubtitle',
+    body: 'cloudMagic.stardustBody',
+    pillLabel: 'cloudMagic.stardustPill',
     pillIcon: '☁️',
     accentColor: Colors.celestialGold,
     bgGlow: 'rgba(255,215,0,0.07)',
@@ -57,10 +58,10 @@ const SLIDES = [
     id: 'voices',
     emoji: '🎙️',
     nebula: ['rgba(126,200,227,0.22)', 'rgba(107,72,184,0.18)', 'transparent'] as const,
-    title: 'Saving Parent Voices',
-    subtitle: 'Your voice, preserved forever',
-    body: "Your recordings are securely backed up to the cloud vault. Even if you change your phone, your child's favourite voice — yours — will always be waiting for them.",
-    pillLabel: 'Secure Backup',
+    title: 'cloudMagic.voicesTitle',
+    subtitle: 'cloudMagic.voicesSubtitle',
+    body: 'cloudMagic.voicesBody',
+    pillLabel: 'cloudMagic.voicesPill',
     pillIcon: '🔐',
     accentColor: Colors.softBlue,
     bgGlow: 'rgba(126,200,227,0.07)',
@@ -69,10 +70,10 @@ const SLIDES = [
     id: 'stories',
     emoji: '📖',
     nebula: ['rgba(107,72,184,0.25)', 'rgba(255,107,157,0.12)', 'transparent'] as const,
-    title: 'Keeping Stories Safe',
-    subtitle: 'Every tale, safe in the stars',
-    body: "All the bedtime stories you create are encrypted and stored in your personal cosmic library. They'll never be lost, and you can share them with family across the galaxy.",
-    pillLabel: 'Story Vault',
+    title: 'cloudMagic.storiesTitle',
+    subtitle: 'cloudMagic.storiesSubtitle',
+    body: 'cloudMagic.storiesBody',
+    pillLabel: 'cloudMagic.storiesPill',
     pillIcon: '🌟',
     accentColor: Colors.softPurple,
     bgGlow: 'rgba(107,72,184,0.07)',
@@ -157,6 +158,7 @@ function Slide({
   slide: (typeof SLIDES)[number];
   isActive: boolean;
 }) {
+  const { t } = useAppLanguage();
   const emojiScale = useSharedValue(0.6);
   const emojiOpacity = useSharedValue(0);
   const contentOpacity = useSharedValue(0);
@@ -237,17 +239,17 @@ function Slide({
           />
           <Text style={slideStyles.pillIcon}>{slide.pillIcon}</Text>
           <Text style={[slideStyles.pillLabel, { color: slide.accentColor }]}>
-            {slide.pillLabel}
+            {t(slide.pillLabel)}
           </Text>
         </View>
 
         <Text style={[slideStyles.title, { color: slide.accentColor }]}>
-          {slide.title}
+          {t(slide.title)}
         </Text>
 
-        <Text style={slideStyles.subtitle}>{slide.subtitle}</Text>
+        <Text style={slideStyles.subtitle}>{t(slide.subtitle)}</Text>
 
-        <Text style={slideStyles.body}>{slide.body}</Text>
+        <Text style={slideStyles.body}>{t(slide.body)}</Text>
       </Animated.View>
     </View>
   );
@@ -403,6 +405,7 @@ const dotStyles = StyleSheet.create({
 // ─── Main screen ──────────────────────────────────────────────────────────────
 export default function CloudMagicOnboarding() {
   const router = useRouter();
+  const { t } = useAppLanguage();
   const insets = useSafeAreaInsets();
   const scrollRef = useRef<ScrollView>(null);
   const [currentSlide, setCurrentSlide] = useState(0);
@@ -488,7 +491,7 @@ export default function CloudMagicOnboarding() {
           hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
           style={styles.skipBtn}
         >
-          <Text style={styles.skipText}>Skip</Text>
+          <Text style={styles.skipText}>{t('walkthrough.skip')}</Text>
         </TouchableOpacity>
       </View>
 
@@ -552,7 +555,7 @@ export default function CloudMagicOnboarding() {
               style={styles.ctaGradient}
             >
               <Text style={[styles.ctaText, isLast && styles.ctaTextDark]}>
-                {isLast ? '✨ Enter the Crystal Gate' : 'Continue →'}
+                {isLast ? t('cloudMagic.enter') : t('cloudMagic.continue')}
               </Text>
             </LinearGradient>
           </TouchableOpacity>
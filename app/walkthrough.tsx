@@ -42,6 +42,8 @@ import Animated, {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import StarField from '@/components/StarField';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+import type { StringKey } from '@/lib/i18n';
 
 const { width: W, height: H } = Dimensions.get('window');
 
@@ -50,10 +52,10 @@ const { width: W, height: H } = Dimensions.get('window');
 // ─────────────────────────────────────────────────────────────────────────────
 interface Slide {
   icon: string;
-  tag: string;
-  title: string;
-  subtitle: string;
-  body: string;
+  tag: StringKey;
+  title: StringKey;
+  subtitle: StringKey;
+  body: StringKey;
   accentColor: string;
   gradientColors: [string, string, string];
 }
@@ -61,28 +63,28 @@ interface Slide {
 const SLIDES: Slide[] = [
   {
     icon: '🎙️',
-    tag: 'THE VOICE STUDIO',
-    title: 'Your Voice.\nTheir Dreams.',
-    subtitle: 'Narrated by the person they love most.',
-    body: 'Record your voice just once, and hear yourself tell personalised bedtime stories every single night. Your child will drift off to the most familiar, comforting sound in the world — yours.',
+    tag: 'walkthrough.voiceTag',
+    title: 'walkthrough.voiceTitle',
+    subtitle: 'walkthrough.voiceSubtitle',
+    body: 'walkthrough.voiceBody',
     accentColor: Colors.celestialGold,
     gradientColors: ['#2D1B69', '#1A1B41', '#0D0E24'],
   },
   {
     icon: '✨',
-    tag: 'THE AI ENGINE',
-    title: 'Stories Made\nJust For Them.',
-    subtitle: 'Infinitely personalised. Endlessly magical.',
-    body: 'Our AI weaves your child\'s name, age, interests, and personality into unique tales that feel written especially for them. No two stories are ever the same.',
+    tag: 'walkthrough.aiTag',
+    title: 'walkthrough.aiTitle',
+    subtitle: 'walkthrough.aiSubtitle',
+    body: 'walkthrough.aiBody',
     accentColor: '#B48EFF',
     gradientColors: ['#1A1250', '#0D0E24', '#0A0A1E'],
   },
   {
     icon: '🌙',
-    tag: 'THE PLAYER',
-    title: 'Designed\nFor Sleep.',
-    subtitle: 'A calm sanctuary at bedtime.',
-    body: 'Every pixel is crafted to ease the transition to sleep. No distractions. No bright lights. Just a warm, dim glow, your voice, and a story guiding your child gently into dreamland.',
+    tag: 'walkthrough.playerTag',
+    title: 'walkthrough.playerTitle',
+    subtitle: 'walkthrough.playerSubtitle',
+    body: 'walkthrough.playerBody',
     accentColor: Colors.softBlue,
     gradientColors: ['#0D1E3A', '#0D0E24', '#060810'],
   },
@@ -146,6 +148,7 @@ function SlideContent({
   slide: Slide;
   isActive: boolean;
 }) {
+  const { t } = useAppLanguage();
   const opacity    = useSharedValue(0);
   const translateY = useSharedValue(24);
 
@@ -171,13 +174,13 @@ function SlideContent({
         <FloatingIcon icon={slide.icon} color={slide.accentColor} />
 
         <View style={[styles.tagPill, { borderColor: `${slide.accentColor}50` }]}>
-          <Text style={[styles.tagText, { color: slide.accentColor }]}>{slide.tag}</Text>
+          <Text style={[styles.tagText, { color: slide.accentColor }]}>{t(slide.tag)}</Text>
         </View>
 
-        <Text style={styles.slideTitle}>{slide.title}</Text>
+        <Text style={styles.slideTitle}>{t(slide.title)}</Text>
 
         <Text style={[styles.slideSubtitle, { color: slide.accentColor }]}>
-          {slide.subtitle}
+          {t(slide.subtitle)}
         </Text>
 
         <View style={styles.divider}>
@@ -188,7 +191,7 @@ function SlideContent({
           />
         </View>
 
-        <Text style={styles.slideBody}>{slide.body}</Text>
+        <Text style={styles.slideBody}>{t(slide.body)}</Text>
       </Animated.View>
     </View>
   );
@@ -200,6 +203,7 @@ function SlideContent({
 export default function WalkthroughScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  const { t } = useAppLanguage();
 
   const [activeIndex, setActiveIndex] = useState(0);
   const scrollRef = useRef<ScrollView>(null);
@@ -268,7 +272,7 @@ export default function WalkthroughScreen() {
           onPress={() => void handleSkip()}
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
         >
-          <Text style={styles.skipText}>Skip</Text>
+          <Text style={styles.skipText}>{t('walkthrough.skip')}</Text>
         </TouchableOpacity>
       )}
 
@@ -338,7 +342,7 @@ export default function WalkthroughScreen() {
                   { color: isLastSlide ? Colors.deepSpace : '#fff' },
                 ]}
               >
-                {isLastSlide ? '✨  Begin Your Journey' : 'Next  ›'}
+                {isLastSlide ? t('walkthrough.begin') : t('walkthrough.next')}
               </Text>
             </LinearGradient>
           </TouchableOpacity>
@@ -22,6 +22,7 @@ import { useAuth } from '@fastshot/auth';
 import StarField from '@/components/StarField';
 import BedroomIllustration from '@/components/BedroomIllustration';
 import { Colors, Fonts } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W, height: H } = Dimensions.get('window');
 
@@ -29,6 +30,7 @@ export default function WelcomeScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { isAuthenticated } = useAuth();
+  const { t } = useAppLanguage();
 
   // Entrance animations
   const logoOpacity = useSharedValue(0);
@@ -129,10 +131,10 @@ export default function WelcomeScreen() {
 
       {/* Tagline */}
       <Animated.View style={[styles.taglineContainer, taglineStyle]}>
-        <Text style={styles.tagline}>Bedtime stories told in</Text>
-        <Text style={styles.taglineHighlight}>your voice. ✨</Text>
+        <Text style={styles.tagline}>{t('welcome.tagline')}</Text>
+        <Text style={styles.taglineHighlight}>{t('welcome.taglineHighlight')}</Text>
         <Text style={styles.subTagline}>
-          Personalised, AI-crafted tales read aloud{'\n'}by the voice they love most — yours.
+          {t('welcome.subTagline')}
         </Text>
       </Animated.View>
 
@@ -149,7 +151,7 @@ export default function WelcomeScreen() {
             end={{ x: 1, y: 0 }}
             style={styles.ctaGradient}
           >
-            <Text style={styles.ctaText}>{"Create Your Child's Stories"}</Text>
+            <Text style={styles.ctaText}>{t('welcome.cta')}</Text>
             <Text style={styles.ctaArrow}>→</Text>
           </LinearGradient>
         </TouchableOpacity>
@@ -158,8 +160,8 @@ export default function WelcomeScreen() {
           onPress={() => router.push('/(auth)/sign-in')}
           style={styles.signInLink}
         >
-          <Text style={styles.signInText}>Already have an account?{' '}
-            <Text style={styles.signInTextBold}>Sign in</Text>
+          <Text style={styles.signInText}>{t('welcome.haveAccount')}{' '}
+            <Text style={styles.signInTextBold}>{t('welcome.signIn')}</Text>
           </Text>
         </TouchableOpacity>
       </Animated.View>
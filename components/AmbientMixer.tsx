@@ -2,22 +2,30 @@
  * AmbientMixer – Atmospheric Soundscapes
  *
  * Glassmorphism bottom sheet with:
- * - 4 selectable ambient soundscapes
- * - Volume slider with PanResponder
- * - expo-av audio playback with crossfade
+ * - 4 bundled, seamlessly looping soundscapes that layer on top of each other
+ * - Independent volume slider per layer (PanResponder)
+ * - Named mixes saved per child (lib/soundscapePresets)
+ * - expo-av playback with per-layer fade in / fade out
  * - Smooth haptic feedback
+ *
+ * Closing the sheet leaves the mix playing under the narration; "Stop All"
+ * or unmounting the player silences every layer. The mixer registers as the
+ * 'ambient' channel of lib/audioController so the sleep timer can fade it.
  */
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
+  ScrollView,
   StyleSheet,
   Modal,
   Dimensions,
   PanResponder,
   Platform,
+  Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
@@ -34,56 +42,20 @@ import Animated, {
 } from 'react-native-reanimated';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import StardustLoader from '@/components/StardustLoader';
+import {
+  getSoundscapePresets,
+  saveSoundscapePreset,
+  deleteSoundscapePreset,
+  type SoundscapePreset,
+} from '@/lib/soundscapePresets';
+import { registerAudioChannel, getAudioGain } from '@/lib/audioController';
+import { SOUNDSCAPES, type Soundscape } from '@/lib/soundscapes';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W } = Dimensions.get('window');
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Soundscape definitions
-// Replace AUDIO_URL with actual audio file URLs for production
-// ─────────────────────────────────────────────────────────────────────────────
-interface Soundscape {
-  id:         string;
-  label:      string;
-  emoji:      string;
-  description: string;
-  accentColor: string;
-  audioUrl:   string | null;
-}
-
-const SOUNDSCAPES: Soundscape[] = [
-  {
-    id:          'rain',
-    label:       'Soft Rain',
-    emoji:       '🌧️',
-    description: 'Gentle droplets on a quiet roof',
-    accentColor: '#7EC8E3',
-    audioUrl:    null, // Replace with real audio URL
-  },
-  {
-    id:          'ocean',
-    label:       'Ocean Waves',
-    emoji:       '🌊',
-    description: 'Rhythmic tides lulling the shore',
-    accentColor: '#3B82F6',
-    audioUrl:    null,
-  },
-  {
-    id:          'forest',
-    label:       'Forest Crickets',
-    emoji:       '🌿',
-    description: 'Night chorus in a moonlit grove',
-    accentColor: '#6BCB77',
-    audioUrl:    null,
-  },
-  {
-    id:          'cosmos',
-    label:       'Cosmic White Noise',
-    emoji:       '🌌',
-    description: 'The hum of a sleeping universe',
-    accentColor: '#C9A8FF',
-    audioUrl:    null,
-  },
-];
+// Soundscape definitions live in lib/soundscapes
+const DEFAULT_LAYER_VOLUME = 0.5;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Animated sound wave bars (visual feedback when playing)
@@ -304,16 +276,29 @@ interface AmbientMixerProps {
 }
 
 export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
-  const [selectedId,  setSelectedId]  = useState<string | null>(null);
-  const [isPlaying,   setIsPlaying]   = useState(false);
-  const [volume,      setVolume]      = useState(0.5);
-  const [isLoading,   setIsLoading]   = useState(false);
-
-  // expo-av refs
-  const soundRef          = useRef<Audio.Sound | null>(null);
-  const crossfadeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  // Haptic throttle for slider
-  const lastHapticRef     = useRef<number>(0);
+  const { t } = useAppLanguage();
+  // Layer volume per soundscape id – remembered even while a layer is off
+  const [levels,      setLevels]      = useState<Record<string, number>>(
+    () => Object.fromEntries(SOUNDSCAPES.map((s) => [s.id, DEFAULT_LAYER_VOLUME])),
+  );
+  const [activeIds,   setActiveIds]   = useState<string[]>([]);
+  const [loadingIds,  setLoadingIds]  = useState<string[]>([]);
+  const [presets,     setPresets]     = useState<SoundscapePreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [isNaming,    setIsNaming]    = useState(false);
+  const [presetName,  setPresetName]  = useState('');
+
+  // expo-av layers, one Audio.Sound per playing soundscape
+  const soundsRef     = useRef<Record<string, Audio.Sound>>({});
+  // Layers still loading; cancelled when stopped or unmounted before they are ready
+  const loadsRef      = useRef<Map<string, { cancelled: boolean }>>(new Map());
+  const levelsRef     = useRef(levels);
+  // Sleep-timer gain from the shared audio controller, applied on top of each layer
+  const gainRef       = useRef(getAudioGain('ambient'));
+  // Haptic throttle for sliders
+  const lastHapticRef = useRef<number>(0);
+
+  levelsRef.current = levels;
 
   // Sheet slide animation
   const slideY = useSharedValue(300);
@@ -331,6 +316,12 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
     transform: [{ translateY: slideY.value }],
   }));
 
+  // Presets belong to the active child, so reload whenever the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    void getSoundscapePresets().then(setPresets);
+  }, [visible]);
+
   // ── Audio helpers ────────────────────────────────────────────────────────
   const setAudioMode = useCallback(async () => {
     try {
@@ -344,118 +335,97 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
     }
   }, []);
 
-  const unloadCurrent = useCallback(async (fadeDuration = 500) => {
-    if (!soundRef.current) return;
-    const sound = soundRef.current;
-    soundRef.current = null;
-
-    try {
-      // Fade out before unload
-      const steps = 12;
-      const stepTime = fadeDuration / steps;
-      for (let i = steps; i >= 0; i--) {
-        try { await sound.setVolumeAsync((i / steps) * volume); } catch { break; }
-        await new Promise((r) => setTimeout(r, stepTime));
-      }
-      await sound.stopAsync();
-      sound.setOnPlaybackStatusUpdate(null);
-      await sound.unloadAsync();
-    } catch {
-      // ignore cleanup errors
+  /** Step a sound's volume from → to over `duration` ms. */
+  const rampVolume = useCallback(async (sound: Audio.Sound, from: number, to: number, duration: number) => {
+    const steps = 12;
+    const stepTime = duration / steps;
+    for (let i = 1; i <= steps; i++) {
+      try { await sound.setVolumeAsync(from + (to - from) * (i / steps)); } catch { return; }
+      await new Promise((r) => setTimeout(r, stepTime));
     }
-  }, [volume]);
+  }, []);
+
+  /** Fade out and unload a layer. Detaches it first so it can be restarted immediately. */
+  const stopLayer = useCallback(async (id: string, fadeDuration = 500) => {
+    const load = loadsRef.current.get(id);
+    if (load) load.cancelled = true;
+    const sound = soundsRef.current[id];
+    if (!sound) return;
+    delete soundsRef.current[id];
+    setActiveIds((prev) => prev.filter((x) => x !== id));
 
-  /**
-   * Fire-and-forget: fade out and unload a detached sound object.
-   * Used for true crossfade — new sound plays while old fades out concurrently.
-   */
-  const fadeOutAndUnload = useCallback(async (sound: Audio.Sound, fadeDuration: number) => {
     try {
-      const steps = 12;
-      const stepTime = fadeDuration / steps;
-      for (let i = steps; i >= 0; i--) {
-        try { await sound.setVolumeAsync((i / steps) * volume); } catch { break; }
-        await new Promise((r) => setTimeout(r, stepTime));
-      }
+      const from = (levelsRef.current[id] ?? DEFAULT_LAYER_VOLUME) * gainRef.current;
+      await rampVolume(sound, from, 0, fadeDuration);
       sound.setOnPlaybackStatusUpdate(null);
       await sound.stopAsync();
       await sound.unloadAsync();
     } catch {
-      // ignore cleanup errors during crossfade
-    }
-  }, [volume]);
-
-  const playSound = useCallback(async (soundscape: Soundscape, fadeIn = true) => {
-    if (!soundscape.audioUrl) {
-      // No audio URL – just update UI state
-      setIsPlaying(true);
-      return;
+      // ignore cleanup errors
     }
+  }, [rampVolume]);
 
-    setIsLoading(true);
-    await setAudioMode();
+  const startLayer = useCallback(async (soundscape: Soundscape, volume?: number) => {
+    if (soundsRef.current[soundscape.id] || loadsRef.current.has(soundscape.id)) return;
+    const target = volume ?? levelsRef.current[soundscape.id] ?? DEFAULT_LAYER_VOLUME;
+    const load = { cancelled: false };
+    loadsRef.current.set(soundscape.id, load);
 
+    setLoadingIds((prev) => [...prev, soundscape.id]);
     try {
+      await setAudioMode();
       const { sound } = await Audio.Sound.createAsync(
-        { uri: soundscape.audioUrl },
+        soundscape.source,
         {
-          isLooping:   true,
-          volume:      fadeIn ? 0 : volume,
-          shouldPlay:  true,
+          isLooping:  true,
+          volume:     0,
+          shouldPlay: true,
         }
       );
 
-      soundRef.current = sound;
-      setIsPlaying(true);
-
-      // Fade in
-      if (fadeIn) {
-        const steps = 10;
-        const stepTime = 600 / steps;
-        for (let i = 0; i <= steps; i++) {
-          try { await sound.setVolumeAsync((i / steps) * volume); } catch { break; }
-          await new Promise((r) => setTimeout(r, stepTime));
-        }
+      // Stopped (or the mixer unmounted) while loading – nothing may keep playing
+      if (load.cancelled) {
+        try {
+          await sound.stopAsync();
+          await sound.unloadAsync();
+        } catch { /* ignore */ }
+        return;
       }
-    } catch {
-      // Audio URL not reachable – still show as "playing" visually
-      setIsPlaying(true);
+      soundsRef.current[soundscape.id] = sound;
+      setActiveIds((prev) => (prev.includes(soundscape.id) ? prev : [...prev, soundscape.id]));
+      await rampVolume(sound, 0, target * gainRef.current, 600);
+    } catch (err) {
+      console.warn('[AmbientMixer] Could not start layer:', soundscape.id, err);
     } finally {
-      setIsLoading(false);
+      loadsRef.current.delete(soundscape.id);
+      setLoadingIds((prev) => prev.filter((x) => x !== soundscape.id));
     }
-  }, [volume, setAudioMode]);
-
-  // ── Select soundscape ────────────────────────────────────────────────────
-  const handleSelect = useCallback(async (soundscape: Soundscape) => {
-    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+  }, [setAudioMode, rampVolume]);
 
-    if (selectedId === soundscape.id && isPlaying) {
-      // Tap active soundscape → stop with fade out
-      setIsPlaying(false);
-      await unloadCurrent(500);
-      setSelectedId(null);
-      return;
-    }
+  const stopAll = useCallback(async (fadeDuration = 600) => {
+    const ids = new Set([...Object.keys(soundsRef.current), ...loadsRef.current.keys()]);
+    await Promise.all([...ids].map((id) => stopLayer(id, fadeDuration)));
+  }, [stopLayer]);
 
-    setSelectedId(soundscape.id);
+  // ── Toggle a layer ───────────────────────────────────────────────────────
+  const handleToggle = useCallback(async (soundscape: Soundscape) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setActivePresetId(null);
 
-    // True crossfade: detach current sound and fade it out concurrently
-    // while the new sound fades in. Both run simultaneously for smooth overlap.
-    if (soundRef.current) {
-      const outgoing = soundRef.current;
-      soundRef.current = null; // detach so playSound owns the new slot
-      void fadeOutAndUnload(outgoing, 650); // fire-and-forget 650 ms fade-out
+    if (soundsRef.current[soundscape.id]) {
+      await stopLayer(soundscape.id);
+    } else {
+      await startLayer(soundscape);
     }
-
-    // New sound fades in (600 ms) while old fades out – audible crossfade
-    await playSound(soundscape);
-  }, [selectedId, isPlaying, unloadCurrent, fadeOutAndUnload, playSound]);
-
-  // ── Volume change ────────────────────────────────────────────────────────
-  const handleVolumeChange = useCallback(async (newVol: number) => {
-    setVolume(newVol);
-    if (soundRef.current) {
-      try { await soundRef.current.setVolumeAsync(newVol); } catch { /* ignore */ }
+  }, [startLayer, stopLayer]);
+
+  // ── Layer volume change ──────────────────────────────────────────────────
+  const handleLevelChange = useCallback(async (id: string, newVol: number) => {
+    setLevels((prev) => ({ ...prev, [id]: newVol }));
+    setActivePresetId(null);
+    const sound = soundsRef.current[id];
+    if (sound) {
+      try { await sound.setVolumeAsync(newVol * gainRef.current); } catch { /* ignore */ }
     }
     // Throttle haptics to every 90 ms so the slider doesn't buzz continuously
     const now = Date.now();
@@ -465,47 +435,125 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
     }
   }, []);
 
-  // ── Stop all on close ─────────────────────────────────────────────────────
-  const handleClose = useCallback(async () => {
+  // ── Presets ──────────────────────────────────────────────────────────────
+  const handleApplyPreset = useCallback(async (preset: SoundscapePreset) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setActivePresetId(preset.id);
+    setLevels((prev) => ({ ...prev, ...preset.levels }));
+
+    await Promise.all(SOUNDSCAPES.map(async (sc) => {
+      const target = preset.levels[sc.id] ?? 0;
+      const sound = soundsRef.current[sc.id];
+      if (target <= 0) {
+        await stopLayer(sc.id);
+      } else if (sound) {
+        const from = (levelsRef.current[sc.id] ?? DEFAULT_LAYER_VOLUME) * gainRef.current;
+        await rampVolume(sound, from, target * gainRef.current, 400);
+      } else {
+        await startLayer(sc, target);
+      }
+    }));
+  }, [startLayer, stopLayer, rampVolume]);
+
+  const handleSavePreset = useCallback(async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const mix = Object.fromEntries(activeIds.map((id) => [id, levelsRef.current[id] ?? DEFAULT_LAYER_VOLUME]));
+    const updated = await saveSoundscapePreset(name, mix);
+    void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setPresets(updated);
+    setActivePresetId(updated[0]?.id ?? null);
+    setPresetName('');
+    setIsNaming(false);
+  }, [presetName, activeIds]);
+
+  const handleDeletePreset = useCallback((preset: SoundscapePreset) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      t('mixer.removeTitle'),
+      t('mixer.removeMessage', { name: preset.name }),
+      [
+        { text: t('mixer.keep'), style: 'cancel' },
+        {
+          text: t('mixer.remove'),
+          style: 'destructive',
+          onPress: () => {
+            void deleteSoundscapePreset(preset.id).then(setPresets);
+            setActivePresetId((prev) => (prev === preset.id ? null : prev));
+          },
+        },
+      ],
+    );
+  }, [t]);
+
+  // ── Stop all / close ──────────────────────────────────────────────────────
+  const handleStopAll = useCallback(async () => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setActivePresetId(null);
+    await stopAll();
+  }, [stopAll]);
+
+  const handleClose = useCallback(() => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsNaming(false);
+    // The mix keeps playing under the story – closing only hides the sheet
     onClose();
-    // Fade out and stop audio after modal closes
-    setTimeout(() => void unloadCurrent(600), 300);
-  }, [onClose, unloadCurrent]);
+  }, [onClose]);
+
+  // ── Shared audio controller (sleep timer fade / hard stop) ─────────────────
+  useEffect(() => {
+    return registerAudioChannel('ambient', {
+      setGain: async (gain) => {
+        gainRef.current = gain;
+        await Promise.all(Object.entries(soundsRef.current).map(async ([id, sound]) => {
+          try {
+            await sound.setVolumeAsync((levelsRef.current[id] ?? DEFAULT_LAYER_VOLUME) * gain);
+          } catch { /* ignore */ }
+        }));
+      },
+      stop: () => {
+        setActivePresetId(null);
+        return stopAll(1200);
+      },
+    });
+  }, [stopAll]);
 
   // ── Cleanup on unmount ────────────────────────────────────────────────────
   useEffect(() => {
     // Capture refs outside cleanup so lint is satisfied
-    const timerRef = crossfadeTimerRef;
-    const sndRef = soundRef;
+    const layersRef = soundsRef;
+    const loads     = loadsRef.current;
     return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
-      void (async () => {
-        if (sndRef.current) {
+      loads.forEach((load) => { load.cancelled = true; });
+      const sounds = Object.values(layersRef.current);
+      layersRef.current = {};
+      sounds.forEach((sound) => {
+        void (async () => {
           try {
-            sndRef.current.setOnPlaybackStatusUpdate(null);
-            await sndRef.current.stopAsync();
-            await sndRef.current.unloadAsync();
+            sound.setOnPlaybackStatusUpdate(null);
+            await sound.stopAsync();
+            await sound.unloadAsync();
           } catch { /* ignore */ }
-        }
-      })();
+        })();
+      });
     };
   }, []);
 
-  const selectedSoundscape = SOUNDSCAPES.find((s) => s.id === selectedId);
-  const accentColor = selectedSoundscape?.accentColor ?? Colors.celestialGold;
+  const activeLayers = SOUNDSCAPES.filter((s) => activeIds.includes(s.id));
+  const isPlaying = activeLayers.length > 0;
+  const accentColor = activeLayers[0]?.accentColor ?? Colors.celestialGold;
 
   return (
     <Modal
       visible={visible}
       transparent
       animationType="none"
-      onRequestClose={() => void handleClose()}
+      onRequestClose={handleClose}
     >
       <TouchableOpacity
         style={styles.overlay}
         activeOpacity={1}
-        onPress={() => void handleClose()}
+        onPress={handleClose}
       >
         <Animated.View style={[styles.sheet, sheetStyle]}>
           <TouchableOpacity activeOpacity={1} onPress={() => { /* prevent close */ }}>
@@ -529,22 +577,83 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
               {/* Header */}
               <View style={styles.sheetHeader}>
                 <View>
-                  <Text style={styles.sheetTitle}>🌊  Sound Waves</Text>
+                  <Text style={styles.sheetTitle}>{t('mixer.title')}</Text>
                   <Text style={styles.sheetSubtitle}>
-                    {isPlaying && selectedSoundscape
-                      ? `Playing: ${selectedSoundscape.label}`
-                      : 'Choose an ambient soundscape'}
+                    {isPlaying
+                      ? activeLayers.length === 1 ? t('mixer.mixingOne') : t('mixer.mixing', { count: activeLayers.length })
+                      : t('mixer.idle')}
                   </Text>
                 </View>
-                {isPlaying && selectedSoundscape && (
+                {isPlaying && (
                   <SoundWaveBars color={accentColor} isPlaying={isPlaying} />
                 )}
               </View>
 
-              {/* Sound options grid */}
+              {/* Saved mixes for this child */}
+              {(presets.length > 0 || isPlaying) && (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.presetRow}
+                >
+                  {presets.map((preset) => {
+                    const isActive = preset.id === activePresetId;
+                    return (
+                      <TouchableOpacity
+                        key={preset.id}
+                        style={[styles.presetChip, isActive && styles.presetChipActive]}
+                        onPress={() => void handleApplyPreset(preset)}
+                        onLongPress={() => handleDeletePreset(preset)}
+                        activeOpacity={0.8}
+                      >
+                        <Text style={styles.presetEmoji}>
+                          {SOUNDSCAPES.filter((s) => (preset.levels[s.id] ?? 0) > 0).map((s) => s.emoji).join('')}
+                        </Text>
+                        <Text style={[styles.presetName, isActive && styles.presetNameActive]} numberOfLines={1}>
+                          {preset.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                  {isPlaying && !isNaming && (
+                    <TouchableOpacity
+                      style={[styles.presetChip, styles.presetSaveChip]}
+                      onPress={() => setIsNaming(true)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={styles.presetSaveText}>{t('mixer.saveMix')}</Text>
+                    </TouchableOpacity>
+                  )}
+                </ScrollView>
+              )}
+
+              {isNaming && (
+                <View style={styles.nameRow}>
+                  <TextInput
+                    style={styles.nameInput}
+                    placeholder={t('mixer.namePlaceholder')}
+                    placeholderTextColor={Colors.textMuted}
+                    value={presetName}
+                    onChangeText={setPresetName}
+                    maxLength={24}
+                    autoFocus
+                    returnKeyType="done"
+                    onSubmitEditing={() => void handleSavePreset()}
+                  />
+                  <TouchableOpacity
+                    style={[styles.nameSaveBtn, !presetName.trim() && { opacity: 0.4 }]}
+                    onPress={() => void handleSavePreset()}
+                    disabled={!presetName.trim()}
+                  >
+                    <Text style={styles.nameSaveText}>{t('mixer.save')}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Sound layers grid */}
               <View style={styles.soundGrid}>
                 {SOUNDSCAPES.map((sc) => {
-                  const isActive = sc.id === selectedId && isPlaying;
+                  const isActive = activeIds.includes(sc.id);
                   return (
                     <TouchableOpacity
                       key={sc.id}
@@ -552,7 +661,8 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
                         styles.soundCard,
                         isActive && { borderColor: sc.accentColor, borderWidth: 2 },
                       ]}
-                      onPress={() => void handleSelect(sc)}
+                      onPress={() => void handleToggle(sc)}
+                      disabled={loadingIds.includes(sc.id)}
                       activeOpacity={0.8}
                     >
                       {isActive && (
@@ -564,16 +674,16 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
 
                       <Text style={styles.soundEmoji}>{sc.emoji}</Text>
                       <Text style={[styles.soundLabel, isActive && { color: sc.accentColor }]}>
-                        {sc.label}
+                        {t(sc.label)}
                       </Text>
                       <Text style={styles.soundDesc} numberOfLines={2}>
-                        {sc.description}
+                        {t(sc.description)}
                       </Text>
 
                       {isActive && (
                         <View style={[styles.playingDot, { backgroundColor: sc.accentColor }]} />
                       )}
-                      {isLoading && sc.id === selectedId && (
+                      {loadingIds.includes(sc.id) && (
                         <View style={styles.loadingOverlay}>
                           <StardustLoader size={28} color={sc.accentColor} />
                         </View>
@@ -583,24 +693,34 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
                 })}
               </View>
 
-              {/* Volume Mixer */}
+              {/* Volume Mixer – one slider per playing layer */}
               <View style={styles.volumeSection}>
-                <View style={styles.volumeHeader}>
-                  <Text style={styles.volumeLabel}>Ambient Volume</Text>
-                  <Text style={[styles.volumeValue, { color: accentColor }]}>
-                    {Math.round(volume * 100)}%
+                {activeLayers.length === 0 ? (
+                  <Text style={styles.volumeHint}>
+                    {t('mixer.hint')}
                   </Text>
-                </View>
-                <VolumeSlider
-                  value={volume}
-                  onChange={(v) => void handleVolumeChange(v)}
-                  accentColor={accentColor}
-                />
-                <Text style={styles.volumeHint}>
-                  {isPlaying
-                    ? 'Mix with narrator voice for the perfect sleep soundscape'
-                    : 'Select a sound above to begin mixing'}
-                </Text>
+                ) : (
+                  <>
+                    {activeLayers.map((sc) => (
+                      <View key={sc.id}>
+                        <View style={styles.volumeHeader}>
+                          <Text style={styles.volumeLabel}>{sc.emoji}  {t(sc.label)}</Text>
+                          <Text style={[styles.volumeValue, { color: sc.accentColor }]}>
+                            {Math.round((levels[sc.id] ?? DEFAULT_LAYER_VOLUME) * 100)}%
+                          </Text>
+                        </View>
+                        <VolumeSlider
+                          value={levels[sc.id] ?? DEFAULT_LAYER_VOLUME}
+                          onChange={(v) => void handleLevelChange(sc.id, v)}
+                          accentColor={sc.accentColor}
+                        />
+                      </View>
+                    ))}
+                    <Text style={styles.volumeHint}>
+                      {t('mixer.narratorHint')}
+                    </Text>
+                  </>
+                )}
               </View>
 
               {/* Stop / Close */}
@@ -608,21 +728,21 @@ export default function AmbientMixer({ visible, onClose }: AmbientMixerProps) {
                 {isPlaying && (
                   <TouchableOpacity
                     style={styles.stopBtn}
-                    onPress={() => void handleSelect(selectedSoundscape!)}
+                    onPress={() => void handleStopAll()}
                   >
-                    <Text style={styles.stopBtnText}>⏹ Stop Sound</Text>
+                    <Text style={styles.stopBtnText}>{t('mixer.stopAll')}</Text>
                   </TouchableOpacity>
                 )}
                 <TouchableOpacity
                   style={[styles.doneBtn, !isPlaying && styles.doneBtnFull]}
-                  onPress={() => void handleClose()}
+                  onPress={handleClose}
                 >
                   <LinearGradient
                     colors={[Colors.celestialGold, Colors.softGold]}
                     start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                     style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                   />
-                  <Text style={styles.doneBtnText}>Done</Text>
+                  <Text style={styles.doneBtnText}>{t('common.done')}</Text>
                 </TouchableOpacity>
               </View>
             </View>
@@ -687,6 +807,75 @@ const styles = StyleSheet.create({
     marginTop:  2,
   },
 
+  // Saved mixes — glass chips
+  presetRow: {
+    gap:          8,
+    paddingRight: 4,
+  },
+  presetChip: {
+    flexDirection:     'row',
+    alignItems:        'center',
+    gap:               6,
+    maxWidth:          180,
+    paddingHorizontal: 14,
+    paddingVertical:   8,
+    borderRadius:      Radius.full,
+    backgroundColor:   'rgba(255,255,255,0.07)',
+    borderWidth:       1,
+    borderColor:       'rgba(255,255,255,0.14)',
+  },
+  presetChipActive: {
+    borderColor:     Colors.celestialGold,
+    backgroundColor: 'rgba(255,215,0,0.12)',
+  },
+  presetEmoji: { fontSize: 13 },
+  presetName: {
+    fontFamily: Fonts.bold,
+    fontSize:   13,
+    color:      'rgba(240,235,248,0.80)',
+    flexShrink: 1,
+  },
+  presetNameActive: {
+    color: Colors.celestialGold,
+  },
+  presetSaveChip: {
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255,215,0,0.45)',
+  },
+  presetSaveText: {
+    fontFamily: Fonts.bold,
+    fontSize:   13,
+    color:      Colors.celestialGold,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems:    'center',
+    gap:           10,
+  },
+  nameInput: {
+    flex:              1,
+    backgroundColor:   Colors.inputBg,
+    borderRadius:      Radius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical:   10,
+    fontFamily:        Fonts.bold,
+    fontSize:          14,
+    color:             Colors.moonlightCream,
+    borderWidth:       1,
+    borderColor:       Colors.borderColor,
+  },
+  nameSaveBtn: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical:   10,
+    borderRadius:      Radius.full,
+    backgroundColor:   Colors.celestialGold,
+  },
+  nameSaveText: {
+    fontFamily: Fonts.extraBold,
+    fontSize:   14,
+    color:      Colors.deepSpace,
+  },
+
   // Sound grid — glass cards
   soundGrid: {
     flexDirection: 'row',
@@ -19,6 +19,7 @@ import Animated, {
   Extrapolation,
 } from 'react-native-reanimated';
 import { Colors, Fonts } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 interface ChoiceTimerProps {
   duration: number;       // Total seconds
@@ -34,6 +35,7 @@ export default function ChoiceTimer({
   size = 72,
   color = Colors.celestialGold,
 }: ChoiceTimerProps) {
+  const { t } = useAppLanguage();
   const progress = timeLeft / duration; // 1.0 → 0.0
 
   // Pulsating glow
@@ -162,7 +164,7 @@ export default function ChoiceTimer({
         <Text style={[styles.timeText, { color: urgencyColor, fontSize: size * 0.28 }]}>
           {timeLeft}
         </Text>
-        <Text style={[styles.secLabel, { fontSize: size * 0.14 }]}>sec</Text>
+        <Text style={[styles.secLabel, { fontSize: size * 0.14 }]}>{t('player.choiceSeconds')}</Text>
       </View>
     </View>
   );
@@ -34,6 +34,7 @@ import Animated, {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import type { Story } from '@/lib/supabase';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W } = Dimensions.get('window');
 const COLLECTIONS_KEY = 'story_collections';
@@ -90,6 +91,7 @@ function CreateCollectionSheet({
   onSave: (name: string, emoji: string) => void;
   onCancel: () => void;
 }) {
+  const { t } = useAppLanguage();
   const [name,         setName]         = useState('');
   const [selectedEmoji, setSelectedEmoji] = useState('🌟');
   const slideY = useSharedValue(200);
@@ -120,11 +122,11 @@ function CreateCollectionSheet({
       />
       <View style={createStyles.content}>
         <View style={createStyles.handle} />
-        <Text style={createStyles.title}>✨  New Collection</Text>
-        <Text style={createStyles.subtitle}>Group stories for the perfect bedtime routine</Text>
+        <Text style={createStyles.title}>{t('collections.newTitle')}</Text>
+        <Text style={createStyles.subtitle}>{t('collections.newSubtitle')}</Text>
 
         {/* Emoji picker */}
-        <Text style={createStyles.label}>Choose an Icon</Text>
+        <Text style={createStyles.label}>{t('collections.chooseIcon')}</Text>
         <ScrollView horizontal showsHorizontalScrollIndicator={false} style={createStyles.emojiRow}>
           {COLLECTION_EMOJIS.map((e) => (
             <TouchableOpacity
@@ -147,10 +149,10 @@ function CreateCollectionSheet({
         </ScrollView>
 
         {/* Name input */}
-        <Text style={createStyles.label}>Collection Name</Text>
+        <Text style={createStyles.label}>{t('collections.name')}</Text>
         <TextInput
           style={createStyles.input}
-          placeholder="e.g. Weekend Adventures"
+          placeholder={t('collections.namePlaceholder')}
           placeholderTextColor={Colors.textMuted}
           value={name}
           onChangeText={setName}
@@ -171,7 +173,7 @@ function CreateCollectionSheet({
         {/* Actions */}
         <View style={createStyles.actions}>
           <TouchableOpacity style={createStyles.cancelBtn} onPress={onCancel}>
-            <Text style={createStyles.cancelText}>Cancel</Text>
+            <Text style={createStyles.cancelText}>{t('common.cancel')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={[createStyles.saveBtn, !name.trim() && createStyles.saveBtnDisabled]}
@@ -184,7 +186,7 @@ function CreateCollectionSheet({
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
             />
             <Text style={[createStyles.saveText, !name.trim() && createStyles.saveTextDisabled]}>
-              Create Collection
+              {t('collections.create')}
             </Text>
           </TouchableOpacity>
         </View>
@@ -264,6 +266,7 @@ function CollectionCard({
   onPlay:     () => void;
   onDelete:   () => void;
 }) {
+  const { t } = useAppLanguage();
   const stories = allStories.filter((s) => collection.story_ids.includes(s.id)).slice(0, 3);
   const playable = stories.filter((s) => s.content).length;
 
@@ -282,8 +285,10 @@ function CollectionCard({
           <Text style={cardStyles.name} numberOfLines={1}>{collection.name}</Text>
           <Text style={cardStyles.count}>
             {collection.story_ids.length === 0
-              ? 'No stories yet'
-              : `${collection.story_ids.length} stor${collection.story_ids.length === 1 ? 'y' : 'ies'}`}
+              ? t('collections.noStories')
+              : collection.story_ids.length === 1
+                ? t('collections.storyCountOne')
+                : t('collections.storyCount', { count: collection.story_ids.length })}
           </Text>
         </View>
         <TouchableOpacity
@@ -333,7 +338,9 @@ function CollectionCard({
           cardStyles.playBtnText,
           playable === 0 && cardStyles.playBtnTextDisabled,
         ]}>
-          {playable > 0 ? `Play Series  (${playable} stories)` : 'Add stories to play'}
+          {playable === 0
+            ? t('collections.addToPlay')
+            : playable === 1 ? t('collections.playSeriesOne') : t('collections.playSeries', { count: playable })}
         </Text>
       </TouchableOpacity>
     </View>
@@ -413,6 +420,7 @@ export default function CollectionModal({
   allStories,
   onPlaySeries,
 }: CollectionModalProps) {
+  const { t } = useAppLanguage();
   const [collections,   setCollections]   = useState<StoryCollection[]>([]);
   const [showCreate,    setShowCreate]    = useState(false);
   const [showAddStory,  setShowAddStory]  = useState(false);
@@ -518,8 +526,8 @@ export default function CollectionModal({
             {/* Header */}
             <View style={styles.header}>
               <View>
-                <Text style={styles.title}>📚  My Collections</Text>
-                <Text style={styles.subtitle}>Organise stories into series</Text>
+                <Text style={styles.title}>{t('collections.title')}</Text>
+                <Text style={styles.subtitle}>{t('collections.subtitle')}</Text>
               </View>
               <TouchableOpacity
                 style={styles.newBtn}
@@ -533,7 +541,7 @@ export default function CollectionModal({
                   start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                   style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                 />
-                <Text style={styles.newBtnText}>+ New</Text>
+                <Text style={styles.newBtnText}>{t('collections.new')}</Text>
               </TouchableOpacity>
             </View>
 
@@ -546,9 +554,9 @@ export default function CollectionModal({
               {collections.length === 0 ? (
                 <View style={styles.emptyState}>
                   <Text style={styles.emptyEmoji}>📂</Text>
-                  <Text style={styles.emptyTitle}>No Collections Yet</Text>
+                  <Text style={styles.emptyTitle}>{t('collections.emptyTitle')}</Text>
                   <Text style={styles.emptyDesc}>
-                    Create a collection to group stories into a perfect bedtime series
+                    {t('collections.empty')}
                   </Text>
                   <TouchableOpacity
                     style={styles.emptyCreateBtn}
@@ -562,7 +570,7 @@ export default function CollectionModal({
                       start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
                       style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                     />
-                    <Text style={styles.emptyCreateText}>Create First Collection</Text>
+                    <Text style={styles.emptyCreateText}>{t('collections.createFirst')}</Text>
                   </TouchableOpacity>
                 </View>
               ) : (
@@ -584,7 +592,7 @@ export default function CollectionModal({
                           setShowAddStory(true);
                         }}
                       >
-                        <Text style={styles.addStoryBtnText}>+ Add Story to Collection</Text>
+                        <Text style={styles.addStoryBtnText}>{t('collections.addStory')}</Text>
                       </TouchableOpacity>
                     </View>
                   ))}
@@ -594,7 +602,7 @@ export default function CollectionModal({
 
             {/* Done button */}
             <TouchableOpacity style={styles.doneBtn} onPress={onClose}>
-              <Text style={styles.doneBtnText}>Done</Text>
+              <Text style={styles.doneBtnText}>{t('common.done')}</Text>
             </TouchableOpacity>
           </View>
         </Animated.View>
@@ -640,7 +648,7 @@ export default function CollectionModal({
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
             />
             <View style={styles.storyPickerContent}>
-              <Text style={styles.storyPickerTitle}>Add a Story</Text>
+              <Text style={styles.storyPickerTitle}>{t('collections.pickerTitle')}</Text>
               <ScrollView style={styles.storyPickerList} showsVerticalScrollIndicator={false}>
                 {allStories.filter((s) => s.content).map((story) => {
                   const col = collections.find((c) => c.id === targetCollId);
@@ -659,7 +667,7 @@ export default function CollectionModal({
                       <Text style={styles.storyPickerEmoji}>📖</Text>
                       <Text style={styles.storyPickerName} numberOfLines={1}>{story.title}</Text>
                       <Text style={[styles.storyPickerStatus, alreadyAdded && { color: Colors.celestialGold }]}>
-                        {alreadyAdded ? '✓ Added' : '+'}
+                        {alreadyAdded ? t('collections.added') : '+'}
                       </Text>
                     </TouchableOpacity>
                   );
@@ -669,7 +677,7 @@ export default function CollectionModal({
                 style={styles.storyPickerClose}
                 onPress={() => setShowAddStory(false)}
               >
-                <Text style={styles.storyPickerCloseText}>Close</Text>
+                <Text style={styles.storyPickerCloseText}>{t('collections.close')}</Text>
               </TouchableOpacity>
             </View>
           </View>
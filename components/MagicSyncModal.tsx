@@ -39,6 +39,7 @@ import Animated, {
 import MagicDustEffect from './MagicDustEffect';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import type { LocalDataSummary, MigrationResult } from '@/lib/migrationService';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W, height: H } = Dimensions.get('window');
 
@@ -127,6 +128,7 @@ export default function MagicSyncModal({
   onConfirm,
   onDismiss,
 }: MagicSyncModalProps) {
+  const { t } = useAppLanguage();
   const cardOpacity    = useSharedValue(0);
   const cardTransY     = useSharedValue(60);
   const overlayOpacity = useSharedValue(0);
@@ -186,9 +188,9 @@ export default function MagicSyncModal({
       return (
         <View style={styles.syncingBody}>
           <SpinningOrb />
-          <Text style={styles.syncingTitle}>Weaving the magic…</Text>
+          <Text style={styles.syncingTitle}>{t('magicSync.syncingTitle')}</Text>
           <Text style={styles.syncingSubtitle}>
-            Moving your stories to the cloud ☁️
+            {t('magicSync.syncing')}
           </Text>
           <View style={styles.syncingDots}>
             {[0, 1, 2].map((i) => <SyncDot key={i} delay={i * 200} />)}
@@ -202,11 +204,11 @@ export default function MagicSyncModal({
       return (
         <View style={styles.successBody}>
           <Text style={styles.successEmoji}>🌟</Text>
-          <Text style={styles.successTitle}>Magic Sync Complete!</Text>
+          <Text style={styles.successTitle}>{t('magicSync.successTitle')}</Text>
           <Text style={styles.successSubtitle}>
             {total > 0
-              ? `${total} item${total !== 1 ? 's' : ''} safely stored in the cloud ✨`
-              : 'Your data is now safely stored in the cloud ✨'}
+              ? total === 1 ? t('magicSync.storedOne') : t('magicSync.stored', { count: total })
+              : t('magicSync.storedAll')}
           </Text>
           <TouchableOpacity style={styles.doneButton} onPress={handleDismiss} activeOpacity={0.85}>
             <LinearGradient
@@ -215,7 +217,7 @@ export default function MagicSyncModal({
               end={{ x: 1, y: 0 }}
               style={styles.doneButtonGradient}
             >
-              <Text style={styles.doneButtonText}>Continue to My Stories ›</Text>
+              <Text style={styles.doneButtonText}>{t('magicSync.continue')}</Text>
             </LinearGradient>
           </TouchableOpacity>
         </View>
@@ -226,11 +228,11 @@ export default function MagicSyncModal({
       return (
         <View style={styles.errorBody}>
           <Text style={styles.errorEmoji}>⚠️</Text>
-          <Text style={styles.errorTitle}>Sync Incomplete</Text>
+          <Text style={styles.errorTitle}>{t('magicSync.errorTitle')}</Text>
           <Text style={styles.errorSubtitle}>
             {migrationResult && migrationResult.totalMigrated > 0
-              ? `Moved ${migrationResult.totalMigrated} items — a few couldn't be transferred. You can retry from Settings.`
-              : 'Unable to reach the cloud right now. Your data is safe locally — try again from Settings.'}
+              ? t('magicSync.partial', { count: migrationResult.totalMigrated })
+              : t('magicSync.offline')}
           </Text>
           <TouchableOpacity style={styles.doneButton} onPress={handleDismiss} activeOpacity={0.85}>
             <LinearGradient
@@ -238,7 +240,7 @@ export default function MagicSyncModal({
               style={styles.doneButtonGradient}
             >
               <Text style={[styles.doneButtonText, { color: Colors.textMuted }]}>
-                Maybe Later
+                {t('common.maybeLater')}
               </Text>
             </LinearGradient>
           </TouchableOpacity>
@@ -261,20 +263,19 @@ export default function MagicSyncModal({
 
         <Text style={styles.title}>Magic Sync</Text>
         <Text style={styles.subtitle}>
-          We found creations from before you signed in.{'\n'}
-          Move them to the cloud to keep them safe forever.
+          {t('magicSync.subtitle')}
         </Text>
 
         {/* Data summary badges */}
         <View style={styles.badgesRow}>
           {summary.childCount > 0 && (
-            <DataBadge icon="👶" label="Profile" count={summary.childCount} />
+            <DataBadge icon="👶" label={t('magicSync.profile')} count={summary.childCount} />
           )}
           {summary.storyCount > 0 && (
-            <DataBadge icon="📖" label={summary.storyCount === 1 ? 'Story' : 'Stories'} count={summary.storyCount} />
+            <DataBadge icon="📖" label={summary.storyCount === 1 ? t('magicSync.storyOne') : t('magicSync.stories')} count={summary.storyCount} />
           )}
           {summary.voiceCount > 0 && (
-            <DataBadge icon="🎙️" label={summary.voiceCount === 1 ? 'Voice' : 'Voices'} count={summary.voiceCount} />
+            <DataBadge icon="🎙️" label={summary.voiceCount === 1 ? t('magicSync.voiceOne') : t('magicSync.voices')} count={summary.voiceCount} />
           )}
         </View>
 
@@ -288,14 +289,14 @@ export default function MagicSyncModal({
               style={styles.ctaButton}
             >
               <Text style={styles.ctaIcon}>☁️</Text>
-              <Text style={styles.ctaLabel}>Move to Cloud</Text>
+              <Text style={styles.ctaLabel}>{t('magicSync.move')}</Text>
             </LinearGradient>
           </TouchableOpacity>
         </Animated.View>
 
         {/* Dismiss */}
         <TouchableOpacity onPress={handleDismiss} activeOpacity={0.7} style={styles.keepLocalBtn}>
-          <Text style={styles.keepLocalText}>Keep local for now</Text>
+          <Text style={styles.keepLocalText}>{t('magicSync.keepLocal')}</Text>
         </TouchableOpacity>
       </Animated.View>
     );
@@ -37,18 +37,42 @@ import Animated, {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { generateText } from '@fastshot/ai';
 import { getCached, setCached, previewCacheKey } from '@/lib/magicCache';
+import { getAppLanguage, translate, type StringKey } from '@/lib/i18n';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
 import {
   NARRATOR_PERSONALITIES,
   buildNarratorPreviewPrompt,
   type NarratorPersonality,
+  type NarratorStyle,
 } from '@/lib/newell';
 import { trackNarratorSelected } from '@/lib/analytics';
+import { childStorageKey, getActiveChild } from '@/lib/activeChild';
+import { moderateText } from '@/lib/contentSafety';
 
 const { width: W } = Dimensions.get('window');
 const CARD_SIZE = 110;
 const STORAGE_KEY = 'selected_narrator_id';
 
+// Translated display copy per narrator – NARRATOR_PERSONALITIES keeps the
+// English species the prompts use
+export const NARRATOR_COPY: Record<string, { species: StringKey; description: StringKey; tagline: StringKey; preview: StringKey }> = {
+  luna:      { species: 'narrators.lunaSpecies', description: 'narrators.lunaDesc', tagline: 'narrators.lunaTagline', preview: 'narrators.lunaPreview' },
+  barnaby:   { species: 'narrators.barnabySpecies', description: 'narrators.barnabyDesc', tagline: 'narrators.barnabyTagline', preview: 'narrators.barnabyPreview' },
+  cosmo:     { species: 'narrators.cosmoSpecies', description: 'narrators.cosmoDesc', tagline: 'narrators.cosmoTagline', preview: 'narrators.cosmoPreview' },
+  aria:      { species: 'narrators.ariaSpecies', description: 'narrators.ariaDesc', tagline: 'narrators.ariaTagline', preview: 'narrators.ariaPreview' },
+  rex:       { species: 'narrators.rexSpecies', description: 'narrators.rexDesc', tagline: 'narrators.rexTagline', preview: 'narrators.rexPreview' },
+  seraphina: { species: 'narrators.seraphinaSpecies', description: 'narrators.seraphinaDesc', tagline: 'narrators.seraphinaTagline', preview: 'narrators.seraphinaPreview' },
+};
+
+const STYLE_LABELS: Record<NarratorStyle, StringKey> = {
+  'whisper':      'narrators.styleWhisper',
+  'wise':         'narrators.styleWise',
+  'enthusiastic': 'narrators.styleEnthusiastic',
+  'slow-paced':   'narrators.styleSlowPaced',
+  'dramatic':     'narrators.styleDramatic',
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Character Card
 // ─────────────────────────────────────────────────────────────────────────────
@@ -67,6 +91,8 @@ function CharacterCard({
   onPreview: () => void;
   onLockedPress: () => void;
 }) {
+  const { t } = useAppLanguage();
+  const copy        = NARRATOR_COPY[narrator.id];
   const glowOpacity = useSharedValue(isSelected ? 1 : 0);
   const pulseScale  = useSharedValue(1);
   const emojiScale  = useSharedValue(1);
@@ -160,12 +186,12 @@ function CharacterCard({
         <Text style={[styles.cardName, isSelected && { color: narrator.accentColor }]}>
           {narrator.name}
         </Text>
-        <Text style={styles.cardSpecies}>{narrator.species}</Text>
+        <Text style={styles.cardSpecies}>{t(copy.species)}</Text>
 
         {/* Style tag */}
         <View style={[styles.styleTag, { backgroundColor: `${narrator.accentColor}22` }]}>
           <Text style={[styles.styleTagText, { color: narrator.accentColor }]}>
-            {narrator.style}
+            {t(STYLE_LABELS[narrator.style])}
           </Text>
         </View>
 
@@ -184,7 +210,7 @@ function CharacterCard({
             <View style={styles.lockIconWrapper}>
               <Text style={styles.lockIcon}>🔒</Text>
             </View>
-            <Text style={styles.lockLabel}>Pro</Text>
+            <Text style={styles.lockLabel}>{t('narrators.pro')}</Text>
           </View>
         )}
       </TouchableOpacity>
@@ -200,7 +226,7 @@ function CharacterCard({
         hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
       >
         <Text style={[styles.previewBtnText, isLocked && styles.previewBtnTextLocked]}>
-          {isLocked ? '🔒 Unlock' : '▷ Preview'}
+          {isLocked ? t('narrators.unlock') : t('narrators.preview')}
         </Text>
       </TouchableOpacity>
     </Animated.View>
@@ -221,6 +247,7 @@ function PreviewModal({
   childName?: string;
   onClose: () => void;
 }) {
+  const { t } = useAppLanguage();
   const [previewText, setPreviewText] = useState<string>('');
   const [isLoading,   setIsLoading]   = useState(false);
   const [error,       setError]       = useState<string | null>(null);
@@ -271,25 +298,40 @@ function PreviewModal({
     setError(null);
     try {
       // Check Magic Cache before calling AI
-      const cKey   = previewCacheKey(narrator.id, childName);
+      const language = await getAppLanguage();
+      const fallback = translate(language, NARRATOR_COPY[narrator.id].preview);
+      const cKey   = previewCacheKey(narrator.id, childName, language);
       const cached = await getCached(cKey);
       if (cached) {
         setPreviewText(cached);
       } else {
-        const prompt = buildNarratorPreviewPrompt(narrator, childName);
+        const child  = await getActiveChild();
+        const prompt = buildNarratorPreviewPrompt(narrator, childName, child, language);
         const result = await generateText({ prompt, temperature: 0.7 });
-        const text   = result?.trim() ?? narrator.previewText;
+        const { text } = result?.trim()
+          ? await moderateText(result, {
+            kind:       'greeting',
+            age:        child?.age,
+            title:      `${narrator.name}'s preview`,
+            allowNames: childName ? [childName] : [],
+            childId:    child?.id,
+            boundaries: child,
+            language,
+            fallback,
+          })
+          : { text: fallback };
         setPreviewText(text);
         if (result?.trim()) await setCached(cKey, text);
       }
     } catch {
-      setPreviewText(narrator.previewText);
+      setPreviewText(t(NARRATOR_COPY[narrator.id].preview));
     } finally {
       setIsLoading(false);
     }
   };
 
   if (!narrator) return null;
+  const copy = NARRATOR_COPY[narrator.id];
 
   return (
     <Modal
@@ -333,10 +375,10 @@ function PreviewModal({
           </Animated.View>
 
           <Text style={[styles.previewNarratorName, { color: narrator.accentColor }]}>
-            {narrator.name} {narrator.species}
+            {narrator.name} {t(copy.species)}
           </Text>
-          <Text style={styles.previewNarratorDesc}>{narrator.description}</Text>
-          <Text style={styles.previewTagline}>&ldquo;{narrator.tagline}&rdquo;</Text>
+          <Text style={styles.previewNarratorDesc}>{t(copy.description)}</Text>
+          <Text style={styles.previewTagline}>&ldquo;{t(copy.tagline)}&rdquo;</Text>
 
           {/* AI Preview Text */}
           <View style={[styles.previewTextCard, { borderColor: `${narrator.accentColor}40` }]}>
@@ -344,14 +386,14 @@ function PreviewModal({
               <View style={styles.previewLoading}>
                 <ActivityIndicator color={narrator.accentColor} size="small" />
                 <Text style={[styles.previewLoadingText, { color: narrator.accentColor }]}>
-                  {narrator.name} is preparing a sample…
+                  {t('narrators.preparing', { name: narrator.name })}
                 </Text>
               </View>
             ) : error ? (
-              <Text style={styles.previewTextContent}>{narrator.previewText}</Text>
+              <Text style={styles.previewTextContent}>{t(copy.preview)}</Text>
             ) : (
               <Text style={styles.previewTextContent}>
-                {previewText || narrator.previewText}
+                {previewText || t(copy.preview)}
               </Text>
             )}
           </View>
@@ -362,7 +404,7 @@ function PreviewModal({
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
             />
             <Text style={[styles.previewCloseBtnText, { color: narrator.accentColor }]}>
-              ✓ Got it!
+              {t('narrators.gotIt')}
             </Text>
           </TouchableOpacity>
         </TouchableOpacity>
@@ -376,10 +418,13 @@ function PreviewModal({
 // ─────────────────────────────────────────────────────────────────────────────
 interface NarratorGalleryProps {
   childName?: string;
+  /** Each child keeps their own narrator; defaults to the active child */
+  childId?: string | null;
   onNarratorSelected?: (narrator: NarratorPersonality) => void;
 }
 
-export default function NarratorGallery({ childName, onNarratorSelected }: NarratorGalleryProps) {
+export default function NarratorGallery({ childName, childId, onNarratorSelected }: NarratorGalleryProps) {
+  const { t } = useAppLanguage();
   const router = useRouter();
   const { isPremium } = useAdapty();
   const [selectedId,     setSelectedId]     = useState<string>('luna');
@@ -387,19 +432,17 @@ export default function NarratorGallery({ childName, onNarratorSelected }: Narra
   const [showPreview,    setShowPreview]    = useState(false);
   const flatListRef = useRef<FlatList>(null);
 
-  // Load saved narrator on mount
+  // Load the child's saved narrator on mount and whenever the child switches
   useEffect(() => {
     void (async () => {
       try {
-        const saved = await AsyncStorage.getItem(STORAGE_KEY);
-        if (saved && NARRATOR_PERSONALITIES.find((n) => n.id === saved)) {
-          setSelectedId(saved);
-        }
+        const saved = await AsyncStorage.getItem(await childStorageKey(STORAGE_KEY, childId));
+        setSelectedId(saved && NARRATOR_PERSONALITIES.find((n) => n.id === saved) ? saved : 'luna');
       } catch {
         // ignore
       }
     })();
-  }, []);
+  }, [childId]);
 
   const handleSelect = useCallback(async (narrator: NarratorPersonality) => {
     // If premium narrator and user is not premium, go to shop
@@ -408,11 +451,11 @@ export default function NarratorGallery({ childName, onNarratorSelected }: Narra
       return;
     }
     setSelectedId(narrator.id);
-    await AsyncStorage.setItem(STORAGE_KEY, narrator.id);
+    await AsyncStorage.setItem(await childStorageKey(STORAGE_KEY, childId), narrator.id);
     // Track narrator popularity for internal analytics
     void trackNarratorSelected(narrator.id);
     onNarratorSelected?.(narrator);
-  }, [onNarratorSelected, isPremium, router]);
+  }, [onNarratorSelected, isPremium, router, childId]);
 
   const handlePreview = useCallback((narrator: NarratorPersonality) => {
     setPreviewNarrator(narrator);
@@ -426,8 +469,8 @@ export default function NarratorGallery({ childName, onNarratorSelected }: Narra
       {/* Section header */}
       <View style={styles.header}>
         <View>
-          <Text style={styles.sectionTitle}>🌟 Bedtime Buddies</Text>
-          <Text style={styles.sectionSubtitle}>Choose your AI narrator</Text>
+          <Text style={styles.sectionTitle}>{t('narrators.title')}</Text>
+          <Text style={styles.sectionSubtitle}>{t('narrators.subtitle')}</Text>
         </View>
         {selectedNarrator && (
           <View style={[styles.activeBadge, { borderColor: selectedNarrator.accentColor }]}>
@@ -466,7 +509,7 @@ export default function NarratorGallery({ childName, onNarratorSelected }: Narra
       {selectedNarrator && (
         <View style={styles.taglineRow}>
           <Text style={[styles.taglineText, { color: selectedNarrator.accentColor }]}>
-            ✦  {selectedNarrator.tagline}  ✦
+            ✦  {t(NARRATOR_COPY[selectedNarrator.id].tagline)}  ✦
           </Text>
         </View>
       )}
@@ -30,6 +30,7 @@ import Animated, {
   cancelAnimation,
 } from 'react-native-reanimated';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 interface ParentalGateProps {
   visible: boolean;
@@ -51,6 +52,7 @@ export default function ParentalGate({
   onDismiss,
   context,
 }: ParentalGateProps) {
+  const { t } = useAppLanguage();
   const [puzzle, setPuzzle]   = useState(generatePuzzle);
   const [input, setInput]     = useState('');
   const [error, setError]     = useState(false);
@@ -197,11 +199,11 @@ export default function ParentalGate({
               <Text style={styles.lockIcon}>🔒</Text>
             </Animated.View>
 
-            <Text style={styles.title}>Parent Check</Text>
+            <Text style={styles.title}>{t('gate.title')}</Text>
             <Text style={styles.subtitle}>
               {context
-                ? `Quick check before accessing ${context}.`
-                : "Quick maths to verify you're an adult."}
+                ? t('gate.context', { context })
+                : t('gate.subtitle')}
             </Text>
 
             {/* Glass puzzle card */}
@@ -213,7 +215,7 @@ export default function ParentalGate({
               {/* Shine stripe */}
               <View style={styles.puzzleShine} />
               <Text style={styles.puzzleQuestion}>
-                What is{' '}
+                {t('gate.whatIs')}{' '}
                 <Text style={styles.puzzleNumber}>{puzzle.a}</Text>
                 {' + '}
                 <Text style={styles.puzzleNumber}>{puzzle.b}</Text>
@@ -226,13 +228,13 @@ export default function ParentalGate({
               ref={inputRef}
               style={[styles.input, error && styles.inputError]}
               value={input}
-              onChangeText={(t) => {
+              onChangeText={(text) => {
                 // Gentle selection haptic on each digit typed
-                if (t.length > input.length) void Haptics.selectionAsync();
-                setInput(t);
+                if (text.length > input.length) void Haptics.selectionAsync();
+                setInput(text);
                 setError(false);
               }}
-              placeholder="Your answer…"
+              placeholder={t('gate.placeholder')}
               placeholderTextColor="rgba(153,153,187,0.55)"
               keyboardType="number-pad"
               maxLength={4}
@@ -242,7 +244,7 @@ export default function ParentalGate({
             />
 
             {error && (
-              <Text style={styles.errorText}>Not quite — try again!</Text>
+              <Text style={styles.errorText}>{t('gate.wrong')}</Text>
             )}
 
             {/* Floating gold glow button */}
@@ -259,12 +261,12 @@ export default function ParentalGate({
                 end={{ x: 1, y: 0 }}
                 style={styles.submitGradient}
               >
-                <Text style={styles.submitText}>Confirm ✓</Text>
+                <Text style={styles.submitText}>{t('gate.confirm')}</Text>
               </LinearGradient>
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.cancelButton} onPress={handleDismiss}>
-              <Text style={styles.cancelText}>Cancel</Text>
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
             </TouchableOpacity>
           </TouchableOpacity>
         </Animated.View>
@@ -0,0 +1,142 @@
+/**
+ * PictureBookPager – swipeable picture-book pages
+ *
+ * One page per paragraph: the page's illustration above its text. Pages
+ * still being painted show a soft shimmer placeholder. The pager follows
+ * `pageIndex` (the paragraph being narrated) and reports swipes through
+ * onPageChange so the narration can follow the reader.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import type { PictureBookPageStatus } from '@/lib/pictureBook';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+
+export interface PictureBookPagerPage {
+  paragraph: string;
+  imageUri:  string | null;
+  /** undefined for paragraphs past the illustrated pages */
+  status?:   PictureBookPageStatus;
+}
+
+interface PictureBookPagerProps {
+  pages:        PictureBookPagerPage[];
+  pageIndex:    number;
+  width:        number;
+  onPageChange: (index: number) => void;
+}
+
+export default function PictureBookPager({ pages, pageIndex, width, onPageChange }: PictureBookPagerProps) {
+  const { t } = useAppLanguage();
+  const scrollRef = useRef<ScrollView>(null);
+  const [visibleIndex, setVisibleIndex] = useState(0);
+
+  // Turn the page when the narration moves on
+  useEffect(() => {
+    if (pageIndex === visibleIndex || pageIndex >= pages.length) return;
+    scrollRef.current?.scrollTo({ x: pageIndex * width, animated: true });
+    setVisibleIndex(pageIndex);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pageIndex, width, pages.length]);
+
+  const handleMomentumEnd = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const index = Math.round(e.nativeEvent.contentOffset.x / width);
+    if (index === visibleIndex) return;
+    setVisibleIndex(index);
+    onPageChange(index);
+  };
+
+  return (
+    <View>
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleMomentumEnd}
+      >
+        {pages.map((page, idx) => (
+          <View key={idx} style={[styles.page, { width }]}>
+            <View style={styles.imageFrame}>
+              {page.imageUri ? (
+                <Image source={{ uri: page.imageUri }} style={styles.image} resizeMode="cover" />
+              ) : (
+                <LinearGradient
+                  colors={['rgba(155,111,222,0.25)', 'rgba(126,200,227,0.10)']}
+                  style={styles.placeholder}
+                >
+                  {page.status === 'pending' && <ActivityIndicator color={Colors.celestialGold} />}
+                  <Text style={styles.placeholderText}>
+                    {page.status === 'pending' ? t('pictureBook.painting')
+                      : page.status === 'failed' ? t('pictureBook.later')
+                      : '✦'}
+                  </Text>
+                </LinearGradient>
+              )}
+            </View>
+            <Text style={styles.paragraph}>{page.paragraph}</Text>
+            <Text style={styles.pageNumber}>{idx + 1} / {pages.length}</Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.dots}>
+        {pages.map((_, idx) => (
+          <View key={idx} style={[styles.dot, idx === visibleIndex && styles.dotActive]} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  page: {
+    paddingHorizontal: Spacing.lg,
+  },
+  imageFrame: {
+    aspectRatio:  4 / 3,
+    borderRadius: Radius.xl,
+    overflow:     'hidden',
+    borderWidth:  1,
+    borderColor:  'rgba(255,255,255,0.12)',
+    marginBottom: Spacing.md,
+  },
+  image: { width: '100%', height: '100%' },
+  placeholder: {
+    flex: 1, alignItems: 'center', justifyContent: 'center', gap: 10,
+  },
+  placeholderText: { fontFamily: Fonts.bold, fontSize: 13, color: 'rgba(240,235,248,0.6)' },
+  paragraph: {
+    fontFamily: Fonts.medium,
+    fontSize:   17,
+    lineHeight: 28,
+    color:      'rgba(240,235,248,0.92)',
+  },
+  pageNumber: {
+    fontFamily: Fonts.bold,
+    fontSize:   11,
+    color:      'rgba(240,235,248,0.4)',
+    textAlign:  'center',
+    marginTop:  Spacing.sm,
+  },
+  dots: {
+    flexDirection: 'row', justifyContent: 'center', gap: 6,
+    marginTop: Spacing.md,
+  },
+  dot: {
+    width: 6, height: 6, borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  dotActive: { backgroundColor: Colors.celestialGold, width: 16 },
+});
@@ -29,6 +29,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 interface PolaroidRevealProps {
   imageUri: string | null;
@@ -46,9 +47,10 @@ export default function PolaroidReveal({
   artStyleLabel,
   artStyleEmoji,
   isTransforming = false,
-  transformStep = 'Painting your portrait…',
+  transformStep,
   width = 220,
 }: PolaroidRevealProps) {
+  const { t } = useAppLanguage();
   const height = width * 1.25;
   const imageHeight = width * 0.9;
 
@@ -142,8 +144,8 @@ export default function PolaroidReveal({
         <View style={styles.transformingInner}>
           <ActivityIndicator size="large" color={Colors.celestialGold} />
           <Text style={styles.transformingEmoji}>{artStyleEmoji ?? '🎨'}</Text>
-          <Text style={styles.transformingLabel}>{transformStep}</Text>
-          <Text style={styles.transformingSubLabel}>AI is painting your portrait…</Text>
+          <Text style={styles.transformingLabel}>{transformStep || t('create.portraitDeveloping')}</Text>
+          <Text style={styles.transformingSubLabel}>{t('create.portraitPainting')}</Text>
         </View>
       </View>
     );
@@ -177,7 +179,7 @@ export default function PolaroidReveal({
 
         {/* Polaroid caption area */}
         <View style={styles.captionArea}>
-          <Text style={styles.captionText}>{caption ?? 'Our Little Star ✨'}</Text>
+          <Text style={styles.captionText}>{caption ?? t('create.portraitCaptionDefault')}</Text>
         </View>
       </View>
     </Animated.View>
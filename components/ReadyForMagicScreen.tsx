@@ -40,6 +40,7 @@ import Animated, {
   cancelAnimation,
 } from 'react-native-reanimated';
 import { Colors, Fonts, Radius, Spacing } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W } = Dimensions.get('window');
 
@@ -137,6 +138,7 @@ const featureStyles = StyleSheet.create({
 // Main component
 // ─────────────────────────────────────────────────────────────────────────────
 export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
+  const { t } = useAppLanguage();
   const router = useRouter();
   // Entrance animations
   const overlayOpacity = useSharedValue(0);
@@ -183,17 +185,17 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
 
   // ── Offline features (always available) ──────────────────────────────────
   const offlineFeatures = [
-    { emoji: '📖', label: 'Create Stories',          description: 'Full story generation, offline',        available: true },
-    { emoji: '🎙️', label: 'Voice Recording',          description: 'Record your voice locally',             available: true },
-    { emoji: '⭐',  label: 'Stardust Rewards',        description: 'Earn & spend stardust offline',         available: true },
-    { emoji: '📓', label: 'Bedtime Journal',          description: 'Store journal entries on device',       available: true },
+    { emoji: '📖', label: t('ready.createStories'),  description: t('ready.createStoriesDesc'),  available: true },
+    { emoji: '🎙️', label: t('ready.voiceRecording'), description: t('ready.voiceRecordingDesc'), available: true },
+    { emoji: '⭐',  label: t('ready.stardust'),       description: t('ready.stardustDesc'),       available: true },
+    { emoji: '📓', label: t('ready.journal'),        description: t('ready.journalDesc'),        available: true },
   ];
 
   const cloudFeatures = [
-    { emoji: '☁️', label: 'Cloud Sync',              description: 'Access stories across all devices',     available: false },
-    { emoji: '👨‍👩‍👧', label: 'Family Sharing',          description: 'Share with family members',            available: false },
-    { emoji: '🔐', label: 'Secure Backup',           description: 'Never lose your magical stories',       available: false },
-    { emoji: '✨', label: 'AI Account Features',     description: 'Personalised AI across sessions',       available: false },
+    { emoji: '☁️', label: t('ready.cloudSync'),     description: t('ready.cloudSyncDesc'),     available: false },
+    { emoji: '👨‍👩‍👧', label: t('ready.familySharing'), description: t('ready.familySharingDesc'), available: false },
+    { emoji: '🔐', label: t('ready.backup'),        description: t('ready.backupDesc'),        available: false },
+    { emoji: '✨', label: t('ready.aiAccount'),     description: t('ready.aiAccountDesc'),     available: false },
   ];
 
   return (
@@ -242,10 +244,9 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
               {/* Header */}
               <View style={styles.header}>
                 <Animated.Text style={[styles.wandEmoji, wandStyle]}>🪄</Animated.Text>
-                <Text style={styles.title}>Ready for Magic?</Text>
+                <Text style={styles.title}>{t('ready.title')}</Text>
                 <Text style={styles.subtitle}>
-                  Connect Supabase to unlock the full StoryVoice experience —
-                  or dive in right now with the offline mode.
+                  {t('ready.subtitle')}
                 </Text>
               </View>
 
@@ -262,7 +263,7 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
                 <View style={styles.sectionHeader}>
                   <View style={[styles.sectionDot, { backgroundColor: Colors.successGreen }]} />
                   <Text style={[styles.sectionLabel, { color: Colors.successGreen }]}>
-                    ✓ Available Now (Offline Mode)
+                    {t('ready.offlineHeader')}
                   </Text>
                 </View>
                 <View style={styles.featureList}>
@@ -285,7 +286,7 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
                 <View style={styles.sectionHeader}>
                   <View style={[styles.sectionDot, { backgroundColor: Colors.celestialGold }]} />
                   <Text style={[styles.sectionLabel, { color: Colors.celestialGold }]}>
-                    ✦ Unlocked with Supabase
+                    {t('ready.cloudHeader')}
                   </Text>
                 </View>
                 <View style={styles.featureList}>
@@ -302,10 +303,11 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
                   style={[StyleSheet.absoluteFill, { borderRadius: Radius.lg }]}
                 />
                 <View style={styles.setupHintShine} />
-                <Text style={styles.setupHintTitle}>🔧 How to connect</Text>
+                <Text style={styles.setupHintTitle}>{t('ready.howTo')}</Text>
                 <Text style={styles.setupHintText}>
-                  In the project dashboard, tap <Text style={styles.setupHintBold}>Connect Supabase</Text> — the
-                  environment variables will sync automatically and the magic will be fully unlocked!
+                  {t('ready.howToBefore')}
+                  <Text style={styles.setupHintBold}>{t('ready.howToAction')}</Text>
+                  {t('ready.howToAfter')}
                 </Text>
               </View>
 
@@ -326,7 +328,7 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
                   style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                 />
                 <View style={styles.cloudMagicBtnShine} />
-                <Text style={styles.cloudMagicBtnText}>✨ Unlock Cloud Magic</Text>
+                <Text style={styles.cloudMagicBtnText}>{t('ready.unlockCloud')}</Text>
               </TouchableOpacity>
 
               {/* Dismiss button */}
@@ -340,11 +342,11 @@ export default function ReadyForMagicScreen({ visible, onDismiss }: Props) {
                   style={[StyleSheet.absoluteFill, { borderRadius: Radius.full }]}
                 />
                 <View style={styles.dismissBtnShine} />
-                <Text style={styles.dismissBtnText}>🌙 Continue in Offline Mode</Text>
+                <Text style={styles.dismissBtnText}>{t('ready.offlineMode')}</Text>
               </TouchableOpacity>
 
               <Text style={styles.footnote}>
-                You can connect Supabase anytime from the project settings
+                {t('ready.footnote')}
               </Text>
             </ScrollView>
           </View>
@@ -37,6 +37,7 @@ import Animated, {
   cancelAnimation,
 } from 'react-native-reanimated';
 import { Colors, Fonts, Radius, Spacing } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
 
 const { width: W, height: H } = Dimensions.get('window');
 
@@ -192,6 +193,7 @@ function GlowCounter({ amount, trigger }: { amount: number; trigger: boolean })
 // Main component
 // ─────────────────────────────────────────────────────────────────────────────
 export default function StardustEarnedAnimation({ visible, amount, reason, onDone }: Props) {
+  const { t } = useAppLanguage();
   const particles = useMemo(() => buildParticles(16), []);
 
   // Panel entrance
@@ -317,7 +319,7 @@ export default function StardustEarnedAnimation({ visible, amount, reason, onDon
             {/* Animated star */}
             <Animated.Text style={[styles.starEmoji, starStyle]}>⭐</Animated.Text>
 
-            <Text style={styles.earnedLabel}>Stardust Earned!</Text>
+            <Text style={styles.earnedLabel}>{t('stardust.earned')}</Text>
 
             {/* Counter */}
             <View style={styles.counterRow}>
@@ -332,7 +334,7 @@ export default function StardustEarnedAnimation({ visible, amount, reason, onDon
             {/* Divider */}
             <View style={styles.divider} />
 
-            <Text style={styles.tapToDismiss}>✨ Tap to continue</Text>
+            <Text style={styles.tapToDismiss}>{t('stardust.tapToContinue')}</Text>
           </View>
         </Animated.View>
       </TouchableOpacity>
@@ -43,6 +43,8 @@ import { adapty } from 'react-native-adapty';
 import type { AdaptyPaywallProduct } from 'react-native-adapty';
 import MagicDustEffect from '@/components/MagicDustEffect';
 import { Colors, Fonts, Spacing, Radius } from '@/constants/theme';
+import { useAppLanguage } from '@/hooks/useAppLanguage';
+import type { StringKey } from '@/lib/i18n';
 
 const { width: W, height: H } = Dimensions.get('window');
 
@@ -51,34 +53,42 @@ const PLACEMENT_ID = process.env.EXPO_PUBLIC_ADAPTY_PLACEMENT_ID ?? 'storyvoice_
 // ─────────────────────────────────────────────────────────────────────────────
 // Pro benefits
 // ─────────────────────────────────────────────────────────────────────────────
-const PRO_BENEFITS = [
+const PRO_BENEFITS: { emoji: string; title: StringKey; desc: StringKey }[] = [
   {
     emoji: '🪄',
-    title: 'Unlimited Story Generation',
-    desc: 'Create as many personalised bedtime stories as you wish, every night.',
+    title: 'paywall.benefitStoriesTitle',
+    desc: 'paywall.benefitStories',
   },
   {
     emoji: '🌟',
-    title: 'All AI Narrators Unlocked',
-    desc: 'Access Luna, Barnaby, Cosmo, Aria & Rex – all 5 Bedtime Buddies.',
+    title: 'paywall.benefitNarratorsTitle',
+    desc: 'paywall.benefitNarrators',
   },
   {
     emoji: '🖼️',
-    title: 'High-Definition Story Art',
-    desc: 'Stunning, full-resolution watercolour illustrations for every story.',
+    title: 'paywall.benefitArtTitle',
+    desc: 'paywall.benefitArt',
   },
   {
     emoji: '🌊',
-    title: 'Atmospheric Soundscapes',
-    desc: 'Mix ambient audio with narration for the perfect sleep environment.',
+    title: 'paywall.benefitSoundsTitle',
+    desc: 'paywall.benefitSounds',
   },
   {
     emoji: '📚',
-    title: 'Unlimited Collections',
-    desc: 'Organise stories into series and play them as a bedtime routine.',
+    title: 'paywall.benefitCollectionsTitle',
+    desc: 'paywall.benefitCollections',
   },
 ];
 
+// Subscription period suffix per Adapty unit – single unit, then several
+const PERIOD_LABELS: Record<string, { one: StringKey; many: StringKey }> = {
+  day:   { one: 'paywall.perDay',   many: 'paywall.perDays' },
+  week:  { one: 'paywall.perWeek',  many: 'paywall.perWeeks' },
+  month: { one: 'paywall.perMonth', many: 'paywall.perMonths' },
+  year:  { one: 'paywall.perYear',  many: 'paywall.perYears' },
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Floating stars background
 // ─────────────────────────────────────────────────────────────────────────────
@@ -212,13 +222,16 @@ function ProductCard({
   isSelected: boolean;
   onPress: () => void;
 }) {
+  const { t } = useAppLanguage();
   const period  = product.subscription?.subscriptionPeriod;
   const isYearly = period?.unit === 'year';
 
   const formatPeriod = () => {
     if (!period) return '';
     const { numberOfUnits, unit } = period;
-    return numberOfUnits === 1 ? `/ ${unit}` : `/ ${numberOfUnits} ${unit}s`;
+    const labels = PERIOD_LABELS[unit];
+    if (!labels) return '';
+    return numberOfUnits === 1 ? t(labels.one) : t(labels.many, { count: numberOfUnits });
   };
 
   return (
@@ -241,12 +254,12 @@ function ProductCard({
       )}
       {isYearly && (
         <View style={productStyles.badge}>
-          <Text style={productStyles.badgeText}>BEST VALUE</Text>
+          <Text style={productStyles.badgeText}>{t('paywall.bestValue')}</Text>
         </View>
       )}
       <View style={productStyles.info}>
         <Text style={[productStyles.name, isSelected && { color: Colors.celestialGold }]}>
-          {product.localizedTitle || (isYearly ? 'Yearly Plan' : 'Monthly Plan')}
+          {product.localizedTitle || (isYearly ? t('paywall.yearlyPlan') : t('paywall.monthlyPlan'))}
         </Text>
         <Text style={productStyles.desc}>{product.localizedDescription || ''}</Text>
       </View>
@@ -333,6 +346,7 @@ async function ensureAdapty() {
 }
 
 export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywallProps) {
+  const { t } = useAppLanguage();
   const insets = useSafeAreaInsets();
   const [products,     setProducts]     = useState<AdaptyPaywallProduct[]>([]);
   const [selectedIdx,  setSelectedIdx]  = useState(0);
@@ -414,15 +428,15 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
         void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         setTimeout(() => { onSuccess?.(); onClose(); }, 2800);
       } else if (result.type === 'pending') {
-        setPurchaseError('Purchase is pending approval. Check back soon!');
+        setPurchaseError(t('paywall.pending'));
       }
     } catch (e) {
-      setPurchaseError(e instanceof Error ? e.message : 'Purchase failed. Please try again.');
+      setPurchaseError(e instanceof Error ? e.message : t('paywall.purchaseFailed'));
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
       setIsPurchasing(false);
     }
-  }, [products, selectedIdx, onSuccess, onClose, successScale]);
+  }, [products, selectedIdx, onSuccess, onClose, successScale, t]);
 
   const handleRestore = useCallback(async () => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -437,14 +451,14 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
         void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         setTimeout(() => { onSuccess?.(); onClose(); }, 2200);
       } else {
-        setPurchaseError('No previous purchases found.');
+        setPurchaseError(t('paywall.noPurchases'));
       }
     } catch {
-      setPurchaseError('Could not restore purchases. Try again later.');
+      setPurchaseError(t('paywall.restoreFailed'));
     } finally {
       setIsRestoring(false);
     }
-  }, [onSuccess, onClose, successScale]);
+  }, [onSuccess, onClose, successScale, t]);
 
   // Animated styles
   const contentStyle = useAnimatedStyle(() => ({
@@ -511,9 +525,9 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
           </View>
 
           {/* Headline */}
-          <Text style={styles.headline}>Unlock the Stars</Text>
+          <Text style={styles.headline}>{t('paywall.headline')}</Text>
           <Text style={styles.subheadline}>
-            Give your child the magic of unlimited bedtime stories
+            {t('paywall.subheadline')}
           </Text>
 
           {/* Pro badge */}
@@ -540,8 +554,8 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
                 <BenefitRow
                   key={b.title}
                   emoji={b.emoji}
-                  title={b.title}
-                  desc={b.desc}
+                  title={t(b.title)}
+                  desc={t(b.desc)}
                   delay={200 + i * 80}
                 />
               ))}
@@ -553,7 +567,7 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
             {isLoadingProds ? (
               <View style={styles.productsLoading}>
                 <ActivityIndicator color={Colors.celestialGold} />
-                <Text style={styles.productsLoadingText}>Loading plans…</Text>
+                <Text style={styles.productsLoadingText}>{t('paywall.loadingPlans')}</Text>
               </View>
             ) : products.length > 0 ? (
               <View style={styles.productsList}>
@@ -575,16 +589,16 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
                 />
                 <View style={productStyles.priceBlock}>
                   <View style={productStyles.badge}>
-                    <Text style={productStyles.badgeText}>BEST VALUE</Text>
+                    <Text style={productStyles.badgeText}>{t('paywall.bestValue')}</Text>
                   </View>
                 </View>
                 <View style={productStyles.info}>
-                  <Text style={[productStyles.name, { color: Colors.celestialGold }]}>Yearly Plan</Text>
-                  <Text style={productStyles.desc}>All features, cancel anytime</Text>
+                  <Text style={[productStyles.name, { color: Colors.celestialGold }]}>{t('paywall.yearlyPlan')}</Text>
+                  <Text style={productStyles.desc}>{t('paywall.allFeatures')}</Text>
                 </View>
                 <View style={productStyles.priceBlock}>
                   <Text style={[productStyles.price, { color: Colors.celestialGold }]}>$39.99</Text>
-                  <Text style={productStyles.period}>/ year</Text>
+                  <Text style={productStyles.period}>{t('paywall.perYear')}</Text>
                 </View>
                 <View style={[productStyles.radio, productStyles.radioSelected]}>
                   <View style={productStyles.radioInner} />
@@ -602,7 +616,7 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
 
           {/* Legal copy */}
           <Text style={styles.legalText}>
-            Subscription renews automatically. Cancel anytime in App Store / Play Store settings.
+            {t('paywall.legal')}
           </Text>
         </ScrollView>
 
@@ -639,8 +653,8 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
                     <Text style={styles.purchaseBtnIcon}>✨</Text>
                     <Text style={styles.purchaseBtnText}>
                       {selectedProduct
-                        ? `Start for ${selectedProduct.price?.localizedString ?? '—'}`
-                        : 'Unlock StoryVoice Pro'}
+                        ? t('paywall.startFor', { price: selectedProduct.price?.localizedString ?? '—' })
+                        : t('paywall.unlock')}
                     </Text>
                   </>
                 )}
@@ -657,7 +671,7 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
             {isRestoring ? (
               <ActivityIndicator color={Colors.textMuted} size="small" />
             ) : (
-              <Text style={styles.restoreBtnText}>Restore Purchases</Text>
+              <Text style={styles.restoreBtnText}>{t('paywall.restore')}</Text>
             )}
           </TouchableOpacity>
         </View>
@@ -673,9 +687,9 @@ export default function StarsPaywall({ visible, onClose, onSuccess }: StarsPaywa
               style={[StyleSheet.absoluteFill, { borderRadius: Radius.xl }]}
             />
             <Text style={styles.successEmoji}>🌟</Text>
-            <Text style={styles.successTitle}>You&apos;re a Star!</Text>
+            <Text style={styles.successTitle}>{t('paywall.successTitle')}</Text>
             <Text style={styles.successSubtitle}>
-              Welcome to StoryVoice Pro.{'\n'}Enjoy unlimited magic bedtimes! ✨
+              {t('paywall.success')}
             </Text>
           </Animated.View>
         </View>
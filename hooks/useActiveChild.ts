@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Child } from '@/lib/supabase';
+import { getCachedChildren } from '@/lib/syncService';
+import { getActiveChild, onActiveChildChange, setActiveChild } from '@/lib/activeChild';
+
+export interface UseActiveChildReturn {
+  activeChild: Child | null;
+  children: Child[];
+  /** Make another child active (persists + syncs user_preferences) */
+  switchChild: (child: Child) => Promise<void>;
+  /** Re-read the cached child list, e.g. after a sync or a profile edit */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * The active child and the family's child list, kept current when any screen
+ * switches child via lib/activeChild.
+ */
+export function useActiveChild(userId?: string | null): UseActiveChildReturn {
+  const [activeChild, setActive] = useState<Child | null>(null);
+  const [children,    setChildren] = useState<Child[]>([]);
+
+  const refresh = useCallback(async () => {
+    const list = await getCachedChildren();
+    setChildren(list);
+    setActive(await getActiveChild(list));
+  }, []);
+
+  const switchChild = useCallback(async (child: Child) => {
+    await setActiveChild(child, userId);
+  }, [userId]);
+
+  useEffect(() => {
+    void refresh();
+    return onActiveChildChange((child) => {
+      setActive(child);
+      // A switch after a sync may bring a child list we haven't seen yet
+      void getCachedChildren().then(setChildren);
+    });
+  }, [refresh]);
+
+  return { activeChild, children, switchChild, refresh };
+}
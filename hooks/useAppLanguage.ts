@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { LanguageCode } from '@/lib/newell';
+import {
+  getAppLanguage,
+  getCurrentLanguage,
+  onAppLanguageChange,
+  setAppLanguage,
+  translate,
+  type StringKey,
+  type StringParams,
+} from '@/lib/i18n';
+
+export interface UseAppLanguageReturn {
+  language: LanguageCode;
+  /** A UI string in the app language */
+  t: (key: StringKey, params?: StringParams) => string;
+  /** Persist a new app language; every screen using this hook follows */
+  setLanguage: (language: LanguageCode) => Promise<void>;
+}
+
+/**
+ * The app language and its UI strings, kept current when Settings changes
+ * the language via lib/i18n.
+ */
+export function useAppLanguage(): UseAppLanguageReturn {
+  const [language, setLanguageState] = useState<LanguageCode>(getCurrentLanguage);
+
+  useEffect(() => {
+    void getAppLanguage().then(setLanguageState);
+    return onAppLanguageChange(setLanguageState);
+  }, []);
+
+  const t = useCallback(
+    (key: StringKey, params?: StringParams) => translate(language, key, params),
+    [language],
+  );
+
+  return { language, t, setLanguage: setAppLanguage };
+}
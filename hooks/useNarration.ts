@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ParentVoice } from '@/lib/supabase';
+import { resolveVoiceProvider, type VoiceSynthesisProvider } from '@/lib/narration';
+import { registerAudioChannel, getAudioGain } from '@/lib/audioController';
+
+export type NarrationStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface UseNarrationReturn {
+  status: NarrationStatus;
+  /** Index of the paragraph being read (or about to be read) */
+  paragraphIndex: number;
+  /** Overall progress through the story, 0–1 */
+  progress: number;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  /** Jump to a paragraph, continuing playback if already playing */
+  seekToParagraph: (index: number) => void;
+  /** Jump to a point in the story expressed as a 0–1 fraction */
+  seek: (fraction: number) => void;
+}
+
+// Below this sleep-timer gain, narration finishes the paragraph it is on and
+// stops there rather than starting another (speech engines can't fade mid-word)
+const FADE_STOP_GAIN = 0.35;
+
+/**
+ * Paragraph-by-paragraph narration of a story in the given ParentVoice.
+ * Pausing stops the current paragraph; resuming re-reads it from the start
+ * so the child never hears half a sentence.
+ *
+ * Registers as the 'narration' channel of lib/audioController so the sleep
+ * timer can fade and stop it.
+ */
+export function useNarration(
+  paragraphs: string[],
+  voice: ParentVoice | null,
+  language?: string,
+): UseNarrationReturn {
+  const [status, setStatus] = useState<NarrationStatus>('idle');
+  const [paragraphIndex, setParagraphIndex] = useState(0);
+  const [paragraphFraction, setParagraphFraction] = useState(0);
+
+  const providerRef   = useRef<VoiceSynthesisProvider>(resolveVoiceProvider(voice));
+  const paragraphsRef = useRef(paragraphs);
+  const indexRef      = useRef(0);
+  // Incremented on every stop/seek so callbacks from an old utterance are ignored
+  const generationRef = useRef(0);
+  const gainRef       = useRef(getAudioGain('narration'));
+  const statusRef     = useRef(status);
+
+  paragraphsRef.current = paragraphs;
+  statusRef.current     = status;
+
+  const speakFrom = useCallback((index: number) => {
+    const list = paragraphsRef.current;
+    if (index >= list.length) {
+      indexRef.current = Math.max(list.length - 1, 0);
+      setStatus('finished');
+      setParagraphFraction(1);
+      return;
+    }
+    const generation = ++generationRef.current;
+    indexRef.current = index;
+    setParagraphIndex(index);
+    setParagraphFraction(0);
+    setStatus('playing');
+
+    void providerRef.current.speak(list[index], {
+      voice,
+      language,
+      volume: gainRef.current,
+      onProgress: (fraction) => {
+        if (generation === generationRef.current) setParagraphFraction(fraction);
+      },
+      onDone: () => {
+        if (generation !== generationRef.current) return;
+        if (gainRef.current < FADE_STOP_GAIN && index + 1 < paragraphsRef.current.length) {
+          // Sleep timer is fading out – settle on the next paragraph, silently
+          indexRef.current = index + 1;
+          setParagraphIndex(index + 1);
+          setParagraphFraction(0);
+          setStatus('paused');
+          return;
+        }
+        speakFrom(index + 1);
+      },
+      onError: (err) => {
+        if (generation !== generationRef.current) return;
+        console.warn('[Narration] Paragraph playback failed:', err);
+        setStatus('paused');
+      },
+    });
+  }, [voice, language]);
+
+  const halt = useCallback(() => {
+    generationRef.current++;
+    void providerRef.current.stop();
+  }, []);
+
+  const play = useCallback(() => {
+    const start = status === 'finished' ? 0 : indexRef.current;
+    speakFrom(start);
+  }, [status, speakFrom]);
+
+  const pause = useCallback(() => {
+    halt();
+    setParagraphFraction(0);
+    setStatus('paused');
+  }, [halt]);
+
+  const stop = useCallback(() => {
+    halt();
+    indexRef.current = 0;
+    setParagraphIndex(0);
+    setParagraphFraction(0);
+    setStatus('idle');
+  }, [halt]);
+
+  const seekToParagraph = useCallback((index: number) => {
+    const clamped = Math.max(0, Math.min(index, paragraphsRef.current.length - 1));
+    const wasPlaying = status === 'playing';
+    halt();
+    if (wasPlaying) {
+      speakFrom(clamped);
+    } else {
+      indexRef.current = clamped;
+      setParagraphIndex(clamped);
+      setParagraphFraction(0);
+      if (status === 'finished') setStatus('paused');
+    }
+  }, [status, halt, speakFrom]);
+
+  const seek = useCallback((fraction: number) => {
+    const count = paragraphsRef.current.length;
+    if (count === 0) return;
+    seekToParagraph(Math.floor(Math.max(0, Math.min(fraction, 0.999)) * count));
+  }, [seekToParagraph]);
+
+  // Swap provider when the narrating voice changes
+  useEffect(() => {
+    halt();
+    providerRef.current = resolveVoiceProvider(voice);
+    setStatus((prev) => (prev === 'playing' ? 'paused' : prev));
+  }, [voice, halt]);
+
+  // Sleep timer fade / hard stop from the shared audio controller
+  useEffect(() => {
+    return registerAudioChannel('narration', {
+      setGain: (gain) => {
+        gainRef.current = gain;
+        if (gain <= 0 && statusRef.current === 'playing') pause();
+      },
+      stop: () => {
+        if (statusRef.current === 'playing') pause();
+      },
+    });
+  }, [pause]);
+
+  // Never leave a voice talking after the player unmounts
+  useEffect(() => () => halt(), [halt]);
+
+  const count = paragraphs.length;
+  const progress = count === 0
+    ? 0
+    : status === 'finished'
+      ? 1
+      : (paragraphIndex + paragraphFraction) / count;
+
+  return { status, paragraphIndex, progress, play, pause, stop, seekToParagraph, seek };
+}
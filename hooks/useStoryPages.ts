@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Story, StoryPageCursor } from '@/lib/supabase';
+import { listStories, STORY_PAGE_SIZE } from '@/lib/storyStore';
+
+export interface StoryPagesOptions {
+  childId?:       string | null;
+  favoritesOnly?: boolean;
+  pageSize?:      number;
+}
+
+export interface UseStoryPagesReturn {
+  /** Every page loaded so far, newest first */
+  stories: Story[];
+  hasMore: boolean;
+  /** Append the next page (no-op while one is loading or on the last page) */
+  loadMore: () => Promise<void>;
+  /** Start over from the first page, e.g. after a sync */
+  reload: () => Promise<void>;
+  /** Change a loaded story in place, keeping the pages already loaded */
+  patchStory: (id: string, patch: Partial<Story>) => void;
+}
+
+/**
+ * Stories from lib/storyStore a page at a time, for lists that load more as
+ * they scroll. Reloads when the child or filter changes.
+ */
+export function useStoryPages(options: StoryPagesOptions = {}): UseStoryPagesReturn {
+  const { childId = null, favoritesOnly = false, pageSize = STORY_PAGE_SIZE } = options;
+  const [stories, setStories] = useState<Story[]>([]);
+  const [cursor,  setCursor]  = useState<StoryPageCursor | null>(null);
+  const isLoadingRef = useRef(false);
+  // Bumped by every reload so a page for an older query is dropped
+  const generationRef = useRef(0);
+
+  const reload = useCallback(async () => {
+    const generation = ++generationRef.current;
+    const page = await listStories({ childId, favoritesOnly, limit: pageSize });
+    if (generation !== generationRef.current) return;
+    setStories(page.stories as unknown as Story[]);
+    setCursor(page.nextCursor);
+  }, [childId, favoritesOnly, pageSize]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoadingRef.current) return;
+    isLoadingRef.current = true;
+    const generation = generationRef.current;
+    try {
+      const page = await listStories({ childId, favoritesOnly, before: cursor, limit: pageSize });
+      if (generation !== generationRef.current) return;
+      setStories((prev) => [...prev, ...(page.stories as unknown as Story[])]);
+      setCursor(page.nextCursor);
+    } finally {
+      isLoadingRef.current = false;
+    }
+  }, [cursor, childId, favoritesOnly, pageSize]);
+
+  const patchStory = useCallback((id: string, patch: Partial<Story>) => {
+    setStories((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }, []);
+
+  useEffect(() => {
+    void reload().catch((err) => console.warn('[useStoryPages] Could not read stories:', err));
+  }, [reload]);
+
+  return { stories, hasMore: cursor !== null, loadMore, reload, patchStory };
+}
@@ -0,0 +1,216 @@
+/**
+ * Active Child
+ *
+ * The single source of truth for which child the app is serving right now.
+ * Screens read the active child through here rather than the legacy
+ * pending_child_profile key, and anything that belongs to one child
+ * (streaks, stardust, journal, narrator choice) is stored under a
+ * child-scoped key built by childStorageKey().
+ *
+ * Cache keys:
+ *   active_child_id        → id of the active child (mirrored to user_preferences)
+ *   pending_child_profile  → mirror of the active child profile, also used by
+ *                            onboarding before the child has a cloud id
+ *   <base>_<child_id>      → child-scoped data (see CHILD_SCOPED_KEYS)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Child } from './supabase';
+import { enqueueMutation } from './mutationQueue';
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+const ACTIVE_ID_KEY      = 'active_child_id';
+const PROFILE_KEY        = 'pending_child_profile';
+// Written by syncService – the cached child_profiles list
+const CHILDREN_KEY       = 'sync_child_profiles';
+const SCOPE_MIGRATED_KEY = 'child_scope_migrated';
+
+/**
+ * Per-child data keys. Before multi-child support these were stored
+ * unscoped; adoptUnscopedChildData() hands them to the first active child.
+ */
+export const CHILD_SCOPED_KEYS = [
+  'stardust_balance',
+  'stardust_history',
+  'stardust_unlocked_items',
+  'stardust_cloud_merged',
+  'stardust_cloud_merge_txn',
+  'bedtime_streak_count',
+  'bedtime_last_story_date',
+  'bedtime_streak_log',
+  'journal_entries',
+  'content_safety_log',
+  'selected_narrator_id',
+] as const;
+
+export type ChildScopedKey = typeof CHILD_SCOPED_KEYS[number];
+
+type ActiveChildListener = (child: Child | null) => void;
+
+const listeners = new Set<ActiveChildListener>();
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+async function readCachedChildren(): Promise<Child[]> {
+  try {
+    const raw = await AsyncStorage.getItem(CHILDREN_KEY);
+    if (raw) return JSON.parse(raw) as Child[];
+    const legacy = await AsyncStorage.getItem(PROFILE_KEY);
+    return legacy ? [JSON.parse(legacy) as Child] : [];
+  } catch {
+    return [];
+  }
+}
+
+function notify(child: Child | null): void {
+  listeners.forEach((l) => l(child));
+}
+
+/**
+ * Move pre-multi-child data (unscoped keys) under the given child, once.
+ * Existing scoped values win so nothing a child already earned is overwritten.
+ */
+async function adoptUnscopedChildData(childId: string): Promise<void> {
+  try {
+    if (await AsyncStorage.getItem(SCOPE_MIGRATED_KEY)) return;
+    const entries = await AsyncStorage.multiGet([
+      ...CHILD_SCOPED_KEYS,
+      ...CHILD_SCOPED_KEYS.map((k) => `${k}_${childId}`),
+    ]);
+    const values = Object.fromEntries(entries);
+    const moves: [string, string][] = CHILD_SCOPED_KEYS
+      .filter((k) => values[k] != null && values[`${k}_${childId}`] == null)
+      .map((k) => [`${k}_${childId}`, values[k] as string]);
+
+    if (moves.length > 0) await AsyncStorage.multiSet(moves);
+    await AsyncStorage.multiRemove([...CHILD_SCOPED_KEYS]);
+    await AsyncStorage.setItem(SCOPE_MIGRATED_KEY, 'true');
+  } catch (err) {
+    console.warn('[ActiveChild] Could not adopt unscoped data:', err);
+  }
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export async function getActiveChildId(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(ACTIVE_ID_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The active child profile. Falls back to the first cached child, then to
+ * the onboarding profile (which may not have an id yet).
+ * @param children  an already-loaded child list, to skip the cache read
+ */
+export async function getActiveChild(children?: Child[]): Promise<Child | null> {
+  const list = children ?? (await readCachedChildren());
+  const activeId = await getActiveChildId();
+  const match = list.find((c) => c.id === activeId) ?? list[0];
+  if (match) return match;
+
+  try {
+    const raw = await AsyncStorage.getItem(PROFILE_KEY);
+    return raw ? (JSON.parse(raw) as Child) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A cached child profile by id, or null when it isn't on this device. */
+export async function getCachedChild(childId: string): Promise<Child | null> {
+  return (await readCachedChildren()).find((c) => c.id === childId) ?? null;
+}
+
+/**
+ * Whether a child was added by another member of the user's family group –
+ * shared with them to read and make stories for, but not theirs to edit.
+ */
+export function isSharedChild(child: Pick<Child, 'user_id'>, userId: string | null | undefined): boolean {
+  return Boolean(userId && child.user_id && child.user_id !== userId);
+}
+
+/**
+ * Make a child the active one: persists locally, mirrors the profile for
+ * legacy readers, syncs user_preferences.active_child_id and notifies
+ * subscribers so open screens re-read their child-scoped data.
+ */
+export async function setActiveChild(child: Child, userId?: string | null): Promise<void> {
+  await AsyncStorage.multiSet([
+    [ACTIVE_ID_KEY, child.id],
+    [PROFILE_KEY,   JSON.stringify(child)],
+  ]);
+  await adoptUnscopedChildData(child.id);
+  notify(child);
+
+  if (userId) {
+    await enqueueMutation({
+      userId,
+      table:    'user_preferences',
+      op:       'update',
+      recordId: userId,
+      payload:  { active_child_id: child.id },
+    });
+  }
+}
+
+/**
+ * Pick the active child from a freshly synced list without clobbering the
+ * parent's choice: the preferred id (user_preferences) if it still exists,
+ * then the locally active id, then the first child.
+ */
+export async function reconcileActiveChild(
+  children: Child[],
+  preferredId?: string | null,
+): Promise<Child | null> {
+  if (children.length === 0) return null;
+  const currentId = await getActiveChildId();
+  const next =
+    children.find((c) => c.id === preferredId) ??
+    children.find((c) => c.id === currentId) ??
+    children[0];
+
+  await AsyncStorage.multiSet([
+    [ACTIVE_ID_KEY, next.id],
+    [PROFILE_KEY,   JSON.stringify(next)],
+  ]);
+  await adoptUnscopedChildData(next.id);
+  if (next.id !== currentId) notify(next);
+  return next;
+}
+
+/** Subscribe to active-child switches. Returns an unsubscribe function. */
+export function onActiveChildChange(listener: ActiveChildListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Storage key for a piece of per-child data, e.g.
+ * childStorageKey('bedtime_streak_count') → 'bedtime_streak_count_<child_id>'.
+ * Falls back to the bare key before any child exists (early onboarding).
+ */
+export async function childStorageKey(base: ChildScopedKey, childId?: string | null): Promise<string> {
+  const id = childId ?? (await getActiveChildId());
+  if (!id) return base;
+  // Existing installs may still hold this data unscoped – claim it first
+  await adoptUnscopedChildData(id);
+  return `${base}_${id}`;
+}
+
+/** Remove every child's scoped data (used on account deletion). */
+export async function clearChildScopedData(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(
+      keys.filter((k) => k === SCOPE_MIGRATED_KEY || CHILD_SCOPED_KEYS.some((base) => k === base || k.startsWith(`${base}_`))),
+    );
+  } catch {
+    // non-fatal
+  }
+}
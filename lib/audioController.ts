@@ -0,0 +1,89 @@
+/**
+ * Shared Audio Controller
+ *
+ * One place for the player to turn every bedtime sound down at once. Audio
+ * sources (AmbientMixer layers, story narration) register a channel; the
+ * sleep timer then drives a gain per kind and the channels apply it on top of
+ * their own volume.
+ *
+ *   ambient   – AmbientMixer soundscape layers
+ *   narration – useNarration (ParentVoice read-aloud)
+ *
+ * Gain is a 0–1 multiplier, so a fade never loses the parent's chosen mix:
+ * resetting the gain to 1 brings every layer back to where it was.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type AudioChannelKind = 'ambient' | 'narration';
+
+export interface AudioChannel {
+  /** Apply the controller gain (0–1) on top of the channel's own volume. */
+  setGain: (gain: number) => void | Promise<void>;
+  /** Hard stop – silence and release whatever the channel is playing. */
+  stop: () => void | Promise<void>;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+
+const channels: Record<AudioChannelKind, Set<AudioChannel>> = {
+  ambient:   new Set(),
+  narration: new Set(),
+};
+
+const gains: Record<AudioChannelKind, number> = {
+  ambient:   1,
+  narration: 1,
+};
+
+const ALL_KINDS: AudioChannelKind[] = ['ambient', 'narration'];
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Register an audio source. The channel immediately receives the current gain
+ * so a layer started mid-fade joins at the right level.
+ * Returns an unregister function.
+ */
+export function registerAudioChannel(kind: AudioChannelKind, channel: AudioChannel): () => void {
+  channels[kind].add(channel);
+  void channel.setGain(gains[kind]);
+  return () => {
+    channels[kind].delete(channel);
+  };
+}
+
+export function getAudioGain(kind: AudioChannelKind): number {
+  return gains[kind];
+}
+
+/** Set the gain for every channel of a kind. No-op if the gain is unchanged. */
+export function setAudioGain(kind: AudioChannelKind, gain: number): void {
+  const clamped = Math.max(0, Math.min(1, gain));
+  if (Math.abs(clamped - gains[kind]) < 0.005) return;
+  gains[kind] = clamped;
+  channels[kind].forEach((ch) => {
+    try {
+      void ch.setGain(clamped);
+    } catch (err) {
+      console.warn('[AudioController] setGain failed:', err);
+    }
+  });
+}
+
+/** Hard stop the given kinds (default: everything). */
+export async function stopAudio(kinds: AudioChannelKind[] = ALL_KINDS): Promise<void> {
+  const targets = kinds.flatMap((kind) => [...channels[kind]]);
+  await Promise.all(targets.map(async (ch) => {
+    try {
+      await ch.stop();
+    } catch (err) {
+      console.warn('[AudioController] stop failed:', err);
+    }
+  }));
+}
+
+/** Restore full gain on every kind (after a fade is cancelled or the child is still awake). */
+export function resetAudioGain(): void {
+  ALL_KINDS.forEach((kind) => setAudioGain(kind, 1));
+}
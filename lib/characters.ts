@@ -0,0 +1,174 @@
+/**
+ * Story Characters – each child's recurring cast
+ *
+ * Companions that come back night after night. Parents write them by hand
+ * or ask Newell AI to invent one (buildCharacterPrompt); create-story lets
+ * the parent pick who appears tonight, and their appearance descriptions go
+ * into buildImagePrompt so covers show the same hedgehog every time.
+ *
+ * Characters are cached locally for every child and written to Supabase
+ * through lib/mutationQueue.
+ *
+ * Cache keys:
+ *   story_characters → StoryCharacter[] (all children, oldest first)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateText } from '@fastshot/ai';
+import type { Child, StoryCharacter } from './supabase';
+import { getActiveChildId } from './activeChild';
+import { createLocalId, enqueueMutation, isLocalId, overlayPendingMutations } from './mutationQueue';
+import { buildCharacterPrompt } from './newell';
+import { extractJson } from './storyGeneration';
+import { localizeBoundaryTerms, screenParagraphs } from './contentSafety';
+import { getAppLanguage } from './i18n';
+
+const CAST_KEY = 'story_characters';
+
+/** Cast size per child – enough variety without crowding every story */
+export const MAX_CAST_SIZE = 8;
+/** How many cast members one story can feature */
+export const MAX_FEATURED  = 3;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The editable part of a character. */
+export type CharacterDraft = Pick<StoryCharacter, 'name' | 'species' | 'personality' | 'appearance' | 'emoji'>;
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+async function readCast(): Promise<StoryCharacter[]> {
+  try {
+    const raw = await AsyncStorage.getItem(CAST_KEY);
+    return raw ? (JSON.parse(raw) as StoryCharacter[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeCast(cast: StoryCharacter[]): Promise<void> {
+  const sorted = [...cast].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  await AsyncStorage.setItem(CAST_KEY, JSON.stringify(sorted));
+}
+
+/** A child's cast (the active child by default), in the order they were added. */
+export async function getCharacters(childId?: string | null): Promise<StoryCharacter[]> {
+  const id = childId === undefined ? await getActiveChildId() : childId;
+  if (!id) return [];
+  return (await readCast()).filter((c) => c.child_id === id);
+}
+
+/**
+ * Replace the cache with rows pulled from Supabase. Queued local edits are
+ * laid over them, and characters that only exist locally so far are kept.
+ */
+export async function cacheCharactersFromCloud(rows: StoryCharacter[]): Promise<void> {
+  const pulled = await overlayPendingMutations('story_characters', rows);
+  const localOnly = (await readCast()).filter((c) => isLocalId(c.id));
+  const localIds = new Set(localOnly.map((c) => c.id));
+  await writeCast([...pulled.filter((c) => !localIds.has(c.id)), ...localOnly]);
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+function cleanDraft(draft: CharacterDraft): CharacterDraft {
+  return {
+    name:        draft.name.trim().slice(0, 40),
+    species:     draft.species.trim(),
+    personality: draft.personality.trim(),
+    appearance:  draft.appearance.trim(),
+    emoji:       draft.emoji.trim() || '✨',
+  };
+}
+
+/**
+ * Add a character to a child's cast.
+ * Returns null when the cast is already full.
+ */
+export async function addCharacter(params: {
+  userId:     string | null | undefined;
+  child:      Pick<Child, 'id'>;
+  draft:      CharacterDraft;
+  createdBy?: StoryCharacter['created_by'];
+}): Promise<StoryCharacter | null> {
+  const { userId, child, draft, createdBy = 'parent' } = params;
+  const cast = await readCast();
+  if (cast.filter((c) => c.child_id === child.id).length >= MAX_CAST_SIZE) return null;
+
+  const now = new Date().toISOString();
+  const row = { ...cleanDraft(draft), user_id: userId ?? '', child_id: child.id, created_by: createdBy };
+  const character: StoryCharacter = { ...row, id: createLocalId(), created_at: now, updated_at: now };
+  await writeCast([...cast, character]);
+  await enqueueMutation({ userId, table: 'story_characters', op: 'create', recordId: character.id, payload: row });
+  return character;
+}
+
+export async function updateCharacter(
+  characterId: string,
+  draft: CharacterDraft,
+  userId: string | null | undefined,
+): Promise<StoryCharacter | null> {
+  const cast = await readCast();
+  const existing = cast.find((c) => c.id === characterId);
+  if (!existing) return null;
+
+  const changes = cleanDraft(draft);
+  const updated: StoryCharacter = { ...existing, ...changes, updated_at: new Date().toISOString() };
+  await writeCast(cast.map((c) => (c.id === characterId ? updated : c)));
+  await enqueueMutation({ userId, table: 'story_characters', op: 'update', recordId: characterId, payload: changes });
+  return updated;
+}
+
+export async function deleteCharacter(characterId: string, userId: string | null | undefined): Promise<void> {
+  await writeCast((await readCast()).filter((c) => c.id !== characterId));
+  await enqueueMutation({ userId, table: 'story_characters', op: 'delete', recordId: characterId });
+}
+
+// ─── AI ───────────────────────────────────────────────────────────────────────
+
+function parseDraft(raw: string): CharacterDraft | null {
+  const value = extractJson(raw);
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+  const draft = {
+    name:        str(r.name),
+    species:     str(r.species),
+    personality: str(r.personality),
+    appearance:  str(r.appearance),
+    emoji:       str(r.emoji),
+  };
+  return draft.name && draft.appearance ? cleanDraft(draft) : null;
+}
+
+/**
+ * Ask Newell AI to invent a character for the child, optionally from the
+ * parent's idea ("a sleepy owl who loves maps"). The result is screened like
+ * any story text and is only a draft – the parent saves it with addCharacter.
+ * @throws Error when no safe character came back after two tries
+ */
+export async function inventCharacter(
+  child: Child,
+  idea?: string,
+): Promise<CharacterDraft> {
+  const existing = await getCharacters(child.id);
+  const language = await getAppLanguage();
+  const prompt = buildCharacterPrompt(child, idea, existing, language);
+  const boundaryTerms = await localizeBoundaryTerms(child, language);
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const draft = parseDraft((await generateText({ prompt, temperature: 0.9 })) ?? '');
+    if (!draft) continue;
+    const flags = screenParagraphs([draft.name, draft.species, draft.personality, draft.appearance], {
+      kind:       'character',
+      age:        child.age,
+      allowNames: [child.name, draft.name],
+      boundaries: child,
+      language,
+      boundaryTerms,
+    });
+    if (flags.length === 0) return draft;
+    console.warn('[Characters] Invented character flagged:', flags.map((f) => f.ruleId));
+  }
+  throw new Error('Could not invent a character. Please try again.');
+}
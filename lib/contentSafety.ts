@@ -0,0 +1,777 @@
+/**
+ * Content Safety
+ *
+ * Screens AI-written text before it reaches a child. Stories, branch
+ * continuations, reflection questions and greetings all pass through
+ * moderateText / moderateStory:
+ *   1. screenParagraphs runs the rule set for the child's age tier over
+ *      every paragraph (peril rules only over the closing paragraphs).
+ *   2. Flagged paragraphs – and only those – are sent back to the model to
+ *      be softened; the rest of the text is kept word for word.
+ *   3. Still flagged → the caller's regenerate function is tried once.
+ *   4. Still flagged → the offending sentences are removed, falling back to
+ *      the caller's fallback text if nothing is left.
+ * The short text that comes with a story – its title, choice question and
+ * labels, saga recap, summary and cast – goes through moderateStoryDetails:
+ * flagged details are softened, and whatever is still flagged is replaced by
+ * a neutral stand-in (or, for longer text, loses the flagged sentences).
+ * Anything that was blocked is logged for the parent (Observatory →
+ * Story Safety Filter). Unknown ages get the strictest tier.
+ *
+ * The parent's avoid-topics and fears for the child (see ChildBoundaries)
+ * are screened the same way, as 'parent_boundary' flags, in every tier.
+ *
+ * Text written in another app language (lib/i18n) is screened with that
+ * language's rules as well as the English ones, and the boundaries are
+ * matched in that language too: the model lists the words for each term
+ * once (localizeBoundaryTerms) and they are kept. When they can't be looked
+ * up the text isn't passed – moderation throws instead.
+ *
+ * Cache keys:
+ *   content_safety_log_<child_id> → SafetyLogEntry[] (newest first)
+ *   content_safety_terms          → language → boundary term → words in it
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateText } from '@fastshot/ai';
+import { childStorageKey } from './activeChild';
+import {
+  buildBoundaryTermsPrompt,
+  buildSofteningPrompt,
+  type ChildBoundaries,
+  type GeneratedStory,
+  type LanguageCode,
+} from './newell';
+import type { SagaEntity } from './supabase';
+import { buildReadingLevel, extractJson } from './storyGeneration';
+
+const LOG_KEY         = 'content_safety_log';
+const TERMS_KEY       = 'content_safety_terms';
+const MAX_LOG_ENTRIES = 100;
+const MAX_PASSAGE_LOG = 240;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type AgeTier = 'little' | 'young' | 'older';
+
+export type SafetyCategory = 'closing_peril' | 'scary_imagery' | 'unsafe_activity' | 'real_names' | 'parent_boundary';
+
+export type SafetyContentKind = 'story' | 'branch' | 'reflection' | 'greeting' | 'character' | 'details';
+
+/** What happened to flagged text: rewritten by the model, regenerated, or cut. */
+export type ModerationAction = 'passed' | 'softened' | 'regenerated' | 'removed';
+
+interface SafetyRule {
+  id:       string;
+  category: SafetyCategory;
+  label:    string;
+  pattern:  RegExp;
+  tiers:    AgeTier[];
+}
+
+export interface SafetyFlag {
+  ruleId:    string;
+  category:  SafetyCategory;
+  label:     string;
+  match:     string;
+  paragraph: number;
+}
+
+export interface ModerationResult {
+  text:   string;
+  /** Flags raised by the original text */
+  flags:  SafetyFlag[];
+  action: ModerationAction;
+}
+
+export interface SafetyLogEntry {
+  id:        string;
+  createdAt: string;
+  kind:      SafetyContentKind;
+  title?:    string;
+  ageTier:   AgeTier;
+  action:    Exclude<ModerationAction, 'passed'>;
+  blocked:   { category: SafetyCategory; label: string; match: string; passage: string }[];
+}
+
+/** A boundary term (lowercased) → the words for it in the language being screened. */
+export type BoundaryTerms = Record<string, string[]>;
+
+/** The short generated text shown or read with a story, besides its paragraphs. */
+export type StoryDetails = Partial<Pick<GeneratedStory, 'title' | 'choicePoint' | 'sagaMemory'>>;
+
+export interface ModerationOptions {
+  kind:           SafetyContentKind;
+  age?:           number | null;
+  /** Shown in the parent's log */
+  title?:         string;
+  /** Names that must never count as a real person (the child, siblings) */
+  allowNames?:    string[];
+  childId?:       string | null;
+  boundaries?:    ChildBoundaries | null;
+  /** Language the text is written in (lib/i18n); English when missing */
+  language?:      string | null;
+  /** The boundaries in that language – looked up by moderation when missing */
+  boundaryTerms?: BoundaryTerms;
+  /** Used when the whole text had to be removed */
+  fallback?:      string;
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+const ALL_TIERS: AgeTier[] = ['little', 'young', 'older'];
+
+// Stand-ins for story details that could not be made safe
+const TITLE_FALLBACK    = 'A Cosy Bedtime Story';
+const QUESTION_FALLBACK = 'What should happen next?';
+const OPTION_FALLBACKS  = ['Follow the moonlit path', 'Rest by the quiet stream', 'Ask a friendly owl'];
+
+const RULES: SafetyRule[] = [
+  {
+    id: 'closing_peril', category: 'closing_peril', label: 'Peril near the ending', tiers: ALL_TIERS,
+    pattern: /\b(danger(ous)?|trapped|chas(e|ed|ing)|attack(s|ed|ing)?|scream(s|ed|ing)?|hurt|injur(ed|y)|bleed(ing)?|fight(s|ing)?|terrified|frightened|lost forever|can't escape|storm raged|fell off)\b/i,
+  },
+  {
+    id: 'violence', category: 'scary_imagery', label: 'Violence or death', tiers: ALL_TIERS,
+    pattern: /\b(blood(y)?|gore|corpses?|dead bod(y|ies)|murder(ed|er)?|kill(s|ed|ing)?|stab(bed|bing)?|shoot(s|ing)?|gun(s)?|weapon(s)?)\b/i,
+  },
+  {
+    id: 'horror', category: 'scary_imagery', label: 'Horror imagery', tiers: ALL_TIERS,
+    pattern: /\b(zombies?|demons?|skeletons?|severed|possessed|curse[ds]? (to|with) death)\b/i,
+  },
+  {
+    id: 'frightening', category: 'scary_imagery', label: 'Frightening imagery', tiers: ['little', 'young'],
+    pattern: /\b(nightmares?|haunted|creepy|terrifying|horrible|sinister|evil|fangs|shadowy figure)\b/i,
+  },
+  {
+    id: 'spooky', category: 'scary_imagery', label: 'Spooky characters', tiers: ['little'],
+    pattern: /\b(monsters?|ghosts?|witch(es)?|spooky|scary|claws|growl(s|ed|ing)?|wolves|darkness swallowed)\b/i,
+  },
+  {
+    id: 'fire', category: 'unsafe_activity', label: 'Playing with fire', tiers: ALL_TIERS,
+    pattern: /\b(match(es|stick)|lighters?|play(s|ed|ing)? with fire|lit (a|the) (fire|candle) (alone|by (him|her|them)sel(f|ves)))\b/i,
+  },
+  {
+    id: 'heights', category: 'unsafe_activity', label: 'Climbing or leaning out', tiers: ALL_TIERS,
+    pattern: /\b(climb(s|ed|ing)? (out (of )?)?(the|a|her|his|their) window|lean(s|ed|ing)? out (of )?(the|a) window|onto the roof|over the balcony)\b/i,
+  },
+  {
+    id: 'strangers', category: 'unsafe_activity', label: 'Going with a stranger', tiers: ALL_TIERS,
+    pattern: /\b((went|go(es|ing)?|walk(s|ed|ing)? (off|away)|got into (a|the) car) with (a|the) stranger|stranger('s)? (car|van))\b/i,
+  },
+  {
+    id: 'ingesting', category: 'unsafe_activity', label: 'Eating something unsafe', tiers: ALL_TIERS,
+    pattern: /\b(ate|eat(s|ing)?|swallow(s|ed|ing)?|tast(e|ed|ing)) (the |some |a few |wild )?(berries|mushrooms|toadstools|pills|medicine|tablets|batteries|magnets)\b/i,
+  },
+  {
+    id: 'water', category: 'unsafe_activity', label: 'Water without a grown-up', tiers: ALL_TIERS,
+    pattern: /\b(swim(s|ming)?|swam|dived?|jump(s|ed)? in(to)?) (the )?(river|lake|sea|ocean|pool)? ?alone\b/i,
+  },
+  {
+    id: 'hiding', category: 'unsafe_activity', label: 'Hiding somewhere unsafe', tiers: ALL_TIERS,
+    pattern: /\bhid(e|es|ing)? in(side)? (the|a) (fridge|freezer|washing machine|dryer|oven|car boot|trunk)\b/i,
+  },
+  {
+    id: 'sharp', category: 'unsafe_activity', label: 'Handling sharp objects', tiers: ['little', 'young'],
+    pattern: /\b(knife|knives|scissors|razor|needle)\b/i,
+  },
+  {
+    // Case-sensitive: brands and names are proper nouns
+    id: 'brands', category: 'real_names', label: 'Real brand or product', tiers: ALL_TIERS,
+    pattern: /\b(Disney|Pixar|Marvel|McDonald's|Coca-Cola|Pepsi|Starbucks|YouTube|TikTok|Instagram|iPhone|iPad|Google|Netflix|LEGO|Lego|Minecraft|Fortnite|Roblox|Pok[ée]mon|Barbie|Nike|Adidas|Nintendo|PlayStation|Xbox|Burger King|KFC|Walmart|Tesla)\b/,
+  },
+  {
+    id: 'characters', category: 'real_names', label: 'Franchise character', tiers: ALL_TIERS,
+    pattern: /\b(Mickey Mouse|Minnie Mouse|Spider-?Man|Batman|Superman|Peppa Pig|Paw Patrol|Harry Potter|Bluey|Elsa and Anna|Pikachu|Mario|Sonic|SpongeBob|Buzz Lightyear)\b/,
+  },
+  {
+    id: 'people', category: 'real_names', label: 'Real person', tiers: ALL_TIERS,
+    pattern: /\b(Taylor Swift|Elon Musk|Donald Trump|Joe Biden|Barack Obama|Beyonc[ée]?|Kim Kardashian|Cristiano Ronaldo|Lionel Messi|Harry Styles|Mr ?Beast|Billie Eilish|King Charles|Queen Elizabeth|Greta Thunberg)\b/,
+  },
+];
+
+// \b only knows ASCII letters, so the other languages' words are bounded by any letter
+const LETTERS = 'A-Za-zÀ-ÖØ-öø-ÿ';
+
+function words(source: string): RegExp {
+  return new RegExp(`(?<![${LETTERS}])(?:${source})(?![${LETTERS}])`, 'i');
+}
+
+/**
+ * The age-tier rules for the other app languages, with the English rules'
+ * ids, labels and tiers. Brands, characters and people are names in every
+ * language, so the English 'real_names' rules cover them.
+ */
+const LOCALIZED_RULES: Record<Exclude<LanguageCode, 'en'>, SafetyRule[]> = {
+  es: [
+    {
+      id: 'closing_peril', category: 'closing_peril', label: 'Peril near the ending', tiers: ALL_TIERS,
+      pattern: words("peligros[oa]s?|peligro|atrapad[oa]s?|persegu(ía|ían|ido|ida|ir)|atac(ó|aron|aba|ar)|grit(ó|aron|aba|aban)|herid[oa]s?|sangr(ó|aba|ando)|pele(a|as|aba|aron)|aterrad[oa]s?|aterrorizad[oa]s?|asustad[oa]s?|perdid[oa]s? para siempre|no pod(ía|ían) escapar|la tormenta rugía|se cayó"),
+    },
+    {
+      id: 'violence', category: 'scary_imagery', label: 'Violence or death', tiers: ALL_TIERS,
+      pattern: words('sangre|sangrient[oa]s?|cadáver(es)?|cuerpos? sin vida|asesin(o|a|os|ato|ó|ar|ado|ada)|mat(ó|ar|aron|aba)|apuñal(ó|ado|ada|ar)|dispar(ó|ar|os|aron)|pistolas?|armas?'),
+    },
+    {
+      id: 'horror', category: 'scary_imagery', label: 'Horror imagery', tiers: ALL_TIERS,
+      pattern: words('zombis?|zombies?|demonios?|esqueletos?|cercenad[oa]s?|poseíd[oa]s?|maldecid[oa]s? a muerte'),
+    },
+    {
+      id: 'frightening', category: 'scary_imagery', label: 'Frightening imagery', tiers: ['little', 'young'],
+      pattern: words('pesadillas?|embrujad[oa]s?|espeluznantes?|aterrador(a|es|as)?|horribles?|siniestr[oa]s?|malvad[oa]s?|colmillos|figura sombría'),
+    },
+    {
+      id: 'spooky', category: 'scary_imagery', label: 'Spooky characters', tiers: ['little'],
+      pattern: words('monstruos?|fantasmas?|brujas?|escalofriantes?|da(ba)? miedo|garras|gruñ(ó|ía|ían|ir|e|en)|lobos|la oscuridad se tragó'),
+    },
+    {
+      id: 'fire', category: 'unsafe_activity', label: 'Playing with fire', tiers: ALL_TIERS,
+      pattern: words('cerillas?|fósforos?|mecheros?|encendedor(es)?|jug(ó|ar|aba|ando) con (el )?fuego'),
+    },
+    {
+      id: 'heights', category: 'unsafe_activity', label: 'Climbing or leaning out', tiers: ALL_TIERS,
+      pattern: words('(trep(ó|ar|aba|ando)|sali(ó|r)) por la ventana|se asom(ó|aba|aron) por la ventana|(al|sobre el) tejado|por encima del balcón'),
+    },
+    {
+      id: 'strangers', category: 'unsafe_activity', label: 'Going with a stranger', tiers: ALL_TIERS,
+      pattern: words('(se fue|se marchó|fue|subió al coche) con (un|una|el|la) desconocid[oa]|coche de (un|una) desconocid[oa]'),
+    },
+    {
+      id: 'ingesting', category: 'unsafe_activity', label: 'Eating something unsafe', tiers: ALL_TIERS,
+      pattern: words('(comió|comer|come|comiendo|tragó|tragar|probó|probar) (unas |las |algunas |unos |los )?(bayas|setas|hongos|pastillas|medicinas?|baterías|pilas|imanes)'),
+    },
+    {
+      id: 'water', category: 'unsafe_activity', label: 'Water without a grown-up', tiers: ALL_TIERS,
+      pattern: words('(nad(ó|ar|aba|ando)|se zambull(ó|ía)|se tir(ó|aba) al agua)( en (el río|el lago|el mar|el océano|la piscina))? sol[oa]s?'),
+    },
+    {
+      id: 'hiding', category: 'unsafe_activity', label: 'Hiding somewhere unsafe', tiers: ALL_TIERS,
+      pattern: words('se escond(ió|e|ía|ieron) (dentro )?(de|en) (la|el|una|un) (nevera|frigorífico|congelador|lavadora|secadora|horno|maletero)'),
+    },
+    {
+      id: 'sharp', category: 'unsafe_activity', label: 'Handling sharp objects', tiers: ['little', 'young'],
+      pattern: words('cuchill(o|os|a|as)|tijeras|navajas?|agujas?'),
+    },
+  ],
+  fr: [
+    {
+      id: 'closing_peril', category: 'closing_peril', label: 'Peril near the ending', tiers: ALL_TIERS,
+      pattern: words("danger(eux|euse|euses)?|piégé(e|s|es)?|pris au piège|poursuivi(e|s|es)?|attaqu(a|é|ée|és|ait|er)|hurl(a|ait|aient|er)|blessé(e|s|es)?|saign(a|ait|er)|se batt(ait|aient|re)|terrifié(e|s|es)?|effrayé(e|s|es)?|perdu(e|s|es)? pour toujours|ne pouvai(t|ent) pas s'échapper|la tempête faisait rage|tomba du"),
+    },
+    {
+      id: 'violence', category: 'scary_imagery', label: 'Violence or death', tiers: ALL_TIERS,
+      pattern: words('sang|sanglant(e|s|es)?|cadavres?|corps sans vie|meurtre(s)?|meurtrier|assassin(é|ée|er|at)?|tu(a|é|ée|er|ait)|poignard(a|é|ée|er)|tir(a|er) sur|fusils?|pistolets?|armes?'),
+    },
+    {
+      id: 'horror', category: 'scary_imagery', label: 'Horror imagery', tiers: ALL_TIERS,
+      pattern: words('zombies?|démons?|squelettes?|tranché(e|s|es)?|possédé(e|s|es)?|maudit(e|s|es)? à mort'),
+    },
+    {
+      id: 'frightening', category: 'scary_imagery', label: 'Frightening imagery', tiers: ['little', 'young'],
+      pattern: words('cauchemars?|hanté(e|s|es)?|effrayant(e|s|es)?|terrifiant(e|s|es)?|horribles?|sinistres?|maléfiques?|crocs|silhouette sombre'),
+    },
+    {
+      id: 'spooky', category: 'scary_imagery', label: 'Spooky characters', tiers: ['little'],
+      pattern: words("monstres?|fantômes?|sorcières?|qui fai(t|sait) peur|grogn(a|ait|er|e|ent)|griffes|loups|l'obscurité engloutit"),
+    },
+    {
+      id: 'fire', category: 'unsafe_activity', label: 'Playing with fire', tiers: ALL_TIERS,
+      pattern: words('allumettes?|briquets?|jou(a|er|ait|ant) avec le feu'),
+    },
+    {
+      id: 'heights', category: 'unsafe_activity', label: 'Climbing or leaning out', tiers: ALL_TIERS,
+      pattern: words('(grimp(a|er|ait)|sort(it|ir)|se pench(a|ait|er)) par la fenêtre|sur le toit|par-dessus le balcon'),
+    },
+    {
+      id: 'strangers', category: 'unsafe_activity', label: 'Going with a stranger', tiers: ALL_TIERS,
+      pattern: words("(partit|partir|suivit|suivre|monta dans la voiture) (avec )?(un|une|l') ?inconnu(e)?|voiture d'(un|une) inconnu(e)?"),
+    },
+    {
+      id: 'ingesting', category: 'unsafe_activity', label: 'Eating something unsafe', tiers: ALL_TIERS,
+      pattern: words('(mange(a|r|ait)?|avala(it)?|avaler|goûta|goûter) (des |les |quelques )?(baies|champignons|pilules|médicaments?|comprimés|piles|aimants)'),
+    },
+    {
+      id: 'water', category: 'unsafe_activity', label: 'Water without a grown-up', tiers: ALL_TIERS,
+      pattern: words("(nage(a|r|ait)?|plonge(a|r|ait)?|saut(a|er) dans l'eau)( dans (la rivière|le lac|la mer|l'océan|la piscine))? (tout seul|toute seule|seule?s?)"),
+    },
+    {
+      id: 'hiding', category: 'unsafe_activity', label: 'Hiding somewhere unsafe', tiers: ALL_TIERS,
+      pattern: words('se cach(a|ait|er|e) dans (le|la|un|une) (frigo|réfrigérateur|congélateur|machine à laver|sèche-linge|four|coffre)'),
+    },
+    {
+      id: 'sharp', category: 'unsafe_activity', label: 'Handling sharp objects', tiers: ['little', 'young'],
+      pattern: words('couteaux?|ciseaux|rasoirs?|aiguilles?'),
+    },
+  ],
+  de: [
+    {
+      id: 'closing_peril', category: 'closing_peril', label: 'Peril near the ending', tiers: ALL_TIERS,
+      pattern: words('gefahr|gefährlich(e|er|en|es)?|gefangen|gejagt|verfolgt(e|en)?|angegriffen|schrie(en)?|verletzt(e|en)?|blutete(n)?|kämpft(e|en)?|verängstigt(e|en)?|entsetzt(e|en)?|für immer verloren|konnte(n)? nicht entkommen|der sturm tobte|stürzte(n)? ab'),
+    },
+    {
+      id: 'violence', category: 'scary_imagery', label: 'Violence or death', tiers: ALL_TIERS,
+      pattern: words('blut|blutig(e|en|er)?|leichen?|tote(n)? körper|mord(e|en)?|mörder|ermordet|töte(n|t|te|ten)?|getötet|erstochen|erschossen|schieß(t|en)|gewehre?|pistolen?|waffen?'),
+    },
+    {
+      id: 'horror', category: 'scary_imagery', label: 'Horror imagery', tiers: ALL_TIERS,
+      pattern: words('zombies?|dämon(en)?|skelett(e)?|abgetrennt(e|en)?|besessen(e|en)?|zu tode verflucht'),
+    },
+    {
+      id: 'frightening', category: 'scary_imagery', label: 'Frightening imagery', tiers: ['little', 'young'],
+      pattern: words('albträume?|alpträume?|albtraum|alptraum|spukt|verwunschen(e|en)?|gruselig(e|en|er)?|schrecklich(e|en|er)?|unheimlich(e|en|er)?|finster(e|en|er)?|böse(n|r)?|reißzähne|schattengestalt'),
+    },
+    {
+      id: 'spooky', category: 'scary_imagery', label: 'Spooky characters', tiers: ['little'],
+      pattern: words('monster(n)?|gespenst(er)?|geister?|hexen?|knurr(t|te|ten|en)|krallen|wölfe|die dunkelheit verschluckte'),
+    },
+    {
+      id: 'fire', category: 'unsafe_activity', label: 'Playing with fire', tiers: ALL_TIERS,
+      pattern: words('streichhölzer|streichholz|feuerzeuge?|spielt(e|en)? mit (dem )?feuer'),
+    },
+    {
+      id: 'heights', category: 'unsafe_activity', label: 'Climbing or leaning out', tiers: ALL_TIERS,
+      pattern: words('(kletterte(n)?|klettert|stieg(en)?) (aus dem fenster|aufs dach|auf das dach)|lehnte(n)? sich aus dem fenster|über das geländer'),
+    },
+    {
+      id: 'strangers', category: 'unsafe_activity', label: 'Going with a stranger', tiers: ALL_TIERS,
+      pattern: words('(ging(en)?|fuhr(en)?|stieg(en)? ins auto) mit (einem|einer|dem|der) fremden|auto (eines|einer) fremden'),
+    },
+    {
+      id: 'ingesting', category: 'unsafe_activity', label: 'Eating something unsafe', tiers: ALL_TIERS,
+      pattern: words('(aß|aßen|essen|isst|schluckte(n)?|verschluckte(n)?|probierte(n)?) (die |ein paar |einige |wilde )?(beeren|pilze|fliegenpilze|tabletten|pillen|medizin|medikamente|batterien|magnete)'),
+    },
+    {
+      id: 'water', category: 'unsafe_activity', label: 'Water without a grown-up', tiers: ALL_TIERS,
+      pattern: words('(schwamm|schwimmt|schwimmen|sprang|tauchte)( in (den fluss|den see|das meer|den ozean|das becken|den pool))? (ganz )?allein'),
+    },
+    {
+      id: 'hiding', category: 'unsafe_activity', label: 'Hiding somewhere unsafe', tiers: ALL_TIERS,
+      pattern: words('versteckte(n)? sich (im|in der|in dem|in einem|in einer) (kühlschrank|gefriertruhe|waschmaschine|trockner|ofen|backofen|kofferraum)'),
+    },
+    {
+      id: 'sharp', category: 'unsafe_activity', label: 'Handling sharp objects', tiers: ['little', 'young'],
+      pattern: words('messer|scheren?|rasiermesser|nadeln?'),
+    },
+  ],
+};
+
+/** The rules for text in a language: the English ones, plus that language's own. */
+function rulesFor(language?: string | null): SafetyRule[] {
+  const own = (LOCALIZED_RULES as Partial<Record<string, SafetyRule[]>>)[language ?? 'en'];
+  return own ? [...RULES, ...own] : RULES;
+}
+
+export const SAFETY_CATEGORY_INFO: Record<SafetyCategory, { label: string; emoji: string }> = {
+  closing_peril:   { label: 'Peril near the ending', emoji: '⚡' },
+  scary_imagery:   { label: 'Scary imagery',         emoji: '👻' },
+  unsafe_activity: { label: 'Unsafe activity',       emoji: '🔥' },
+  real_names:      { label: 'Real brands & people',  emoji: '🏷️' },
+  parent_boundary: { label: 'Your boundaries',       emoji: '🚫' },
+};
+
+export function getAgeTier(age?: number | null): AgeTier {
+  if (!age || age <= 4) return 'little';
+  if (age <= 7) return 'young';
+  return 'older';
+}
+
+// ─── Screening ────────────────────────────────────────────────────────────────
+
+/** Index of the first paragraph where peril is no longer allowed. */
+function closingStart(kind: SafetyContentKind, count: number): number {
+  if (kind === 'story') return Math.max(0, count - 2);   // P4–5 of a bedtime story
+  if (kind === 'branch') return Math.max(0, count - 1);  // the sleepy ending
+  if (kind === 'details') return count;                  // titles, choices and recaps come before the ending
+  return 0;                                              // greetings, questions and characters are all "ending"
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The parent's avoid-topics and fears, trimmed. */
+function boundaryTermList(boundaries?: ChildBoundaries | null): string[] {
+  return [...(boundaries?.avoid_topics ?? []), ...(boundaries?.fears ?? [])]
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+/**
+ * One rule per avoided topic and fear, matching the phrase – and its words
+ * in the text's language, when given – with simple plurals.
+ */
+function boundaryRules(boundaries?: ChildBoundaries | null, terms?: BoundaryTerms): SafetyRule[] {
+  if (!boundaries) return [];
+  const toRule = (term: string, label: string): SafetyRule => ({
+    id:       `boundary:${term.toLowerCase()}`,
+    category: 'parent_boundary',
+    label,
+    pattern:  words([term, ...(terms?.[term.toLowerCase()] ?? [])]
+      .map((t) => `${escapeRegExp(t).replace(/\s+/g, '\\s+')}(s|es|'s)?`)
+      .join('|')),
+    tiers:    ALL_TIERS,
+  });
+  return [
+    ...(boundaries.avoid_topics ?? []).filter((t) => t.trim()).map((t) => toRule(t.trim(), `You asked to avoid "${t.trim()}"`)),
+    ...(boundaries.fears ?? []).filter((t) => t.trim()).map((t) => toRule(t.trim(), `Afraid of "${t.trim()}"`)),
+  ];
+}
+
+/** Run the age-tier rules and the parent's boundaries over each paragraph. */
+export function screenParagraphs(
+  paragraphs: string[],
+  options: Pick<ModerationOptions, 'kind' | 'age' | 'allowNames' | 'boundaries' | 'language' | 'boundaryTerms'>,
+): SafetyFlag[] {
+  const tier    = getAgeTier(options.age);
+  // The child's own name, and the pets and siblings the parent listed, are never "real people"
+  const allowed = [...(options.allowNames ?? []), ...(options.boundaries?.inclusions ?? []).map((i) => i.name)]
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+  const closing = closingStart(options.kind, paragraphs.length);
+  const rules   = [...rulesFor(options.language), ...boundaryRules(options.boundaries, options.boundaryTerms)];
+  const flags: SafetyFlag[] = [];
+
+  paragraphs.forEach((text, paragraph) => {
+    for (const rule of rules) {
+      if (!rule.tiers.includes(tier)) continue;
+      if (rule.category === 'closing_peril' && paragraph < closing) continue;
+      const match = text.match(rule.pattern)?.[0];
+      if (!match) continue;
+      if (rule.category === 'real_names' && allowed.some((n) => n.includes(match.toLowerCase()))) continue;
+      flags.push({ ruleId: rule.id, category: rule.category, label: rule.label, match, paragraph });
+    }
+  });
+  return flags;
+}
+
+function splitText(text: string, kind: SafetyContentKind): string[] {
+  const parts = kind === 'reflection' ? text.split('\n') : text.split(/\n\s*\n/);
+  return parts.map((p) => p.trim()).filter((p) => p.length > 0);
+}
+
+function joinText(paragraphs: string[], kind: SafetyContentKind): string {
+  return paragraphs.join(kind === 'reflection' ? '\n' : '\n\n');
+}
+
+// ─── Repair ───────────────────────────────────────────────────────────────────
+
+/** Ask the model to rewrite only the flagged paragraphs. */
+async function softenParagraphs(
+  paragraphs: string[],
+  flags: SafetyFlag[],
+  options: Pick<ModerationOptions, 'age' | 'boundaries'>,
+): Promise<string[] | null> {
+  const indexes = [...new Set(flags.map((f) => f.paragraph))].sort((a, b) => a - b);
+  const passages = indexes.map((i) => ({
+    text:    paragraphs[i],
+    reasons: flags.filter((f) => f.paragraph === i).map((f) => `${f.label} ("${f.match}")`),
+  }));
+
+  try {
+    const raw = await generateText({ prompt: buildSofteningPrompt(passages, options.age, options.boundaries), temperature: 0.3 });
+    const parsed = extractJson(raw ?? '') as { passages?: unknown } | null;
+    const rewritten = Array.isArray(parsed?.passages) ? parsed.passages : [];
+    if (rewritten.length !== indexes.length || rewritten.some((p) => typeof p !== 'string' || !p.trim())) {
+      return null;
+    }
+    const next = [...paragraphs];
+    indexes.forEach((i, n) => { next[i] = (rewritten[n] as string).trim(); });
+    return next;
+  } catch (err) {
+    console.warn('[ContentSafety] Softening failed:', err);
+    return null;
+  }
+}
+
+/** Drop every sentence that still trips a rule; drops paragraphs left empty. */
+function removeFlaggedSentences(
+  paragraphs: string[],
+  options: Pick<ModerationOptions, 'kind' | 'age' | 'allowNames' | 'boundaries' | 'language' | 'boundaryTerms'>,
+): string[] {
+  return paragraphs
+    .map((paragraph, i) => {
+      const sentences = paragraph.match(/[^.!?…]+[.!?…]*["'”’)]*\s*/g) ?? [paragraph];
+      return sentences
+        .filter((sentence) => {
+          // Screen each sentence in its paragraph's position so closing rules still apply
+          const probe = paragraphs.map((_, j) => (j === i ? sentence : ''));
+          return screenParagraphs(probe, options).length === 0;
+        })
+        .join('')
+        .trim();
+    })
+    .filter((p) => p.length > 0);
+}
+
+// ─── Log ──────────────────────────────────────────────────────────────────────
+
+/** Everything the filter has blocked for a child (the active child by default). */
+export async function getSafetyLog(childId?: string | null): Promise<SafetyLogEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(await childStorageKey(LOG_KEY, childId));
+    return raw ? (JSON.parse(raw) as SafetyLogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function clearSafetyLog(childId?: string | null): Promise<void> {
+  await AsyncStorage.removeItem(await childStorageKey(LOG_KEY, childId));
+}
+
+async function recordBlocked(
+  paragraphs: string[],
+  flags: SafetyFlag[],
+  action: Exclude<ModerationAction, 'passed'>,
+  options: ModerationOptions,
+): Promise<void> {
+  try {
+    const entry: SafetyLogEntry = {
+      id:        `safety_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+      kind:      options.kind,
+      title:     options.title,
+      ageTier:   getAgeTier(options.age),
+      action,
+      blocked:   flags.map((f) => ({
+        category: f.category,
+        label:    f.label,
+        match:    f.match,
+        passage:  paragraphs[f.paragraph]?.slice(0, MAX_PASSAGE_LOG) ?? '',
+      })),
+    };
+    const existing = await getSafetyLog(options.childId);
+    await AsyncStorage.setItem(
+      await childStorageKey(LOG_KEY, options.childId),
+      JSON.stringify([entry, ...existing].slice(0, MAX_LOG_ENTRIES)),
+    );
+  } catch (err) {
+    console.warn('[ContentSafety] Failed to record blocked content:', err);
+  }
+}
+
+// ─── Boundaries in other languages ────────────────────────────────────────────
+
+type TermCache = Partial<Record<string, BoundaryTerms>>;
+
+async function readTermCache(): Promise<TermCache> {
+  try {
+    const raw = await AsyncStorage.getItem(TERMS_KEY);
+    return raw ? (JSON.parse(raw) as TermCache) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The words for the parent's avoid-topics and fears in a language, so text
+ * written in it can be screened against them. Terms the model hasn't put
+ * into the language yet are asked for once, and kept.
+ * @throws Error when the words couldn't be looked up – the text can't be
+ *         checked against the boundaries
+ */
+export async function localizeBoundaryTerms(
+  boundaries: ChildBoundaries | null | undefined,
+  language: string | null | undefined,
+): Promise<BoundaryTerms> {
+  const terms = boundaryTermList(boundaries);
+  if (!language || language === 'en' || terms.length === 0) return {};
+
+  const cache = await readTermCache();
+  const known: BoundaryTerms = { ...cache[language] };
+  const missing = [...new Set(terms.map((t) => t.toLowerCase()))].filter((t) => !known[t]);
+  if (missing.length > 0) {
+    const raw = await generateText({ prompt: buildBoundaryTermsPrompt(missing, language), temperature: 0 });
+    const parsed = extractJson(raw ?? '') as { terms?: unknown } | null;
+    const found = Array.isArray(parsed?.terms) ? parsed.terms : [];
+    if (found.length !== missing.length || found.some((f) => !Array.isArray(f))) {
+      throw new Error('The story could not be checked against the child\'s boundaries. Please try again.');
+    }
+    missing.forEach((term, i) => {
+      known[term] = (found[i] as unknown[])
+        .filter((w): w is string => typeof w === 'string' && w.trim().length > 0)
+        .map((w) => w.trim().toLowerCase());
+    });
+    try {
+      await AsyncStorage.setItem(TERMS_KEY, JSON.stringify({ ...cache, [language]: known }));
+    } catch (err) {
+      console.warn('[ContentSafety] Could not keep the boundary terms:', err);
+    }
+  }
+  return Object.fromEntries(terms.map((t) => [t.toLowerCase(), known[t.toLowerCase()] ?? []]));
+}
+
+/** The options with the boundaries' words for the text's language filled in. */
+async function withBoundaryTerms<T extends Pick<ModerationOptions, 'boundaries' | 'language' | 'boundaryTerms'>>(
+  options: T,
+): Promise<T> {
+  if (options.boundaryTerms) return options;
+  return { ...options, boundaryTerms: await localizeBoundaryTerms(options.boundaries, options.language) };
+}
+
+// ─── Moderation ───────────────────────────────────────────────────────────────
+
+async function moderateParagraphs(
+  paragraphs: string[],
+  moderationOptions: ModerationOptions,
+  regenerate?: () => Promise<string[] | null>,
+): Promise<{ paragraphs: string[]; flags: SafetyFlag[]; action: ModerationAction }> {
+  const options = await withBoundaryTerms(moderationOptions);
+  const flags = screenParagraphs(paragraphs, options);
+  if (flags.length === 0) return { paragraphs, flags, action: 'passed' };
+
+  let action: Exclude<ModerationAction, 'passed'> = 'softened';
+  let result = await softenParagraphs(paragraphs, flags, options);
+
+  if (!result || screenParagraphs(result, options).length > 0) {
+    let regenerated: string[] | null = null;
+    try {
+      regenerated = regenerate ? await regenerate() : null;
+    } catch (err) {
+      console.warn('[ContentSafety] Regeneration failed:', err);
+    }
+    if (regenerated && regenerated.length > 0 && screenParagraphs(regenerated, options).length === 0) {
+      action = 'regenerated';
+      result = regenerated;
+    } else {
+      action = 'removed';
+      result = removeFlaggedSentences(result ?? paragraphs, options);
+      if (result.length === 0 && options.fallback) result = splitText(options.fallback, options.kind);
+    }
+  }
+
+  await recordBlocked(paragraphs, flags, action, options);
+  return { paragraphs: result, flags, action };
+}
+
+/**
+ * Screen a piece of generated text and return a version that is safe to show.
+ * `regenerate` should re-run the original prompt; it is tried at most once.
+ */
+export async function moderateText(
+  text: string,
+  options: ModerationOptions & { regenerate?: () => Promise<string | null | undefined> },
+): Promise<ModerationResult> {
+  const { regenerate, ...rest } = options;
+  const result = await moderateParagraphs(
+    splitText(text, options.kind),
+    rest,
+    regenerate ? async () => splitText((await regenerate()) ?? '', options.kind) : undefined,
+  );
+  const safe = joinText(result.paragraphs, options.kind);
+  return { text: safe || options.fallback || '', flags: result.flags, action: result.action };
+}
+
+/**
+ * moderateText for a structured story: screens the paragraphs and, when a
+ * regenerated story is used, returns it whole; then screens its details
+ * (moderateStoryDetails). `flags` are the paragraphs' flags.
+ */
+export async function moderateStory(
+  story: GeneratedStory,
+  options: Omit<ModerationOptions, 'kind'> & { regenerate?: () => Promise<GeneratedStory> },
+): Promise<{ story: GeneratedStory; flags: SafetyFlag[]; action: ModerationAction }> {
+  const { regenerate, ...moderation } = options;
+  const rest = await withBoundaryTerms(moderation);
+  let replacement: GeneratedStory | null = null;
+
+  const result = await moderateParagraphs(
+    story.paragraphs,
+    { ...rest, kind: 'story', title: rest.title ?? story.title },
+    regenerate
+      ? async () => {
+        replacement = await regenerate();
+        return replacement.paragraphs;
+      }
+      : undefined,
+  );
+
+  const base: GeneratedStory = result.action === 'regenerated' && replacement ? replacement : story;
+  const readingLevel = result.action === 'removed'
+    ? buildReadingLevel(result.paragraphs, null, { age_band: base.readingLevel.ageBand, level: base.readingLevel.level })
+    : base.readingLevel;
+  const details = await moderateStoryDetails(
+    { title: base.title, choicePoint: base.choicePoint, sagaMemory: base.sagaMemory },
+    { ...rest, title: rest.title ?? base.title },
+  );
+  return {
+    story:  { ...base, ...details.details, paragraphs: result.paragraphs, readingLevel },
+    flags:  result.flags,
+    action: result.action !== 'passed' ? result.action : details.action,
+  };
+}
+
+/** One detail to screen; without a fallback its flagged sentences are cut. */
+interface DetailText {
+  text:     string;
+  fallback: string | null;
+}
+
+/**
+ * Screen a story's title, choice point and saga memory. Flagged details are
+ * softened; still flagged, a title, question or choice label gets a neutral
+ * stand-in, a cast member is left out and longer text loses the flagged
+ * sentences. A replaced choice label also becomes the option's value.
+ */
+export async function moderateStoryDetails<T extends StoryDetails>(
+  details: T,
+  options: Omit<ModerationOptions, 'kind'>,
+): Promise<{ details: T; action: ModerationAction }> {
+  const { title, choicePoint, sagaMemory } = details;
+  const entities = sagaMemory ? [...sagaMemory.characters, ...sagaMemory.places] : [];
+  const items: DetailText[] = [
+    ...(title !== undefined ? [{ text: title, fallback: TITLE_FALLBACK }] : []),
+    ...(choicePoint ? [
+      { text: choicePoint.question, fallback: QUESTION_FALLBACK },
+      ...choicePoint.options.map((o, i) => ({ text: o.label, fallback: OPTION_FALLBACKS[i % OPTION_FALLBACKS.length] })),
+    ] : []),
+    ...(sagaMemory ? [
+      { text: sagaMemory.recap ?? '', fallback: null },
+      { text: sagaMemory.summary, fallback: null },
+      ...entities.flatMap((e) => [{ text: e.name, fallback: '' }, { text: e.description, fallback: null }]),
+    ] : []),
+  ];
+
+  const screenOptions: ModerationOptions = await withBoundaryTerms({ ...options, kind: 'details' });
+  const texts = items.map((i) => i.text);
+  const flags = screenParagraphs(texts, screenOptions);
+  if (flags.length === 0) return { details, action: 'passed' };
+
+  const softened = (await softenParagraphs(texts, flags, screenOptions)) ?? texts;
+  const stillFlagged = new Set(screenParagraphs(softened, screenOptions).map((f) => f.paragraph));
+  const safe = softened.map((text, i) => {
+    if (!stillFlagged.has(i)) return text;
+    return items[i].fallback ?? removeFlaggedSentences([text], screenOptions).join(' ');
+  });
+  const action: Exclude<ModerationAction, 'passed'> = stillFlagged.size > 0 ? 'removed' : 'softened';
+  await recordBlocked(texts, flags, action, screenOptions);
+
+  // Read the screened text back in the order it was listed
+  let at = 0;
+  const next = () => safe[at++];
+  const result: T = { ...details };
+  if (title !== undefined) result.title = next();
+  if (choicePoint) {
+    const question = next();
+    result.choicePoint = {
+      question,
+      options: choicePoint.options.map((o) => {
+        const label = next();
+        return label === o.label ? o : { ...o, label, value: label };
+      }),
+    };
+  }
+  if (sagaMemory) {
+    const recap   = next();
+    const summary = next();
+    const screened: SagaEntity[] = entities.map(() => ({ name: next(), description: next() }));
+    const kept = (list: SagaEntity[]) => list.filter((e) => e.name);
+    result.sagaMemory = {
+      recap:      sagaMemory.recap === null ? null : recap || null,
+      summary,
+      characters: kept(screened.slice(0, sagaMemory.characters.length)),
+      places:     kept(screened.slice(sagaMemory.characters.length)),
+    };
+  }
+  return { details: result, action };
+}
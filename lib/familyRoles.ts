@@ -0,0 +1,131 @@
+/**
+ * Family Roles
+ *
+ * What each member of a family group may do. The rules themselves live in
+ * RLS (010_family_roles_and_invites.sql); this module describes the roles
+ * for the UI and keeps the signed-in user's own membership cached so
+ * screens can check it offline before offering an action.
+ *
+ *   owner        invites, manages members; creates stories, records a voice
+ *   co_parent    creates stories for the family's children, records a voice
+ *   grandparent  reads the family library and records a voice
+ *   caregiver    plays the family's stories
+ *
+ * Cache keys:
+ *   sync_family_membership → FamilyMember | null (written by syncService)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { StringKey } from './i18n';
+import type { Child, FamilyMember, FamilyRole } from './supabase';
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+const MEMBERSHIP_KEY = 'sync_family_membership';
+
+// ─── Roles ────────────────────────────────────────────────────────────────────
+
+export interface FamilyRoleInfo {
+  /** UI strings (lib/i18n) – the title, and the role within a sentence */
+  label:       StringKey;
+  noun:        StringKey;
+  emoji:       string;
+  description: StringKey;
+  /** Create stories for another member's child */
+  canCreateStories: boolean;
+  /** Recordings are shared with the family */
+  canRecordVoice:   boolean;
+  /** Invite, remove and change the roles of members */
+  canManage:        boolean;
+}
+
+export const FAMILY_ROLES: Record<FamilyRole, FamilyRoleInfo> = {
+  owner: {
+    label:            'family.roleOwner',
+    noun:             'family.roleOwnerNoun',
+    emoji:            '👑',
+    description:      'family.roleOwnerDesc',
+    canCreateStories: true,
+    canRecordVoice:   true,
+    canManage:        true,
+  },
+  co_parent: {
+    label:            'family.roleCoParent',
+    noun:             'family.roleCoParentNoun',
+    emoji:            '🧑‍🍼',
+    description:      'family.roleCoParentDesc',
+    canCreateStories: true,
+    canRecordVoice:   true,
+    canManage:        false,
+  },
+  grandparent: {
+    label:            'family.roleGrandparent',
+    noun:             'family.roleGrandparentNoun',
+    emoji:            '👵',
+    description:      'family.roleGrandparentDesc',
+    canCreateStories: false,
+    canRecordVoice:   true,
+    canManage:        false,
+  },
+  caregiver: {
+    label:            'family.roleCaregiver',
+    noun:             'family.roleCaregiverNoun',
+    emoji:            '🧸',
+    description:      'family.roleCaregiverDesc',
+    canCreateStories: false,
+    canRecordVoice:   false,
+    canManage:        false,
+  },
+};
+
+/** Roles an invite can grant – ownership only moves by transfer. */
+export const INVITABLE_ROLES: Exclude<FamilyRole, 'owner'>[] = ['co_parent', 'grandparent', 'caregiver'];
+
+// ─── Membership cache ─────────────────────────────────────────────────────────
+
+export async function cacheFamilyMembership(membership: FamilyMember | null): Promise<void> {
+  if (membership) {
+    await AsyncStorage.setItem(MEMBERSHIP_KEY, JSON.stringify(membership));
+  } else {
+    await AsyncStorage.removeItem(MEMBERSHIP_KEY);
+  }
+}
+
+export async function getCachedFamilyMembership(): Promise<FamilyMember | null> {
+  try {
+    const raw = await AsyncStorage.getItem(MEMBERSHIP_KEY);
+    return raw ? (JSON.parse(raw) as FamilyMember) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearFamilyMembership(): Promise<void> {
+  await AsyncStorage.removeItem(MEMBERSHIP_KEY);
+}
+
+/** The user's role in their family group, or null outside one. */
+export async function getMyFamilyRole(): Promise<FamilyRole | null> {
+  return (await getCachedFamilyMembership())?.role ?? null;
+}
+
+// ─── Capabilities ─────────────────────────────────────────────────────────────
+
+/**
+ * Whether the user may create stories for a child: always for their own,
+ * for one shared by the family only with a role that allows it.
+ */
+export async function canCreateStoriesFor(
+  child: Pick<Child, 'user_id'>,
+  userId: string | null | undefined
+): Promise<boolean> {
+  if (!userId || !child.user_id || child.user_id === userId) return true;
+  const role = await getMyFamilyRole();
+  return role ? FAMILY_ROLES[role].canCreateStories : false;
+}
+
+/** Whether the user's recordings are shared with their family (true outside one). */
+export async function canShareRecordedVoice(): Promise<boolean> {
+  const role = await getMyFamilyRole();
+  return role ? FAMILY_ROLES[role].canRecordVoice : true;
+}
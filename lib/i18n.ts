@@ -0,0 +1,4912 @@
+/**
+ * App Language
+ *
+ * The language picked in Settings. Stories, greetings, reflections and
+ * growth themes are written in it (every prompt builder in lib/newell takes
+ * it), narration reads a story in the language it was written in, and the
+ * UI strings below are shown in it. Screens read strings through
+ * hooks/useAppLanguage, which re-renders them when the language changes.
+ *
+ * English is the source catalogue: every other language must translate
+ * every key (the compiler enforces it). Values may contain {placeholders}.
+ *
+ * Cache keys:
+ *   app_language → LanguageCode
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SUPPORTED_LANGUAGES, type LanguageCode } from './newell';
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+const LANGUAGE_KEY = 'app_language';
+
+type LanguageListener = (language: LanguageCode) => void;
+
+const listeners = new Set<LanguageListener>();
+
+/** Last language read or set – lets a screen render in it before the read. */
+let currentLanguage: LanguageCode = 'en';
+
+// ─── Strings ──────────────────────────────────────────────────────────────────
+
+const EN = {
+  // Shared
+  'common.back':       '← Back',
+  'common.cancel':     'Cancel',
+  'common.done':       'Done',
+  'common.maybeLater': 'Maybe later',
+
+  // Home
+  'home.greeting':          'Good evening 🌙',
+  'home.generating':        'Generating…',
+  'home.tapToRead':         'Tap to read ›',
+  'home.emptyTitle':        'Your Story Library',
+  'home.emptySubtitle':     'Each night a new adventure\nwaits to be written just for you ✨',
+  'home.firstAdventure':    'Begin Your First Adventure',
+  'home.addChild':          '＋ Add child',
+  'home.shared':            '👪 Shared',
+  'home.edit':              'Edit',
+  'home.nowNarrating':      'Now Narrating',
+  'home.switch':            'Switch ›',
+  'home.createStory':       'Create New Story',
+  'home.bookshelf':         '📚 My Bookshelf',
+  'home.search':            '🔍 Search',
+  'home.sagas':             '🌙 Story Sagas',
+  'home.collections':       '🗂️ Collections',
+  'home.manage':            'Manage ›',
+  'home.createSeries':      'Create a Series',
+  'home.recordVoice':       'Record Voice',
+  'home.editProfile':       'Edit Profile',
+  'home.pro':               '👑 Pro',
+  'home.storyCast':         'Story Cast',
+  'home.nightStreak':       'Night Streak',
+  'home.chooseNarrator':    '🎙️  Choose Narrator',
+  'home.recordFirstVoice':  'Record your first voice',
+  'home.active':            'Active',
+  'home.addAnotherVoice':   '+ Add Another Voice',
+  'home.beginTonight':      '🪄  Begin Tonight’s Story',
+  'home.greetingFallback':  'Welcome back! {name} will love tonight’s bedtime story. Shall we create one together?',
+
+  // Story player
+  'player.loading':             'Sprinkling magic dust…',
+  'player.errorTitle':          'Oops, the story flew away!',
+  'player.createStory':         '✨ Create a Story',
+  'player.goBack':              '← Go Back',
+  'player.header':              'Bedtime Story',
+  'player.headerFor':           'for {name} ✨',
+  'player.previously':          'Previously on…',
+  'player.finished':            'Finished — tap ▶ to hear it again',
+  'player.paragraphOf':         'Paragraph {index} of {count}',
+  'player.pages':               '📚 Pages',
+  'player.scroll':              '📜 Scroll',
+  'player.readIn':              '{flag} Read in {language}',
+  'player.readOriginal':        '↩ Original',
+  'player.translating':         'Translating…',
+  'player.translatedInto':      'Translation: {language}',
+  'player.translateFailed':     'The story could not be translated. Please try again.',
+  'player.translateTitle':      'Translation Failed',
+  'player.adventureAwaits':     '✨ The Adventure Awaits…',
+  'player.adventureContinues':  'Your Adventure Continues…',
+  'player.theEnd':              'The End',
+  'player.beginQuietTime':      'Begin Quiet Time',
+  'player.quietTimeSubtitle':   'Gentle reflection questions await…',
+  'player.quietTimeTitle':      '🌟  Quiet Time Reflections',
+  'player.craftingReflections': 'Crafting your reflection questions…',
+  'player.reflectionFallback':  'What was your favourite part of the story?',
+  'player.sweetDreams':         'Sweet Dreams 🌙',
+  'player.home':                'Home',
+  'player.newStory':            'New Story',
+  'player.sounds':              'Sounds',
+  'player.sleepTimer':          '⏱  Sleep Timer',
+
+  // Library
+  'library.title':             'Story Library',
+  'library.searchPlaceholder': 'Dragons, Luna, the ocean one…',
+  'library.favourites':        '❤️ Favourites',
+  'library.interactive':       '🎯 Interactive',
+  'library.count':             '{count} stories',
+  'library.countOne':          '1 story',
+  'library.countOf':           ' of {total}',
+  'library.emptyFirst':        'No stories yet – tonight’s story will be the first.',
+  'library.emptyNoMatch':      'No stories match. Try fewer words or filters.',
+
+  // Create story
+  'create.title':       'Create Story',
+  'create.subtitle':    'Personalised bedtime magic ✨',
+  'create.storyFor':    'Story for',
+  'create.noChild':     '+ Set up a child profile first',
+  'create.chooseTheme': 'Choose a Theme',
+  'create.generate':    'Generate Story',
+  'create.selectTheme': 'Select a theme above to begin',
+  'create.ready':       'Ready to create your {theme} story ✨',
+  'create.writtenIn':   '{flag} Written in {language}',
+
+  // Settings
+  'settings.title':            'Settings',
+  'settings.language':         '🌍  Language',
+  'settings.languageTitle':    'App Language',
+  'settings.languageSubtitle': 'Stories, narration and the app itself use your chosen language',
+  'settings.appSettings':      'App Settings',
+  'settings.family':           '✦ Family & Memories',
+  'settings.support':          '🔍 Support & Analytics',
+  'settings.account':          'Account',
+  'settings.notifications':    'Story Notifications',
+  'settings.childProfile':     'Child Profile',
+  'settings.childProfileHint': 'Manage your child’s settings',
+  'settings.voiceStudio':      'Voice Studio',
+  'settings.voiceStudioHint':  'Record or update your voice',
+  'settings.familyHub':        'Family Sharing Hub',
+  'settings.familyHubHint':    'Link accounts & share stories',
+  'settings.memoryBook':       'Memory Book',
+  'settings.memoryBookHint':   'Milestones & growth themes',
+  'settings.journal':          'Bedtime Journal',
+  'settings.journalHint':      'View child’s reflection answers',
+  'settings.shop':             'Stardust Shop',
+  'settings.shopHint':         'Unlock magic dust & badges',
+  'settings.analytics':        'Story Analytics',
+  'settings.analyticsHint':    'Top narrators & completion rates',
+  'settings.report':           'Report an Issue',
+  'settings.reportHint':       'Send a pre-filled email to support',
+  'settings.offline':          'Offline Stories',
+  'settings.offlineHint':      '{count} stories cached locally',
+  'settings.loading':          'Loading…',
+  'settings.observatory':      'Parent’s Observatory',
+  'settings.observatoryHint':  'Cloud Magic identity & profile',
+  'settings.signOut':          'Sign Out',
+  'settings.deleteAccount':    'Delete Account',
+  'settings.deleting':         'Deleting…',
+  'settings.madeWith':         'Made with 🌙 for sleepy little ones',
+
+  // Saga
+  'saga.title':        'Story Saga',
+  'saga.notOnDevice':  'This saga is not on this device yet.',
+  'saga.chapterOne':   '1 chapter',
+  'saga.chapterCount': '{count} chapters',
+  'saga.theEnd':       'The End',
+  'saga.storySoFar':   'The story so far',
+  'saga.characters':   'Characters',
+  'saga.places':       'Places',
+  'saga.chapters':     'Chapters',
+  'saga.noChapters':   'No chapters saved on this device yet.',
+  'saga.continue':     '🌙 Continue tonight · Chapter {number}',
+  'saga.end':          'End saga',
+  'saga.endTitle':     'End this saga?',
+  'saga.endMessage':   '“{title}” will stay in your library, but no new chapters can be added.',
+
+  // Story cast
+  'cast.title':                  'Story Cast',
+  'cast.intro':                  '{name}’s recurring friends. Pick them when creating a story and they’ll look and act the same every night.',
+  'cast.yourChild':              'Your child',
+  'cast.speciesLine':            'the {species}',
+  'cast.empty':                  'No recurring characters yet.',
+  'cast.editTitle':              'Edit character',
+  'cast.newTitle':               'New character',
+  'cast.emoji':                  'Emoji',
+  'cast.name':                   'Name',
+  'cast.namePlaceholder':        'Pip',
+  'cast.species':                'Species',
+  'cast.speciesPlaceholder':     'firefly, cloud dragon, teddy bear…',
+  'cast.personality':            'Personality',
+  'cast.personalityPlaceholder': 'Shy at first, glows brighter when happy',
+  'cast.appearance':             'Appearance',
+  'cast.appearancePlaceholder':  'Tiny, amber glow, round green glasses',
+  'cast.save':                   'Save',
+  'cast.add':                    '＋ Add a character',
+  'cast.inventTitle':            '✨ Invent with Newell AI',
+  'cast.ideaPlaceholder':        'Optional idea: a sleepy owl who loves maps',
+  'cast.invent':                 'Invent a friend',
+  'cast.full':                   'The cast is full ({max} characters).',
+  'cast.inventFailedTitle':      'No new friend yet',
+  'cast.inventFailed':           'Newell AI could not come up with a character. Please try again.',
+  'cast.nameNeededTitle':        'Name needed',
+  'cast.nameNeeded':             'Give your character a name first.',
+  'cast.fullTitle':              'The cast is full',
+  'cast.fullMessage':            'Each child can have up to {max} recurring characters.',
+  'cast.removeTitle':            'Say goodbye to {name}?',
+  'cast.removeMessage':          'They will no longer appear in new stories. Stories already told keep them.',
+  'cast.remove':                 'Remove',
+
+  // Streak calendar
+  'streak.title':            'Bedtime Nights',
+  'streak.titleFor':         '{name}’s Nights',
+  'streak.weekdays':         'SMTWTFS',
+  'streak.midnight':         'Midnight',
+  'streak.hour':             '{hour} AM',
+  'streak.current':          'Current',
+  'streak.longest':          'Longest',
+  'streak.freezes':          'Freezes',
+  'streak.pendingOne':       '❄️ 1 missed night will be covered by a freeze with tonight’s story',
+  'streak.pending':          '❄️ {count} missed nights will be covered by a freeze with tonight’s story',
+  'streak.readTonight':      '🌙 Read a story tonight to keep the streak glowing',
+  'streak.monthNightsOne':   '1 story night',
+  'streak.monthNights':      '{count} story nights',
+  'streak.storyNight':       '🔥 Story night',
+  'streak.frozenNight':      '❄️ Frozen night',
+  'streak.freezeName':       'Streak Freeze',
+  'streak.freezeTitle':      'Streak Freezes',
+  'streak.freezeText':       'Keeps a bedtime streak alive through one missed night. Hold up to {max}. You have {balance} ⭐.',
+  'streak.full':             'Full',
+  'streak.windowTitle':      'Bedtime window ends at',
+  'streak.windowHint':       'Stories before this time count for the night before, so a late bedtime never breaks a streak.',
+  'streak.buyTitle':         'Buy a {name}?',
+  'streak.buyMessage':       'Spend {cost} ⭐ Stardust so one missed night won’t break the streak.',
+  'streak.buyFor':           'Buy for {cost} ⭐',
+  'streak.freezerFullTitle': 'Freezer is full',
+  'streak.freezerFull':      'You can hold up to {max} streak freezes at a time.',
+  'streak.offlineTitle':     'Can’t reach the Stardust vault',
+  'streak.offline':          'Please check your connection and try again.',
+  'streak.declinedTitle':    'Purchase didn’t go through',
+  'streak.declined':         'The Stardust vault couldn’t sell a freeze for this child. Your Stardust hasn’t been spent.',
+  'streak.notEnoughTitle':   'Not enough Stardust',
+  'streak.notEnough':        'A freeze costs {cost} ⭐. Complete more stories to earn more!',
+
+  // Stardust shop
+  'shop.title':                '✨ Stardust Shop',
+  'shop.stardust':             'Stardust',
+  'shop.balanceHint':          'Earn by completing stories & reflections',
+  'shop.tabPlans':             '🌌 Galaxy Plans',
+  'shop.tabShop':              '✨ Stardust',
+  'shop.tabHistory':           '📜 History',
+  'shop.freeStories':          '3 stories per week',
+  'shop.freeNarrators':        'Standard narrators',
+  'shop.freeSync':             'Basic cloud sync',
+  'shop.proStories':           'Unlimited story generation',
+  'shop.proNarrators':         'Exclusive narrators (Seraphina the Star-Whale)',
+  'shop.proPersonalities':     'All 5 AI narrator personalities',
+  'shop.proArt':               'High-definition story art',
+  'shop.proSoundscapes':       'Atmospheric soundscapes',
+  'shop.proStorage':           'Unlimited Voice Studio storage',
+  'shop.freeTagline':          'Your journey begins here.',
+  'shop.free':                 'Free',
+  'shop.always':               'always',
+  'shop.currentPlan':          '✓ Current Plan',
+  'shop.mostMagical':          '✦ Most Magical',
+  'shop.proTagline':           'Unlock the entire universe.',
+  'shop.perMonth':             '/month',
+  'shop.proActive':            '✦ Galaxy-Traveler Active',
+  'shop.unlockPro':            '✦ Unlock Galaxy-Traveler',
+  'shop.owned':                '✓ Owned',
+  'shop.unlocked':             '✨ Unlocked',
+  'shop.purchaseFailed':       '⚠️ Purchase Failed',
+  'shop.ok':                   'OK',
+  'shop.genericError':         'Something went wrong. Please try again.',
+  'shop.restoredTitle':        '✨ Restored',
+  'shop.restored':             'Galaxy-Traveler subscription restored successfully!',
+  'shop.noPurchaseTitle':      'No Purchase Found',
+  'shop.noPurchase':           'No active subscription was found to restore.',
+  'shop.unlockTitle':          'Unlock {name}?',
+  'shop.unlockMessage':        'Spend {cost} ⭐ Stardust to unlock “{name}”?',
+  'shop.unlockFor':            'Unlock for {cost} ⭐',
+  'shop.unlockedTitle':        '✨ Unlocked!',
+  'shop.unlockedMessage':      '{emoji} {name} is now yours!',
+  'shop.offlineTitle':         'Can’t reach the Stardust vault',
+  'shop.offline':              'Purchases need a connection so your Stardust stays safe. Please try again in a moment.',
+  'shop.declinedTitle':        'Purchase didn’t go through',
+  'shop.declined':             'The Stardust vault couldn’t unlock {name} for this child. Your Stardust hasn’t been spent.',
+  'shop.notEnoughTitle':       'Not enough Stardust',
+  'shop.notEnough':            'You need {cost} ⭐ but only have {balance} ⭐. Complete more stories to earn more!',
+  'shop.plansTitle':           'Premium Stars',
+  'shop.plansSubtitle':        'Choose your cosmic journey',
+  'shop.restore':              'Restore Purchases',
+  'shop.finePrint':            'Subscription auto-renews monthly. Cancel anytime in your account settings.',
+  'shop.earnTitle':            'How to Earn ⭐ Stardust',
+  'shop.earnStory':            'Complete a story',
+  'shop.earnReflection':       'Answer a reflection',
+  'shop.earnInteractive':      'Interactive adventure',
+  'shop.particlesTitle':       '✨ Magic Dust Colours',
+  'shop.particlesSubtitle':    'Customise the sparkles in your stories',
+  'shop.badgesTitle':          '🏅 Profile Badges',
+  'shop.badgesSubtitle':       'Show off your adventures',
+  'shop.historyEmpty':         'No Stardust earned yet.\nComplete a story to start!',
+  'shop.particleMoonbeam':     'Moonbeam Dust',
+  'shop.particleMoonbeamDesc': 'Soft silver-blue particles',
+  'shop.particleSunset':       'Sunset Sparks',
+  'shop.particleSunsetDesc':   'Warm orange & rose particles',
+  'shop.particleEmerald':      'Emerald Whispers',
+  'shop.particleEmeraldDesc':  'Forest-green glowing dust',
+  'shop.particleRainbow':      'Rainbow Whirl',
+  'shop.particleRainbowDesc':  'Every colour of the spectrum',
+  'shop.particleDragon':       'Dragon Fire',
+  'shop.particleDragonDesc':   'Fierce crimson ember sparks',
+  'shop.badgeStar':            'Star Explorer',
+  'shop.badgeStarDesc':        'For curious young adventurers',
+  'shop.badgeMoon':            'Moon Dreamer',
+  'shop.badgeMoonDesc':        'For those who love the night sky',
+  'shop.badgeDragon':          'Dragon Tamer',
+  'shop.badgeDragonDesc':      'For the bravest of storytellers',
+  'shop.badgeRainbow':         'Rainbow Guardian',
+  'shop.badgeRainbowDesc':     'For collectors of every colour',
+  'shop.badgeFairy':           'Forest Fairy',
+  'shop.badgeFairyDesc':       'For those who hear the trees whisper',
+
+  // Observatory
+  'observatory.title':                  'The Parent’s Observatory',
+  'observatory.subtitle':               'Manage your Cloud Magic identity',
+  'observatory.account':                'Star Account',
+  'observatory.email':                  'Email',
+  'observatory.emailPlaceholder':       'your@email.com',
+  'observatory.signOut':                '🚪 Sign Out of Cloud Magic',
+  'observatory.subscription':           'Subscription',
+  'observatory.proActive':              'Pro · Active',
+  'observatory.freePlan':               'Free Plan',
+  'observatory.unlockPro':              '✦ Unlock Galaxy-Traveler →',
+  'observatory.restored':               'Galaxy-Traveler restored successfully!',
+  'observatory.identity':               'Child’s Cosmic Identity',
+  'observatory.identityIntro':          '✨ Your child’s name and age are woven into the magic — AI narrators will greet them by name and craft stories perfectly suited to their age.',
+  'observatory.childName':              'Child’s Name',
+  'observatory.childNamePlaceholder':   'e.g. Luna, Orion, Sage…',
+  'observatory.childAge':               'Child’s Age',
+  'observatory.workshop':               'Dream Guardian Workshop',
+  'observatory.preview':                'Narrator Preview',
+  'observatory.previewGreeting':        '“Good evening! {line} Are you ready to begin?”',
+  'observatory.previewGreetingNamed':   '“Good evening, {name}! {line} Are you ready to begin?”',
+  'observatory.previewAge':             'I have a magical story just right for a {age}-year-old explorer like you.',
+  'observatory.previewNoAge':           'I have a magical story waiting just for you.',
+  'observatory.saving':                 '⏳ Saving to Stars…',
+  'observatory.saved':                  '✓ Saved to the Cosmos!',
+  'observatory.save':                   '✨ Save Cosmic Identity',
+  'observatory.safety':                 'Story Safety Filter',
+  'observatory.safetyIntro':            'Every story, ending, question and greeting is checked for your child’s age before it’s shown. Anything caught is rewritten or removed, and listed here.',
+  'observatory.safetyEmpty':            '✨ Nothing has been blocked so far.',
+  'observatory.clearLog':               'Clear Safety Log',
+  'observatory.clearLogMessage':        'Remove the record of blocked passages for this child?',
+  'observatory.clear':                  'Clear',
+  'observatory.blocked':                'Blocked “{match}” in: {passage}',
+  'observatory.actionSoftened':         'Gently rewritten',
+  'observatory.actionRegenerated':      'Replaced with a new version',
+  'observatory.actionRemoved':          'Removed',
+  'observatory.kindStory':              'Story',
+  'observatory.kindBranch':             'Adventure ending',
+  'observatory.kindReflection':         'Reflection questions',
+  'observatory.kindGreeting':           'Narrator greeting',
+  'observatory.kindCharacter':          'Story character',
+  'observatory.kindDetails':            'Title, choices or recap',
+  'observatory.categoryClosingPeril':   'Peril near the ending',
+  'observatory.categoryScaryImagery':   'Scary imagery',
+  'observatory.categoryUnsafeActivity': 'Unsafe activity',
+  'observatory.categoryRealNames':      'Real brands & people',
+  'observatory.categoryParentBoundary': 'Your boundaries',
+  'observatory.tips':                   'Cloud Magic Tips',
+  'observatory.tipSync':                'Your child’s identity syncs across all devices instantly.',
+  'observatory.tipNarrators':           'AI narrators use the name and age to personalise every story.',
+  'observatory.tipGuardian':            'Dream Guardian avatars are unique AI portraits generated just for your child.',
+  'observatory.tipVault':               'All profile data is encrypted and protected in the cloud vault.',
+  'observatory.notSignedInTitle':       'Not signed in',
+  'observatory.notSignedIn':            'Please sign in to save your profile.',
+  'observatory.missingNameTitle':       'Missing name',
+  'observatory.missingName':            'Please enter your child’s name.',
+  'observatory.saveFailedTitle':        'Save failed',
+  'observatory.saveFailed':             'Unable to save your profile. Please try again.',
+  'observatory.signOutTitle':           'Sign Out',
+  'observatory.signOutMessage':         'Are you sure you want to sign out of Cloud Magic?',
+  'observatory.manifesting':            'Manifesting your Guardian…',
+  'observatory.manifestingHint':        'Gathering stardust from the cosmos',
+  'observatory.dreamGuardian':          'Dream Guardian',
+  'observatory.bonding':                '⏳ Bonding with Guardian…',
+  'observatory.commune':                '🔮 Commune with this Guardian',
+  'observatory.regenerate':             '↺ Summon a different Guardian',
+  'observatory.nameRequiredTitle':      'Name required',
+  'observatory.nameRequired':           'Please enter your child’s name first before summoning their Guardian.',
+  'observatory.generationFailedTitle':  'Generation failed',
+  'observatory.generationFailed':       'The stars could not align. Please try again.',
+  'observatory.disruptionTitle':        'Cosmic disruption',
+  'observatory.disruption':             'Something went wrong while summoning your Guardian. Please try again.',
+  'observatory.currentGuardian':        'Current Guardian',
+  'observatory.currentGuardianHint':    'Summon a new one below ✨',
+  'observatory.workshopIntro':          '🔮 Choose a theme below to summon a unique Dream Guardian — a magical AI-generated portrait that watches over your child’s dreams.',
+  'observatory.chooseTheme':            '✦ Choose Your Theme',
+  'observatory.summon':                 'Summon {theme} Guardian',
+  'observatory.bonded':                 '✓ Your Dream Guardian has been bonded and saved!',
+  'observatory.starKnight':             'Star Knight',
+  'observatory.starKnightDesc':         'Noble protector of the cosmos',
+  'observatory.moonFairy':              'Moon Fairy',
+  'observatory.moonFairyDesc':          'Gentle keeper of moonlit dreams',
+  'observatory.galacticOwl':            'Galactic Owl',
+  'observatory.galacticOwlDesc':        'Ancient wisdom of the stars',
+  'observatory.forestSprite':           'Forest Sprite',
+  'observatory.forestSpriteDesc':       'Enchanted guardian of nature',
+
+  // Memory book
+  'memory.title':              'Memory Book',
+  'memory.typeFirst':          'A First',
+  'memory.typeFavourite':      'A Favourite',
+  'memory.typeMemory':         'A Memory',
+  'memory.stories':            'stories',
+  'memory.seedFirstTitle':     'First Bedtime Story',
+  'memory.seedFirstText':      'The night we discovered the magic of StoryVoice together.',
+  'memory.seedFavouriteTitle': 'Favourite Narrator Chosen',
+  'memory.seedFavouriteText':  'Luna the Owl became our nightly companion.',
+  'memory.kindness':           'Kindness',
+  'memory.kindnessText':       'Acts of generosity and care',
+  'memory.bravery':            'Bravery',
+  'memory.braveryText':        'Facing fears with courage',
+  'memory.curiosity':          'Curiosity',
+  'memory.curiosityText':      'Wonder and love of learning',
+  'memory.titleNeededTitle':   'Add a title',
+  'memory.titleNeeded':        'Please enter a title for this milestone.',
+  'memory.chronicle':          'The Illuminated Chronicle',
+  'memory.chronicleSubtitle':  'A treasury of firsts, favourites & milestones',
+  'memory.tabTimeline':        '📜 Timeline',
+  'memory.tabGrowth':          '🌱 Growth Themes',
+  'memory.record':             'Record a Milestone',
+  'memory.newMilestone':       'New Milestone',
+  'memory.titlePlaceholder':   'Title (e.g. First full night sleeping)',
+  'memory.notePlaceholder':    'Add a note… (optional)',
+  'memory.save':               'Save to Memory Book',
+  'memory.emptyTitle':         'Your chronicle awaits',
+  'memory.emptyText':          'Record milestones, firsts, and favourite moments to fill your Memory Book.',
+  'memory.growthTitle':        'Themes of Growth',
+  'memory.growthSubtitle':     'AI-extracted from this month’s stories — the values your child is absorbing.',
+  'memory.analysing':          'Analysing your stories for growth themes…',
+  'memory.insightTitle':       '💡 Parent Insight',
+  'memory.insightText':        'These themes reflect the values being gently woven into each bedtime story. The stories you create are shaping how your child sees the world.',
+  'memory.refresh':            '↻  Refresh Themes',
+  'memory.noStoriesTitle':     'No stories yet',
+  'memory.noStoriesText':      'Create some stories to see the growth themes emerging from your bedtime sessions.',
+  'memory.createStory':        'Create a Story',
+
+  // Bedtime journal
+  'journal.title':            'Bedtime Journal',
+  'journal.for':              'for {name}',
+  'journal.tapToAnswer':      '↳ tap to add your answer…',
+  'journal.noteAdded':        '📝 Note added',
+  'journal.questionOne':      '1 question',
+  'journal.questions':        '{count} questions',
+  'journal.reflections':      '🌟 Quiet Time Reflections',
+  'journal.reflectionsHint':  'AI-generated discussion questions from tonight’s story',
+  'journal.noAnswer':         'No answer recorded yet',
+  'journal.notes':            '✍️ Your Notes',
+  'journal.notesHint':        'Private thoughts, observations, or memories about tonight',
+  'journal.notesPlaceholder': 'Write your thoughts about {name}’s story tonight…',
+  'journal.saved':            '✓ Saved',
+  'journal.save':             '💾 Save Notes',
+  'journal.heroTitle':        'Parent’s Private Journal',
+  'journal.heroText':         'Your child’s AI-generated reflection questions — one floating page per story. Protected by the Crystal Gate, just for you.',
+  'journal.stories':          'stories',
+  'journal.reflectionCount':  'reflections',
+  'journal.noteCount':        'notes',
+  'journal.emptyTitle':       'No diary entries yet',
+  'journal.emptyText':        'When your child finishes a story and you tap “Begin Quiet Time”, AI-generated reflection questions will appear here as floating journal pages.',
+  'journal.createStory':      '✨ Create a Story →',
+  'journal.end':              '✦ End of journal ✦',
+
+  // Family sharing
+  'family.title':                      'Family Hub',
+  'family.heroTitle':                  'Family Sharing Hub',
+  'family.heroText':                   'Link your family’s accounts and share the magic of StoryVoice together.',
+  'family.proBadge':                   '✨ PRO FEATURE',
+  'family.tabCreate':                  '✦ Create Group',
+  'family.tabJoin':                    '🔑 Join with Code',
+  'family.roleOwner':                  'Owner',
+  'family.roleOwnerNoun':              'owner',
+  'family.roleOwnerDesc':              'Runs the family: invites and manages members',
+  'family.roleCoParent':               'Co-parent',
+  'family.roleCoParentNoun':           'co-parent',
+  'family.roleCoParentDesc':           'Creates stories for the children and records a voice',
+  'family.roleGrandparent':            'Grandparent',
+  'family.roleGrandparentNoun':        'grandparent',
+  'family.roleGrandparentDesc':        'Reads the family library and records a voice',
+  'family.roleCaregiver':              'Caregiver',
+  'family.roleCaregiverNoun':          'caregiver',
+  'family.roleCaregiverDesc':          'Plays the family’s stories',
+  'family.groupLabel':                 'YOUR FAMILY GROUP',
+  'family.youAre':                     'You’re the {role}',
+  'family.inviteAs':                   'INVITE SOMEONE AS',
+  'family.onePersonChip':              'One person',
+  'family.anyoneChip':                 'Anyone with the code',
+  'family.onePerson':                  'one person',
+  'family.anyone':                     'anyone with the code',
+  'family.usedCount':                  'used {count}×',
+  'family.creating':                   '✨ Creating…',
+  'family.createInvite':               '✨ Create Invite Code',
+  'family.copy':                       'Copy',
+  'family.shareInvite':                'Share Invite Code',
+  'family.activeInvites':              'Active Invites ({count})',
+  'family.revoke':                     'Revoke',
+  'family.members':                    'Family Members ({count})',
+  'family.joinedOn':                   'Joined {date}',
+  'family.you':                        'You',
+  'family.manage':                     'Manage',
+  'family.expiresSoon':                'expires within the hour',
+  'family.expiresHours':               'expires in {count} h',
+  'family.expiresDays':                'expires in {count} days',
+  'family.voicesTitle':                '🎙️ Voices from Afar',
+  'family.voicesText':                 'Invite someone who lives far away to record a voice for one child. You listen first – it only joins the voice switcher once you approve.',
+  'family.voicesNoChild':              'Add a child profile first to invite a voice for them.',
+  'family.voiceFor':                   'FOR',
+  'family.voiceName':                  'VOICE NAME',
+  'family.voiceNameDefault':           'Grandma',
+  'family.inviteVoice':                '💌 Invite a Voice',
+  'family.openInvitations':            'Open Invitations ({count})',
+  'family.voiceForChild':              '{voice} for {child}',
+  'family.waiting':                    'Waiting for Approval ({count})',
+  'family.invitedVoice':               'Invited voice',
+  'family.forChild':                   'For {child}',
+  'family.readyToReview':              'ready to review',
+  'family.stillRecording':             'still recording',
+  'family.stop':                       '⏹ Stop',
+  'family.listen':                     '▶ Listen',
+  'family.approve':                    'Approve',
+  'family.reject':                     'Reject',
+  'family.activity':                   '🕰️ Recent Activity',
+  'family.someone':                    'Someone',
+  'family.aMember':                    'A family member',
+  'family.activityCreated':            '{actor} created the family',
+  'family.activityJoined':             '{subject} joined',
+  'family.activityJoinedAs':           '{subject} joined as {role}',
+  'family.activityLeft':               '{subject} left the family',
+  'family.activityRemoved':            '{actor} removed {subject}',
+  'family.activityRoleChanged':        '{subject} is now {role}',
+  'family.activityRoleChangedMember':  '{subject} is now a member',
+  'family.activityOwnership':          '{actor} made {subject} the owner',
+  'family.activityInviteCreated':      '{actor} created an invite',
+  'family.activityInviteCreatedAs':    '{actor} created a {role} invite',
+  'family.activityInviteRevoked':      '{actor} revoked an invite',
+  'family.activityInviteRevokedAs':    '{actor} revoked a {role} invite',
+  'family.activityVoiceInvite':        '{actor} invited someone to record a voice',
+  'family.activityVoiceApproved':      '{actor} approved {subject}’s voice',
+  'family.activityVoiceApprovedYours': '{actor} approved your voice',
+  'family.activityVoiceRejected':      '{actor} turned down {subject}’s voice',
+  'family.activityVoiceRejectedYours': '{actor} turned down your voice',
+  'family.sharedTitle':                '✨ Shared Across Family',
+  'family.benefitsTitle':              'What’s shared',
+  'family.sharedChildren':             'Child Profiles',
+  'family.sharedChildrenDesc':         'All family members can read stories to any profile',
+  'family.sharedVoices':               'Voice Studio',
+  'family.sharedVoicesDesc':           'Voices recorded by parents and grandparents are available to all',
+  'family.sharedStories':              'Story Library',
+  'family.sharedStoriesDesc':          'All created stories are visible to the whole family; owners and co-parents create new ones',
+  'family.benefitChildrenDesc':        'Everyone reads to the same profiles',
+  'family.benefitVoicesDesc':          'Mum, Dad & grandparents all in one place',
+  'family.benefitStoriesDesc':         'All bedtime stories shared with the family',
+  'family.syncing':                    'Syncing to family…',
+  'family.syncNow':                    'Sync to Family Now',
+  'family.deleteGroup':                'Delete Family Group',
+  'family.leaveGroup':                 'Leave Family Group',
+  'family.startTitle':                 'Start Your Family Group',
+  'family.startText':                  'Create a family group and invite your loved ones to share StoryVoice together.',
+  'family.groupName':                  'Group Name',
+  'family.groupNameDefault':           'Our Family',
+  'family.createGroup':                '✨ Create Family Group',
+  'family.joinTitle':                  'Join a Family Group',
+  'family.joinText':                   'Enter the 8-character invite code from your family’s owner. The invite decides your role in the family.',
+  'family.inviteCode':                 'Invite Code',
+  'family.joining':                    '🔑 Joining…',
+  'family.joinGroup':                  '🔑 Join Family Group',
+  'family.recordTitle':                '💌 Record for a Family',
+  'family.recordText':                 'Been asked to record a bedtime voice? Enter the invitation code to start – the family hears it once they approve.',
+  'family.startRecording':             '🎙️ Start Recording',
+  'family.errorTitle':                 'Error',
+  'family.notAvailableTitle':          'Not Available',
+  'family.notAvailableGroup':          'Family sharing requires a Supabase connection.',
+  'family.notAvailableInvites':        'Invite codes require a Supabase connection.',
+  'family.notAvailableVoices':         'Voice invitations require a Supabase connection.',
+  'family.createFailed':               'Could not create family group. Please try again.',
+  'family.joinFailed':                 'Could not join family group. Please try again.',
+  'family.alreadyInFamilyTitle':       'Already in a Family',
+  'family.alreadyInFamily':            'Leave your current family group before joining another.',
+  'family.inviteExpiredTitle':         'Invite Expired',
+  'family.inviteExpired':              'That invite code has expired. Ask the family owner for a new one.',
+  'family.inviteUsedTitle':            'Invite Used',
+  'family.inviteUsed':                 'That invite code has already been used. Ask the family owner for a new one.',
+  'family.invalidCodeTitle':           'Invalid Code',
+  'family.invalidCode':                'That invite code was not found. Please check and try again.',
+  'family.delete':                     'Delete',
+  'family.deleteText':                 'This removes everyone from {group}. Each member keeps their own children, voices and stories.',
+  'family.deleteFailed':               'Could not delete the family group. Please try again.',
+  'family.ownerLeaveTitle':            'You Own This Family',
+  'family.ownerLeave':                 'Make another member the owner before you leave (tap Manage next to them), or delete the group for everyone.',
+  'family.deleteGroupShort':           'Delete Group',
+  'family.leaveText':                  'Are you sure you want to leave this family group? You will lose shared access.',
+  'family.leave':                      'Leave',
+  'family.leaveFailed':                'Could not leave the family group. Please try again.',
+  'family.changeRole':                 'Change Role',
+  'family.changeRoleText':             'What should {name} be able to do?',
+  'family.changeRoleFailed':           'Could not change the role. Please try again.',
+  'family.makeOwner':                  'Make Owner',
+  'family.transferTitle':              'Transfer Ownership',
+  'family.transferText':               '{name} will manage the family and its invites. You’ll stay on as a co-parent.',
+  'family.transfer':                   'Transfer',
+  'family.transferFailed':             'Could not transfer ownership. Please try again.',
+  'family.remove':                     'Remove',
+  'family.removeTitle':                'Remove Member',
+  'family.removeText':                 '{name} will lose access to the family’s children, voices and stories.',
+  'family.removeFailed':               'Could not remove this member. Please try again.',
+  'family.inviteFailed':               'Could not create an invite code. Please try again.',
+  'family.revokeInviteTitle':          'Revoke Invite',
+  'family.revokeText':                 'Code {code} will stop working straight away.',
+  'family.revokeInviteFailed':         'Could not revoke the invite. Please try again.',
+  'family.copiedTitle':                'Copied! 📋',
+  'family.copiedText':                 'Invite code “{code}” copied to clipboard.',
+  'family.shareMessage':               '✨ Join {group} on StoryVoice as our {role}!\n\nUse invite code: {code} ({expiry})\n\nDownload StoryVoice and enter this code in the Family Sharing Hub to share stories, voices, and child profiles together. 🌙',
+  'family.shareTitle':                 'Join our StoryVoice Family',
+  'family.shareDialog':                'Share Family Invite Code',
+  'family.shareSubject':               'Join our StoryVoice family — Code: {code}',
+  'family.yourChild':                  'your child',
+  'family.voiceShareTitle':            'Record a bedtime voice',
+  'family.voiceShareDialog':           'Share Voice Invitation',
+  'family.voiceShareSubject':          'Record a bedtime voice — Code: {code}',
+  'family.voiceInviteMessage':         '🎙️ {child} would love to hear your voice at bedtime!\n\nOpen StoryVoice and record a few short paragraphs as “{voice}” – it takes about five minutes.\n\n{link}\n\nOr enter code {code} in the Family Sharing Hub. 🌙',
+  'family.voiceInviteFailed':          'Could not create the invitation. Please try again.',
+  'family.revokeInvitationTitle':      'Revoke Invitation',
+  'family.revokeInvitationFailed':     'Could not revoke the invitation. Please try again.',
+  'family.notReadyTitle':              'Not Ready Yet',
+  'family.notReady':                   'This recording is still uploading. Try again in a little while.',
+  'family.playbackErrorTitle':         'Playback Error',
+  'family.playbackError':              'Could not play this recording. Please try again.',
+  'family.reviewNotFinished':          'This voice is still being recorded – approve it once every paragraph is in.',
+  'family.reviewFailed':               'Could not save your review. Please try again.',
+  'family.turnDownTitle':              'Turn Down Voice',
+  'family.turnDownText':               '{voice} won’t be added for {child}. They can record it again to send it back for approval.',
+  'family.thisVoice':                  'This voice',
+  'family.turnDown':                   'Turn Down',
+  'family.invitationExpiredTitle':     'Invitation Expired',
+  'family.invitationExpired':          'That invitation has expired. Ask the family for a new one.',
+  'family.invitationUsedTitle':        'Invitation Used',
+  'family.invitationUsed':             'Someone else has already recorded with that invitation.',
+  'family.invalidInvitation':          'That invitation code was not found. Please check and try again.',
+
+  // Child profile
+  'onboarding.step':                   'Step {step} of 3',
+  'profile.titleAdd':                  'Add another\nlittle one ✨',
+  'profile.title':                     'Tell us about\nyour little one ✨',
+  'profile.subtitle':                  'This helps us craft stories that feel like they were written just for them.',
+  'profile.name':                      'Child’s Name',
+  'profile.namePlaceholder':           'e.g. Sophie, Jack…',
+  'profile.birthday':                  'Birthday',
+  'profile.yearsOld':                  '{count} years old',
+  'profile.yearOld':                   '1 year old',
+  'profile.themes':                    'Favourite Themes',
+  'profile.themesNote':                ' (pick as many as you like)',
+  'profile.optional':                  '(optional)',
+  'profile.lifeNotes':                 'Life Notes',
+  'profile.lifeNotesHint':             'Anything special to weave into tonight’s story? A new baby sister, starting school, losing a tooth…',
+  'profile.lifeNotesPlaceholder':      'e.g. ‘She started swimming lessons today and was nervous but so brave!’',
+  'profile.avoid':                     'Keep Out of Stories',
+  'profile.avoidHint':                 'Topics or people stories should never mention — every story is checked before it is shown.',
+  'profile.avoidPlaceholder':          'e.g. monsters, Grandpa, hospitals',
+  'profile.fears':                     'Fears',
+  'profile.fearsHint':                 'Things that frighten them right now. We’ll leave these out entirely, even friendly versions.',
+  'profile.fearsPlaceholder':          'Something else, e.g. the bath',
+  'profile.fearDark':                  'The dark',
+  'profile.fearMonsters':              'Monsters',
+  'profile.fearThunder':               'Thunder',
+  'profile.fearWater':                 'Water',
+  'profile.fearDogs':                  'Dogs',
+  'profile.fearSpiders':               'Spiders',
+  'profile.fearDoctors':               'Doctors',
+  'profile.fearAlone':                 'Being alone',
+  'profile.include':                   'Always Include',
+  'profile.includeHint':               'Pets, siblings or a favourite cuddly toy to weave into every story.',
+  'profile.includePet':                '🐶 Pet',
+  'profile.includePetPlaceholder':     'e.g. Biscuit the beagle',
+  'profile.includeSibling':            '👧 Sibling',
+  'profile.includeSiblingPlaceholder': 'e.g. big sister Mia',
+  'profile.includeComfort':            '🧸 Comfort Object',
+  'profile.includeComfortPlaceholder': 'e.g. Mr Snuggles the bunny',
+  'profile.includeOther':              '💛 Someone Else',
+  'profile.includeOtherPlaceholder':   'e.g. Nana Rose',
+  'profile.add':                       'Add',
+  'profile.saving':                    'Saving…',
+  'profile.addChild':                  'Add {name} ✨',
+  'profile.addChildNoName':            'Add Child ✨',
+  'profile.saveChanges':               'Save Changes',
+  'profile.next':                      'Next: Choose a Voice →',
+  'profile.sharedTitle':               'Shared Profile',
+  'profile.sharedText':                '{name}’s profile belongs to another parent in your family group – only they can change it.',
+  'profile.missingNameTitle':          'Missing Name',
+  'profile.missingName':               'Please enter your child’s name.',
+  'profile.pickInterestsTitle':        'Pick Some Interests',
+  'profile.pickInterests':             'Select at least one interest to personalise the stories.',
+  'profile.notSignedInTitle':          'Not signed in',
+  'profile.notSignedIn':               'Please sign in to continue.',
+  'profile.addFailedTitle':            'Could not add child',
+  'profile.addFailed':                 'Please check your connection and try again.',
+  'profile.interestAnimals':           '🦁 Animals',
+  'profile.interestSpace':             '🚀 Space',
+  'profile.interestMagic':             '✨ Magic',
+  'profile.interestAdventure':         '🗡️ Adventure',
+  'profile.interestDragons':           '🐉 Dragons',
+  'profile.interestFairyTales':        '🧚 Fairy Tales',
+  'profile.interestPirates':           '🏴‍☠️ Pirates',
+  'profile.interestScience':           '🔬 Science',
+  'profile.interestDinosaurs':         '🦕 Dinosaurs',
+  'profile.interestSuperheroes':       '🦸 Superheroes',
+  'profile.interestOcean':             '🌊 Ocean',
+  'profile.interestMountains':         '🏔️ Mountains',
+
+  // Voice selection
+  'voices.title':          'Choose whose\nvoice reads the story 🎙️',
+  'voices.subtitle':       'Your child will hear their favourite bedtime story read in a voice they know and love.',
+  'voices.mom':            'Mom’s Voice',
+  'voices.momDesc':        'Warm, comforting stories read by Mum. The voice that makes everything feel safe.',
+  'voices.dad':            'Dad’s Voice',
+  'voices.dadDesc':        'Adventure-filled tales told by Dad. The voice that brings stories to life.',
+  'voices.selected':       '✓ Selected',
+  'voices.premium':        '✨ Premium',
+  'voices.premiumLocked':  '🔒 Premium',
+  'voices.addCustom':      'Add Custom Voice',
+  'voices.addCustomDesc':  'Grandma, Grandpa, or any loved one — add as many voices as you like.',
+  'voices.info':           'You’ll record 5 short paragraphs. The whole process takes about 3 minutes.',
+  'voices.settingUp':      'Setting up…',
+  'voices.record':         'Record My Voice →',
+  'voices.chooseTitle':    'Choose a Voice',
+  'voices.choose':         'Please select Mom’s or Dad’s voice to continue.',
+  'voices.customTitle':    'Custom Voice',
+  'voices.customSoon':     'Custom voice feature coming soon!',
+  'voices.restoredTitle':  'Restored!',
+  'voices.restored':       'Your premium subscription has been restored.',
+  'voices.paywallTitle':   'Unlock Premium Voices',
+  'voices.paywallText':    'Add custom voices for grandparents, aunties, uncles — anyone your child loves.',
+  'voices.featureVoices':  '🎙️ Unlimited custom voices',
+  'voices.featureAdFree':  '🌙 Ad-free experience',
+  'voices.featureStories': '📚 Unlimited story generation',
+  'voices.featureThemes':  '🎨 Premium story themes',
+  'voices.restore':        'Restore purchases',
+
+  // Voice studio
+  'studio.title':            'Voice Studio 🎙️',
+  'studio.invitation':       '💌 Invitation',
+  'studio.subtitleInvited':  '{voice} for {child} — read each paragraph aloud',
+  'studio.yourVoice':        'Your voice',
+  'studio.theFamily':        'the family',
+  'studio.subtitleMom':      'Mom’s voice — read each paragraph aloud',
+  'studio.subtitleDad':      'Dad’s voice — read each paragraph aloud',
+  'studio.subtitleCustom':   'Custom voice — read each paragraph aloud',
+  'studio.allRecorded':      '🎉 All phrases recorded!',
+  'studio.recordToBegin':    'Record phrase {number} to begin',
+  'studio.phraseLeft':       '1 phrase left to record',
+  'studio.phrasesLeft':      '{count} phrases left to record',
+  'studio.recorded':         '✓ Recorded',
+  'studio.stop':             'Stop',
+  'studio.rerecord':         'Re-record',
+  'studio.record':           'Record',
+  'studio.next':             'Next paragraph →',
+  'studio.tipPermission':    'Microphone permission needed. Tap Record to request access.',
+  'studio.tipDone':          'Great job! Tap re-record if you want another take, or move to the next paragraph.',
+  'studio.tipStart':         'Find a quiet spot, take a breath, and read in your natural bedtime voice.',
+  'studio.uploading':        '☁️ Uploading your voice…',
+  'studio.savingReady':      '✓ Saving…',
+  'studio.finish':           '✨ Finish & Generate Stories!',
+  'studio.saving':           'Saving…',
+  'studio.saveProgress':     'Save Progress ({done}/{total} done)',
+  'studio.familyVoiceTitle': 'Family Voice',
+  'studio.familyVoice':      '{voice} was recorded by another member of your family group. Record your own voice to add it to the family.',
+  'studio.thisVoice':        'This voice',
+  'studio.notNow':           'Not Now',
+  'studio.recordMine':       'Record Mine',
+  'studio.playOnlyTitle':    'Play-Only Role',
+  'studio.playOnly':         'As a caregiver in your family group you can play the family’s voices. A voice you record here stays on your account and isn’t shared with the family.',
+  'studio.recordAnyway':     'Record Anyway',
+  'studio.micTitle':         'Microphone Access',
+  'studio.mic':              'StoryVoice needs microphone access to record your voice. Please enable it in Settings.',
+  'studio.ok':               'OK',
+  'studio.recordErrorTitle': 'Recording Error',
+  'studio.recordError':      'Could not start recording. Please try again.',
+  'studio.retakeTitle':      'Shall we try that one again?',
+  'studio.retake':           'This take may not sound its best in stories.',
+  'studio.keepIt':           'Keep It',
+  'studio.almostTitle':      'Almost there!',
+  'studio.almostOne':        'You have 1 paragraph left to record. Would you like to finish the remaining one?',
+  'studio.almost':           'You have {count} paragraphs left to record. Would you like to finish the remaining ones?',
+  'studio.keepRecording':    'Keep Recording',
+  'studio.skipFinish':       'Skip & Finish',
+  'studio.sentTitle':        'Sent for Approval ✨',
+  'studio.sent':             '{child}’s family will hear your voice once they approve it.',
+  'studio.sentNoChild':      'The family will hear your voice once they approve it.',
+  'studio.savedTitle':       'Saved for Later',
+  'studio.saved':            'Open the invitation again to record the remaining paragraphs.',
+  'studio.gradeGreat':       'Great take',
+  'studio.gradeGood':        'Good take',
+  'studio.gradeRetake':      'Try again?',
+  'studio.issueSilence':     'We mostly heard silence — hold the phone a little closer and read at your normal voice.',
+  'studio.issuePauses':      'There were long pauses — try reading straight through.',
+  'studio.issueTooLoud':     'Your voice was too loud for the mic — move the phone a little further away.',
+  'studio.issuePeaked':      'A few words peaked — a softer bedtime voice will sound smoother.',
+  'studio.issueQuiet':       'It was quite quiet — speak a little closer to the phone.',
+  'studio.issueNoise':       'There is some background noise — a quieter room will make your voice clearer.',
+  'studio.issueShort':       'That take was very short — make sure to read the whole paragraph.',
+  'studio.issueFast':        'A little fast — slow, sleepy reading works best.',
+  'studio.issueLong':        'That take ran long — try reading without stopping.',
+
+  // Create story
+  'create.themeAdventurous':       'Adventurous',
+  'create.themeAdventurousDesc':   'Brave heroes & thrilling quests',
+  'create.themeAdventurousAdj':    'adventurous',
+  'create.themeCalming':           'Calming',
+  'create.themeCalmingDesc':       'Peaceful dreams & soft magic',
+  'create.themeCalmingAdj':        'calming',
+  'create.themeFunny':             'Funny',
+  'create.themeFunnyDesc':         'Silly characters & big laughs',
+  'create.themeFunnyAdj':          'funny',
+  'create.themeEducational':       'Educational',
+  'create.themeEducationalDesc':   'Learn something wonderful',
+  'create.themeEducationalAdj':    'educational',
+  'create.themeSubtitle':          'What kind of adventure awaits tonight?',
+  'create.previewTitle':           '{name}’s {theme} story',
+  'create.previewFeaturing':       'Featuring: {interests}',
+  'create.previewUnique':          'A unique, personalised adventure',
+  'create.limitTitle':             'Stardust Limit Reached',
+  'create.limitText':              'You’ve used all 3 stories for this week on the Star-Seeker plan.',
+  'create.limitUpgradeBefore':     '✦ Upgrade to ',
+  'create.limitUpgradeAfter':      ' for unlimited story generation and exclusive narrators.',
+  'create.limitUnlock':            '🌌 Unlock Galaxy-Traveler',
+  'create.photoPermissionTitle':   'Permission needed',
+  'create.photoPermission':        'Please allow access to your photo library to add a family portrait.',
+  'create.photoErrorTitle':        'Error',
+  'create.photoError':             'Could not open photo library. Please try again.',
+  'create.portraitFailedTitle':    'Portrait failed',
+  'create.portraitFailed':         'Could not transform the photo. Please try again.',
+  'create.portraitPreparing':      'Preparing your portrait…',
+  'create.portraitPainting':       'AI is painting your portrait…',
+  'create.portraitDeveloping':     'Painting your portrait…',
+  'create.portraitCaptionDefault': 'Our Little Star ✨',
+  'create.chooseThemeTitle':       'Choose a Theme',
+  'create.chooseThemeText':        'Please pick a story theme before generating.',
+  'create.missingChildTitle':      'Child Profile Missing',
+  'create.missingChild':           'Please set up a child profile first.',
+  'create.sharedAs':               '{name} is shared by your family group. As a {role} you can play their stories – ask the family owner if you’d like to create new ones.',
+  'create.sharedMember':           'member',
+  'create.stepGathering':          'Gathering the stardust…',
+  'create.stepWeaving':            'Weaving the magic words…',
+  'create.stepPainting':           'Painting the dreamscape…',
+  'create.stepAlmost':             'Almost ready…',
+  'create.failedTitle':            'Generation Failed',
+  'create.failed':                 'Something went wrong while creating your story. Please try again.',
+  'create.ok':                     'OK',
+  'create.portraitToggle':         'AI Family Portrait',
+  'create.portraitToggleHint':     'Transform a photo into story art ✨',
+  'create.pro':                    'PRO',
+  'create.on':                     'ON',
+  'create.off':                    'OFF',
+  'create.chooseArtStyle':         'Choose Art Style',
+  'create.artSpaceCaptain':        'Space Captain',
+  'create.artBraveKnight':         'Brave Knight',
+  'create.artForestFairy':         'Forest Fairy',
+  'create.artOceanExplorer':       'Ocean Explorer',
+  'create.uploadPhoto':            'Upload Photo',
+  'create.transforming':           '✨ Painting…',
+  'create.transform':              '✨ Transform',
+  'create.portraitCaption':        '{name}’s Story Portrait',
+  'create.portraitCaptionNoName':  'Story Portrait',
+  'create.changePhoto':            'Change photo or style',
+  'create.interactive':            'Interactive Adventure',
+  'create.interactiveOn':          '✓ Child chooses the story path!',
+  'create.interactiveOff':         'Let your child choose the story path ✨',
+  'create.saga':                   'Story Saga',
+  'create.sagaOn':                 '✓ Tonight is the next chapter',
+  'create.sagaOff':                'An adventure that continues every night 📖',
+  'create.sagaNew':                '✨ Start a new saga',
+  'create.sagaChip':               '📖 {title} · Ch. {chapter}',
+  'create.pictureBook':            'Picture Book',
+  'create.pictureBookOn':          '✓ A painting for every page',
+  'create.pictureBookOff':         'Illustrate every paragraph 🎨',
+  'create.castTitle':              'Who’s in tonight’s story?',
+  'create.castEdit':               'Edit cast ›',
+  'create.castCreate':             'Create a cast ›',
+  'create.crafting':               'Crafting your story…',
+  'create.infoPersonalised':       'AI personalised',
+  'create.infoVoice':              'In your voice',
+  'create.infoSleep':              'Sleep magic',
+  'create.warp':                   '✦  Travelling through the dream galaxy  ✦',
+
+  // Player, home and library additions; keepsake PDF
+  'player.notFound':              'The story couldn’t be found. Let’s create a brand-new adventure!',
+  'player.empty':                 'No story here yet — tap the button below to begin the magic!',
+  'player.choiceFallback':        'What should {name} do?',
+  'player.choiceSeconds':         'sec',
+  'player.chapterBadge':          '📖 Chapter {count}',
+  'player.weavingNext':           'Weaving what happens next…',
+  'player.weavingEnding':         'Weaving your magical ending…',
+  'player.pathsTitle':            '🔀 Paths explored',
+  'player.pathTonight':           'Tonight',
+  'player.pathNew':               'Choose a different path',
+  'player.stardustAdventure':     'Completed Interactive Adventure! 🌟',
+  'player.stardustAdventureDone': 'Interactive Adventure completed! 🎯',
+  'player.stardustStory':         'Completed “{title}”',
+  'player.stardustStoryDone':     'Completed “{title}” 📖',
+  'player.reflectionFeel':        'How did the story make you feel?',
+  'player.reflectionLearn':       'What did you learn from tonight’s story?',
+  'player.quietTimeBreath':       'Take a breath together and think about tonight’s story…',
+  'player.journalTitle':          'Reflect on Tonight’s Journey',
+  'player.journalSubtitle':       'Visit the Bedtime Journal →',
+  'player.timerSubtitle':         'Sounds gently fade away and the screen dims to black',
+  'player.timerFadeOver':         'Fade out over',
+  'player.timerKeepSounds':       'Keep soundscapes playing',
+  'player.timerKeepSoundsHint':   'Only the story fades – sounds loop until you stop them',
+  'player.timerEndAfter':         'End after',
+  'player.timerOff':              'Off',
+  'player.timerSeconds':          '{count} sec',
+  'player.timerMinutes':          '{count} min',
+  'player.timerHours':            '{count} hr',
+  'player.wake':                  'Tap to wake',
+  'player.wakeOrStop':            'Tap to wake · hold to stop sounds',
+  'home.noFavourites':            'No favourites yet — tap the heart on any story to save it here.',
+  'home.seriesHint':              'Group 2–3 stories for a continuous bedtime routine',
+  'library.anyTime':              'Any time',
+  'library.thisWeek':             'This week',
+  'library.thisMonth':            'This month',
+  'library.thisYear':             'This year',
+  'pdf.save':                     '📄 Save as PDF',
+  'pdf.failedTitle':              'Export Failed',
+  'pdf.failed':                   'The story could not be saved as a PDF. Please try again.',
+  'pdf.yourChild':                'your child',
+  'pdf.bedtimeStoryFor':          'A bedtime story for {name}',
+  'pdf.familyPortrait':           'Family portrait',
+  'pdf.theEnd':                   '✦ The End ✦',
+  'pdf.share':                    'Share “{title}”',
+
+  // Settings – cloud backup, account and analytics
+  'settings.cloudBackup':        '☁️  Cloud Backup',
+  'settings.syncing':            'Syncing',
+  'settings.syncNow':            'Sync Now',
+  'settings.syncingToCloud':     'Syncing to cloud…',
+  'settings.legacyProtected':    '✦ All legacy data protected in the cloud',
+  'settings.backupUpToDate':     'Cloud backup up to date',
+  'settings.syncIssues':         'Last sync had issues',
+  'settings.notSynced':          'Not yet synced',
+  'settings.pendingOne':         '1 change waiting to sync',
+  'settings.pending':            '{count} changes waiting to sync',
+  'settings.lastBackup':         'Last backup · {time}',
+  'settings.tapSyncNow':         'Tap “Sync Now” to back up your stories',
+  'settings.connectSupabase':    'Connect Supabase to enable cloud backup',
+  'settings.coverageProfiles':   'Profiles',
+  'settings.coverageVoices':     'Voices',
+  'settings.coverageStories':    'Stories',
+  'settings.coverageSettings':   'Settings',
+  'settings.migrationDone':      '✨ Magic Sync complete — legacy data safely moved to cloud',
+  'settings.justNow':            'Just now',
+  'settings.secondsAgo':         '{count}s ago',
+  'settings.minutesAgo':         '{count}m ago',
+  'settings.hoursAgo':           '{count}h ago',
+  'settings.daysAgo':            '{count}d ago',
+  'settings.neverSynced':        'Never synced',
+  'settings.notSignedIn':        'Not signed in',
+  'settings.memberSince':        '⭐ Member since {date}',
+  'settings.signOutText':        'Are you sure you want to sign out?',
+  'settings.deleteTitle':        '⚠️ Delete Account',
+  'settings.deleteText':         'This will permanently delete your account and all associated data including stories, voice recordings, and child profiles. This action cannot be undone.',
+  'settings.deleteConfirmTitle': 'Are you absolutely sure?',
+  'settings.deleteConfirm':      'Type “DELETE” in the next step to confirm.',
+  'settings.deleteEverything':   'Yes, delete everything',
+  'settings.deleteFailedTitle':  'Error',
+  'settings.deleteFailed':       'Could not fully delete your account. Please contact support at help@storyvoice.app',
+  'settings.emailTitle':         'Email Not Available',
+  'settings.email':              'Please email us directly at support@storyvoice.app',
+  'settings.ok':                 'OK',
+  'settings.analyticsTitle':     '📊 Story Analytics',
+  'settings.totalSessions':      'Total App Sessions',
+  'settings.topNarrator':        'Favourite Narrator',
+  'settings.noneYet':            'None yet',
+  'settings.completionRate':     'Story Completion Rate',
+  'settings.narratorPopularity': 'NARRATOR POPULARITY',
+  'settings.completionByTheme':  'COMPLETION BY THEME',
+  'settings.completedOf':        '{completed}/{started} completed',
+  'settings.offlineCache':       'OFFLINE CACHE',
+  'settings.storiesCached':      'Stories Cached',
+  'settings.storiesCount':       '{count} stories',
+  'settings.analyticsEmpty':     'No data yet — create some stories and your analytics will appear here!',
+  'settings.signedInAs':         'SIGNED IN AS',
+
+  // Shared components: paywall, collections, Magic Sync, sound mixer, parental gate, narrators
+  'paywall.headline':                'Unlock the Stars',
+  'paywall.subheadline':             'Give your child the magic of unlimited bedtime stories',
+  'paywall.benefitStoriesTitle':     'Unlimited Story Generation',
+  'paywall.benefitStories':          'Create as many personalised bedtime stories as you wish, every night.',
+  'paywall.benefitNarratorsTitle':   'All AI Narrators Unlocked',
+  'paywall.benefitNarrators':        'Access Luna, Barnaby, Cosmo, Aria & Rex – all 5 Bedtime Buddies.',
+  'paywall.benefitArtTitle':         'High-Definition Story Art',
+  'paywall.benefitArt':              'Stunning, full-resolution watercolour illustrations for every story.',
+  'paywall.benefitSoundsTitle':      'Atmospheric Soundscapes',
+  'paywall.benefitSounds':           'Mix ambient audio with narration for the perfect sleep environment.',
+  'paywall.benefitCollectionsTitle': 'Unlimited Collections',
+  'paywall.benefitCollections':      'Organise stories into series and play them as a bedtime routine.',
+  'paywall.bestValue':               'BEST VALUE',
+  'paywall.yearlyPlan':              'Yearly Plan',
+  'paywall.monthlyPlan':             'Monthly Plan',
+  'paywall.allFeatures':             'All features, cancel anytime',
+  'paywall.perDay':                  '/ day',
+  'paywall.perDays':                 '/ {count} days',
+  'paywall.perWeek':                 '/ week',
+  'paywall.perWeeks':                '/ {count} weeks',
+  'paywall.perMonth':                '/ month',
+  'paywall.perMonths':               '/ {count} months',
+  'paywall.perYear':                 '/ year',
+  'paywall.perYears':                '/ {count} years',
+  'paywall.loadingPlans':            'Loading plans…',
+  'paywall.pending':                 'Purchase is pending approval. Check back soon!',
+  'paywall.purchaseFailed':          'Purchase failed. Please try again.',
+  'paywall.noPurchases':             'No previous purchases found.',
+  'paywall.restoreFailed':           'Could not restore purchases. Try again later.',
+  'paywall.legal':                   'Subscription renews automatically. Cancel anytime in App Store / Play Store settings.',
+  'paywall.startFor':                'Start for {price}',
+  'paywall.unlock':                  'Unlock StoryVoice Pro',
+  'paywall.restore':                 'Restore Purchases',
+  'paywall.successTitle':            'You’re a Star!',
+  'paywall.success':                 'Welcome to StoryVoice Pro.\nEnjoy unlimited magic bedtimes! ✨',
+  'collections.title':               '📚  My Collections',
+  'collections.subtitle':            'Organise stories into series',
+  'collections.new':                 '+ New',
+  'collections.emptyTitle':          'No Collections Yet',
+  'collections.empty':               'Create a collection to group stories into a perfect bedtime series',
+  'collections.createFirst':         'Create First Collection',
+  'collections.addStory':            '+ Add Story to Collection',
+  'collections.newTitle':            '✨  New Collection',
+  'collections.newSubtitle':         'Group stories for the perfect bedtime routine',
+  'collections.chooseIcon':          'Choose an Icon',
+  'collections.name':                'Collection Name',
+  'collections.namePlaceholder':     'e.g. Weekend Adventures',
+  'collections.create':              'Create Collection',
+  'collections.noStories':           'No stories yet',
+  'collections.storyCountOne':       '1 story',
+  'collections.storyCount':          '{count} stories',
+  'collections.playSeriesOne':       'Play Series  (1 story)',
+  'collections.playSeries':          'Play Series  ({count} stories)',
+  'collections.addToPlay':           'Add stories to play',
+  'collections.pickerTitle':         'Add a Story',
+  'collections.added':               '✓ Added',
+  'collections.close':               'Close',
+  'magicSync.subtitle':              'We found creations from before you signed in.\nMove them to the cloud to keep them safe forever.',
+  'magicSync.profile':               'Profile',
+  'magicSync.storyOne':              'Story',
+  'magicSync.stories':               'Stories',
+  'magicSync.voiceOne':              'Voice',
+  'magicSync.voices':                'Voices',
+  'magicSync.move':                  'Move to Cloud',
+  'magicSync.keepLocal':             'Keep local for now',
+  'magicSync.syncingTitle':          'Weaving the magic…',
+  'magicSync.syncing':               'Moving your stories to the cloud ☁️',
+  'magicSync.successTitle':          'Magic Sync Complete!',
+  'magicSync.storedOne':             '1 item safely stored in the cloud ✨',
+  'magicSync.stored':                '{count} items safely stored in the cloud ✨',
+  'magicSync.storedAll':             'Your data is now safely stored in the cloud ✨',
+  'magicSync.continue':              'Continue to My Stories ›',
+  'magicSync.errorTitle':            'Sync Incomplete',
+  'magicSync.partial':               'Moved {count} items — a few couldn’t be transferred. You can retry from Settings.',
+  'magicSync.offline':               'Unable to reach the cloud right now. Your data is safe locally — try again from Settings.',
+  'mixer.title':                     '🌊  Sound Waves',
+  'mixer.mixingOne':                 'Mixing 1 layer',
+  'mixer.mixing':                    'Mixing {count} layers',
+  'mixer.idle':                      'Layer soundscapes to build your mix',
+  'mixer.saveMix':                   '＋ Save Mix',
+  'mixer.namePlaceholder':           'e.g. Rainy Cabin',
+  'mixer.save':                      'Save',
+  'mixer.hint':                      'Tap one or more sounds above to begin mixing',
+  'mixer.narratorHint':              'Mix with narrator voice for the perfect sleep soundscape',
+  'mixer.stopAll':                   '⏹ Stop All',
+  'mixer.removeTitle':               'Remove Mix?',
+  'mixer.removeMessage':             '“{name}” will be removed from this child’s saved mixes.',
+  'mixer.keep':                      'Keep',
+  'mixer.remove':                    'Remove',
+  'mixer.rain':                      'Soft Rain',
+  'mixer.rainDesc':                  'Gentle droplets on a quiet roof',
+  'mixer.ocean':                     'Ocean Waves',
+  'mixer.oceanDesc':                 'Rhythmic tides lulling the shore',
+  'mixer.forest':                    'Forest Crickets',
+  'mixer.forestDesc':                'Night chorus in a moonlit grove',
+  'mixer.cosmos':                    'Cosmic White Noise',
+  'mixer.cosmosDesc':                'The hum of a sleeping universe',
+  'gate.title':                      'Parent Check',
+  'gate.context':                    'Quick check before accessing {context}.',
+  'gate.subtitle':                   'Quick maths to verify you’re an adult.',
+  'gate.whatIs':                     'What is',
+  'gate.placeholder':                'Your answer…',
+  'gate.wrong':                      'Not quite — try again!',
+  'gate.confirm':                    'Confirm ✓',
+  'gate.addChild':                   'Add Child',
+  'pictureBook.painting':            'Painting this page…',
+  'pictureBook.later':               'This page will be painted next time',
+  'stardust.earned':                 'Stardust Earned!',
+  'stardust.tapToContinue':          '✨ Tap to continue',
+  'narrators.title':                 '🌟 Bedtime Buddies',
+  'narrators.subtitle':              'Choose your AI narrator',
+  'narrators.pro':                   'Pro',
+  'narrators.unlock':                '🔒 Unlock',
+  'narrators.preview':               '▷ Preview',
+  'narrators.preparing':             '{name} is preparing a sample…',
+  'narrators.gotIt':                 '✓ Got it!',
+  'narrators.styleWhisper':          'whisper',
+  'narrators.styleWise':             'wise',
+  'narrators.styleEnthusiastic':     'enthusiastic',
+  'narrators.styleSlowPaced':        'slow-paced',
+  'narrators.styleDramatic':         'dramatic',
+  'narrators.lunaSpecies':           'the Owl',
+  'narrators.lunaDesc':              'Soft, hushed, and magical',
+  'narrators.lunaTagline':           'Every word a whisper…',
+  'narrators.lunaPreview':           'Shhh… let the moonlight carry you gently into dreamland…',
+  'narrators.barnabySpecies':        'the Bear',
+  'narrators.barnabyDesc':           'Thoughtful, warm & philosophical',
+  'narrators.barnabyTagline':        'Ancient wisdom, tender heart',
+  'narrators.barnabyPreview':        'There is a great truth in the quietness of night, little one…',
+  'narrators.cosmoSpecies':          'the Star',
+  'narrators.cosmoDesc':             'Bright, energetic & joyful',
+  'narrators.cosmoTagline':          'Stories that spark and shine!',
+  'narrators.cosmoPreview':          'Oh WOW! Are you ready for the most AMAZING adventure ever?!',
+  'narrators.ariaSpecies':           'the Fairy',
+  'narrators.ariaDesc':              'Gentle, rhythmic & deeply soothing',
+  'narrators.ariaTagline':           'Drifting… slowly… to sleep',
+  'narrators.ariaPreview':           'Breathe in… and breathe out… let each word… carry you… to rest…',
+  'narrators.rexSpecies':            'the Dragon',
+  'narrators.rexDesc':               'Bold, vivid & epic storytelling',
+  'narrators.rexTagline':            'LEGENDS are born at bedtime!',
+  'narrators.rexPreview':            'In the age before memory, when mountains were young and oceans sang…',
+  'narrators.seraphinaSpecies':      'the Star-Whale',
+  'narrators.seraphinaDesc':         'Ancient, cosmic & celestially serene',
+  'narrators.seraphinaTagline':      'Ride the stardust waves to sleep…',
+  'narrators.seraphinaPreview':      'From the deep oceans of the cosmos, I carry you on gentle starlit currents… to the softest dreams…',
+
+  // Welcome, walkthrough, Cloud Magic onboarding, sign-in and password reset
+  'splash.tagline':              'Bedtime magic, in your voice',
+  'rateUs.title':                'Enjoying StoryVoice?',
+  'rateUs.subtitle':             'Your rating helps other families discover bedtime magic! 🌙',
+  'rateUs.rate':                 '⭐ Rate Us Now',
+  'welcome.tagline':             'Bedtime stories told in',
+  'welcome.taglineHighlight':    'your voice. ✨',
+  'welcome.subTagline':          'Personalised, AI-crafted tales read aloud\nby the voice they love most — yours.',
+  'welcome.cta':                 'Create Your Child’s Stories',
+  'welcome.haveAccount':         'Already have an account?',
+  'welcome.signIn':              'Sign in',
+  'walkthrough.skip':            'Skip',
+  'walkthrough.next':            'Next  ›',
+  'walkthrough.begin':           '✨  Begin Your Journey',
+  'walkthrough.voiceTag':        'THE VOICE STUDIO',
+  'walkthrough.voiceTitle':      'Your Voice.\nTheir Dreams.',
+  'walkthrough.voiceSubtitle':   'Narrated by the person they love most.',
+  'walkthrough.voiceBody':       'Record your voice just once, and hear yourself tell personalised bedtime stories every single night. Your child will drift off to the most familiar, comforting sound in the world — yours.',
+  'walkthrough.aiTag':           'THE AI ENGINE',
+  'walkthrough.aiTitle':         'Stories Made\nJust For Them.',
+  'walkthrough.aiSubtitle':      'Infinitely personalised. Endlessly magical.',
+  'walkthrough.aiBody':          'Our AI weaves your child’s name, age, interests, and personality into unique tales that feel written especially for them. No two stories are ever the same.',
+  'walkthrough.playerTag':       'THE PLAYER',
+  'walkthrough.playerTitle':     'Designed\nFor Sleep.',
+  'walkthrough.playerSubtitle':  'A calm sanctuary at bedtime.',
+  'walkthrough.playerBody':      'Every pixel is crafted to ease the transition to sleep. No distractions. No bright lights. Just a warm, dim glow, your voice, and a story guiding your child gently into dreamland.',
+  'cloudMagic.continue':         'Continue →',
+  'cloudMagic.enter':            '✨ Enter the Crystal Gate',
+  'cloudMagic.stardustTitle':    'Syncing Stardust',
+  'cloudMagic.stardustSubtitle': 'Your magical rewards follow you everywhere',
+  'cloudMagic.stardustBody':     'Every stardust crystal you earn syncs instantly across all your devices. Pick up from any screen — your streak, rewards, and progress are always right where you left them.',
+  'cloudMagic.stardustPill':     'Cloud Sync',
+  'cloudMagic.voicesTitle':      'Saving Parent Voices',
+  'cloudMagic.voicesSubtitle':   'Your voice, preserved forever',
+  'cloudMagic.voicesBody':       'Your recordings are securely backed up to the cloud vault. Even if you change your phone, your child’s favourite voice — yours — will always be waiting for them.',
+  'cloudMagic.voicesPill':       'Secure Backup',
+  'cloudMagic.storiesTitle':     'Keeping Stories Safe',
+  'cloudMagic.storiesSubtitle':  'Every tale, safe in the stars',
+  'cloudMagic.storiesBody':      'All the bedtime stories you create are encrypted and stored in your personal cosmic library. They’ll never be lost, and you can share them with family across the galaxy.',
+  'cloudMagic.storiesPill':      'Story Vault',
+  'auth.gateTitle':              'The Crystal Gate',
+  'auth.welcomeBack':            'Welcome back, storyteller ✨',
+  'auth.beginJourney':           'Begin your magical journey 🌟',
+  'auth.signInTab':              '✦ Sign In',
+  'auth.signUpTab':              '✦ Sign Up',
+  'auth.email':                  'Email address',
+  'auth.emailPlaceholder':       'you@example.com',
+  'auth.password':               'Password',
+  'auth.confirmPassword':        'Confirm password',
+  'auth.repeatPassword':         'Repeat password',
+  'auth.forgot':                 'Forgot password?',
+  'auth.signingIn':              'Signing in…',
+  'auth.creatingAccount':        'Creating account…',
+  'auth.signIn':                 '✨ Sign In',
+  'auth.createAccount':          '🌟 Create Account',
+  'auth.or':                     'or',
+  'auth.google':                 'Continue with Google',
+  'auth.apple':                  'Continue with Apple',
+  'auth.noAccount':              'Don’t have an account? ',
+  'auth.haveAccount':            'Already have an account? ',
+  'auth.signUpLink':             'Sign Up',
+  'auth.signInLink':             'Sign In',
+  'auth.verifyTitle':            'Check your email!',
+  'auth.verify':                 'We’ve sent a magic verification link. Once confirmed, you can sign in.',
+  'auth.goToSignIn':             'Go to Sign In',
+  'auth.missingCredentials':     'Please enter your email and password.',
+  'auth.passwordMismatch':       'Passwords do not match.',
+  'auth.passwordTooShort':       'Password must be at least 6 characters.',
+  'auth.offlineSignUp':          'An internet connection is required to create your account. Please check your connection and try again.',
+  'auth.offlineSignIn':          'An internet connection is required to access your account. Please check your connection and try again.',
+  'auth.offline':                'Unable to connect. Please check your internet connection and try again.',
+  'auth.somethingWrong':         'Something went wrong. Please try again.',
+  'auth.unavailable':            'Sign-in is temporarily unavailable. Please try again later.',
+  'auth.accountExists':          'An account with this email already exists. Try signing in instead.',
+  'auth.invalidCredentials':     'Incorrect email or password. Please try again.',
+  'auth.notConfirmed':           'Please verify your email address before signing in.',
+  'auth.rateLimited':            'Too many attempts. Please wait a moment and try again.',
+  'auth.notConfigured':          'Authentication service is not configured. Please contact support.',
+  'auth.resetTitle':             'Reset your password',
+  'auth.resetSubtitle':          'Enter your email and we’ll send you\na secure reset link',
+  'auth.emailLabel':             'EMAIL ADDRESS',
+  'auth.missingEmail':           'Please enter your email address.',
+  'auth.sending':                'Sending…',
+  'auth.sendReset':              '📨 Send Reset Link',
+  'auth.rememberPassword':       'Remember your password? ',
+  'auth.resetSentTitle':         'Check your inbox!',
+  'auth.resetSent':              'We’ve sent a password reset link to your email.\nFollow the link to create a new password.',
+  'auth.backToSignIn':           '← Back to Sign In',
+  'ready.title':                 'Ready for Magic?',
+  'ready.subtitle':              'Connect Supabase to unlock the full StoryVoice experience — or dive in right now with the offline mode.',
+  'ready.offlineHeader':         '✓ Available Now (Offline Mode)',
+  'ready.cloudHeader':           '✦ Unlocked with Supabase',
+  'ready.createStories':         'Create Stories',
+  'ready.createStoriesDesc':     'Full story generation, offline',
+  'ready.voiceRecording':        'Voice Recording',
+  'ready.voiceRecordingDesc':    'Record your voice locally',
+  'ready.stardust':              'Stardust Rewards',
+  'ready.stardustDesc':          'Earn & spend stardust offline',
+  'ready.journal':               'Bedtime Journal',
+  'ready.journalDesc':           'Store journal entries on device',
+  'ready.cloudSync':             'Cloud Sync',
+  'ready.cloudSyncDesc':         'Access stories across all devices',
+  'ready.familySharing':         'Family Sharing',
+  'ready.familySharingDesc':     'Share with family members',
+  'ready.backup':                'Secure Backup',
+  'ready.backupDesc':            'Never lose your magical stories',
+  'ready.aiAccount':             'AI Account Features',
+  'ready.aiAccountDesc':         'Personalised AI across sessions',
+  'ready.howTo':                 '🔧 How to connect',
+  'ready.howToBefore':           'In the project dashboard, tap ',
+  'ready.howToAction':           'Connect Supabase',
+  'ready.howToAfter':            ' — the environment variables will sync automatically and the magic will be fully unlocked!',
+  'ready.unlockCloud':           '✨ Unlock Cloud Magic',
+  'ready.offlineMode':           '🌙 Continue in Offline Mode',
+  'ready.footnote':              'You can connect Supabase anytime from the project settings',
+} as const;
+
+export type StringKey = keyof typeof EN;
+
+type Catalogue = Record<StringKey, string>;
+
+const ES: Catalogue = {
+  'common.back':       '← Atrás',
+  'common.cancel':     'Cancelar',
+  'common.done':       'Listo',
+  'common.maybeLater': 'Quizás más tarde',
+
+  'home.greeting':          'Buenas noches 🌙',
+  'home.generating':        'Creando…',
+  'home.tapToRead':         'Toca para leer ›',
+  'home.emptyTitle':        'Tu biblioteca de cuentos',
+  'home.emptySubtitle':     'Cada noche una nueva aventura\nespera ser escrita solo para ti ✨',
+  'home.firstAdventure':    'Empieza tu primera aventura',
+  'home.addChild':          '＋ Añadir niño',
+  'home.shared':            '👪 Compartido',
+  'home.edit':              'Editar',
+  'home.nowNarrating':      'Narrando ahora',
+  'home.switch':            'Cambiar ›',
+  'home.createStory':       'Crear un cuento nuevo',
+  'home.bookshelf':         '📚 Mi estantería',
+  'home.search':            '🔍 Buscar',
+  'home.sagas':             '🌙 Sagas de cuentos',
+  'home.collections':       '🗂️ Colecciones',
+  'home.manage':            'Gestionar ›',
+  'home.createSeries':      'Crear una serie',
+  'home.recordVoice':       'Grabar voz',
+  'home.editProfile':       'Editar perfil',
+  'home.pro':               '👑 Pro',
+  'home.storyCast':         'Personajes',
+  'home.nightStreak':       'Racha de noches',
+  'home.chooseNarrator':    '🎙️  Elige narrador',
+  'home.recordFirstVoice':  'Graba tu primera voz',
+  'home.active':            'Activa',
+  'home.addAnotherVoice':   '+ Añadir otra voz',
+  'home.beginTonight':      '🪄  Empezar el cuento de esta noche',
+  'home.greetingFallback':  '¡Bienvenido de nuevo! A {name} le encantará el cuento de esta noche. ¿Creamos uno juntos?',
+
+  'player.loading':             'Esparciendo polvo mágico…',
+  'player.errorTitle':          '¡Vaya, el cuento salió volando!',
+  'player.createStory':         '✨ Crear un cuento',
+  'player.goBack':              '← Volver',
+  'player.header':              'Cuento para dormir',
+  'player.headerFor':           'para {name} ✨',
+  'player.previously':          'Anteriormente…',
+  'player.finished':            'Terminado — toca ▶ para oírlo otra vez',
+  'player.paragraphOf':         'Párrafo {index} de {count}',
+  'player.pages':               '📚 Páginas',
+  'player.scroll':              '📜 Desplazar',
+  'player.readIn':              '{flag} Leer en {language}',
+  'player.readOriginal':        '↩ Original',
+  'player.translating':         'Traduciendo…',
+  'player.translatedInto':      'Traducción: {language}',
+  'player.translateFailed':     'No se pudo traducir el cuento. Inténtalo de nuevo.',
+  'player.translateTitle':      'Error de traducción',
+  'player.adventureAwaits':     '✨ La aventura te espera…',
+  'player.adventureContinues':  'Tu aventura continúa…',
+  'player.theEnd':              'Fin',
+  'player.beginQuietTime':      'Empezar el momento de calma',
+  'player.quietTimeSubtitle':   'Te esperan preguntas para reflexionar…',
+  'player.quietTimeTitle':      '🌟  Reflexiones en calma',
+  'player.craftingReflections': 'Preparando tus preguntas…',
+  'player.reflectionFallback':  '¿Cuál fue tu parte favorita del cuento?',
+  'player.sweetDreams':         'Dulces sueños 🌙',
+  'player.home':                'Inicio',
+  'player.newStory':            'Nuevo cuento',
+  'player.sounds':              'Sonidos',
+  'player.sleepTimer':          '⏱  Temporizador',
+
+  'library.title':             'Biblioteca de cuentos',
+  'library.searchPlaceholder': 'Dragones, Luna, el del océano…',
+  'library.favourites':        '❤️ Favoritos',
+  'library.interactive':       '🎯 Interactivos',
+  'library.count':             '{count} cuentos',
+  'library.countOne':          '1 cuento',
+  'library.countOf':           ' de {total}',
+  'library.emptyFirst':        'Aún no hay cuentos: el de esta noche será el primero.',
+  'library.emptyNoMatch':      'Ningún cuento coincide. Prueba con menos palabras o filtros.',
+
+  'create.title':       'Crear cuento',
+  'create.subtitle':    'Magia personalizada para dormir ✨',
+  'create.storyFor':    'Cuento para',
+  'create.noChild':     '+ Primero crea un perfil infantil',
+  'create.chooseTheme': 'Elige un tema',
+  'create.generate':    'Crear cuento',
+  'create.selectTheme': 'Elige un tema para empezar',
+  'create.ready':       'Listo para crear tu cuento {theme} ✨',
+  'create.writtenIn':   '{flag} Escrito en {language}',
+
+  'settings.title':            'Ajustes',
+  'settings.language':         '🌍  Idioma',
+  'settings.languageTitle':    'Idioma de la app',
+  'settings.languageSubtitle': 'Los cuentos, la narración y la propia app usan el idioma que elijas',
+  'settings.appSettings':      'Ajustes de la app',
+  'settings.family':           '✦ Familia y recuerdos',
+  'settings.support':          '🔍 Ayuda y estadísticas',
+  'settings.account':          'Cuenta',
+  'settings.notifications':    'Avisos de cuentos',
+  'settings.childProfile':     'Perfil infantil',
+  'settings.childProfileHint': 'Gestiona los ajustes de tu hijo',
+  'settings.voiceStudio':      'Estudio de voz',
+  'settings.voiceStudioHint':  'Graba o actualiza tu voz',
+  'settings.familyHub':        'Centro familiar',
+  'settings.familyHubHint':    'Vincula cuentas y comparte cuentos',
+  'settings.memoryBook':       'Libro de recuerdos',
+  'settings.memoryBookHint':   'Hitos y temas de crecimiento',
+  'settings.journal':          'Diario de buenas noches',
+  'settings.journalHint':      'Ver las respuestas de tu hijo',
+  'settings.shop':             'Tienda de polvo estelar',
+  'settings.shopHint':         'Desbloquea polvo mágico e insignias',
+  'settings.analytics':        'Estadísticas de cuentos',
+  'settings.analyticsHint':    'Narradores favoritos y cuentos terminados',
+  'settings.report':           'Informar de un problema',
+  'settings.reportHint':       'Envía un correo ya preparado al soporte',
+  'settings.offline':          'Cuentos sin conexión',
+  'settings.offlineHint':      '{count} cuentos guardados en el dispositivo',
+  'settings.loading':          'Cargando…',
+  'settings.observatory':      'Observatorio de padres',
+  'settings.observatoryHint':  'Identidad y perfil de Cloud Magic',
+  'settings.signOut':          'Cerrar sesión',
+  'settings.deleteAccount':    'Eliminar cuenta',
+  'settings.deleting':         'Eliminando…',
+  'settings.madeWith':         'Hecho con 🌙 para pequeños dormilones',
+
+  'saga.title':        'Saga de cuentos',
+  'saga.notOnDevice':  'Esta saga aún no está en este dispositivo.',
+  'saga.chapterOne':   '1 capítulo',
+  'saga.chapterCount': '{count} capítulos',
+  'saga.theEnd':       'Fin',
+  'saga.storySoFar':   'La historia hasta ahora',
+  'saga.characters':   'Personajes',
+  'saga.places':       'Lugares',
+  'saga.chapters':     'Capítulos',
+  'saga.noChapters':   'Aún no hay capítulos guardados en este dispositivo.',
+  'saga.continue':     '🌙 Continuar esta noche · Capítulo {number}',
+  'saga.end':          'Terminar saga',
+  'saga.endTitle':     '¿Terminar esta saga?',
+  'saga.endMessage':   '“{title}” seguirá en tu biblioteca, pero no se podrán añadir capítulos nuevos.',
+
+  'cast.title':                  'Reparto del cuento',
+  'cast.intro':                  'Los amigos de siempre de {name}. Elígelos al crear un cuento y se verán y actuarán igual cada noche.',
+  'cast.yourChild':              'Tu hijo',
+  'cast.speciesLine':            'el {species}',
+  'cast.empty':                  'Aún no hay personajes recurrentes.',
+  'cast.editTitle':              'Editar personaje',
+  'cast.newTitle':               'Nuevo personaje',
+  'cast.emoji':                  'Emoji',
+  'cast.name':                   'Nombre',
+  'cast.namePlaceholder':        'Pip',
+  'cast.species':                'Especie',
+  'cast.speciesPlaceholder':     'luciérnaga, dragón de nube, osito de peluche…',
+  'cast.personality':            'Personalidad',
+  'cast.personalityPlaceholder': 'Tímido al principio, brilla más cuando está feliz',
+  'cast.appearance':             'Aspecto',
+  'cast.appearancePlaceholder':  'Diminuto, brillo ámbar, gafas verdes redondas',
+  'cast.save':                   'Guardar',
+  'cast.add':                    '＋ Añadir un personaje',
+  'cast.inventTitle':            '✨ Inventar con Newell AI',
+  'cast.ideaPlaceholder':        'Idea opcional: un búho dormilón al que le encantan los mapas',
+  'cast.invent':                 'Inventar un amigo',
+  'cast.full':                   'El reparto está completo ({max} personajes).',
+  'cast.inventFailedTitle':      'Aún no hay un nuevo amigo',
+  'cast.inventFailed':           'Newell AI no pudo inventar un personaje. Inténtalo de nuevo.',
+  'cast.nameNeededTitle':        'Falta el nombre',
+  'cast.nameNeeded':             'Primero ponle un nombre a tu personaje.',
+  'cast.fullTitle':              'El reparto está completo',
+  'cast.fullMessage':            'Cada niño puede tener hasta {max} personajes recurrentes.',
+  'cast.removeTitle':            '¿Decir adiós a {name}?',
+  'cast.removeMessage':          'Ya no aparecerá en cuentos nuevos. Los cuentos ya contados lo conservan.',
+  'cast.remove':                 'Quitar',
+
+  'streak.title':            'Noches de cuento',
+  'streak.titleFor':         'Las noches de {name}',
+  'streak.weekdays':         'DLMXJVS',
+  'streak.midnight':         'Medianoche',
+  'streak.hour':             '{hour}:00',
+  'streak.current':          'Actual',
+  'streak.longest':          'Más larga',
+  'streak.freezes':          'Congeladas',
+  'streak.pendingOne':       '❄️ 1 noche perdida quedará cubierta por un congelador con el cuento de esta noche',
+  'streak.pending':          '❄️ {count} noches perdidas quedarán cubiertas por un congelador con el cuento de esta noche',
+  'streak.readTonight':      '🌙 Lee un cuento esta noche para que la racha siga brillando',
+  'streak.monthNightsOne':   '1 noche de cuento',
+  'streak.monthNights':      '{count} noches de cuento',
+  'streak.storyNight':       '🔥 Noche de cuento',
+  'streak.frozenNight':      '❄️ Noche congelada',
+  'streak.freezeName':       'Congelador de racha',
+  'streak.freezeTitle':      'Congeladores de racha',
+  'streak.freezeText':       'Mantiene viva una racha aunque se pierda una noche. Puedes tener hasta {max}. Tienes {balance} ⭐.',
+  'streak.full':             'Completo',
+  'streak.windowTitle':      'La hora de dormir termina a las',
+  'streak.windowHint':       'Los cuentos antes de esta hora cuentan para la noche anterior, así que acostarse tarde nunca rompe una racha.',
+  'streak.buyTitle':         '¿Comprar un {name}?',
+  'streak.buyMessage':       'Gasta {cost} ⭐ de polvo de estrellas para que una noche perdida no rompa la racha.',
+  'streak.buyFor':           'Comprar por {cost} ⭐',
+  'streak.freezerFullTitle': 'No caben más congeladores',
+  'streak.freezerFull':      'Puedes tener hasta {max} congeladores de racha a la vez.',
+  'streak.offlineTitle':     'No se puede llegar al cofre de polvo de estrellas',
+  'streak.offline':          'Revisa tu conexión e inténtalo de nuevo.',
+  'streak.declinedTitle':    'La compra no se completó',
+  'streak.declined':         'El cofre no pudo vender un congelador para este niño. No se ha gastado tu polvo de estrellas.',
+  'streak.notEnoughTitle':   'No hay suficiente polvo de estrellas',
+  'streak.notEnough':        'Un congelador cuesta {cost} ⭐. ¡Termina más cuentos para ganar más!',
+
+  'shop.title':                '✨ Tienda de polvo de estrellas',
+  'shop.stardust':             'Polvo de estrellas',
+  'shop.balanceHint':          'Gana terminando cuentos y reflexiones',
+  'shop.tabPlans':             '🌌 Planes galácticos',
+  'shop.tabShop':              '✨ Polvo de estrellas',
+  'shop.tabHistory':           '📜 Historial',
+  'shop.freeStories':          '3 cuentos por semana',
+  'shop.freeNarrators':        'Narradores estándar',
+  'shop.freeSync':             'Sincronización básica en la nube',
+  'shop.proStories':           'Cuentos ilimitados',
+  'shop.proNarrators':         'Narradores exclusivos (Seraphina, la ballena estelar)',
+  'shop.proPersonalities':     'Las 5 personalidades de narrador con IA',
+  'shop.proArt':               'Ilustraciones en alta definición',
+  'shop.proSoundscapes':       'Paisajes sonoros atmosféricos',
+  'shop.proStorage':           'Almacenamiento ilimitado en el Estudio de voz',
+  'shop.freeTagline':          'Tu viaje empieza aquí.',
+  'shop.free':                 'Gratis',
+  'shop.always':               'siempre',
+  'shop.currentPlan':          '✓ Plan actual',
+  'shop.mostMagical':          '✦ El más mágico',
+  'shop.proTagline':           'Desbloquea el universo entero.',
+  'shop.perMonth':             '/mes',
+  'shop.proActive':            '✦ Galaxy-Traveler activo',
+  'shop.unlockPro':            '✦ Desbloquear Galaxy-Traveler',
+  'shop.owned':                '✓ Tuyo',
+  'shop.unlocked':             '✨ Desbloqueado',
+  'shop.purchaseFailed':       '⚠️ La compra falló',
+  'shop.ok':                   'Aceptar',
+  'shop.genericError':         'Algo salió mal. Inténtalo de nuevo.',
+  'shop.restoredTitle':        '✨ Restaurado',
+  'shop.restored':             '¡Suscripción Galaxy-Traveler restaurada!',
+  'shop.noPurchaseTitle':      'No se encontró ninguna compra',
+  'shop.noPurchase':           'No hay ninguna suscripción activa que restaurar.',
+  'shop.unlockTitle':          '¿Desbloquear {name}?',
+  'shop.unlockMessage':        '¿Gastar {cost} ⭐ de polvo de estrellas para desbloquear “{name}”?',
+  'shop.unlockFor':            'Desbloquear por {cost} ⭐',
+  'shop.unlockedTitle':        '✨ ¡Desbloqueado!',
+  'shop.unlockedMessage':      '¡{emoji} {name} ya es tuyo!',
+  'shop.offlineTitle':         'No se puede llegar al cofre de polvo de estrellas',
+  'shop.offline':              'Las compras necesitan conexión para que tu polvo de estrellas esté a salvo. Inténtalo de nuevo en un momento.',
+  'shop.declinedTitle':        'La compra no se completó',
+  'shop.declined':             'El cofre no pudo desbloquear {name} para este niño. No se ha gastado tu polvo de estrellas.',
+  'shop.notEnoughTitle':       'No hay suficiente polvo de estrellas',
+  'shop.notEnough':            'Necesitas {cost} ⭐ pero solo tienes {balance} ⭐. ¡Termina más cuentos para ganar más!',
+  'shop.plansTitle':           'Estrellas premium',
+  'shop.plansSubtitle':        'Elige tu viaje cósmico',
+  'shop.restore':              'Restaurar compras',
+  'shop.finePrint':            'La suscripción se renueva cada mes. Cancela cuando quieras en los ajustes de tu cuenta.',
+  'shop.earnTitle':            'Cómo ganar ⭐ polvo de estrellas',
+  'shop.earnStory':            'Terminar un cuento',
+  'shop.earnReflection':       'Responder una reflexión',
+  'shop.earnInteractive':      'Aventura interactiva',
+  'shop.particlesTitle':       '✨ Colores de polvo mágico',
+  'shop.particlesSubtitle':    'Personaliza los destellos de tus cuentos',
+  'shop.badgesTitle':          '🏅 Insignias de perfil',
+  'shop.badgesSubtitle':       'Presume de tus aventuras',
+  'shop.historyEmpty':         'Aún no has ganado polvo de estrellas.\n¡Termina un cuento para empezar!',
+  'shop.particleMoonbeam':     'Polvo de luna',
+  'shop.particleMoonbeamDesc': 'Suaves partículas azul plata',
+  'shop.particleSunset':       'Chispas de atardecer',
+  'shop.particleSunsetDesc':   'Cálidas partículas naranjas y rosas',
+  'shop.particleEmerald':      'Susurros esmeralda',
+  'shop.particleEmeraldDesc':  'Polvo brillante verde bosque',
+  'shop.particleRainbow':      'Remolino arcoíris',
+  'shop.particleRainbowDesc':  'Todos los colores del espectro',
+  'shop.particleDragon':       'Fuego de dragón',
+  'shop.particleDragonDesc':   'Feroces chispas carmesí',
+  'shop.badgeStar':            'Explorador de estrellas',
+  'shop.badgeStarDesc':        'Para jóvenes aventureros curiosos',
+  'shop.badgeMoon':            'Soñador de la luna',
+  'shop.badgeMoonDesc':        'Para quienes aman el cielo nocturno',
+  'shop.badgeDragon':          'Domador de dragones',
+  'shop.badgeDragonDesc':      'Para los narradores más valientes',
+  'shop.badgeRainbow':         'Guardián del arcoíris',
+  'shop.badgeRainbowDesc':     'Para coleccionistas de todos los colores',
+  'shop.badgeFairy':           'Hada del bosque',
+  'shop.badgeFairyDesc':       'Para quienes oyen susurrar a los árboles',
+
+  'observatory.title':                  'El observatorio de los padres',
+  'observatory.subtitle':               'Gestiona tu identidad de Cloud Magic',
+  'observatory.account':                'Cuenta estelar',
+  'observatory.email':                  'Correo electrónico',
+  'observatory.emailPlaceholder':       'tu@correo.com',
+  'observatory.signOut':                '🚪 Cerrar sesión en Cloud Magic',
+  'observatory.subscription':           'Suscripción',
+  'observatory.proActive':              'Pro · Activo',
+  'observatory.freePlan':               'Plan gratuito',
+  'observatory.unlockPro':              '✦ Desbloquear Galaxy-Traveler →',
+  'observatory.restored':               '¡Galaxy-Traveler restaurado!',
+  'observatory.identity':               'Identidad cósmica del niño',
+  'observatory.identityIntro':          '✨ El nombre y la edad de tu hijo se tejen en la magia: los narradores con IA lo saludarán por su nombre y crearán cuentos perfectos para su edad.',
+  'observatory.childName':              'Nombre del niño',
+  'observatory.childNamePlaceholder':   'p. ej. Luna, Orión, Salvia…',
+  'observatory.childAge':               'Edad del niño',
+  'observatory.workshop':               'Taller del guardián de los sueños',
+  'observatory.preview':                'Vista previa del narrador',
+  'observatory.previewGreeting':        '“¡Buenas noches! {line} ¿Estás listo para empezar?”',
+  'observatory.previewGreetingNamed':   '“¡Buenas noches, {name}! {line} ¿Estás listo para empezar?”',
+  'observatory.previewAge':             'Tengo un cuento mágico perfecto para un explorador de {age} años como tú.',
+  'observatory.previewNoAge':           'Tengo un cuento mágico esperándote solo a ti.',
+  'observatory.saving':                 '⏳ Guardando en las estrellas…',
+  'observatory.saved':                  '✓ ¡Guardado en el cosmos!',
+  'observatory.save':                   '✨ Guardar identidad cósmica',
+  'observatory.safety':                 'Filtro de seguridad de cuentos',
+  'observatory.safetyIntro':            'Cada cuento, final, pregunta y saludo se revisa según la edad de tu hijo antes de mostrarse. Lo que se detecta se reescribe o se elimina, y aparece aquí.',
+  'observatory.safetyEmpty':            '✨ Hasta ahora no se ha bloqueado nada.',
+  'observatory.clearLog':               'Borrar registro de seguridad',
+  'observatory.clearLogMessage':        '¿Eliminar el registro de pasajes bloqueados de este niño?',
+  'observatory.clear':                  'Borrar',
+  'observatory.blocked':                'Bloqueado “{match}” en: {passage}',
+  'observatory.actionSoftened':         'Reescrito con suavidad',
+  'observatory.actionRegenerated':      'Sustituido por una versión nueva',
+  'observatory.actionRemoved':          'Eliminado',
+  'observatory.kindStory':              'Cuento',
+  'observatory.kindBranch':             'Final de aventura',
+  'observatory.kindReflection':         'Preguntas de reflexión',
+  'observatory.kindGreeting':           'Saludo del narrador',
+  'observatory.kindCharacter':          'Personaje del cuento',
+  'observatory.kindDetails':            'Título, opciones o resumen',
+  'observatory.categoryClosingPeril':   'Peligro cerca del final',
+  'observatory.categoryScaryImagery':   'Imágenes que dan miedo',
+  'observatory.categoryUnsafeActivity': 'Actividad peligrosa',
+  'observatory.categoryRealNames':      'Marcas y personas reales',
+  'observatory.categoryParentBoundary': 'Tus límites',
+  'observatory.tips':                   'Consejos de Cloud Magic',
+  'observatory.tipSync':                'La identidad de tu hijo se sincroniza al instante en todos los dispositivos.',
+  'observatory.tipNarrators':           'Los narradores con IA usan el nombre y la edad para personalizar cada cuento.',
+  'observatory.tipGuardian':            'Los avatares de guardián son retratos únicos creados con IA solo para tu hijo.',
+  'observatory.tipVault':               'Todos los datos del perfil están cifrados y protegidos en la nube.',
+  'observatory.notSignedInTitle':       'No has iniciado sesión',
+  'observatory.notSignedIn':            'Inicia sesión para guardar tu perfil.',
+  'observatory.missingNameTitle':       'Falta el nombre',
+  'observatory.missingName':            'Escribe el nombre de tu hijo.',
+  'observatory.saveFailedTitle':        'No se pudo guardar',
+  'observatory.saveFailed':             'No se pudo guardar tu perfil. Inténtalo de nuevo.',
+  'observatory.signOutTitle':           'Cerrar sesión',
+  'observatory.signOutMessage':         '¿Seguro que quieres cerrar sesión en Cloud Magic?',
+  'observatory.manifesting':            'Invocando a tu guardián…',
+  'observatory.manifestingHint':        'Reuniendo polvo de estrellas del cosmos',
+  'observatory.dreamGuardian':          'Guardián de los sueños',
+  'observatory.bonding':                '⏳ Creando el vínculo con el guardián…',
+  'observatory.commune':                '🔮 Unirse a este guardián',
+  'observatory.regenerate':             '↺ Invocar otro guardián',
+  'observatory.nameRequiredTitle':      'Falta el nombre',
+  'observatory.nameRequired':           'Escribe primero el nombre de tu hijo antes de invocar a su guardián.',
+  'observatory.generationFailedTitle':  'La creación falló',
+  'observatory.generationFailed':       'Las estrellas no pudieron alinearse. Inténtalo de nuevo.',
+  'observatory.disruptionTitle':        'Perturbación cósmica',
+  'observatory.disruption':             'Algo salió mal al invocar a tu guardián. Inténtalo de nuevo.',
+  'observatory.currentGuardian':        'Guardián actual',
+  'observatory.currentGuardianHint':    'Invoca uno nuevo abajo ✨',
+  'observatory.workshopIntro':          '🔮 Elige un tema para invocar un guardián de los sueños único: un retrato mágico creado con IA que vela por los sueños de tu hijo.',
+  'observatory.chooseTheme':            '✦ Elige tu tema',
+  'observatory.summon':                 'Invocar guardián: {theme}',
+  'observatory.bonded':                 '✓ ¡Tu guardián de los sueños se ha unido y guardado!',
+  'observatory.starKnight':             'Caballero estelar',
+  'observatory.starKnightDesc':         'Noble protector del cosmos',
+  'observatory.moonFairy':              'Hada de la luna',
+  'observatory.moonFairyDesc':          'Dulce guardiana de los sueños a la luz de la luna',
+  'observatory.galacticOwl':            'Búho galáctico',
+  'observatory.galacticOwlDesc':        'La sabiduría antigua de las estrellas',
+  'observatory.forestSprite':           'Duende del bosque',
+  'observatory.forestSpriteDesc':       'Guardián encantado de la naturaleza',
+
+  'memory.title':              'Libro de recuerdos',
+  'memory.typeFirst':          'Una primera vez',
+  'memory.typeFavourite':      'Un favorito',
+  'memory.typeMemory':         'Un recuerdo',
+  'memory.stories':            'cuentos',
+  'memory.seedFirstTitle':     'Primer cuento de buenas noches',
+  'memory.seedFirstText':      'La noche en que descubrimos juntos la magia de StoryVoice.',
+  'memory.seedFavouriteTitle': 'Narrador favorito elegido',
+  'memory.seedFavouriteText':  'Luna la lechuza se convirtió en nuestra compañera de cada noche.',
+  'memory.kindness':           'Amabilidad',
+  'memory.kindnessText':       'Gestos de generosidad y cariño',
+  'memory.bravery':            'Valentía',
+  'memory.braveryText':        'Enfrentar los miedos con coraje',
+  'memory.curiosity':          'Curiosidad',
+  'memory.curiosityText':      'Asombro y amor por aprender',
+  'memory.titleNeededTitle':   'Añade un título',
+  'memory.titleNeeded':        'Escribe un título para este hito.',
+  'memory.chronicle':          'La crónica iluminada',
+  'memory.chronicleSubtitle':  'Un tesoro de primeras veces, favoritos e hitos',
+  'memory.tabTimeline':        '📜 Cronología',
+  'memory.tabGrowth':          '🌱 Temas de crecimiento',
+  'memory.record':             'Registrar un hito',
+  'memory.newMilestone':       'Nuevo hito',
+  'memory.titlePlaceholder':   'Título (p. ej. Primera noche entera durmiendo)',
+  'memory.notePlaceholder':    'Añade una nota… (opcional)',
+  'memory.save':               'Guardar en el libro de recuerdos',
+  'memory.emptyTitle':         'Tu crónica te espera',
+  'memory.emptyText':          'Registra hitos, primeras veces y momentos favoritos para llenar tu libro de recuerdos.',
+  'memory.growthTitle':        'Temas de crecimiento',
+  'memory.growthSubtitle':     'Extraídos con IA de los cuentos de este mes: los valores que tu hijo está absorbiendo.',
+  'memory.analysing':          'Analizando tus cuentos en busca de temas de crecimiento…',
+  'memory.insightTitle':       '💡 Para los padres',
+  'memory.insightText':        'Estos temas reflejan los valores que se tejen con suavidad en cada cuento de buenas noches. Los cuentos que creas dan forma a cómo tu hijo ve el mundo.',
+  'memory.refresh':            '↻  Actualizar temas',
+  'memory.noStoriesTitle':     'Aún no hay cuentos',
+  'memory.noStoriesText':      'Crea algunos cuentos para ver los temas de crecimiento que surgen de vuestras noches.',
+  'memory.createStory':        'Crear un cuento',
+
+  'journal.title':            'Diario de buenas noches',
+  'journal.for':              'para {name}',
+  'journal.tapToAnswer':      '↳ toca para añadir tu respuesta…',
+  'journal.noteAdded':        '📝 Nota añadida',
+  'journal.questionOne':      '1 pregunta',
+  'journal.questions':        '{count} preguntas',
+  'journal.reflections':      '🌟 Reflexiones del momento de calma',
+  'journal.reflectionsHint':  'Preguntas para conversar generadas con IA a partir del cuento de esta noche',
+  'journal.noAnswer':         'Aún no hay respuesta',
+  'journal.notes':            '✍️ Tus notas',
+  'journal.notesHint':        'Pensamientos, observaciones o recuerdos privados de esta noche',
+  'journal.notesPlaceholder': 'Escribe lo que piensas del cuento de {name} de esta noche…',
+  'journal.saved':            '✓ Guardado',
+  'journal.save':             '💾 Guardar notas',
+  'journal.heroTitle':        'Diario privado de los padres',
+  'journal.heroText':         'Las preguntas de reflexión de tu hijo generadas con IA: una página flotante por cuento. Protegidas por la Puerta de cristal, solo para ti.',
+  'journal.stories':          'cuentos',
+  'journal.reflectionCount':  'reflexiones',
+  'journal.noteCount':        'notas',
+  'journal.emptyTitle':       'Aún no hay entradas en el diario',
+  'journal.emptyText':        'Cuando tu hijo termine un cuento y toques “Empezar el momento de calma”, aquí aparecerán preguntas de reflexión generadas con IA como páginas flotantes.',
+  'journal.createStory':      '✨ Crear un cuento →',
+  'journal.end':              '✦ Fin del diario ✦',
+
+  'family.title':                      'Centro familiar',
+  'family.heroTitle':                  'Centro familiar',
+  'family.heroText':                   'Vincula las cuentas de tu familia y compartid juntos la magia de StoryVoice.',
+  'family.proBadge':                   '✨ FUNCIÓN PRO',
+  'family.tabCreate':                  '✦ Crear grupo',
+  'family.tabJoin':                    '🔑 Unirse con código',
+  'family.roleOwner':                  'Administrador',
+  'family.roleOwnerNoun':              'administrador',
+  'family.roleOwnerDesc':              'Dirige la familia: invita y gestiona a los miembros',
+  'family.roleCoParent':               'Coprogenitor',
+  'family.roleCoParentNoun':           'coprogenitor',
+  'family.roleCoParentDesc':           'Crea cuentos para los niños y graba una voz',
+  'family.roleGrandparent':            'Abuelo/a',
+  'family.roleGrandparentNoun':        'abuelo/a',
+  'family.roleGrandparentDesc':        'Lee la biblioteca familiar y graba una voz',
+  'family.roleCaregiver':              'Cuidador/a',
+  'family.roleCaregiverNoun':          'cuidador/a',
+  'family.roleCaregiverDesc':          'Reproduce los cuentos de la familia',
+  'family.groupLabel':                 'TU GRUPO FAMILIAR',
+  'family.youAre':                     'Eres {role}',
+  'family.inviteAs':                   'INVITAR A ALGUIEN COMO',
+  'family.onePersonChip':              'Una persona',
+  'family.anyoneChip':                 'Cualquiera con el código',
+  'family.onePerson':                  'una persona',
+  'family.anyone':                     'cualquiera con el código',
+  'family.usedCount':                  'usado {count}×',
+  'family.creating':                   '✨ Creando…',
+  'family.createInvite':               '✨ Crear código de invitación',
+  'family.copy':                       'Copiar',
+  'family.shareInvite':                'Compartir código de invitación',
+  'family.activeInvites':              'Invitaciones activas ({count})',
+  'family.revoke':                     'Revocar',
+  'family.members':                    'Miembros de la familia ({count})',
+  'family.joinedOn':                   'Se unió el {date}',
+  'family.you':                        'Tú',
+  'family.manage':                     'Gestionar',
+  'family.expiresSoon':                'caduca en menos de una hora',
+  'family.expiresHours':               'caduca en {count} h',
+  'family.expiresDays':                'caduca en {count} días',
+  'family.voicesTitle':                '🎙️ Voces desde lejos',
+  'family.voicesText':                 'Invita a alguien que vive lejos a grabar una voz para un niño. Tú la escuchas primero: solo aparece entre las voces cuando la apruebas.',
+  'family.voicesNoChild':              'Primero añade un perfil infantil para invitar una voz para él.',
+  'family.voiceFor':                   'PARA',
+  'family.voiceName':                  'NOMBRE DE LA VOZ',
+  'family.voiceNameDefault':           'Abuela',
+  'family.inviteVoice':                '💌 Invitar una voz',
+  'family.openInvitations':            'Invitaciones abiertas ({count})',
+  'family.voiceForChild':              '{voice} para {child}',
+  'family.waiting':                    'Pendientes de aprobación ({count})',
+  'family.invitedVoice':               'Voz invitada',
+  'family.forChild':                   'Para {child}',
+  'family.readyToReview':              'lista para revisar',
+  'family.stillRecording':             'aún grabando',
+  'family.stop':                       '⏹ Parar',
+  'family.listen':                     '▶ Escuchar',
+  'family.approve':                    'Aprobar',
+  'family.reject':                     'Rechazar',
+  'family.activity':                   '🕰️ Actividad reciente',
+  'family.someone':                    'Alguien',
+  'family.aMember':                    'Un miembro de la familia',
+  'family.activityCreated':            '{actor} creó la familia',
+  'family.activityJoined':             '{subject} se unió',
+  'family.activityJoinedAs':           '{subject} se unió como {role}',
+  'family.activityLeft':               '{subject} dejó la familia',
+  'family.activityRemoved':            '{actor} eliminó a {subject}',
+  'family.activityRoleChanged':        '{subject} ahora es {role}',
+  'family.activityRoleChangedMember':  '{subject} ahora es miembro',
+  'family.activityOwnership':          '{actor} hizo administrador a {subject}',
+  'family.activityInviteCreated':      '{actor} creó una invitación',
+  'family.activityInviteCreatedAs':    '{actor} creó una invitación como {role}',
+  'family.activityInviteRevoked':      '{actor} revocó una invitación',
+  'family.activityInviteRevokedAs':    '{actor} revocó una invitación como {role}',
+  'family.activityVoiceInvite':        '{actor} invitó a alguien a grabar una voz',
+  'family.activityVoiceApproved':      '{actor} aprobó la voz de {subject}',
+  'family.activityVoiceApprovedYours': '{actor} aprobó tu voz',
+  'family.activityVoiceRejected':      '{actor} rechazó la voz de {subject}',
+  'family.activityVoiceRejectedYours': '{actor} rechazó tu voz',
+  'family.sharedTitle':                '✨ Compartido con la familia',
+  'family.benefitsTitle':              'Qué se comparte',
+  'family.sharedChildren':             'Perfiles infantiles',
+  'family.sharedChildrenDesc':         'Todos los miembros pueden leer cuentos a cualquier perfil',
+  'family.sharedVoices':               'Estudio de voz',
+  'family.sharedVoicesDesc':           'Las voces grabadas por padres y abuelos están disponibles para todos',
+  'family.sharedStories':              'Biblioteca de cuentos',
+  'family.sharedStoriesDesc':          'Todos los cuentos creados son visibles para toda la familia; administradores y coprogenitores crean otros nuevos',
+  'family.benefitChildrenDesc':        'Todos leen a los mismos perfiles',
+  'family.benefitVoicesDesc':          'Mamá, papá y abuelos en un solo lugar',
+  'family.benefitStoriesDesc':         'Todos los cuentos de buenas noches compartidos con la familia',
+  'family.syncing':                    'Sincronizando con la familia…',
+  'family.syncNow':                    'Sincronizar con la familia',
+  'family.deleteGroup':                'Eliminar grupo familiar',
+  'family.leaveGroup':                 'Salir del grupo familiar',
+  'family.startTitle':                 'Crea tu grupo familiar',
+  'family.startText':                  'Crea un grupo familiar e invita a tus seres queridos a compartir StoryVoice.',
+  'family.groupName':                  'Nombre del grupo',
+  'family.groupNameDefault':           'Nuestra familia',
+  'family.createGroup':                '✨ Crear grupo familiar',
+  'family.joinTitle':                  'Únete a un grupo familiar',
+  'family.joinText':                   'Introduce el código de invitación de 8 caracteres del administrador de tu familia. La invitación decide tu rol en la familia.',
+  'family.inviteCode':                 'Código de invitación',
+  'family.joining':                    '🔑 Uniéndote…',
+  'family.joinGroup':                  '🔑 Unirse al grupo familiar',
+  'family.recordTitle':                '💌 Grabar para una familia',
+  'family.recordText':                 '¿Te han pedido grabar una voz de buenas noches? Introduce el código de invitación para empezar: la familia la oirá cuando la apruebe.',
+  'family.startRecording':             '🎙️ Empezar a grabar',
+  'family.errorTitle':                 'Error',
+  'family.notAvailableTitle':          'No disponible',
+  'family.notAvailableGroup':          'Compartir en familia requiere una conexión con Supabase.',
+  'family.notAvailableInvites':        'Los códigos de invitación requieren una conexión con Supabase.',
+  'family.notAvailableVoices':         'Las invitaciones de voz requieren una conexión con Supabase.',
+  'family.createFailed':               'No se pudo crear el grupo familiar. Inténtalo de nuevo.',
+  'family.joinFailed':                 'No se pudo unir al grupo familiar. Inténtalo de nuevo.',
+  'family.alreadyInFamilyTitle':       'Ya estás en una familia',
+  'family.alreadyInFamily':            'Sal de tu grupo familiar actual antes de unirte a otro.',
+  'family.inviteExpiredTitle':         'Invitación caducada',
+  'family.inviteExpired':              'Ese código de invitación ha caducado. Pide uno nuevo al administrador de la familia.',
+  'family.inviteUsedTitle':            'Invitación usada',
+  'family.inviteUsed':                 'Ese código de invitación ya se ha usado. Pide uno nuevo al administrador de la familia.',
+  'family.invalidCodeTitle':           'Código no válido',
+  'family.invalidCode':                'No se encontró ese código de invitación. Compruébalo e inténtalo de nuevo.',
+  'family.delete':                     'Eliminar',
+  'family.deleteText':                 'Esto saca a todos de {group}. Cada miembro conserva sus propios niños, voces y cuentos.',
+  'family.deleteFailed':               'No se pudo eliminar el grupo familiar. Inténtalo de nuevo.',
+  'family.ownerLeaveTitle':            'Administras esta familia',
+  'family.ownerLeave':                 'Nombra administrador a otro miembro antes de salir (toca Gestionar a su lado) o elimina el grupo para todos.',
+  'family.deleteGroupShort':           'Eliminar grupo',
+  'family.leaveText':                  '¿Seguro que quieres salir de este grupo familiar? Perderás el acceso compartido.',
+  'family.leave':                      'Salir',
+  'family.leaveFailed':                'No se pudo salir del grupo familiar. Inténtalo de nuevo.',
+  'family.changeRole':                 'Cambiar rol',
+  'family.changeRoleText':             '¿Qué debería poder hacer {name}?',
+  'family.changeRoleFailed':           'No se pudo cambiar el rol. Inténtalo de nuevo.',
+  'family.makeOwner':                  'Nombrar administrador',
+  'family.transferTitle':              'Transferir administración',
+  'family.transferText':               '{name} gestionará la familia y sus invitaciones. Tú seguirás como coprogenitor.',
+  'family.transfer':                   'Transferir',
+  'family.transferFailed':             'No se pudo transferir la administración. Inténtalo de nuevo.',
+  'family.remove':                     'Eliminar',
+  'family.removeTitle':                'Eliminar miembro',
+  'family.removeText':                 '{name} perderá el acceso a los niños, voces y cuentos de la familia.',
+  'family.removeFailed':               'No se pudo eliminar a este miembro. Inténtalo de nuevo.',
+  'family.inviteFailed':               'No se pudo crear un código de invitación. Inténtalo de nuevo.',
+  'family.revokeInviteTitle':          'Revocar invitación',
+  'family.revokeText':                 'El código {code} dejará de funcionar de inmediato.',
+  'family.revokeInviteFailed':         'No se pudo revocar la invitación. Inténtalo de nuevo.',
+  'family.copiedTitle':                '¡Copiado! 📋',
+  'family.copiedText':                 'Código de invitación «{code}» copiado al portapapeles.',
+  'family.shareMessage':               '✨ ¡Únete a {group} en StoryVoice como nuestro {role}!\n\nUsa el código de invitación: {code} ({expiry})\n\nDescarga StoryVoice e introduce este código en el Centro familiar para compartir cuentos, voces y perfiles infantiles. 🌙',
+  'family.shareTitle':                 'Únete a nuestra familia de StoryVoice',
+  'family.shareDialog':                'Compartir código de invitación familiar',
+  'family.shareSubject':               'Únete a nuestra familia de StoryVoice — Código: {code}',
+  'family.yourChild':                  'tu hijo',
+  'family.voiceShareTitle':            'Graba una voz de buenas noches',
+  'family.voiceShareDialog':           'Compartir invitación de voz',
+  'family.voiceShareSubject':          'Graba una voz de buenas noches — Código: {code}',
+  'family.voiceInviteMessage':         '🎙️ ¡A {child} le encantaría oír tu voz a la hora de dormir!\n\nAbre StoryVoice y graba unos párrafos cortos como «{voice}»: tardarás unos cinco minutos.\n\n{link}\n\nO introduce el código {code} en el Centro familiar. 🌙',
+  'family.voiceInviteFailed':          'No se pudo crear la invitación. Inténtalo de nuevo.',
+  'family.revokeInvitationTitle':      'Revocar invitación',
+  'family.revokeInvitationFailed':     'No se pudo revocar la invitación. Inténtalo de nuevo.',
+  'family.notReadyTitle':              'Aún no está lista',
+  'family.notReady':                   'Esta grabación aún se está subiendo. Vuelve a intentarlo en un rato.',
+  'family.playbackErrorTitle':         'Error de reproducción',
+  'family.playbackError':              'No se pudo reproducir esta grabación. Inténtalo de nuevo.',
+  'family.reviewNotFinished':          'Esta voz aún se está grabando: apruébala cuando estén todos los párrafos.',
+  'family.reviewFailed':               'No se pudo guardar tu revisión. Inténtalo de nuevo.',
+  'family.turnDownTitle':              'Rechazar voz',
+  'family.turnDownText':               '{voice} no se añadirá para {child}. Puede volver a grabarla y enviarla de nuevo para su aprobación.',
+  'family.thisVoice':                  'Esta voz',
+  'family.turnDown':                   'Rechazar',
+  'family.invitationExpiredTitle':     'Invitación caducada',
+  'family.invitationExpired':          'Esa invitación ha caducado. Pide una nueva a la familia.',
+  'family.invitationUsedTitle':        'Invitación usada',
+  'family.invitationUsed':             'Otra persona ya ha grabado con esa invitación.',
+  'family.invalidInvitation':          'No se encontró ese código de invitación. Compruébalo e inténtalo de nuevo.',
+
+  'onboarding.step':                   'Paso {step} de 3',
+  'profile.titleAdd':                  'Añade a otro\npequeñín ✨',
+  'profile.title':                     'Háblanos de\ntu pequeñín ✨',
+  'profile.subtitle':                  'Así creamos cuentos que parecen escritos solo para él o ella.',
+  'profile.name':                      'Nombre del niño',
+  'profile.namePlaceholder':           'p. ej. Sofía, Pablo…',
+  'profile.birthday':                  'Cumpleaños',
+  'profile.yearsOld':                  '{count} años',
+  'profile.yearOld':                   '1 año',
+  'profile.themes':                    'Temas favoritos',
+  'profile.themesNote':                ' (elige todos los que quieras)',
+  'profile.optional':                  '(opcional)',
+  'profile.lifeNotes':                 'Notas de vida',
+  'profile.lifeNotesHint':             '¿Algo especial que incluir en el cuento de esta noche? Una hermanita nueva, empezar el cole, que se le caiga un diente…',
+  'profile.lifeNotesPlaceholder':      'p. ej. «Hoy empezó natación y estaba nerviosa, ¡pero fue muy valiente!»',
+  'profile.avoid':                     'Dejar fuera de los cuentos',
+  'profile.avoidHint':                 'Temas o personas que los cuentos nunca deben mencionar: cada cuento se revisa antes de mostrarse.',
+  'profile.avoidPlaceholder':          'p. ej. monstruos, el abuelo, hospitales',
+  'profile.fears':                     'Miedos',
+  'profile.fearsHint':                 'Cosas que le asustan ahora mismo. Las dejaremos fuera por completo, incluso en versión amable.',
+  'profile.fearsPlaceholder':          'Otra cosa, p. ej. el baño',
+  'profile.fearDark':                  'La oscuridad',
+  'profile.fearMonsters':              'Monstruos',
+  'profile.fearThunder':               'Los truenos',
+  'profile.fearWater':                 'El agua',
+  'profile.fearDogs':                  'Los perros',
+  'profile.fearSpiders':               'Las arañas',
+  'profile.fearDoctors':               'Los médicos',
+  'profile.fearAlone':                 'Estar solo',
+  'profile.include':                   'Incluir siempre',
+  'profile.includeHint':               'Mascotas, hermanos o un peluche favorito para incluir en cada cuento.',
+  'profile.includePet':                '🐶 Mascota',
+  'profile.includePetPlaceholder':     'p. ej. Galleta, el beagle',
+  'profile.includeSibling':            '👧 Hermano/a',
+  'profile.includeSiblingPlaceholder': 'p. ej. su hermana mayor Mía',
+  'profile.includeComfort':            '🧸 Objeto de apego',
+  'profile.includeComfortPlaceholder': 'p. ej. el conejito Don Abrazos',
+  'profile.includeOther':              '💛 Otra persona',
+  'profile.includeOtherPlaceholder':   'p. ej. la abuela Rosa',
+  'profile.add':                       'Añadir',
+  'profile.saving':                    'Guardando…',
+  'profile.addChild':                  'Añadir a {name} ✨',
+  'profile.addChildNoName':            'Añadir niño ✨',
+  'profile.saveChanges':               'Guardar cambios',
+  'profile.next':                      'Siguiente: elige una voz →',
+  'profile.sharedTitle':               'Perfil compartido',
+  'profile.sharedText':                'El perfil de {name} pertenece a otro progenitor de tu grupo familiar: solo esa persona puede cambiarlo.',
+  'profile.missingNameTitle':          'Falta el nombre',
+  'profile.missingName':               'Escribe el nombre de tu hijo.',
+  'profile.pickInterestsTitle':        'Elige algunos intereses',
+  'profile.pickInterests':             'Selecciona al menos un interés para personalizar los cuentos.',
+  'profile.notSignedInTitle':          'Sesión no iniciada',
+  'profile.notSignedIn':               'Inicia sesión para continuar.',
+  'profile.addFailedTitle':            'No se pudo añadir al niño',
+  'profile.addFailed':                 'Comprueba tu conexión e inténtalo de nuevo.',
+  'profile.interestAnimals':           '🦁 Animales',
+  'profile.interestSpace':             '🚀 Espacio',
+  'profile.interestMagic':             '✨ Magia',
+  'profile.interestAdventure':         '🗡️ Aventura',
+  'profile.interestDragons':           '🐉 Dragones',
+  'profile.interestFairyTales':        '🧚 Cuentos de hadas',
+  'profile.interestPirates':           '🏴‍☠️ Piratas',
+  'profile.interestScience':           '🔬 Ciencia',
+  'profile.interestDinosaurs':         '🦕 Dinosaurios',
+  'profile.interestSuperheroes':       '🦸 Superhéroes',
+  'profile.interestOcean':             '🌊 Océano',
+  'profile.interestMountains':         '🏔️ Montañas',
+
+  'voices.title':          'Elige qué voz\nlee el cuento 🎙️',
+  'voices.subtitle':       'Tu hijo escuchará su cuento favorito leído con una voz que conoce y quiere.',
+  'voices.mom':            'La voz de mamá',
+  'voices.momDesc':        'Cuentos cálidos y reconfortantes leídos por mamá. La voz que hace que todo parezca seguro.',
+  'voices.dad':            'La voz de papá',
+  'voices.dadDesc':        'Historias llenas de aventuras contadas por papá. La voz que da vida a los cuentos.',
+  'voices.selected':       '✓ Seleccionada',
+  'voices.premium':        '✨ Premium',
+  'voices.premiumLocked':  '🔒 Premium',
+  'voices.addCustom':      'Añadir voz personalizada',
+  'voices.addCustomDesc':  'La abuela, el abuelo o cualquier ser querido: añade todas las voces que quieras.',
+  'voices.info':           'Grabarás 5 párrafos cortos. Todo el proceso dura unos 3 minutos.',
+  'voices.settingUp':      'Preparando…',
+  'voices.record':         'Grabar mi voz →',
+  'voices.chooseTitle':    'Elige una voz',
+  'voices.choose':         'Selecciona la voz de mamá o de papá para continuar.',
+  'voices.customTitle':    'Voz personalizada',
+  'voices.customSoon':     '¡Las voces personalizadas llegarán pronto!',
+  'voices.restoredTitle':  '¡Restaurada!',
+  'voices.restored':       'Tu suscripción premium se ha restaurado.',
+  'voices.paywallTitle':   'Desbloquea las voces premium',
+  'voices.paywallText':    'Añade voces personalizadas para abuelos, tías, tíos… cualquiera a quien tu hijo quiera.',
+  'voices.featureVoices':  '🎙️ Voces personalizadas ilimitadas',
+  'voices.featureAdFree':  '🌙 Sin anuncios',
+  'voices.featureStories': '📚 Cuentos ilimitados',
+  'voices.featureThemes':  '🎨 Temas de cuento premium',
+  'voices.restore':        'Restaurar compras',
+
+  'studio.title':            'Estudio de voz 🎙️',
+  'studio.invitation':       '💌 Invitación',
+  'studio.subtitleInvited':  '{voice} para {child}: lee cada párrafo en voz alta',
+  'studio.yourVoice':        'Tu voz',
+  'studio.theFamily':        'la familia',
+  'studio.subtitleMom':      'La voz de mamá: lee cada párrafo en voz alta',
+  'studio.subtitleDad':      'La voz de papá: lee cada párrafo en voz alta',
+  'studio.subtitleCustom':   'Voz personalizada: lee cada párrafo en voz alta',
+  'studio.allRecorded':      '🎉 ¡Todas las frases grabadas!',
+  'studio.recordToBegin':    'Graba la frase {number} para empezar',
+  'studio.phraseLeft':       'Queda 1 frase por grabar',
+  'studio.phrasesLeft':      'Quedan {count} frases por grabar',
+  'studio.recorded':         '✓ Grabado',
+  'studio.stop':             'Parar',
+  'studio.rerecord':         'Regrabar',
+  'studio.record':           'Grabar',
+  'studio.next':             'Siguiente párrafo →',
+  'studio.tipPermission':    'Se necesita permiso para el micrófono. Toca Grabar para solicitarlo.',
+  'studio.tipDone':          '¡Muy bien! Toca regrabar si quieres otra toma o pasa al siguiente párrafo.',
+  'studio.tipStart':         'Busca un lugar tranquilo, respira hondo y lee con tu voz natural de buenas noches.',
+  'studio.uploading':        '☁️ Subiendo tu voz…',
+  'studio.savingReady':      '✓ Guardando…',
+  'studio.finish':           '✨ ¡Terminar y crear cuentos!',
+  'studio.saving':           'Guardando…',
+  'studio.saveProgress':     'Guardar progreso ({done}/{total} listos)',
+  'studio.familyVoiceTitle': 'Voz de la familia',
+  'studio.familyVoice':      '{voice} la grabó otro miembro de tu grupo familiar. Graba tu propia voz para añadirla a la familia.',
+  'studio.thisVoice':        'Esta voz',
+  'studio.notNow':           'Ahora no',
+  'studio.recordMine':       'Grabar la mía',
+  'studio.playOnlyTitle':    'Rol de solo reproducción',
+  'studio.playOnly':         'Como cuidador de tu grupo familiar puedes reproducir las voces de la familia. Una voz que grabes aquí se queda en tu cuenta y no se comparte con la familia.',
+  'studio.recordAnyway':     'Grabar de todos modos',
+  'studio.micTitle':         'Acceso al micrófono',
+  'studio.mic':              'StoryVoice necesita acceso al micrófono para grabar tu voz. Actívalo en Ajustes.',
+  'studio.ok':               'OK',
+  'studio.recordErrorTitle': 'Error de grabación',
+  'studio.recordError':      'No se pudo empezar a grabar. Inténtalo de nuevo.',
+  'studio.retakeTitle':      '¿Lo intentamos otra vez?',
+  'studio.retake':           'Puede que esta toma no suene del todo bien en los cuentos.',
+  'studio.keepIt':           'Conservarla',
+  'studio.almostTitle':      '¡Ya casi está!',
+  'studio.almostOne':        'Te queda 1 párrafo por grabar. ¿Quieres terminarlo?',
+  'studio.almost':           'Te quedan {count} párrafos por grabar. ¿Quieres terminarlos?',
+  'studio.keepRecording':    'Seguir grabando',
+  'studio.skipFinish':       'Omitir y terminar',
+  'studio.sentTitle':        'Enviada para aprobación ✨',
+  'studio.sent':             'La familia de {child} oirá tu voz cuando la apruebe.',
+  'studio.sentNoChild':      'La familia oirá tu voz cuando la apruebe.',
+  'studio.savedTitle':       'Guardada para más tarde',
+  'studio.saved':            'Vuelve a abrir la invitación para grabar los párrafos que faltan.',
+  'studio.gradeGreat':       'Toma genial',
+  'studio.gradeGood':        'Buena toma',
+  'studio.gradeRetake':      '¿Otra vez?',
+  'studio.issueSilence':     'Casi solo oímos silencio: acerca un poco el teléfono y lee con tu voz normal.',
+  'studio.issuePauses':      'Hubo pausas largas: intenta leer de corrido.',
+  'studio.issueTooLoud':     'Tu voz sonó demasiado fuerte para el micrófono: aleja un poco el teléfono.',
+  'studio.issuePeaked':      'Algunas palabras saturaron: una voz más suave de buenas noches sonará mejor.',
+  'studio.issueQuiet':       'Sonó bastante bajo: habla un poco más cerca del teléfono.',
+  'studio.issueNoise':       'Hay algo de ruido de fondo: en una habitación más tranquila tu voz sonará más clara.',
+  'studio.issueShort':       'Esa toma fue muy corta: asegúrate de leer todo el párrafo.',
+  'studio.issueFast':        'Un poco rápido: una lectura lenta y tranquila funciona mejor.',
+  'studio.issueLong':        'Esa toma fue larga: intenta leer sin detenerte.',
+
+  'create.themeAdventurous':       'Aventuras',
+  'create.themeAdventurousDesc':   'Héroes valientes y misiones emocionantes',
+  'create.themeAdventurousAdj':    'de aventuras',
+  'create.themeCalming':           'Relajante',
+  'create.themeCalmingDesc':       'Sueños tranquilos y magia suave',
+  'create.themeCalmingAdj':        'relajante',
+  'create.themeFunny':             'Divertido',
+  'create.themeFunnyDesc':         'Personajes disparatados y muchas risas',
+  'create.themeFunnyAdj':          'divertido',
+  'create.themeEducational':       'Educativo',
+  'create.themeEducationalDesc':   'Aprende algo maravilloso',
+  'create.themeEducationalAdj':    'educativo',
+  'create.themeSubtitle':          '¿Qué aventura os espera esta noche?',
+  'create.previewTitle':           'Un cuento {theme} para {name}',
+  'create.previewFeaturing':       'Con: {interests}',
+  'create.previewUnique':          'Una aventura única y personalizada',
+  'create.limitTitle':             'Límite de polvo de estrellas alcanzado',
+  'create.limitText':              'Has usado los 3 cuentos de esta semana del plan Star-Seeker.',
+  'create.limitUpgradeBefore':     '✦ Pásate a ',
+  'create.limitUpgradeAfter':      ' para tener cuentos ilimitados y narradores exclusivos.',
+  'create.limitUnlock':            '🌌 Desbloquear Galaxy-Traveler',
+  'create.photoPermissionTitle':   'Permiso necesario',
+  'create.photoPermission':        'Permite el acceso a tu fototeca para añadir un retrato familiar.',
+  'create.photoErrorTitle':        'Error',
+  'create.photoError':             'No se pudo abrir la fototeca. Inténtalo de nuevo.',
+  'create.portraitFailedTitle':    'Error en el retrato',
+  'create.portraitFailed':         'No se pudo transformar la foto. Inténtalo de nuevo.',
+  'create.portraitPreparing':      'Preparando tu retrato…',
+  'create.portraitPainting':       'La IA está pintando tu retrato…',
+  'create.portraitDeveloping':     'Pintando tu retrato…',
+  'create.portraitCaptionDefault': 'Nuestra pequeña estrella ✨',
+  'create.chooseThemeTitle':       'Elige un tema',
+  'create.chooseThemeText':        'Elige un tema antes de crear el cuento.',
+  'create.missingChildTitle':      'Falta el perfil infantil',
+  'create.missingChild':           'Primero crea un perfil infantil.',
+  'create.sharedAs':               'Tu grupo familiar comparte a {name}. Como {role} puedes reproducir sus cuentos; pide al propietario de la familia que cree otros nuevos si quieres.',
+  'create.sharedMember':           'miembro',
+  'create.stepGathering':          'Reuniendo polvo de estrellas…',
+  'create.stepWeaving':            'Tejiendo las palabras mágicas…',
+  'create.stepPainting':           'Pintando el paisaje de sueños…',
+  'create.stepAlmost':             'Casi listo…',
+  'create.failedTitle':            'No se pudo crear el cuento',
+  'create.failed':                 'Algo salió mal al crear tu cuento. Inténtalo de nuevo.',
+  'create.ok':                     'Aceptar',
+  'create.portraitToggle':         'Retrato familiar con IA',
+  'create.portraitToggleHint':     'Convierte una foto en arte de cuento ✨',
+  'create.pro':                    'PRO',
+  'create.on':                     'SÍ',
+  'create.off':                    'NO',
+  'create.chooseArtStyle':         'Elige un estilo artístico',
+  'create.artSpaceCaptain':        'Capitán espacial',
+  'create.artBraveKnight':         'Caballero valiente',
+  'create.artForestFairy':         'Hada del bosque',
+  'create.artOceanExplorer':       'Explorador del océano',
+  'create.uploadPhoto':            'Subir foto',
+  'create.transforming':           '✨ Pintando…',
+  'create.transform':              '✨ Transformar',
+  'create.portraitCaption':        'Retrato de cuento de {name}',
+  'create.portraitCaptionNoName':  'Retrato de cuento',
+  'create.changePhoto':            'Cambiar foto o estilo',
+  'create.interactive':            'Aventura interactiva',
+  'create.interactiveOn':          '✓ ¡El niño elige el camino del cuento!',
+  'create.interactiveOff':         'Deja que tu hijo elija el camino del cuento ✨',
+  'create.saga':                   'Saga de cuentos',
+  'create.sagaOn':                 '✓ Esta noche toca el siguiente capítulo',
+  'create.sagaOff':                'Una aventura que continúa cada noche 📖',
+  'create.sagaNew':                '✨ Empezar una nueva saga',
+  'create.sagaChip':               '📖 {title} · Cap. {chapter}',
+  'create.pictureBook':            'Libro ilustrado',
+  'create.pictureBookOn':          '✓ Una ilustración en cada página',
+  'create.pictureBookOff':         'Ilustra cada párrafo 🎨',
+  'create.castTitle':              '¿Quién sale en el cuento de esta noche?',
+  'create.castEdit':               'Editar reparto ›',
+  'create.castCreate':             'Crear un reparto ›',
+  'create.crafting':               'Creando tu cuento…',
+  'create.infoPersonalised':       'Personalizado con IA',
+  'create.infoVoice':              'Con tu voz',
+  'create.infoSleep':              'Magia para dormir',
+  'create.warp':                   '✦  Viajando por la galaxia de los sueños  ✦',
+
+  'player.notFound':              'No se encontró el cuento. ¡Creemos una aventura nueva!',
+  'player.empty':                 'Aún no hay ningún cuento: ¡toca el botón de abajo para empezar la magia!',
+  'player.choiceFallback':        '¿Qué debería hacer {name}?',
+  'player.choiceSeconds':         's',
+  'player.chapterBadge':          '📖 Capítulo {count}',
+  'player.weavingNext':           'Tejiendo lo que pasa después…',
+  'player.weavingEnding':         'Tejiendo tu final mágico…',
+  'player.pathsTitle':            '🔀 Caminos explorados',
+  'player.pathTonight':           'Esta noche',
+  'player.pathNew':               'Elige otro camino',
+  'player.stardustAdventure':     '¡Aventura interactiva completada! 🌟',
+  'player.stardustAdventureDone': '¡Aventura interactiva completada! 🎯',
+  'player.stardustStory':         'Completado: «{title}»',
+  'player.stardustStoryDone':     'Completado: «{title}» 📖',
+  'player.reflectionFeel':        '¿Cómo te hizo sentir el cuento?',
+  'player.reflectionLearn':       '¿Qué aprendiste con el cuento de esta noche?',
+  'player.quietTimeBreath':       'Respirad juntos y pensad en el cuento de esta noche…',
+  'player.journalTitle':          'Reflexiona sobre el viaje de esta noche',
+  'player.journalSubtitle':       'Visita el diario de buenas noches →',
+  'player.timerSubtitle':         'Los sonidos se apagan suavemente y la pantalla se oscurece',
+  'player.timerFadeOver':         'Apagar en',
+  'player.timerKeepSounds':       'Mantener los sonidos',
+  'player.timerKeepSoundsHint':   'Solo se apaga el cuento: los sonidos siguen hasta que los pares',
+  'player.timerEndAfter':         'Terminar tras',
+  'player.timerOff':              'No',
+  'player.timerSeconds':          '{count} s',
+  'player.timerMinutes':          '{count} min',
+  'player.timerHours':            '{count} h',
+  'player.wake':                  'Toca para despertar',
+  'player.wakeOrStop':            'Toca para despertar · mantén para parar los sonidos',
+  'home.noFavourites':            'Aún no hay favoritos: toca el corazón de cualquier cuento para guardarlo aquí.',
+  'home.seriesHint':              'Agrupa 2 o 3 cuentos para una rutina de noche continua',
+  'library.anyTime':              'Cualquier fecha',
+  'library.thisWeek':             'Esta semana',
+  'library.thisMonth':            'Este mes',
+  'library.thisYear':             'Este año',
+  'pdf.save':                     '📄 Guardar como PDF',
+  'pdf.failedTitle':              'Error al exportar',
+  'pdf.failed':                   'No se pudo guardar el cuento como PDF. Inténtalo de nuevo.',
+  'pdf.yourChild':                'tu hijo',
+  'pdf.bedtimeStoryFor':          'Un cuento para dormir para {name}',
+  'pdf.familyPortrait':           'Retrato familiar',
+  'pdf.theEnd':                   '✦ Fin ✦',
+  'pdf.share':                    'Compartir «{title}»',
+
+  'settings.cloudBackup':        '☁️  Copia en la nube',
+  'settings.syncing':            'Sincronizando',
+  'settings.syncNow':            'Sincronizar',
+  'settings.syncingToCloud':     'Sincronizando con la nube…',
+  'settings.legacyProtected':    '✦ Todos los datos antiguos están protegidos en la nube',
+  'settings.backupUpToDate':     'Copia en la nube al día',
+  'settings.syncIssues':         'La última sincronización tuvo problemas',
+  'settings.notSynced':          'Aún sin sincronizar',
+  'settings.pendingOne':         '1 cambio pendiente de sincronizar',
+  'settings.pending':            '{count} cambios pendientes de sincronizar',
+  'settings.lastBackup':         'Última copia · {time}',
+  'settings.tapSyncNow':         'Toca «Sincronizar» para guardar tus cuentos',
+  'settings.connectSupabase':    'Conecta Supabase para activar la copia en la nube',
+  'settings.coverageProfiles':   'Perfiles',
+  'settings.coverageVoices':     'Voces',
+  'settings.coverageStories':    'Cuentos',
+  'settings.coverageSettings':   'Ajustes',
+  'settings.migrationDone':      '✨ Magic Sync completado: los datos antiguos están a salvo en la nube',
+  'settings.justNow':            'Justo ahora',
+  'settings.secondsAgo':         'hace {count} s',
+  'settings.minutesAgo':         'hace {count} min',
+  'settings.hoursAgo':           'hace {count} h',
+  'settings.daysAgo':            'hace {count} d',
+  'settings.neverSynced':        'Nunca sincronizado',
+  'settings.notSignedIn':        'Sesión no iniciada',
+  'settings.memberSince':        '⭐ Miembro desde {date}',
+  'settings.signOutText':        '¿Seguro que quieres cerrar sesión?',
+  'settings.deleteTitle':        '⚠️ Eliminar cuenta',
+  'settings.deleteText':         'Se eliminarán para siempre tu cuenta y todos sus datos, incluidos cuentos, grabaciones de voz y perfiles infantiles. Esta acción no se puede deshacer.',
+  'settings.deleteConfirmTitle': '¿Estás completamente seguro?',
+  'settings.deleteConfirm':      'Escribe «DELETE» en el siguiente paso para confirmar.',
+  'settings.deleteEverything':   'Sí, eliminarlo todo',
+  'settings.deleteFailedTitle':  'Error',
+  'settings.deleteFailed':       'No se pudo eliminar tu cuenta por completo. Contacta con el soporte en help@storyvoice.app',
+  'settings.emailTitle':         'Correo no disponible',
+  'settings.email':              'Escríbenos directamente a support@storyvoice.app',
+  'settings.ok':                 'Aceptar',
+  'settings.analyticsTitle':     '📊 Estadísticas de cuentos',
+  'settings.totalSessions':      'Sesiones totales',
+  'settings.topNarrator':        'Narrador favorito',
+  'settings.noneYet':            'Ninguno aún',
+  'settings.completionRate':     'Cuentos terminados',
+  'settings.narratorPopularity': 'NARRADORES MÁS ESCUCHADOS',
+  'settings.completionByTheme':  'TERMINADOS POR TEMA',
+  'settings.completedOf':        '{completed}/{started} terminados',
+  'settings.offlineCache':       'CACHÉ SIN CONEXIÓN',
+  'settings.storiesCached':      'Cuentos guardados',
+  'settings.storiesCount':       '{count} cuentos',
+  'settings.analyticsEmpty':     'Aún no hay datos: crea algunos cuentos y tus estadísticas aparecerán aquí.',
+  'settings.signedInAs':         'SESIÓN INICIADA COMO',
+
+  'paywall.headline':                'Desbloquea las estrellas',
+  'paywall.subheadline':             'Regala a tu hijo la magia de cuentos ilimitados para dormir',
+  'paywall.benefitStoriesTitle':     'Cuentos ilimitados',
+  'paywall.benefitStories':          'Crea tantos cuentos personalizados como quieras, cada noche.',
+  'paywall.benefitNarratorsTitle':   'Todos los narradores IA desbloqueados',
+  'paywall.benefitNarrators':        'Accede a Luna, Barnaby, Cosmo, Aria y Rex: los 5 amigos de la hora de dormir.',
+  'paywall.benefitArtTitle':         'Ilustraciones en alta definición',
+  'paywall.benefitArt':              'Preciosas acuarelas a resolución completa para cada cuento.',
+  'paywall.benefitSoundsTitle':      'Paisajes sonoros envolventes',
+  'paywall.benefitSounds':           'Mezcla sonidos ambientales con la narración para el ambiente perfecto para dormir.',
+  'paywall.benefitCollectionsTitle': 'Colecciones ilimitadas',
+  'paywall.benefitCollections':      'Organiza los cuentos en series y reprodúcelos como rutina para dormir.',
+  'paywall.bestValue':               'MEJOR PRECIO',
+  'paywall.yearlyPlan':              'Plan anual',
+  'paywall.monthlyPlan':             'Plan mensual',
+  'paywall.allFeatures':             'Todas las funciones, cancela cuando quieras',
+  'paywall.perDay':                  '/ día',
+  'paywall.perDays':                 '/ {count} días',
+  'paywall.perWeek':                 '/ semana',
+  'paywall.perWeeks':                '/ {count} semanas',
+  'paywall.perMonth':                '/ mes',
+  'paywall.perMonths':               '/ {count} meses',
+  'paywall.perYear':                 '/ año',
+  'paywall.perYears':                '/ {count} años',
+  'paywall.loadingPlans':            'Cargando planes…',
+  'paywall.pending':                 'La compra está pendiente de aprobación. ¡Vuelve pronto!',
+  'paywall.purchaseFailed':          'La compra ha fallado. Inténtalo de nuevo.',
+  'paywall.noPurchases':             'No se han encontrado compras anteriores.',
+  'paywall.restoreFailed':           'No se pudieron restaurar las compras. Inténtalo más tarde.',
+  'paywall.legal':                   'La suscripción se renueva automáticamente. Cancela cuando quieras en los ajustes de App Store / Play Store.',
+  'paywall.startFor':                'Empieza por {price}',
+  'paywall.unlock':                  'Desbloquear StoryVoice Pro',
+  'paywall.restore':                 'Restaurar compras',
+  'paywall.successTitle':            '¡Eres una estrella!',
+  'paywall.success':                 'Te damos la bienvenida a StoryVoice Pro.\n¡Disfruta de noches mágicas sin límite! ✨',
+  'collections.title':               '📚  Mis colecciones',
+  'collections.subtitle':            'Organiza los cuentos en series',
+  'collections.new':                 '+ Nueva',
+  'collections.emptyTitle':          'Aún no hay colecciones',
+  'collections.empty':               'Crea una colección para agrupar cuentos en una serie perfecta para dormir',
+  'collections.createFirst':         'Crear la primera colección',
+  'collections.addStory':            '+ Añadir cuento a la colección',
+  'collections.newTitle':            '✨  Nueva colección',
+  'collections.newSubtitle':         'Agrupa cuentos para la rutina perfecta antes de dormir',
+  'collections.chooseIcon':          'Elige un icono',
+  'collections.name':                'Nombre de la colección',
+  'collections.namePlaceholder':     'p. ej. Aventuras de fin de semana',
+  'collections.create':              'Crear colección',
+  'collections.noStories':           'Aún no hay cuentos',
+  'collections.storyCountOne':       '1 cuento',
+  'collections.storyCount':          '{count} cuentos',
+  'collections.playSeriesOne':       'Reproducir serie  (1 cuento)',
+  'collections.playSeries':          'Reproducir serie  ({count} cuentos)',
+  'collections.addToPlay':           'Añade cuentos para reproducir',
+  'collections.pickerTitle':         'Añadir un cuento',
+  'collections.added':               '✓ Añadido',
+  'collections.close':               'Cerrar',
+  'magicSync.subtitle':              'Hemos encontrado creaciones de antes de iniciar sesión.\nPásalas a la nube para guardarlas para siempre.',
+  'magicSync.profile':               'Perfil',
+  'magicSync.storyOne':              'Cuento',
+  'magicSync.stories':               'Cuentos',
+  'magicSync.voiceOne':              'Voz',
+  'magicSync.voices':                'Voces',
+  'magicSync.move':                  'Pasar a la nube',
+  'magicSync.keepLocal':             'Mantener en el dispositivo por ahora',
+  'magicSync.syncingTitle':          'Tejiendo la magia…',
+  'magicSync.syncing':               'Pasando tus cuentos a la nube ☁️',
+  'magicSync.successTitle':          '¡Magic Sync completado!',
+  'magicSync.storedOne':             '1 elemento guardado de forma segura en la nube ✨',
+  'magicSync.stored':                '{count} elementos guardados de forma segura en la nube ✨',
+  'magicSync.storedAll':             'Tus datos ya están guardados de forma segura en la nube ✨',
+  'magicSync.continue':              'Ir a mis cuentos ›',
+  'magicSync.errorTitle':            'Sincronización incompleta',
+  'magicSync.partial':               'Se movieron {count} elementos; algunos no se pudieron transferir. Puedes reintentarlo desde Ajustes.',
+  'magicSync.offline':               'No se puede conectar con la nube ahora mismo. Tus datos están a salvo en el dispositivo: inténtalo de nuevo desde Ajustes.',
+  'mixer.title':                     '🌊  Ondas de sonido',
+  'mixer.mixingOne':                 'Mezclando 1 capa',
+  'mixer.mixing':                    'Mezclando {count} capas',
+  'mixer.idle':                      'Combina paisajes sonoros para crear tu mezcla',
+  'mixer.saveMix':                   '＋ Guardar mezcla',
+  'mixer.namePlaceholder':           'p. ej. Cabaña con lluvia',
+  'mixer.save':                      'Guardar',
+  'mixer.hint':                      'Toca uno o varios sonidos de arriba para empezar a mezclar',
+  'mixer.narratorHint':              'Mézclalo con la voz del narrador para el ambiente sonoro perfecto',
+  'mixer.stopAll':                   '⏹ Parar todo',
+  'mixer.removeTitle':               '¿Eliminar la mezcla?',
+  'mixer.removeMessage':             '«{name}» se eliminará de las mezclas guardadas de este niño.',
+  'mixer.keep':                      'Conservar',
+  'mixer.remove':                    'Eliminar',
+  'mixer.rain':                      'Lluvia suave',
+  'mixer.rainDesc':                  'Gotitas suaves sobre un tejado tranquilo',
+  'mixer.ocean':                     'Olas del mar',
+  'mixer.oceanDesc':                 'Mareas rítmicas que mecen la orilla',
+  'mixer.forest':                    'Grillos del bosque',
+  'mixer.forestDesc':                'Coro nocturno en un bosque a la luz de la luna',
+  'mixer.cosmos':                    'Ruido blanco cósmico',
+  'mixer.cosmosDesc':                'El zumbido de un universo dormido',
+  'gate.title':                      'Control parental',
+  'gate.context':                    'Una comprobación rápida antes de entrar en {context}.',
+  'gate.subtitle':                   'Un cálculo rápido para comprobar que eres adulto.',
+  'gate.whatIs':                     'Cuánto es',
+  'gate.placeholder':                'Tu respuesta…',
+  'gate.wrong':                      'No es correcto: ¡inténtalo de nuevo!',
+  'gate.confirm':                    'Confirmar ✓',
+  'gate.addChild':                   'Añadir niño',
+  'pictureBook.painting':            'Pintando esta página…',
+  'pictureBook.later':               'Esta página se pintará la próxima vez',
+  'stardust.earned':                 '¡Polvo de estrellas ganado!',
+  'stardust.tapToContinue':          '✨ Toca para continuar',
+  'narrators.title':                 '🌟 Amigos de la hora de dormir',
+  'narrators.subtitle':              'Elige tu narrador IA',
+  'narrators.pro':                   'Pro',
+  'narrators.unlock':                '🔒 Desbloquear',
+  'narrators.preview':               '▷ Escuchar',
+  'narrators.preparing':             '{name} está preparando una muestra…',
+  'narrators.gotIt':                 '✓ ¡Entendido!',
+  'narrators.styleWhisper':          'susurro',
+  'narrators.styleWise':             'sabio',
+  'narrators.styleEnthusiastic':     'entusiasta',
+  'narrators.styleSlowPaced':        'pausado',
+  'narrators.styleDramatic':         'dramático',
+  'narrators.lunaSpecies':           'la Lechuza',
+  'narrators.lunaDesc':              'Suave, susurrante y mágica',
+  'narrators.lunaTagline':           'Cada palabra, un susurro…',
+  'narrators.lunaPreview':           'Chisss… deja que la luz de la luna te lleve suavemente al país de los sueños…',
+  'narrators.barnabySpecies':        'el Oso',
+  'narrators.barnabyDesc':           'Reflexivo, cálido y filosófico',
+  'narrators.barnabyTagline':        'Sabiduría antigua, corazón tierno',
+  'narrators.barnabyPreview':        'Hay una gran verdad en la calma de la noche, pequeño…',
+  'narrators.cosmoSpecies':          'la Estrella',
+  'narrators.cosmoDesc':             'Brillante, enérgico y alegre',
+  'narrators.cosmoTagline':          '¡Cuentos que brillan y chispean!',
+  'narrators.cosmoPreview':          '¡Oh, GUAU! ¿Estás listo para la aventura más INCREÍBLE de todas?',
+  'narrators.ariaSpecies':           'el Hada',
+  'narrators.ariaDesc':              'Dulce, rítmica y muy relajante',
+  'narrators.ariaTagline':           'A la deriva… despacio… hacia el sueño',
+  'narrators.ariaPreview':           'Inspira… y espira… deja que cada palabra… te lleve… al descanso…',
+  'narrators.rexSpecies':            'el Dragón',
+  'narrators.rexDesc':               'Narración audaz, viva y épica',
+  'narrators.rexTagline':            '¡Las LEYENDAS nacen a la hora de dormir!',
+  'narrators.rexPreview':            'En la era anterior a la memoria, cuando las montañas eran jóvenes y los océanos cantaban…',
+  'narrators.seraphinaSpecies':      'la Ballena Estelar',
+  'narrators.seraphinaDesc':         'Ancestral, cósmica y de una serenidad celestial',
+  'narrators.seraphinaTagline':      'Navega por olas de polvo de estrellas hacia el sueño…',
+  'narrators.seraphinaPreview':      'Desde los océanos profundos del cosmos, te llevo en suaves corrientes de luz estelar… hasta los sueños más dulces…',
+
+  'splash.tagline':              'Magia para dormir, con tu voz',
+  'rateUs.title':                '¿Te gusta StoryVoice?',
+  'rateUs.subtitle':             '¡Tu valoración ayuda a otras familias a descubrir la magia de la hora de dormir! 🌙',
+  'rateUs.rate':                 '⭐ Valóranos ahora',
+  'welcome.tagline':             'Cuentos para dormir contados con',
+  'welcome.taglineHighlight':    'tu voz. ✨',
+  'welcome.subTagline':          'Cuentos personalizados creados con IA, leídos\npor la voz que más quieren: la tuya.',
+  'welcome.cta':                 'Crea los cuentos de tu hijo',
+  'welcome.haveAccount':         '¿Ya tienes una cuenta?',
+  'welcome.signIn':              'Inicia sesión',
+  'walkthrough.skip':            'Saltar',
+  'walkthrough.next':            'Siguiente  ›',
+  'walkthrough.begin':           '✨  Empieza tu viaje',
+  'walkthrough.voiceTag':        'EL ESTUDIO DE VOZ',
+  'walkthrough.voiceTitle':      'Tu voz.\nSus sueños.',
+  'walkthrough.voiceSubtitle':   'Narrado por la persona que más quieren.',
+  'walkthrough.voiceBody':       'Graba tu voz una sola vez y escúchate contar cuentos personalizados cada noche. Tu hijo se dormirá con el sonido más familiar y reconfortante del mundo: el tuyo.',
+  'walkthrough.aiTag':           'EL MOTOR DE IA',
+  'walkthrough.aiTitle':         'Cuentos hechos\nsolo para ellos.',
+  'walkthrough.aiSubtitle':      'Infinitamente personalizados. Mágicos sin fin.',
+  'walkthrough.aiBody':          'Nuestra IA entreteje el nombre, la edad, los intereses y la personalidad de tu hijo en cuentos únicos que parecen escritos especialmente para él. No hay dos cuentos iguales.',
+  'walkthrough.playerTag':       'EL REPRODUCTOR',
+  'walkthrough.playerTitle':     'Diseñado\npara dormir.',
+  'walkthrough.playerSubtitle':  'Un refugio tranquilo a la hora de dormir.',
+  'walkthrough.playerBody':      'Cada píxel está pensado para facilitar el paso al sueño. Sin distracciones. Sin luces brillantes. Solo un brillo cálido y tenue, tu voz y un cuento que guía a tu hijo suavemente al país de los sueños.',
+  'cloudMagic.continue':         'Continuar →',
+  'cloudMagic.enter':            '✨ Cruza la Puerta de Cristal',
+  'cloudMagic.stardustTitle':    'Polvo de estrellas sincronizado',
+  'cloudMagic.stardustSubtitle': 'Tus recompensas mágicas te siguen a todas partes',
+  'cloudMagic.stardustBody':     'Cada cristal de polvo de estrellas que ganas se sincroniza al instante en todos tus dispositivos. Continúa desde cualquier pantalla: tu racha, tus recompensas y tu progreso siempre están donde los dejaste.',
+  'cloudMagic.stardustPill':     'Sincronización en la nube',
+  'cloudMagic.voicesTitle':      'Voces de los padres a salvo',
+  'cloudMagic.voicesSubtitle':   'Tu voz, guardada para siempre',
+  'cloudMagic.voicesBody':       'Tus grabaciones se guardan de forma segura en la caja fuerte de la nube. Aunque cambies de teléfono, la voz favorita de tu hijo —la tuya— siempre le estará esperando.',
+  'cloudMagic.voicesPill':       'Copia de seguridad',
+  'cloudMagic.storiesTitle':     'Cuentos a salvo',
+  'cloudMagic.storiesSubtitle':  'Cada cuento, a salvo en las estrellas',
+  'cloudMagic.storiesBody':      'Todos los cuentos que creas se cifran y se guardan en tu biblioteca cósmica personal. Nunca se perderán y podrás compartirlos con la familia de toda la galaxia.',
+  'cloudMagic.storiesPill':      'Caja fuerte de cuentos',
+  'auth.gateTitle':              'La Puerta de Cristal',
+  'auth.welcomeBack':            'Hola de nuevo, cuentacuentos ✨',
+  'auth.beginJourney':           'Empieza tu viaje mágico 🌟',
+  'auth.signInTab':              '✦ Entrar',
+  'auth.signUpTab':              '✦ Registrarse',
+  'auth.email':                  'Correo electrónico',
+  'auth.emailPlaceholder':       'tu@ejemplo.com',
+  'auth.password':               'Contraseña',
+  'auth.confirmPassword':        'Confirmar contraseña',
+  'auth.repeatPassword':         'Repite la contraseña',
+  'auth.forgot':                 '¿Has olvidado la contraseña?',
+  'auth.signingIn':              'Entrando…',
+  'auth.creatingAccount':        'Creando la cuenta…',
+  'auth.signIn':                 '✨ Entrar',
+  'auth.createAccount':          '🌟 Crear cuenta',
+  'auth.or':                     'o',
+  'auth.google':                 'Continuar con Google',
+  'auth.apple':                  'Continuar con Apple',
+  'auth.noAccount':              '¿No tienes cuenta? ',
+  'auth.haveAccount':            '¿Ya tienes cuenta? ',
+  'auth.signUpLink':             'Regístrate',
+  'auth.signInLink':             'Inicia sesión',
+  'auth.verifyTitle':            '¡Revisa tu correo!',
+  'auth.verify':                 'Te hemos enviado un enlace mágico de verificación. Cuando lo confirmes, podrás iniciar sesión.',
+  'auth.goToSignIn':             'Ir a iniciar sesión',
+  'auth.missingCredentials':     'Introduce tu correo y tu contraseña.',
+  'auth.passwordMismatch':       'Las contraseñas no coinciden.',
+  'auth.passwordTooShort':       'La contraseña debe tener al menos 6 caracteres.',
+  'auth.offlineSignUp':          'Se necesita conexión a internet para crear tu cuenta. Comprueba tu conexión e inténtalo de nuevo.',
+  'auth.offlineSignIn':          'Se necesita conexión a internet para acceder a tu cuenta. Comprueba tu conexión e inténtalo de nuevo.',
+  'auth.offline':                'No se puede conectar. Comprueba tu conexión a internet e inténtalo de nuevo.',
+  'auth.somethingWrong':         'Algo ha salido mal. Inténtalo de nuevo.',
+  'auth.unavailable':            'El inicio de sesión no está disponible temporalmente. Inténtalo más tarde.',
+  'auth.accountExists':          'Ya existe una cuenta con este correo. Prueba a iniciar sesión.',
+  'auth.invalidCredentials':     'Correo o contraseña incorrectos. Inténtalo de nuevo.',
+  'auth.notConfirmed':           'Verifica tu correo antes de iniciar sesión.',
+  'auth.rateLimited':            'Demasiados intentos. Espera un momento e inténtalo de nuevo.',
+  'auth.notConfigured':          'El servicio de autenticación no está configurado. Contacta con soporte.',
+  'auth.resetTitle':             'Restablece tu contraseña',
+  'auth.resetSubtitle':          'Escribe tu correo y te enviaremos\nun enlace seguro para restablecerla',
+  'auth.emailLabel':             'CORREO ELECTRÓNICO',
+  'auth.missingEmail':           'Introduce tu correo electrónico.',
+  'auth.sending':                'Enviando…',
+  'auth.sendReset':              '📨 Enviar enlace',
+  'auth.rememberPassword':       '¿Recuerdas tu contraseña? ',
+  'auth.resetSentTitle':         '¡Revisa tu bandeja de entrada!',
+  'auth.resetSent':              'Te hemos enviado un enlace para restablecer la contraseña.\nSíguelo para crear una nueva.',
+  'auth.backToSignIn':           '← Volver a iniciar sesión',
+  'ready.title':                 '¿Listo para la magia?',
+  'ready.subtitle':              'Conecta Supabase para desbloquear StoryVoice al completo, o empieza ya con el modo sin conexión.',
+  'ready.offlineHeader':         '✓ Disponible ya (modo sin conexión)',
+  'ready.cloudHeader':           '✦ Se desbloquea con Supabase',
+  'ready.createStories':         'Crear cuentos',
+  'ready.createStoriesDesc':     'Creación completa de cuentos, sin conexión',
+  'ready.voiceRecording':        'Grabación de voz',
+  'ready.voiceRecordingDesc':    'Graba tu voz en el dispositivo',
+  'ready.stardust':              'Recompensas de polvo de estrellas',
+  'ready.stardustDesc':          'Gana y gasta polvo de estrellas sin conexión',
+  'ready.journal':               'Diario de la hora de dormir',
+  'ready.journalDesc':           'Guarda las entradas del diario en el dispositivo',
+  'ready.cloudSync':             'Sincronización en la nube',
+  'ready.cloudSyncDesc':         'Accede a los cuentos desde todos tus dispositivos',
+  'ready.familySharing':         'Compartir en familia',
+  'ready.familySharingDesc':     'Comparte con tu familia',
+  'ready.backup':                'Copia de seguridad',
+  'ready.backupDesc':            'No pierdas nunca tus cuentos mágicos',
+  'ready.aiAccount':             'Funciones de IA de la cuenta',
+  'ready.aiAccountDesc':         'IA personalizada entre sesiones',
+  'ready.howTo':                 '🔧 Cómo conectar',
+  'ready.howToBefore':           'En el panel del proyecto, toca ',
+  'ready.howToAction':           'Connect Supabase',
+  'ready.howToAfter':            ': las variables de entorno se sincronizarán automáticamente y la magia quedará totalmente desbloqueada.',
+  'ready.unlockCloud':           '✨ Desbloquear Cloud Magic',
+  'ready.offlineMode':           '🌙 Seguir sin conexión',
+  'ready.footnote':              'Puedes conectar Supabase cuando quieras desde los ajustes del proyecto',
+};
+
+const FR: Catalogue = {
+  'common.back':       '← Retour',
+  'common.cancel':     'Annuler',
+  'common.done':       'Terminé',
+  'common.maybeLater': 'Plus tard',
+
+  'home.greeting':          'Bonsoir 🌙',
+  'home.generating':        'Création…',
+  'home.tapToRead':         'Touchez pour lire ›',
+  'home.emptyTitle':        'Ta bibliothèque d’histoires',
+  'home.emptySubtitle':     'Chaque soir, une nouvelle aventure\nattend d’être écrite rien que pour toi ✨',
+  'home.firstAdventure':    'Commence ta première aventure',
+  'home.addChild':          '＋ Ajouter un enfant',
+  'home.shared':            '👪 Partagé',
+  'home.edit':              'Modifier',
+  'home.nowNarrating':      'Narrateur actuel',
+  'home.switch':            'Changer ›',
+  'home.createStory':       'Créer une histoire',
+  'home.bookshelf':         '📚 Ma bibliothèque',
+  'home.search':            '🔍 Rechercher',
+  'home.sagas':             '🌙 Sagas',
+  'home.collections':       '🗂️ Collections',
+  'home.manage':            'Gérer ›',
+  'home.createSeries':      'Créer une série',
+  'home.recordVoice':       'Enregistrer ma voix',
+  'home.editProfile':       'Modifier le profil',
+  'home.pro':               '👑 Pro',
+  'home.storyCast':         'Personnages',
+  'home.nightStreak':       'Série de soirées',
+  'home.chooseNarrator':    '🎙️  Choisir le narrateur',
+  'home.recordFirstVoice':  'Enregistre ta première voix',
+  'home.active':            'Active',
+  'home.addAnotherVoice':   '+ Ajouter une autre voix',
+  'home.beginTonight':      '🪄  Commencer l’histoire du soir',
+  'home.greetingFallback':  'Bon retour ! {name} va adorer l’histoire de ce soir. On en crée une ensemble ?',
+
+  'player.loading':             'On saupoudre la poussière magique…',
+  'player.errorTitle':          'Oups, l’histoire s’est envolée !',
+  'player.createStory':         '✨ Créer une histoire',
+  'player.goBack':              '← Retour',
+  'player.header':              'Histoire du soir',
+  'player.headerFor':           'pour {name} ✨',
+  'player.previously':          'Précédemment…',
+  'player.finished':            'Terminé — touchez ▶ pour la réécouter',
+  'player.paragraphOf':         'Paragraphe {index} sur {count}',
+  'player.pages':               '📚 Pages',
+  'player.scroll':              '📜 Défiler',
+  'player.readIn':              '{flag} Lire en {language}',
+  'player.readOriginal':        '↩ Original',
+  'player.translating':         'Traduction…',
+  'player.translatedInto':      'Traduction : {language}',
+  'player.translateFailed':     'L’histoire n’a pas pu être traduite. Veuillez réessayer.',
+  'player.translateTitle':      'Échec de la traduction',
+  'player.adventureAwaits':     '✨ L’aventure t’attend…',
+  'player.adventureContinues':  'Ton aventure continue…',
+  'player.theEnd':              'Fin',
+  'player.beginQuietTime':      'Commencer le moment calme',
+  'player.quietTimeSubtitle':   'De douces questions t’attendent…',
+  'player.quietTimeTitle':      '🌟  Pensées du moment calme',
+  'player.craftingReflections': 'Préparation de tes questions…',
+  'player.reflectionFallback':  'Quel était ton passage préféré de l’histoire ?',
+  'player.sweetDreams':         'Fais de beaux rêves 🌙',
+  'player.home':                'Accueil',
+  'player.newStory':            'Nouvelle histoire',
+  'player.sounds':              'Sons',
+  'player.sleepTimer':          '⏱  Minuterie',
+
+  'library.title':             'Bibliothèque',
+  'library.searchPlaceholder': 'Dragons, Luna, celle de l’océan…',
+  'library.favourites':        '❤️ Favoris',
+  'library.interactive':       '🎯 Interactives',
+  'library.count':             '{count} histoires',
+  'library.countOne':          '1 histoire',
+  'library.countOf':           ' sur {total}',
+  'library.emptyFirst':        'Pas encore d’histoires – celle de ce soir sera la première.',
+  'library.emptyNoMatch':      'Aucune histoire ne correspond. Essayez moins de mots ou de filtres.',
+
+  'create.title':       'Créer une histoire',
+  'create.subtitle':    'De la magie du soir sur mesure ✨',
+  'create.storyFor':    'Histoire pour',
+  'create.noChild':     '+ Créez d’abord un profil enfant',
+  'create.chooseTheme': 'Choisir un thème',
+  'create.generate':    'Créer l’histoire',
+  'create.selectTheme': 'Choisissez un thème pour commencer',
+  'create.ready':       'Prêt à créer votre histoire {theme} ✨',
+  'create.writtenIn':   '{flag} Écrite en {language}',
+
+  'settings.title':            'Réglages',
+  'settings.language':         '🌍  Langue',
+  'settings.languageTitle':    'Langue de l’app',
+  'settings.languageSubtitle': 'Les histoires, la narration et l’app elle-même utilisent la langue choisie',
+  'settings.appSettings':      'Réglages de l’app',
+  'settings.family':           '✦ Famille et souvenirs',
+  'settings.support':          '🔍 Aide et statistiques',
+  'settings.account':          'Compte',
+  'settings.notifications':    'Notifications d’histoires',
+  'settings.childProfile':     'Profil enfant',
+  'settings.childProfileHint': 'Gérer les réglages de votre enfant',
+  'settings.voiceStudio':      'Studio vocal',
+  'settings.voiceStudioHint':  'Enregistrer ou mettre à jour votre voix',
+  'settings.familyHub':        'Espace famille',
+  'settings.familyHubHint':    'Relier des comptes et partager des histoires',
+  'settings.memoryBook':       'Livre de souvenirs',
+  'settings.memoryBookHint':   'Étapes et thèmes de croissance',
+  'settings.journal':          'Journal du soir',
+  'settings.journalHint':      'Voir les réponses de votre enfant',
+  'settings.shop':             'Boutique de poussière d’étoiles',
+  'settings.shopHint':         'Débloquer poussière magique et badges',
+  'settings.analytics':        'Statistiques',
+  'settings.analyticsHint':    'Narrateurs préférés et histoires terminées',
+  'settings.report':           'Signaler un problème',
+  'settings.reportHint':       'Envoyer un e-mail prérempli au support',
+  'settings.offline':          'Histoires hors ligne',
+  'settings.offlineHint':      '{count} histoires enregistrées sur l’appareil',
+  'settings.loading':          'Chargement…',
+  'settings.observatory':      'Observatoire des parents',
+  'settings.observatoryHint':  'Identité et profil Cloud Magic',
+  'settings.signOut':          'Se déconnecter',
+  'settings.deleteAccount':    'Supprimer le compte',
+  'settings.deleting':         'Suppression…',
+  'settings.madeWith':         'Fait avec 🌙 pour les petits dormeurs',
+
+  'saga.title':        'Saga d’histoires',
+  'saga.notOnDevice':  'Cette saga n’est pas encore sur cet appareil.',
+  'saga.chapterOne':   '1 chapitre',
+  'saga.chapterCount': '{count} chapitres',
+  'saga.theEnd':       'Fin',
+  'saga.storySoFar':   'L’histoire jusqu’ici',
+  'saga.characters':   'Personnages',
+  'saga.places':       'Lieux',
+  'saga.chapters':     'Chapitres',
+  'saga.noChapters':   'Aucun chapitre enregistré sur cet appareil pour l’instant.',
+  'saga.continue':     '🌙 Continuer ce soir · Chapitre {number}',
+  'saga.end':          'Terminer la saga',
+  'saga.endTitle':     'Terminer cette saga ?',
+  'saga.endMessage':   '« {title} » restera dans ta bibliothèque, mais aucun nouveau chapitre ne pourra être ajouté.',
+
+  'cast.title':                  'Personnages des histoires',
+  'cast.intro':                  'Les amis fidèles de {name}. Choisis-les en créant une histoire : ils auront la même allure et le même caractère chaque soir.',
+  'cast.yourChild':              'Ton enfant',
+  'cast.speciesLine':            'le {species}',
+  'cast.empty':                  'Pas encore de personnages récurrents.',
+  'cast.editTitle':              'Modifier le personnage',
+  'cast.newTitle':               'Nouveau personnage',
+  'cast.emoji':                  'Emoji',
+  'cast.name':                   'Nom',
+  'cast.namePlaceholder':        'Pip',
+  'cast.species':                'Espèce',
+  'cast.speciesPlaceholder':     'luciole, dragon des nuages, ours en peluche…',
+  'cast.personality':            'Personnalité',
+  'cast.personalityPlaceholder': 'Timide au début, brille plus fort quand il est content',
+  'cast.appearance':             'Apparence',
+  'cast.appearancePlaceholder':  'Minuscule, lueur ambrée, lunettes rondes vertes',
+  'cast.save':                   'Enregistrer',
+  'cast.add':                    '＋ Ajouter un personnage',
+  'cast.inventTitle':            '✨ Inventer avec Newell AI',
+  'cast.ideaPlaceholder':        'Idée facultative : une chouette endormie qui adore les cartes',
+  'cast.invent':                 'Inventer un ami',
+  'cast.full':                   'La troupe est complète ({max} personnages).',
+  'cast.inventFailedTitle':      'Pas encore de nouvel ami',
+  'cast.inventFailed':           'Newell AI n’a pas réussi à inventer un personnage. Réessaie.',
+  'cast.nameNeededTitle':        'Nom requis',
+  'cast.nameNeeded':             'Donne d’abord un nom à ton personnage.',
+  'cast.fullTitle':              'La troupe est complète',
+  'cast.fullMessage':            'Chaque enfant peut avoir jusqu’à {max} personnages récurrents.',
+  'cast.removeTitle':            'Dire au revoir à {name} ?',
+  'cast.removeMessage':          'Ce personnage n’apparaîtra plus dans les nouvelles histoires. Les histoires déjà racontées le gardent.',
+  'cast.remove':                 'Retirer',
+
+  'streak.title':            'Soirées d’histoires',
+  'streak.titleFor':         'Les soirées de {name}',
+  'streak.weekdays':         'DLMMJVS',
+  'streak.midnight':         'Minuit',
+  'streak.hour':             '{hour} h',
+  'streak.current':          'En cours',
+  'streak.longest':          'Record',
+  'streak.freezes':          'Gels',
+  'streak.pendingOne':       '❄️ 1 soirée manquée sera couverte par un gel avec l’histoire de ce soir',
+  'streak.pending':          '❄️ {count} soirées manquées seront couvertes par un gel avec l’histoire de ce soir',
+  'streak.readTonight':      '🌙 Lis une histoire ce soir pour que la série continue de briller',
+  'streak.monthNightsOne':   '1 soirée d’histoire',
+  'streak.monthNights':      '{count} soirées d’histoires',
+  'streak.storyNight':       '🔥 Soirée d’histoire',
+  'streak.frozenNight':      '❄️ Soirée gelée',
+  'streak.freezeName':       'Gel de série',
+  'streak.freezeTitle':      'Gels de série',
+  'streak.freezeText':       'Garde une série en vie malgré une soirée manquée. Jusqu’à {max} à la fois. Tu as {balance} ⭐.',
+  'streak.full':             'Complet',
+  'streak.windowTitle':      'La fenêtre du coucher se termine à',
+  'streak.windowHint':       'Les histoires avant cette heure comptent pour la veille : un coucher tardif ne casse jamais une série.',
+  'streak.buyTitle':         'Acheter un {name} ?',
+  'streak.buyMessage':       'Dépense {cost} ⭐ de poussière d’étoiles pour qu’une soirée manquée ne casse pas la série.',
+  'streak.buyFor':           'Acheter pour {cost} ⭐',
+  'streak.freezerFullTitle': 'Réserve de gels pleine',
+  'streak.freezerFull':      'Tu peux avoir jusqu’à {max} gels de série à la fois.',
+  'streak.offlineTitle':     'Impossible de joindre le coffre à poussière d’étoiles',
+  'streak.offline':          'Vérifie ta connexion et réessaie.',
+  'streak.declinedTitle':    'L’achat n’a pas abouti',
+  'streak.declined':         'Le coffre n’a pas pu vendre de gel pour cet enfant. Ta poussière d’étoiles n’a pas été dépensée.',
+  'streak.notEnoughTitle':   'Pas assez de poussière d’étoiles',
+  'streak.notEnough':        'Un gel coûte {cost} ⭐. Termine plus d’histoires pour en gagner davantage !',
+
+  'shop.title':                '✨ Boutique de poussière d’étoiles',
+  'shop.stardust':             'Poussière d’étoiles',
+  'shop.balanceHint':          'Gagne-en en terminant des histoires et des réflexions',
+  'shop.tabPlans':             '🌌 Offres galactiques',
+  'shop.tabShop':              '✨ Poussière d’étoiles',
+  'shop.tabHistory':           '📜 Historique',
+  'shop.freeStories':          '3 histoires par semaine',
+  'shop.freeNarrators':        'Narrateurs standard',
+  'shop.freeSync':             'Synchronisation cloud de base',
+  'shop.proStories':           'Histoires illimitées',
+  'shop.proNarrators':         'Narrateurs exclusifs (Seraphina la baleine étoilée)',
+  'shop.proPersonalities':     'Les 5 personnalités de narrateur IA',
+  'shop.proArt':               'Illustrations haute définition',
+  'shop.proSoundscapes':       'Ambiances sonores',
+  'shop.proStorage':           'Stockage illimité dans le Studio de voix',
+  'shop.freeTagline':          'Ton voyage commence ici.',
+  'shop.free':                 'Gratuit',
+  'shop.always':               'toujours',
+  'shop.currentPlan':          '✓ Offre actuelle',
+  'shop.mostMagical':          '✦ La plus magique',
+  'shop.proTagline':           'Débloque l’univers tout entier.',
+  'shop.perMonth':             '/mois',
+  'shop.proActive':            '✦ Galaxy-Traveler actif',
+  'shop.unlockPro':            '✦ Débloquer Galaxy-Traveler',
+  'shop.owned':                '✓ Acquis',
+  'shop.unlocked':             '✨ Débloqué',
+  'shop.purchaseFailed':       '⚠️ Échec de l’achat',
+  'shop.ok':                   'OK',
+  'shop.genericError':         'Un problème est survenu. Réessaie.',
+  'shop.restoredTitle':        '✨ Restauré',
+  'shop.restored':             'Abonnement Galaxy-Traveler restauré !',
+  'shop.noPurchaseTitle':      'Aucun achat trouvé',
+  'shop.noPurchase':           'Aucun abonnement actif à restaurer.',
+  'shop.unlockTitle':          'Débloquer {name} ?',
+  'shop.unlockMessage':        'Dépenser {cost} ⭐ de poussière d’étoiles pour débloquer « {name} » ?',
+  'shop.unlockFor':            'Débloquer pour {cost} ⭐',
+  'shop.unlockedTitle':        '✨ Débloqué !',
+  'shop.unlockedMessage':      '{emoji} {name} est maintenant à toi !',
+  'shop.offlineTitle':         'Impossible de joindre le coffre à poussière d’étoiles',
+  'shop.offline':              'Les achats ont besoin d’une connexion pour protéger ta poussière d’étoiles. Réessaie dans un instant.',
+  'shop.declinedTitle':        'L’achat n’a pas abouti',
+  'shop.declined':             'Le coffre n’a pas pu débloquer {name} pour cet enfant. Ta poussière d’étoiles n’a pas été dépensée.',
+  'shop.notEnoughTitle':       'Pas assez de poussière d’étoiles',
+  'shop.notEnough':            'Il te faut {cost} ⭐ mais tu n’as que {balance} ⭐. Termine plus d’histoires pour en gagner davantage !',
+  'shop.plansTitle':           'Étoiles premium',
+  'shop.plansSubtitle':        'Choisis ton voyage cosmique',
+  'shop.restore':              'Restaurer les achats',
+  'shop.finePrint':            'L’abonnement se renouvelle chaque mois. Résilie à tout moment dans les réglages de ton compte.',
+  'shop.earnTitle':            'Comment gagner de la ⭐ poussière d’étoiles',
+  'shop.earnStory':            'Terminer une histoire',
+  'shop.earnReflection':       'Répondre à une réflexion',
+  'shop.earnInteractive':      'Aventure interactive',
+  'shop.particlesTitle':       '✨ Couleurs de poussière magique',
+  'shop.particlesSubtitle':    'Personnalise les étincelles de tes histoires',
+  'shop.badgesTitle':          '🏅 Badges de profil',
+  'shop.badgesSubtitle':       'Montre tes aventures',
+  'shop.historyEmpty':         'Pas encore de poussière d’étoiles.\nTermine une histoire pour commencer !',
+  'shop.particleMoonbeam':     'Poussière de lune',
+  'shop.particleMoonbeamDesc': 'Douces particules bleu argenté',
+  'shop.particleSunset':       'Étincelles du couchant',
+  'shop.particleSunsetDesc':   'Chaudes particules orange et rose',
+  'shop.particleEmerald':      'Murmures d’émeraude',
+  'shop.particleEmeraldDesc':  'Poussière lumineuse vert forêt',
+  'shop.particleRainbow':      'Tourbillon arc-en-ciel',
+  'shop.particleRainbowDesc':  'Toutes les couleurs du spectre',
+  'shop.particleDragon':       'Feu de dragon',
+  'shop.particleDragonDesc':   'Ardentes étincelles pourpres',
+  'shop.badgeStar':            'Explorateur d’étoiles',
+  'shop.badgeStarDesc':        'Pour les jeunes aventuriers curieux',
+  'shop.badgeMoon':            'Rêveur de lune',
+  'shop.badgeMoonDesc':        'Pour ceux qui aiment le ciel nocturne',
+  'shop.badgeDragon':          'Dompteur de dragons',
+  'shop.badgeDragonDesc':      'Pour les conteurs les plus courageux',
+  'shop.badgeRainbow':         'Gardien de l’arc-en-ciel',
+  'shop.badgeRainbowDesc':     'Pour les collectionneurs de toutes les couleurs',
+  'shop.badgeFairy':           'Fée de la forêt',
+  'shop.badgeFairyDesc':       'Pour ceux qui entendent murmurer les arbres',
+
+  'observatory.title':                  'L’observatoire des parents',
+  'observatory.subtitle':               'Gère ton identité Cloud Magic',
+  'observatory.account':                'Compte étoilé',
+  'observatory.email':                  'E-mail',
+  'observatory.emailPlaceholder':       'ton@email.com',
+  'observatory.signOut':                '🚪 Se déconnecter de Cloud Magic',
+  'observatory.subscription':           'Abonnement',
+  'observatory.proActive':              'Pro · Actif',
+  'observatory.freePlan':               'Offre gratuite',
+  'observatory.unlockPro':              '✦ Débloquer Galaxy-Traveler →',
+  'observatory.restored':               'Galaxy-Traveler restauré !',
+  'observatory.identity':               'Identité cosmique de l’enfant',
+  'observatory.identityIntro':          '✨ Le prénom et l’âge de ton enfant sont tissés dans la magie : les narrateurs IA l’accueillent par son prénom et créent des histoires adaptées à son âge.',
+  'observatory.childName':              'Prénom de l’enfant',
+  'observatory.childNamePlaceholder':   'ex. Luna, Orion, Sage…',
+  'observatory.childAge':               'Âge de l’enfant',
+  'observatory.workshop':               'Atelier du gardien des rêves',
+  'observatory.preview':                'Aperçu du narrateur',
+  'observatory.previewGreeting':        '« Bonsoir ! {line} Es-tu prêt à commencer ? »',
+  'observatory.previewGreetingNamed':   '« Bonsoir, {name} ! {line} Es-tu prêt à commencer ? »',
+  'observatory.previewAge':             'J’ai une histoire magique parfaite pour un explorateur de {age} ans comme toi.',
+  'observatory.previewNoAge':           'J’ai une histoire magique qui n’attend que toi.',
+  'observatory.saving':                 '⏳ Enregistrement dans les étoiles…',
+  'observatory.saved':                  '✓ Enregistré dans le cosmos !',
+  'observatory.save':                   '✨ Enregistrer l’identité cosmique',
+  'observatory.safety':                 'Filtre de sécurité des histoires',
+  'observatory.safetyIntro':            'Chaque histoire, fin, question et salutation est vérifiée selon l’âge de ton enfant avant d’être affichée. Ce qui est repéré est réécrit ou retiré, et listé ici.',
+  'observatory.safetyEmpty':            '✨ Rien n’a été bloqué jusqu’ici.',
+  'observatory.clearLog':               'Effacer le journal de sécurité',
+  'observatory.clearLogMessage':        'Supprimer le relevé des passages bloqués pour cet enfant ?',
+  'observatory.clear':                  'Effacer',
+  'observatory.blocked':                '« {match} » bloqué dans : {passage}',
+  'observatory.actionSoftened':         'Réécrit en douceur',
+  'observatory.actionRegenerated':      'Remplacé par une nouvelle version',
+  'observatory.actionRemoved':          'Retiré',
+  'observatory.kindStory':              'Histoire',
+  'observatory.kindBranch':             'Fin d’aventure',
+  'observatory.kindReflection':         'Questions de réflexion',
+  'observatory.kindGreeting':           'Salutation du narrateur',
+  'observatory.kindCharacter':          'Personnage d’histoire',
+  'observatory.kindDetails':            'Titre, choix ou résumé',
+  'observatory.categoryClosingPeril':   'Danger près de la fin',
+  'observatory.categoryScaryImagery':   'Images effrayantes',
+  'observatory.categoryUnsafeActivity': 'Activité dangereuse',
+  'observatory.categoryRealNames':      'Marques et personnes réelles',
+  'observatory.categoryParentBoundary': 'Tes limites',
+  'observatory.tips':                   'Astuces Cloud Magic',
+  'observatory.tipSync':                'L’identité de ton enfant se synchronise instantanément sur tous les appareils.',
+  'observatory.tipNarrators':           'Les narrateurs IA utilisent le prénom et l’âge pour personnaliser chaque histoire.',
+  'observatory.tipGuardian':            'Les avatars de gardien sont des portraits IA uniques créés pour ton enfant.',
+  'observatory.tipVault':               'Toutes les données du profil sont chiffrées et protégées dans le cloud.',
+  'observatory.notSignedInTitle':       'Non connecté',
+  'observatory.notSignedIn':            'Connecte-toi pour enregistrer ton profil.',
+  'observatory.missingNameTitle':       'Prénom manquant',
+  'observatory.missingName':            'Saisis le prénom de ton enfant.',
+  'observatory.saveFailedTitle':        'Échec de l’enregistrement',
+  'observatory.saveFailed':             'Impossible d’enregistrer ton profil. Réessaie.',
+  'observatory.signOutTitle':           'Se déconnecter',
+  'observatory.signOutMessage':         'Veux-tu vraiment te déconnecter de Cloud Magic ?',
+  'observatory.manifesting':            'Ton gardien apparaît…',
+  'observatory.manifestingHint':        'Récolte de poussière d’étoiles dans le cosmos',
+  'observatory.dreamGuardian':          'Gardien des rêves',
+  'observatory.bonding':                '⏳ Lien avec le gardien…',
+  'observatory.commune':                '🔮 S’unir à ce gardien',
+  'observatory.regenerate':             '↺ Invoquer un autre gardien',
+  'observatory.nameRequiredTitle':      'Prénom requis',
+  'observatory.nameRequired':           'Saisis d’abord le prénom de ton enfant avant d’invoquer son gardien.',
+  'observatory.generationFailedTitle':  'Échec de la création',
+  'observatory.generationFailed':       'Les étoiles n’ont pas pu s’aligner. Réessaie.',
+  'observatory.disruptionTitle':        'Perturbation cosmique',
+  'observatory.disruption':             'Un problème est survenu en invoquant ton gardien. Réessaie.',
+  'observatory.currentGuardian':        'Gardien actuel',
+  'observatory.currentGuardianHint':    'Invoques-en un nouveau ci-dessous ✨',
+  'observatory.workshopIntro':          '🔮 Choisis un thème ci-dessous pour invoquer un gardien des rêves unique : un portrait magique créé par IA qui veille sur les rêves de ton enfant.',
+  'observatory.chooseTheme':            '✦ Choisis ton thème',
+  'observatory.summon':                 'Invoquer le gardien : {theme}',
+  'observatory.bonded':                 '✓ Ton gardien des rêves est lié et enregistré !',
+  'observatory.starKnight':             'Chevalier des étoiles',
+  'observatory.starKnightDesc':         'Noble protecteur du cosmos',
+  'observatory.moonFairy':              'Fée de la lune',
+  'observatory.moonFairyDesc':          'Douce gardienne des rêves au clair de lune',
+  'observatory.galacticOwl':            'Hibou galactique',
+  'observatory.galacticOwlDesc':        'La sagesse ancienne des étoiles',
+  'observatory.forestSprite':           'Lutin de la forêt',
+  'observatory.forestSpriteDesc':       'Gardien enchanté de la nature',
+
+  'memory.title':              'Livre des souvenirs',
+  'memory.typeFirst':          'Une première',
+  'memory.typeFavourite':      'Un favori',
+  'memory.typeMemory':         'Un souvenir',
+  'memory.stories':            'histoires',
+  'memory.seedFirstTitle':     'Première histoire du soir',
+  'memory.seedFirstText':      'Le soir où nous avons découvert ensemble la magie de StoryVoice.',
+  'memory.seedFavouriteTitle': 'Narrateur préféré choisi',
+  'memory.seedFavouriteText':  'Luna la chouette est devenue notre compagne de chaque soir.',
+  'memory.kindness':           'Gentillesse',
+  'memory.kindnessText':       'Gestes de générosité et d’attention',
+  'memory.bravery':            'Courage',
+  'memory.braveryText':        'Affronter ses peurs avec courage',
+  'memory.curiosity':          'Curiosité',
+  'memory.curiosityText':      'Émerveillement et goût d’apprendre',
+  'memory.titleNeededTitle':   'Ajoute un titre',
+  'memory.titleNeeded':        'Saisis un titre pour ce moment.',
+  'memory.chronicle':          'La chronique enluminée',
+  'memory.chronicleSubtitle':  'Un trésor de premières fois, de favoris et d’étapes',
+  'memory.tabTimeline':        '📜 Chronologie',
+  'memory.tabGrowth':          '🌱 Thèmes de croissance',
+  'memory.record':             'Noter un moment important',
+  'memory.newMilestone':       'Nouveau moment',
+  'memory.titlePlaceholder':   'Titre (ex. Première nuit complète)',
+  'memory.notePlaceholder':    'Ajoute une note… (facultatif)',
+  'memory.save':               'Enregistrer dans le livre des souvenirs',
+  'memory.emptyTitle':         'Ta chronique t’attend',
+  'memory.emptyText':          'Note les étapes, les premières fois et les moments préférés pour remplir ton livre des souvenirs.',
+  'memory.growthTitle':        'Thèmes de croissance',
+  'memory.growthSubtitle':     'Extraits par IA des histoires de ce mois : les valeurs que ton enfant absorbe.',
+  'memory.analysing':          'Analyse de tes histoires pour trouver les thèmes de croissance…',
+  'memory.insightTitle':       '💡 Pour les parents',
+  'memory.insightText':        'Ces thèmes reflètent les valeurs tissées en douceur dans chaque histoire du soir. Les histoires que tu crées façonnent la façon dont ton enfant voit le monde.',
+  'memory.refresh':            '↻  Actualiser les thèmes',
+  'memory.noStoriesTitle':     'Pas encore d’histoires',
+  'memory.noStoriesText':      'Crée quelques histoires pour voir apparaître les thèmes de croissance de vos soirées.',
+  'memory.createStory':        'Créer une histoire',
+
+  'journal.title':            'Journal du soir',
+  'journal.for':              'pour {name}',
+  'journal.tapToAnswer':      '↳ touche pour ajouter ta réponse…',
+  'journal.noteAdded':        '📝 Note ajoutée',
+  'journal.questionOne':      '1 question',
+  'journal.questions':        '{count} questions',
+  'journal.reflections':      '🌟 Réflexions du moment calme',
+  'journal.reflectionsHint':  'Questions de discussion générées par IA à partir de l’histoire de ce soir',
+  'journal.noAnswer':         'Pas encore de réponse',
+  'journal.notes':            '✍️ Tes notes',
+  'journal.notesHint':        'Pensées, observations ou souvenirs privés de ce soir',
+  'journal.notesPlaceholder': 'Écris ce que tu penses de l’histoire de {name} ce soir…',
+  'journal.saved':            '✓ Enregistré',
+  'journal.save':             '💾 Enregistrer les notes',
+  'journal.heroTitle':        'Journal privé des parents',
+  'journal.heroText':         'Les questions de réflexion de ton enfant générées par IA : une page flottante par histoire. Protégées par la Porte de cristal, rien que pour toi.',
+  'journal.stories':          'histoires',
+  'journal.reflectionCount':  'réflexions',
+  'journal.noteCount':        'notes',
+  'journal.emptyTitle':       'Pas encore d’entrées dans le journal',
+  'journal.emptyText':        'Quand ton enfant termine une histoire et que tu touches « Commencer le moment calme », des questions de réflexion générées par IA apparaissent ici comme des pages flottantes.',
+  'journal.createStory':      '✨ Créer une histoire →',
+  'journal.end':              '✦ Fin du journal ✦',
+
+  'family.title':                      'Espace famille',
+  'family.heroTitle':                  'Espace famille',
+  'family.heroText':                   'Relie les comptes de ta famille et partagez ensemble la magie de StoryVoice.',
+  'family.proBadge':                   '✨ FONCTION PRO',
+  'family.tabCreate':                  '✦ Créer un groupe',
+  'family.tabJoin':                    '🔑 Rejoindre avec un code',
+  'family.roleOwner':                  'Responsable',
+  'family.roleOwnerNoun':              'responsable',
+  'family.roleOwnerDesc':              'Gère la famille : invite et gère les membres',
+  'family.roleCoParent':               'Coparent',
+  'family.roleCoParentNoun':           'coparent',
+  'family.roleCoParentDesc':           'Crée des histoires pour les enfants et enregistre une voix',
+  'family.roleGrandparent':            'Grand-parent',
+  'family.roleGrandparentNoun':        'grand-parent',
+  'family.roleGrandparentDesc':        'Lit la bibliothèque de la famille et enregistre une voix',
+  'family.roleCaregiver':              'Nounou',
+  'family.roleCaregiverNoun':          'nounou',
+  'family.roleCaregiverDesc':          'Lit les histoires de la famille',
+  'family.groupLabel':                 'TON GROUPE FAMILIAL',
+  'family.youAre':                     'Tu es {role}',
+  'family.inviteAs':                   'INVITER QUELQU’UN EN TANT QUE',
+  'family.onePersonChip':              'Une personne',
+  'family.anyoneChip':                 'Toute personne ayant le code',
+  'family.onePerson':                  'une personne',
+  'family.anyone':                     'toute personne ayant le code',
+  'family.usedCount':                  'utilisé {count}×',
+  'family.creating':                   '✨ Création…',
+  'family.createInvite':               '✨ Créer un code d’invitation',
+  'family.copy':                       'Copier',
+  'family.shareInvite':                'Partager le code d’invitation',
+  'family.activeInvites':              'Invitations actives ({count})',
+  'family.revoke':                     'Révoquer',
+  'family.members':                    'Membres de la famille ({count})',
+  'family.joinedOn':                   'A rejoint le {date}',
+  'family.you':                        'Toi',
+  'family.manage':                     'Gérer',
+  'family.expiresSoon':                'expire dans l’heure',
+  'family.expiresHours':               'expire dans {count} h',
+  'family.expiresDays':                'expire dans {count} jours',
+  'family.voicesTitle':                '🎙️ Des voix de loin',
+  'family.voicesText':                 'Invite quelqu’un qui vit loin à enregistrer une voix pour un enfant. Tu l’écoutes d’abord : elle ne rejoint le choix des voix qu’une fois approuvée.',
+  'family.voicesNoChild':              'Ajoute d’abord un profil d’enfant pour inviter une voix pour lui.',
+  'family.voiceFor':                   'POUR',
+  'family.voiceName':                  'NOM DE LA VOIX',
+  'family.voiceNameDefault':           'Mamie',
+  'family.inviteVoice':                '💌 Inviter une voix',
+  'family.openInvitations':            'Invitations en cours ({count})',
+  'family.voiceForChild':              '{voice} pour {child}',
+  'family.waiting':                    'En attente d’approbation ({count})',
+  'family.invitedVoice':               'Voix invitée',
+  'family.forChild':                   'Pour {child}',
+  'family.readyToReview':              'prête à écouter',
+  'family.stillRecording':             'enregistrement en cours',
+  'family.stop':                       '⏹ Arrêter',
+  'family.listen':                     '▶ Écouter',
+  'family.approve':                    'Approuver',
+  'family.reject':                     'Refuser',
+  'family.activity':                   '🕰️ Activité récente',
+  'family.someone':                    'Quelqu’un',
+  'family.aMember':                    'Un membre de la famille',
+  'family.activityCreated':            '{actor} a créé la famille',
+  'family.activityJoined':             '{subject} a rejoint la famille',
+  'family.activityJoinedAs':           '{subject} a rejoint la famille en tant que {role}',
+  'family.activityLeft':               '{subject} a quitté la famille',
+  'family.activityRemoved':            '{actor} a retiré {subject}',
+  'family.activityRoleChanged':        '{subject} est maintenant {role}',
+  'family.activityRoleChangedMember':  '{subject} est maintenant membre',
+  'family.activityOwnership':          '{actor} a nommé {subject} responsable',
+  'family.activityInviteCreated':      '{actor} a créé une invitation',
+  'family.activityInviteCreatedAs':    '{actor} a créé une invitation en tant que {role}',
+  'family.activityInviteRevoked':      '{actor} a révoqué une invitation',
+  'family.activityInviteRevokedAs':    '{actor} a révoqué une invitation en tant que {role}',
+  'family.activityVoiceInvite':        '{actor} a invité quelqu’un à enregistrer une voix',
+  'family.activityVoiceApproved':      '{actor} a approuvé la voix de {subject}',
+  'family.activityVoiceApprovedYours': '{actor} a approuvé ta voix',
+  'family.activityVoiceRejected':      '{actor} a refusé la voix de {subject}',
+  'family.activityVoiceRejectedYours': '{actor} a refusé ta voix',
+  'family.sharedTitle':                '✨ Partagé avec la famille',
+  'family.benefitsTitle':              'Ce qui est partagé',
+  'family.sharedChildren':             'Profils d’enfants',
+  'family.sharedChildrenDesc':         'Chaque membre peut lire des histoires à n’importe quel profil',
+  'family.sharedVoices':               'Studio de voix',
+  'family.sharedVoicesDesc':           'Les voix enregistrées par les parents et grands-parents sont accessibles à tous',
+  'family.sharedStories':              'Bibliothèque d’histoires',
+  'family.sharedStoriesDesc':          'Toutes les histoires créées sont visibles par toute la famille ; responsables et coparents en créent de nouvelles',
+  'family.benefitChildrenDesc':        'Tout le monde lit aux mêmes profils',
+  'family.benefitVoicesDesc':          'Maman, papa et grands-parents au même endroit',
+  'family.benefitStoriesDesc':         'Toutes les histoires du soir partagées avec la famille',
+  'family.syncing':                    'Synchronisation avec la famille…',
+  'family.syncNow':                    'Synchroniser avec la famille',
+  'family.deleteGroup':                'Supprimer le groupe familial',
+  'family.leaveGroup':                 'Quitter le groupe familial',
+  'family.startTitle':                 'Crée ton groupe familial',
+  'family.startText':                  'Crée un groupe familial et invite tes proches à partager StoryVoice ensemble.',
+  'family.groupName':                  'Nom du groupe',
+  'family.groupNameDefault':           'Notre famille',
+  'family.createGroup':                '✨ Créer le groupe familial',
+  'family.joinTitle':                  'Rejoins un groupe familial',
+  'family.joinText':                   'Saisis le code d’invitation à 8 caractères du responsable de ta famille. L’invitation détermine ton rôle dans la famille.',
+  'family.inviteCode':                 'Code d’invitation',
+  'family.joining':                    '🔑 Connexion…',
+  'family.joinGroup':                  '🔑 Rejoindre le groupe familial',
+  'family.recordTitle':                '💌 Enregistrer pour une famille',
+  'family.recordText':                 'On t’a demandé d’enregistrer une voix pour le coucher ? Saisis le code d’invitation pour commencer – la famille l’entendra une fois approuvée.',
+  'family.startRecording':             '🎙️ Commencer l’enregistrement',
+  'family.errorTitle':                 'Erreur',
+  'family.notAvailableTitle':          'Indisponible',
+  'family.notAvailableGroup':          'Le partage familial nécessite une connexion à Supabase.',
+  'family.notAvailableInvites':        'Les codes d’invitation nécessitent une connexion à Supabase.',
+  'family.notAvailableVoices':         'Les invitations de voix nécessitent une connexion à Supabase.',
+  'family.createFailed':               'Impossible de créer le groupe familial. Réessaie.',
+  'family.joinFailed':                 'Impossible de rejoindre le groupe familial. Réessaie.',
+  'family.alreadyInFamilyTitle':       'Déjà dans une famille',
+  'family.alreadyInFamily':            'Quitte ton groupe familial actuel avant d’en rejoindre un autre.',
+  'family.inviteExpiredTitle':         'Invitation expirée',
+  'family.inviteExpired':              'Ce code d’invitation a expiré. Demande-en un nouveau au responsable de la famille.',
+  'family.inviteUsedTitle':            'Invitation utilisée',
+  'family.inviteUsed':                 'Ce code d’invitation a déjà été utilisé. Demande-en un nouveau au responsable de la famille.',
+  'family.invalidCodeTitle':           'Code invalide',
+  'family.invalidCode':                'Ce code d’invitation est introuvable. Vérifie-le et réessaie.',
+  'family.delete':                     'Supprimer',
+  'family.deleteText':                 'Cela retire tout le monde de {group}. Chaque membre garde ses propres enfants, voix et histoires.',
+  'family.deleteFailed':               'Impossible de supprimer le groupe familial. Réessaie.',
+  'family.ownerLeaveTitle':            'Tu es responsable de cette famille',
+  'family.ownerLeave':                 'Nomme un autre membre responsable avant de partir (touche Gérer à côté de lui), ou supprime le groupe pour tout le monde.',
+  'family.deleteGroupShort':           'Supprimer le groupe',
+  'family.leaveText':                  'Veux-tu vraiment quitter ce groupe familial ? Tu perdras l’accès partagé.',
+  'family.leave':                      'Quitter',
+  'family.leaveFailed':                'Impossible de quitter le groupe familial. Réessaie.',
+  'family.changeRole':                 'Changer de rôle',
+  'family.changeRoleText':             'Que doit pouvoir faire {name} ?',
+  'family.changeRoleFailed':           'Impossible de changer le rôle. Réessaie.',
+  'family.makeOwner':                  'Nommer responsable',
+  'family.transferTitle':              'Transférer la responsabilité',
+  'family.transferText':               '{name} gérera la famille et ses invitations. Tu resteras coparent.',
+  'family.transfer':                   'Transférer',
+  'family.transferFailed':             'Impossible de transférer la responsabilité. Réessaie.',
+  'family.remove':                     'Retirer',
+  'family.removeTitle':                'Retirer le membre',
+  'family.removeText':                 '{name} n’aura plus accès aux enfants, voix et histoires de la famille.',
+  'family.removeFailed':               'Impossible de retirer ce membre. Réessaie.',
+  'family.inviteFailed':               'Impossible de créer un code d’invitation. Réessaie.',
+  'family.revokeInviteTitle':          'Révoquer l’invitation',
+  'family.revokeText':                 'Le code {code} cessera de fonctionner immédiatement.',
+  'family.revokeInviteFailed':         'Impossible de révoquer l’invitation. Réessaie.',
+  'family.copiedTitle':                'Copié ! 📋',
+  'family.copiedText':                 'Code d’invitation « {code} » copié dans le presse-papiers.',
+  'family.shareMessage':               '✨ Rejoins {group} sur StoryVoice en tant que {role} !\n\nCode d’invitation : {code} ({expiry})\n\nTélécharge StoryVoice et saisis ce code dans l’Espace famille pour partager histoires, voix et profils d’enfants. 🌙',
+  'family.shareTitle':                 'Rejoins notre famille StoryVoice',
+  'family.shareDialog':                'Partager le code d’invitation familial',
+  'family.shareSubject':               'Rejoins notre famille StoryVoice — Code : {code}',
+  'family.yourChild':                  'ton enfant',
+  'family.voiceShareTitle':            'Enregistre une voix pour le coucher',
+  'family.voiceShareDialog':           'Partager l’invitation de voix',
+  'family.voiceShareSubject':          'Enregistre une voix pour le coucher — Code : {code}',
+  'family.voiceInviteMessage':         '🎙️ {child} aimerait beaucoup entendre ta voix au coucher !\n\nOuvre StoryVoice et enregistre quelques courts paragraphes en tant que « {voice} » – cela prend environ cinq minutes.\n\n{link}\n\nOu saisis le code {code} dans l’Espace famille. 🌙',
+  'family.voiceInviteFailed':          'Impossible de créer l’invitation. Réessaie.',
+  'family.revokeInvitationTitle':      'Révoquer l’invitation',
+  'family.revokeInvitationFailed':     'Impossible de révoquer l’invitation. Réessaie.',
+  'family.notReadyTitle':              'Pas encore prête',
+  'family.notReady':                   'Cet enregistrement est encore en cours d’envoi. Réessaie dans un moment.',
+  'family.playbackErrorTitle':         'Erreur de lecture',
+  'family.playbackError':              'Impossible de lire cet enregistrement. Réessaie.',
+  'family.reviewNotFinished':          'Cette voix est encore en cours d’enregistrement – approuve-la quand tous les paragraphes seront là.',
+  'family.reviewFailed':               'Impossible d’enregistrer ton avis. Réessaie.',
+  'family.turnDownTitle':              'Refuser la voix',
+  'family.turnDownText':               '{voice} ne sera pas ajoutée pour {child}. La personne peut l’enregistrer à nouveau pour la renvoyer à approuver.',
+  'family.thisVoice':                  'Cette voix',
+  'family.turnDown':                   'Refuser',
+  'family.invitationExpiredTitle':     'Invitation expirée',
+  'family.invitationExpired':          'Cette invitation a expiré. Demandes-en une nouvelle à la famille.',
+  'family.invitationUsedTitle':        'Invitation utilisée',
+  'family.invitationUsed':             'Quelqu’un d’autre a déjà enregistré avec cette invitation.',
+  'family.invalidInvitation':          'Ce code d’invitation est introuvable. Vérifie-le et réessaie.',
+
+  'onboarding.step':                   'Étape {step} sur 3',
+  'profile.titleAdd':                  'Ajoute un autre\npetit bout ✨',
+  'profile.title':                     'Parle-nous de\nton petit bout ✨',
+  'profile.subtitle':                  'Cela nous aide à créer des histoires qui semblent écrites rien que pour lui ou elle.',
+  'profile.name':                      'Prénom de l’enfant',
+  'profile.namePlaceholder':           'ex. Chloé, Hugo…',
+  'profile.birthday':                  'Anniversaire',
+  'profile.yearsOld':                  '{count} ans',
+  'profile.yearOld':                   '1 an',
+  'profile.themes':                    'Thèmes préférés',
+  'profile.themesNote':                ' (choisis-en autant que tu veux)',
+  'profile.optional':                  '(facultatif)',
+  'profile.lifeNotes':                 'Notes de vie',
+  'profile.lifeNotesHint':             'Quelque chose de spécial à glisser dans l’histoire de ce soir ? Une petite sœur, la rentrée, une dent qui tombe…',
+  'profile.lifeNotesPlaceholder':      'ex. « Elle a commencé la natation aujourd’hui, elle avait le trac mais a été si courageuse ! »',
+  'profile.avoid':                     'À garder hors des histoires',
+  'profile.avoidHint':                 'Sujets ou personnes que les histoires ne doivent jamais mentionner — chaque histoire est vérifiée avant d’être affichée.',
+  'profile.avoidPlaceholder':          'ex. monstres, Papi, hôpitaux',
+  'profile.fears':                     'Peurs',
+  'profile.fearsHint':                 'Ce qui lui fait peur en ce moment. Nous les laisserons complètement de côté, même en version gentille.',
+  'profile.fearsPlaceholder':          'Autre chose, ex. le bain',
+  'profile.fearDark':                  'Le noir',
+  'profile.fearMonsters':              'Les monstres',
+  'profile.fearThunder':               'Le tonnerre',
+  'profile.fearWater':                 'L’eau',
+  'profile.fearDogs':                  'Les chiens',
+  'profile.fearSpiders':               'Les araignées',
+  'profile.fearDoctors':               'Les médecins',
+  'profile.fearAlone':                 'Être seul',
+  'profile.include':                   'Toujours inclure',
+  'profile.includeHint':               'Animaux, frères et sœurs ou un doudou préféré à glisser dans chaque histoire.',
+  'profile.includePet':                '🐶 Animal',
+  'profile.includePetPlaceholder':     'ex. Biscuit le beagle',
+  'profile.includeSibling':            '👧 Frère ou sœur',
+  'profile.includeSiblingPlaceholder': 'ex. sa grande sœur Mia',
+  'profile.includeComfort':            '🧸 Doudou',
+  'profile.includeComfortPlaceholder': 'ex. Monsieur Câlin le lapin',
+  'profile.includeOther':              '💛 Quelqu’un d’autre',
+  'profile.includeOtherPlaceholder':   'ex. Mamie Rose',
+  'profile.add':                       'Ajouter',
+  'profile.saving':                    'Enregistrement…',
+  'profile.addChild':                  'Ajouter {name} ✨',
+  'profile.addChildNoName':            'Ajouter l’enfant ✨',
+  'profile.saveChanges':               'Enregistrer',
+  'profile.next':                      'Suivant : choisis une voix →',
+  'profile.sharedTitle':               'Profil partagé',
+  'profile.sharedText':                'Le profil de {name} appartient à un autre parent de ton groupe familial – lui seul peut le modifier.',
+  'profile.missingNameTitle':          'Prénom manquant',
+  'profile.missingName':               'Saisis le prénom de ton enfant.',
+  'profile.pickInterestsTitle':        'Choisis quelques centres d’intérêt',
+  'profile.pickInterests':             'Sélectionne au moins un centre d’intérêt pour personnaliser les histoires.',
+  'profile.notSignedInTitle':          'Non connecté',
+  'profile.notSignedIn':               'Connecte-toi pour continuer.',
+  'profile.addFailedTitle':            'Impossible d’ajouter l’enfant',
+  'profile.addFailed':                 'Vérifie ta connexion et réessaie.',
+  'profile.interestAnimals':           '🦁 Animaux',
+  'profile.interestSpace':             '🚀 Espace',
+  'profile.interestMagic':             '✨ Magie',
+  'profile.interestAdventure':         '🗡️ Aventure',
+  'profile.interestDragons':           '🐉 Dragons',
+  'profile.interestFairyTales':        '🧚 Contes de fées',
+  'profile.interestPirates':           '🏴‍☠️ Pirates',
+  'profile.interestScience':           '🔬 Sciences',
+  'profile.interestDinosaurs':         '🦕 Dinosaures',
+  'profile.interestSuperheroes':       '🦸 Super-héros',
+  'profile.interestOcean':             '🌊 Océan',
+  'profile.interestMountains':         '🏔️ Montagnes',
+
+  'voices.title':          'Choisis la voix\nqui lit l’histoire 🎙️',
+  'voices.subtitle':       'Ton enfant entendra son histoire préférée lue par une voix qu’il connaît et qu’il aime.',
+  'voices.mom':            'La voix de maman',
+  'voices.momDesc':        'Des histoires douces et rassurantes lues par maman. La voix qui rend tout plus sûr.',
+  'voices.dad':            'La voix de papa',
+  'voices.dadDesc':        'Des récits pleins d’aventure racontés par papa. La voix qui donne vie aux histoires.',
+  'voices.selected':       '✓ Choisie',
+  'voices.premium':        '✨ Premium',
+  'voices.premiumLocked':  '🔒 Premium',
+  'voices.addCustom':      'Ajouter une voix personnalisée',
+  'voices.addCustomDesc':  'Mamie, Papi ou tout autre proche — ajoute autant de voix que tu veux.',
+  'voices.info':           'Tu enregistreras 5 courts paragraphes. Le tout prend environ 3 minutes.',
+  'voices.settingUp':      'Préparation…',
+  'voices.record':         'Enregistrer ma voix →',
+  'voices.chooseTitle':    'Choisis une voix',
+  'voices.choose':         'Choisis la voix de maman ou de papa pour continuer.',
+  'voices.customTitle':    'Voix personnalisée',
+  'voices.customSoon':     'Les voix personnalisées arrivent bientôt !',
+  'voices.restoredTitle':  'Restauré !',
+  'voices.restored':       'Ton abonnement premium a été restauré.',
+  'voices.paywallTitle':   'Débloque les voix premium',
+  'voices.paywallText':    'Ajoute des voix personnalisées pour les grands-parents, tantes, oncles — tous ceux que ton enfant aime.',
+  'voices.featureVoices':  '🎙️ Voix personnalisées illimitées',
+  'voices.featureAdFree':  '🌙 Sans publicité',
+  'voices.featureStories': '📚 Histoires illimitées',
+  'voices.featureThemes':  '🎨 Thèmes d’histoire premium',
+  'voices.restore':        'Restaurer les achats',
+
+  'studio.title':            'Studio de voix 🎙️',
+  'studio.invitation':       '💌 Invitation',
+  'studio.subtitleInvited':  '{voice} pour {child} — lis chaque paragraphe à voix haute',
+  'studio.yourVoice':        'Ta voix',
+  'studio.theFamily':        'la famille',
+  'studio.subtitleMom':      'La voix de maman — lis chaque paragraphe à voix haute',
+  'studio.subtitleDad':      'La voix de papa — lis chaque paragraphe à voix haute',
+  'studio.subtitleCustom':   'Voix personnalisée — lis chaque paragraphe à voix haute',
+  'studio.allRecorded':      '🎉 Toutes les phrases sont enregistrées !',
+  'studio.recordToBegin':    'Enregistre la phrase {number} pour commencer',
+  'studio.phraseLeft':       'Plus qu’une phrase à enregistrer',
+  'studio.phrasesLeft':      'Encore {count} phrases à enregistrer',
+  'studio.recorded':         '✓ Enregistré',
+  'studio.stop':             'Arrêter',
+  'studio.rerecord':         'Réenregistrer',
+  'studio.record':           'Enregistrer',
+  'studio.next':             'Paragraphe suivant →',
+  'studio.tipPermission':    'L’accès au micro est nécessaire. Touche Enregistrer pour le demander.',
+  'studio.tipDone':          'Bravo ! Touche réenregistrer pour une autre prise, ou passe au paragraphe suivant.',
+  'studio.tipStart':         'Trouve un coin calme, respire et lis avec ta voix naturelle du soir.',
+  'studio.uploading':        '☁️ Envoi de ta voix…',
+  'studio.savingReady':      '✓ Enregistrement…',
+  'studio.finish':           '✨ Terminer et créer des histoires !',
+  'studio.saving':           'Enregistrement…',
+  'studio.saveProgress':     'Enregistrer la progression ({done}/{total})',
+  'studio.familyVoiceTitle': 'Voix de la famille',
+  'studio.familyVoice':      '{voice} a été enregistrée par un autre membre de ton groupe familial. Enregistre ta propre voix pour l’ajouter à la famille.',
+  'studio.thisVoice':        'Cette voix',
+  'studio.notNow':           'Pas maintenant',
+  'studio.recordMine':       'Enregistrer la mienne',
+  'studio.playOnlyTitle':    'Rôle en lecture seule',
+  'studio.playOnly':         'En tant que nounou de ton groupe familial, tu peux lire les voix de la famille. Une voix enregistrée ici reste sur ton compte et n’est pas partagée avec la famille.',
+  'studio.recordAnyway':     'Enregistrer quand même',
+  'studio.micTitle':         'Accès au micro',
+  'studio.mic':              'StoryVoice a besoin du micro pour enregistrer ta voix. Active-le dans les Réglages.',
+  'studio.ok':               'OK',
+  'studio.recordErrorTitle': 'Erreur d’enregistrement',
+  'studio.recordError':      'Impossible de démarrer l’enregistrement. Réessaie.',
+  'studio.retakeTitle':      'On réessaie celle-ci ?',
+  'studio.retake':           'Cette prise risque de ne pas sonner au mieux dans les histoires.',
+  'studio.keepIt':           'La garder',
+  'studio.almostTitle':      'Presque fini !',
+  'studio.almostOne':        'Il te reste 1 paragraphe à enregistrer. Veux-tu le terminer ?',
+  'studio.almost':           'Il te reste {count} paragraphes à enregistrer. Veux-tu les terminer ?',
+  'studio.keepRecording':    'Continuer',
+  'studio.skipFinish':       'Passer et terminer',
+  'studio.sentTitle':        'Envoyée pour approbation ✨',
+  'studio.sent':             'La famille de {child} entendra ta voix une fois qu’elle l’aura approuvée.',
+  'studio.sentNoChild':      'La famille entendra ta voix une fois qu’elle l’aura approuvée.',
+  'studio.savedTitle':       'Enregistrée pour plus tard',
+  'studio.saved':            'Rouvre l’invitation pour enregistrer les paragraphes restants.',
+  'studio.gradeGreat':       'Super prise',
+  'studio.gradeGood':        'Bonne prise',
+  'studio.gradeRetake':      'On réessaie ?',
+  'studio.issueSilence':     'On a surtout entendu du silence — rapproche un peu le téléphone et lis avec ta voix normale.',
+  'studio.issuePauses':      'Il y a eu de longues pauses — essaie de lire d’une traite.',
+  'studio.issueTooLoud':     'Ta voix était trop forte pour le micro — éloigne un peu le téléphone.',
+  'studio.issuePeaked':      'Quelques mots ont saturé — une voix du soir plus douce sonnera mieux.',
+  'studio.issueQuiet':       'C’était assez faible — parle un peu plus près du téléphone.',
+  'studio.issueNoise':       'Il y a un peu de bruit de fond — une pièce plus calme rendra ta voix plus claire.',
+  'studio.issueShort':       'Cette prise était très courte — pense à lire tout le paragraphe.',
+  'studio.issueFast':        'Un peu rapide — une lecture lente et douce marche mieux.',
+  'studio.issueLong':        'Cette prise était longue — essaie de lire sans t’arrêter.',
+
+  'create.themeAdventurous':       'Aventure',
+  'create.themeAdventurousDesc':   'Héros courageux et quêtes palpitantes',
+  'create.themeAdventurousAdj':    'd’aventure',
+  'create.themeCalming':           'Apaisant',
+  'create.themeCalmingDesc':       'Rêves paisibles et douce magie',
+  'create.themeCalmingAdj':        'apaisante',
+  'create.themeFunny':             'Drôle',
+  'create.themeFunnyDesc':         'Personnages loufoques et grands éclats de rire',
+  'create.themeFunnyAdj':          'drôle',
+  'create.themeEducational':       'Éducatif',
+  'create.themeEducationalDesc':   'Apprendre quelque chose de merveilleux',
+  'create.themeEducationalAdj':    'éducative',
+  'create.themeSubtitle':          'Quelle aventure vous attend ce soir ?',
+  'create.previewTitle':           'Une histoire {theme} pour {name}',
+  'create.previewFeaturing':       'Avec : {interests}',
+  'create.previewUnique':          'Une aventure unique et personnalisée',
+  'create.limitTitle':             'Limite de poussière d’étoiles atteinte',
+  'create.limitText':              'Vous avez utilisé les 3 histoires de la semaine du forfait Star-Seeker.',
+  'create.limitUpgradeBefore':     '✦ Passez à ',
+  'create.limitUpgradeAfter':      ' pour des histoires illimitées et des narrateurs exclusifs.',
+  'create.limitUnlock':            '🌌 Débloquer Galaxy-Traveler',
+  'create.photoPermissionTitle':   'Autorisation requise',
+  'create.photoPermission':        'Autorisez l’accès à votre photothèque pour ajouter un portrait de famille.',
+  'create.photoErrorTitle':        'Erreur',
+  'create.photoError':             'Impossible d’ouvrir la photothèque. Veuillez réessayer.',
+  'create.portraitFailedTitle':    'Échec du portrait',
+  'create.portraitFailed':         'Impossible de transformer la photo. Veuillez réessayer.',
+  'create.portraitPreparing':      'Préparation de votre portrait…',
+  'create.portraitPainting':       'L’IA peint votre portrait…',
+  'create.portraitDeveloping':     'Peinture de votre portrait…',
+  'create.portraitCaptionDefault': 'Notre petite étoile ✨',
+  'create.chooseThemeTitle':       'Choisissez un thème',
+  'create.chooseThemeText':        'Choisissez un thème avant de créer l’histoire.',
+  'create.missingChildTitle':      'Profil enfant manquant',
+  'create.missingChild':           'Créez d’abord un profil enfant.',
+  'create.sharedAs':               '{name} est partagé par votre groupe familial. En tant que {role}, vous pouvez écouter ses histoires – demandez au propriétaire de la famille si vous souhaitez en créer de nouvelles.',
+  'create.sharedMember':           'membre',
+  'create.stepGathering':          'Récolte de la poussière d’étoiles…',
+  'create.stepWeaving':            'Tissage des mots magiques…',
+  'create.stepPainting':           'Peinture du paysage de rêve…',
+  'create.stepAlmost':             'Presque prêt…',
+  'create.failedTitle':            'Échec de la création',
+  'create.failed':                 'Un problème est survenu lors de la création de votre histoire. Veuillez réessayer.',
+  'create.ok':                     'OK',
+  'create.portraitToggle':         'Portrait de famille par IA',
+  'create.portraitToggleHint':     'Transformez une photo en illustration ✨',
+  'create.pro':                    'PRO',
+  'create.on':                     'OUI',
+  'create.off':                    'NON',
+  'create.chooseArtStyle':         'Choisissez un style',
+  'create.artSpaceCaptain':        'Capitaine de l’espace',
+  'create.artBraveKnight':         'Chevalier courageux',
+  'create.artForestFairy':         'Fée de la forêt',
+  'create.artOceanExplorer':       'Explorateur des océans',
+  'create.uploadPhoto':            'Importer une photo',
+  'create.transforming':           '✨ Peinture…',
+  'create.transform':              '✨ Transformer',
+  'create.portraitCaption':        'Portrait de conte de {name}',
+  'create.portraitCaptionNoName':  'Portrait de conte',
+  'create.changePhoto':            'Changer de photo ou de style',
+  'create.interactive':            'Aventure interactive',
+  'create.interactiveOn':          '✓ L’enfant choisit la suite de l’histoire !',
+  'create.interactiveOff':         'Laissez votre enfant choisir la suite de l’histoire ✨',
+  'create.saga':                   'Saga d’histoires',
+  'create.sagaOn':                 '✓ Ce soir, c’est le chapitre suivant',
+  'create.sagaOff':                'Une aventure qui continue chaque soir 📖',
+  'create.sagaNew':                '✨ Commencer une nouvelle saga',
+  'create.sagaChip':               '📖 {title} · Ch. {chapter}',
+  'create.pictureBook':            'Livre illustré',
+  'create.pictureBookOn':          '✓ Une illustration à chaque page',
+  'create.pictureBookOff':         'Illustrez chaque paragraphe 🎨',
+  'create.castTitle':              'Qui est dans l’histoire de ce soir ?',
+  'create.castEdit':               'Modifier les personnages ›',
+  'create.castCreate':             'Créer des personnages ›',
+  'create.crafting':               'Création de votre histoire…',
+  'create.infoPersonalised':       'Personnalisé par IA',
+  'create.infoVoice':              'Avec votre voix',
+  'create.infoSleep':              'Magie du sommeil',
+  'create.warp':                   '✦  Voyage à travers la galaxie des rêves  ✦',
+
+  'player.notFound':              'Impossible de trouver l’histoire. Créons une toute nouvelle aventure !',
+  'player.empty':                 'Pas encore d’histoire — touche le bouton ci-dessous pour commencer la magie !',
+  'player.choiceFallback':        'Que devrait faire {name} ?',
+  'player.choiceSeconds':         's',
+  'player.chapterBadge':          '📖 Chapitre {count}',
+  'player.weavingNext':           'On tisse la suite…',
+  'player.weavingEnding':         'On tisse ta fin magique…',
+  'player.pathsTitle':            '🔀 Chemins explorés',
+  'player.pathTonight':           'Ce soir',
+  'player.pathNew':               'Choisir un autre chemin',
+  'player.stardustAdventure':     'Aventure interactive terminée ! 🌟',
+  'player.stardustAdventureDone': 'Aventure interactive terminée ! 🎯',
+  'player.stardustStory':         'Terminé : « {title} »',
+  'player.stardustStoryDone':     'Terminé : « {title} » 📖',
+  'player.reflectionFeel':        'Qu’as-tu ressenti pendant l’histoire ?',
+  'player.reflectionLearn':       'Qu’as-tu appris avec l’histoire de ce soir ?',
+  'player.quietTimeBreath':       'Respirez ensemble et repensez à l’histoire de ce soir…',
+  'player.journalTitle':          'Repenser au voyage de ce soir',
+  'player.journalSubtitle':       'Ouvrir le journal du soir →',
+  'player.timerSubtitle':         'Les sons s’estompent doucement et l’écran s’assombrit',
+  'player.timerFadeOver':         'Fondu sur',
+  'player.timerKeepSounds':       'Garder les ambiances sonores',
+  'player.timerKeepSoundsHint':   'Seule l’histoire s’estompe – les sons tournent jusqu’à ce que tu les arrêtes',
+  'player.timerEndAfter':         'Arrêter après',
+  'player.timerOff':              'Non',
+  'player.timerSeconds':          '{count} s',
+  'player.timerMinutes':          '{count} min',
+  'player.timerHours':            '{count} h',
+  'player.wake':                  'Touche pour réveiller',
+  'player.wakeOrStop':            'Touche pour réveiller · maintiens pour couper les sons',
+  'home.noFavourites':            'Pas encore de favoris — touche le cœur d’une histoire pour l’enregistrer ici.',
+  'home.seriesHint':              'Regroupe 2 ou 3 histoires pour un rituel du soir enchaîné',
+  'library.anyTime':              'N’importe quand',
+  'library.thisWeek':             'Cette semaine',
+  'library.thisMonth':            'Ce mois-ci',
+  'library.thisYear':             'Cette année',
+  'pdf.save':                     '📄 Enregistrer en PDF',
+  'pdf.failedTitle':              'Échec de l’export',
+  'pdf.failed':                   'Impossible d’enregistrer l’histoire en PDF. Réessaie.',
+  'pdf.yourChild':                'ton enfant',
+  'pdf.bedtimeStoryFor':          'Une histoire du soir pour {name}',
+  'pdf.familyPortrait':           'Portrait de famille',
+  'pdf.theEnd':                   '✦ Fin ✦',
+  'pdf.share':                    'Partager « {title} »',
+
+  'settings.cloudBackup':        '☁️  Sauvegarde cloud',
+  'settings.syncing':            'Synchro…',
+  'settings.syncNow':            'Synchroniser',
+  'settings.syncingToCloud':     'Synchronisation avec le cloud…',
+  'settings.legacyProtected':    '✦ Toutes les anciennes données sont protégées dans le cloud',
+  'settings.backupUpToDate':     'Sauvegarde cloud à jour',
+  'settings.syncIssues':         'La dernière synchro a rencontré des problèmes',
+  'settings.notSynced':          'Pas encore synchronisé',
+  'settings.pendingOne':         '1 modification en attente de synchro',
+  'settings.pending':            '{count} modifications en attente de synchro',
+  'settings.lastBackup':         'Dernière sauvegarde · {time}',
+  'settings.tapSyncNow':         'Touche « Synchroniser » pour sauvegarder tes histoires',
+  'settings.connectSupabase':    'Connecte Supabase pour activer la sauvegarde cloud',
+  'settings.coverageProfiles':   'Profils',
+  'settings.coverageVoices':     'Voix',
+  'settings.coverageStories':    'Histoires',
+  'settings.coverageSettings':   'Réglages',
+  'settings.migrationDone':      '✨ Magic Sync terminé — les anciennes données sont en sécurité dans le cloud',
+  'settings.justNow':            'À l’instant',
+  'settings.secondsAgo':         'il y a {count} s',
+  'settings.minutesAgo':         'il y a {count} min',
+  'settings.hoursAgo':           'il y a {count} h',
+  'settings.daysAgo':            'il y a {count} j',
+  'settings.neverSynced':        'Jamais synchronisé',
+  'settings.notSignedIn':        'Non connecté',
+  'settings.memberSince':        '⭐ Membre depuis {date}',
+  'settings.signOutText':        'Veux-tu vraiment te déconnecter ?',
+  'settings.deleteTitle':        '⚠️ Supprimer le compte',
+  'settings.deleteText':         'Ton compte et toutes les données associées, y compris les histoires, les enregistrements de voix et les profils enfants, seront définitivement supprimés. Cette action est irréversible.',
+  'settings.deleteConfirmTitle': 'En es-tu vraiment sûr ?',
+  'settings.deleteConfirm':      'Saisis « DELETE » à l’étape suivante pour confirmer.',
+  'settings.deleteEverything':   'Oui, tout supprimer',
+  'settings.deleteFailedTitle':  'Erreur',
+  'settings.deleteFailed':       'Impossible de supprimer entièrement ton compte. Contacte le support à help@storyvoice.app',
+  'settings.emailTitle':         'E-mail indisponible',
+  'settings.email':              'Écris-nous directement à support@storyvoice.app',
+  'settings.ok':                 'OK',
+  'settings.analyticsTitle':     '📊 Statistiques des histoires',
+  'settings.totalSessions':      'Sessions au total',
+  'settings.topNarrator':        'Narrateur préféré',
+  'settings.noneYet':            'Aucun pour l’instant',
+  'settings.completionRate':     'Taux d’histoires terminées',
+  'settings.narratorPopularity': 'POPULARITÉ DES NARRATEURS',
+  'settings.completionByTheme':  'TERMINÉES PAR THÈME',
+  'settings.completedOf':        '{completed}/{started} terminées',
+  'settings.offlineCache':       'CACHE HORS LIGNE',
+  'settings.storiesCached':      'Histoires en cache',
+  'settings.storiesCount':       '{count} histoires',
+  'settings.analyticsEmpty':     'Pas encore de données — crée quelques histoires et tes statistiques apparaîtront ici !',
+  'settings.signedInAs':         'CONNECTÉ EN TANT QUE',
+
+  'paywall.headline':                'Débloque les étoiles',
+  'paywall.subheadline':             'Offre à ton enfant la magie d’histoires du soir illimitées',
+  'paywall.benefitStoriesTitle':     'Histoires illimitées',
+  'paywall.benefitStories':          'Crée autant d’histoires personnalisées que tu veux, chaque soir.',
+  'paywall.benefitNarratorsTitle':   'Tous les narrateurs IA débloqués',
+  'paywall.benefitNarrators':        'Accède à Luna, Barnaby, Cosmo, Aria et Rex – les 5 compagnons du coucher.',
+  'paywall.benefitArtTitle':         'Illustrations haute définition',
+  'paywall.benefitArt':              'De superbes aquarelles en pleine résolution pour chaque histoire.',
+  'paywall.benefitSoundsTitle':      'Ambiances sonores',
+  'paywall.benefitSounds':           'Mélange des sons d’ambiance à la narration pour un endormissement parfait.',
+  'paywall.benefitCollectionsTitle': 'Collections illimitées',
+  'paywall.benefitCollections':      'Range les histoires en séries et écoute-les comme un rituel du coucher.',
+  'paywall.bestValue':               'MEILLEURE OFFRE',
+  'paywall.yearlyPlan':              'Formule annuelle',
+  'paywall.monthlyPlan':             'Formule mensuelle',
+  'paywall.allFeatures':             'Toutes les fonctionnalités, résiliable à tout moment',
+  'paywall.perDay':                  '/ jour',
+  'paywall.perDays':                 '/ {count} jours',
+  'paywall.perWeek':                 '/ semaine',
+  'paywall.perWeeks':                '/ {count} semaines',
+  'paywall.perMonth':                '/ mois',
+  'paywall.perMonths':               '/ {count} mois',
+  'paywall.perYear':                 '/ an',
+  'paywall.perYears':                '/ {count} ans',
+  'paywall.loadingPlans':            'Chargement des formules…',
+  'paywall.pending':                 'L’achat est en attente de validation. Reviens bientôt !',
+  'paywall.purchaseFailed':          'L’achat a échoué. Réessaie.',
+  'paywall.noPurchases':             'Aucun achat précédent trouvé.',
+  'paywall.restoreFailed':           'Impossible de restaurer les achats. Réessaie plus tard.',
+  'paywall.legal':                   'L’abonnement se renouvelle automatiquement. Résilie à tout moment dans les réglages de l’App Store / du Play Store.',
+  'paywall.startFor':                'Commencer pour {price}',
+  'paywall.unlock':                  'Débloquer StoryVoice Pro',
+  'paywall.restore':                 'Restaurer les achats',
+  'paywall.successTitle':            'Tu es une étoile !',
+  'paywall.success':                 'Bienvenue dans StoryVoice Pro.\nProfite de couchers magiques à l’infini ! ✨',
+  'collections.title':               '📚  Mes collections',
+  'collections.subtitle':            'Range les histoires en séries',
+  'collections.new':                 '+ Nouvelle',
+  'collections.emptyTitle':          'Pas encore de collection',
+  'collections.empty':               'Crée une collection pour regrouper des histoires en une série parfaite pour le coucher',
+  'collections.createFirst':         'Créer la première collection',
+  'collections.addStory':            '+ Ajouter une histoire à la collection',
+  'collections.newTitle':            '✨  Nouvelle collection',
+  'collections.newSubtitle':         'Regroupe des histoires pour le rituel du coucher idéal',
+  'collections.chooseIcon':          'Choisis une icône',
+  'collections.name':                'Nom de la collection',
+  'collections.namePlaceholder':     'ex. Aventures du week-end',
+  'collections.create':              'Créer la collection',
+  'collections.noStories':           'Pas encore d’histoire',
+  'collections.storyCountOne':       '1 histoire',
+  'collections.storyCount':          '{count} histoires',
+  'collections.playSeriesOne':       'Lire la série  (1 histoire)',
+  'collections.playSeries':          'Lire la série  ({count} histoires)',
+  'collections.addToPlay':           'Ajoute des histoires à lire',
+  'collections.pickerTitle':         'Ajouter une histoire',
+  'collections.added':               '✓ Ajoutée',
+  'collections.close':               'Fermer',
+  'magicSync.subtitle':              'Nous avons trouvé des créations d’avant ta connexion.\nPlace-les dans le cloud pour les garder pour toujours.',
+  'magicSync.profile':               'Profil',
+  'magicSync.storyOne':              'Histoire',
+  'magicSync.stories':               'Histoires',
+  'magicSync.voiceOne':              'Voix',
+  'magicSync.voices':                'Voix',
+  'magicSync.move':                  'Placer dans le cloud',
+  'magicSync.keepLocal':             'Garder sur l’appareil pour l’instant',
+  'magicSync.syncingTitle':          'La magie se tisse…',
+  'magicSync.syncing':               'Transfert de tes histoires vers le cloud ☁️',
+  'magicSync.successTitle':          'Magic Sync terminé !',
+  'magicSync.storedOne':             '1 élément en sécurité dans le cloud ✨',
+  'magicSync.stored':                '{count} éléments en sécurité dans le cloud ✨',
+  'magicSync.storedAll':             'Tes données sont maintenant en sécurité dans le cloud ✨',
+  'magicSync.continue':              'Voir mes histoires ›',
+  'magicSync.errorTitle':            'Synchronisation incomplète',
+  'magicSync.partial':               '{count} éléments transférés — quelques-uns n’ont pas pu l’être. Tu peux réessayer depuis les Réglages.',
+  'magicSync.offline':               'Impossible de joindre le cloud pour le moment. Tes données sont en sécurité sur l’appareil — réessaie depuis les Réglages.',
+  'mixer.title':                     '🌊  Ondes sonores',
+  'mixer.mixingOne':                 '1 couche en cours de mixage',
+  'mixer.mixing':                    '{count} couches en cours de mixage',
+  'mixer.idle':                      'Superpose des ambiances pour créer ton mix',
+  'mixer.saveMix':                   '＋ Enregistrer le mix',
+  'mixer.namePlaceholder':           'ex. Chalet sous la pluie',
+  'mixer.save':                      'Enregistrer',
+  'mixer.hint':                      'Touche un ou plusieurs sons ci-dessus pour commencer le mixage',
+  'mixer.narratorHint':              'Mélange avec la voix du narrateur pour une ambiance d’endormissement parfaite',
+  'mixer.stopAll':                   '⏹ Tout arrêter',
+  'mixer.removeTitle':               'Supprimer le mix ?',
+  'mixer.removeMessage':             '« {name} » sera retiré des mix enregistrés de cet enfant.',
+  'mixer.keep':                      'Garder',
+  'mixer.remove':                    'Supprimer',
+  'mixer.rain':                      'Pluie douce',
+  'mixer.rainDesc':                  'De douces gouttes sur un toit paisible',
+  'mixer.ocean':                     'Vagues de l’océan',
+  'mixer.oceanDesc':                 'Des marées rythmées qui bercent le rivage',
+  'mixer.forest':                    'Grillons de la forêt',
+  'mixer.forestDesc':                'Un chœur nocturne dans un bosquet au clair de lune',
+  'mixer.cosmos':                    'Bruit blanc cosmique',
+  'mixer.cosmosDesc':                'Le murmure d’un univers endormi',
+  'gate.title':                      'Vérification parentale',
+  'gate.context':                    'Petite vérification avant d’accéder à : {context}.',
+  'gate.subtitle':                   'Un petit calcul pour vérifier que tu es un adulte.',
+  'gate.whatIs':                     'Combien font',
+  'gate.placeholder':                'Ta réponse…',
+  'gate.wrong':                      'Pas tout à fait — réessaie !',
+  'gate.confirm':                    'Valider ✓',
+  'gate.addChild':                   'Ajouter un enfant',
+  'pictureBook.painting':            'Peinture de cette page…',
+  'pictureBook.later':               'Cette page sera peinte la prochaine fois',
+  'stardust.earned':                 'Poussière d’étoiles gagnée !',
+  'stardust.tapToContinue':          '✨ Touche pour continuer',
+  'narrators.title':                 '🌟 Compagnons du coucher',
+  'narrators.subtitle':              'Choisis ton narrateur IA',
+  'narrators.pro':                   'Pro',
+  'narrators.unlock':                '🔒 Débloquer',
+  'narrators.preview':               '▷ Aperçu',
+  'narrators.preparing':             '{name} prépare un extrait…',
+  'narrators.gotIt':                 '✓ Compris !',
+  'narrators.styleWhisper':          'murmure',
+  'narrators.styleWise':             'sage',
+  'narrators.styleEnthusiastic':     'enthousiaste',
+  'narrators.styleSlowPaced':        'tout en lenteur',
+  'narrators.styleDramatic':         'dramatique',
+  'narrators.lunaSpecies':           'la Chouette',
+  'narrators.lunaDesc':              'Douce, feutrée et magique',
+  'narrators.lunaTagline':           'Chaque mot, un murmure…',
+  'narrators.lunaPreview':           'Chut… laisse le clair de lune t’emporter doucement au pays des rêves…',
+  'narrators.barnabySpecies':        'l’Ours',
+  'narrators.barnabyDesc':           'Réfléchi, chaleureux et philosophe',
+  'narrators.barnabyTagline':        'Sagesse ancienne, cœur tendre',
+  'narrators.barnabyPreview':        'Il y a une grande vérité dans le calme de la nuit, petit…',
+  'narrators.cosmoSpecies':          'l’Étoile',
+  'narrators.cosmoDesc':             'Lumineux, énergique et joyeux',
+  'narrators.cosmoTagline':          'Des histoires qui pétillent et brillent !',
+  'narrators.cosmoPreview':          'Oh WAOUH ! Es-tu prêt pour l’aventure la plus INCROYABLE de tous les temps ?!',
+  'narrators.ariaSpecies':           'la Fée',
+  'narrators.ariaDesc':              'Douce, rythmée et profondément apaisante',
+  'narrators.ariaTagline':           'Dériver… lentement… vers le sommeil',
+  'narrators.ariaPreview':           'Inspire… et expire… laisse chaque mot… te porter… vers le repos…',
+  'narrators.rexSpecies':            'le Dragon',
+  'narrators.rexDesc':               'Un récit audacieux, vivant et épique',
+  'narrators.rexTagline':            'Les LÉGENDES naissent au coucher !',
+  'narrators.rexPreview':            'Au temps d’avant la mémoire, quand les montagnes étaient jeunes et que les océans chantaient…',
+  'narrators.seraphinaSpecies':      'la Baleine des étoiles',
+  'narrators.seraphinaDesc':         'Ancienne, cosmique et d’une sérénité céleste',
+  'narrators.seraphinaTagline':      'Vogue sur les vagues de poussière d’étoiles jusqu’au sommeil…',
+  'narrators.seraphinaPreview':      'Depuis les océans profonds du cosmos, je te porte sur de douces vagues étoilées… vers les rêves les plus tendres…',
+
+  'splash.tagline':              'La magie du coucher, avec ta voix',
+  'rateUs.title':                'StoryVoice te plaît ?',
+  'rateUs.subtitle':             'Ta note aide d’autres familles à découvrir la magie du coucher ! 🌙',
+  'rateUs.rate':                 '⭐ Nous noter',
+  'welcome.tagline':             'Des histoires du soir racontées avec',
+  'welcome.taglineHighlight':    'ta voix. ✨',
+  'welcome.subTagline':          'Des histoires personnalisées créées par l’IA, lues\npar la voix qu’ils aiment le plus — la tienne.',
+  'welcome.cta':                 'Crée les histoires de ton enfant',
+  'welcome.haveAccount':         'Tu as déjà un compte ?',
+  'welcome.signIn':              'Connecte-toi',
+  'walkthrough.skip':            'Passer',
+  'walkthrough.next':            'Suivant  ›',
+  'walkthrough.begin':           '✨  Commence ton voyage',
+  'walkthrough.voiceTag':        'LE STUDIO DE VOIX',
+  'walkthrough.voiceTitle':      'Ta voix.\nSes rêves.',
+  'walkthrough.voiceSubtitle':   'Racontée par la personne qu’ils aiment le plus.',
+  'walkthrough.voiceBody':       'Enregistre ta voix une seule fois et entends-toi raconter des histoires personnalisées chaque soir. Ton enfant s’endormira avec le son le plus familier et rassurant au monde — le tien.',
+  'walkthrough.aiTag':           'LE MOTEUR D’IA',
+  'walkthrough.aiTitle':         'Des histoires faites\nrien que pour eux.',
+  'walkthrough.aiSubtitle':      'Personnalisées à l’infini. Magiques sans fin.',
+  'walkthrough.aiBody':          'Notre IA tisse le prénom, l’âge, les passions et la personnalité de ton enfant dans des histoires uniques qui semblent écrites pour lui. Aucune histoire ne se ressemble.',
+  'walkthrough.playerTag':       'LE LECTEUR',
+  'walkthrough.playerTitle':     'Conçu\npour le sommeil.',
+  'walkthrough.playerSubtitle':  'Un havre de calme au coucher.',
+  'walkthrough.playerBody':      'Chaque pixel est pensé pour faciliter l’endormissement. Pas de distraction. Pas de lumière vive. Juste une lueur douce et chaude, ta voix et une histoire qui guide doucement ton enfant au pays des rêves.',
+  'cloudMagic.continue':         'Continuer →',
+  'cloudMagic.enter':            '✨ Franchir la Porte de cristal',
+  'cloudMagic.stardustTitle':    'Poussière d’étoiles synchronisée',
+  'cloudMagic.stardustSubtitle': 'Tes récompenses magiques te suivent partout',
+  'cloudMagic.stardustBody':     'Chaque cristal de poussière d’étoiles gagné se synchronise instantanément sur tous tes appareils. Reprends depuis n’importe quel écran — ta série, tes récompenses et ta progression t’attendent toujours.',
+  'cloudMagic.stardustPill':     'Synchro cloud',
+  'cloudMagic.voicesTitle':      'Les voix des parents préservées',
+  'cloudMagic.voicesSubtitle':   'Ta voix, préservée pour toujours',
+  'cloudMagic.voicesBody':       'Tes enregistrements sont sauvegardés en toute sécurité dans le coffre du cloud. Même si tu changes de téléphone, la voix préférée de ton enfant — la tienne — l’attendra toujours.',
+  'cloudMagic.voicesPill':       'Sauvegarde sécurisée',
+  'cloudMagic.storiesTitle':     'Des histoires en sécurité',
+  'cloudMagic.storiesSubtitle':  'Chaque conte, à l’abri dans les étoiles',
+  'cloudMagic.storiesBody':      'Toutes les histoires que tu crées sont chiffrées et rangées dans ta bibliothèque cosmique personnelle. Elles ne seront jamais perdues et tu peux les partager avec ta famille à travers la galaxie.',
+  'cloudMagic.storiesPill':      'Coffre à histoires',
+  'auth.gateTitle':              'La Porte de cristal',
+  'auth.welcomeBack':            'Bon retour, conteur ✨',
+  'auth.beginJourney':           'Commence ton voyage magique 🌟',
+  'auth.signInTab':              '✦ Connexion',
+  'auth.signUpTab':              '✦ Inscription',
+  'auth.email':                  'Adresse e-mail',
+  'auth.emailPlaceholder':       'toi@exemple.com',
+  'auth.password':               'Mot de passe',
+  'auth.confirmPassword':        'Confirmer le mot de passe',
+  'auth.repeatPassword':         'Répète le mot de passe',
+  'auth.forgot':                 'Mot de passe oublié ?',
+  'auth.signingIn':              'Connexion…',
+  'auth.creatingAccount':        'Création du compte…',
+  'auth.signIn':                 '✨ Se connecter',
+  'auth.createAccount':          '🌟 Créer un compte',
+  'auth.or':                     'ou',
+  'auth.google':                 'Continuer avec Google',
+  'auth.apple':                  'Continuer avec Apple',
+  'auth.noAccount':              'Pas encore de compte ? ',
+  'auth.haveAccount':            'Tu as déjà un compte ? ',
+  'auth.signUpLink':             'Inscris-toi',
+  'auth.signInLink':             'Connecte-toi',
+  'auth.verifyTitle':            'Vérifie tes e-mails !',
+  'auth.verify':                 'Nous t’avons envoyé un lien magique de vérification. Une fois confirmé, tu pourras te connecter.',
+  'auth.goToSignIn':             'Aller à la connexion',
+  'auth.missingCredentials':     'Saisis ton e-mail et ton mot de passe.',
+  'auth.passwordMismatch':       'Les mots de passe ne correspondent pas.',
+  'auth.passwordTooShort':       'Le mot de passe doit contenir au moins 6 caractères.',
+  'auth.offlineSignUp':          'Une connexion internet est nécessaire pour créer ton compte. Vérifie ta connexion et réessaie.',
+  'auth.offlineSignIn':          'Une connexion internet est nécessaire pour accéder à ton compte. Vérifie ta connexion et réessaie.',
+  'auth.offline':                'Connexion impossible. Vérifie ta connexion internet et réessaie.',
+  'auth.somethingWrong':         'Un problème est survenu. Réessaie.',
+  'auth.unavailable':            'La connexion est temporairement indisponible. Réessaie plus tard.',
+  'auth.accountExists':          'Un compte existe déjà avec cet e-mail. Essaie plutôt de te connecter.',
+  'auth.invalidCredentials':     'E-mail ou mot de passe incorrect. Réessaie.',
+  'auth.notConfirmed':           'Vérifie ton adresse e-mail avant de te connecter.',
+  'auth.rateLimited':            'Trop de tentatives. Patiente un instant et réessaie.',
+  'auth.notConfigured':          'Le service d’authentification n’est pas configuré. Contacte le support.',
+  'auth.resetTitle':             'Réinitialise ton mot de passe',
+  'auth.resetSubtitle':          'Saisis ton e-mail et nous t’enverrons\nun lien de réinitialisation sécurisé',
+  'auth.emailLabel':             'ADRESSE E-MAIL',
+  'auth.missingEmail':           'Saisis ton adresse e-mail.',
+  'auth.sending':                'Envoi…',
+  'auth.sendReset':              '📨 Envoyer le lien',
+  'auth.rememberPassword':       'Tu te souviens de ton mot de passe ? ',
+  'auth.resetSentTitle':         'Regarde ta boîte de réception !',
+  'auth.resetSent':              'Nous t’avons envoyé un lien de réinitialisation par e-mail.\nSuis-le pour créer un nouveau mot de passe.',
+  'auth.backToSignIn':           '← Retour à la connexion',
+  'ready.title':                 'Prêt pour la magie ?',
+  'ready.subtitle':              'Connecte Supabase pour débloquer toute l’expérience StoryVoice — ou lance-toi tout de suite en mode hors ligne.',
+  'ready.offlineHeader':         '✓ Disponible maintenant (mode hors ligne)',
+  'ready.cloudHeader':           '✦ Débloqué avec Supabase',
+  'ready.createStories':         'Créer des histoires',
+  'ready.createStoriesDesc':     'Création complète d’histoires, hors ligne',
+  'ready.voiceRecording':        'Enregistrement de voix',
+  'ready.voiceRecordingDesc':    'Enregistre ta voix sur l’appareil',
+  'ready.stardust':              'Récompenses en poussière d’étoiles',
+  'ready.stardustDesc':          'Gagne et dépense de la poussière d’étoiles hors ligne',
+  'ready.journal':               'Journal du coucher',
+  'ready.journalDesc':           'Garde les entrées du journal sur l’appareil',
+  'ready.cloudSync':             'Synchro cloud',
+  'ready.cloudSyncDesc':         'Accède à tes histoires sur tous tes appareils',
+  'ready.familySharing':         'Partage familial',
+  'ready.familySharingDesc':     'Partage avec ta famille',
+  'ready.backup':                'Sauvegarde sécurisée',
+  'ready.backupDesc':            'Ne perds jamais tes histoires magiques',
+  'ready.aiAccount':             'Fonctions IA du compte',
+  'ready.aiAccountDesc':         'Une IA personnalisée d’une session à l’autre',
+  'ready.howTo':                 '🔧 Comment se connecter',
+  'ready.howToBefore':           'Dans le tableau de bord du projet, touche ',
+  'ready.howToAction':           'Connect Supabase',
+  'ready.howToAfter':            ' — les variables d’environnement se synchroniseront automatiquement et la magie sera entièrement débloquée !',
+  'ready.unlockCloud':           '✨ Débloquer Cloud Magic',
+  'ready.offlineMode':           '🌙 Continuer hors ligne',
+  'ready.footnote':              'Tu peux connecter Supabase à tout moment depuis les réglages du projet',
+};
+
+const DE: Catalogue = {
+  'common.back':       '← Zurück',
+  'common.cancel':     'Abbrechen',
+  'common.done':       'Fertig',
+  'common.maybeLater': 'Vielleicht später',
+
+  'home.greeting':          'Guten Abend 🌙',
+  'home.generating':        'Wird erstellt…',
+  'home.tapToRead':         'Zum Lesen tippen ›',
+  'home.emptyTitle':        'Deine Geschichtenbibliothek',
+  'home.emptySubtitle':     'Jede Nacht wartet ein neues Abenteuer\ndarauf, nur für dich geschrieben zu werden ✨',
+  'home.firstAdventure':    'Starte dein erstes Abenteuer',
+  'home.addChild':          '＋ Kind hinzufügen',
+  'home.shared':            '👪 Geteilt',
+  'home.edit':              'Bearbeiten',
+  'home.nowNarrating':      'Erzählt gerade',
+  'home.switch':            'Wechseln ›',
+  'home.createStory':       'Neue Geschichte erstellen',
+  'home.bookshelf':         '📚 Mein Bücherregal',
+  'home.search':            '🔍 Suchen',
+  'home.sagas':             '🌙 Fortsetzungsgeschichten',
+  'home.collections':       '🗂️ Sammlungen',
+  'home.manage':            'Verwalten ›',
+  'home.createSeries':      'Reihe erstellen',
+  'home.recordVoice':       'Stimme aufnehmen',
+  'home.editProfile':       'Profil bearbeiten',
+  'home.pro':               '👑 Pro',
+  'home.storyCast':         'Figuren',
+  'home.nightStreak':       'Abendserie',
+  'home.chooseNarrator':    '🎙️  Erzähler wählen',
+  'home.recordFirstVoice':  'Nimm deine erste Stimme auf',
+  'home.active':            'Aktiv',
+  'home.addAnotherVoice':   '+ Weitere Stimme hinzufügen',
+  'home.beginTonight':      '🪄  Die Gutenachtgeschichte beginnen',
+  'home.greetingFallback':  'Willkommen zurück! {name} wird die heutige Gutenachtgeschichte lieben. Sollen wir gemeinsam eine erstellen?',
+
+  'player.loading':             'Zauberstaub wird verstreut…',
+  'player.errorTitle':          'Hoppla, die Geschichte ist davongeflogen!',
+  'player.createStory':         '✨ Geschichte erstellen',
+  'player.goBack':              '← Zurück',
+  'player.header':              'Gutenachtgeschichte',
+  'player.headerFor':           'für {name} ✨',
+  'player.previously':          'Was bisher geschah…',
+  'player.finished':            'Fertig — tippe auf ▶, um sie noch einmal zu hören',
+  'player.paragraphOf':         'Absatz {index} von {count}',
+  'player.pages':               '📚 Seiten',
+  'player.scroll':              '📜 Scrollen',
+  'player.readIn':              '{flag} Auf {language} lesen',
+  'player.readOriginal':        '↩ Original',
+  'player.translating':         'Wird übersetzt…',
+  'player.translatedInto':      'Übersetzung: {language}',
+  'player.translateFailed':     'Die Geschichte konnte nicht übersetzt werden. Bitte versuche es erneut.',
+  'player.translateTitle':      'Übersetzung fehlgeschlagen',
+  'player.adventureAwaits':     '✨ Das Abenteuer wartet…',
+  'player.adventureContinues':  'Dein Abenteuer geht weiter…',
+  'player.theEnd':              'Ende',
+  'player.beginQuietTime':      'Ruhezeit beginnen',
+  'player.quietTimeSubtitle':   'Sanfte Fragen zum Nachdenken warten…',
+  'player.quietTimeTitle':      '🌟  Gedanken zur Ruhezeit',
+  'player.craftingReflections': 'Deine Fragen werden vorbereitet…',
+  'player.reflectionFallback':  'Was war dein Lieblingsteil der Geschichte?',
+  'player.sweetDreams':         'Süße Träume 🌙',
+  'player.home':                'Start',
+  'player.newStory':            'Neue Geschichte',
+  'player.sounds':              'Klänge',
+  'player.sleepTimer':          '⏱  Schlaftimer',
+
+  'library.title':             'Geschichtenbibliothek',
+  'library.searchPlaceholder': 'Drachen, Luna, die mit dem Meer…',
+  'library.favourites':        '❤️ Favoriten',
+  'library.interactive':       '🎯 Interaktiv',
+  'library.count':             '{count} Geschichten',
+  'library.countOne':          '1 Geschichte',
+  'library.countOf':           ' von {total}',
+  'library.emptyFirst':        'Noch keine Geschichten – die heutige wird die erste.',
+  'library.emptyNoMatch':      'Keine passenden Geschichten. Versuche weniger Wörter oder Filter.',
+
+  'create.title':       'Geschichte erstellen',
+  'create.subtitle':    'Persönlicher Gutenachtzauber ✨',
+  'create.storyFor':    'Geschichte für',
+  'create.noChild':     '+ Lege zuerst ein Kinderprofil an',
+  'create.chooseTheme': 'Thema wählen',
+  'create.generate':    'Geschichte erstellen',
+  'create.selectTheme': 'Wähle oben ein Thema, um zu beginnen',
+  'create.ready':       'Bereit für deine {theme} Geschichte ✨',
+  'create.writtenIn':   '{flag} Auf {language} geschrieben',
+
+  'settings.title':            'Einstellungen',
+  'settings.language':         '🌍  Sprache',
+  'settings.languageTitle':    'App-Sprache',
+  'settings.languageSubtitle': 'Geschichten, Erzählung und die App selbst nutzen die gewählte Sprache',
+  'settings.appSettings':      'App-Einstellungen',
+  'settings.family':           '✦ Familie & Erinnerungen',
+  'settings.support':          '🔍 Hilfe & Statistiken',
+  'settings.account':          'Konto',
+  'settings.notifications':    'Geschichten-Benachrichtigungen',
+  'settings.childProfile':     'Kinderprofil',
+  'settings.childProfileHint': 'Einstellungen deines Kindes verwalten',
+  'settings.voiceStudio':      'Stimmstudio',
+  'settings.voiceStudioHint':  'Stimme aufnehmen oder aktualisieren',
+  'settings.familyHub':        'Familienbereich',
+  'settings.familyHubHint':    'Konten verknüpfen & Geschichten teilen',
+  'settings.memoryBook':       'Erinnerungsbuch',
+  'settings.memoryBookHint':   'Meilensteine & Entwicklungsthemen',
+  'settings.journal':          'Gutenacht-Tagebuch',
+  'settings.journalHint':      'Antworten deines Kindes ansehen',
+  'settings.shop':             'Sternenstaub-Laden',
+  'settings.shopHint':         'Zauberstaub & Abzeichen freischalten',
+  'settings.analytics':        'Geschichten-Statistiken',
+  'settings.analyticsHint':    'Beliebteste Erzähler & Abschlussquoten',
+  'settings.report':           'Problem melden',
+  'settings.reportHint':       'Vorausgefüllte E-Mail an den Support senden',
+  'settings.offline':          'Offline-Geschichten',
+  'settings.offlineHint':      '{count} Geschichten auf dem Gerät gespeichert',
+  'settings.loading':          'Wird geladen…',
+  'settings.observatory':      'Eltern-Observatorium',
+  'settings.observatoryHint':  'Cloud-Magic-Identität & Profil',
+  'settings.signOut':          'Abmelden',
+  'settings.deleteAccount':    'Konto löschen',
+  'settings.deleting':         'Wird gelöscht…',
+  'settings.madeWith':         'Mit 🌙 gemacht für kleine Schlafmützen',
+
+  'saga.title':        'Geschichten-Saga',
+  'saga.notOnDevice':  'Diese Saga ist noch nicht auf diesem Gerät.',
+  'saga.chapterOne':   '1 Kapitel',
+  'saga.chapterCount': '{count} Kapitel',
+  'saga.theEnd':       'Ende',
+  'saga.storySoFar':   'Die Geschichte bisher',
+  'saga.characters':   'Figuren',
+  'saga.places':       'Orte',
+  'saga.chapters':     'Kapitel',
+  'saga.noChapters':   'Noch keine Kapitel auf diesem Gerät gespeichert.',
+  'saga.continue':     '🌙 Heute Abend weiter · Kapitel {number}',
+  'saga.end':          'Saga beenden',
+  'saga.endTitle':     'Diese Saga beenden?',
+  'saga.endMessage':   '„{title}“ bleibt in deiner Bibliothek, aber es können keine neuen Kapitel mehr hinzukommen.',
+
+  'cast.title':                  'Figuren der Geschichten',
+  'cast.intro':                  '{name}s wiederkehrende Freunde. Wähle sie beim Erstellen einer Geschichte aus, und sie sehen jeden Abend gleich aus und verhalten sich gleich.',
+  'cast.yourChild':              'Dein Kind',
+  'cast.speciesLine':            'der {species}',
+  'cast.empty':                  'Noch keine wiederkehrenden Figuren.',
+  'cast.editTitle':              'Figur bearbeiten',
+  'cast.newTitle':               'Neue Figur',
+  'cast.emoji':                  'Emoji',
+  'cast.name':                   'Name',
+  'cast.namePlaceholder':        'Pip',
+  'cast.species':                'Art',
+  'cast.speciesPlaceholder':     'Glühwürmchen, Wolkendrache, Teddybär…',
+  'cast.personality':            'Persönlichkeit',
+  'cast.personalityPlaceholder': 'Anfangs schüchtern, leuchtet heller, wenn es glücklich ist',
+  'cast.appearance':             'Aussehen',
+  'cast.appearancePlaceholder':  'Winzig, bernsteinfarbenes Leuchten, runde grüne Brille',
+  'cast.save':                   'Speichern',
+  'cast.add':                    '＋ Figur hinzufügen',
+  'cast.inventTitle':            '✨ Mit Newell AI erfinden',
+  'cast.ideaPlaceholder':        'Optionale Idee: eine müde Eule, die Landkarten liebt',
+  'cast.invent':                 'Einen Freund erfinden',
+  'cast.full':                   'Die Besetzung ist voll ({max} Figuren).',
+  'cast.inventFailedTitle':      'Noch kein neuer Freund',
+  'cast.inventFailed':           'Newell AI konnte sich keine Figur ausdenken. Bitte versuche es noch einmal.',
+  'cast.nameNeededTitle':        'Name fehlt',
+  'cast.nameNeeded':             'Gib deiner Figur zuerst einen Namen.',
+  'cast.fullTitle':              'Die Besetzung ist voll',
+  'cast.fullMessage':            'Jedes Kind kann bis zu {max} wiederkehrende Figuren haben.',
+  'cast.removeTitle':            'Auf Wiedersehen zu {name} sagen?',
+  'cast.removeMessage':          'Die Figur erscheint nicht mehr in neuen Geschichten. Bereits erzählte Geschichten behalten sie.',
+  'cast.remove':                 'Entfernen',
+
+  'streak.title':            'Gute-Nacht-Abende',
+  'streak.titleFor':         '{name}s Abende',
+  'streak.weekdays':         'SMDMDFS',
+  'streak.midnight':         'Mitternacht',
+  'streak.hour':             '{hour} Uhr',
+  'streak.current':          'Aktuell',
+  'streak.longest':          'Längste',
+  'streak.freezes':          'Frostschutz',
+  'streak.pendingOne':       '❄️ 1 verpasster Abend wird mit der heutigen Geschichte durch einen Frostschutz überbrückt',
+  'streak.pending':          '❄️ {count} verpasste Abende werden mit der heutigen Geschichte durch Frostschutz überbrückt',
+  'streak.readTonight':      '🌙 Lies heute Abend eine Geschichte, damit die Serie weiterleuchtet',
+  'streak.monthNightsOne':   '1 Geschichtenabend',
+  'streak.monthNights':      '{count} Geschichtenabende',
+  'streak.storyNight':       '🔥 Geschichtenabend',
+  'streak.frozenNight':      '❄️ Eingefrorener Abend',
+  'streak.freezeName':       'Serien-Frostschutz',
+  'streak.freezeTitle':      'Serien-Frostschutz',
+  'streak.freezeText':       'Hält eine Serie trotz eines verpassten Abends am Leben. Bis zu {max} gleichzeitig. Du hast {balance} ⭐.',
+  'streak.full':             'Voll',
+  'streak.windowTitle':      'Das Schlafenszeit-Fenster endet um',
+  'streak.windowHint':       'Geschichten vor dieser Uhrzeit zählen für den Vorabend, damit spätes Zubettgehen nie eine Serie unterbricht.',
+  'streak.buyTitle':         '{name} kaufen?',
+  'streak.buyMessage':       'Gib {cost} ⭐ Sternenstaub aus, damit ein verpasster Abend die Serie nicht unterbricht.',
+  'streak.buyFor':           'Für {cost} ⭐ kaufen',
+  'streak.freezerFullTitle': 'Frostschutz-Vorrat voll',
+  'streak.freezerFull':      'Du kannst bis zu {max} Serien-Frostschutz gleichzeitig haben.',
+  'streak.offlineTitle':     'Sternenstaub-Tresor nicht erreichbar',
+  'streak.offline':          'Bitte prüfe deine Verbindung und versuche es noch einmal.',
+  'streak.declinedTitle':    'Kauf fehlgeschlagen',
+  'streak.declined':         'Der Tresor konnte für dieses Kind keinen Frostschutz verkaufen. Dein Sternenstaub wurde nicht ausgegeben.',
+  'streak.notEnoughTitle':   'Nicht genug Sternenstaub',
+  'streak.notEnough':        'Ein Frostschutz kostet {cost} ⭐. Beende mehr Geschichten, um mehr zu verdienen!',
+
+  'shop.title':                '✨ Sternenstaub-Laden',
+  'shop.stardust':             'Sternenstaub',
+  'shop.balanceHint':          'Verdiene ihn mit Geschichten und Nachdenkfragen',
+  'shop.tabPlans':             '🌌 Galaxie-Pläne',
+  'shop.tabShop':              '✨ Sternenstaub',
+  'shop.tabHistory':           '📜 Verlauf',
+  'shop.freeStories':          '3 Geschichten pro Woche',
+  'shop.freeNarrators':        'Standard-Erzähler',
+  'shop.freeSync':             'Einfache Cloud-Synchronisierung',
+  'shop.proStories':           'Unbegrenzt viele Geschichten',
+  'shop.proNarrators':         'Exklusive Erzähler (Seraphina, der Sternenwal)',
+  'shop.proPersonalities':     'Alle 5 KI-Erzählerpersönlichkeiten',
+  'shop.proArt':               'Illustrationen in hoher Auflösung',
+  'shop.proSoundscapes':       'Stimmungsvolle Klangwelten',
+  'shop.proStorage':           'Unbegrenzter Speicher im Stimmstudio',
+  'shop.freeTagline':          'Deine Reise beginnt hier.',
+  'shop.free':                 'Kostenlos',
+  'shop.always':               'immer',
+  'shop.currentPlan':          '✓ Aktueller Plan',
+  'shop.mostMagical':          '✦ Am magischsten',
+  'shop.proTagline':           'Schalte das ganze Universum frei.',
+  'shop.perMonth':             '/Monat',
+  'shop.proActive':            '✦ Galaxy-Traveler aktiv',
+  'shop.unlockPro':            '✦ Galaxy-Traveler freischalten',
+  'shop.owned':                '✓ Gehört dir',
+  'shop.unlocked':             '✨ Freigeschaltet',
+  'shop.purchaseFailed':       '⚠️ Kauf fehlgeschlagen',
+  'shop.ok':                   'OK',
+  'shop.genericError':         'Etwas ist schiefgelaufen. Bitte versuche es noch einmal.',
+  'shop.restoredTitle':        '✨ Wiederhergestellt',
+  'shop.restored':             'Galaxy-Traveler-Abo wiederhergestellt!',
+  'shop.noPurchaseTitle':      'Kein Kauf gefunden',
+  'shop.noPurchase':           'Es wurde kein aktives Abo zum Wiederherstellen gefunden.',
+  'shop.unlockTitle':          '{name} freischalten?',
+  'shop.unlockMessage':        '{cost} ⭐ Sternenstaub ausgeben, um „{name}“ freizuschalten?',
+  'shop.unlockFor':            'Für {cost} ⭐ freischalten',
+  'shop.unlockedTitle':        '✨ Freigeschaltet!',
+  'shop.unlockedMessage':      '{emoji} {name} gehört jetzt dir!',
+  'shop.offlineTitle':         'Sternenstaub-Tresor nicht erreichbar',
+  'shop.offline':              'Käufe brauchen eine Verbindung, damit dein Sternenstaub sicher bleibt. Bitte versuche es gleich noch einmal.',
+  'shop.declinedTitle':        'Kauf fehlgeschlagen',
+  'shop.declined':             'Der Tresor konnte {name} für dieses Kind nicht freischalten. Dein Sternenstaub wurde nicht ausgegeben.',
+  'shop.notEnoughTitle':       'Nicht genug Sternenstaub',
+  'shop.notEnough':            'Du brauchst {cost} ⭐, hast aber nur {balance} ⭐. Beende mehr Geschichten, um mehr zu verdienen!',
+  'shop.plansTitle':           'Premium-Sterne',
+  'shop.plansSubtitle':        'Wähle deine kosmische Reise',
+  'shop.restore':              'Käufe wiederherstellen',
+  'shop.finePrint':            'Das Abo verlängert sich monatlich. Jederzeit in deinen Kontoeinstellungen kündbar.',
+  'shop.earnTitle':            'So verdienst du ⭐ Sternenstaub',
+  'shop.earnStory':            'Eine Geschichte beenden',
+  'shop.earnReflection':       'Eine Nachdenkfrage beantworten',
+  'shop.earnInteractive':      'Interaktives Abenteuer',
+  'shop.particlesTitle':       '✨ Zauberstaub-Farben',
+  'shop.particlesSubtitle':    'Gestalte das Funkeln in deinen Geschichten',
+  'shop.badgesTitle':          '🏅 Profilabzeichen',
+  'shop.badgesSubtitle':       'Zeig deine Abenteuer',
+  'shop.historyEmpty':         'Noch kein Sternenstaub verdient.\nBeende eine Geschichte, um anzufangen!',
+  'shop.particleMoonbeam':     'Mondstrahlstaub',
+  'shop.particleMoonbeamDesc': 'Sanfte silberblaue Teilchen',
+  'shop.particleSunset':       'Sonnenuntergangsfunken',
+  'shop.particleSunsetDesc':   'Warme orange und rosa Teilchen',
+  'shop.particleEmerald':      'Smaragdflüstern',
+  'shop.particleEmeraldDesc':  'Leuchtender waldgrüner Staub',
+  'shop.particleRainbow':      'Regenbogenwirbel',
+  'shop.particleRainbowDesc':  'Alle Farben des Spektrums',
+  'shop.particleDragon':       'Drachenfeuer',
+  'shop.particleDragonDesc':   'Wilde purpurrote Glutfunken',
+  'shop.badgeStar':            'Sternenentdecker',
+  'shop.badgeStarDesc':        'Für neugierige junge Abenteurer',
+  'shop.badgeMoon':            'Mondträumer',
+  'shop.badgeMoonDesc':        'Für alle, die den Nachthimmel lieben',
+  'shop.badgeDragon':          'Drachenbändiger',
+  'shop.badgeDragonDesc':      'Für die mutigsten Erzähler',
+  'shop.badgeRainbow':         'Regenbogenwächter',
+  'shop.badgeRainbowDesc':     'Für Sammler aller Farben',
+  'shop.badgeFairy':           'Waldfee',
+  'shop.badgeFairyDesc':       'Für alle, die die Bäume flüstern hören',
+
+  'observatory.title':                  'Die Eltern-Sternwarte',
+  'observatory.subtitle':               'Verwalte deine Cloud-Magic-Identität',
+  'observatory.account':                'Sternenkonto',
+  'observatory.email':                  'E-Mail',
+  'observatory.emailPlaceholder':       'deine@email.de',
+  'observatory.signOut':                '🚪 Von Cloud Magic abmelden',
+  'observatory.subscription':           'Abo',
+  'observatory.proActive':              'Pro · Aktiv',
+  'observatory.freePlan':               'Kostenloser Plan',
+  'observatory.unlockPro':              '✦ Galaxy-Traveler freischalten →',
+  'observatory.restored':               'Galaxy-Traveler wiederhergestellt!',
+  'observatory.identity':               'Kosmische Identität des Kindes',
+  'observatory.identityIntro':          '✨ Name und Alter deines Kindes werden in die Magie eingewoben – KI-Erzähler begrüßen es mit Namen und erzählen Geschichten, die genau zu seinem Alter passen.',
+  'observatory.childName':              'Name des Kindes',
+  'observatory.childNamePlaceholder':   'z. B. Luna, Orion, Salbei…',
+  'observatory.childAge':               'Alter des Kindes',
+  'observatory.workshop':               'Traumwächter-Werkstatt',
+  'observatory.preview':                'Erzähler-Vorschau',
+  'observatory.previewGreeting':        '„Guten Abend! {line} Bist du bereit?“',
+  'observatory.previewGreetingNamed':   '„Guten Abend, {name}! {line} Bist du bereit?“',
+  'observatory.previewAge':             'Ich habe eine zauberhafte Geschichte, genau richtig für einen {age}-jährigen Entdecker wie dich.',
+  'observatory.previewNoAge':           'Eine zauberhafte Geschichte wartet nur auf dich.',
+  'observatory.saving':                 '⏳ Wird in den Sternen gespeichert…',
+  'observatory.saved':                  '✓ Im Kosmos gespeichert!',
+  'observatory.save':                   '✨ Kosmische Identität speichern',
+  'observatory.safety':                 'Sicherheitsfilter für Geschichten',
+  'observatory.safetyIntro':            'Jede Geschichte, jedes Ende, jede Frage und Begrüßung wird vor dem Anzeigen für das Alter deines Kindes geprüft. Alles Auffällige wird umgeschrieben oder entfernt und hier aufgeführt.',
+  'observatory.safetyEmpty':            '✨ Bisher wurde nichts blockiert.',
+  'observatory.clearLog':               'Sicherheitsprotokoll löschen',
+  'observatory.clearLogMessage':        'Die Liste der blockierten Passagen für dieses Kind entfernen?',
+  'observatory.clear':                  'Löschen',
+  'observatory.blocked':                '„{match}“ blockiert in: {passage}',
+  'observatory.actionSoftened':         'Sanft umgeschrieben',
+  'observatory.actionRegenerated':      'Durch eine neue Fassung ersetzt',
+  'observatory.actionRemoved':          'Entfernt',
+  'observatory.kindStory':              'Geschichte',
+  'observatory.kindBranch':             'Abenteuer-Ende',
+  'observatory.kindReflection':         'Nachdenkfragen',
+  'observatory.kindGreeting':           'Erzähler-Begrüßung',
+  'observatory.kindCharacter':          'Figur der Geschichte',
+  'observatory.kindDetails':            'Titel, Auswahl oder Rückblick',
+  'observatory.categoryClosingPeril':   'Gefahr kurz vor dem Ende',
+  'observatory.categoryScaryImagery':   'Gruselige Bilder',
+  'observatory.categoryUnsafeActivity': 'Gefährliche Aktivität',
+  'observatory.categoryRealNames':      'Echte Marken & Personen',
+  'observatory.categoryParentBoundary': 'Deine Grenzen',
+  'observatory.tips':                   'Cloud-Magic-Tipps',
+  'observatory.tipSync':                'Die Identität deines Kindes wird sofort auf allen Geräten synchronisiert.',
+  'observatory.tipNarrators':           'KI-Erzähler nutzen Name und Alter, um jede Geschichte anzupassen.',
+  'observatory.tipGuardian':            'Traumwächter-Avatare sind einzigartige KI-Porträts, nur für dein Kind erstellt.',
+  'observatory.tipVault':               'Alle Profildaten sind verschlüsselt und in der Cloud geschützt.',
+  'observatory.notSignedInTitle':       'Nicht angemeldet',
+  'observatory.notSignedIn':            'Bitte melde dich an, um dein Profil zu speichern.',
+  'observatory.missingNameTitle':       'Name fehlt',
+  'observatory.missingName':            'Bitte gib den Namen deines Kindes ein.',
+  'observatory.saveFailedTitle':        'Speichern fehlgeschlagen',
+  'observatory.saveFailed':             'Dein Profil konnte nicht gespeichert werden. Bitte versuche es noch einmal.',
+  'observatory.signOutTitle':           'Abmelden',
+  'observatory.signOutMessage':         'Möchtest du dich wirklich von Cloud Magic abmelden?',
+  'observatory.manifesting':            'Dein Wächter erscheint…',
+  'observatory.manifestingHint':        'Sternenstaub wird im Kosmos gesammelt',
+  'observatory.dreamGuardian':          'Traumwächter',
+  'observatory.bonding':                '⏳ Verbindung mit dem Wächter…',
+  'observatory.commune':                '🔮 Mit diesem Wächter verbinden',
+  'observatory.regenerate':             '↺ Einen anderen Wächter rufen',
+  'observatory.nameRequiredTitle':      'Name erforderlich',
+  'observatory.nameRequired':           'Bitte gib zuerst den Namen deines Kindes ein, bevor du seinen Wächter rufst.',
+  'observatory.generationFailedTitle':  'Erstellung fehlgeschlagen',
+  'observatory.generationFailed':       'Die Sterne konnten sich nicht ausrichten. Bitte versuche es noch einmal.',
+  'observatory.disruptionTitle':        'Kosmische Störung',
+  'observatory.disruption':             'Beim Rufen deines Wächters ist etwas schiefgelaufen. Bitte versuche es noch einmal.',
+  'observatory.currentGuardian':        'Aktueller Wächter',
+  'observatory.currentGuardianHint':    'Rufe unten einen neuen ✨',
+  'observatory.workshopIntro':          '🔮 Wähle unten ein Thema, um einen einzigartigen Traumwächter zu rufen – ein zauberhaftes KI-Porträt, das über die Träume deines Kindes wacht.',
+  'observatory.chooseTheme':            '✦ Wähle dein Thema',
+  'observatory.summon':                 'Wächter rufen: {theme}',
+  'observatory.bonded':                 '✓ Dein Traumwächter ist verbunden und gespeichert!',
+  'observatory.starKnight':             'Sternenritter',
+  'observatory.starKnightDesc':         'Edler Beschützer des Kosmos',
+  'observatory.moonFairy':              'Mondfee',
+  'observatory.moonFairyDesc':          'Sanfte Hüterin mondheller Träume',
+  'observatory.galacticOwl':            'Galaktische Eule',
+  'observatory.galacticOwlDesc':        'Uralte Weisheit der Sterne',
+  'observatory.forestSprite':           'Waldgeist',
+  'observatory.forestSpriteDesc':       'Verzauberter Hüter der Natur',
+
+  'memory.title':              'Erinnerungsbuch',
+  'memory.typeFirst':          'Ein erstes Mal',
+  'memory.typeFavourite':      'Ein Liebling',
+  'memory.typeMemory':         'Eine Erinnerung',
+  'memory.stories':            'Geschichten',
+  'memory.seedFirstTitle':     'Erste Gute-Nacht-Geschichte',
+  'memory.seedFirstText':      'Der Abend, an dem wir gemeinsam den Zauber von StoryVoice entdeckt haben.',
+  'memory.seedFavouriteTitle': 'Lieblingserzähler gewählt',
+  'memory.seedFavouriteText':  'Luna die Eule wurde unsere abendliche Begleiterin.',
+  'memory.kindness':           'Freundlichkeit',
+  'memory.kindnessText':       'Großzügigkeit und Fürsorge',
+  'memory.bravery':            'Mut',
+  'memory.braveryText':        'Ängsten mutig begegnen',
+  'memory.curiosity':          'Neugier',
+  'memory.curiosityText':      'Staunen und Freude am Lernen',
+  'memory.titleNeededTitle':   'Titel hinzufügen',
+  'memory.titleNeeded':        'Bitte gib einen Titel für diesen Meilenstein ein.',
+  'memory.chronicle':          'Die illuminierte Chronik',
+  'memory.chronicleSubtitle':  'Eine Schatzkammer voller erster Male, Lieblinge & Meilensteine',
+  'memory.tabTimeline':        '📜 Zeitleiste',
+  'memory.tabGrowth':          '🌱 Wachstumsthemen',
+  'memory.record':             'Meilenstein festhalten',
+  'memory.newMilestone':       'Neuer Meilenstein',
+  'memory.titlePlaceholder':   'Titel (z. B. Erste Nacht durchgeschlafen)',
+  'memory.notePlaceholder':    'Notiz hinzufügen… (optional)',
+  'memory.save':               'Im Erinnerungsbuch speichern',
+  'memory.emptyTitle':         'Deine Chronik wartet',
+  'memory.emptyText':          'Halte Meilensteine, erste Male und Lieblingsmomente fest, um dein Erinnerungsbuch zu füllen.',
+  'memory.growthTitle':        'Wachstumsthemen',
+  'memory.growthSubtitle':     'Per KI aus den Geschichten dieses Monats gewonnen – die Werte, die dein Kind aufnimmt.',
+  'memory.analysing':          'Deine Geschichten werden nach Wachstumsthemen durchsucht…',
+  'memory.insightTitle':       '💡 Für Eltern',
+  'memory.insightText':        'Diese Themen spiegeln die Werte wider, die sanft in jede Gute-Nacht-Geschichte eingewoben werden. Die Geschichten, die du erstellst, prägen, wie dein Kind die Welt sieht.',
+  'memory.refresh':            '↻  Themen aktualisieren',
+  'memory.noStoriesTitle':     'Noch keine Geschichten',
+  'memory.noStoriesText':      'Erstelle ein paar Geschichten, um die Wachstumsthemen eurer Gute-Nacht-Abende zu sehen.',
+  'memory.createStory':        'Geschichte erstellen',
+
+  'journal.title':            'Gute-Nacht-Tagebuch',
+  'journal.for':              'für {name}',
+  'journal.tapToAnswer':      '↳ tippen, um deine Antwort hinzuzufügen…',
+  'journal.noteAdded':        '📝 Notiz hinzugefügt',
+  'journal.questionOne':      '1 Frage',
+  'journal.questions':        '{count} Fragen',
+  'journal.reflections':      '🌟 Nachdenkfragen der Ruhezeit',
+  'journal.reflectionsHint':  'KI-erstellte Gesprächsfragen zur heutigen Geschichte',
+  'journal.noAnswer':         'Noch keine Antwort',
+  'journal.notes':            '✍️ Deine Notizen',
+  'journal.notesHint':        'Private Gedanken, Beobachtungen oder Erinnerungen an heute Abend',
+  'journal.notesPlaceholder': 'Schreib deine Gedanken zu {name}s Geschichte von heute Abend…',
+  'journal.saved':            '✓ Gespeichert',
+  'journal.save':             '💾 Notizen speichern',
+  'journal.heroTitle':        'Privates Eltern-Tagebuch',
+  'journal.heroText':         'Die KI-erstellten Nachdenkfragen deines Kindes – eine schwebende Seite pro Geschichte. Geschützt durch das Kristalltor, nur für dich.',
+  'journal.stories':          'Geschichten',
+  'journal.reflectionCount':  'Antworten',
+  'journal.noteCount':        'Notizen',
+  'journal.emptyTitle':       'Noch keine Tagebucheinträge',
+  'journal.emptyText':        'Wenn dein Kind eine Geschichte beendet und du auf „Ruhezeit beginnen“ tippst, erscheinen hier KI-erstellte Nachdenkfragen als schwebende Tagebuchseiten.',
+  'journal.createStory':      '✨ Geschichte erstellen →',
+  'journal.end':              '✦ Ende des Tagebuchs ✦',
+
+  'family.title':                      'Familien-Hub',
+  'family.heroTitle':                  'Familien-Hub',
+  'family.heroText':                   'Verbinde die Konten deiner Familie und teilt gemeinsam den Zauber von StoryVoice.',
+  'family.proBadge':                   '✨ PRO-FUNKTION',
+  'family.tabCreate':                  '✦ Gruppe erstellen',
+  'family.tabJoin':                    '🔑 Mit Code beitreten',
+  'family.roleOwner':                  'Verwalter',
+  'family.roleOwnerNoun':              'Verwalter',
+  'family.roleOwnerDesc':              'Leitet die Familie: lädt Mitglieder ein und verwaltet sie',
+  'family.roleCoParent':               'Elternteil',
+  'family.roleCoParentNoun':           'Elternteil',
+  'family.roleCoParentDesc':           'Erstellt Geschichten für die Kinder und nimmt eine Stimme auf',
+  'family.roleGrandparent':            'Großelternteil',
+  'family.roleGrandparentNoun':        'Großelternteil',
+  'family.roleGrandparentDesc':        'Liest die Familienbibliothek und nimmt eine Stimme auf',
+  'family.roleCaregiver':              'Betreuungsperson',
+  'family.roleCaregiverNoun':          'Betreuungsperson',
+  'family.roleCaregiverDesc':          'Spielt die Geschichten der Familie ab',
+  'family.groupLabel':                 'DEINE FAMILIENGRUPPE',
+  'family.youAre':                     'Du bist {role}',
+  'family.inviteAs':                   'JEMANDEN EINLADEN ALS',
+  'family.onePersonChip':              'Eine Person',
+  'family.anyoneChip':                 'Alle mit dem Code',
+  'family.onePerson':                  'eine Person',
+  'family.anyone':                     'alle mit dem Code',
+  'family.usedCount':                  '{count}× benutzt',
+  'family.creating':                   '✨ Wird erstellt…',
+  'family.createInvite':               '✨ Einladungscode erstellen',
+  'family.copy':                       'Kopieren',
+  'family.shareInvite':                'Einladungscode teilen',
+  'family.activeInvites':              'Aktive Einladungen ({count})',
+  'family.revoke':                     'Widerrufen',
+  'family.members':                    'Familienmitglieder ({count})',
+  'family.joinedOn':                   'Beigetreten am {date}',
+  'family.you':                        'Du',
+  'family.manage':                     'Verwalten',
+  'family.expiresSoon':                'läuft innerhalb einer Stunde ab',
+  'family.expiresHours':               'läuft in {count} Std. ab',
+  'family.expiresDays':                'läuft in {count} Tagen ab',
+  'family.voicesTitle':                '🎙️ Stimmen aus der Ferne',
+  'family.voicesText':                 'Lade jemanden, der weit weg wohnt, ein, eine Stimme für ein Kind aufzunehmen. Du hörst sie dir zuerst an – erst nach deiner Freigabe erscheint sie in der Stimmauswahl.',
+  'family.voicesNoChild':              'Lege zuerst ein Kinderprofil an, um eine Stimme dafür einzuladen.',
+  'family.voiceFor':                   'FÜR',
+  'family.voiceName':                  'NAME DER STIMME',
+  'family.voiceNameDefault':           'Oma',
+  'family.inviteVoice':                '💌 Eine Stimme einladen',
+  'family.openInvitations':            'Offene Einladungen ({count})',
+  'family.voiceForChild':              '{voice} für {child}',
+  'family.waiting':                    'Warten auf Freigabe ({count})',
+  'family.invitedVoice':               'Eingeladene Stimme',
+  'family.forChild':                   'Für {child}',
+  'family.readyToReview':              'bereit zur Prüfung',
+  'family.stillRecording':             'wird noch aufgenommen',
+  'family.stop':                       '⏹ Stopp',
+  'family.listen':                     '▶ Anhören',
+  'family.approve':                    'Freigeben',
+  'family.reject':                     'Ablehnen',
+  'family.activity':                   '🕰️ Letzte Aktivitäten',
+  'family.someone':                    'Jemand',
+  'family.aMember':                    'Ein Familienmitglied',
+  'family.activityCreated':            '{actor} hat die Familie gegründet',
+  'family.activityJoined':             '{subject} ist beigetreten',
+  'family.activityJoinedAs':           '{subject} ist als {role} beigetreten',
+  'family.activityLeft':               '{subject} hat die Familie verlassen',
+  'family.activityRemoved':            '{actor} hat {subject} entfernt',
+  'family.activityRoleChanged':        '{subject} ist jetzt {role}',
+  'family.activityRoleChangedMember':  '{subject} ist jetzt Mitglied',
+  'family.activityOwnership':          '{actor} hat {subject} zum Verwalter gemacht',
+  'family.activityInviteCreated':      '{actor} hat eine Einladung erstellt',
+  'family.activityInviteCreatedAs':    '{actor} hat eine Einladung als {role} erstellt',
+  'family.activityInviteRevoked':      '{actor} hat eine Einladung widerrufen',
+  'family.activityInviteRevokedAs':    '{actor} hat eine Einladung als {role} widerrufen',
+  'family.activityVoiceInvite':        '{actor} hat jemanden eingeladen, eine Stimme aufzunehmen',
+  'family.activityVoiceApproved':      '{actor} hat die Stimme von {subject} freigegeben',
+  'family.activityVoiceApprovedYours': '{actor} hat deine Stimme freigegeben',
+  'family.activityVoiceRejected':      '{actor} hat die Stimme von {subject} abgelehnt',
+  'family.activityVoiceRejectedYours': '{actor} hat deine Stimme abgelehnt',
+  'family.sharedTitle':                '✨ Mit der Familie geteilt',
+  'family.benefitsTitle':              'Was geteilt wird',
+  'family.sharedChildren':             'Kinderprofile',
+  'family.sharedChildrenDesc':         'Alle Familienmitglieder können jedem Profil Geschichten vorlesen',
+  'family.sharedVoices':               'Stimmstudio',
+  'family.sharedVoicesDesc':           'Von Eltern und Großeltern aufgenommene Stimmen stehen allen zur Verfügung',
+  'family.sharedStories':              'Geschichtenbibliothek',
+  'family.sharedStoriesDesc':          'Alle erstellten Geschichten sind für die ganze Familie sichtbar; Verwalter und Elternteile erstellen neue',
+  'family.benefitChildrenDesc':        'Alle lesen denselben Profilen vor',
+  'family.benefitVoicesDesc':          'Mama, Papa & Großeltern an einem Ort',
+  'family.benefitStoriesDesc':         'Alle Gute-Nacht-Geschichten mit der Familie geteilt',
+  'family.syncing':                    'Wird mit der Familie synchronisiert…',
+  'family.syncNow':                    'Jetzt mit der Familie synchronisieren',
+  'family.deleteGroup':                'Familiengruppe löschen',
+  'family.leaveGroup':                 'Familiengruppe verlassen',
+  'family.startTitle':                 'Gründe deine Familiengruppe',
+  'family.startText':                  'Erstelle eine Familiengruppe und lade deine Liebsten ein, StoryVoice gemeinsam zu nutzen.',
+  'family.groupName':                  'Gruppenname',
+  'family.groupNameDefault':           'Unsere Familie',
+  'family.createGroup':                '✨ Familiengruppe erstellen',
+  'family.joinTitle':                  'Einer Familiengruppe beitreten',
+  'family.joinText':                   'Gib den 8-stelligen Einladungscode vom Verwalter deiner Familie ein. Die Einladung bestimmt deine Rolle in der Familie.',
+  'family.inviteCode':                 'Einladungscode',
+  'family.joining':                    '🔑 Trete bei…',
+  'family.joinGroup':                  '🔑 Familiengruppe beitreten',
+  'family.recordTitle':                '💌 Für eine Familie aufnehmen',
+  'family.recordText':                 'Wurdest du gebeten, eine Gute-Nacht-Stimme aufzunehmen? Gib den Einladungscode ein, um zu starten – die Familie hört sie nach der Freigabe.',
+  'family.startRecording':             '🎙️ Aufnahme starten',
+  'family.errorTitle':                 'Fehler',
+  'family.notAvailableTitle':          'Nicht verfügbar',
+  'family.notAvailableGroup':          'Familienfreigabe benötigt eine Supabase-Verbindung.',
+  'family.notAvailableInvites':        'Einladungscodes benötigen eine Supabase-Verbindung.',
+  'family.notAvailableVoices':         'Stimmeinladungen benötigen eine Supabase-Verbindung.',
+  'family.createFailed':               'Die Familiengruppe konnte nicht erstellt werden. Bitte versuche es noch einmal.',
+  'family.joinFailed':                 'Beitritt zur Familiengruppe fehlgeschlagen. Bitte versuche es noch einmal.',
+  'family.alreadyInFamilyTitle':       'Schon in einer Familie',
+  'family.alreadyInFamily':            'Verlasse deine aktuelle Familiengruppe, bevor du einer anderen beitrittst.',
+  'family.inviteExpiredTitle':         'Einladung abgelaufen',
+  'family.inviteExpired':              'Dieser Einladungscode ist abgelaufen. Bitte den Verwalter der Familie um einen neuen.',
+  'family.inviteUsedTitle':            'Einladung benutzt',
+  'family.inviteUsed':                 'Dieser Einladungscode wurde schon benutzt. Bitte den Verwalter der Familie um einen neuen.',
+  'family.invalidCodeTitle':           'Ungültiger Code',
+  'family.invalidCode':                'Dieser Einladungscode wurde nicht gefunden. Bitte prüfe ihn und versuche es noch einmal.',
+  'family.delete':                     'Löschen',
+  'family.deleteText':                 'Damit werden alle aus {group} entfernt. Jedes Mitglied behält seine eigenen Kinder, Stimmen und Geschichten.',
+  'family.deleteFailed':               'Die Familiengruppe konnte nicht gelöscht werden. Bitte versuche es noch einmal.',
+  'family.ownerLeaveTitle':            'Du verwaltest diese Familie',
+  'family.ownerLeave':                 'Mach ein anderes Mitglied zum Verwalter, bevor du gehst (tippe daneben auf Verwalten), oder lösche die Gruppe für alle.',
+  'family.deleteGroupShort':           'Gruppe löschen',
+  'family.leaveText':                  'Möchtest du diese Familiengruppe wirklich verlassen? Du verlierst den gemeinsamen Zugriff.',
+  'family.leave':                      'Verlassen',
+  'family.leaveFailed':                'Die Familiengruppe konnte nicht verlassen werden. Bitte versuche es noch einmal.',
+  'family.changeRole':                 'Rolle ändern',
+  'family.changeRoleText':             'Was soll {name} tun dürfen?',
+  'family.changeRoleFailed':           'Die Rolle konnte nicht geändert werden. Bitte versuche es noch einmal.',
+  'family.makeOwner':                  'Zum Verwalter machen',
+  'family.transferTitle':              'Verwaltung übertragen',
+  'family.transferText':               '{name} verwaltet dann die Familie und ihre Einladungen. Du bleibst als Elternteil dabei.',
+  'family.transfer':                   'Übertragen',
+  'family.transferFailed':             'Die Verwaltung konnte nicht übertragen werden. Bitte versuche es noch einmal.',
+  'family.remove':                     'Entfernen',
+  'family.removeTitle':                'Mitglied entfernen',
+  'family.removeText':                 '{name} verliert den Zugriff auf die Kinder, Stimmen und Geschichten der Familie.',
+  'family.removeFailed':               'Dieses Mitglied konnte nicht entfernt werden. Bitte versuche es noch einmal.',
+  'family.inviteFailed':               'Der Einladungscode konnte nicht erstellt werden. Bitte versuche es noch einmal.',
+  'family.revokeInviteTitle':          'Einladung widerrufen',
+  'family.revokeText':                 'Der Code {code} funktioniert ab sofort nicht mehr.',
+  'family.revokeInviteFailed':         'Die Einladung konnte nicht widerrufen werden. Bitte versuche es noch einmal.',
+  'family.copiedTitle':                'Kopiert! 📋',
+  'family.copiedText':                 'Einladungscode „{code}“ in die Zwischenablage kopiert.',
+  'family.shareMessage':               '✨ Tritt {group} auf StoryVoice als {role} bei!\n\nEinladungscode: {code} ({expiry})\n\nLade StoryVoice herunter und gib diesen Code im Familien-Hub ein, um Geschichten, Stimmen und Kinderprofile zu teilen. 🌙',
+  'family.shareTitle':                 'Tritt unserer StoryVoice-Familie bei',
+  'family.shareDialog':                'Familien-Einladungscode teilen',
+  'family.shareSubject':               'Tritt unserer StoryVoice-Familie bei — Code: {code}',
+  'family.yourChild':                  'dein Kind',
+  'family.voiceShareTitle':            'Nimm eine Gute-Nacht-Stimme auf',
+  'family.voiceShareDialog':           'Stimmeinladung teilen',
+  'family.voiceShareSubject':          'Nimm eine Gute-Nacht-Stimme auf — Code: {code}',
+  'family.voiceInviteMessage':         '🎙️ {child} würde deine Stimme so gern zur Schlafenszeit hören!\n\nÖffne StoryVoice und nimm ein paar kurze Absätze als „{voice}“ auf – das dauert etwa fünf Minuten.\n\n{link}\n\nOder gib den Code {code} im Familien-Hub ein. 🌙',
+  'family.voiceInviteFailed':          'Die Einladung konnte nicht erstellt werden. Bitte versuche es noch einmal.',
+  'family.revokeInvitationTitle':      'Einladung widerrufen',
+  'family.revokeInvitationFailed':     'Die Einladung konnte nicht widerrufen werden. Bitte versuche es noch einmal.',
+  'family.notReadyTitle':              'Noch nicht bereit',
+  'family.notReady':                   'Diese Aufnahme wird noch hochgeladen. Versuche es gleich noch einmal.',
+  'family.playbackErrorTitle':         'Wiedergabefehler',
+  'family.playbackError':              'Diese Aufnahme konnte nicht abgespielt werden. Bitte versuche es noch einmal.',
+  'family.reviewNotFinished':          'Diese Stimme wird noch aufgenommen – gib sie frei, sobald alle Absätze da sind.',
+  'family.reviewFailed':               'Deine Prüfung konnte nicht gespeichert werden. Bitte versuche es noch einmal.',
+  'family.turnDownTitle':              'Stimme ablehnen',
+  'family.turnDownText':               '{voice} wird für {child} nicht hinzugefügt. Sie kann erneut aufgenommen und wieder zur Freigabe geschickt werden.',
+  'family.thisVoice':                  'Diese Stimme',
+  'family.turnDown':                   'Ablehnen',
+  'family.invitationExpiredTitle':     'Einladung abgelaufen',
+  'family.invitationExpired':          'Diese Einladung ist abgelaufen. Bitte die Familie um eine neue.',
+  'family.invitationUsedTitle':        'Einladung benutzt',
+  'family.invitationUsed':             'Jemand anderes hat mit dieser Einladung schon aufgenommen.',
+  'family.invalidInvitation':          'Dieser Einladungscode wurde nicht gefunden. Bitte prüfe ihn und versuche es noch einmal.',
+
+  'onboarding.step':                   'Schritt {step} von 3',
+  'profile.titleAdd':                  'Noch ein\nkleiner Schatz ✨',
+  'profile.title':                     'Erzähl uns von\ndeinem kleinen Schatz ✨',
+  'profile.subtitle':                  'So schreiben wir Geschichten, die sich anfühlen, als wären sie nur für dein Kind gemacht.',
+  'profile.name':                      'Name des Kindes',
+  'profile.namePlaceholder':           'z. B. Sophie, Paul…',
+  'profile.birthday':                  'Geburtstag',
+  'profile.yearsOld':                  '{count} Jahre alt',
+  'profile.yearOld':                   '1 Jahr alt',
+  'profile.themes':                    'Lieblingsthemen',
+  'profile.themesNote':                ' (wähle so viele du magst)',
+  'profile.optional':                  '(optional)',
+  'profile.lifeNotes':                 'Lebensnotizen',
+  'profile.lifeNotesHint':             'Etwas Besonderes für die Geschichte heute Abend? Eine neue kleine Schwester, der erste Schultag, ein Wackelzahn…',
+  'profile.lifeNotesPlaceholder':      'z. B. „Sie hatte heute ihre erste Schwimmstunde, war nervös, aber so mutig!“',
+  'profile.avoid':                     'Nicht in Geschichten',
+  'profile.avoidHint':                 'Themen oder Personen, die Geschichten nie erwähnen sollen – jede Geschichte wird vor dem Anzeigen geprüft.',
+  'profile.avoidPlaceholder':          'z. B. Monster, Opa, Krankenhäuser',
+  'profile.fears':                     'Ängste',
+  'profile.fearsHint':                 'Was deinem Kind gerade Angst macht. Wir lassen es ganz weg, auch in freundlicher Form.',
+  'profile.fearsPlaceholder':          'Etwas anderes, z. B. das Baden',
+  'profile.fearDark':                  'Die Dunkelheit',
+  'profile.fearMonsters':              'Monster',
+  'profile.fearThunder':               'Donner',
+  'profile.fearWater':                 'Wasser',
+  'profile.fearDogs':                  'Hunde',
+  'profile.fearSpiders':               'Spinnen',
+  'profile.fearDoctors':               'Ärzte',
+  'profile.fearAlone':                 'Alleinsein',
+  'profile.include':                   'Immer dabei',
+  'profile.includeHint':               'Haustiere, Geschwister oder ein Lieblingskuscheltier für jede Geschichte.',
+  'profile.includePet':                '🐶 Haustier',
+  'profile.includePetPlaceholder':     'z. B. Keks, der Beagle',
+  'profile.includeSibling':            '👧 Geschwister',
+  'profile.includeSiblingPlaceholder': 'z. B. die große Schwester Mia',
+  'profile.includeComfort':            '🧸 Kuscheltier',
+  'profile.includeComfortPlaceholder': 'z. B. Hase Herr Knuddel',
+  'profile.includeOther':              '💛 Jemand anderes',
+  'profile.includeOtherPlaceholder':   'z. B. Oma Rosa',
+  'profile.add':                       'Hinzufügen',
+  'profile.saving':                    'Wird gespeichert…',
+  'profile.addChild':                  '{name} hinzufügen ✨',
+  'profile.addChildNoName':            'Kind hinzufügen ✨',
+  'profile.saveChanges':               'Änderungen speichern',
+  'profile.next':                      'Weiter: Stimme wählen →',
+  'profile.sharedTitle':               'Geteiltes Profil',
+  'profile.sharedText':                'Das Profil von {name} gehört einem anderen Elternteil in deiner Familiengruppe – nur diese Person kann es ändern.',
+  'profile.missingNameTitle':          'Name fehlt',
+  'profile.missingName':               'Bitte gib den Namen deines Kindes ein.',
+  'profile.pickInterestsTitle':        'Wähle ein paar Interessen',
+  'profile.pickInterests':             'Wähle mindestens ein Interesse, um die Geschichten anzupassen.',
+  'profile.notSignedInTitle':          'Nicht angemeldet',
+  'profile.notSignedIn':               'Bitte melde dich an, um fortzufahren.',
+  'profile.addFailedTitle':            'Kind konnte nicht hinzugefügt werden',
+  'profile.addFailed':                 'Bitte prüfe deine Verbindung und versuche es noch einmal.',
+  'profile.interestAnimals':           '🦁 Tiere',
+  'profile.interestSpace':             '🚀 Weltraum',
+  'profile.interestMagic':             '✨ Magie',
+  'profile.interestAdventure':         '🗡️ Abenteuer',
+  'profile.interestDragons':           '🐉 Drachen',
+  'profile.interestFairyTales':        '🧚 Märchen',
+  'profile.interestPirates':           '🏴‍☠️ Piraten',
+  'profile.interestScience':           '🔬 Wissenschaft',
+  'profile.interestDinosaurs':         '🦕 Dinosaurier',
+  'profile.interestSuperheroes':       '🦸 Superhelden',
+  'profile.interestOcean':             '🌊 Ozean',
+  'profile.interestMountains':         '🏔️ Berge',
+
+  'voices.title':          'Wähle, wessen\nStimme vorliest 🎙️',
+  'voices.subtitle':       'Dein Kind hört seine Lieblingsgeschichte mit einer Stimme, die es kennt und liebt.',
+  'voices.mom':            'Mamas Stimme',
+  'voices.momDesc':        'Warme, tröstende Geschichten, gelesen von Mama. Die Stimme, bei der sich alles sicher anfühlt.',
+  'voices.dad':            'Papas Stimme',
+  'voices.dadDesc':        'Abenteuerliche Geschichten, erzählt von Papa. Die Stimme, die Geschichten lebendig macht.',
+  'voices.selected':       '✓ Ausgewählt',
+  'voices.premium':        '✨ Premium',
+  'voices.premiumLocked':  '🔒 Premium',
+  'voices.addCustom':      'Eigene Stimme hinzufügen',
+  'voices.addCustomDesc':  'Oma, Opa oder ein anderer lieber Mensch – füge so viele Stimmen hinzu, wie du magst.',
+  'voices.info':           'Du nimmst 5 kurze Absätze auf. Das Ganze dauert etwa 3 Minuten.',
+  'voices.settingUp':      'Wird eingerichtet…',
+  'voices.record':         'Meine Stimme aufnehmen →',
+  'voices.chooseTitle':    'Wähle eine Stimme',
+  'voices.choose':         'Bitte wähle Mamas oder Papas Stimme, um fortzufahren.',
+  'voices.customTitle':    'Eigene Stimme',
+  'voices.customSoon':     'Eigene Stimmen kommen bald!',
+  'voices.restoredTitle':  'Wiederhergestellt!',
+  'voices.restored':       'Dein Premium-Abo wurde wiederhergestellt.',
+  'voices.paywallTitle':   'Premium-Stimmen freischalten',
+  'voices.paywallText':    'Füge eigene Stimmen für Großeltern, Tanten, Onkel hinzu – alle, die dein Kind lieb hat.',
+  'voices.featureVoices':  '🎙️ Unbegrenzt eigene Stimmen',
+  'voices.featureAdFree':  '🌙 Werbefrei',
+  'voices.featureStories': '📚 Unbegrenzt Geschichten',
+  'voices.featureThemes':  '🎨 Premium-Geschichtenthemen',
+  'voices.restore':        'Käufe wiederherstellen',
+
+  'studio.title':            'Stimmstudio 🎙️',
+  'studio.invitation':       '💌 Einladung',
+  'studio.subtitleInvited':  '{voice} für {child} – lies jeden Absatz laut vor',
+  'studio.yourVoice':        'Deine Stimme',
+  'studio.theFamily':        'die Familie',
+  'studio.subtitleMom':      'Mamas Stimme – lies jeden Absatz laut vor',
+  'studio.subtitleDad':      'Papas Stimme – lies jeden Absatz laut vor',
+  'studio.subtitleCustom':   'Eigene Stimme – lies jeden Absatz laut vor',
+  'studio.allRecorded':      '🎉 Alle Sätze aufgenommen!',
+  'studio.recordToBegin':    'Nimm Satz {number} auf, um zu beginnen',
+  'studio.phraseLeft':       'Noch 1 Satz aufzunehmen',
+  'studio.phrasesLeft':      'Noch {count} Sätze aufzunehmen',
+  'studio.recorded':         '✓ Aufgenommen',
+  'studio.stop':             'Stopp',
+  'studio.rerecord':         'Neu aufnehmen',
+  'studio.record':           'Aufnehmen',
+  'studio.next':             'Nächster Absatz →',
+  'studio.tipPermission':    'Mikrofonzugriff nötig. Tippe auf Aufnehmen, um ihn anzufragen.',
+  'studio.tipDone':          'Super! Tippe auf Neu aufnehmen für einen weiteren Versuch oder geh zum nächsten Absatz.',
+  'studio.tipStart':         'Such dir einen ruhigen Ort, atme durch und lies mit deiner natürlichen Gute-Nacht-Stimme.',
+  'studio.uploading':        '☁️ Deine Stimme wird hochgeladen…',
+  'studio.savingReady':      '✓ Wird gespeichert…',
+  'studio.finish':           '✨ Fertig & Geschichten erstellen!',
+  'studio.saving':           'Wird gespeichert…',
+  'studio.saveProgress':     'Fortschritt speichern ({done}/{total} fertig)',
+  'studio.familyVoiceTitle': 'Familienstimme',
+  'studio.familyVoice':      '{voice} wurde von einem anderen Mitglied deiner Familiengruppe aufgenommen. Nimm deine eigene Stimme auf, um sie der Familie hinzuzufügen.',
+  'studio.thisVoice':        'Diese Stimme',
+  'studio.notNow':           'Nicht jetzt',
+  'studio.recordMine':       'Meine aufnehmen',
+  'studio.playOnlyTitle':    'Nur-Abspielen-Rolle',
+  'studio.playOnly':         'Als Betreuungsperson in deiner Familiengruppe kannst du die Stimmen der Familie abspielen. Eine hier aufgenommene Stimme bleibt in deinem Konto und wird nicht mit der Familie geteilt.',
+  'studio.recordAnyway':     'Trotzdem aufnehmen',
+  'studio.micTitle':         'Mikrofonzugriff',
+  'studio.mic':              'StoryVoice braucht Zugriff auf das Mikrofon, um deine Stimme aufzunehmen. Bitte aktiviere ihn in den Einstellungen.',
+  'studio.ok':               'OK',
+  'studio.recordErrorTitle': 'Aufnahmefehler',
+  'studio.recordError':      'Die Aufnahme konnte nicht gestartet werden. Bitte versuche es noch einmal.',
+  'studio.retakeTitle':      'Sollen wir das noch mal versuchen?',
+  'studio.retake':           'Diese Aufnahme klingt in Geschichten vielleicht nicht optimal.',
+  'studio.keepIt':           'Behalten',
+  'studio.almostTitle':      'Fast geschafft!',
+  'studio.almostOne':        'Du hast noch 1 Absatz aufzunehmen. Möchtest du ihn fertig aufnehmen?',
+  'studio.almost':           'Du hast noch {count} Absätze aufzunehmen. Möchtest du sie fertig aufnehmen?',
+  'studio.keepRecording':    'Weiter aufnehmen',
+  'studio.skipFinish':       'Überspringen & fertig',
+  'studio.sentTitle':        'Zur Freigabe gesendet ✨',
+  'studio.sent':             'Die Familie von {child} hört deine Stimme, sobald sie sie freigibt.',
+  'studio.sentNoChild':      'Die Familie hört deine Stimme, sobald sie sie freigibt.',
+  'studio.savedTitle':       'Für später gespeichert',
+  'studio.saved':            'Öffne die Einladung erneut, um die restlichen Absätze aufzunehmen.',
+  'studio.gradeGreat':       'Tolle Aufnahme',
+  'studio.gradeGood':        'Gute Aufnahme',
+  'studio.gradeRetake':      'Noch mal?',
+  'studio.issueSilence':     'Wir haben fast nur Stille gehört – halte das Handy etwas näher und lies in deiner normalen Stimme.',
+  'studio.issuePauses':      'Es gab lange Pausen – versuche, am Stück zu lesen.',
+  'studio.issueTooLoud':     'Deine Stimme war zu laut für das Mikrofon – halte das Handy etwas weiter weg.',
+  'studio.issuePeaked':      'Ein paar Wörter waren übersteuert – eine sanftere Gute-Nacht-Stimme klingt runder.',
+  'studio.issueQuiet':       'Das war ziemlich leise – sprich etwas näher am Handy.',
+  'studio.issueNoise':       'Es gibt etwas Hintergrundgeräusch – in einem ruhigeren Raum klingt deine Stimme klarer.',
+  'studio.issueShort':       'Die Aufnahme war sehr kurz – lies bitte den ganzen Absatz.',
+  'studio.issueFast':        'Etwas schnell – langsames, schläfriges Lesen klingt am besten.',
+  'studio.issueLong':        'Die Aufnahme war lang – versuche, ohne Unterbrechung zu lesen.',
+
+  'create.themeAdventurous':       'Abenteuer',
+  'create.themeAdventurousDesc':   'Mutige Helden & spannende Abenteuer',
+  'create.themeAdventurousAdj':    'abenteuerliche',
+  'create.themeCalming':           'Beruhigend',
+  'create.themeCalmingDesc':       'Friedliche Träume & sanfte Magie',
+  'create.themeCalmingAdj':        'beruhigende',
+  'create.themeFunny':             'Lustig',
+  'create.themeFunnyDesc':         'Alberne Figuren & viel Gelächter',
+  'create.themeFunnyAdj':          'lustige',
+  'create.themeEducational':       'Lehrreich',
+  'create.themeEducationalDesc':   'Etwas Wunderbares lernen',
+  'create.themeEducationalAdj':    'lehrreiche',
+  'create.themeSubtitle':          'Welches Abenteuer wartet heute Nacht?',
+  'create.previewTitle':           'Eine {theme} Geschichte für {name}',
+  'create.previewFeaturing':       'Mit dabei: {interests}',
+  'create.previewUnique':          'Ein einzigartiges, persönliches Abenteuer',
+  'create.limitTitle':             'Sternenstaub-Limit erreicht',
+  'create.limitText':              'Du hast alle 3 Geschichten dieser Woche im Star-Seeker-Tarif genutzt.',
+  'create.limitUpgradeBefore':     '✦ Wechsle zu ',
+  'create.limitUpgradeAfter':      ' für unbegrenzt viele Geschichten und exklusive Erzähler.',
+  'create.limitUnlock':            '🌌 Galaxy-Traveler freischalten',
+  'create.photoPermissionTitle':   'Berechtigung erforderlich',
+  'create.photoPermission':        'Bitte erlaube den Zugriff auf deine Fotomediathek, um ein Familienporträt hinzuzufügen.',
+  'create.photoErrorTitle':        'Fehler',
+  'create.photoError':             'Die Fotomediathek konnte nicht geöffnet werden. Bitte versuche es noch einmal.',
+  'create.portraitFailedTitle':    'Porträt fehlgeschlagen',
+  'create.portraitFailed':         'Das Foto konnte nicht umgewandelt werden. Bitte versuche es noch einmal.',
+  'create.portraitPreparing':      'Dein Porträt wird vorbereitet…',
+  'create.portraitPainting':       'Die KI malt dein Porträt…',
+  'create.portraitDeveloping':     'Dein Porträt wird gemalt…',
+  'create.portraitCaptionDefault': 'Unser kleiner Stern ✨',
+  'create.chooseThemeTitle':       'Wähle ein Thema',
+  'create.chooseThemeText':        'Bitte wähle ein Thema, bevor die Geschichte erstellt wird.',
+  'create.missingChildTitle':      'Kinderprofil fehlt',
+  'create.missingChild':           'Bitte lege zuerst ein Kinderprofil an.',
+  'create.sharedAs':               '{name} wird von deiner Familiengruppe geteilt. Als {role} kannst du die Geschichten abspielen – frag den Familienbesitzer, wenn du neue erstellen möchtest.',
+  'create.sharedMember':           'Mitglied',
+  'create.stepGathering':          'Sternenstaub wird gesammelt…',
+  'create.stepWeaving':            'Zauberworte werden gewoben…',
+  'create.stepPainting':           'Die Traumlandschaft wird gemalt…',
+  'create.stepAlmost':             'Fast fertig…',
+  'create.failedTitle':            'Erstellen fehlgeschlagen',
+  'create.failed':                 'Beim Erstellen deiner Geschichte ist etwas schiefgelaufen. Bitte versuche es noch einmal.',
+  'create.ok':                     'OK',
+  'create.portraitToggle':         'KI-Familienporträt',
+  'create.portraitToggleHint':     'Verwandle ein Foto in Märchenkunst ✨',
+  'create.pro':                    'PRO',
+  'create.on':                     'AN',
+  'create.off':                    'AUS',
+  'create.chooseArtStyle':         'Kunststil wählen',
+  'create.artSpaceCaptain':        'Weltraumkapitän',
+  'create.artBraveKnight':         'Tapferer Ritter',
+  'create.artForestFairy':         'Waldfee',
+  'create.artOceanExplorer':       'Ozeanforscher',
+  'create.uploadPhoto':            'Foto hochladen',
+  'create.transforming':           '✨ Wird gemalt…',
+  'create.transform':              '✨ Verwandeln',
+  'create.portraitCaption':        'Märchenporträt von {name}',
+  'create.portraitCaptionNoName':  'Märchenporträt',
+  'create.changePhoto':            'Foto oder Stil ändern',
+  'create.interactive':            'Interaktives Abenteuer',
+  'create.interactiveOn':          '✓ Dein Kind wählt den Weg der Geschichte!',
+  'create.interactiveOff':         'Lass dein Kind den Weg der Geschichte wählen ✨',
+  'create.saga':                   'Geschichten-Saga',
+  'create.sagaOn':                 '✓ Heute Abend kommt das nächste Kapitel',
+  'create.sagaOff':                'Ein Abenteuer, das jede Nacht weitergeht 📖',
+  'create.sagaNew':                '✨ Neue Saga beginnen',
+  'create.sagaChip':               '📖 {title} · Kap. {chapter}',
+  'create.pictureBook':            'Bilderbuch',
+  'create.pictureBookOn':          '✓ Ein Bild für jede Seite',
+  'create.pictureBookOff':         'Jeden Absatz illustrieren 🎨',
+  'create.castTitle':              'Wer ist heute in der Geschichte dabei?',
+  'create.castEdit':               'Figuren bearbeiten ›',
+  'create.castCreate':             'Figuren anlegen ›',
+  'create.crafting':               'Deine Geschichte entsteht…',
+  'create.infoPersonalised':       'KI-personalisiert',
+  'create.infoVoice':              'Mit deiner Stimme',
+  'create.infoSleep':              'Schlafzauber',
+  'create.warp':                   '✦  Reise durch die Traumgalaxie  ✦',
+
+  'player.notFound':              'Die Geschichte wurde nicht gefunden. Lass uns ein ganz neues Abenteuer erschaffen!',
+  'player.empty':                 'Noch keine Geschichte – tippe unten auf den Knopf, damit der Zauber beginnt!',
+  'player.choiceFallback':        'Was soll {name} tun?',
+  'player.choiceSeconds':         'Sek.',
+  'player.chapterBadge':          '📖 Kapitel {count}',
+  'player.weavingNext':           'Die Fortsetzung wird gewoben…',
+  'player.weavingEnding':         'Dein magisches Ende wird gewoben…',
+  'player.pathsTitle':            '🔀 Erkundete Wege',
+  'player.pathTonight':           'Heute',
+  'player.pathNew':               'Einen anderen Weg wählen',
+  'player.stardustAdventure':     'Interaktives Abenteuer geschafft! 🌟',
+  'player.stardustAdventureDone': 'Interaktives Abenteuer geschafft! 🎯',
+  'player.stardustStory':         '„{title}“ beendet',
+  'player.stardustStoryDone':     '„{title}“ beendet 📖',
+  'player.reflectionFeel':        'Wie hast du dich bei der Geschichte gefühlt?',
+  'player.reflectionLearn':       'Was hast du aus der Geschichte heute gelernt?',
+  'player.quietTimeBreath':       'Atmet gemeinsam durch und denkt an die Geschichte von heute Abend…',
+  'player.journalTitle':          'Über die Reise von heute nachdenken',
+  'player.journalSubtitle':       'Zum Gutenacht-Tagebuch →',
+  'player.timerSubtitle':         'Die Klänge verklingen sanft und der Bildschirm wird dunkel',
+  'player.timerFadeOver':         'Ausblenden über',
+  'player.timerKeepSounds':       'Klangwelten weiterspielen',
+  'player.timerKeepSoundsHint':   'Nur die Geschichte wird leiser – die Klänge laufen, bis du sie stoppst',
+  'player.timerEndAfter':         'Beenden nach',
+  'player.timerOff':              'Aus',
+  'player.timerSeconds':          '{count} Sek.',
+  'player.timerMinutes':          '{count} Min.',
+  'player.timerHours':            '{count} Std.',
+  'player.wake':                  'Tippen zum Aufwecken',
+  'player.wakeOrStop':            'Tippen zum Aufwecken · halten, um die Klänge zu stoppen',
+  'home.noFavourites':            'Noch keine Favoriten – tippe bei einer Geschichte aufs Herz, um sie hier zu speichern.',
+  'home.seriesHint':              'Fasse 2–3 Geschichten zu einem durchgehenden Abendritual zusammen',
+  'library.anyTime':              'Jederzeit',
+  'library.thisWeek':             'Diese Woche',
+  'library.thisMonth':            'Diesen Monat',
+  'library.thisYear':             'Dieses Jahr',
+  'pdf.save':                     '📄 Als PDF speichern',
+  'pdf.failedTitle':              'Export fehlgeschlagen',
+  'pdf.failed':                   'Die Geschichte konnte nicht als PDF gespeichert werden. Bitte versuche es noch einmal.',
+  'pdf.yourChild':                'dein Kind',
+  'pdf.bedtimeStoryFor':          'Eine Gutenachtgeschichte für {name}',
+  'pdf.familyPortrait':           'Familienporträt',
+  'pdf.theEnd':                   '✦ Ende ✦',
+  'pdf.share':                    '„{title}“ teilen',
+
+  'settings.cloudBackup':        '☁️  Cloud-Backup',
+  'settings.syncing':            'Synchronisiert',
+  'settings.syncNow':            'Jetzt synchronisieren',
+  'settings.syncingToCloud':     'Wird mit der Cloud synchronisiert…',
+  'settings.legacyProtected':    '✦ Alle älteren Daten sind in der Cloud geschützt',
+  'settings.backupUpToDate':     'Cloud-Backup ist aktuell',
+  'settings.syncIssues':         'Bei der letzten Synchronisierung gab es Probleme',
+  'settings.notSynced':          'Noch nicht synchronisiert',
+  'settings.pendingOne':         '1 Änderung wartet auf Synchronisierung',
+  'settings.pending':            '{count} Änderungen warten auf Synchronisierung',
+  'settings.lastBackup':         'Letztes Backup · {time}',
+  'settings.tapSyncNow':         'Tippe auf „Jetzt synchronisieren“, um deine Geschichten zu sichern',
+  'settings.connectSupabase':    'Verbinde Supabase, um das Cloud-Backup zu aktivieren',
+  'settings.coverageProfiles':   'Profile',
+  'settings.coverageVoices':     'Stimmen',
+  'settings.coverageStories':    'Geschichten',
+  'settings.coverageSettings':   'Einstellungen',
+  'settings.migrationDone':      '✨ Magic Sync abgeschlossen – ältere Daten sicher in der Cloud',
+  'settings.justNow':            'Gerade eben',
+  'settings.secondsAgo':         'vor {count} Sek.',
+  'settings.minutesAgo':         'vor {count} Min.',
+  'settings.hoursAgo':           'vor {count} Std.',
+  'settings.daysAgo':            'vor {count} T.',
+  'settings.neverSynced':        'Nie synchronisiert',
+  'settings.notSignedIn':        'Nicht angemeldet',
+  'settings.memberSince':        '⭐ Mitglied seit {date}',
+  'settings.signOutText':        'Möchtest du dich wirklich abmelden?',
+  'settings.deleteTitle':        '⚠️ Konto löschen',
+  'settings.deleteText':         'Dein Konto und alle zugehörigen Daten, einschließlich Geschichten, Sprachaufnahmen und Kinderprofilen, werden dauerhaft gelöscht. Das kann nicht rückgängig gemacht werden.',
+  'settings.deleteConfirmTitle': 'Bist du dir ganz sicher?',
+  'settings.deleteConfirm':      'Gib im nächsten Schritt „DELETE“ ein, um zu bestätigen.',
+  'settings.deleteEverything':   'Ja, alles löschen',
+  'settings.deleteFailedTitle':  'Fehler',
+  'settings.deleteFailed':       'Dein Konto konnte nicht vollständig gelöscht werden. Bitte wende dich an help@storyvoice.app',
+  'settings.emailTitle':         'E-Mail nicht verfügbar',
+  'settings.email':              'Bitte schreib uns direkt an support@storyvoice.app',
+  'settings.ok':                 'OK',
+  'settings.analyticsTitle':     '📊 Geschichten-Statistik',
+  'settings.totalSessions':      'App-Sitzungen insgesamt',
+  'settings.topNarrator':        'Lieblingserzähler',
+  'settings.noneYet':            'Noch keiner',
+  'settings.completionRate':     'Abschlussquote',
+  'settings.narratorPopularity': 'BELIEBTESTE ERZÄHLER',
+  'settings.completionByTheme':  'ABSCHLUSS NACH THEMA',
+  'settings.completedOf':        '{completed}/{started} beendet',
+  'settings.offlineCache':       'OFFLINE-SPEICHER',
+  'settings.storiesCached':      'Gespeicherte Geschichten',
+  'settings.storiesCount':       '{count} Geschichten',
+  'settings.analyticsEmpty':     'Noch keine Daten – erstelle ein paar Geschichten, dann erscheint deine Statistik hier!',
+  'settings.signedInAs':         'ANGEMELDET ALS',
+
+  'paywall.headline':                'Schalte die Sterne frei',
+  'paywall.subheadline':             'Schenke deinem Kind die Magie unbegrenzter Gutenachtgeschichten',
+  'paywall.benefitStoriesTitle':     'Unbegrenzt Geschichten',
+  'paywall.benefitStories':          'Erstelle jeden Abend so viele persönliche Gutenachtgeschichten, wie du möchtest.',
+  'paywall.benefitNarratorsTitle':   'Alle KI-Erzähler freigeschaltet',
+  'paywall.benefitNarrators':        'Zugang zu Luna, Barnaby, Cosmo, Aria & Rex – alle 5 Gutenacht-Freunde.',
+  'paywall.benefitArtTitle':         'Geschichtenbilder in HD',
+  'paywall.benefitArt':              'Wunderschöne Aquarelle in voller Auflösung für jede Geschichte.',
+  'paywall.benefitSoundsTitle':      'Stimmungsvolle Klangwelten',
+  'paywall.benefitSounds':           'Mische Umgebungsklänge mit der Erzählung für die perfekte Schlafatmosphäre.',
+  'paywall.benefitCollectionsTitle': 'Unbegrenzt Sammlungen',
+  'paywall.benefitCollections':      'Ordne Geschichten in Serien und spiele sie als Einschlafritual ab.',
+  'paywall.bestValue':               'BESTER PREIS',
+  'paywall.yearlyPlan':              'Jahresabo',
+  'paywall.monthlyPlan':             'Monatsabo',
+  'paywall.allFeatures':             'Alle Funktionen, jederzeit kündbar',
+  'paywall.perDay':                  '/ Tag',
+  'paywall.perDays':                 '/ {count} Tage',
+  'paywall.perWeek':                 '/ Woche',
+  'paywall.perWeeks':                '/ {count} Wochen',
+  'paywall.perMonth':                '/ Monat',
+  'paywall.perMonths':               '/ {count} Monate',
+  'paywall.perYear':                 '/ Jahr',
+  'paywall.perYears':                '/ {count} Jahre',
+  'paywall.loadingPlans':            'Abos werden geladen…',
+  'paywall.pending':                 'Der Kauf wartet auf Freigabe. Schau bald wieder vorbei!',
+  'paywall.purchaseFailed':          'Der Kauf ist fehlgeschlagen. Bitte versuche es noch einmal.',
+  'paywall.noPurchases':             'Keine früheren Käufe gefunden.',
+  'paywall.restoreFailed':           'Käufe konnten nicht wiederhergestellt werden. Versuche es später noch einmal.',
+  'paywall.legal':                   'Das Abo verlängert sich automatisch. Jederzeit kündbar in den Einstellungen von App Store / Play Store.',
+  'paywall.startFor':                'Starten für {price}',
+  'paywall.unlock':                  'StoryVoice Pro freischalten',
+  'paywall.restore':                 'Käufe wiederherstellen',
+  'paywall.successTitle':            'Du bist ein Star!',
+  'paywall.success':                 'Willkommen bei StoryVoice Pro.\nGenieße unbegrenzt magische Gutenachtzeiten! ✨',
+  'collections.title':               '📚  Meine Sammlungen',
+  'collections.subtitle':            'Ordne Geschichten in Serien',
+  'collections.new':                 '+ Neu',
+  'collections.emptyTitle':          'Noch keine Sammlungen',
+  'collections.empty':               'Erstelle eine Sammlung, um Geschichten zu einer perfekten Gutenacht-Serie zu bündeln',
+  'collections.createFirst':         'Erste Sammlung erstellen',
+  'collections.addStory':            '+ Geschichte zur Sammlung hinzufügen',
+  'collections.newTitle':            '✨  Neue Sammlung',
+  'collections.newSubtitle':         'Bündle Geschichten für das perfekte Einschlafritual',
+  'collections.chooseIcon':          'Wähle ein Symbol',
+  'collections.name':                'Name der Sammlung',
+  'collections.namePlaceholder':     'z. B. Wochenend-Abenteuer',
+  'collections.create':              'Sammlung erstellen',
+  'collections.noStories':           'Noch keine Geschichten',
+  'collections.storyCountOne':       '1 Geschichte',
+  'collections.storyCount':          '{count} Geschichten',
+  'collections.playSeriesOne':       'Serie abspielen  (1 Geschichte)',
+  'collections.playSeries':          'Serie abspielen  ({count} Geschichten)',
+  'collections.addToPlay':           'Füge Geschichten zum Abspielen hinzu',
+  'collections.pickerTitle':         'Geschichte hinzufügen',
+  'collections.added':               '✓ Hinzugefügt',
+  'collections.close':               'Schließen',
+  'magicSync.subtitle':              'Wir haben Werke von vor deiner Anmeldung gefunden.\nVerschiebe sie in die Cloud, damit sie für immer sicher sind.',
+  'magicSync.profile':               'Profil',
+  'magicSync.storyOne':              'Geschichte',
+  'magicSync.stories':               'Geschichten',
+  'magicSync.voiceOne':              'Stimme',
+  'magicSync.voices':                'Stimmen',
+  'magicSync.move':                  'In die Cloud verschieben',
+  'magicSync.keepLocal':             'Vorerst lokal behalten',
+  'magicSync.syncingTitle':          'Die Magie wird gewebt…',
+  'magicSync.syncing':               'Deine Geschichten wandern in die Cloud ☁️',
+  'magicSync.successTitle':          'Magic Sync abgeschlossen!',
+  'magicSync.storedOne':             '1 Element sicher in der Cloud gespeichert ✨',
+  'magicSync.stored':                '{count} Elemente sicher in der Cloud gespeichert ✨',
+  'magicSync.storedAll':             'Deine Daten sind jetzt sicher in der Cloud gespeichert ✨',
+  'magicSync.continue':              'Weiter zu meinen Geschichten ›',
+  'magicSync.errorTitle':            'Synchronisierung unvollständig',
+  'magicSync.partial':               '{count} Elemente verschoben – einige konnten nicht übertragen werden. Du kannst es in den Einstellungen erneut versuchen.',
+  'magicSync.offline':               'Die Cloud ist gerade nicht erreichbar. Deine Daten sind lokal sicher – versuche es in den Einstellungen erneut.',
+  'mixer.title':                     '🌊  Klangwellen',
+  'mixer.mixingOne':                 '1 Ebene wird gemischt',
+  'mixer.mixing':                    '{count} Ebenen werden gemischt',
+  'mixer.idle':                      'Kombiniere Klangwelten zu deinem Mix',
+  'mixer.saveMix':                   '＋ Mix speichern',
+  'mixer.namePlaceholder':           'z. B. Regenhütte',
+  'mixer.save':                      'Speichern',
+  'mixer.hint':                      'Tippe oben auf einen oder mehrere Klänge, um mit dem Mischen zu beginnen',
+  'mixer.narratorHint':              'Mit der Erzählstimme mischen – für die perfekte Schlaf-Klangwelt',
+  'mixer.stopAll':                   '⏹ Alle stoppen',
+  'mixer.removeTitle':               'Mix entfernen?',
+  'mixer.removeMessage':             '„{name}“ wird aus den gespeicherten Mixen dieses Kindes entfernt.',
+  'mixer.keep':                      'Behalten',
+  'mixer.remove':                    'Entfernen',
+  'mixer.rain':                      'Sanfter Regen',
+  'mixer.rainDesc':                  'Sanfte Tropfen auf einem stillen Dach',
+  'mixer.ocean':                     'Meereswellen',
+  'mixer.oceanDesc':                 'Rhythmische Gezeiten wiegen das Ufer',
+  'mixer.forest':                    'Waldgrillen',
+  'mixer.forestDesc':                'Nachtchor in einem mondhellen Hain',
+  'mixer.cosmos':                    'Kosmisches weißes Rauschen',
+  'mixer.cosmosDesc':                'Das Summen eines schlafenden Universums',
+  'gate.title':                      'Eltern-Check',
+  'gate.context':                    'Kurzer Check vor dem Zugriff auf: {context}.',
+  'gate.subtitle':                   'Eine kurze Rechenaufgabe, um zu prüfen, dass du erwachsen bist.',
+  'gate.whatIs':                     'Was ist',
+  'gate.placeholder':                'Deine Antwort…',
+  'gate.wrong':                      'Nicht ganz – versuch es noch einmal!',
+  'gate.confirm':                    'Bestätigen ✓',
+  'gate.addChild':                   'Kind hinzufügen',
+  'pictureBook.painting':            'Diese Seite wird gemalt…',
+  'pictureBook.later':               'Diese Seite wird beim nächsten Mal gemalt',
+  'stardust.earned':                 'Sternenstaub verdient!',
+  'stardust.tapToContinue':          '✨ Tippe zum Fortfahren',
+  'narrators.title':                 '🌟 Gutenacht-Freunde',
+  'narrators.subtitle':              'Wähle deinen KI-Erzähler',
+  'narrators.pro':                   'Pro',
+  'narrators.unlock':                '🔒 Freischalten',
+  'narrators.preview':               '▷ Vorschau',
+  'narrators.preparing':             '{name} bereitet eine Kostprobe vor…',
+  'narrators.gotIt':                 '✓ Alles klar!',
+  'narrators.styleWhisper':          'flüsternd',
+  'narrators.styleWise':             'weise',
+  'narrators.styleEnthusiastic':     'begeistert',
+  'narrators.styleSlowPaced':        'gemächlich',
+  'narrators.styleDramatic':         'dramatisch',
+  'narrators.lunaSpecies':           'die Eule',
+  'narrators.lunaDesc':              'Sanft, leise und magisch',
+  'narrators.lunaTagline':           'Jedes Wort ein Flüstern…',
+  'narrators.lunaPreview':           'Pssst… lass dich vom Mondlicht sanft ins Traumland tragen…',
+  'narrators.barnabySpecies':        'der Bär',
+  'narrators.barnabyDesc':           'Nachdenklich, warm & philosophisch',
+  'narrators.barnabyTagline':        'Alte Weisheit, zartes Herz',
+  'narrators.barnabyPreview':        'In der Stille der Nacht liegt eine große Wahrheit, Kleines…',
+  'narrators.cosmoSpecies':          'der Stern',
+  'narrators.cosmoDesc':             'Strahlend, energiegeladen & fröhlich',
+  'narrators.cosmoTagline':          'Geschichten, die funkeln und strahlen!',
+  'narrators.cosmoPreview':          'Oh WOW! Bist du bereit für das UNGLAUBLICHSTE Abenteuer aller Zeiten?!',
+  'narrators.ariaSpecies':           'die Fee',
+  'narrators.ariaDesc':              'Sanft, rhythmisch & tief beruhigend',
+  'narrators.ariaTagline':           'Langsam… sanft… in den Schlaf',
+  'narrators.ariaPreview':           'Einatmen… und ausatmen… lass jedes Wort… dich… zur Ruhe tragen…',
+  'narrators.rexSpecies':            'der Drache',
+  'narrators.rexDesc':               'Kühnes, lebendiges & episches Erzählen',
+  'narrators.rexTagline':            'LEGENDEN entstehen zur Schlafenszeit!',
+  'narrators.rexPreview':            'In der Zeit vor aller Erinnerung, als die Berge jung waren und die Ozeane sangen…',
+  'narrators.seraphinaSpecies':      'der Sternenwal',
+  'narrators.seraphinaDesc':         'Uralt, kosmisch & himmlisch gelassen',
+  'narrators.seraphinaTagline':      'Reite auf Sternenstaubwellen in den Schlaf…',
+  'narrators.seraphinaPreview':      'Aus den tiefen Ozeanen des Kosmos trage ich dich auf sanften Sternenströmungen… zu den zartesten Träumen…',
+
+  'splash.tagline':              'Gutenacht-Magie mit deiner Stimme',
+  'rateUs.title':                'Gefällt dir StoryVoice?',
+  'rateUs.subtitle':             'Deine Bewertung hilft anderen Familien, die Gutenacht-Magie zu entdecken! 🌙',
+  'rateUs.rate':                 '⭐ Jetzt bewerten',
+  'welcome.tagline':             'Gutenachtgeschichten, erzählt mit',
+  'welcome.taglineHighlight':    'deiner Stimme. ✨',
+  'welcome.subTagline':          'Persönliche, von KI erdachte Geschichten, vorgelesen\nvon der Stimme, die sie am meisten lieben – deiner.',
+  'welcome.cta':                 'Geschichten für dein Kind erstellen',
+  'welcome.haveAccount':         'Du hast schon ein Konto?',
+  'welcome.signIn':              'Anmelden',
+  'walkthrough.skip':            'Überspringen',
+  'walkthrough.next':            'Weiter  ›',
+  'walkthrough.begin':           '✨  Beginne deine Reise',
+  'walkthrough.voiceTag':        'DAS STIMMSTUDIO',
+  'walkthrough.voiceTitle':      'Deine Stimme.\nIhre Träume.',
+  'walkthrough.voiceSubtitle':   'Erzählt von dem Menschen, den sie am meisten lieben.',
+  'walkthrough.voiceBody':       'Nimm deine Stimme nur einmal auf und höre dich jeden Abend persönliche Gutenachtgeschichten erzählen. Dein Kind schläft mit dem vertrautesten, tröstlichsten Klang der Welt ein – deinem.',
+  'walkthrough.aiTag':           'DIE KI',
+  'walkthrough.aiTitle':         'Geschichten, nur\nfür sie gemacht.',
+  'walkthrough.aiSubtitle':      'Unendlich persönlich. Endlos magisch.',
+  'walkthrough.aiBody':          'Unsere KI verwebt Namen, Alter, Interessen und Persönlichkeit deines Kindes zu einzigartigen Geschichten, die wie für es geschrieben wirken. Keine Geschichte gleicht der anderen.',
+  'walkthrough.playerTag':       'DER PLAYER',
+  'walkthrough.playerTitle':     'Gemacht\nfür den Schlaf.',
+  'walkthrough.playerSubtitle':  'Ein ruhiger Zufluchtsort zur Schlafenszeit.',
+  'walkthrough.playerBody':      'Jedes Pixel soll den Übergang in den Schlaf erleichtern. Keine Ablenkung. Kein grelles Licht. Nur ein warmes, gedämpftes Leuchten, deine Stimme und eine Geschichte, die dein Kind sanft ins Traumland begleitet.',
+  'cloudMagic.continue':         'Weiter →',
+  'cloudMagic.enter':            '✨ Durch das Kristalltor',
+  'cloudMagic.stardustTitle':    'Sternenstaub synchronisieren',
+  'cloudMagic.stardustSubtitle': 'Deine magischen Belohnungen begleiten dich überallhin',
+  'cloudMagic.stardustBody':     'Jeder Sternenstaub-Kristall, den du verdienst, wird sofort auf all deinen Geräten synchronisiert. Mach auf jedem Bildschirm weiter – Serie, Belohnungen und Fortschritt sind immer da, wo du aufgehört hast.',
+  'cloudMagic.stardustPill':     'Cloud-Sync',
+  'cloudMagic.voicesTitle':      'Elternstimmen sichern',
+  'cloudMagic.voicesSubtitle':   'Deine Stimme, für immer bewahrt',
+  'cloudMagic.voicesBody':       'Deine Aufnahmen werden sicher im Cloud-Tresor gesichert. Auch wenn du dein Handy wechselst, wartet die Lieblingsstimme deines Kindes – deine – immer auf es.',
+  'cloudMagic.voicesPill':       'Sichere Sicherung',
+  'cloudMagic.storiesTitle':     'Geschichten in Sicherheit',
+  'cloudMagic.storiesSubtitle':  'Jede Geschichte sicher in den Sternen',
+  'cloudMagic.storiesBody':      'Alle Gutenachtgeschichten, die du erstellst, werden verschlüsselt in deiner persönlichen kosmischen Bibliothek gespeichert. Sie gehen nie verloren, und du kannst sie mit der Familie in der ganzen Galaxis teilen.',
+  'cloudMagic.storiesPill':      'Geschichtentresor',
+  'auth.gateTitle':              'Das Kristalltor',
+  'auth.welcomeBack':            'Willkommen zurück, Geschichtenerzähler ✨',
+  'auth.beginJourney':           'Beginne deine magische Reise 🌟',
+  'auth.signInTab':              '✦ Anmelden',
+  'auth.signUpTab':              '✦ Registrieren',
+  'auth.email':                  'E-Mail-Adresse',
+  'auth.emailPlaceholder':       'du@beispiel.de',
+  'auth.password':               'Passwort',
+  'auth.confirmPassword':        'Passwort bestätigen',
+  'auth.repeatPassword':         'Passwort wiederholen',
+  'auth.forgot':                 'Passwort vergessen?',
+  'auth.signingIn':              'Anmeldung…',
+  'auth.creatingAccount':        'Konto wird erstellt…',
+  'auth.signIn':                 '✨ Anmelden',
+  'auth.createAccount':          '🌟 Konto erstellen',
+  'auth.or':                     'oder',
+  'auth.google':                 'Weiter mit Google',
+  'auth.apple':                  'Weiter mit Apple',
+  'auth.noAccount':              'Noch kein Konto? ',
+  'auth.haveAccount':            'Du hast schon ein Konto? ',
+  'auth.signUpLink':             'Registrieren',
+  'auth.signInLink':             'Anmelden',
+  'auth.verifyTitle':            'Sieh in dein Postfach!',
+  'auth.verify':                 'Wir haben dir einen magischen Bestätigungslink geschickt. Sobald du bestätigt hast, kannst du dich anmelden.',
+  'auth.goToSignIn':             'Zur Anmeldung',
+  'auth.missingCredentials':     'Bitte gib deine E-Mail-Adresse und dein Passwort ein.',
+  'auth.passwordMismatch':       'Die Passwörter stimmen nicht überein.',
+  'auth.passwordTooShort':       'Das Passwort muss mindestens 6 Zeichen lang sein.',
+  'auth.offlineSignUp':          'Zum Erstellen deines Kontos ist eine Internetverbindung nötig. Bitte prüfe deine Verbindung und versuche es noch einmal.',
+  'auth.offlineSignIn':          'Für den Zugriff auf dein Konto ist eine Internetverbindung nötig. Bitte prüfe deine Verbindung und versuche es noch einmal.',
+  'auth.offline':                'Keine Verbindung möglich. Bitte prüfe deine Internetverbindung und versuche es noch einmal.',
+  'auth.somethingWrong':         'Etwas ist schiefgelaufen. Bitte versuche es noch einmal.',
+  'auth.unavailable':            'Die Anmeldung ist vorübergehend nicht verfügbar. Bitte versuche es später noch einmal.',
+  'auth.accountExists':          'Mit dieser E-Mail-Adresse gibt es schon ein Konto. Melde dich stattdessen an.',
+  'auth.invalidCredentials':     'E-Mail-Adresse oder Passwort ist falsch. Bitte versuche es noch einmal.',
+  'auth.notConfirmed':           'Bitte bestätige deine E-Mail-Adresse, bevor du dich anmeldest.',
+  'auth.rateLimited':            'Zu viele Versuche. Bitte warte kurz und versuche es noch einmal.',
+  'auth.notConfigured':          'Der Anmeldedienst ist nicht eingerichtet. Bitte wende dich an den Support.',
+  'auth.resetTitle':             'Passwort zurücksetzen',
+  'auth.resetSubtitle':          'Gib deine E-Mail-Adresse ein und wir schicken dir\neinen sicheren Link zum Zurücksetzen',
+  'auth.emailLabel':             'E-MAIL-ADRESSE',
+  'auth.missingEmail':           'Bitte gib deine E-Mail-Adresse ein.',
+  'auth.sending':                'Wird gesendet…',
+  'auth.sendReset':              '📨 Link senden',
+  'auth.rememberPassword':       'Passwort wieder eingefallen? ',
+  'auth.resetSentTitle':         'Sieh in dein Postfach!',
+  'auth.resetSent':              'Wir haben dir einen Link zum Zurücksetzen geschickt.\nFolge ihm, um ein neues Passwort festzulegen.',
+  'auth.backToSignIn':           '← Zurück zur Anmeldung',
+  'ready.title':                 'Bereit für Magie?',
+  'ready.subtitle':              'Verbinde Supabase, um StoryVoice voll freizuschalten – oder leg gleich im Offline-Modus los.',
+  'ready.offlineHeader':         '✓ Jetzt verfügbar (Offline-Modus)',
+  'ready.cloudHeader':           '✦ Mit Supabase freigeschaltet',
+  'ready.createStories':         'Geschichten erstellen',
+  'ready.createStoriesDesc':     'Vollständige Geschichten, offline',
+  'ready.voiceRecording':        'Stimmaufnahme',
+  'ready.voiceRecordingDesc':    'Nimm deine Stimme lokal auf',
+  'ready.stardust':              'Sternenstaub-Belohnungen',
+  'ready.stardustDesc':          'Sternenstaub offline verdienen & ausgeben',
+  'ready.journal':               'Gutenacht-Tagebuch',
+  'ready.journalDesc':           'Tagebucheinträge auf dem Gerät speichern',
+  'ready.cloudSync':             'Cloud-Sync',
+  'ready.cloudSyncDesc':         'Geschichten auf allen Geräten abrufen',
+  'ready.familySharing':         'Familienfreigabe',
+  'ready.familySharingDesc':     'Mit der Familie teilen',
+  'ready.backup':                'Sichere Sicherung',
+  'ready.backupDesc':            'Verliere nie deine magischen Geschichten',
+  'ready.aiAccount':             'KI-Kontofunktionen',
+  'ready.aiAccountDesc':         'Personalisierte KI über Sitzungen hinweg',
+  'ready.howTo':                 '🔧 So verbindest du',
+  'ready.howToBefore':           'Tippe im Projekt-Dashboard auf ',
+  'ready.howToAction':           'Connect Supabase',
+  'ready.howToAfter':            ' – die Umgebungsvariablen werden automatisch synchronisiert und die Magie ist voll freigeschaltet!',
+  'ready.unlockCloud':           '✨ Cloud Magic freischalten',
+  'ready.offlineMode':           '🌙 Offline weitermachen',
+  'ready.footnote':              'Du kannst Supabase jederzeit in den Projekteinstellungen verbinden',
+};
+
+const STRINGS: Record<LanguageCode, Catalogue> = { en: EN, es: ES, fr: FR, de: DE };
+
+// ─── Language ─────────────────────────────────────────────────────────────────
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return SUPPORTED_LANGUAGES.some((l) => l.code === value);
+}
+
+/** Flag, English and native name of a language – English for anything unknown. */
+export function languageInfo(language: string | null | undefined): typeof SUPPORTED_LANGUAGES[number] {
+  return SUPPORTED_LANGUAGES.find((l) => l.code === language) ?? SUPPORTED_LANGUAGES[0];
+}
+
+/** The language last read or set, without waiting for storage. */
+export function getCurrentLanguage(): LanguageCode {
+  return currentLanguage;
+}
+
+export async function getAppLanguage(): Promise<LanguageCode> {
+  try {
+    const saved = await AsyncStorage.getItem(LANGUAGE_KEY);
+    currentLanguage = isLanguageCode(saved) ? saved : 'en';
+  } catch {
+    // keep the last known language
+  }
+  return currentLanguage;
+}
+
+export async function setAppLanguage(language: LanguageCode): Promise<void> {
+  currentLanguage = language;
+  await AsyncStorage.setItem(LANGUAGE_KEY, language);
+  listeners.forEach((l) => l(language));
+}
+
+/** Subscribe to language changes; returns the unsubscribe function. */
+export function onAppLanguageChange(listener: LanguageListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// ─── Strings ──────────────────────────────────────────────────────────────────
+
+export type StringParams = Record<string, string | number>;
+
+export function translate(language: LanguageCode, key: StringKey, params?: StringParams): string {
+  const text = STRINGS[language]?.[key] ?? EN[key];
+  return params
+    ? text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+    : text;
+}
@@ -43,25 +43,31 @@ export async function setCached(key: string, value: string): Promise<void> {
   }
 }
 
+/** Keys of English text keep their original form. */
+function languageSuffix(language?: string): string {
+  return language && language !== 'en' ? `_${language}` : '';
+}
+
 /**
  * Build a canonical cache key for a narrator greeting.
- * Keyed by narrator ID + child name + time-of-day bucket.
+ * Keyed by narrator ID + child name + time-of-day bucket + language.
  */
 export function greetingCacheKey(
   narratorId: string,
   childName:  string,
   timeOfDay:  string,
+  language?:  string,
 ): string {
-  return `greeting_${narratorId}_${childName.toLowerCase().replace(/\s+/g, '_')}_${timeOfDay}`;
+  return `greeting_${narratorId}_${childName.toLowerCase().replace(/\s+/g, '_')}_${timeOfDay}${languageSuffix(language)}`;
 }
 
 /**
  * Build a canonical cache key for a narrator preview / About Me.
- * Keyed by narrator ID + optional child name.
+ * Keyed by narrator ID + optional child name + language.
  */
-export function previewCacheKey(narratorId: string, childName?: string): string {
+export function previewCacheKey(narratorId: string, childName?: string, language?: string): string {
   const suffix = childName
     ? `_${childName.toLowerCase().replace(/\s+/g, '_')}`
     : '';
-  return `preview_${narratorId}${suffix}`;
+  return `preview_${narratorId}${suffix}${languageSuffix(language)}`;
 }
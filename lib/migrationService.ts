@@ -6,8 +6,9 @@
  *
  * Local data types handled:
  *   - Child profile  (pending_child_profile)
- *   - Stories        (local_stories)
- *   - Voice profiles (sync_voice_profiles)
+ *   - Stories        (lib/storyStore)
+ *   - Voice profiles (sync_voice_profiles) — local recordings are queued
+ *     for upload via voiceUploadService
  *
  * Migration is idempotent: the `migration_complete_<userId>` AsyncStorage key
  * prevents re-running after a successful migration.
@@ -18,10 +19,19 @@ import {
   createChild,
   createParentVoice,
   createStory,
+  getFamilyUserIds,
   isSupabaseAvailable,
 } from './supabase';
 import type { Child, ParentVoice, Story } from './supabase';
 import { syncFromCloud } from './syncService';
+import { setActiveChild } from './activeChild';
+import { getStoriesToMigrate, remapStoryId, updateStoredStory } from './storyStore';
+import {
+  enqueueVoiceRecording,
+  isLocalRecordingUri,
+  localRecordingEntries,
+  processVoiceUploads,
+} from './voiceUploadService';
 
 // ─── AsyncStorage Keys ────────────────────────────────────────────────────────
 const MIGRATION_KEY_PREFIX   = 'migration_complete_';
@@ -85,9 +95,11 @@ export async function detectLocalData(userId: string): Promise<LocalDataSummary>
   if (!isSupabaseAvailable) return empty;
 
   try {
-    const [childRaw, storiesRaw, voicesRaw] = await Promise.all([
+    // Rows shared by the user's family group are theirs, not guest data
+    const ownerIds = await getFamilyUserIds(userId);
+    const [childRaw, storiesToMigrate, voicesRaw] = await Promise.all([
       AsyncStorage.getItem('pending_child_profile'),
-      AsyncStorage.getItem('local_stories'),
+      getStoriesToMigrate(ownerIds),
       AsyncStorage.getItem('sync_voice_profiles'),
     ]);
 
@@ -105,19 +117,13 @@ export async function detectLocalData(userId: string): Promise<LocalDataSummary>
     }
 
     // ── Stories ───────────────────────────────────────────────────────────
-    if (storiesRaw) {
-      const stories = JSON.parse(storiesRaw) as Array<Partial<Story> & { imageUrl?: string }>;
-      const locals = stories.filter(
-        (s) => isLocalId(s.id) || !s.user_id || s.user_id !== userId
-      );
-      localStories.push(...locals);
-    }
+    localStories.push(...storiesToMigrate);
 
     // ── Voice profiles ─────────────────────────────────────────────────────
     if (voicesRaw) {
       const voices = JSON.parse(voicesRaw) as Partial<ParentVoice>[];
       const locals = voices.filter(
-        (v) => isLocalId(v.id) || !v.user_id || v.user_id !== userId
+        (v) => isLocalId(v.id) || !v.user_id || !ownerIds.includes(v.user_id)
       );
       localVoices.push(...locals);
     }
@@ -171,20 +177,22 @@ export async function migrateLocalDataToCloud(
   for (const localChild of summary.localChildren) {
     try {
       const { child: saved, error } = await createChild({
-        user_id:    userId,
-        name:       localChild.name ?? 'My Child',
-        birthday:   localChild.birthday ?? null,
-        age:        localChild.age ?? null,
-        interests:  localChild.interests ?? [],
-        life_notes: localChild.life_notes ?? null,
+        user_id:      userId,
+        name:         localChild.name ?? 'My Child',
+        birthday:     localChild.birthday ?? null,
+        age:          localChild.age ?? null,
+        interests:    localChild.interests ?? [],
+        life_notes:   localChild.life_notes ?? null,
+        avoid_topics: localChild.avoid_topics ?? [],
+        fears:        localChild.fears ?? [],
+        inclusions:   localChild.inclusions ?? [],
       });
       if (error || !saved) {
         errors.push(`Child: ${String(error?.message ?? 'unknown error')}`);
       } else {
         newChildId = saved.id;
-        // Update local cache with the real Supabase record
-        await AsyncStorage.setItem('pending_child_profile', JSON.stringify(saved));
-        await AsyncStorage.setItem('active_child_id', saved.id);
+        // The migrated record becomes the active child
+        await setActiveChild(saved, userId);
         migratedChildren++;
       }
     } catch (e) {
@@ -193,12 +201,6 @@ export async function migrateLocalDataToCloud(
   }
 
   // ── 2. Migrate stories ───────────────────────────────────────────────────
-  const storiesRaw = await AsyncStorage.getItem('local_stories');
-  const allLocalStories: Array<Partial<Story> & { imageUrl?: string; createdAt?: string }> =
-    storiesRaw ? JSON.parse(storiesRaw) : [];
-
-  const updatedStories = [...allLocalStories];
-
   for (const localStory of summary.localStories) {
     try {
       const s = localStory as Partial<Story> & { imageUrl?: string; createdAt?: string };
@@ -214,14 +216,10 @@ export async function migrateLocalDataToCloud(
       if (error || !saved) {
         errors.push(`Story "${s.title ?? '?'}": ${String(error?.message ?? 'unknown error')}`);
       } else {
-        // Replace local entry in the in-memory copy
-        const idx = updatedStories.findIndex((x) => x.id === s.id || x.title === s.title);
-        if (idx !== -1) {
-          updatedStories[idx] = {
-            ...updatedStories[idx],
-            id:      saved.id,
-            user_id: userId,
-          };
+        // The stored entry takes the real id
+        if (s.id) {
+          await remapStoryId(s.id, saved.id);
+          await updateStoredStory(saved.id, { user_id: userId });
         }
         migratedStories++;
       }
@@ -230,28 +228,33 @@ export async function migrateLocalDataToCloud(
     }
   }
 
-  // Persist updated stories list (with real IDs)
-  if (migratedStories > 0) {
-    await AsyncStorage.setItem('local_stories', JSON.stringify(updatedStories.slice(0, 50)));
-  }
-
-  // ── 3. Migrate voice profiles (metadata only – no audio re-upload) ────────
+  // ── 3. Migrate voice profiles ─────────────────────────────────────────────
+  // Device file URIs are never written to the cloud row; those recordings are
+  // queued for upload and their object paths committed once uploaded.
   for (const localVoice of summary.localVoices) {
     try {
+      const localRecordings = localRecordingEntries(localVoice.recording_labels);
+      const cloudLabels = Object.fromEntries(
+        Object.entries(localVoice.recording_labels ?? {}).filter(([, v]) => !isLocalRecordingUri(v))
+      );
       const { voice: saved, error } = await createParentVoice({
         user_id:                    userId,
         child_id:                   newChildId ?? localVoice.child_id ?? null,
         voice_type:                 localVoice.voice_type ?? 'custom',
         voice_name:                 localVoice.voice_name ?? null,
-        recording_url:              localVoice.recording_url ?? null,
+        recording_url:              isLocalRecordingUri(localVoice.recording_url) ? null : localVoice.recording_url ?? null,
         duration_seconds:           localVoice.duration_seconds ?? null,
         script_paragraphs_recorded: localVoice.script_paragraphs_recorded ?? 0,
         is_complete:                localVoice.is_complete ?? false,
-        recording_labels:           localVoice.recording_labels ?? {},
+        recording_labels:           cloudLabels,
       });
       if (error || !saved) {
         errors.push(`Voice "${localVoice.voice_name ?? '?'}": ${String(error?.message ?? 'unknown error')}`);
       } else {
+        for (const rec of localRecordings) {
+          await enqueueVoiceRecording({ userId, voiceId: saved.id, paragraph: rec.paragraph, uri: rec.uri });
+        }
+        if (localRecordings.length > 0) void processVoiceUploads(saved.id);
         migratedVoices++;
       }
     } catch (e) {
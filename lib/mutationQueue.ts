@@ -0,0 +1,610 @@
+/**
+ * Outbound Mutation Queue
+ *
+ * The write half of the hybrid sync. Screens update their local cache first
+ * and then enqueue the matching create / update / delete here; the queue
+ * replays it against Supabase whenever it can (right away, on app foreground,
+ * on every syncFromCloud and on a backoff timer after failures).
+ *
+ * Rules:
+ *   1. Mutations for the same row are coalesced (update after create folds
+ *      into the create, delete after create cancels both, …).
+ *   2. Mutations run in order; a failed row blocks later mutations for that
+ *      row until it succeeds.
+ *   3. Conflicts use optimistic concurrency on the server's updated_at
+ *      (set by the 001 triggers). Every mutation carries the updated_at this
+ *      device last read for the row, and it is only applied while the server
+ *      row still has it. A row changed elsewhere since wins and the mutation
+ *      is dropped; the next pull refreshes the cache. Once a mutation is
+ *      applied, later mutations for the row made on top of it move to the new
+ *      updated_at. Device clocks play no part.
+ *   4. Network failures retry forever with capped exponential backoff;
+ *      errors reported by Postgres give up after MAX_ATTEMPTS.
+ *   5. Creates made offline use a `local_…` id. Once inserted, that id is
+ *      rewritten to the server id in the queue and the local caches.
+ *
+ * Storage keys:
+ *   sync_mutation_queue → QueuedMutation[]
+ *   sync_row_versions   → Record<"table:id", string> – server updated_at last read per row
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { supabase, isSupabaseAvailable } from './supabase';
+import { remapStoryId, remapStorySagaId } from './storyStore';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type MutationTable =
+  | 'stories'
+  | 'child_profiles'
+  | 'voice_profiles'
+  | 'user_preferences'
+  | 'story_sagas'
+  | 'story_characters';
+export type MutationOp    = 'create' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  id:            string;
+  userId:        string;
+  table:         MutationTable;
+  op:            MutationOp;
+  /** Row id (user_id for user_preferences). A `local_…` id for offline creates. */
+  recordId:      string;
+  payload:       Record<string, unknown>;
+  /** When the change was made on this device (shown locally until the row syncs) */
+  updatedAt:     string;
+  /** Server updated_at the change was made on top of; null when this device never read the row */
+  baseUpdatedAt?: string | null;
+  attempts:      number;
+  /** Epoch ms before which the mutation is not retried */
+  nextAttemptAt: number;
+  lastError?:    string;
+}
+
+export interface MutationFlushResult {
+  applied:   number;
+  conflicts: number;
+  failed:    number;
+}
+
+export type MutationQueueListener = (pending: number) => void;
+
+type ApplyOutcome = 'applied' | 'conflict';
+
+interface ApplyResult {
+  outcome:  ApplyOutcome;
+  /** Row id on the server (differs from the mutation's for offline creates) */
+  recordId: string;
+  /** The row's updated_at after the write; null when there is no row any more */
+  version:  string | null;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const QUEUE_KEY        = 'sync_mutation_queue';
+const VERSIONS_KEY     = 'sync_row_versions';
+const MAX_ATTEMPTS     = 8;       // for errors the server reported
+const BASE_BACKOFF_MS  = 2000;
+const MAX_BACKOFF_MS   = 5 * 60 * 1000;
+const LOCAL_ID_PREFIX  = 'local_';
+
+/** Primary key column per table */
+const TABLE_KEYS: Record<MutationTable, string> = {
+  stories:          'id',
+  child_profiles:   'id',
+  voice_profiles:   'id',
+  user_preferences: 'user_id',
+  story_sagas:      'id',
+  story_characters: 'id',
+};
+
+// ─── Queue persistence ────────────────────────────────────────────────────────
+
+async function readQueue(): Promise<QueuedMutation[]> {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    return raw ? (JSON.parse(raw) as QueuedMutation[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeQueue(queue: QueuedMutation[]): Promise<void> {
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  listeners.forEach((l) => l(queue.length));
+}
+
+// Serialises read-modify-write cycles on the queue
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function withQueue<T>(fn: (queue: QueuedMutation[]) => Promise<{ queue: QueuedMutation[]; result: T }>): Promise<T> {
+  const run = queueLock.then(async () => {
+    const { queue, result } = await fn(await readQueue());
+    await writeQueue(queue);
+    return result;
+  });
+  queueLock = run.catch(() => {});
+  return run;
+}
+
+// ─── Row versions ─────────────────────────────────────────────────────────────
+
+type RowVersions = Record<string, string>;
+
+const versionKey = (table: MutationTable, recordId: string) => `${table}:${recordId}`;
+
+async function readVersions(): Promise<RowVersions> {
+  try {
+    const raw = await AsyncStorage.getItem(VERSIONS_KEY);
+    return raw ? (JSON.parse(raw) as RowVersions) : {};
+  } catch {
+    return {};
+  }
+}
+
+let versionsLock: Promise<unknown> = Promise.resolve();
+
+/** Record (or, with null, forget) the server updated_at of rows. */
+function rememberVersions(table: MutationTable, entries: [recordId: string, version: string | null][]): Promise<void> {
+  if (entries.length === 0) return versionsLock.then(() => undefined);
+  const run = versionsLock.then(async () => {
+    const versions = await readVersions();
+    for (const [recordId, version] of entries) {
+      if (version) versions[versionKey(table, recordId)] = version;
+      else delete versions[versionKey(table, recordId)];
+    }
+    await AsyncStorage.setItem(VERSIONS_KEY, JSON.stringify(versions));
+  });
+  versionsLock = run.catch(() => {});
+  return run;
+}
+
+// ─── Listeners ────────────────────────────────────────────────────────────────
+
+const listeners = new Set<MutationQueueListener>();
+
+/** Subscribe to the number of pending mutations. Returns an unsubscribe function. */
+export function onMutationQueueChange(listener: MutationQueueListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A temporary id for rows created while offline. */
+export function createLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isLocalId(id: string | null | undefined): boolean {
+  return typeof id === 'string' && id.startsWith(LOCAL_ID_PREFIX);
+}
+
+function sameRow(a: Pick<QueuedMutation, 'table' | 'recordId'>, b: Pick<QueuedMutation, 'table' | 'recordId'>) {
+  return a.table === b.table && a.recordId === b.recordId;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (err && typeof err === 'object' && 'message' in err) return String((err as { message: unknown }).message);
+  return String(err);
+}
+
+/** PostgREST / Postgres errors carry a code; network failures don't. */
+class ServerRejectedError extends Error {
+  constructor(message: string, readonly code: string) {
+    super(message);
+  }
+}
+
+function throwIfError(error: { message: string; code?: string } | null): void {
+  if (!error) return;
+  if (error.code) throw new ServerRejectedError(error.message, error.code);
+  throw new Error(error.message);
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// ─── Enqueue ──────────────────────────────────────────────────────────────────
+
+// Mutations currently being sent – never coalesce into these
+const inFlight = new Set<string>();
+
+/**
+ * Queue a write and try to send it straight away.
+ * No-op when Supabase is not configured or there is no signed-in user, in
+ * which case the local cache is the only copy (as before).
+ */
+export async function enqueueMutation(params: {
+  userId:   string | null | undefined;
+  table:    MutationTable;
+  op:       MutationOp;
+  recordId: string;
+  payload?: Record<string, unknown>;
+}): Promise<void> {
+  const { userId, table, op, recordId, payload = {} } = params;
+  if (!isSupabaseAvailable || !userId) return;
+
+  const now = new Date().toISOString();
+  await versionsLock;
+  const incoming: QueuedMutation = {
+    id:            `mut_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    table,
+    op,
+    recordId,
+    payload,
+    updatedAt:     now,
+    baseUpdatedAt: op === 'create' ? null : (await readVersions())[versionKey(table, recordId)] ?? null,
+    attempts:      0,
+    nextAttemptAt: 0,
+  };
+
+  await withQueue(async (queue) => {
+    const idx = queue.map((m, i) => (sameRow(m, incoming) && !inFlight.has(m.id) ? i : -1))
+      .filter((i) => i >= 0)
+      .pop();
+    const prev = idx !== undefined ? queue[idx] : undefined;
+
+    if (!prev || prev.op === 'delete' || op === 'create') {
+      return { queue: [...queue, incoming], result: undefined };
+    }
+    const next = [...queue];
+    if (op === 'delete') {
+      // Deleting a row the server never saw cancels it outright
+      if (prev.op === 'create') next.splice(idx!, 1);
+      else next[idx!] = { ...incoming, id: prev.id, baseUpdatedAt: prev.baseUpdatedAt };
+    } else {
+      next[idx!] = { ...prev, payload: { ...prev.payload, ...payload }, updatedAt: now, nextAttemptAt: 0 };
+    }
+    return { queue: next, result: undefined };
+  });
+
+  void flushMutations();
+}
+
+/** Mutations still waiting to reach Supabase. */
+export async function getPendingMutations(): Promise<QueuedMutation[]> {
+  return readQueue();
+}
+
+// ─── Apply ────────────────────────────────────────────────────────────────────
+
+/** updated_at of the first returned row, if any */
+function versionOf(data: unknown[] | null): string | null {
+  const row = data?.[0] as { updated_at?: unknown } | undefined;
+  return typeof row?.updated_at === 'string' ? row.updated_at : null;
+}
+
+async function applyCreate(m: QueuedMutation): Promise<ApplyResult> {
+  const { data, error } = await supabase
+    .from(m.table)
+    .insert(m.payload)
+    .select()
+    .single();
+  throwIfError(error);
+
+  const row = data as Record<string, unknown> | null;
+  const serverId = row?.[TABLE_KEYS[m.table]];
+  if (typeof serverId === 'string' && serverId !== m.recordId) {
+    await remapLocalId(m.table, m.recordId, serverId);
+  }
+  return {
+    outcome:  'applied',
+    recordId: typeof serverId === 'string' ? serverId : m.recordId,
+    version:  versionOf(row ? [row] : null),
+  };
+}
+
+async function rowExists(m: QueuedMutation): Promise<boolean> {
+  const key = TABLE_KEYS[m.table];
+  const { data, error } = await supabase
+    .from(m.table)
+    .select(key)
+    .eq(key, m.recordId)
+    .maybeSingle();
+  throwIfError(error);
+  return data !== null;
+}
+
+async function applyUpdate(m: QueuedMutation): Promise<ApplyResult> {
+  const key = TABLE_KEYS[m.table];
+  // Compare-and-set: only touch the row if it is still the version we read.
+  // Without one (never pulled on this device) the write simply applies.
+  let query = supabase
+    .from(m.table)
+    .update(m.payload)
+    .eq(key, m.recordId);
+  if (m.baseUpdatedAt) query = query.eq('updated_at', m.baseUpdatedAt);
+  const { data, error } = await query.select(`${key}, updated_at`);
+  throwIfError(error);
+  if (data && data.length > 0) return { outcome: 'applied', recordId: m.recordId, version: versionOf(data) };
+
+  if (await rowExists(m)) return { outcome: 'conflict', recordId: m.recordId, version: null };
+
+  // Preferences are created on first write; other rows were deleted elsewhere
+  if (m.table === 'user_preferences') {
+    const { data: inserted, error: insertErr } = await supabase
+      .from(m.table)
+      .insert({ [key]: m.recordId, ...m.payload })
+      .select(`${key}, updated_at`);
+    throwIfError(insertErr);
+    return { outcome: 'applied', recordId: m.recordId, version: versionOf(inserted) };
+  }
+  return { outcome: 'conflict', recordId: m.recordId, version: null };
+}
+
+async function applyDelete(m: QueuedMutation): Promise<ApplyResult> {
+  const key = TABLE_KEYS[m.table];
+  let query = supabase
+    .from(m.table)
+    .delete()
+    .eq(key, m.recordId);
+  if (m.baseUpdatedAt) query = query.eq('updated_at', m.baseUpdatedAt);
+  const { data, error } = await query.select(key);
+  throwIfError(error);
+  // Already gone is fine; still there means it was edited after we read it
+  const outcome = data && data.length > 0 ? 'applied' : (await rowExists(m)) ? 'conflict' : 'applied';
+  return { outcome, recordId: m.recordId, version: null };
+}
+
+function applyMutation(m: QueuedMutation): Promise<ApplyResult> {
+  switch (m.op) {
+    case 'create': return applyCreate(m);
+    case 'update': return applyUpdate(m);
+    case 'delete': return applyDelete(m);
+  }
+}
+
+// ─── Local id remapping ───────────────────────────────────────────────────────
+
+/** Rewrite a `local_…` id to the server id in the queue and local caches. */
+async function remapLocalId(table: MutationTable, localId: string, serverId: string): Promise<void> {
+  await withQueue(async (queue) => ({
+    queue: queue.map((m) => {
+      let next = m;
+      if (m.table === table && m.recordId === localId) next = { ...next, recordId: serverId };
+      if (table === 'child_profiles' && next.payload.child_id === localId) {
+        next = { ...next, payload: { ...next.payload, child_id: serverId } };
+      }
+      if (table === 'story_sagas' && next.payload.saga_id === localId) {
+        next = { ...next, payload: { ...next.payload, saga_id: serverId } };
+      }
+      return next;
+    }),
+    result: undefined,
+  }));
+
+  try {
+    if (table === 'stories') {
+      await remapStoryId(localId, serverId);
+      const currentRaw = await AsyncStorage.getItem('current_story');
+      if (currentRaw) {
+        const current = JSON.parse(currentRaw) as { id?: string };
+        if (current.id === localId) {
+          await AsyncStorage.setItem('current_story', JSON.stringify({ ...current, id: serverId }));
+        }
+      }
+      // Story graphs and picture books are keyed by story id
+      for (const key of ['story_graphs', 'picture_books']) {
+        const raw = await AsyncStorage.getItem(key);
+        const byStory = raw ? (JSON.parse(raw) as Record<string, { storyId: string }>) : {};
+        if (byStory[localId]) {
+          byStory[serverId] = { ...byStory[localId], storyId: serverId };
+          delete byStory[localId];
+          await AsyncStorage.setItem(key, JSON.stringify(byStory));
+        }
+      }
+    } else if (table === 'child_profiles') {
+      const raw = await AsyncStorage.getItem('sync_child_profiles');
+      if (raw) {
+        const children = (JSON.parse(raw) as { id?: string }[])
+          .map((c) => (c.id === localId ? { ...c, id: serverId } : c));
+        await AsyncStorage.setItem('sync_child_profiles', JSON.stringify(children));
+      }
+      if ((await AsyncStorage.getItem('active_child_id')) === localId) {
+        await AsyncStorage.setItem('active_child_id', serverId);
+      }
+      // Per-child caches that reference the child by id
+      for (const key of ['story_sagas', 'story_characters']) {
+        const cached = await AsyncStorage.getItem(key);
+        if (!cached) continue;
+        const rows = (JSON.parse(cached) as { child_id?: string }[])
+          .map((r) => (r.child_id === localId ? { ...r, child_id: serverId } : r));
+        await AsyncStorage.setItem(key, JSON.stringify(rows));
+      }
+    } else if (table === 'story_characters') {
+      const raw = await AsyncStorage.getItem('story_characters');
+      if (raw) {
+        const characters = (JSON.parse(raw) as { id?: string }[])
+          .map((c) => (c.id === localId ? { ...c, id: serverId } : c));
+        await AsyncStorage.setItem('story_characters', JSON.stringify(characters));
+      }
+    } else if (table === 'story_sagas') {
+      const [sagasRaw, currentRaw] = await Promise.all([
+        AsyncStorage.getItem('story_sagas'),
+        AsyncStorage.getItem('current_story'),
+      ]);
+      if (sagasRaw) {
+        const sagas = (JSON.parse(sagasRaw) as { id?: string }[])
+          .map((s) => (s.id === localId ? { ...s, id: serverId } : s));
+        await AsyncStorage.setItem('story_sagas', JSON.stringify(sagas));
+      }
+      await remapStorySagaId(localId, serverId);
+      if (currentRaw) {
+        const current = JSON.parse(currentRaw) as { saga_id?: string };
+        if (current.saga_id === localId) {
+          await AsyncStorage.setItem('current_story', JSON.stringify({ ...current, saga_id: serverId }));
+        }
+      }
+    }
+  } catch (err) {
+    console.warn('[MutationQueue] Could not remap local id:', err);
+  }
+}
+
+// ─── Flush ────────────────────────────────────────────────────────────────────
+
+let activeFlush: Promise<MutationFlushResult> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleRetry(queue: QueuedMutation[]): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (queue.length === 0) return;
+  const due = Math.min(...queue.map((m) => m.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushMutations();
+  }, Math.max(1000, due - Date.now()));
+}
+
+/**
+ * Send every due mutation for the signed-in user, oldest first.
+ * Concurrent callers share the same run.
+ */
+export function flushMutations(): Promise<MutationFlushResult> {
+  if (activeFlush) return activeFlush;
+  activeFlush = runFlush().finally(() => { activeFlush = null; });
+  return activeFlush;
+}
+
+async function runFlush(): Promise<MutationFlushResult> {
+  const result: MutationFlushResult = { applied: 0, conflicts: 0, failed: 0 };
+  if (!isSupabaseAvailable) return result;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user?.id;
+  if (!userId) return result;
+
+  const blocked = new Set<string>();
+  const rowKey = (m: QueuedMutation) => `${m.table}:${m.recordId}`;
+
+  // Re-read each round so coalesced edits and remapped ids are picked up
+  for (;;) {
+    const queue = await readQueue();
+    const next = queue.find((m) =>
+      m.userId === userId &&
+      !blocked.has(rowKey(m)) &&
+      !inFlight.has(m.id) &&
+      m.nextAttemptAt <= Date.now()
+    );
+    if (!next) break;
+
+    // Later rows wait behind an earlier row they reference (e.g. a story of an unsaved child or saga)
+    const { child_id: childId, saga_id: sagaId } = next.payload;
+    if ((typeof childId === 'string' && isLocalId(childId)) || (typeof sagaId === 'string' && isLocalId(sagaId))) {
+      blocked.add(rowKey(next));
+      continue;
+    }
+
+    inFlight.add(next.id);
+    try {
+      const { outcome, recordId, version } = await applyMutation(next);
+      const base = next.baseUpdatedAt ?? null;
+      if (outcome === 'applied') await rememberVersions(next.table, [[recordId, version]]);
+      // Edits queued on top of this one now build on the version it wrote
+      await withQueue(async (q) => ({
+        queue: q
+          .filter((m) => m.id !== next.id)
+          .map((m) => (outcome === 'applied' && m.table === next.table && m.recordId === recordId
+            && (m.baseUpdatedAt ?? null) === base
+            ? { ...m, baseUpdatedAt: version }
+            : m)),
+        result: undefined,
+      }));
+      if (outcome === 'applied') result.applied++;
+      else {
+        result.conflicts++;
+        console.info(`[MutationQueue] ${next.op} on ${next.table}/${next.recordId} lost to a newer server copy`);
+      }
+    } catch (err) {
+      result.failed++;
+      blocked.add(rowKey(next));
+      const attempts = next.attempts + 1;
+      const giveUp = err instanceof ServerRejectedError && attempts >= MAX_ATTEMPTS;
+      await withQueue(async (q) => ({
+        queue: giveUp
+          ? q.filter((m) => m.id !== next.id)
+          : q.map((m) => (m.id === next.id
+            ? { ...m, attempts, lastError: errorMessage(err), nextAttemptAt: Date.now() + backoffMs(attempts) }
+            : m)),
+        result: undefined,
+      }));
+      if (giveUp) console.warn(`[MutationQueue] Dropping ${next.op} on ${next.table}/${next.recordId}:`, errorMessage(err));
+    } finally {
+      inFlight.delete(next.id);
+    }
+  }
+
+  scheduleRetry((await readQueue()).filter((m) => m.userId === userId));
+  return result;
+}
+
+// ─── Pull overlay ─────────────────────────────────────────────────────────────
+
+/**
+ * Re-apply mutations that haven't reached the server yet on top of freshly
+ * pulled rows, so a pull never hides a local edit that is still queued.
+ */
+export async function overlayPendingMutations<T extends object>(table: MutationTable, rows: T[]): Promise<T[]> {
+  const key = TABLE_KEYS[table] as keyof T;
+  // The versions later edits of these rows are made on top of
+  await rememberVersions(table, rows.flatMap((r) => {
+    const id = r[key];
+    const version = (r as { updated_at?: unknown }).updated_at;
+    return typeof id === 'string' && typeof version === 'string' ? [[id, version] as [string, string]] : [];
+  }));
+
+  const pending = (await readQueue()).filter((m) => m.table === table);
+  if (pending.length === 0) return rows;
+
+  let result = [...rows];
+  for (const m of pending) {
+    if (m.op === 'delete') {
+      result = result.filter((r) => r[key] !== m.recordId);
+    } else if (m.op === 'create') {
+      if (!result.some((r) => r[key] === m.recordId)) {
+        result = [{ ...m.payload, [key]: m.recordId, created_at: m.updatedAt, updated_at: m.updatedAt } as T, ...result];
+      }
+    } else {
+      // A row changed elsewhere since the edit was made will win the conflict
+      result = result.map((r) => {
+        const serverUpdatedAt = (r as { updated_at?: string }).updated_at;
+        return r[key] === m.recordId && (!m.baseUpdatedAt || serverUpdatedAt === m.baseUpdatedAt)
+          ? { ...r, ...m.payload }
+          : r;
+      });
+    }
+  }
+  return result;
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Replay the queue now and whenever the app returns to the foreground.
+ * Returns a function that stops listening.
+ */
+export function startMutationReplay(): () => void {
+  void flushMutations();
+  const sub = AppState.addEventListener('change', (state) => {
+    if (state === 'active') void flushMutations();
+  });
+  return () => {
+    sub.remove();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
+
+/** Drop every queued mutation (call on account deletion). */
+export async function clearMutationQueue(): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  await withQueue(async () => ({ queue: [], result: undefined }));
+  await AsyncStorage.removeItem(VERSIONS_KEY);
+}
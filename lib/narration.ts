@@ -0,0 +1,145 @@
+/**
+ * Story Narration
+ *
+ * Turns a story into spoken audio in the active ParentVoice, one paragraph
+ * at a time, so the player can highlight the paragraph being read.
+ *
+ * Voice synthesis is pluggable: a VoiceSynthesisProvider speaks a single
+ * paragraph in a given ParentVoice. Until a voice-cloning backend is
+ * connected, the local stand-in uses the device speech engine (expo-speech)
+ * tuned to the parent's voice type.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import { getActiveChildId } from './activeChild';
+import { supabase, isSupabaseAvailable, type ParentVoice } from './supabase';
+import { getCachedVoices } from './syncService';
+import { isVoiceSelectable } from './voiceInvites';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SpeakOptions {
+  voice: ParentVoice | null;
+  /** BCP-47 language tag, e.g. 'en-GB' */
+  language?: string;
+  /** 0–1 playback volume for this paragraph (the sleep-timer fade); defaults to 1 */
+  volume?: number;
+  /** Called as words are spoken with the fraction (0–1) of the paragraph read */
+  onProgress?: (fraction: number) => void;
+  /** Called once when the paragraph has been read to the end */
+  onDone: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface VoiceSynthesisProvider {
+  readonly id: string;
+  readonly label: string;
+  /** Whether this provider can narrate in the given voice */
+  supportsVoice(voice: ParentVoice | null): boolean;
+  /** Begin speaking one paragraph. Resolves once playback has started. */
+  speak(text: string, options: SpeakOptions): Promise<void>;
+  /** Stop any paragraph currently being spoken. `onDone` must not fire afterwards. */
+  stop(): Promise<void>;
+}
+
+// ─── Local stand-in provider ──────────────────────────────────────────────────
+
+// Bedtime pacing: slightly slower than conversational speech
+const LOCAL_SPEECH_RATE = 0.85;
+
+const LOCAL_PITCH: Record<ParentVoice['voice_type'], number> = {
+  mom:    1.1,
+  dad:    0.85,
+  custom: 1.0,
+};
+
+export const localSpeechProvider: VoiceSynthesisProvider = {
+  id:    'local_speech',
+  label: 'On-device voice',
+
+  supportsVoice: () => true,
+
+  async speak(text, { voice, language, volume, onProgress, onDone, onError }) {
+    Speech.speak(text, {
+      language,
+      // Only honoured on web; native engines always speak at system volume
+      volume,
+      rate:  LOCAL_SPEECH_RATE,
+      pitch: LOCAL_PITCH[voice?.voice_type ?? 'custom'],
+      onBoundary: onProgress
+        ? (ev: { charIndex: number }) => onProgress(Math.min(ev.charIndex / Math.max(text.length, 1), 1))
+        : null,
+      onDone: () => onDone(),
+      onError: (err) => onError?.(err),
+    });
+  },
+
+  async stop() {
+    await Speech.stop();
+  },
+};
+
+// ─── Provider registry ────────────────────────────────────────────────────────
+
+const providers: VoiceSynthesisProvider[] = [];
+
+/**
+ * Register a synthesis provider (e.g. a voice-cloning service).
+ * Providers registered later take precedence over earlier ones.
+ */
+export function registerVoiceProvider(provider: VoiceSynthesisProvider): void {
+  const existing = providers.findIndex((p) => p.id === provider.id);
+  if (existing !== -1) providers.splice(existing, 1);
+  providers.unshift(provider);
+}
+
+/** Pick the best provider for a voice, falling back to the local stand-in. */
+export function resolveVoiceProvider(voice: ParentVoice | null): VoiceSynthesisProvider {
+  return providers.find((p) => p.supportsVoice(voice)) ?? localSpeechProvider;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Split story text into narration paragraphs.
+ * AI stories separate paragraphs with blank lines; older stories may only
+ * use single line breaks.
+ */
+export function splitIntoParagraphs(content: string): string[] {
+  const byBlankLine = content.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  if (byBlankLine.length > 1) return byBlankLine;
+  return content.split('\n').map((p) => p.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the active ParentVoice from the local voice cache, or null if none.
+ * Only voices the home switcher offers (isVoiceSelectable) narrate: an
+ * invited voice waiting for approval, or recorded for another child, never does.
+ */
+export async function loadActiveParentVoice(): Promise<ParentVoice | null> {
+  try {
+    const [voiceId, voices, childId, session] = await Promise.all([
+      AsyncStorage.getItem('active_voice_id'),
+      getCachedVoices(),
+      getActiveChildId(),
+      isSupabaseAvailable ? supabase.auth.getSession() : null,
+    ]);
+    const userId = session?.data.session?.user.id;
+    const selectable = voices.filter((v) => isVoiceSelectable(v, userId, childId));
+    if (voiceId) {
+      const active = selectable.find((v) => v.id === voiceId);
+      if (active) return active;
+    }
+    return selectable[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Display label for a narrating voice, e.g. "Mum's voice". */
+export function voiceDisplayName(voice: ParentVoice | null): string {
+  if (!voice) return 'Storyteller voice';
+  if (voice.voice_name) return `${voice.voice_name}'s voice`;
+  return voice.voice_type === 'mom' ? "Mum's voice" : voice.voice_type === 'dad' ? "Dad's voice" : 'Family voice';
+}
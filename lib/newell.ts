@@ -5,7 +5,7 @@
  * Uses the @fastshot/ai package for all AI interactions.
  */
 
-import type { Child } from './supabase';
+import type { Child, ChildInclusion, SagaEntity, StoryCharacter, StorySaga } from './supabase';
 
 export interface StoryGenerationInput {
   child: Child;
@@ -13,12 +13,197 @@ export interface StoryGenerationInput {
   theme?: string;
   mood?: string;
   narratorPersonality?: NarratorPersonality;
+  /** Members of the child's recurring cast to feature (lib/characters) */
+  characters?: StoryCharacter[];
+  /** App language (lib/i18n); stories are written in English without one */
+  language?: string;
 }
 
+export interface ReadingLevel {
+  /** Target age range, e.g. "5-7" */
+  ageBand: string;
+  level: 'early' | 'developing' | 'fluent';
+  wordCount: number;
+  /** Estimated read-aloud time at a slow bedtime pace */
+  readingMinutes: number;
+}
+
+export interface StoryChoicePoint {
+  question: string;
+  options: ChoiceOption[];
+}
+
+/** What a saga chapter hands back for the next night (see lib/sagas). */
+export interface SagaMemoryUpdate {
+  /** "Previously on…" recap of the chapters before this one; null for chapter 1 */
+  recap: string | null;
+  /** Summary of the whole saga including this chapter */
+  summary: string;
+  characters: SagaEntity[];
+  places: SagaEntity[];
+}
+
+/** A validated story, produced by lib/storyGeneration from the JSON output below. */
 export interface GeneratedStory {
   title: string;
   paragraphs: string[];
+  /** Cover scene described by the model; feed it to buildImagePrompt */
   imagePrompt: string;
+  /** Only for interactive stories */
+  choicePoint: StoryChoicePoint | null;
+  readingLevel: ReadingLevel;
+  /** Only for saga chapters */
+  sagaMemory: SagaMemoryUpdate | null;
+}
+
+// ──────────────────────────────────────────────────────────
+// Structured output – every story prompt asks for this JSON
+// ──────────────────────────────────────────────────────────
+export type StoryKind = 'bedtime' | 'interactive' | 'chapter';
+
+/** JSON shape of a choice point with 2–3 options, shared by stories and story nodes. */
+const CHOICE_POINT_FORMAT = `{ "question": "<one gentle sentence asking what to do next>", "options": [
+      { "emoji": "<one emoji>", "label": "<4–6 word label>", "hint": "<one calming sentence>" },
+      { "emoji": "<one emoji>", "label": "<4–6 word label>", "hint": "<one calming sentence>" }
+      <optionally a third option in the same shape>
+    ] }`;
+
+function buildStoryOutputFormat(kind: StoryKind, paragraphCount: number): string {
+  const choicePoint = kind === 'interactive' ? CHOICE_POINT_FORMAT : 'null';
+  const sagaMemory = kind === 'chapter'
+    ? `,
+  "saga_memory": {
+    "recap": "<2–3 sentence 'Previously on…' recap of the earlier chapters, or null for chapter 1>",
+    "summary": "<the whole saga so far including tonight's chapter, max 120 words>",
+    "characters": [{ "name": "<name>", "description": "<who they are, look and personality, max 20 words>" }],
+    "places": [{ "name": "<name>", "description": "<what it looks and feels like, max 20 words>" }]
+  }`
+    : '';
+
+  return `
+OUTPUT: Return ONLY one JSON object – no markdown, no code fences, no commentary:
+{
+  "title": "<evocative 3–7 word story title, not just the child's name>",
+  "paragraphs": [<exactly ${paragraphCount} strings, one per paragraph>],
+  "image_prompt": "<one sentence describing the cover scene: setting, characters, light. No text or letters>",
+  "reading_level": { "age_band": "<e.g. 3-5>", "level": "<early | developing | fluent>" },
+  "choice_point": ${choicePoint}${sagaMemory}
+}
+`.trim();
+}
+
+/** Asks the model to turn a malformed response into the JSON format above. */
+export function buildStoryRepairPrompt(rawOutput: string, problems: string[], kind: StoryKind): string {
+  const paragraphCount = kind === 'interactive' ? 3 : 5;
+  return `
+The bedtime story below should be a single JSON object in the format given, but has these problems:
+${problems.map((p) => `- ${p}`).join('\n')}
+
+Fix them without changing the story's wording more than necessary.
+${buildStoryOutputFormat(kind, paragraphCount)}
+
+BROKEN OUTPUT:
+${rawOutput.slice(0, 4000)}
+`.trim();
+}
+
+// ──────────────────────────────────────────────────────────
+// Content boundaries – the parent's avoid / fears / include
+// lists for a child, added to every prompt below
+// ──────────────────────────────────────────────────────────
+export type ChildBoundaries = Pick<Child, 'avoid_topics' | 'fears' | 'inclusions'>;
+
+const INCLUSION_KIND_LABELS: Record<ChildInclusion['kind'], string> = {
+  pet:     'their pet',
+  sibling: 'their sibling',
+  comfort: 'their comfort object',
+  other:   'someone special to them',
+};
+
+/**
+ * Prompt lines for a child's boundaries ('' when none are set).
+ * Inclusions only make sense where new story content is written.
+ */
+function buildBoundaryGuide(boundaries?: ChildBoundaries | null, withInclusions = false): string {
+  if (!boundaries) return '';
+  const avoid      = (boundaries.avoid_topics ?? []).filter((t) => t.trim());
+  const fears      = (boundaries.fears ?? []).filter((t) => t.trim());
+  const inclusions = withInclusions ? (boundaries.inclusions ?? []).filter((i) => i.name.trim()) : [];
+
+  const lines: string[] = [];
+  if (avoid.length > 0) {
+    lines.push(`NEVER mention or hint at (set by the parent): ${avoid.join(', ')}.`);
+  }
+  if (fears.length > 0) {
+    lines.push(`The child is afraid of: ${fears.join(', ')}. Leave these out entirely – not even a friendly version.`);
+  }
+  if (inclusions.length > 0) {
+    const list = inclusions.map((i) => `${i.name} (${INCLUSION_KIND_LABELS[i.kind]})`).join(', ');
+    lines.push(`MUST appear by name, warm and safe: ${list}.`);
+  }
+  return lines.length > 0 ? `BOUNDARIES:\n${lines.map((l) => `- ${l}`).join('\n')}` : '';
+}
+
+// ──────────────────────────────────────────────────────────
+// Language – what the child hears is written in the app
+// language; the JSON keys and markers stay in English
+// ──────────────────────────────────────────────────────────
+function buildLanguageGuide(language?: string | null): string {
+  if (!language || language === 'en') return '';
+  const name = LANGUAGE_NAMES[language] ?? language;
+  return `LANGUAGE: Write everything the child will read or hear in ${name}, with natural, simple ${name} a parent would read aloud. Keep names, and any JSON keys, unchanged.`;
+}
+
+// ──────────────────────────────────────────────────────────
+// Recurring cast – the child's returning characters, kept
+// the same in every story and illustration
+// ──────────────────────────────────────────────────────────
+export type CastMember = Pick<StoryCharacter, 'name' | 'species' | 'personality' | 'appearance'>;
+
+function describeCastMember(c: CastMember): string {
+  return [`${c.name}${c.species ? ` the ${c.species}` : ''}`, c.personality, c.appearance && `looks: ${c.appearance}`]
+    .filter(Boolean)
+    .join(' — ');
+}
+
+/** Prompt lines asking a story to feature cast members ('' when none). */
+function buildCastGuide(characters?: CastMember[]): string {
+  if (!characters || characters.length === 0) return '';
+  return `RECURRING CHARACTERS (old friends ${characters.length > 1 ? 'who appear' : 'who appears'} by name; keep name, species, personality and looks exactly as written):
+${characters.map((c) => `- ${describeCastMember(c)}`).join('\n')}`;
+}
+
+/**
+ * Invent one new cast member for a child. Output is JSON:
+ * { "name", "species", "emoji", "personality", "appearance" }.
+ */
+export function buildCharacterPrompt(
+  child: Pick<Child, 'name' | 'age' | 'interests'> & ChildBoundaries,
+  idea?: string,
+  existing: CastMember[] = [],
+  language?: string
+): string {
+  const ageText = child.age ? `${child.age}-year-old` : 'young';
+  return `
+Invent ONE gentle, friendly recurring companion for the bedtime stories of ${ageText} ${child.name}.
+${child.interests.length > 0 ? `Their favourite themes are: ${child.interests.join(', ')}.` : ''}
+${idea?.trim() ? `The parent's idea: ${idea.trim()}.` : ''}
+${existing.length > 0 ? `Already in the cast (make someone different): ${existing.map((c) => c.name).join(', ')}.` : ''}
+
+RULES: Made-up name (no famous characters, brands or real people). Kind, calm and never scary.
+Appearance must be concrete and visual (colours, size, one distinctive detail) so an illustrator can draw them the same way every time.
+${buildBoundaryGuide(child)}
+${buildLanguageGuide(language)}
+
+OUTPUT: Respond with ONLY this JSON object – no markdown, no commentary:
+{
+  "name": "<1–2 words>",
+  "species": "<what kind of creature or being, 1–3 words>",
+  "emoji": "<one emoji>",
+  "personality": "<one sentence, max 20 words>",
+  "appearance": "<one sentence, max 30 words>"
+}
+`.trim();
 }
 
 // ──────────────────────────────────────────────────────────
@@ -198,19 +383,96 @@ STRUCTURE:
 
 RULES: 5 paragraphs, 2–4 sentences each. 150–250 words. Simple dreamy language. No peril in P4–5. Rhythm slows like a song fading.
 
+${buildBoundaryGuide(child, true)}
+
+${buildCastGuide(input.characters)}
+
 ${narratorGuide}
+
+${buildLanguageGuide(input.language)}
+
+${buildStoryOutputFormat('bedtime', 5)}
+`.trim();
+}
+
+// ──────────────────────────────────────────────────────────
+// Saga chapter prompt – one night of a story that continues
+// across nights (see lib/sagas)
+// ──────────────────────────────────────────────────────────
+export type SagaContext = Pick<StorySaga, 'title' | 'characters' | 'places' | 'summary' | 'chapter_count'>;
+
+function formatEntities(entities: SagaEntity[]): string {
+  return entities.map((e) => `- ${e.name}: ${e.description}`).join('\n');
+}
+
+export function buildSagaChapterPrompt(
+  input: StoryGenerationInput,
+  saga: SagaContext | null,
+  options: { finale?: boolean } = {}
+): string {
+  const { child, theme, mood, narratorPersonality } = input;
+  const chapter = (saga?.chapter_count ?? 0) + 1;
+  const ageText = child.age ? `${child.age}-year-old` : 'young';
+
+  const narratorIntro = narratorPersonality
+    ? `You are ${narratorPersonality.name} ${narratorPersonality.species}, narrating in the "${narratorPersonality.style}" style.`
+    : '';
+
+  const memory = saga && saga.chapter_count > 0
+    ? `
+SAGA SO FAR ("${saga.title}"):
+${saga.summary}
+${saga.characters.length > 0 ? `\nCHARACTERS:\n${formatEntities(saga.characters)}` : ''}
+${saga.places.length > 0 ? `\nPLACES:\n${formatEntities(saga.places)}` : ''}
+
+CONTINUITY: Keep every name, look and personality above exactly as established. Pick up where the last chapter ended. New friends and places are welcome; old ones never change.`
+    : `This is CHAPTER 1 of a new saga. Introduce ${child.name}, one or two friendly companions and a cosy home place that later chapters can return to.`;
+
+  const ending = options.finale
+    ? 'This is the FINAL chapter: gently resolve the saga\'s adventure so everyone ends safe, happy and at home.'
+    : 'Leave ONE small, gentle thread for next night (a map to read tomorrow, a friend to visit) — curious, never a cliffhanger or worry.';
+
+  return `
+${narratorIntro}
+Chapter ${chapter} of an ongoing bedtime saga for ${ageText} ${child.name}, told over many nights.
+${child.interests.length > 0 ? `Their favourite themes are: ${child.interests.join(', ')}.` : ''}${theme ? ` Theme: ${theme}.` : ''}${mood ? ` Mood: ${mood}.` : ''}
+${memory}
+
+STRUCTURE:
+- P1–3: Tonight's gentle adventure, soft unhurried language.
+- P4: World grows quiet and still. Short rhythmic sentences.
+- P5 (SLEEPY ENDING): ${child.name} settles down to sleep. ${ending}
+
+RULES: 5 paragraphs, 2–4 sentences each. 150–250 words. Simple dreamy language. No peril in P4–5.
+
+${buildBoundaryGuide(child, true)}
+
+${buildCastGuide(input.characters)}
+
+${narratorPersonality ? buildNarratorStyleGuide(narratorPersonality.style) : ''}
+
+${buildLanguageGuide(input.language)}
+
+${buildStoryOutputFormat('chapter', 5)}
 `.trim();
 }
 
 // ──────────────────────────────────────────────────────────
 // Narrator preview prompt – short sample to demonstrate style
 // ──────────────────────────────────────────────────────────
-export function buildNarratorPreviewPrompt(personality: NarratorPersonality, childName?: string): string {
+export function buildNarratorPreviewPrompt(
+  personality: NarratorPersonality,
+  childName?: string,
+  boundaries?: ChildBoundaries | null,
+  language?: string
+): string {
   const name = childName ?? 'little dreamer';
   return `
 You are ${personality.name} ${personality.species}.
 ${buildNarratorStyleGuide(personality.style)}
 Write ONE paragraph (2–3 sentences, 35–50 words) greeting ${name} in your unique voice.
+${buildBoundaryGuide(boundaries)}
+${buildLanguageGuide(language)}
 Output ONLY the paragraph — no title, no quotes, no extra text.
 `.trim();
 }
@@ -232,14 +494,74 @@ export function buildVoiceScript(voiceType: 'mom' | 'dad' | 'custom'): string[]
 // ──────────────────────────────────────────────────────────
 // Image prompt builder – for the story cover illustration
 // ──────────────────────────────────────────────────────────
-export function buildImagePrompt(child: Child, storyTitle: string): string {
+export function buildImagePrompt(
+  child: Child,
+  storyTitle: string,
+  scene?: string,
+  characters: CastMember[] = []
+): string {
   const interests = child.interests.slice(0, 2).join(' and ');
+  const subject = scene?.trim()
+    ? `${scene.trim()} Bathed in moonlight.`
+    : `A peaceful sleeping child surrounded by ${interests || 'glowing stars and woodland creatures'}, bathed in moonlight.`;
+  const avoid = [...(child.avoid_topics ?? []), ...(child.fears ?? [])].filter((t) => t.trim());
+  // Same description every time keeps recurring characters recognisable between covers
+  const cast = characters
+    .filter((c) => c.appearance.trim())
+    .map((c) => `${c.name}${c.species ? ` (${c.species})` : ''}: ${c.appearance.trim()}`);
   return `
 Soft, ethereal, dreamlike children's book illustration. Central subject perfectly centred in frame.
-A peaceful sleeping child surrounded by ${interests || 'glowing stars and woodland creatures'}, bathed in moonlight.
+${subject}${cast.length > 0 ? `\nRecurring characters, drawn exactly as described: ${cast.join('; ')}.` : ''}
 Style: luminous watercolour, frosted glass pastels, gossamer light rays, gentle bokeh.
 Mood: celestial, hushed, magically soothing. No harsh lines. Title theme: "${storyTitle}".
-Square composition, subject centred, generous negative space, dreamy vignette edges.
+Square composition, subject centred, generous negative space, dreamy vignette edges.${avoid.length > 0 ? `\nDo not depict: ${avoid.join(', ')}.` : ''}
+`.trim();
+}
+
+// ──────────────────────────────────────────────────────────
+// Picture Book – one illustration per paragraph
+// ──────────────────────────────────────────────────────────
+const PICTURE_BOOK_PALETTES = [
+  'midnight blue, lavender and warm candle gold',
+  'sea-glass teal, pearl white and soft coral',
+  'forest green, moss and honey amber',
+  'dusky rose, plum and silver starlight',
+];
+const PICTURE_BOOK_MEDIUMS = [
+  'gouache with soft pencil outlines',
+  'luminous watercolour with salt-texture skies',
+  'pastel chalk on velvety dark paper',
+];
+
+/**
+ * The art direction shared by every page of one picture book. Derived from
+ * the story title so the same story always gets the same look, and pasted
+ * verbatim into each page prompt so the pages read as one book.
+ */
+export function buildStyleSeed(storyTitle: string): string {
+  let hash = 0;
+  for (const ch of storyTitle) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  const palette = PICTURE_BOOK_PALETTES[hash % PICTURE_BOOK_PALETTES.length];
+  const medium  = PICTURE_BOOK_MEDIUMS[Math.floor(hash / PICTURE_BOOK_PALETTES.length) % PICTURE_BOOK_MEDIUMS.length];
+  return `${medium}; palette of ${palette}; gentle moonlit lighting; rounded, friendly shapes`;
+}
+
+export function buildPageImagePrompt(
+  child: Child,
+  page: { title: string; paragraph: string; pageNumber: number; pageCount: number },
+  styleSeed: string,
+  characters: CastMember[] = []
+): string {
+  const avoid = [...(child.avoid_topics ?? []), ...(child.fears ?? [])].filter((t) => t.trim());
+  const cast = characters
+    .filter((c) => c.appearance.trim())
+    .map((c) => `${c.name}${c.species ? ` (${c.species})` : ''}: ${c.appearance.trim()}`);
+  return `
+Children's picture book illustration, page ${page.pageNumber} of ${page.pageCount} of "${page.title}".
+Illustrate this moment of the story: ${page.paragraph.trim()}
+The main character is ${child.name}, a ${child.age ?? 5}-year-old child, drawn the same way on every page.${cast.length > 0 ? `\nRecurring characters, drawn exactly as described: ${cast.join('; ')}.` : ''}
+Art style for the whole book (keep identical on every page): ${styleSeed}.
+Calm, cosy bedtime mood. No text or lettering in the image. Landscape composition with room to breathe.${avoid.length > 0 ? `\nDo not depict: ${avoid.join(', ')}.` : ''}
 `.trim();
 }
 
@@ -292,7 +614,9 @@ export function buildReflectionQuestionsPrompt(
   storyTitle: string,
   storyContent: string,
   childName: string,
-  lifeNotes?: string | null
+  lifeNotes?: string | null,
+  boundaries?: ChildBoundaries | null,
+  language?: string
 ): string {
   const lifeContext = lifeNotes
     ? `Things about ${childName} right now: ${lifeNotes}.`
@@ -303,6 +627,8 @@ Gentle bedtime companion. 2 reflection questions for ${childName} after "${story
 Excerpt: "${storyExcerpt}…"${lifeContext ? ` ${lifeContext}` : ''}
 
 RULES: Tender, open-ended, calming. Use "you". Max 12 words each.
+${buildBoundaryGuide(boundaries)}
+${buildLanguageGuide(language)}
 Return ONLY 2 questions, one per line. No numbering, no extra text.
 `.trim();
 }
@@ -313,7 +639,9 @@ Return ONLY 2 questions, one per line. No numbering, no extra text.
 export function buildWelcomeGreetingPrompt(
   narratorPersonality: NarratorPersonality,
   childName: string,
-  timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night'
+  timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night',
+  boundaries?: ChildBoundaries | null,
+  language?: string
 ): string {
   const greeting = timeOfDay === 'morning' ? 'Good morning' :
     timeOfDay === 'afternoon' ? 'Good afternoon' :
@@ -329,6 +657,8 @@ export function buildWelcomeGreetingPrompt(
 You are ${narratorPersonality.name} ${narratorPersonality.species} (${styleHint[narratorPersonality.style]}).
 ${greeting}, ${childName} has just opened their bedtime story app.
 Write exactly 2 sentences (≤40 words): first warmly greet them as if you missed them; second invite them to start a story tonight.
+${buildBoundaryGuide(boundaries)}
+${buildLanguageGuide(language)}
 No title, no formatting — plain greeting text only.
 `.trim();
 }
@@ -336,7 +666,12 @@ No title, no formatting — plain greeting text only.
 // ──────────────────────────────────────────────────────────
 // Story Growth Themes extractor
 // ──────────────────────────────────────────────────────────
-export function buildGrowthThemesPrompt(storyTitles: string[], storyContents: string[]): string {
+export function buildGrowthThemesPrompt(
+  storyTitles: string[],
+  storyContents: string[],
+  boundaries?: ChildBoundaries | null,
+  language?: string
+): string {
   const stories = storyTitles.slice(0, 5).map((title, i) =>
     `Story ${i + 1}: "${title}" — ${(storyContents[i] ?? '').slice(0, 150)}...`
   ).join('\n');
@@ -348,6 +683,8 @@ ${stories}
 Return ONLY a JSON array — no other text:
 [{"theme":"Name","emoji":"emoji","description":"max 12 words","count":N}]
 Themes: Kindness, Bravery, Friendship, Curiosity, Compassion, Creativity, Perseverance, Gratitude, Love, Wonder.
+${buildBoundaryGuide(boundaries)}
+${language && language !== 'en' ? `Write "theme" and "description" in ${LANGUAGE_NAMES[language] ?? language}.` : ''}
 `.trim();
 }
 
@@ -361,11 +698,8 @@ export interface ChoiceOption {
   value: string;
 }
 
-export function buildInteractiveStoryPrompt(
-  input: StoryGenerationInput,
-  language?: string
-): string {
-  const { child, theme, narratorPersonality } = input;
+export function buildInteractiveStoryPrompt(input: StoryGenerationInput): string {
+  const { child, theme, narratorPersonality, language } = input;
   const interests = child.interests.length > 0
     ? `Their favourite themes are: ${child.interests.join(', ')}.`
     : '';
@@ -377,68 +711,135 @@ export function buildInteractiveStoryPrompt(
   const narratorIntro = narratorPersonality
     ? `You are ${narratorPersonality.name} ${narratorPersonality.species}, narrating in the "${narratorPersonality.style}" style.`
     : '';
-  const langNote = language && language !== 'en'
-    ? `IMPORTANT: Write the entire story in ${LANGUAGE_NAMES[language] ?? language}. The narrator character and their personality must be preserved, but the language must be ${LANGUAGE_NAMES[language] ?? language}.`
-    : '';
 
   return `
-${narratorIntro}${langNote ? `\n${langNote}` : ''}
+${narratorIntro}
 Interactive bedtime adventure, first part, for ${ageText} ${child.name}.
 ${interests}${lifeNotes}${theme ? `Theme: ${theme}.` : ''}
 
-3 paragraphs (2–3 sentences each, 100–140 words total). P3 ends at a magical choice moment.
-After P3, append:
+3 paragraphs (2–3 sentences each, 100–140 words total). P3 ends at a magical choice moment,
+offered as a choice_point with 2 or 3 paths.
 
-[CHOICE_POINT]
-PATH_A_EMOJI: [emoji]
-PATH_A_LABEL: [4–6 word label]
-PATH_A_HINT: [one calming sentence]
-PATH_B_EMOJI: [emoji]
-PATH_B_LABEL: [4–6 word label]
-PATH_B_HINT: [one calming sentence]
-[/CHOICE_POINT]
-
-Both paths: safe, calming, good outcome. Simple dreamy language.
+Every path: safe, calming, good outcome. Simple dreamy language.
+${buildBoundaryGuide(child, true)}
+${buildCastGuide(input.characters)}
 ${narratorGuide}
+${buildLanguageGuide(language)}
+
+${buildStoryOutputFormat('interactive', 3)}
 `.trim();
 }
 
 // ──────────────────────────────────────────────────────────
-// Story Branch continuation builder
-// Generates the conclusion after a child makes a choice
+// Story node builder – one step down an interactive story's
+// graph (lib/storyGraph). Nodes short of the depth limit end
+// at a new choice; the last one is always the sleepy ending.
 // ──────────────────────────────────────────────────────────
-export function buildStoryBranchPrompt(
-  storyStart: string,
-  chosenPath: string,
-  childName: string,
-  narratorPersonality?: NarratorPersonality,
-  language?: string
-): string {
+export interface StoryNodePromptInput {
+  /** Everything read so far along this path */
+  storySoFar: string;
+  chosenPath: string;
+  childName: string;
+  /** Choices already made, including this one */
+  depth: number;
+  maxDepth: number;
+  narratorPersonality?: NarratorPersonality;
+  language?: string;
+  boundaries?: ChildBoundaries | null;
+  characters?: CastMember[];
+}
+
+export function buildStoryNodePrompt(input: StoryNodePromptInput): string {
+  const { storySoFar, chosenPath, childName, depth, maxDepth, narratorPersonality, language, boundaries } = input;
+  const isEnding = depth >= maxDepth;
   const narratorGuide = narratorPersonality ? buildNarratorStyleGuide(narratorPersonality.style) : '';
   const narratorIntro = narratorPersonality
     ? `You are ${narratorPersonality.name} ${narratorPersonality.species}.`
     : '';
-  const langNote = language && language !== 'en'
-    ? `IMPORTANT: Write entirely in ${LANGUAGE_NAMES[language] ?? language}.`
-    : '';
 
-  // Trim context to only first 400 chars — enough to preserve voice, minimal tokens
-  const contextSnippet = storyStart.slice(0, 400);
+  // The opening preserves the voice, the tail keeps the thread – minimal tokens
+  const context = storySoFar.length > 900
+    ? `${storySoFar.slice(0, 400)}…\n…${storySoFar.slice(-500)}`
+    : storySoFar;
+
+  const structure = isEnding
+    ? `STRUCTURE — 2 paragraphs, 80–100 words total:
+- Para 1 (3 sentences): Adventure continues gently on the chosen path and winds down. Calming.
+- Para 2 (3 sentences): SLEEPY ENDING — eyes heavy, breathing slow, drift to sleep. Rhythmic, repetitive. End with one very short tender sentence.`
+    : `STRUCTURE — 2 paragraphs, 70–100 words total:
+- Para 1: Adventure continues gently on the chosen path. Calming.
+- Para 2: Things grow a little quieter${maxDepth - depth === 1 ? ', heading home towards bed' : ''}, then pause at a new magical choice moment.
+Offer it as a choice_point with 2 or 3 paths. Every path is safe and calm${maxDepth - depth === 1 ? ' and leads back to bed' : ''}.`;
 
   return `
 ${narratorIntro}
-${langNote}
-Continue this bedtime story for ${childName}. Chosen path: "${chosenPath}".
+Continue this interactive bedtime story for ${childName}. Chosen path: "${chosenPath}".
+This is step ${depth} of ${maxDepth}${isEnding ? ' – the final step' : ''}.
 
-Story context:
-${contextSnippet}…
+Story so far:
+${context}
 
-STRUCTURE — 2 paragraphs, 80–100 words total:
-- Para 1 (3 sentences): Adventure continues gently on the chosen path. Calming.
-- Para 2 (3 sentences): SLEEPY ENDING — eyes heavy, breathing slow, drift to sleep. Rhythmic, repetitive. End with one very short tender sentence.
+${structure}
 
-RULES: Warm, safe, soothing. Max 50 words per paragraph. No new characters or plot twists.
+RULES: Warm, safe, soothing. Max 50 words per paragraph. No plot twists; keep the characters already in the story.
+${buildBoundaryGuide(boundaries)}
+${buildCastGuide(input.characters)}
 ${narratorGuide}
+${buildLanguageGuide(language)}
+
+OUTPUT: Return ONLY one JSON object – no markdown, no code fences, no commentary:
+{
+  "paragraphs": [<exactly 2 strings>],
+  "choice_point": ${isEnding ? 'null' : CHOICE_POINT_FORMAT}
+}
+`.trim();
+}
+
+// ──────────────────────────────────────────────────────────
+// Content safety – rewrite passages flagged by lib/contentSafety
+// ──────────────────────────────────────────────────────────
+export function buildSofteningPrompt(
+  passages: { text: string; reasons: string[] }[],
+  age?: number | null,
+  boundaries?: ChildBoundaries | null
+): string {
+  const ageText = age ? `${age}-year-old` : 'young';
+  const numbered = passages
+    .map((p, i) => `${i + 1}. ${p.text}\n   Problems: ${p.reasons.join('; ')}`)
+    .join('\n\n');
+
+  return `
+These passages from a bedtime story for a ${ageText} child were flagged by a safety check.
+Rewrite each one so the problems are gone while keeping its place in the story, its length and its language.
+
+RULES: Calm and safe — no danger, fear or injury, nothing a child could copy unsafely, no real brands, products, celebrities or franchise characters (invent gentle names instead).
+${buildBoundaryGuide(boundaries)}
+
+${numbered}
+
+OUTPUT: Return ONLY one JSON object – no markdown, no commentary:
+{ "passages": [<exactly ${passages.length} strings, in the same order>] }
+`.trim();
+}
+
+/**
+ * Put the parent's avoid-topics and fears into the language a story is
+ * written in, so lib/contentSafety can look for them there. Output is JSON:
+ * { "terms": [[<words for term 1>], …] }.
+ */
+export function buildBoundaryTermsPrompt(terms: string[], language: string): string {
+  const name = LANGUAGE_NAMES[language] ?? language;
+  const numbered = terms.map((t, i) => `${i + 1}. ${t}`).join('\n');
+
+  return `
+A parent asked for these topics to be kept out of their child's bedtime stories.
+For each one, list the words a children's story in ${name} would use for it: singular and plural, masculine and feminine forms, and common synonyms.
+RULES: Lowercase, no articles, no explanations. Single words or short phrases only.
+
+${numbered}
+
+OUTPUT: Return ONLY one JSON object – no markdown, no commentary:
+{ "terms": [<exactly ${terms.length} arrays of strings, in the same order>] }
 `.trim();
 }
 
@@ -463,19 +864,27 @@ export const LANGUAGE_NAMES: Record<string, string> = {
 };
 
 export function buildTranslationPrompt(
-  content: string,
+  story: { title: string; paragraphs: string[] },
   targetLanguage: LanguageCode,
-  narratorPersonality?: NarratorPersonality
+  narratorPersonality?: NarratorPersonality | null,
+  boundaries?: ChildBoundaries | null
 ): string {
   const narratorNote = narratorPersonality
     ? `The text was originally narrated by ${narratorPersonality.name} ${narratorPersonality.species} in a "${narratorPersonality.style}" style. Preserve this personality and tone in the translation.`
     : '';
+  const numbered = story.paragraphs.map((p, i) => `${i + 1}. ${p}`).join('\n\n');
 
   return `
 Translate this children's bedtime story into ${LANGUAGE_NAMES[targetLanguage]}.
 ${narratorNote}
-Rules: warm soothing tone, preserve paragraph breaks, child-appropriate vocabulary, leave [CHOICE_POINT] markers unchanged. Return ONLY the translation.
+Rules: warm soothing tone, child-appropriate vocabulary, keep every name, translate each paragraph on its own so they stay in the same order.
+${buildBoundaryGuide(boundaries)}
+
+Title: ${story.title}
+
+${numbered}
 
-${content}
+OUTPUT: Return ONLY one JSON object – no markdown, no commentary:
+{ "title": "<translated title>", "paragraphs": [<exactly ${story.paragraphs.length} strings, in the same order>] }
 `.trim();
 }
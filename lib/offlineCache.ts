@@ -1,16 +1,25 @@
 /**
  * Offline Cache Service — Phase 7
  *
- * Caches generated story text and metadata locally using AsyncStorage
- * so children can access their favourite stories without a network connection.
+ * Keeps played stories available without a network connection. Stories
+ * live in lib/storyStore, which holds every story on the device, so nothing
+ * is evicted any more – caching a story records it there (with cached_at)
+ * and this module reports on the store.
  *
  * Cache keys:
- *   offline_story_<id>          → full story object (text, title, theme, image_url)
- *   offline_story_ids           → JSON array of cached story IDs
  *   offline_cache_meta          → metadata about the cache (size, last updated)
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearStoryStore,
+  countStories,
+  getStoredStory,
+  putStory,
+  removeStories,
+  updateStoredStory,
+  type StoredStory,
+} from './storyStore';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -33,27 +42,11 @@ export interface CacheMeta {
   cache_version: number;
 }
 
-const CACHE_VERSION = 1;
-const STORY_KEY_PREFIX = 'offline_story_';
-const IDS_KEY = 'offline_story_ids';
+const CACHE_VERSION = 2;
 const META_KEY = 'offline_cache_meta';
-const MAX_CACHED_STORIES = 20; // keep the most recent 20 stories
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
-async function getCachedIds(): Promise<string[]> {
-  try {
-    const raw = await AsyncStorage.getItem(IDS_KEY);
-    return raw ? (JSON.parse(raw) as string[]) : [];
-  } catch {
-    return [];
-  }
-}
-
-async function saveCachedIds(ids: string[]): Promise<void> {
-  await AsyncStorage.setItem(IDS_KEY, JSON.stringify(ids));
-}
-
 async function updateMeta(totalStories: number): Promise<void> {
   const meta: CacheMeta = {
     total_stories: totalStories,
@@ -63,31 +56,31 @@ async function updateMeta(totalStories: number): Promise<void> {
   await AsyncStorage.setItem(META_KEY, JSON.stringify(meta));
 }
 
+function toCachedStory(story: StoredStory): CachedStory {
+  const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    id:           story.id,
+    title:        story.title,
+    content:      story.content ?? '',
+    theme:        story.theme ?? '',
+    image_url:    story.image_url ?? str(story.imageUrl),
+    narrator_id:  str(story.narrator_id),
+    child_name:   str(story.childName),
+    cached_at:    str(story.cached_at) ?? story.created_at ?? '',
+    audio_cached: story.audio_cached === true,
+  };
+}
+
 // ─── Public API ───────────────────────────────────────────────────────────────
 
 /**
- * Save a story to the offline cache.
- * Automatically evicts the oldest entry when MAX_CACHED_STORIES is reached.
+ * Save a story to the offline cache (merged into its story store entry).
  */
 export async function cacheStory(story: Omit<CachedStory, 'cached_at'>): Promise<void> {
   try {
-    const entry: CachedStory = { ...story, cached_at: new Date().toISOString() };
-    await AsyncStorage.setItem(`${STORY_KEY_PREFIX}${story.id}`, JSON.stringify(entry));
-
-    let ids = await getCachedIds();
-    // Remove duplicate if already cached
-    ids = ids.filter((id) => id !== story.id);
-    // Prepend (most recent first)
-    ids.unshift(story.id);
-
-    // Evict oldest if over limit
-    if (ids.length > MAX_CACHED_STORIES) {
-      const evicted = ids.splice(MAX_CACHED_STORIES);
-      await Promise.all(evicted.map((id) => AsyncStorage.removeItem(`${STORY_KEY_PREFIX}${id}`)));
-    }
-
-    await saveCachedIds(ids);
-    await updateMeta(ids.length);
+    const { child_name, ...rest } = story;
+    await putStory({ ...rest, childName: child_name, cached_at: new Date().toISOString() });
+    await updateMeta(await countStories());
   } catch (err) {
     console.warn('[OfflineCache] cacheStory error:', err);
   }
@@ -98,32 +91,18 @@ export async function cacheStory(story: Omit<CachedStory, 'cached_at'>): Promise
  */
 export async function getCachedStory(storyId: string): Promise<CachedStory | null> {
   try {
-    const raw = await AsyncStorage.getItem(`${STORY_KEY_PREFIX}${storyId}`);
-    return raw ? (JSON.parse(raw) as CachedStory) : null;
+    const story = await getStoredStory(storyId);
+    return story ? toCachedStory(story) : null;
   } catch {
     return null;
   }
 }
 
-/**
- * Get all cached stories (most recently cached first).
- */
-export async function getAllCachedStories(): Promise<CachedStory[]> {
-  try {
-    const ids = await getCachedIds();
-    const entries = await Promise.all(ids.map((id) => getCachedStory(id)));
-    return entries.filter((e): e is CachedStory => e !== null);
-  } catch {
-    return [];
-  }
-}
-
 /**
  * Check whether a specific story is cached offline.
  */
 export async function isStoryCached(storyId: string): Promise<boolean> {
-  const ids = await getCachedIds();
-  return ids.includes(storyId);
+  return (await getCachedStory(storyId)) !== null;
 }
 
 /**
@@ -131,10 +110,8 @@ export async function isStoryCached(storyId: string): Promise<boolean> {
  */
 export async function removeCachedStory(storyId: string): Promise<void> {
   try {
-    await AsyncStorage.removeItem(`${STORY_KEY_PREFIX}${storyId}`);
-    const ids = (await getCachedIds()).filter((id) => id !== storyId);
-    await saveCachedIds(ids);
-    await updateMeta(ids.length);
+    await removeStories([storyId]);
+    await updateMeta(await countStories());
   } catch (err) {
     console.warn('[OfflineCache] removeCachedStory error:', err);
   }
@@ -145,9 +122,8 @@ export async function removeCachedStory(storyId: string): Promise<void> {
  */
 export async function clearStoryCache(): Promise<void> {
   try {
-    const ids = await getCachedIds();
-    await Promise.all(ids.map((id) => AsyncStorage.removeItem(`${STORY_KEY_PREFIX}${id}`)));
-    await AsyncStorage.multiRemove([IDS_KEY, META_KEY]);
+    await clearStoryStore();
+    await AsyncStorage.removeItem(META_KEY);
   } catch (err) {
     console.warn('[OfflineCache] clearStoryCache error:', err);
   }
@@ -157,16 +133,16 @@ export async function clearStoryCache(): Promise<void> {
  * Get cache metadata (count, last updated).
  */
 export async function getCacheMeta(): Promise<CacheMeta> {
+  let lastUpdated = '';
   try {
     const raw = await AsyncStorage.getItem(META_KEY);
-    if (raw) return JSON.parse(raw) as CacheMeta;
+    if (raw) lastUpdated = (JSON.parse(raw) as CacheMeta).last_updated;
   } catch {
     // fall through
   }
-  const ids = await getCachedIds();
   return {
-    total_stories: ids.length,
-    last_updated: '',
+    total_stories: await countStories().catch(() => 0),
+    last_updated: lastUpdated,
     cache_version: CACHE_VERSION,
   };
 }
@@ -178,13 +154,7 @@ export async function getCacheMeta(): Promise<CacheMeta> {
  */
 export async function markAudioCached(storyId: string): Promise<void> {
   try {
-    const story = await getCachedStory(storyId);
-    if (story) {
-      await AsyncStorage.setItem(
-        `${STORY_KEY_PREFIX}${storyId}`,
-        JSON.stringify({ ...story, audio_cached: true })
-      );
-    }
+    await updateStoredStory(storyId, { audio_cached: true });
   } catch (err) {
     console.warn('[OfflineCache] markAudioCached error:', err);
   }
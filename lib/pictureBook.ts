@@ -0,0 +1,208 @@
+/**
+ * Picture Book – an illustration for every paragraph
+ *
+ * A story made in picture-book mode gets one page per paragraph of its
+ * opening. Pages are painted one after another with buildPageImagePrompt;
+ * every page shares the book's style seed (buildStyleSeed) and the featured
+ * cast's appearance descriptions so the art stays consistent from page to
+ * page.
+ *
+ * Each finished image is downloaded into documentDirectory/picture_books/
+ * so the book can be read offline. A book interrupted halfway (app closed,
+ * network lost) is finished by calling illustratePictureBook again – pages
+ * that already have an image are skipped.
+ *
+ * Cache keys:
+ *   picture_books → Record<storyId, PictureBook> (most recent MAX_BOOKS)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { generateImage } from '@fastshot/ai';
+import { buildPageImagePrompt, buildStyleSeed, type CastMember } from './newell';
+import type { Child } from './supabase';
+
+const BOOKS_KEY = 'picture_books';
+const MAX_BOOKS = 20;
+const LOCAL_DIR = `${FileSystem.documentDirectory ?? ''}picture_books/`;
+
+/** Longest book we illustrate – paragraphs past this are read without a picture */
+export const MAX_PICTURE_BOOK_PAGES = 8;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PictureBookPageStatus = 'pending' | 'painted' | 'failed';
+
+export interface PictureBookPage {
+  /** Paragraph index in the story */
+  index:     number;
+  status:    PictureBookPageStatus;
+  remoteUrl: string | null;
+  /** Offline copy once downloaded */
+  localUri:  string | null;
+}
+
+export interface PictureBook {
+  storyId:   string;
+  styleSeed: string;
+  pages:     PictureBookPage[];
+  updatedAt: string;
+}
+
+export type PictureBookListener = (book: PictureBook) => void;
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+async function readBooks(): Promise<Record<string, PictureBook>> {
+  try {
+    const raw = await AsyncStorage.getItem(BOOKS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, PictureBook>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function saveBook(book: PictureBook): Promise<void> {
+  const books = { ...(await readBooks()), [book.storyId]: book };
+  const sorted = Object.values(books).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  // Evicted books take their downloaded pages with them
+  for (const old of sorted.slice(MAX_BOOKS)) void deleteBookFiles(old);
+  const kept = sorted.slice(0, MAX_BOOKS);
+  await AsyncStorage.setItem(BOOKS_KEY, JSON.stringify(Object.fromEntries(kept.map((b) => [b.storyId, b]))));
+}
+
+function bookDir(storyId: string): string {
+  return `${LOCAL_DIR}${storyId.replace(/[^a-zA-Z0-9_-]/g, '_')}/`;
+}
+
+/** Pages are deleted one by one – a story's id can change after it syncs. */
+async function deleteBookFiles(book: PictureBook): Promise<void> {
+  await Promise.all(book.pages.map((p) =>
+    p.localUri ? FileSystem.deleteAsync(p.localUri, { idempotent: true }).catch(() => {}) : undefined
+  ));
+}
+
+export async function getPictureBook(storyId: string): Promise<PictureBook | null> {
+  return (await readBooks())[storyId] ?? null;
+}
+
+export async function deletePictureBook(storyId: string): Promise<void> {
+  const books = await readBooks();
+  const book = books[storyId];
+  if (!book) return;
+  delete books[storyId];
+  await AsyncStorage.setItem(BOOKS_KEY, JSON.stringify(books));
+  await deleteBookFiles(book);
+}
+
+/** Image to show for a page: the offline copy when there is one. */
+export function pageImageUri(page: PictureBookPage): string | null {
+  return page.localUri ?? page.remoteUrl;
+}
+
+// ─── Progress listeners ───────────────────────────────────────────────────────
+
+const listeners = new Set<PictureBookListener>();
+
+/** Called with the whole book every time a page is painted (or fails). */
+export function onPictureBookProgress(listener: PictureBookListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// ─── Painting ─────────────────────────────────────────────────────────────────
+
+async function downloadPage(storyId: string, index: number, url: string): Promise<string | null> {
+  if (!FileSystem.documentDirectory) return null; // web: no offline copy
+  try {
+    const dir = bookDir(storyId);
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    const { uri } = await FileSystem.downloadAsync(url, `${dir}page_${index}.jpg`);
+    return uri;
+  } catch (err) {
+    console.warn('[PictureBook] Page download failed (kept remote URL):', err);
+    return null;
+  }
+}
+
+// One painting run per story, however many screens ask for it
+const inFlight = new Map<string, Promise<PictureBook>>();
+
+/**
+ * Paint every page of a story that does not have an image yet, saving after
+ * each page so listeners (and a later getPictureBook) see pages appear one
+ * by one. Failed pages are left 'failed' and retried on the next call.
+ */
+export function illustratePictureBook(params: {
+  storyId:     string;
+  child:       Child;
+  title:       string;
+  paragraphs:  string[];
+  characters?: CastMember[];
+}): Promise<PictureBook> {
+  const running = inFlight.get(params.storyId);
+  if (running) return running;
+
+  const run = (async () => {
+    const { storyId, child, title, characters = [] } = params;
+    const paragraphs = params.paragraphs.slice(0, MAX_PICTURE_BOOK_PAGES);
+    let book: PictureBook = (await getPictureBook(storyId)) ?? {
+      storyId,
+      styleSeed: buildStyleSeed(title),
+      pages:     paragraphs.map((_, index) => ({ index, status: 'pending', remoteUrl: null, localUri: null })),
+      updatedAt: new Date().toISOString(),
+    };
+    await saveBook(book);
+    listeners.forEach((l) => l(book));
+
+    for (const page of book.pages) {
+      if (page.status === 'painted') continue;
+      const paragraph = paragraphs[page.index];
+      if (!paragraph) continue;
+
+      let painted: PictureBookPage = { ...page, status: 'failed' };
+      try {
+        const result = await generateImage({
+          prompt: buildPageImagePrompt(
+            child,
+            { title, paragraph, pageNumber: page.index + 1, pageCount: book.pages.length },
+            book.styleSeed,
+            characters,
+          ),
+          width:  1024,
+          height: 768,
+        });
+        const url = result?.images?.[0] ?? null;
+        if (url) {
+          painted = { ...page, status: 'painted', remoteUrl: url, localUri: await downloadPage(storyId, page.index, url) };
+        }
+      } catch (err) {
+        console.warn(`[PictureBook] Page ${page.index + 1} failed:`, err);
+      }
+
+      book = {
+        ...book,
+        pages:     book.pages.map((p) => (p.index === page.index ? painted : p)),
+        updatedAt: new Date().toISOString(),
+      };
+      await saveBook(book);
+      listeners.forEach((l) => l(book));
+    }
+    return book;
+  })().finally(() => inFlight.delete(params.storyId));
+
+  inFlight.set(params.storyId, run);
+  return run;
+}
+
+/** True while some page still needs painting. */
+export function isPictureBookIncomplete(book: PictureBook | null): boolean {
+  return !book || book.pages.some((p) => p.status !== 'painted');
+}
+
+/** Remove every book and its downloaded pages (sign-out / account deletion). */
+export async function clearPictureBooks(): Promise<void> {
+  const books = Object.values(await readBooks());
+  await Promise.all(books.map(deleteBookFiles));
+  await AsyncStorage.removeItem(BOOKS_KEY);
+}
@@ -0,0 +1,161 @@
+/**
+ * Voice Recording Quality Analysis
+ *
+ * Scores each Voice Studio take on-device from the input-level metering that
+ * expo-av reports while recording (dBFS, roughly -160 → 0). No audio leaves
+ * the phone for analysis.
+ *
+ * Signals:
+ *   - Silence ratio   – share of the take below the speech threshold
+ *   - Clipping        – share of samples pinned at the top of the range
+ *   - Loudness        – average level while speaking
+ *   - Background noise – noise floor estimated from the quietest samples
+ *   - Pacing          – duration vs. the expected calm reading time of the
+ *                       buildVoiceScript paragraph
+ *
+ * Scores are stored per paragraph under ParentVoice.recording_labels.quality.
+ */
+
+import { translate, type StringKey } from './i18n';
+import type { LanguageCode } from './newell';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type TakeGrade = 'great' | 'good' | 'retake';
+
+export interface RecordingQuality {
+  /** 0–100 */
+  score:           number;
+  grade:           TakeGrade;
+  silenceRatio:    number;
+  clippingRatio:   number;
+  /** Mean dBFS of the voiced samples */
+  loudnessDb:      number;
+  /** Estimated background noise floor in dBFS */
+  noiseFloorDb:    number;
+  durationSeconds: number;
+  expectedSeconds: number;
+  /** Parent-facing tips (lib/i18n keys), most important first */
+  issues:          StringKey[];
+}
+
+// ─── Thresholds ───────────────────────────────────────────────────────────────
+
+// Calm bedtime reading pace (words per minute)
+const READING_WPM        = 130;
+const SPEECH_THRESHOLD_DB = -45;
+const CLIP_THRESHOLD_DB  = -1;
+const TARGET_LOUDNESS_DB = -22;
+const NOISY_FLOOR_DB     = -45;
+const RETAKE_BELOW       = 55;
+const GREAT_FROM         = 80;
+// Metering samples below this are treated as "no signal" placeholders
+const METERING_FLOOR_DB  = -160;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Expected reading time for a script paragraph, in seconds. */
+export function expectedReadingSeconds(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(Math.round((words / READING_WPM) * 60), 1);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return METERING_FLOOR_DB;
+  const idx = Math.min(Math.floor(sorted.length * p), sorted.length - 1);
+  return sorted[idx];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// ─── Analysis ─────────────────────────────────────────────────────────────────
+
+/**
+ * Analyse one take.
+ * @param meteringDb      metering samples (dBFS) collected while recording
+ * @param durationSeconds length of the take
+ * @param paragraphText   the script paragraph that was read
+ */
+export function analyseTake(
+  meteringDb: number[],
+  durationSeconds: number,
+  paragraphText: string,
+): RecordingQuality {
+  const samples = meteringDb.filter((v) => Number.isFinite(v)).map((v) => Math.max(v, METERING_FLOOR_DB));
+  const expectedSeconds = expectedReadingSeconds(paragraphText);
+  const sorted = [...samples].sort((a, b) => a - b);
+
+  const voiced        = samples.filter((v) => v >= SPEECH_THRESHOLD_DB);
+  const silenceRatio  = samples.length > 0 ? 1 - voiced.length / samples.length : 1;
+  const clippingRatio = samples.length > 0 ? samples.filter((v) => v >= CLIP_THRESHOLD_DB).length / samples.length : 0;
+  const loudnessDb    = voiced.length > 0 ? voiced.reduce((a, b) => a + b, 0) / voiced.length : METERING_FLOOR_DB;
+  const noiseFloorDb  = percentile(sorted, 0.1);
+
+  const issues: StringKey[] = [];
+  let score = 100;
+
+  // Mostly silence — nothing usable was captured
+  if (silenceRatio > 0.6) {
+    score -= 45;
+    issues.push('studio.issueSilence');
+  } else if (silenceRatio > 0.4) {
+    score -= 15;
+    issues.push('studio.issuePauses');
+  }
+
+  if (clippingRatio > 0.05) {
+    score -= 30;
+    issues.push('studio.issueTooLoud');
+  } else if (clippingRatio > 0.01) {
+    score -= 10;
+    issues.push('studio.issuePeaked');
+  }
+
+  const loudnessGap = TARGET_LOUDNESS_DB - loudnessDb;
+  if (voiced.length > 0 && loudnessGap > 12) {
+    score -= 20;
+    issues.push('studio.issueQuiet');
+  } else if (voiced.length > 0 && loudnessGap > 6) {
+    score -= 8;
+  }
+
+  if (noiseFloorDb > NOISY_FLOOR_DB) {
+    score -= clamp(Math.round((noiseFloorDb - NOISY_FLOOR_DB) * 2), 5, 25);
+    issues.push('studio.issueNoise');
+  }
+
+  const pace = durationSeconds / expectedSeconds;
+  if (pace < 0.5) {
+    score -= 30;
+    issues.push('studio.issueShort');
+  } else if (pace < 0.75) {
+    score -= 10;
+    issues.push('studio.issueFast');
+  } else if (pace > 2.2) {
+    score -= 15;
+    issues.push('studio.issueLong');
+  }
+
+  score = clamp(Math.round(score), 0, 100);
+  const grade: TakeGrade = score >= GREAT_FROM ? 'great' : score >= RETAKE_BELOW ? 'good' : 'retake';
+
+  return {
+    score,
+    grade,
+    silenceRatio:    Number(silenceRatio.toFixed(3)),
+    clippingRatio:   Number(clippingRatio.toFixed(3)),
+    loudnessDb:      Number(loudnessDb.toFixed(1)),
+    noiseFloorDb:    Number(noiseFloorDb.toFixed(1)),
+    durationSeconds,
+    expectedSeconds,
+    issues,
+  };
+}
+
+/** Short badge copy for a take, e.g. "★ 86 · Great take". */
+export function takeGradeLabel(quality: RecordingQuality, language: LanguageCode): string {
+  const label = quality.grade === 'great' ? 'studio.gradeGreat' : quality.grade === 'good' ? 'studio.gradeGood' : 'studio.gradeRetake';
+  return `★ ${quality.score} · ${translate(language, label)}`;
+}
@@ -0,0 +1,202 @@
+/**
+ * Story Sagas
+ *
+ * A saga is an adventure that continues across nights. It remembers the
+ * characters and places met so far and a running summary; every new chapter
+ * is written from that memory (buildSagaChapterPrompt) and hands back an
+ * updated one, which recordSagaChapter folds in.
+ *
+ * Chapters are ordinary stories carrying saga_id / chapter_number / recap.
+ * Sagas are cached locally for every child and written to Supabase through
+ * lib/mutationQueue, so a chapter generated offline still continues the saga.
+ *
+ * Cache keys:
+ *   story_sagas → StorySaga[] (all children, newest first)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createStorySaga, type Child, type SagaEntity, type StoryPageCursor, type StorySaga } from './supabase';
+import { getActiveChildId } from './activeChild';
+import { createLocalId, enqueueMutation, isLocalId, overlayPendingMutations } from './mutationQueue';
+import type { SagaMemoryUpdate } from './newell';
+import { listStories, type StoredStory } from './storyStore';
+
+const SAGAS_KEY         = 'story_sagas';
+const MAX_ENTITIES      = 12;
+const MAX_SUMMARY_CHARS = 1200;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A saga chapter as kept in the story store. */
+export interface SagaChapter {
+  id:             string;
+  title:          string;
+  content?:       string | null;
+  saga_id:        string;
+  chapter_number: number;
+  recap?:         string | null;
+  createdAt?:     string;
+  created_at?:    string;
+}
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+async function readSagas(): Promise<StorySaga[]> {
+  try {
+    const raw = await AsyncStorage.getItem(SAGAS_KEY);
+    return raw ? (JSON.parse(raw) as StorySaga[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeSagas(sagas: StorySaga[]): Promise<void> {
+  const sorted = [...sagas].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  await AsyncStorage.setItem(SAGAS_KEY, JSON.stringify(sorted));
+}
+
+async function saveSaga(saga: StorySaga): Promise<void> {
+  const sagas = await readSagas();
+  await writeSagas([saga, ...sagas.filter((s) => s.id !== saga.id)]);
+}
+
+/** Sagas for a child (the active child by default), most recently continued first. */
+export async function getSagas(childId?: string | null): Promise<StorySaga[]> {
+  const id = childId === undefined ? await getActiveChildId() : childId;
+  const sagas = await readSagas();
+  return id ? sagas.filter((s) => s.child_id === id) : sagas;
+}
+
+export async function getSaga(sagaId: string): Promise<StorySaga | null> {
+  return (await readSagas()).find((s) => s.id === sagaId) ?? null;
+}
+
+/** Chapters of a saga found in the story store, in reading order. */
+export async function getSagaChapters(sagaId: string): Promise<SagaChapter[]> {
+  try {
+    const stories: StoredStory[] = [];
+    let before: StoryPageCursor | null = null;
+    do {
+      const page = await listStories({ sagaId, before });
+      stories.push(...page.stories);
+      before = page.nextCursor;
+    } while (before);
+    return stories
+      .filter((s): s is StoredStory & SagaChapter => typeof s.chapter_number === 'number')
+      .sort((a, b) => a.chapter_number - b.chapter_number);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the cache with rows pulled from Supabase. Queued local edits are
+ * laid over them, and sagas that only exist locally so far are kept.
+ */
+export async function cacheSagasFromCloud(rows: StorySaga[]): Promise<void> {
+  const pulled = await overlayPendingMutations('story_sagas', rows);
+  const localOnly = (await readSagas()).filter((s) => isLocalId(s.id));
+  const localIds = new Set(localOnly.map((s) => s.id));
+  await writeSagas([...pulled.filter((s) => !localIds.has(s.id)), ...localOnly]);
+}
+
+// ─── Memory ───────────────────────────────────────────────────────────────────
+
+/** Merge by name (case-insensitive); newer descriptions win, newest entities last. */
+function mergeEntities(known: SagaEntity[], updates: SagaEntity[]): SagaEntity[] {
+  const byName = new Map(known.map((e) => [e.name.trim().toLowerCase(), e]));
+  for (const update of updates) {
+    const key = update.name.trim().toLowerCase();
+    if (!key) continue;
+    byName.delete(key);
+    byName.set(key, { name: update.name.trim(), description: update.description.trim() });
+  }
+  return [...byName.values()].slice(-MAX_ENTITIES);
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Start a saga for a child. Tries Supabase straight away so the first
+ * chapter can reference a real id; offline it gets a local id and is queued.
+ */
+export async function startSaga(params: {
+  userId: string | null | undefined;
+  child:  Pick<Child, 'id'>;
+  title:  string;
+  theme?: string | null;
+}): Promise<StorySaga> {
+  const { userId, child, title, theme = null } = params;
+  const now = new Date().toISOString();
+  const row: Omit<StorySaga, 'id' | 'created_at' | 'updated_at'> = {
+    user_id:       userId ?? '',
+    child_id:      child.id,
+    title,
+    theme,
+    characters:    [],
+    places:        [],
+    summary:       '',
+    chapter_count: 0,
+    status:        'ongoing',
+  };
+
+  let saga: StorySaga | null = null;
+  if (userId && !isLocalId(child.id)) {
+    try {
+      const { saga: saved } = await createStorySaga(row);
+      saga = saved;
+    } catch (err) {
+      console.warn('[Sagas] Supabase create failed (queued instead):', err);
+    }
+  }
+  if (!saga) {
+    saga = { ...row, id: createLocalId(), created_at: now, updated_at: now };
+    await enqueueMutation({ userId, table: 'story_sagas', op: 'create', recordId: saga.id, payload: row });
+  }
+  await saveSaga(saga);
+  return saga;
+}
+
+/**
+ * Fold a newly generated chapter's memory into its saga.
+ * Returns the updated saga (chapter_count now includes the new chapter).
+ */
+export async function recordSagaChapter(
+  sagaId: string,
+  memory: SagaMemoryUpdate | null,
+  userId: string | null | undefined,
+): Promise<StorySaga | null> {
+  const saga = await getSaga(sagaId);
+  if (!saga) return null;
+
+  const next: StorySaga = {
+    ...saga,
+    characters:    mergeEntities(saga.characters, memory?.characters ?? []),
+    places:        mergeEntities(saga.places, memory?.places ?? []),
+    summary:       (memory?.summary || saga.summary).slice(0, MAX_SUMMARY_CHARS),
+    chapter_count: saga.chapter_count + 1,
+    updated_at:    new Date().toISOString(),
+  };
+  await saveSaga(next);
+  await enqueueMutation({
+    userId,
+    table:    'story_sagas',
+    op:       'update',
+    recordId: sagaId,
+    payload:  {
+      characters:    next.characters,
+      places:        next.places,
+      summary:       next.summary,
+      chapter_count: next.chapter_count,
+    },
+  });
+  return next;
+}
+
+/** Mark a saga finished – it stays in the library but is no longer offered to continue. */
+export async function finishSaga(sagaId: string, userId: string | null | undefined): Promise<void> {
+  const saga = await getSaga(sagaId);
+  if (!saga) return;
+  await saveSaga({ ...saga, status: 'finished', updated_at: new Date().toISOString() });
+  await enqueueMutation({ userId, table: 'story_sagas', op: 'update', recordId: sagaId, payload: { status: 'finished' } });
+}
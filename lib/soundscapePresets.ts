@@ -0,0 +1,96 @@
+/**
+ * Soundscape Presets
+ *
+ * Named AmbientMixer mixes saved per child, so "Rainy Cabin" for one child
+ * and "Seaside Crickets" for another come back exactly as they were layered.
+ *
+ * Cache keys:
+ *   soundscape_presets_<child_id>  → JSON array of SoundscapePreset
+ *   soundscape_presets_default     → presets saved before a child profile exists
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getActiveChildId } from './activeChild';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SoundscapePreset {
+  id:         string;
+  name:       string;
+  /** Soundscape id → layer volume (0–1). Layers not listed are silent. */
+  levels:     Record<string, number>;
+  created_at: string;
+}
+
+const KEY_PREFIX  = 'soundscape_presets_';
+const MAX_PRESETS = 12;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function presetsKey(childId?: string | null): Promise<string> {
+  const id = childId ?? (await getActiveChildId());
+  return `${KEY_PREFIX}${id ?? 'default'}`;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Presets for a child (defaults to the active child), newest first. */
+export async function getSoundscapePresets(childId?: string | null): Promise<SoundscapePreset[]> {
+  try {
+    const raw = await AsyncStorage.getItem(await presetsKey(childId));
+    return raw ? (JSON.parse(raw) as SoundscapePreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the current mix under a name. Saving with an existing name replaces
+ * that preset rather than creating a duplicate.
+ */
+export async function saveSoundscapePreset(
+  name: string,
+  levels: Record<string, number>,
+  childId?: string | null,
+): Promise<SoundscapePreset[]> {
+  const key = await presetsKey(childId);
+  const existing = await getSoundscapePresets(childId);
+  const trimmed = name.trim();
+  const audible = Object.fromEntries(
+    Object.entries(levels).filter(([, v]) => v > 0).map(([id, v]) => [id, Number(v.toFixed(2))]),
+  );
+
+  const preset: SoundscapePreset = {
+    id:         `preset_${Date.now()}`,
+    name:       trimmed,
+    levels:     audible,
+    created_at: new Date().toISOString(),
+  };
+  const updated = [
+    preset,
+    ...existing.filter((p) => p.name.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_PRESETS);
+
+  await AsyncStorage.setItem(key, JSON.stringify(updated));
+  return updated;
+}
+
+export async function deleteSoundscapePreset(
+  presetId: string,
+  childId?: string | null,
+): Promise<SoundscapePreset[]> {
+  const key = await presetsKey(childId);
+  const updated = (await getSoundscapePresets(childId)).filter((p) => p.id !== presetId);
+  await AsyncStorage.setItem(key, JSON.stringify(updated));
+  return updated;
+}
+
+/** Remove every child's saved mixes (used on account deletion). */
+export async function clearSoundscapePresets(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((k) => k.startsWith(KEY_PREFIX)));
+  } catch {
+    // non-fatal
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Soundscape definitions
+ *
+ * Bundled 16 s mono loops in assets/sounds/ (16-bit PCM WAV, 22.05 kHz) –
+ * the tail of each file is crossfaded into its head so isLooping plays
+ * without an audible seam. AmbientMixer plays them live.
+ */
+
+import type { AVPlaybackSource } from 'expo-av';
+import type { StringKey } from './i18n';
+
+export interface Soundscape {
+  id:          string;
+  label:       StringKey;
+  emoji:       string;
+  description: StringKey;
+  accentColor: string;
+  source:      AVPlaybackSource;
+}
+
+export const SOUNDSCAPES: Soundscape[] = [
+  {
+    id:          'rain',
+    label:       'mixer.rain',
+    emoji:       '🌧️',
+    description: 'mixer.rainDesc',
+    accentColor: '#7EC8E3',
+    source:      require('@/assets/sounds/rain.wav'),
+  },
+  {
+    id:          'ocean',
+    label:       'mixer.ocean',
+    emoji:       '🌊',
+    description: 'mixer.oceanDesc',
+    accentColor: '#3B82F6',
+    source:      require('@/assets/sounds/ocean.wav'),
+  },
+  {
+    id:          'forest',
+    label:       'mixer.forest',
+    emoji:       '🌿',
+    description: 'mixer.forestDesc',
+    accentColor: '#6BCB77',
+    source:      require('@/assets/sounds/crickets.wav'),
+  },
+  {
+    id:          'cosmos',
+    label:       'mixer.cosmos',
+    emoji:       '🌌',
+    description: 'mixer.cosmosDesc',
+    accentColor: '#C9A8FF',
+    source:      require('@/assets/sounds/white-noise.wav'),
+  },
+];
@@ -3,9 +3,34 @@
  *
  * Stardust is earned by children for completing stories and answering
  * reflection questions. It can be spent in the Stardust Shop.
+ *
+ * Balance, history and unlocked items belong to the active child
+ * (see lib/activeChild).
+ *
+ * When signed in, the `stardust_ledger` table is the source of truth: an
+ * append-only log whose balance is computed server-side, with purchases
+ * priced and checked by the server. The AsyncStorage keys below are a cache
+ * for offline display, and a device's pre-cloud balance is merged into the
+ * ledger once per child (migration 003_stardust_ledger.sql).
+ *
+ * The ledger is private to a child's owner, so a child shared through the
+ * family group keeps its stardust in the local cache on each member's device.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { childStorageKey, getActiveChildId, getCachedChild, isSharedChild } from './activeChild';
+import { isLocalId } from './mutationQueue';
+import {
+  supabase,
+  isSupabaseAvailable,
+  earnStardustRemote,
+  fetchStardustBalance,
+  getStardustLedger,
+  getStardustUnlocks,
+  hasStardustLedgerEntry,
+  mergeLocalStardust,
+  purchaseStardustItemRemote,
+} from './supabase';
 
 // ──────────────────────────────────────────────────────────
 // Keys
@@ -13,6 +38,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 const BALANCE_KEY   = 'stardust_balance';
 const HISTORY_KEY   = 'stardust_history';
 const UNLOCKED_KEY  = 'stardust_unlocked_items';
+const MERGED_KEY    = 'stardust_cloud_merged';   // set once the local balance is in the ledger
+const MERGE_TXN_KEY = 'stardust_cloud_merge_txn'; // this device's merge transaction id
 
 // ──────────────────────────────────────────────────────────
 // Types
@@ -23,6 +50,8 @@ export interface StardustTransaction {
   reason:  string;
   date:    string;
   emoji:   string;
+  /** false while an earn is waiting to reach the ledger */
+  synced?: boolean;
 }
 
 export interface ShopItem {
@@ -31,8 +60,10 @@ export interface ShopItem {
   emoji:       string;
   description: string;
   cost:        number;
-  category:    'particle' | 'badge';
+  category:    'particle' | 'badge' | 'power';
   color?:      string;
+  /** Can be bought again and again (never added to unlocked items) */
+  consumable?: boolean;
 }
 
 // ──────────────────────────────────────────────────────────
@@ -128,36 +159,102 @@ export const SHOP_ITEMS: ShopItem[] = [
   },
 ];
 
+/** Bridges one missed night in a bedtime streak (see lib/streak). */
+export const STREAK_FREEZE_ITEM: ShopItem = {
+  id:          'streak_freeze',
+  name:        'Streak Freeze',
+  emoji:       '❄️',
+  description: 'Keeps a bedtime streak alive through one missed night',
+  cost:        30,
+  category:    'power',
+  consumable:  true,
+};
+
+// ──────────────────────────────────────────────────────────
+// Cloud ledger helpers
+// ──────────────────────────────────────────────────────────
+function newTxnId(): string {
+  return `txn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * The child id to use against the ledger, or null when the ledger can't be
+ * used (Supabase off, signed out, a child without a cloud id yet, or a
+ * family member's child – stardust_lock_child only admits the owner).
+ */
+async function ledgerChildId(childId?: string | null): Promise<string | null> {
+  if (!isSupabaseAvailable) return null;
+  const id = childId ?? (await getActiveChildId());
+  if (!id || isLocalId(id)) return null;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return null;
+  const child = await getCachedChild(id);
+  return child && isSharedChild(child, session.user.id) ? null : id;
+}
+
+async function readHistory(historyKey: string): Promise<StardustTransaction[]> {
+  const raw = await AsyncStorage.getItem(historyKey);
+  return raw ? (JSON.parse(raw) as StardustTransaction[]) : [];
+}
+
+async function markSynced(historyKey: string, txnIds: string[]): Promise<void> {
+  const history = await readHistory(historyKey);
+  await AsyncStorage.setItem(historyKey, JSON.stringify(
+    history.map((t) => (txnIds.includes(t.id) ? { ...t, synced: true } : t)),
+  ));
+}
+
 // ──────────────────────────────────────────────────────────
 // Balance Management
 // ──────────────────────────────────────────────────────────
 export async function getStardustBalance(): Promise<number> {
   try {
-    const raw = await AsyncStorage.getItem(BALANCE_KEY);
+    const raw = await AsyncStorage.getItem(await childStorageKey(BALANCE_KEY));
     return raw ? parseInt(raw, 10) : 0;
   } catch {
     return 0;
   }
 }
 
+/**
+ * Credit stardust to the active child. The local balance updates at once;
+ * when signed in the earn is also recorded in the ledger, and the
+ * server-computed balance replaces the local one.
+ */
 export async function addStardust(amount: number, reason: string, emoji = '⭐'): Promise<number> {
   try {
+    const childId = await getActiveChildId();
+    const [balanceKey, historyKey] = await Promise.all([
+      childStorageKey(BALANCE_KEY, childId),
+      childStorageKey(HISTORY_KEY, childId),
+    ]);
     const current = await getStardustBalance();
     const newBalance = current + amount;
-    await AsyncStorage.setItem(BALANCE_KEY, String(newBalance));
+    await AsyncStorage.setItem(balanceKey, String(newBalance));
 
     // Record transaction
     const transaction: StardustTransaction = {
-      id:     `txn_${Date.now()}`,
+      id:     newTxnId(),
       amount,
       reason,
       date:   new Date().toISOString(),
       emoji,
+      synced: false,
     };
-    const historyRaw = await AsyncStorage.getItem(HISTORY_KEY);
-    const history: StardustTransaction[] = historyRaw ? JSON.parse(historyRaw) : [];
+    const history = await readHistory(historyKey);
     const updated = [transaction, ...history].slice(0, 50); // keep last 50
-    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+    await AsyncStorage.setItem(historyKey, JSON.stringify(updated));
+
+    // Record in the ledger; offline earns are pushed by syncStardust()
+    const cloudId = await ledgerChildId(childId);
+    if (cloudId && (await AsyncStorage.getItem(await childStorageKey(MERGED_KEY, cloudId)))) {
+      const { balance, error } = await earnStardustRemote(cloudId, amount, reason, emoji, transaction.id);
+      if (!error && balance !== null) {
+        await markSynced(historyKey, [transaction.id]);
+        await AsyncStorage.setItem(balanceKey, String(balance));
+        return balance;
+      }
+    }
 
     return newBalance;
   } catch {
@@ -165,26 +262,30 @@ export async function addStardust(amount: number, reason: string, emoji = '⭐')
   }
 }
 
+/** Local-only debit, used when the ledger isn't available. */
 export async function spendStardust(amount: number, reason: string): Promise<{ success: boolean; newBalance: number }> {
   try {
+    const [balanceKey, historyKey] = await Promise.all([
+      childStorageKey(BALANCE_KEY),
+      childStorageKey(HISTORY_KEY),
+    ]);
     const current = await getStardustBalance();
     if (current < amount) {
       return { success: false, newBalance: current };
     }
     const newBalance = current - amount;
-    await AsyncStorage.setItem(BALANCE_KEY, String(newBalance));
+    await AsyncStorage.setItem(balanceKey, String(newBalance));
 
     const transaction: StardustTransaction = {
-      id:     `txn_${Date.now()}`,
+      id:     newTxnId(),
       amount: -amount,
       reason,
       date:   new Date().toISOString(),
       emoji:  '🛍️',
     };
-    const historyRaw = await AsyncStorage.getItem(HISTORY_KEY);
-    const history: StardustTransaction[] = historyRaw ? JSON.parse(historyRaw) : [];
+    const history = await readHistory(historyKey);
     const updated = [transaction, ...history].slice(0, 50);
-    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(updated));
+    await AsyncStorage.setItem(historyKey, JSON.stringify(updated));
 
     return { success: true, newBalance };
   } catch {
@@ -192,10 +293,57 @@ export async function spendStardust(amount: number, reason: string): Promise<{ s
   }
 }
 
+/** 'offline' when the ledger couldn't be reached, 'declined' when it refused the purchase */
+export type PurchaseFailure = 'insufficient' | 'offline' | 'declined';
+
+/**
+ * Buy a shop item for the active child. When signed in the purchase is
+ * validated by the ledger (price and balance are checked server-side) and
+ * needs a connection; otherwise it falls back to the local balance.
+ */
+export async function purchaseShopItem(
+  item: ShopItem,
+): Promise<{ success: boolean; newBalance: number; failure?: PurchaseFailure }> {
+  const cloudId = await ledgerChildId();
+  if (!cloudId) {
+    const result = await spendStardust(item.cost, item.consumable ? `Bought a ${item.name}` : `Unlocked ${item.name}`);
+    if (result.success && !item.consumable) await unlockItem(item.id);
+    return result.success ? result : { ...result, failure: 'insufficient' };
+  }
+
+  // Bring any offline balance into the ledger before spending it
+  await syncStardust(cloudId);
+
+  const txnId = newTxnId();
+  const { balance, error } = await purchaseStardustItemRemote(cloudId, item.id, txnId);
+  if (error || balance === null) {
+    const { hint, code } = (error ?? {}) as { hint?: string; code?: string };
+    const failure: PurchaseFailure = hint === 'INSUFFICIENT_STARDUST' ? 'insufficient' : code ? 'declined' : 'offline';
+    if (failure === 'declined') console.warn('[Stardust] Purchase declined by the ledger:', error);
+    return { success: false, newBalance: await getStardustBalance(), failure };
+  }
+
+  const [balanceKey, historyKey] = await Promise.all([
+    childStorageKey(BALANCE_KEY, cloudId),
+    childStorageKey(HISTORY_KEY, cloudId),
+  ]);
+  const transaction: StardustTransaction = {
+    id:     txnId,
+    amount: -item.cost,
+    reason: item.consumable ? `Bought a ${item.name}` : `Unlocked ${item.name}`,
+    date:   new Date().toISOString(),
+    emoji:  '🛍️',
+    synced: true,
+  };
+  await AsyncStorage.setItem(balanceKey, String(balance));
+  await AsyncStorage.setItem(historyKey, JSON.stringify([transaction, ...(await readHistory(historyKey))].slice(0, 50)));
+  if (!item.consumable) await unlockItem(item.id);
+  return { success: true, newBalance: balance };
+}
+
 export async function getStardustHistory(): Promise<StardustTransaction[]> {
   try {
-    const raw = await AsyncStorage.getItem(HISTORY_KEY);
-    return raw ? JSON.parse(raw) : [];
+    return await readHistory(await childStorageKey(HISTORY_KEY));
   } catch {
     return [];
   }
@@ -206,7 +354,7 @@ export async function getStardustHistory(): Promise<StardustTransaction[]> {
 // ──────────────────────────────────────────────────────────
 export async function getUnlockedItems(): Promise<string[]> {
   try {
-    const raw = await AsyncStorage.getItem(UNLOCKED_KEY);
+    const raw = await AsyncStorage.getItem(await childStorageKey(UNLOCKED_KEY));
     return raw ? JSON.parse(raw) : [];
   } catch {
     return [];
@@ -217,7 +365,7 @@ export async function unlockItem(itemId: string): Promise<void> {
   try {
     const current = await getUnlockedItems();
     if (!current.includes(itemId)) {
-      await AsyncStorage.setItem(UNLOCKED_KEY, JSON.stringify([...current, itemId]));
+      await AsyncStorage.setItem(await childStorageKey(UNLOCKED_KEY), JSON.stringify([...current, itemId]));
     }
   } catch {
     // non-fatal
@@ -229,6 +377,99 @@ export async function isItemUnlocked(itemId: string): Promise<boolean> {
   return unlocked.includes(itemId);
 }
 
+// ──────────────────────────────────────────────────────────
+// Cloud Sync
+// ──────────────────────────────────────────────────────────
+/** Push earns recorded while offline (idempotent by transaction id). False when offline. */
+async function pushUnsyncedEarns(cloudId: string, historyKey: string): Promise<boolean> {
+  const history = await readHistory(historyKey);
+  for (const txn of history.filter((t) => t.synced === false && t.amount > 0).reverse()) {
+    const { error } = await earnStardustRemote(cloudId, txn.amount, txn.reason, txn.emoji, txn.id);
+    // A rejected earn (e.g. over the daily limit) is dropped; the pulled balance corrects the cache
+    if (error && !(error as { code?: string }).code) return false;
+    await markSynced(historyKey, [txn.id]);
+  }
+  return true;
+}
+
+/**
+ * Reconcile one child's stardust with the ledger:
+ *   1. First time only – merge the device's existing balance and unlocks.
+ *      The ledger takes one merge per child; when another device's came
+ *      first, this device's offline earns are pushed on their own instead.
+ *   2. Push earns recorded while offline (idempotent by transaction id).
+ *   3. Pull the server balance, recent history and unlocks into the cache.
+ * Returns false when the ledger couldn't be reached.
+ */
+export async function syncStardust(childId?: string | null): Promise<boolean> {
+  const cloudId = await ledgerChildId(childId);
+  if (!cloudId) return false;
+
+  try {
+    const [balanceKey, historyKey, unlockedKey, mergedKey, mergeTxnKey] = await Promise.all([
+      childStorageKey(BALANCE_KEY, cloudId),
+      childStorageKey(HISTORY_KEY, cloudId),
+      childStorageKey(UNLOCKED_KEY, cloudId),
+      childStorageKey(MERGED_KEY, cloudId),
+      childStorageKey(MERGE_TXN_KEY, cloudId),
+    ]);
+
+    if (!(await AsyncStorage.getItem(mergedKey))) {
+      // One id per device, kept across retries, so the ledger shows whose merge it took
+      let mergeTxnId = await AsyncStorage.getItem(mergeTxnKey);
+      if (!mergeTxnId) {
+        mergeTxnId = `merge_${cloudId}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+        await AsyncStorage.setItem(mergeTxnKey, mergeTxnId);
+      }
+      const [balanceRaw, unlockedRaw] = await Promise.all([
+        AsyncStorage.getItem(balanceKey),
+        AsyncStorage.getItem(unlockedKey),
+      ]);
+      const { error } = await mergeLocalStardust(
+        cloudId,
+        balanceRaw ? parseInt(balanceRaw, 10) : 0,
+        unlockedRaw ? (JSON.parse(unlockedRaw) as string[]) : [],
+        mergeTxnId,
+      );
+      if (error) return false;
+      const { found: merged, error: lookupError } = await hasStardustLedgerEntry(cloudId, mergeTxnId);
+      if (lookupError) return false;
+      // Not ours (another device merged first, or nothing to merge): the
+      // earns made offline since sign-in still have to reach the ledger
+      if (!merged && !(await pushUnsyncedEarns(cloudId, historyKey))) return false;
+      // Everything else earned so far is part of a merged balance
+      await markSynced(historyKey, (await readHistory(historyKey)).map((t) => t.id));
+      await AsyncStorage.setItem(mergedKey, 'true');
+    } else if (!(await pushUnsyncedEarns(cloudId, historyKey))) {
+      return false;
+    }
+
+    const [{ balance }, { entries }, { itemIds }] = await Promise.all([
+      fetchStardustBalance(cloudId),
+      getStardustLedger(cloudId),
+      getStardustUnlocks(cloudId),
+    ]);
+    if (balance !== null) await AsyncStorage.setItem(balanceKey, String(balance));
+    if (entries) {
+      const pending = (await readHistory(historyKey)).filter((t) => t.synced === false);
+      const pulled: StardustTransaction[] = entries.map((e) => ({
+        id:     e.client_txn_id,
+        amount: e.amount,
+        reason: e.reason,
+        date:   e.created_at,
+        emoji:  e.emoji,
+        synced: true,
+      }));
+      await AsyncStorage.setItem(historyKey, JSON.stringify([...pending, ...pulled].slice(0, 50)));
+    }
+    if (itemIds) await AsyncStorage.setItem(unlockedKey, JSON.stringify(itemIds));
+    return true;
+  } catch (err) {
+    console.warn('[Stardust] syncStardust error:', err);
+    return false;
+  }
+}
+
 // ──────────────────────────────────────────────────────────
 // Story Completion Tracking (for Rate Us)
 // ──────────────────────────────────────────────────────────
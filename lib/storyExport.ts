@@ -0,0 +1,180 @@
+/**
+ * Story Export – keep a story as a printable PDF picture book
+ *
+ * Lays a story out as HTML (a cover page with the title, cover art and the
+ * child's name, then the story itself) and prints it to a PDF with
+ * expo-print. The page styling comes from constants/theme so the keepsake
+ * matches the app: Nunito at the same weights, Crystal Night purples and
+ * celestial gold on a cream page that prints well.
+ *
+ * A story with a picture book (lib/pictureBook) gets a page per paragraph
+ * with its illustration; any other story flows as text after the cover.
+ * The PDF is offered through the system share sheet (expo-sharing).
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Colors, Fonts } from '@/constants/theme';
+import { translate } from './i18n';
+import { splitIntoParagraphs } from './narration';
+import type { LanguageCode } from './newell';
+import { getPictureBook, pageImageUri } from './pictureBook';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** What an export needs – the shape current_story and stored stories share. */
+export interface ExportableStory {
+  id:        string | null;
+  title:     string;
+  content:   string;
+  /** The paragraphs as read, when they are more than content (an adventure's chosen path) */
+  paragraphs?: string[];
+  /** Cover art – the family portrait when one was made */
+  imageUrl:  string | null;
+  childName: string;
+  createdAt: string;
+  hasFamilyPortrait?: boolean;
+  artStyleLabel?:     string;
+}
+
+// ─── HTML ─────────────────────────────────────────────────────────────────────
+
+/** US Letter in points */
+const PAGE_WIDTH  = 612;
+const PAGE_HEIGHT = 792;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** 'Nunito_800ExtraBold' → CSS for the same family and weight. */
+function fontCss(font: string): string {
+  const [family, style = ''] = font.split('_');
+  const weight = style.match(/^\d+/)?.[0] ?? '400';
+  return `font-family: '${family}', 'Helvetica Neue', sans-serif; font-weight: ${weight};`;
+}
+
+/**
+ * Print runs in a web view that cannot always read the app's files, so
+ * local images (downloaded picture-book pages) are inlined as data URIs.
+ */
+async function printableImage(uri: string | null): Promise<string | null> {
+  if (!uri) return null;
+  if (!uri.startsWith('file:')) return uri;
+  try {
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    return `data:image/jpeg;base64,${base64}`;
+  } catch {
+    return null;
+  }
+}
+
+function buildHtml(
+  story: ExportableStory,
+  pages: { paragraph: string; image: string | null }[],
+  isPictureBook: boolean,
+  language: LanguageCode,
+): string {
+  const date = new Date(story.createdAt).toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' });
+  const coverCaption = story.hasFamilyPortrait
+    ? `${escapeHtml(translate(language, 'pdf.familyPortrait'))}${story.artStyleLabel ? ` · ${escapeHtml(story.artStyleLabel)}` : ''}`
+    : '';
+
+  const body = isPictureBook
+    ? pages.map((p, i) => `
+      <section class="page picture-page">
+        ${p.image ? `<img class="page-art" src="${p.image}" />` : ''}
+        <p class="page-text">${escapeHtml(p.paragraph)}</p>
+        <div class="page-number">${i + 1}</div>
+      </section>`).join('')
+    : `
+      <section class="page text-pages">
+        ${pages.map((p) => `<p class="flow-text">${escapeHtml(p.paragraph)}</p>`).join('')}
+        <div class="the-end">${escapeHtml(translate(language, 'pdf.theEnd'))}</div>
+      </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8" />
+<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Nunito:wght@400;600;700;800;900&display=swap" />
+<style>
+  @page { size: ${PAGE_WIDTH}pt ${PAGE_HEIGHT}pt; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: ${Colors.moonlightCream}; color: ${Colors.deepPurple}; ${fontCss(Fonts.regular)} }
+  .page { width: ${PAGE_WIDTH}pt; min-height: ${PAGE_HEIGHT}pt; padding: 56pt 60pt; page-break-after: always; position: relative; }
+  .cover { background: ${Colors.deepIndigo}; color: ${Colors.crystalCream}; text-align: center; display: flex; flex-direction: column; align-items: center; justify-content: center; }
+  .cover-title { ${fontCss(Fonts.black)} font-size: 34pt; line-height: 1.15; color: ${Colors.celestialGold}; margin: 0 0 18pt; }
+  .cover-art { width: 380pt; height: 380pt; object-fit: cover; border-radius: 28pt; border: 3pt solid ${Colors.glassBorderGold}; }
+  .cover-caption { ${fontCss(Fonts.medium)} font-size: 10pt; color: ${Colors.textMuted}; margin-top: 8pt; }
+  .cover-for { ${fontCss(Fonts.extraBold)} font-size: 16pt; margin-top: 26pt; color: ${Colors.crystalCream}; }
+  .cover-date { ${fontCss(Fonts.medium)} font-size: 11pt; color: ${Colors.textMuted}; margin-top: 6pt; }
+  .page-art { width: 100%; height: 360pt; object-fit: cover; border-radius: 20pt; margin-bottom: 28pt; }
+  .page-text, .flow-text { font-size: 15pt; line-height: 1.7; margin: 0 0 16pt; }
+  .page-number { ${fontCss(Fonts.bold)} position: absolute; bottom: 32pt; left: 0; right: 0; text-align: center; font-size: 10pt; color: ${Colors.softPurple}; }
+  .the-end { ${fontCss(Fonts.extraBold)} text-align: center; margin-top: 36pt; font-size: 14pt; color: ${Colors.softPurple}; letter-spacing: 2pt; }
+</style>
+</head>
+<body>
+  <section class="page cover">
+    <h1 class="cover-title">${escapeHtml(story.title)}</h1>
+    ${story.imageUrl ? `<img class="cover-art" src="${story.imageUrl}" />` : ''}
+    ${coverCaption ? `<div class="cover-caption">${coverCaption}</div>` : ''}
+    <div class="cover-for">${escapeHtml(translate(language, 'pdf.bedtimeStoryFor', { name: story.childName }))}</div>
+    <div class="cover-date">${escapeHtml(date)}</div>
+  </section>
+  ${body}
+</body>
+</html>`;
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+function fileSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'bedtime-story';
+}
+
+/**
+ * Print a story to a PDF and open the share sheet for it. On web, where
+ * there is no share sheet, the browser's print dialog opens instead.
+ * @returns the PDF's file uri (null on web)
+ */
+export async function exportStoryPdf(story: ExportableStory, language: LanguageCode): Promise<string | null> {
+  const book = story.id ? await getPictureBook(story.id) : null;
+  const paragraphs = story.paragraphs ?? splitIntoParagraphs(story.content);
+  const pages = await Promise.all(paragraphs.map(async (paragraph, idx) => {
+    const page = book?.pages.find((p) => p.index === idx);
+    return { paragraph, image: page ? await printableImage(pageImageUri(page)) : null };
+  }));
+  const html = buildHtml(
+    { ...story, imageUrl: await printableImage(story.imageUrl) },
+    pages,
+    book !== null,
+    language,
+  );
+
+  if (!FileSystem.cacheDirectory) {
+    await Print.printAsync({ html });
+    return null;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html, width: PAGE_WIDTH, height: PAGE_HEIGHT });
+  // Give the file the story's name – it is what the share sheet shows
+  const named = `${FileSystem.cacheDirectory}${fileSlug(story.title)}.pdf`;
+  await FileSystem.deleteAsync(named, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: named });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(named, {
+      mimeType:    'application/pdf',
+      UTI:         'com.adobe.pdf',
+      dialogTitle: translate(language, 'pdf.share', { title: story.title }),
+    });
+  }
+  return named;
+}
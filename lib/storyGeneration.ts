@@ -0,0 +1,314 @@
+/**
+ * Structured Story Generation
+ *
+ * Turns the JSON requested by the story prompts in lib/newell into a
+ * validated GeneratedStory:
+ *   1. Generate and pull the JSON object out of the response (code fences
+ *      and chatter around it are tolerated).
+ *   2. Validate it, fixing small things locally (a paragraph string instead
+ *      of an array, a missing emoji, a third choice) and collecting the rest
+ *      as problems.
+ *   3. If there are problems, ask the model once to repair its own output.
+ *   4. Still invalid → generate from scratch, up to MAX_ATTEMPTS times, then
+ *      throw StoryGenerationError.
+ *
+ * Interactive story nodes (lib/storyGraph) use the same parsing with a
+ * smaller schema: two paragraphs and a choice point, or none at the ending.
+ *
+ * A story that leaves out one of the child's required inclusions (a pet, a
+ * sibling, a comfort object) goes through the same repair and retry, but
+ * is still used if no attempt manages to fit everyone in.
+ */
+
+import { generateText } from '@fastshot/ai';
+import type { Child, ChildInclusion, SagaEntity } from './supabase';
+import {
+  buildStoryRepairPrompt,
+  type ChoiceOption,
+  type GeneratedStory,
+  type ReadingLevel,
+  type SagaMemoryUpdate,
+  type StoryChoicePoint,
+  type StoryKind,
+} from './newell';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MAX_ATTEMPTS     = 2;
+const BEDTIME_WPM      = 110; // unhurried read-aloud pace
+const MAX_TITLE_LENGTH = 80;
+
+/** Accepted paragraph counts – prompts ask for 5 (bedtime, chapter) or 3 (interactive). */
+const PARAGRAPH_RANGE: Record<StoryKind, [number, number]> = {
+  bedtime:     [4, 7],
+  interactive: [2, 4],
+  chapter:     [4, 7],
+};
+
+/** Accepted paragraph counts for an adventure's next part – its prompt asks for 2. */
+const NODE_PARAGRAPH_RANGE: [number, number] = [1, 3];
+
+const READING_LEVELS: ReadingLevel['level'][] = ['early', 'developing', 'fluent'];
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class StoryGenerationError extends Error {
+  constructor(message: string, readonly problems: string[]) {
+    super(message);
+    this.name = 'StoryGenerationError';
+  }
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/** The first JSON object in a model response, or null. */
+export function extractJson(raw: string): unknown {
+  const text = raw.replace(/```(?:json)?/gi, '').trim();
+  const start = text.indexOf('{');
+  const end   = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    // Trailing commas are the most common slip
+    try {
+      return JSON.parse(text.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      return null;
+    }
+  }
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// ─── Reading level ────────────────────────────────────────────────────────────
+
+function defaultAgeBand(age: number | null | undefined): string {
+  if (!age || age <= 4) return '2-4';
+  if (age <= 7) return '5-7';
+  if (age <= 10) return '8-10';
+  return '11+';
+}
+
+function defaultLevel(age: number | null | undefined): ReadingLevel['level'] {
+  if (!age || age <= 5) return 'early';
+  if (age <= 8) return 'developing';
+  return 'fluent';
+}
+
+export function buildReadingLevel(paragraphs: string[], child?: Pick<Child, 'age'> | null, reported?: unknown): ReadingLevel {
+  const wordCount = paragraphs.join(' ').split(/\s+/).filter(Boolean).length;
+  const r = (reported && typeof reported === 'object' ? reported : {}) as Record<string, unknown>;
+  const level = READING_LEVELS.find((l) => l === asString(r.level).toLowerCase());
+  const ageBand = asString(r.age_band).replace(/\s+/g, '').replace('–', '-');
+  return {
+    ageBand:        /^\d{1,2}(-\d{1,2}|\+)$/.test(ageBand) ? ageBand : defaultAgeBand(child?.age),
+    level:          level ?? defaultLevel(child?.age),
+    wordCount,
+    readingMinutes: Math.max(1, Math.round(wordCount / BEDTIME_WPM)),
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+type StoryChild = Pick<Child, 'age' | 'inclusions'>;
+
+/** Words that identify an inclusion in the text: "Biscuit the beagle" → Biscuit. */
+function inclusionKeywords(inclusion: ChildInclusion): string[] {
+  const names = inclusion.name.match(/\b[A-Z][\p{L}'-]{2,}/gu)?.filter((w) => !/^(Mr|Mrs|Ms|Miss|The)$/.test(w));
+  return names && names.length > 0 ? names : [inclusion.name.trim()];
+}
+
+/** Inclusions the parent asked for that the story never mentions. */
+export function findMissingInclusions(paragraphs: string[], child?: StoryChild | null): ChildInclusion[] {
+  const text = paragraphs.join(' ').toLowerCase();
+  return (child?.inclusions ?? [])
+    .filter((i) => i.name.trim())
+    .filter((i) => !inclusionKeywords(i).some((k) => text.includes(k.toLowerCase())));
+}
+
+function validateChoicePoint(value: unknown, problems: string[]): StoryChoicePoint | null {
+  if (!value || typeof value !== 'object') {
+    problems.push('"choice_point" must be an object with a question and 2–3 options');
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const options: ChoiceOption[] = (Array.isArray(raw.options) ? raw.options : [])
+    .map((o) => (o && typeof o === 'object' ? o as Record<string, unknown> : {}))
+    .map((o) => {
+      const label = asString(o.label);
+      return { emoji: asString(o.emoji) || '✨', label, value: asString(o.hint) || asString(o.value) || label };
+    })
+    .filter((o) => o.label.length > 0)
+    .slice(0, 3);
+
+  if (options.length < 2) {
+    problems.push('"choice_point.options" must contain 2–3 options, each with a non-empty "label"');
+    return null;
+  }
+  return { question: asString(raw.question) || 'What should happen next?', options };
+}
+
+function validateEntities(value: unknown): SagaEntity[] {
+  return (Array.isArray(value) ? value : [])
+    .map((e) => (e && typeof e === 'object' ? e as Record<string, unknown> : {}))
+    .map((e) => ({ name: asString(e.name), description: asString(e.description) }))
+    .filter((e) => e.name.length > 0);
+}
+
+function validateSagaMemory(value: unknown, problems: string[]): SagaMemoryUpdate | null {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const summary = asString(raw.summary);
+  if (!summary) {
+    problems.push('"saga_memory.summary" is missing or empty');
+    return null;
+  }
+  return {
+    recap:      asString(raw.recap) || null,
+    summary,
+    characters: validateEntities(raw.characters),
+    places:     validateEntities(raw.places),
+  };
+}
+
+/**
+ * Check a parsed response against the story schema.
+ * Returns the story when valid, otherwise the problems to send back for repair.
+ */
+export function validateGeneratedStory(
+  value: unknown,
+  kind: StoryKind,
+  child?: StoryChild | null,
+): { story: GeneratedStory | null; problems: string[] } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { story: null, problems: ['Output must be a single JSON object'] };
+  }
+  const raw = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const title = asString(raw.title).replace(/^["'“”]+|["'“”]+$/g, '');
+  if (!title) problems.push('"title" is missing or empty');
+  else if (title.length > MAX_TITLE_LENGTH) problems.push(`"title" must be under ${MAX_TITLE_LENGTH} characters`);
+
+  // A single string with blank lines is accepted as paragraphs
+  const rawParagraphs = typeof raw.paragraphs === 'string'
+    ? raw.paragraphs.split(/\n\s*\n/)
+    : Array.isArray(raw.paragraphs) ? raw.paragraphs : [];
+  const paragraphs = rawParagraphs.map(asString).filter((p) => p.length > 0);
+  const [min, max] = PARAGRAPH_RANGE[kind];
+  if (paragraphs.length < min || paragraphs.length > max) {
+    problems.push(`"paragraphs" must be an array of ${min}–${max} non-empty strings (got ${paragraphs.length})`);
+  }
+
+  const choicePoint = kind === 'interactive' ? validateChoicePoint(raw.choice_point, problems) : null;
+  const sagaMemory  = kind === 'chapter' ? validateSagaMemory(raw.saga_memory, problems) : null;
+
+  if (problems.length > 0) return { story: null, problems };
+
+  // Missing inclusions are worth a repair, but don't make the story unusable
+  const missing = findMissingInclusions(paragraphs, child)
+    .map((i) => `The story must mention ${i.name} by name`);
+  return {
+    story: {
+      title,
+      paragraphs,
+      imagePrompt:  asString(raw.image_prompt),
+      choicePoint,
+      readingLevel: buildReadingLevel(paragraphs, child, raw.reading_level),
+      sagaMemory,
+    },
+    problems: missing,
+  };
+}
+
+/** Check a story node (see buildStoryNodePrompt); endings have no choice point. */
+export function validateStoryNode(
+  value: unknown,
+  isEnding: boolean,
+): { node: { paragraphs: string[]; choicePoint: StoryChoicePoint | null } | null; problems: string[] } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { node: null, problems: ['Output must be a single JSON object'] };
+  }
+  const raw = value as Record<string, unknown>;
+  const problems: string[] = [];
+  const rawParagraphs = typeof raw.paragraphs === 'string'
+    ? raw.paragraphs.split(/\n\s*\n/)
+    : Array.isArray(raw.paragraphs) ? raw.paragraphs : [];
+  const paragraphs = rawParagraphs.map(asString).filter((p) => p.length > 0);
+  const [min, max] = NODE_PARAGRAPH_RANGE;
+  if (paragraphs.length < min || paragraphs.length > max) {
+    problems.push(`"paragraphs" must be an array of ${min}–${max} non-empty strings (got ${paragraphs.length})`);
+  }
+  const choicePoint = isEnding ? null : validateChoicePoint(raw.choice_point, problems);
+  return problems.length > 0 ? { node: null, problems } : { node: { paragraphs, choicePoint }, problems };
+}
+
+// ─── Generation ───────────────────────────────────────────────────────────────
+
+/**
+ * Generate a story from a prompt built by buildStoryPrompt /
+ * buildInteractiveStoryPrompt / buildSagaChapterPrompt and return it validated.
+ * @throws StoryGenerationError when no attempt produced a valid story
+ */
+export async function generateStructuredStory(params: {
+  prompt:       string;
+  kind:         StoryKind;
+  child?:       StoryChild | null;
+  temperature?: number;
+}): Promise<GeneratedStory> {
+  const { prompt, kind, child, temperature = 0.75 } = params;
+  let problems: string[] = [];
+  // Latest story that is only missing inclusions
+  let fallback: GeneratedStory | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = (await generateText({ prompt, temperature })) ?? '';
+    if (!raw.trim()) {
+      problems = ['The model returned an empty response'];
+      continue;
+    }
+
+    let result = validateGeneratedStory(extractJson(raw), kind, child);
+    if (result.story && result.problems.length === 0) return result.story;
+    fallback = result.story ?? fallback;
+
+    // One repair pass on the same output before starting over
+    try {
+      const repaired = await generateText({
+        prompt:      buildStoryRepairPrompt(raw, result.problems, kind),
+        temperature: 0.2,
+      });
+      result = validateGeneratedStory(extractJson(repaired ?? ''), kind, child);
+      if (result.story && result.problems.length === 0) return result.story;
+      fallback = result.story ?? fallback;
+    } catch (err) {
+      console.warn('[StoryGeneration] Repair request failed:', err);
+    }
+    problems = result.problems;
+    console.warn(`[StoryGeneration] Attempt ${attempt} invalid:`, problems);
+  }
+
+  if (fallback) return fallback;
+  throw new StoryGenerationError('The story could not be generated in the expected format.', problems);
+}
+
+/**
+ * Generate one interactive story node from buildStoryNodePrompt.
+ * @throws StoryGenerationError when no attempt produced a valid node
+ */
+export async function generateStoryNode(params: {
+  prompt:   string;
+  isEnding: boolean;
+}): Promise<{ paragraphs: string[]; choicePoint: StoryChoicePoint | null }> {
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = (await generateText({ prompt: params.prompt, temperature: 0.75 })) ?? '';
+    const result = validateStoryNode(extractJson(raw), params.isEnding);
+    if (result.node) return result.node;
+    problems = result.problems;
+    console.warn(`[StoryGeneration] Node attempt ${attempt} invalid:`, problems);
+  }
+  throw new StoryGenerationError('The next part of the story could not be generated.', problems);
+}
@@ -0,0 +1,235 @@
+/**
+ * Story Graph – branching interactive adventures
+ *
+ * An interactive story is a tree of nodes. The root is the story's opening
+ * (its paragraphs and first choice point); each choice leads to a child node
+ * generated on demand with buildStoryNodePrompt. Nodes short of the graph's
+ * depth limit end at a new choice of 2–3 paths; a node at the limit is always
+ * the sleepy ending, so every path converges on bedtime.
+ *
+ * Generated nodes are kept, so replaying a path already taken costs nothing
+ * and a new path only generates the steps never seen before. Every path read
+ * to the end is saved on the graph for replaying later.
+ *
+ * Node ids spell the path: 'root', 'root.1', 'root.1.0' …
+ *
+ * Cache keys:
+ *   story_graphs → Record<storyId, StoryGraph> (most recent MAX_GRAPHS)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { buildStoryNodePrompt, type CastMember, type NarratorPersonality, type StoryChoicePoint } from './newell';
+import { generateStoryNode } from './storyGeneration';
+import { moderateStoryDetails, moderateText } from './contentSafety';
+import type { Child } from './supabase';
+
+const GRAPHS_KEY = 'story_graphs';
+const MAX_GRAPHS = 30;
+const ROOT_ID    = 'root';
+
+/** Choices per adventure before the ending – the story converges after this many */
+export const DEFAULT_MAX_DEPTH = 2;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface StoryNode {
+  id:          string;
+  parentId:    string | null;
+  /** Index of the parent's option that leads here */
+  choiceIndex: number | null;
+  /** Number of choices made to reach this node */
+  depth:       number;
+  paragraphs:  string[];
+  /** null at an ending */
+  choicePoint: StoryChoicePoint | null;
+}
+
+/** A path read all the way to an ending. */
+export interface StoryPath {
+  choices:     number[];
+  completedAt: string;
+}
+
+export interface StoryGraph {
+  storyId:   string;
+  maxDepth:  number;
+  nodes:     Record<string, StoryNode>;
+  paths:     StoryPath[];
+  updatedAt: string;
+}
+
+/** Everything a node generation needs besides the graph itself. */
+export interface StoryNodeContext {
+  child:     Pick<Child, 'id' | 'name' | 'age'> & Partial<Pick<Child, 'avoid_topics' | 'fears' | 'inclusions'>>;
+  title:     string;
+  narrator?: NarratorPersonality | null;
+  language?: string;
+  characters?: CastMember[];
+}
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+async function readGraphs(): Promise<Record<string, StoryGraph>> {
+  try {
+    const raw = await AsyncStorage.getItem(GRAPHS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, StoryGraph>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function saveGraph(graph: StoryGraph): Promise<void> {
+  const graphs = { ...(await readGraphs()), [graph.storyId]: graph };
+  const kept = Object.values(graphs)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_GRAPHS);
+  await AsyncStorage.setItem(GRAPHS_KEY, JSON.stringify(Object.fromEntries(kept.map((g) => [g.storyId, g]))));
+}
+
+export async function getStoryGraph(storyId: string): Promise<StoryGraph | null> {
+  return (await readGraphs())[storyId] ?? null;
+}
+
+/** The story's graph, created from its opening the first time it is played. */
+export async function ensureStoryGraph(
+  storyId: string,
+  opening: { paragraphs: string[]; choicePoint: StoryChoicePoint },
+  maxDepth = DEFAULT_MAX_DEPTH,
+): Promise<StoryGraph> {
+  const existing = await getStoryGraph(storyId);
+  if (existing) return existing;
+  const graph: StoryGraph = {
+    storyId,
+    maxDepth,
+    nodes: {
+      [ROOT_ID]: { id: ROOT_ID, parentId: null, choiceIndex: null, depth: 0, ...opening },
+    },
+    paths:     [],
+    updatedAt: new Date().toISOString(),
+  };
+  await saveGraph(graph);
+  return graph;
+}
+
+// ─── Paths ────────────────────────────────────────────────────────────────────
+
+function childId(parentId: string, choiceIndex: number): string {
+  return `${parentId}.${choiceIndex}`;
+}
+
+/** Nodes along a path of choices, starting at the root; stops at the first step not generated yet. */
+export function nodesForPath(graph: StoryGraph, choices: number[]): StoryNode[] {
+  const nodes: StoryNode[] = [graph.nodes[ROOT_ID]];
+  let id = ROOT_ID;
+  for (const choice of choices) {
+    id = childId(id, choice);
+    const node = graph.nodes[id];
+    if (!node) break;
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+/** Label of the option taken at each step of a path. */
+export function pathLabels(graph: StoryGraph, choices: number[]): string[] {
+  const nodes = nodesForPath(graph, choices);
+  return choices.map((choice, i) => {
+    const option = nodes[i]?.choicePoint?.options[choice];
+    return option ? `${option.emoji} ${option.label}` : '…';
+  });
+}
+
+/** Remember a path that reached an ending (most recent first, no duplicates). */
+export async function saveCompletedPath(graph: StoryGraph, choices: number[]): Promise<StoryGraph> {
+  const key = choices.join('.');
+  const next: StoryGraph = {
+    ...graph,
+    paths: [
+      { choices, completedAt: new Date().toISOString() },
+      ...graph.paths.filter((p) => p.choices.join('.') !== key),
+    ],
+    updatedAt: new Date().toISOString(),
+  };
+  await saveGraph(next);
+  return next;
+}
+
+// ─── Generation ───────────────────────────────────────────────────────────────
+
+/**
+ * The node reached by taking `choiceIndex` at `parentId` – from the graph
+ * when this step was taken before, otherwise generated, screened and saved.
+ * @throws when generation fails or the safety filter removes everything
+ */
+export async function takeChoice(
+  graph: StoryGraph,
+  parentId: string,
+  choiceIndex: number,
+  context: StoryNodeContext,
+): Promise<{ graph: StoryGraph; node: StoryNode }> {
+  const id = childId(parentId, choiceIndex);
+  const cached = graph.nodes[id];
+  if (cached) return { graph, node: cached };
+
+  const parent = graph.nodes[parentId];
+  const option = parent?.choicePoint?.options[choiceIndex];
+  if (!parent || !option) throw new Error(`No choice ${choiceIndex} at ${parentId}`);
+
+  const depth = parent.depth + 1;
+  const isEnding = depth >= graph.maxDepth;
+  const storySoFar = collectAncestors(graph, parent).flatMap((n) => n.paragraphs).join('\n\n');
+  const prompt = buildStoryNodePrompt({
+    storySoFar,
+    chosenPath:          option.value || option.label,
+    childName:           context.child.name,
+    depth,
+    maxDepth:            graph.maxDepth,
+    narratorPersonality: context.narrator ?? undefined,
+    language:            context.language,
+    boundaries:          context.child,
+    characters:          context.characters,
+  });
+
+  const generated = await generateStoryNode({ prompt, isEnding });
+  const { text: safeText } = await moderateText(generated.paragraphs.join('\n\n'), {
+    kind:       'branch',
+    age:        context.child.age,
+    title:      context.title,
+    allowNames: [context.child.name],
+    childId:    context.child.id,
+    boundaries: context.child,
+    language:   context.language,
+  });
+  if (!safeText) throw new Error('Story node blocked by safety filter');
+  const { details: { choicePoint } } = await moderateStoryDetails({ choicePoint: generated.choicePoint }, {
+    age:        context.child.age,
+    title:      context.title,
+    allowNames: [context.child.name],
+    childId:    context.child.id,
+    boundaries: context.child,
+    language:   context.language,
+  });
+
+  const node: StoryNode = {
+    id,
+    parentId,
+    choiceIndex,
+    depth,
+    paragraphs:  safeText.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean),
+    choicePoint: choicePoint ?? null,
+  };
+  const next: StoryGraph = { ...graph, nodes: { ...graph.nodes, [id]: node }, updatedAt: new Date().toISOString() };
+  await saveGraph(next);
+  return { graph: next, node };
+}
+
+/** The node and everything above it, root first. */
+function collectAncestors(graph: StoryGraph, node: StoryNode): StoryNode[] {
+  const chain: StoryNode[] = [];
+  let current: StoryNode | undefined = node;
+  while (current) {
+    chain.unshift(current);
+    current = current.parentId ? graph.nodes[current.parentId] : undefined;
+  }
+  return chain;
+}
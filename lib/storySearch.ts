@@ -0,0 +1,232 @@
+/**
+ * Story Search – find "the dragon one from last month"
+ *
+ * An in-memory index over every story in lib/storyStore: title, content,
+ * theme, narrator and child name. It is built a page at a time from the
+ * store, so it covers the family's whole history offline; keeping the
+ * store fresh is syncService's job.
+ *
+ * Matching is fuzzy: every query word must match a word in the story by
+ * prefix ("drag" → "dragon") or within a small edit distance ("dragn").
+ * Title hits rank above theme/narrator/child hits, which rank above
+ * content hits; ties go to the newest story.
+ *
+ */
+
+import type { StoryPageCursor } from './supabase';
+import { getCachedChildren } from './syncService';
+import { NARRATOR_PERSONALITIES } from './newell';
+import { listStories } from './storyStore';
+
+const INDEX_PAGE_SIZE = 200;
+
+const FIELD_WEIGHT = { title: 3, meta: 2, content: 1 } as const;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** One story as the index keeps it – enough to show, filter and open it. */
+export interface IndexedStory {
+  id:            string;
+  title:         string;
+  content:       string;
+  theme:         string | null;
+  narratorName:  string | null;
+  childId:       string | null;
+  childName:     string | null;
+  imageUrl:      string | null;
+  isFavorite:    boolean;
+  isInteractive: boolean;
+  /** Language the story was written in; older stories are English */
+  language:      string;
+  createdAt:     string;
+  /** The cached entry as stored, so the player gets every field back */
+  raw:           Record<string, unknown>;
+  titleWords:    string[];
+  metaWords:     string[];
+  contentWords:  string[];
+}
+
+export interface StorySearchFilters {
+  favoritesOnly?:   boolean;
+  interactiveOnly?: boolean;
+  language?:        string | null;
+  /** ISO dates, inclusive */
+  from?:            string | null;
+  to?:              string | null;
+  /** Limit to a collection's stories (see CollectionModal) */
+  storyIds?:        string[] | null;
+}
+
+export interface StorySearchResult {
+  story:   IndexedStory;
+  score:   number;
+  /** A bit of the content around the first match, for the result row */
+  snippet: string | null;
+}
+
+// ─── Text ─────────────────────────────────────────────────────────────────────
+
+/** Lower-case, accent-free words. */
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1);
+}
+
+/** Levenshtein distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** How well a query word matches a story word: 1 exact/prefix, 0.6 fuzzy, 0 none. */
+function wordMatch(term: string, word: string): number {
+  if (word.startsWith(term)) return 1;
+  if (term.length < 4) return 0;
+  const allowed = term.length > 6 ? 2 : 1;
+  return editDistance(term, word.slice(0, term.length + allowed), allowed) <= allowed ? 0.6 : 0;
+}
+
+function bestMatch(term: string, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    best = Math.max(best, wordMatch(term, word));
+    if (best === 1) break;
+  }
+  return best;
+}
+
+function snippetFor(content: string, terms: string[]): string | null {
+  const lower = content.toLowerCase();
+  const at = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0).sort((a, b) => a - b)[0];
+  // Fuzzy and accent-folded hits have no exact position – show the opening
+  if (at === undefined) return content.length > 0 ? `${content.slice(0, 110).replace(/\s+/g, ' ').trim()}…` : null;
+  const start = Math.max(0, at - 40);
+  const end = Math.min(content.length, at + 80);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end).replace(/\s+/g, ' ').trim()}${end < content.length ? '…' : ''}`;
+}
+
+// ─── Index ────────────────────────────────────────────────────────────────────
+
+/** The last index built, reused until the next refresh. */
+let builtIndex: IndexedStory[] | null = null;
+
+type CachedEntry = Record<string, unknown> & { id?: string; title?: string; content?: string | null };
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/** Normalise a cached story (synced row or player entry) for the index. */
+function toIndexed(entry: CachedEntry, childNames: Map<string, string>): IndexedStory | null {
+  if (!entry.id || !entry.title || !entry.content) return null;
+  const childId = str(entry.child_id);
+  const narratorId = str(entry.narrator_id) ?? str(entry.narratorId);
+  const narratorName = NARRATOR_PERSONALITIES.find((n) => n.id === narratorId)?.name ?? null;
+  const childName = str(entry.childName) ?? (childId ? childNames.get(childId) ?? null : null);
+  const theme = str(entry.theme);
+  return {
+    id:            entry.id,
+    title:         entry.title,
+    content:       entry.content,
+    theme,
+    narratorName,
+    childId,
+    childName,
+    imageUrl:      str(entry.image_url) ?? str(entry.imageUrl),
+    isFavorite:    entry.is_favorite === true,
+    isInteractive: entry.is_interactive === true || entry.isInteractive === true,
+    language:      str(entry.language) ?? 'en',
+    createdAt:     str(entry.created_at) ?? str(entry.createdAt) ?? new Date(0).toISOString(),
+    raw:           entry,
+    titleWords:    tokenize(entry.title),
+    metaWords:     tokenize([theme, narratorName, childName].filter(Boolean).join(' ')),
+    contentWords:  [...new Set(tokenize(entry.content))],
+  };
+}
+
+/** Rebuild the index from the story store (newest first). */
+export async function refreshSearchIndex(): Promise<IndexedStory[]> {
+  const children = await getCachedChildren();
+  const childNames = new Map(children.map((c) => [c.id, c.name]));
+  const stories: IndexedStory[] = [];
+  let before: StoryPageCursor | null = null;
+  do {
+    const page = await listStories({ before, limit: INDEX_PAGE_SIZE });
+    for (const entry of page.stories) {
+      const indexed = toIndexed(entry, childNames);
+      if (indexed) stories.push(indexed);
+    }
+    before = page.nextCursor;
+  } while (before);
+  builtIndex = stories;
+  return stories;
+}
+
+/** The index as last built this session (for an instant first render before refreshing). */
+export function getSearchIndex(): IndexedStory[] {
+  return builtIndex ?? [];
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+function passesFilters(story: IndexedStory, filters: StorySearchFilters): boolean {
+  if (filters.favoritesOnly && !story.isFavorite) return false;
+  if (filters.interactiveOnly && !story.isInteractive) return false;
+  if (filters.language && story.language !== filters.language) return false;
+  if (filters.from && story.createdAt < filters.from) return false;
+  if (filters.to && story.createdAt > filters.to) return false;
+  if (filters.storyIds && !filters.storyIds.includes(story.id)) return false;
+  return true;
+}
+
+/**
+ * Search the index. An empty query lists every story passing the filters,
+ * newest first.
+ */
+export function searchStories(
+  stories: IndexedStory[],
+  query: string,
+  filters: StorySearchFilters = {},
+): StorySearchResult[] {
+  const terms = tokenize(query);
+  const results: StorySearchResult[] = [];
+
+  for (const story of stories) {
+    if (!passesFilters(story, filters)) continue;
+    if (terms.length === 0) {
+      results.push({ story, score: 0, snippet: null });
+      continue;
+    }
+    let score = 0;
+    let matchedAll = true;
+    for (const term of terms) {
+      const termScore = Math.max(
+        bestMatch(term, story.titleWords) * FIELD_WEIGHT.title,
+        bestMatch(term, story.metaWords) * FIELD_WEIGHT.meta,
+        bestMatch(term, story.contentWords) * FIELD_WEIGHT.content,
+      );
+      if (termScore === 0) { matchedAll = false; break; }
+      score += termScore;
+    }
+    if (matchedAll) results.push({ story, score, snippet: snippetFor(story.content, terms) });
+  }
+
+  return results.sort((a, b) => b.score - a.score || b.story.createdAt.localeCompare(a.story.createdAt));
+}
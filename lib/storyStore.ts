@@ -0,0 +1,332 @@
+/**
+ * Story Store – every story on this device, in SQLite
+ *
+ * The one local repository for stories: rows pulled from Supabase, entries
+ * written by create-story (with player-only fields such as choicePath or
+ * pictureBook) and stories made offline under a `local_…` id. Nothing is
+ * capped – screens read it a page at a time with a keyset cursor
+ * (created_at, id), newest first, so a long history never has to be loaded
+ * at once.
+ *
+ * Each story is kept whole as JSON, next to the columns it is queried by.
+ * Writes merge into what is already stored, so a synced row and the
+ * player's entry for the same story become one record.
+ *
+ * The first open imports the AsyncStorage caches this store replaces
+ * (local_stories and the offline_story_* entries of lib/offlineCache).
+ *
+ * Database: stories.db (table stories; PRAGMA user_version = SCHEMA_VERSION)
+ */
+
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Story, StoryPageCursor } from './supabase';
+
+const DATABASE_NAME     = 'stories.db';
+const SCHEMA_VERSION    = 1;
+export const STORY_PAGE_SIZE = 20;
+
+const LEGACY_STORIES_KEY  = 'local_stories';
+const LEGACY_OFFLINE_IDS  = 'offline_story_ids';
+const LEGACY_OFFLINE_PREFIX = 'offline_story_';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * A story as stored: a synced `stories` row, a create-story entry
+ * (imageUrl, createdAt, childName, …) or both merged.
+ */
+export type StoredStory = Partial<Story> & Record<string, unknown> & {
+  id:    string;
+  title: string;
+};
+
+export interface StoryQuery {
+  /** Stories for this child plus ones not tied to any child */
+  childId?:       string | null;
+  favoritesOnly?: boolean;
+  sagaId?:        string | null;
+  /** The nextCursor of the previous page */
+  before?:        StoryPageCursor | null;
+  limit?:         number;
+}
+
+export interface StoryPage {
+  stories:    StoredStory[];
+  /** null on the last page */
+  nextCursor: StoryPageCursor | null;
+}
+
+interface StoryRow {
+  id:         string;
+  created_at: string;
+  data:       string;
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+let database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+async function migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  if ((row?.user_version ?? 0) >= SCHEMA_VERSION) return;
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS stories (
+      id          TEXT    PRIMARY KEY NOT NULL,
+      user_id     TEXT,
+      child_id    TEXT,
+      saga_id     TEXT,
+      is_favorite INTEGER NOT NULL DEFAULT 0,
+      created_at  TEXT    NOT NULL,
+      updated_at  TEXT,
+      data        TEXT    NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS stories_created_idx       ON stories (created_at DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS stories_child_created_idx ON stories (child_id, created_at DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS stories_saga_idx          ON stories (saga_id);
+    PRAGMA user_version = ${SCHEMA_VERSION};
+  `);
+}
+
+/** Move the AsyncStorage caches this store replaces into it, once. */
+async function importLegacyCaches(db: SQLite.SQLiteDatabase): Promise<void> {
+  const [storiesRaw, offlineIdsRaw] = await Promise.all([
+    AsyncStorage.getItem(LEGACY_STORIES_KEY),
+    AsyncStorage.getItem(LEGACY_OFFLINE_IDS),
+  ]);
+  if (!storiesRaw && !offlineIdsRaw) return;
+
+  const offlineIds = offlineIdsRaw ? (JSON.parse(offlineIdsRaw) as string[]) : [];
+  const offlineKeys = offlineIds.map((id) => `${LEGACY_OFFLINE_PREFIX}${id}`);
+  const offline = (await AsyncStorage.multiGet(offlineKeys))
+    .map(([, raw]) => (raw ? (JSON.parse(raw) as Record<string, unknown>) : null))
+    .filter((s): s is Record<string, unknown> => s !== null)
+    .map(({ child_name, ...rest }) => ({ ...rest, childName: child_name }));
+  const stories = storiesRaw ? (JSON.parse(storiesRaw) as Record<string, unknown>[]) : [];
+
+  await writeStories(db, [...offline, ...stories]);
+  await AsyncStorage.multiRemove([LEGACY_STORIES_KEY, LEGACY_OFFLINE_IDS, ...offlineKeys]);
+}
+
+function openStore(): Promise<SQLite.SQLiteDatabase> {
+  if (!database) {
+    database = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await migrate(db);
+      try {
+        await importLegacyCaches(db);
+      } catch (err) {
+        console.warn('[StoryStore] Legacy cache import failed:', err);
+      }
+      return db;
+    })();
+    // Let the next call try again rather than caching a failed open
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+// ─── Rows ─────────────────────────────────────────────────────────────────────
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/** created_at (synced rows) or createdAt (create-story entries), as a sortable ISO string. */
+function sortKey(story: Record<string, unknown>): string {
+  const raw = str(story.created_at) ?? str(story.createdAt);
+  const time = raw ? Date.parse(raw) : NaN;
+  return new Date(Number.isNaN(time) ? 0 : time).toISOString();
+}
+
+function fromRow(row: StoryRow): StoredStory {
+  const story = JSON.parse(row.data) as StoredStory;
+  return {
+    ...story,
+    is_favorite: story.is_favorite ?? false,
+    updated_at:  story.updated_at ?? story.created_at,
+  };
+}
+
+function pageOf(rows: StoryRow[], limit: number): StoryPage {
+  const last = rows.length === limit ? rows[rows.length - 1] : null;
+  return {
+    stories:    rows.map(fromRow),
+    nextCursor: last ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
+
+/** Fields given win over stored ones; undefined fields leave them alone. */
+function mergeEntry(stored: Record<string, unknown>, entry: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...stored };
+  for (const [key, value] of Object.entries(entry)) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+async function writeStories(db: SQLite.SQLiteDatabase, entries: Record<string, unknown>[]): Promise<void> {
+  await db.withTransactionAsync(async () => {
+    for (const entry of entries) {
+      const id = str(entry.id);
+      if (!id) continue;
+      const existing = await db.getFirstAsync<{ data: string }>('SELECT data FROM stories WHERE id = ?', id);
+      const merged = mergeEntry(existing ? (JSON.parse(existing.data) as Record<string, unknown>) : {}, entry);
+      await db.runAsync(
+        `INSERT OR REPLACE INTO stories (id, user_id, child_id, saga_id, is_favorite, created_at, updated_at, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        id,
+        str(merged.user_id),
+        str(merged.child_id),
+        str(merged.saga_id),
+        merged.is_favorite === true ? 1 : 0,
+        sortKey(merged),
+        str(merged.updated_at),
+        JSON.stringify(merged),
+      );
+    }
+  });
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+/** One page of stories, newest first. */
+export async function listStories(query: StoryQuery = {}): Promise<StoryPage> {
+  const { childId = null, favoritesOnly = false, sagaId = null, before = null, limit = STORY_PAGE_SIZE } = query;
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  if (childId) {
+    where.push('(child_id IS NULL OR child_id = ?)');
+    params.push(childId);
+  }
+  if (favoritesOnly) where.push('is_favorite = 1');
+  if (sagaId) {
+    where.push('saga_id = ?');
+    params.push(sagaId);
+  }
+  if (before) {
+    where.push('(created_at < ? OR (created_at = ? AND id < ?))');
+    params.push(before.created_at, before.created_at, before.id);
+  }
+  const db = await openStore();
+  const rows = await db.getAllAsync<StoryRow>(
+    `SELECT id, created_at, data FROM stories
+     ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ?`,
+    ...params,
+    limit,
+  );
+  return pageOf(rows, limit);
+}
+
+export async function getStoredStory(id: string): Promise<StoredStory | null> {
+  const db = await openStore();
+  const row = await db.getFirstAsync<StoryRow>('SELECT id, created_at, data FROM stories WHERE id = ?', id);
+  return row ? fromRow(row) : null;
+}
+
+/** Stories by id (e.g. a collection's), newest first; unknown ids are skipped. */
+export async function getStoredStories(ids: string[]): Promise<StoredStory[]> {
+  if (ids.length === 0) return [];
+  const db = await openStore();
+  const rows = await db.getAllAsync<StoryRow>(
+    `SELECT id, created_at, data FROM stories WHERE id IN (${ids.map(() => '?').join(', ')})
+     ORDER BY created_at DESC, id DESC`,
+    ...ids,
+  );
+  return rows.map(fromRow);
+}
+
+export async function countStories(): Promise<number> {
+  const db = await openStore();
+  const row = await db.getFirstAsync<{ total: number }>('SELECT COUNT(*) AS total FROM stories');
+  return row?.total ?? 0;
+}
+
+/**
+ * Stories made before sign-in or on another account – a `local_…` id or a
+ * user_id outside `ownerIds` (the user and their family group) – which
+ * lib/migrationService offers to upload.
+ */
+export async function getStoriesToMigrate(ownerIds: string[]): Promise<StoredStory[]> {
+  const db = await openStore();
+  const rows = await db.getAllAsync<StoryRow>(
+    `SELECT id, created_at, data FROM stories
+     WHERE id LIKE 'local\\_%' ESCAPE '\\' OR user_id IS NULL
+        OR user_id NOT IN (${ownerIds.map(() => '?').join(', ')})
+     ORDER BY created_at DESC, id DESC`,
+    ...ownerIds,
+  );
+  return rows.map(fromRow);
+}
+
+/** Ids of stories with a server id (not `local_…`) created before a time. */
+export async function getSyncedStoryIds(createdBefore: string): Promise<string[]> {
+  const db = await openStore();
+  const rows = await db.getAllAsync<{ id: string }>(
+    `SELECT id FROM stories WHERE id NOT LIKE 'local\\_%' ESCAPE '\\' AND created_at < ?`,
+    new Date(createdBefore).toISOString(),
+  );
+  return rows.map((r) => r.id);
+}
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+
+/** Insert or merge stories (fields given win over stored ones). */
+export async function putStories(entries: { id?: string | null }[]): Promise<void> {
+  if (entries.length === 0) return;
+  await writeStories(await openStore(), entries as Record<string, unknown>[]);
+}
+
+export async function putStory(entry: { id: string } & Record<string, unknown>): Promise<void> {
+  await putStories([entry]);
+}
+
+/** Merge fields into a stored story; does nothing when it is not stored. */
+export async function updateStoredStory(id: string, patch: Record<string, unknown>): Promise<void> {
+  const db = await openStore();
+  const existing = await db.getFirstAsync<{ id: string }>('SELECT id FROM stories WHERE id = ?', id);
+  if (existing) await writeStories(db, [{ ...patch, id }]);
+}
+
+export async function removeStories(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openStore();
+  await db.withTransactionAsync(async () => {
+    for (const id of ids) await db.runAsync('DELETE FROM stories WHERE id = ?', id);
+  });
+}
+
+/**
+ * Give a story its server id once the mutation queue has inserted it. When
+ * a sync already pulled the server row, the local entry is folded into it.
+ */
+export async function remapStoryId(localId: string, serverId: string): Promise<void> {
+  const db = await openStore();
+  const row = await db.getFirstAsync<{ data: string }>('SELECT data FROM stories WHERE id = ?', localId);
+  if (!row) return;
+  const local = JSON.parse(row.data) as Record<string, unknown>;
+  const pulled = await db.getFirstAsync<{ data: string }>('SELECT data FROM stories WHERE id = ?', serverId);
+  const merged = pulled ? { ...local, ...(JSON.parse(pulled.data) as Record<string, unknown>) } : local;
+  await db.runAsync('DELETE FROM stories WHERE id = ?', localId);
+  await writeStories(db, [{ ...merged, id: serverId }]);
+}
+
+/** Point a saga's chapters at the saga's server id. */
+export async function remapStorySagaId(localId: string, serverId: string): Promise<void> {
+  const db = await openStore();
+  await db.runAsync(
+    `UPDATE stories SET saga_id = ?, data = json_set(data, '$.saga_id', ?) WHERE saga_id = ?`,
+    serverId,
+    serverId,
+    localId,
+  );
+}
+
+/** Remove every story (sign-out / account deletion). */
+export async function clearStoryStore(): Promise<void> {
+  const db = await openStore();
+  await db.runAsync('DELETE FROM stories');
+}
@@ -0,0 +1,153 @@
+/**
+ * Story Translation – "read this story in Spanish"
+ *
+ * Translates what the player shows (title, opening and the path read so
+ * far) with buildTranslationPrompt and keeps the result on the stored story
+ * (lib/storyStore), one translation per language, so reading it again – or
+ * offline – costs nothing. A translation remembers a fingerprint of the text
+ * it came from; when that changes (another adventure path, a regenerated
+ * story) it is made again.
+ *
+ * A translation is new text, so it is screened in its own language
+ * (lib/contentSafety) before it is kept or shown; one the filter had to cut
+ * a paragraph from no longer lines up with the story and is made again.
+ *
+ * Stored on the story entry:
+ *   translations → Partial<Record<LanguageCode, StoryTranslation>>
+ */
+
+import { generateText } from '@fastshot/ai';
+import { moderateStoryDetails, moderateText, type ModerationOptions } from './contentSafety';
+import { buildTranslationPrompt, type ChildBoundaries, type LanguageCode, type NarratorPersonality } from './newell';
+import type { Child } from './supabase';
+import { extractJson } from './storyGeneration';
+import { getStoredStory, updateStoredStory } from './storyStore';
+
+const MAX_ATTEMPTS = 2;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TranslatableStory {
+  /** null for a story that is not stored – its translation isn't kept */
+  id:         string | null;
+  title:      string;
+  paragraphs: string[];
+}
+
+export interface StoryTranslation {
+  language:     LanguageCode;
+  title:        string;
+  paragraphs:   string[];
+  /** Fingerprint of the source text (see fingerprint) */
+  source:       string;
+  translatedAt: string;
+}
+
+type StoredTranslations = Partial<Record<LanguageCode, StoryTranslation>>;
+
+/** The child the story is read to – their age, name and boundaries guide the screening. */
+export type TranslationReader = Pick<Child, 'id' | 'name' | 'age'> & ChildBoundaries;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Short, stable hash of the source text – enough to notice that it changed. */
+function fingerprint(story: Pick<TranslatableStory, 'title' | 'paragraphs'>): string {
+  const text = [story.title, ...story.paragraphs].join('\n');
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+}
+
+async function readTranslations(storyId: string): Promise<StoredTranslations> {
+  const stored = await getStoredStory(storyId);
+  const translations = stored?.translations;
+  return translations && typeof translations === 'object' ? (translations as StoredTranslations) : {};
+}
+
+function parseTranslation(raw: string, paragraphCount: number): { title: string; paragraphs: string[] } | null {
+  const json = extractJson(raw) as { title?: unknown; paragraphs?: unknown } | null;
+  if (!json || typeof json.title !== 'string' || !Array.isArray(json.paragraphs)) return null;
+  const paragraphs = json.paragraphs.map((p) => (typeof p === 'string' ? p.trim() : ''));
+  if (paragraphs.length !== paragraphCount || paragraphs.some((p) => !p)) return null;
+  return { title: json.title.trim(), paragraphs };
+}
+
+/** Screen a translation; null when the filter cut a paragraph from it. */
+async function screenTranslation(
+  translation: { title: string; paragraphs: string[] },
+  language: LanguageCode,
+  reader?: TranslationReader | null,
+): Promise<{ title: string; paragraphs: string[] } | null> {
+  const options: Omit<ModerationOptions, 'kind'> = {
+    age:        reader?.age,
+    title:      translation.title,
+    allowNames: reader ? [reader.name] : [],
+    childId:    reader?.id,
+    boundaries: reader,
+    language,
+  };
+  const { text } = await moderateText(translation.paragraphs.join('\n\n'), { ...options, kind: 'story' });
+  const paragraphs = text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  if (paragraphs.length !== translation.paragraphs.length) return null;
+  const { details } = await moderateStoryDetails({ title: translation.title }, options);
+  return { title: details.title ?? translation.title, paragraphs };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** The kept translation of this text, or null when there is none (or it is stale). */
+export async function getStoryTranslation(
+  story: TranslatableStory,
+  language: LanguageCode,
+): Promise<StoryTranslation | null> {
+  if (!story.id) return null;
+  const kept = (await readTranslations(story.id))[language];
+  return kept && kept.source === fingerprint(story) ? kept : null;
+}
+
+/**
+ * Translate a story into the language, reusing a kept translation of the
+ * same text. New translations are screened for the reader before they are
+ * kept.
+ * @throws Error when no attempt produced a complete, safe translation
+ */
+export async function translateStory(
+  story: TranslatableStory,
+  language: LanguageCode,
+  narrator?: NarratorPersonality | null,
+  reader?: TranslationReader | null,
+): Promise<StoryTranslation> {
+  const kept = await getStoryTranslation(story, language);
+  if (kept) return kept;
+
+  const prompt = buildTranslationPrompt(story, language, narrator, reader);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const parsed = parseTranslation((await generateText({ prompt, temperature: 0.3 })) ?? '', story.paragraphs.length);
+    if (!parsed) {
+      console.warn(`[StoryTranslation] Attempt ${attempt + 1} returned an incomplete translation`);
+      continue;
+    }
+    const screened = await screenTranslation(parsed, language, reader);
+    if (!screened) {
+      console.warn(`[StoryTranslation] Attempt ${attempt + 1} lost a paragraph to the safety filter`);
+      continue;
+    }
+
+    const translation: StoryTranslation = {
+      ...screened,
+      language,
+      source:       fingerprint(story),
+      translatedAt: new Date().toISOString(),
+    };
+    if (story.id) {
+      try {
+        const translations = { ...(await readTranslations(story.id)), [language]: translation };
+        await updateStoredStory(story.id, { translations });
+      } catch (err) {
+        console.warn('[StoryTranslation] Could not keep the translation:', err);
+      }
+    }
+    return translation;
+  }
+  throw new Error('The story could not be translated. Please try again.');
+}
@@ -1,22 +1,201 @@
 /**
  * Bedtime Streak Tracker
  *
- * Tracks consecutive nights of storytelling.
- * A streak increments when stories are completed on consecutive calendar days.
- * Same-day completions don't change the streak.
- * Missing a day resets the streak to 1.
+ * Tracks consecutive nights of storytelling, per child (see lib/activeChild).
+ *
+ * Every completed story is logged against a *night*, not a calendar day:
+ * anything before the bedtime-window end hour (default 04:00) belongs to the
+ * previous night, so a story at 00:30 keeps Monday's streak alive. Nights
+ * are compared as local calendar dates (YYYY-MM-DD), never as millisecond
+ * differences, so time-zone changes and DST shifts can't break a streak.
+ *
+ * A missed night no longer resets the streak if the child holds a streak
+ * freeze (bought with stardust): freezes are spent automatically to bridge
+ * the gap when the next story is logged. Frozen nights keep the streak
+ * alive but don't add to it.
+ *
+ * Cache keys:
+ *   bedtime_streak_log_<child_id> → StreakLog
+ *   bedtime_window_end_hour       → hour (0–6) at which a night ends
+ *   bedtime_streak_count_<child_id> / bedtime_last_story_date_<child_id>
+ *                                 → legacy counter, folded into the log once
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { childStorageKey } from './activeChild';
+import { purchaseShopItem, STREAK_FREEZE_ITEM, type PurchaseFailure } from './stardust';
+
+const LOG_KEY        = 'bedtime_streak_log';
+const WINDOW_END_KEY = 'bedtime_window_end_hour';
+const LEGACY_STREAK_KEY    = 'bedtime_streak_count';
+const LEGACY_LAST_DATE_KEY = 'bedtime_last_story_date';
+
+export const DEFAULT_BEDTIME_WINDOW_END = 4;
+export const BEDTIME_WINDOW_END_OPTIONS = [0, 2, 3, 4, 5, 6];
+export const MAX_STREAK_FREEZES = 2;
+const MAX_LOGGED_NIGHTS = 730;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface StreakLog {
+  /** Nights (YYYY-MM-DD) with a completed story, ascending */
+  nights:  string[];
+  /** Missed nights bridged by a freeze, ascending */
+  frozen:  string[];
+  /** Freezes held and not yet spent */
+  freezes: number;
+  /** Longest run of story nights ever recorded */
+  longest: number;
+}
+
+export interface StreakSummary {
+  current:        number;
+  longest:        number;
+  freezes:        number;
+  /** A story has already been logged for tonight */
+  tonightLogged:  boolean;
+  /** Missed nights that will use freezes when the next story is logged */
+  pendingFreezes: number;
+}
+
+const EMPTY_LOG: StreakLog = { nights: [], frozen: [], freezes: 0, longest: 0 };
+
+// ─── Night keys ───────────────────────────────────────────────────────────────
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function dateKey(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Calendar-day number for a night key (DST-proof: computed in UTC). */
+function dayIndex(key: string): number {
+  const [y, m, d] = key.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86_400_000);
+}
+
+function keyFromIndex(index: number): string {
+  const d = new Date(index * 86_400_000);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+/** The night a moment belongs to: before `windowEndHour` counts as the previous evening. */
+export function nightKeyFor(date: Date, windowEndHour = DEFAULT_BEDTIME_WINDOW_END): string {
+  if (date.getHours() < windowEndHour) {
+    return dateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1));
+  }
+  return dateKey(date);
+}
+
+// ─── Bedtime window ───────────────────────────────────────────────────────────
+
+export async function getBedtimeWindowEnd(): Promise<number> {
+  try {
+    const raw = await AsyncStorage.getItem(WINDOW_END_KEY);
+    const hour = raw ? parseInt(raw, 10) : NaN;
+    return Number.isFinite(hour) ? hour : DEFAULT_BEDTIME_WINDOW_END;
+  } catch {
+    return DEFAULT_BEDTIME_WINDOW_END;
+  }
+}
+
+export async function setBedtimeWindowEnd(hour: number): Promise<void> {
+  await AsyncStorage.setItem(WINDOW_END_KEY, String(Math.max(0, Math.min(6, Math.round(hour)))));
+}
+
+// ─── Log persistence ──────────────────────────────────────────────────────────
 
-const STREAK_KEY    = 'bedtime_streak_count';
-const LAST_DATE_KEY = 'bedtime_last_story_date';
+/** Nights implied by the pre-log counter: `count` nights ending on the last date. */
+async function readLegacyLog(childId?: string | null): Promise<StreakLog | null> {
+  const [countKey, dateKeyName] = await Promise.all([
+    childStorageKey(LEGACY_STREAK_KEY, childId),
+    childStorageKey(LEGACY_LAST_DATE_KEY, childId),
+  ]);
+  const [countRaw, lastRaw] = await Promise.all([
+    AsyncStorage.getItem(countKey),
+    AsyncStorage.getItem(dateKeyName),
+  ]);
+  await AsyncStorage.multiRemove([countKey, dateKeyName]);
+  const count = countRaw ? parseInt(countRaw, 10) : 0;
+  if (!lastRaw || !count) return null;
 
-/** Returns the current bedtime streak (0 if never completed a story). */
+  const last = dayIndex(dateKey(new Date(lastRaw)));
+  const nights = Array.from({ length: count }, (_, i) => keyFromIndex(last - count + 1 + i));
+  return { ...EMPTY_LOG, nights, longest: count };
+}
+
+/** The streak log for a child (the active child by default). */
+export async function getStreakLog(childId?: string | null): Promise<StreakLog> {
+  try {
+    const raw = await AsyncStorage.getItem(await childStorageKey(LOG_KEY, childId));
+    if (raw) return { ...EMPTY_LOG, ...(JSON.parse(raw) as StreakLog) };
+
+    const legacy = await readLegacyLog(childId);
+    if (legacy) await saveStreakLog(legacy, childId);
+    return legacy ?? EMPTY_LOG;
+  } catch {
+    return EMPTY_LOG;
+  }
+}
+
+async function saveStreakLog(log: StreakLog, childId?: string | null): Promise<void> {
+  const trimmed: StreakLog = {
+    ...log,
+    nights: log.nights.slice(-MAX_LOGGED_NIGHTS),
+    frozen: log.frozen.slice(-MAX_LOGGED_NIGHTS),
+  };
+  await AsyncStorage.setItem(await childStorageKey(LOG_KEY, childId), JSON.stringify(trimmed));
+}
+
+// ─── Streak maths ─────────────────────────────────────────────────────────────
+
+/** Story nights in the unbroken run (frozen nights bridge it) ending at `end`. */
+function runEndingAt(log: StreakLog, end: number): number {
+  const storyNights = new Set(log.nights.map(dayIndex));
+  const frozen      = new Set(log.frozen.map(dayIndex));
+  let count = 0;
+  for (let i = end; storyNights.has(i) || frozen.has(i); i--) {
+    if (storyNights.has(i)) count++;
+  }
+  return count;
+}
+
+function lastCovered(log: StreakLog): number | null {
+  const all = [...log.nights, ...log.frozen].map(dayIndex);
+  return all.length > 0 ? Math.max(...all) : null;
+}
+
+function summarise(log: StreakLog, tonight: string): StreakSummary {
+  const today = dayIndex(tonight);
+  const last  = lastCovered(log);
+  const tonightLogged = log.nights.includes(tonight);
+
+  let current = 0;
+  let pendingFreezes = 0;
+  if (last !== null) {
+    // Nights missed between the last covered night and last night
+    const missed = Math.max(0, today - 1 - last);
+    if (missed <= log.freezes) {
+      current = runEndingAt(log, last);
+      pendingFreezes = missed;
+    }
+  }
+  return { current, longest: Math.max(log.longest, current), freezes: log.freezes, tonightLogged, pendingFreezes };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export async function getStreakSummary(childId?: string | null): Promise<StreakSummary> {
+  const [log, windowEnd] = await Promise.all([getStreakLog(childId), getBedtimeWindowEnd()]);
+  return summarise(log, nightKeyFor(new Date(), windowEnd));
+}
+
+/** Returns the current bedtime streak (0 if never completed a story or the streak lapsed). */
 export async function getBedtimeStreak(): Promise<number> {
   try {
-    const raw = await AsyncStorage.getItem(STREAK_KEY);
-    return raw ? parseInt(raw, 10) : 0;
+    return (await getStreakSummary()).current;
   } catch {
     return 0;
   }
@@ -24,41 +203,50 @@ export async function getBedtimeStreak(): Promise<number> {
 
 /**
  * Call when a story is completed.
- * Updates last-story date and streak count.
+ * Logs tonight, spends freezes to bridge missed nights where possible,
+ * and updates the longest-streak record.
  * Returns the updated streak.
  */
 export async function updateBedtimeStreak(): Promise<number> {
   try {
-    const today       = new Date().toDateString(); // e.g. "Mon Jun 09 2025"
-    const lastDateRaw = await AsyncStorage.getItem(LAST_DATE_KEY);
-    const streakRaw   = await AsyncStorage.getItem(STREAK_KEY);
-    const current     = streakRaw ? parseInt(streakRaw, 10) : 0;
-
-    if (lastDateRaw) {
-      const lastDate  = new Date(lastDateRaw);
-      const todayDate = new Date(today);
-      const diffDays  = Math.round(
-        (todayDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24),
-      );
-
-      if (diffDays === 0) {
-        // Same day — don't change streak, don't update date
-        return current;
-      } else if (diffDays === 1) {
-        // Consecutive night — increment
-        const newStreak = current + 1;
-        await AsyncStorage.setItem(STREAK_KEY,    String(newStreak));
-        await AsyncStorage.setItem(LAST_DATE_KEY, today);
-        return newStreak;
+    const [log, windowEnd] = await Promise.all([getStreakLog(), getBedtimeWindowEnd()]);
+    const tonight = nightKeyFor(new Date(), windowEnd);
+    if (log.nights.includes(tonight)) return summarise(log, tonight).current;
+
+    const next: StreakLog = { ...log, nights: [...log.nights], frozen: [...log.frozen] };
+    const last = lastCovered(log);
+    const today = dayIndex(tonight);
+    if (last !== null && last < today) {
+      const missed = today - 1 - last;
+      if (missed > 0 && missed <= log.freezes) {
+        for (let i = last + 1; i < today; i++) next.frozen.push(keyFromIndex(i));
+        next.freezes -= missed;
       }
-      // Missed a day — reset to 1
     }
-
-    // First ever completion OR streak broken
-    await AsyncStorage.setItem(STREAK_KEY,    '1');
-    await AsyncStorage.setItem(LAST_DATE_KEY, today);
-    return 1;
+    next.nights = [...next.nights, tonight].sort();
+    const current = runEndingAt(next, today);
+    next.longest = Math.max(next.longest, current);
+    await saveStreakLog(next);
+    return current;
   } catch {
     return 0;
   }
 }
+
+/**
+ * Buy one streak freeze for the active child with stardust.
+ * A child can hold at most MAX_STREAK_FREEZES at a time.
+ */
+export async function buyStreakFreeze(): Promise<{ success: boolean; freezes: number; failure?: PurchaseFailure | 'max' }> {
+  const log = await getStreakLog();
+  if (log.freezes >= MAX_STREAK_FREEZES) return { success: false, freezes: log.freezes, failure: 'max' };
+
+  const result = await purchaseShopItem(STREAK_FREEZE_ITEM);
+  if (!result.success) return { success: false, freezes: log.freezes, failure: result.failure };
+
+  // Re-read in case a story was logged while the purchase was in flight
+  const fresh = await getStreakLog();
+  const freezes = Math.min(MAX_STREAK_FREEZES, fresh.freezes + 1);
+  await saveStreakLog({ ...fresh, freezes });
+  return { success: true, freezes };
+}
@@ -66,6 +66,13 @@ export interface UserProfile {
   updated_at: string;
 }
 
+/** Someone or something that should appear in the child's stories. */
+export interface ChildInclusion {
+  kind: 'pet' | 'sibling' | 'comfort' | 'other';
+  /** e.g. "Biscuit the beagle", "big sister Mia", "Mr Snuggles" */
+  name: string;
+}
+
 export interface Child {
   id: string;
   user_id: string;
@@ -74,6 +81,10 @@ export interface Child {
   age: number | null;
   interests: string[];
   life_notes: string | null;
+  // Content boundaries – absent on profiles cached before 005_child_content_boundaries
+  avoid_topics?: string[];
+  fears?: string[];
+  inclusions?: ChildInclusion[];
   created_at: string;
   updated_at: string;
 }
@@ -89,10 +100,16 @@ export interface ParentVoice {
   script_paragraphs_recorded: number;
   is_complete: boolean;
   recording_labels: Record<string, unknown>;
+  /** Set when recorded through a voice recording invitation (see lib/voiceInvites) */
+  invite_id?: string | null;
+  /** Invited voices wait for the family owner; everything else is 'approved' */
+  approval_status?: VoiceApprovalStatus;
   created_at: string;
   updated_at: string;
 }
 
+export type VoiceApprovalStatus = 'pending' | 'approved' | 'rejected';
+
 export interface Story {
   id: string;
   user_id: string;
@@ -102,6 +119,54 @@ export interface Story {
   image_url: string | null;
   theme: string | null;
   is_favorite: boolean;
+  // Saga chapters only (see StorySaga)
+  saga_id?: string | null;
+  chapter_number?: number | null;
+  /** "Previously on…" recap of the chapters before this one */
+  recap?: string | null;
+  narrator_id?: string | null;
+  is_interactive?: boolean;
+  /** Language the story was written in; older stories are 'en' */
+  language?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A character or place remembered between saga chapters. */
+export interface SagaEntity {
+  name: string;
+  description: string;
+}
+
+export interface StorySaga {
+  id: string;
+  user_id: string;
+  child_id: string | null;
+  title: string;
+  theme: string | null;
+  characters: SagaEntity[];
+  places: SagaEntity[];
+  /** Running summary of every chapter so far */
+  summary: string;
+  chapter_count: number;
+  status: 'ongoing' | 'finished';
+  created_at: string;
+  updated_at: string;
+}
+
+/** A recurring companion in a child's stories (their "cast"). */
+export interface StoryCharacter {
+  id: string;
+  user_id: string;
+  child_id: string;
+  name: string;
+  /** "hedgehog", "cloud dragon" */
+  species: string;
+  personality: string;
+  /** What they look like – reused in every illustration they appear in */
+  appearance: string;
+  emoji: string;
+  created_by: 'parent' | 'ai';
   created_at: string;
   updated_at: string;
 }
@@ -177,6 +242,7 @@ export async function updateChild(id: string, data: Partial<Child>) {
   return { child: child as Child | null, error };
 }
 
+/** The user's children and those shared by their family group. */
 export async function getChildren(userId: string) {
   if (!isSupabaseConfigured) {
     console.warn('[Supabase] getChildren skipped – Supabase not configured.');
@@ -185,7 +251,7 @@ export async function getChildren(userId: string) {
   const { data, error } = await supabase
     .from('child_profiles')
     .select('*')
-    .eq('user_id', userId)
+    .in('user_id', await getFamilyUserIds(userId))
     .order('created_at', { ascending: true });
   return { children: data as Child[] | null, error };
 }
@@ -229,19 +295,38 @@ export async function updateParentVoice(id: string, data: Partial<ParentVoice>)
   return { voice: voice as ParentVoice | null, error };
 }
 
+/**
+ * The user's voices, those recorded by the rest of their family group and
+ * those recorded for the family by invitation (RLS decides which of these
+ * the user may see – pending ones only reach the owner).
+ */
 export async function getParentVoices(userId: string) {
   if (!isSupabaseConfigured) {
     console.warn('[Supabase] getParentVoices skipped – Supabase not configured.');
     return { voices: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
   }
+  const familyUserIds = await getFamilyUserIds(userId);
   const { data, error } = await supabase
     .from('voice_profiles')
     .select('*')
-    .eq('user_id', userId)
+    .or(`user_id.in.(${familyUserIds.join(',')}),invite_id.not.is.null`)
     .order('created_at', { ascending: true });
   return { voices: data as ParentVoice[] | null, error };
 }
 
+export async function getParentVoice(id: string) {
+  if (!isSupabaseConfigured) {
+    console.warn('[Supabase] getParentVoice skipped – Supabase not configured.');
+    return { voice: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('voice_profiles')
+    .select('*')
+    .eq('id', id)
+    .single();
+  return { voice: data as ParentVoice | null, error };
+}
+
 export async function deleteParentVoice(id: string) {
   if (!isSupabaseConfigured) {
     console.warn('[Supabase] deleteParentVoice skipped – Supabase not configured.');
@@ -251,6 +336,50 @@ export async function deleteParentVoice(id: string) {
   return { error };
 }
 
+// ──────────────────────────────────────────────────────────
+// Voice Recordings  (storage bucket: voice-recordings)
+// Objects live at <user_id>/<voice_id>/paragraph_<n>.m4a
+// ──────────────────────────────────────────────────────────
+export const VOICE_RECORDINGS_BUCKET = 'voice-recordings';
+
+/** REST endpoint for uploading a single storage object (used for progress-aware uploads). */
+export function getStorageObjectEndpoint(bucket: string, objectPath: string): string {
+  return `${supabaseUrl}/storage/v1/object/${bucket}/${objectPath}`;
+}
+
+/** Auth headers for direct Storage REST calls, or null when signed out. */
+export async function getStorageAuthHeaders(): Promise<Record<string, string> | null> {
+  if (!isSupabaseConfigured) return null;
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) return null;
+  return {
+    Authorization: `Bearer ${token}`,
+    apikey:        supabaseAnonKey,
+  };
+}
+
+export async function createRecordingSignedUrl(objectPath: string, expiresInSeconds = 60 * 60) {
+  if (!isSupabaseConfigured) {
+    console.warn('[Supabase] createRecordingSignedUrl skipped – Supabase not configured.');
+    return { url: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.storage
+    .from(VOICE_RECORDINGS_BUCKET)
+    .createSignedUrl(objectPath, expiresInSeconds);
+  return { url: data?.signedUrl ?? null, error };
+}
+
+export async function deleteVoiceRecordings(objectPaths: string[]) {
+  if (!isSupabaseConfigured) {
+    console.warn('[Supabase] deleteVoiceRecordings skipped – Supabase not configured.');
+    return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  if (objectPaths.length === 0) return { error: null };
+  const { error } = await supabase.storage.from(VOICE_RECORDINGS_BUCKET).remove(objectPaths);
+  return { error };
+}
+
 // ──────────────────────────────────────────────────────────
 // Stories  (table: stories)
 // ──────────────────────────────────────────────────────────
@@ -267,23 +396,52 @@ export async function createStory(data: Omit<Story, 'id' | 'created_at' | 'updat
   return { story: story as Story | null, error };
 }
 
-export async function getStories(userId: string, childId?: string) {
+/** Keyset position in the story list – the last row of the previous page. */
+export interface StoryPageCursor {
+  created_at: string;
+  id:         string;
+}
+
+/**
+ * One page of stories by any of `userIds` (a user and their family, see
+ * getFamilyUserIds), newest first. Pass the previous page's nextCursor as
+ * `before` for the next one; `updatedSince` limits the pages to rows changed
+ * after that time (an incremental sync).
+ */
+export async function getStoriesPage(
+  userIds: string[],
+  options: { before?: StoryPageCursor | null; updatedSince?: string | null; limit?: number } = {},
+) {
   if (!isSupabaseConfigured) {
-    console.warn('[Supabase] getStories skipped – Supabase not configured.');
-    return { stories: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+    console.warn('[Supabase] getStoriesPage skipped – Supabase not configured.');
+    return { stories: null, nextCursor: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
   }
+  const { before = null, updatedSince = null, limit = 100 } = options;
   let query = supabase
     .from('stories')
     .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false });
+    .in('user_id', userIds)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
 
-  if (childId) {
-    query = query.eq('child_id', childId);
+  if (updatedSince) {
+    query = query.gt('updated_at', updatedSince);
+  }
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`,
+    );
   }
 
   const { data, error } = await query;
-  return { stories: data as Story[] | null, error };
+  const stories = data as Story[] | null;
+  const last = stories && stories.length === limit ? stories[stories.length - 1] : null;
+  return {
+    stories,
+    nextCursor: last ? { created_at: last.created_at, id: last.id } as StoryPageCursor : null,
+    error,
+  };
 }
 
 export async function updateStory(id: string, data: Partial<Omit<Story, 'id' | 'created_at'>>) {
@@ -321,6 +479,53 @@ export async function deleteStory(id: string) {
   return { error };
 }
 
+// ──────────────────────────────────────────────────────────
+// Story Sagas  (table: story_sagas)
+// Writes go through lib/mutationQueue via lib/sagas
+// ──────────────────────────────────────────────────────────
+export async function getStorySagas(userId: string) {
+  if (!isSupabaseConfigured) {
+    console.warn('[Supabase] getStorySagas skipped – Supabase not configured.');
+    return { sagas: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('story_sagas')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+  return { sagas: data as StorySaga[] | null, error };
+}
+
+export async function createStorySaga(data: Omit<StorySaga, 'id' | 'created_at' | 'updated_at'>) {
+  if (!isSupabaseConfigured) {
+    console.warn('[Supabase] createStorySaga skipped – Supabase not configured.');
+    return { saga: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data: saga, error } = await supabase
+    .from('story_sagas')
+    .insert({ ...data, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+  return { saga: saga as StorySaga | null, error };
+}
+
+// ──────────────────────────────────────────────────────────
+// Story Characters  (table: story_characters)
+// Writes go through lib/mutationQueue via lib/characters
+// ──────────────────────────────────────────────────────────
+export async function getStoryCharacters(userId: string) {
+  if (!isSupabaseConfigured) {
+    console.warn('[Supabase] getStoryCharacters skipped – Supabase not configured.');
+    return { characters: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('story_characters')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  return { characters: data as StoryCharacter[] | null, error };
+}
+
 // ──────────────────────────────────────────────────────────
 // User Preferences  (table: user_preferences)
 // ──────────────────────────────────────────────────────────
@@ -359,12 +564,128 @@ export async function getUserPreferences(userId: string) {
 }
 
 // ──────────────────────────────────────────────────────────
-// Family Sharing  (tables: family_groups, family_members)
+// Stardust Ledger  (tables: stardust_ledger, stardust_unlocks)
+// Writes go through RPCs so the balance is computed server-side.
 // ──────────────────────────────────────────────────────────
+export interface StardustLedgerEntry {
+  id: string;
+  user_id: string;
+  child_id: string;
+  amount: number;
+  kind: 'earn' | 'spend' | 'merge';
+  reason: string;
+  emoji: string;
+  item_id: string | null;
+  client_txn_id: string;
+  created_at: string;
+}
+
+export async function getStardustLedger(childId: string, limit = 50) {
+  if (!isSupabaseConfigured) {
+    return { entries: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('stardust_ledger')
+    .select('*')
+    .eq('child_id', childId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  return { entries: data as StardustLedgerEntry[] | null, error };
+}
+
+/** Whether the ledger recorded the write sent with this client transaction id. */
+export async function hasStardustLedgerEntry(childId: string, clientTxnId: string) {
+  if (!isSupabaseConfigured) {
+    return { found: false, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('stardust_ledger')
+    .select('id')
+    .eq('child_id', childId)
+    .eq('client_txn_id', clientTxnId)
+    .maybeSingle();
+  return { found: data !== null, error };
+}
+
+export async function getStardustUnlocks(childId: string) {
+  if (!isSupabaseConfigured) {
+    return { itemIds: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('stardust_unlocks')
+    .select('item_id')
+    .eq('child_id', childId);
+  return { itemIds: (data as { item_id: string }[] | null)?.map((r) => r.item_id) ?? null, error };
+}
+
+export async function fetchStardustBalance(childId: string) {
+  if (!isSupabaseConfigured) {
+    return { balance: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('stardust_balance', { p_child_id: childId });
+  return { balance: typeof data === 'number' ? data : null, error };
+}
+
+export async function earnStardustRemote(
+  childId: string,
+  amount: number,
+  reason: string,
+  emoji: string,
+  clientTxnId: string,
+) {
+  if (!isSupabaseConfigured) {
+    return { balance: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('earn_stardust', {
+    p_child_id:      childId,
+    p_amount:        amount,
+    p_reason:        reason,
+    p_emoji:         emoji,
+    p_client_txn_id: clientTxnId,
+  });
+  return { balance: typeof data === 'number' ? data : null, error };
+}
+
+export async function purchaseStardustItemRemote(childId: string, itemId: string, clientTxnId: string) {
+  if (!isSupabaseConfigured) {
+    return { balance: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('purchase_stardust_item', {
+    p_child_id:      childId,
+    p_item_id:       itemId,
+    p_client_txn_id: clientTxnId,
+  });
+  return { balance: typeof data === 'number' ? data : null, error };
+}
+
+export async function mergeLocalStardust(
+  childId: string,
+  balance: number,
+  unlockedItems: string[],
+  clientTxnId: string,
+) {
+  if (!isSupabaseConfigured) {
+    return { balance: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('merge_local_stardust', {
+    p_child_id:       childId,
+    p_balance:        balance,
+    p_unlocked_items: unlockedItems,
+    p_client_txn_id:  clientTxnId,
+  });
+  return { balance: typeof data === 'number' ? data : null, error };
+}
+
+// ──────────────────────────────────────────────────────────
+// Family Sharing  (tables: family_groups, family_members, family_invites,
+//                  family_audit_log)
+// ──────────────────────────────────────────────────────────
+/** See lib/familyRoles for what each role may do. */
+export type FamilyRole = 'owner' | 'co_parent' | 'grandparent' | 'caregiver';
+
 export interface FamilyGroup {
   id: string;
   owner_user_id: string;
-  invite_code: string;
   group_name: string;
   created_at: string;
 }
@@ -373,18 +694,53 @@ export interface FamilyMember {
   id: string;
   group_id: string;
   user_id: string;
-  role: 'owner' | 'member';
+  role: FamilyRole;
   joined_at: string;
 }
 
+export interface FamilyInvite {
+  id: string;
+  group_id: string;
+  code: string;
+  role: Exclude<FamilyRole, 'owner'>;
+  single_use: boolean;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export type FamilyAuditAction =
+  | 'created'
+  | 'joined'
+  | 'left'
+  | 'removed'
+  | 'role_changed'
+  | 'ownership_transferred'
+  | 'invite_created'
+  | 'invite_revoked'
+  | 'voice_invite_created'
+  | 'voice_approved'
+  | 'voice_rejected';
+
+export interface FamilyAuditEntry {
+  id: number;
+  group_id: string;
+  actor_user_id: string | null;
+  subject_user_id: string | null;
+  action: FamilyAuditAction;
+  role: FamilyRole | null;
+  created_at: string;
+}
+
 export async function createFamilyGroup(userId: string, groupName: string): Promise<{ group: FamilyGroup | null; error: unknown }> {
   if (!isSupabaseConfigured) {
     return { group: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
   }
-  const inviteCode = Math.random().toString(36).substring(2, 8).toUpperCase();
   const { data, error } = await supabase
     .from('family_groups')
-    .insert({ owner_user_id: userId, invite_code: inviteCode, group_name: groupName })
+    .insert({ owner_user_id: userId, group_name: groupName })
     .select()
     .single();
   if (!error && data) {
@@ -402,18 +758,11 @@ export async function joinFamilyGroup(userId: string, inviteCode: string): Promi
   if (!isSupabaseConfigured) {
     return { group: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
   }
-  const { data: group, error: findError } = await supabase
-    .from('family_groups')
-    .select('*')
-    .eq('invite_code', inviteCode.toUpperCase())
-    .single();
-  if (findError || !group) {
-    return { group: null, error: findError ?? { message: 'Invite code not found' } };
-  }
-  const { error: joinError } = await supabase
-    .from('family_members')
-    .upsert({ group_id: (group as FamilyGroup).id, user_id: userId, role: 'member' }, { onConflict: 'group_id,user_id' });
-  return { group: group as FamilyGroup | null, error: joinError };
+  // A group is invisible until joined, so the lookup and membership insert
+  // happen server-side for the signed-in user (userId is that same user);
+  // the invite decides the new member's role
+  const { data, error } = await supabase.rpc('join_family_group', { p_invite_code: inviteCode.trim() });
+  return { group: error ? null : (data as FamilyGroup | null), error };
 }
 
 export async function getFamilyGroup(userId: string): Promise<{ group: FamilyGroup | null; members: FamilyMember[] }> {
@@ -434,13 +783,264 @@ export async function getFamilyGroup(userId: string): Promise<{ group: FamilyGro
   const { data: members } = await supabase
     .from('family_members')
     .select('*')
-    .eq('group_id', (memberRow as { group_id: string }).group_id);
+    .eq('group_id', (memberRow as { group_id: string }).group_id)
+    .order('joined_at', { ascending: true });
   return { group: group as FamilyGroup | null, members: (members as FamilyMember[]) ?? [] };
 }
 
-export async function leaveFamilyGroup(userId: string, groupId: string): Promise<void> {
-  if (!isSupabaseConfigured) return;
-  await supabase.from('family_members').delete().eq('user_id', userId).eq('group_id', groupId);
+/** The user's own membership row, or null when they are not in a family group. */
+export async function getFamilyMembership(userId: string): Promise<{ membership: FamilyMember | null; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { membership: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('family_members')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return { membership: data as FamilyMember | null, error };
+}
+
+/**
+ * The user followed by everyone who shares a family group with them – the
+ * accounts whose children, stories and voices they can read (RLS in
+ * 009_family_sharing.sql). Just the user when they have no group or the
+ * lookup fails.
+ */
+export async function getFamilyUserIds(userId: string): Promise<string[]> {
+  if (!isSupabaseConfigured) return [userId];
+  // RLS only returns members of the user's own group
+  const { data, error } = await supabase.from('family_members').select('user_id');
+  if (error || !data) return [userId];
+  const others = (data as Pick<FamilyMember, 'user_id'>[])
+    .map((m) => m.user_id)
+    .filter((id) => id !== userId)
+    .sort();
+  return [userId, ...new Set(others)];
+}
+
+/**
+ * Leave the family group. The owner can't leave (RLS keeps their row) –
+ * they transfer ownership first or delete the group.
+ */
+export async function leaveFamilyGroup(userId: string, groupId: string): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { data, error } = await supabase
+    .from('family_members')
+    .delete()
+    .eq('user_id', userId)
+    .eq('group_id', groupId)
+    .select('id');
+  if (!error && (data ?? []).length === 0) {
+    return { error: new Error('The family owner can only leave after transferring ownership') };
+  }
+  return { error };
+}
+
+/** Owner only: remove another member from the group. */
+export async function removeFamilyMember(groupId: string, memberUserId: string): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { data, error } = await supabase
+    .from('family_members')
+    .delete()
+    .eq('group_id', groupId)
+    .eq('user_id', memberUserId)
+    .select('id');
+  if (!error && (data ?? []).length === 0) {
+    return { error: new Error('Only the family owner can remove members') };
+  }
+  return { error };
+}
+
+/** Owner only: change a member's role (ownership moves by transferFamilyOwnership). */
+export async function setFamilyMemberRole(
+  memberUserId: string,
+  role: Exclude<FamilyRole, 'owner'>
+): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { error } = await supabase.rpc('set_family_member_role', { p_user_id: memberUserId, p_role: role });
+  return { error };
+}
+
+/** Owner only: hand the group to another member; the owner stays on as a co-parent. */
+export async function transferFamilyOwnership(newOwnerUserId: string): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { error } = await supabase.rpc('transfer_family_ownership', { p_new_owner: newOwnerUserId });
+  return { error };
+}
+
+/** Owner only: delete the group with its memberships, invites and audit trail. */
+export async function deleteFamilyGroup(groupId: string): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { error } = await supabase.from('family_groups').delete().eq('id', groupId);
+  return { error };
+}
+
+/**
+ * Owner only: a new invite code for the given role. Single-use codes stop
+ * working once someone joins with them; every code expires after validHours
+ * (a week by default, at most 30 days).
+ */
+export async function createFamilyInvite(
+  role: Exclude<FamilyRole, 'owner'>,
+  options: { singleUse?: boolean; validHours?: number } = {}
+): Promise<{ invite: FamilyInvite | null; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { invite: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('create_family_invite', {
+    p_role:        role,
+    p_single_use:  options.singleUse ?? true,
+    p_valid_hours: options.validHours ?? 24 * 7,
+  });
+  return { invite: error ? null : (data as FamilyInvite | null), error };
+}
+
+/** Invites that can still be used, newest first (owner only – RLS hides them from members). */
+export async function getFamilyInvites(groupId: string): Promise<{ invites: FamilyInvite[]; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { invites: [], error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('family_invites')
+    .select('*')
+    .eq('group_id', groupId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+  const invites = ((data as FamilyInvite[] | null) ?? [])
+    .filter((i) => !(i.single_use && i.use_count > 0));
+  return { invites, error };
+}
+
+export async function revokeFamilyInvite(inviteId: string): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { error } = await supabase.rpc('revoke_family_invite', { p_invite_id: inviteId });
+  return { error };
+}
+
+/** The group's audit trail (joins, leaves, role changes, invites), newest first. */
+export async function getFamilyActivity(
+  groupId: string,
+  limit = 20
+): Promise<{ entries: FamilyAuditEntry[]; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { entries: [], error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('family_audit_log')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('id', { ascending: false })
+    .limit(limit);
+  return { entries: (data as FamilyAuditEntry[] | null) ?? [], error };
+}
+
+// ──────────────────────────────────────────────────────────
+// Voice recording invitations  (table: voice_recording_invites)
+// ──────────────────────────────────────────────────────────
+export interface VoiceRecordingInvite {
+  id: string;
+  group_id: string;
+  child_id: string;
+  code: string;
+  voice_name: string;
+  expires_at: string;
+  revoked_at: string | null;
+  used_by: string | null;
+  used_at: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+/** What the recorder learns on accepting – they can't read the child or group. */
+export interface AcceptedVoiceInvite {
+  voice_id: string;
+  child_name: string;
+  group_name: string;
+  voice_name: string;
+}
+
+/** Owner only: invite someone to record a voice for a child in the family group. */
+export async function createVoiceRecordingInvite(
+  childId: string,
+  voiceName: string,
+  validHours = 24 * 7
+): Promise<{ invite: VoiceRecordingInvite | null; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { invite: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('create_voice_recording_invite', {
+    p_child_id:    childId,
+    p_voice_name:  voiceName,
+    p_valid_hours: validHours,
+  });
+  return { invite: error ? null : (data as VoiceRecordingInvite | null), error };
+}
+
+/** Invitations nobody has accepted yet that can still be used, newest first. */
+export async function getVoiceRecordingInvites(groupId: string): Promise<{ invites: VoiceRecordingInvite[]; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { invites: [], error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase
+    .from('voice_recording_invites')
+    .select('*')
+    .eq('group_id', groupId)
+    .is('revoked_at', null)
+    .is('used_by', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+  return { invites: (data as VoiceRecordingInvite[] | null) ?? [], error };
+}
+
+export async function revokeVoiceRecordingInvite(inviteId: string): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { error } = await supabase.rpc('revoke_voice_recording_invite', { p_invite_id: inviteId });
+  return { error };
+}
+
+/**
+ * Start recording for an invitation: creates the (pending) voice the
+ * recorder's Voice Studio takes go into. Accepting the same invitation again
+ * resumes that voice.
+ */
+export async function acceptVoiceRecordingInvite(
+  code: string,
+  voiceType: ParentVoice['voice_type'] = 'custom'
+): Promise<{ accepted: AcceptedVoiceInvite | null; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { accepted: null, error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  const { data, error } = await supabase.rpc('accept_voice_recording_invite', {
+    p_code:       code.trim(),
+    p_voice_type: voiceType,
+  });
+  const [accepted] = (data as AcceptedVoiceInvite[] | null) ?? [];
+  return { accepted: error ? null : accepted ?? null, error };
+}
+
+/** Owner only: invited voices waiting for their review, oldest first. */
+export async function getPendingInvitedVoices(userId: string): Promise<{ voices: ParentVoice[]; error: unknown }> {
+  if (!isSupabaseConfigured) {
+    return { voices: [], error: SUPABASE_NOT_CONFIGURED_ERROR };
+  }
+  // Voices the user is recording for another family are theirs to read too
+  const { data, error } = await supabase
+    .from('voice_profiles')
+    .select('*')
+    .not('invite_id', 'is', null)
+    .neq('user_id', userId)
+    .eq('approval_status', 'pending')
+    .order('updated_at', { ascending: true });
+  return { voices: (data as ParentVoice[] | null) ?? [], error };
+}
+
+/** Owner only: approve a finished invited voice for the family, or reject it. */
+export async function reviewInvitedVoice(voiceId: string, approve: boolean): Promise<{ error: unknown }> {
+  if (!isSupabaseConfigured) return { error: SUPABASE_NOT_CONFIGURED_ERROR };
+  const { error } = await supabase.rpc('review_invited_voice', { p_voice_id: voiceId, p_approve: approve });
+  return { error };
 }
 
 // ──────────────────────────────────────────────────────────
@@ -496,11 +1096,28 @@ export async function deleteAllUserData(userId: string) {
     console.warn('[Supabase] deleteAllUserData skipped – Supabase not configured.');
     return { error: SUPABASE_NOT_CONFIGURED_ERROR };
   }
+  // Remove recorded voice audio before the rows that reference it
+  const { data: voiceRows } = await supabase
+    .from('voice_profiles')
+    .select('recording_labels')
+    .eq('user_id', userId);
+  const recordingPaths = ((voiceRows ?? []) as Pick<ParentVoice, 'recording_labels'>[])
+    .flatMap((v) => Object.values(v.recording_labels ?? {}))
+    .filter((p): p is string => typeof p === 'string' && p.startsWith(`${userId}/`));
+  await deleteVoiceRecordings(recordingPaths);
+
   // Delete in order to respect any foreign key constraints
   await supabase.from('user_preferences').delete().eq('user_id', userId);
   await supabase.from('stories').delete().eq('user_id', userId);
+  await supabase.from('story_sagas').delete().eq('user_id', userId);
+  await supabase.from('story_characters').delete().eq('user_id', userId);
   await supabase.from('voice_profiles').delete().eq('user_id', userId);
   await supabase.from('child_profiles').delete().eq('user_id', userId);
+  // An owned group takes its memberships with it; the owner's own row can't
+  // be deleted on its own
+  await supabase.from('family_groups').delete().eq('owner_user_id', userId);
+  await supabase.from('family_members').delete().eq('user_id', userId);
+  await supabase.from('profiles').delete().eq('id', userId);
   await supabase.from('users').delete().eq('id', userId);
   return { error: null };
 }
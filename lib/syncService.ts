@@ -5,19 +5,47 @@
  * When offline or Supabase unavailable, serves from the local AsyncStorage cache.
  *
  * Tables synced:
- *   child_profiles, voice_profiles, stories, user_preferences
+ *   child_profiles, voice_profiles, stories, user_preferences, story_sagas,
+ *   story_characters
+ *
+ * Local writes travel the other way through lib/mutationQueue: every sync
+ * pushes the outbound queue first, and rows pulled afterwards keep any
+ * queued edits that have not reached the server yet.
+ *
+ * Stories are pulled a page at a time into lib/storyStore – only the rows
+ * changed since the last pull, with a full walk once a day so stories
+ * deleted elsewhere drop out.
+ *
+ * Children, voices and stories are pulled for the whole family group (see
+ * getFamilyUserIds), so members share one library; rows owned by another
+ * member are read-only here. The user's own membership is cached by
+ * lib/familyRoles – their role decides what they may add for the family.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   getChildren,
+  getFamilyMembership,
+  getFamilyUserIds,
   getParentVoices,
-  getStories,
+  getStoriesPage,
   getUserPreferences,
+  getStorySagas,
+  getStoryCharacters,
   upsertUserPreferences,
   isSupabaseAvailable,
 } from './supabase';
-import type { Child, ParentVoice, Story, UserPreferences } from './supabase';
+import type { Child, ParentVoice, StoryPageCursor, UserPreferences } from './supabase';
+import { translate } from './i18n';
+import type { LanguageCode } from './newell';
+import { resumePendingVoiceUploads } from './voiceUploadService';
+import { reconcileActiveChild } from './activeChild';
+import { flushMutations, getPendingMutations, overlayPendingMutations } from './mutationQueue';
+import { syncStardust } from './stardust';
+import { cacheFamilyMembership, clearFamilyMembership } from './familyRoles';
+import { cacheSagasFromCloud } from './sagas';
+import { cacheCharactersFromCloud } from './characters';
+import { clearStoryStore, getSyncedStoryIds, putStories, removeStories } from './storyStore';
 
 // ─── AsyncStorage Keys ────────────────────────────────────────────────────────
 const KEYS = {
@@ -25,10 +53,15 @@ const KEYS = {
   SYNC_STATUS:     'sync_status',        // 'success' | 'error' | 'never'
   LOCAL_CHILDREN:  'sync_child_profiles',
   LOCAL_VOICES:    'sync_voice_profiles',
-  LOCAL_STORIES:   'local_stories',
+  STORY_PULL:      'sync_story_pull',    // StoryPullState
   LOCAL_PREFS:     'sync_user_preferences',
+  LOCAL_SAGAS:     'story_sagas',        // written by lib/sagas
+  LOCAL_CAST:      'story_characters',   // written by lib/characters
 } as const;
 
+const STORY_PULL_PAGE_SIZE      = 100;
+const FULL_STORY_PULL_INTERVAL  = 24 * 60 * 60 * 1000;
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 export type SyncStatus = 'success' | 'error' | 'never' | 'syncing';
 
@@ -36,10 +69,20 @@ export interface SyncState {
   status: SyncStatus;
   lastSyncAt: string | null;    // ISO string
   lastSyncLabel: string;        // Human-readable: "Just now", "5 min ago", etc.
+  pendingChanges: number;       // Local writes still waiting in the mutation queue
+}
+
+interface StoryPullState {
+  userId:       string;
+  /** getFamilyUserIds at the last pull – a change in the family means a full pull */
+  familyUserIds?: string[];
+  /** Newest updated_at pulled so far – the next pull starts after it */
+  updatedSince: string | null;
+  fullPullAt:   string;
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
-function formatRelativeTime(isoString: string): string {
+function formatRelativeTime(isoString: string, language: LanguageCode): string {
   const now = Date.now();
   const then = new Date(isoString).getTime();
   const diffMs = now - then;
@@ -48,19 +91,20 @@ function formatRelativeTime(isoString: string): string {
   const diffHour = Math.floor(diffMin / 60);
   const diffDay = Math.floor(diffHour / 24);
 
-  if (diffSec < 10)  return 'Just now';
-  if (diffSec < 60)  return `${diffSec}s ago`;
-  if (diffMin < 60)  return `${diffMin}m ago`;
-  if (diffHour < 24) return `${diffHour}h ago`;
-  return `${diffDay}d ago`;
+  if (diffSec < 10)  return translate(language, 'settings.justNow');
+  if (diffSec < 60)  return translate(language, 'settings.secondsAgo', { count: diffSec });
+  if (diffMin < 60)  return translate(language, 'settings.minutesAgo', { count: diffMin });
+  if (diffHour < 24) return translate(language, 'settings.hoursAgo', { count: diffHour });
+  return translate(language, 'settings.daysAgo', { count: diffDay });
 }
 
 // ─── Read sync state from AsyncStorage ────────────────────────────────────────
-export async function getSyncState(): Promise<SyncState> {
+export async function getSyncState(language: LanguageCode): Promise<SyncState> {
   try {
-    const [lastSyncAt, status] = await Promise.all([
+    const [lastSyncAt, status, pending] = await Promise.all([
       AsyncStorage.getItem(KEYS.LAST_SYNC_AT),
       AsyncStorage.getItem(KEYS.SYNC_STATUS),
+      getPendingMutations(),
     ]);
 
     const resolvedStatus: SyncStatus = (status as SyncStatus | null) ?? 'never';
@@ -69,11 +113,12 @@ export async function getSyncState(): Promise<SyncState> {
       status:       resolvedStatus,
       lastSyncAt,
       lastSyncLabel: lastSyncAt
-        ? formatRelativeTime(lastSyncAt)
-        : 'Never synced',
+        ? formatRelativeTime(lastSyncAt, language)
+        : translate(language, 'settings.neverSynced'),
+      pendingChanges: pending.length,
     };
   } catch {
-    return { status: 'never', lastSyncAt: null, lastSyncLabel: 'Never synced' };
+    return { status: 'never', lastSyncAt: null, lastSyncLabel: translate(language, 'settings.neverSynced'), pendingChanges: 0 };
   }
 }
 
@@ -91,9 +136,61 @@ async function markSyncFailed(): Promise<void> {
   await AsyncStorage.setItem(KEYS.SYNC_STATUS, 'error');
 }
 
+// ─── Stories ──────────────────────────────────────────────────────────────────
+/**
+ * Pull stories into the story store a page at a time. After a full pull only
+ * rows changed since the last one are fetched; the full walk is repeated once
+ * a day (or for another account or family) and removes synced stories no
+ * longer in the cloud.
+ *
+ * @returns false if any page failed (the next pull starts over from the same point)
+ */
+async function pullStories(userId: string): Promise<boolean> {
+  const raw = await AsyncStorage.getItem(KEYS.STORY_PULL);
+  const previous = raw ? (JSON.parse(raw) as StoryPullState) : null;
+  const startedAt = new Date().toISOString();
+  const familyUserIds = await getFamilyUserIds(userId);
+  const isFull = !previous
+    || previous.userId !== userId
+    // A new member's older stories are not "changed since" the last pull
+    || (previous.familyUserIds ?? [userId]).join() !== familyUserIds.join()
+    || Date.now() - Date.parse(previous.fullPullAt) > FULL_STORY_PULL_INTERVAL;
+  const updatedSince = isFull ? null : previous.updatedSince;
+
+  let newest = updatedSince;
+  const seen = new Set<string>();
+  let before: StoryPageCursor | null = null;
+  do {
+    const page = await getStoriesPage(familyUserIds, { before, updatedSince, limit: STORY_PULL_PAGE_SIZE });
+    if (page.error || !page.stories) return false;
+    await putStories(await overlayPendingMutations('stories', page.stories));
+    for (const story of page.stories) {
+      seen.add(story.id);
+      if (!newest || story.updated_at > newest) newest = story.updated_at;
+    }
+    before = page.nextCursor;
+  } while (before);
+
+  if (isFull) {
+    // Stories saved while this pull ran may be missing from it – keep them
+    const synced = await getSyncedStoryIds(startedAt);
+    await removeStories(synced.filter((id) => !seen.has(id)));
+  }
+
+  const state: StoryPullState = {
+    userId,
+    familyUserIds,
+    updatedSince: newest,
+    fullPullAt:   isFull ? startedAt : previous.fullPullAt,
+  };
+  await AsyncStorage.setItem(KEYS.STORY_PULL, JSON.stringify(state));
+  return true;
+}
+
 // ─── Main sync function ───────────────────────────────────────────────────────
 /**
- * Pull fresh data from Supabase and refresh the local AsyncStorage caches.
+ * Push queued local writes, then pull fresh data from Supabase and refresh
+ * the local AsyncStorage caches.
  * If Supabase is unavailable, returns cached data silently.
  *
  * @returns true if cloud sync succeeded, false if it used local cache
@@ -106,48 +203,42 @@ export async function syncFromCloud(userId: string): Promise<boolean> {
   let allOk = true;
 
   try {
+    // ── 0. Outbound queue ────────────────────────────────────────────────────
+    const pushed = await flushMutations();
+    if (pushed.failed > 0) allOk = false;
+
     // ── 1. Child profiles ────────────────────────────────────────────────────
-    const { children, error: childErr } = await getChildren(userId);
+    const { children: pulledChildren, error: childErr } = await getChildren(userId);
+    const children = pulledChildren && await overlayPendingMutations('child_profiles', pulledChildren);
     if (!childErr && children) {
       await AsyncStorage.setItem(KEYS.LOCAL_CHILDREN, JSON.stringify(children));
-      // Also keep the legacy pending_child_profile key in sync with first child
-      if (children.length > 0) {
-        await AsyncStorage.setItem('pending_child_profile', JSON.stringify(children[0]));
-        await AsyncStorage.setItem('active_child_id', children[0].id);
-      }
     } else if (childErr) {
       allOk = false;
     }
 
     // ── 2. Voice profiles ────────────────────────────────────────────────────
-    const { voices, error: voiceErr } = await getParentVoices(userId);
+    const { voices: pulledVoices, error: voiceErr } = await getParentVoices(userId);
+    const voices = pulledVoices && await overlayPendingMutations('voice_profiles', pulledVoices);
     if (!voiceErr && voices) {
       await AsyncStorage.setItem(KEYS.LOCAL_VOICES, JSON.stringify(voices));
     } else if (voiceErr) {
       allOk = false;
     }
+    // Finish any Voice Studio recordings still waiting to reach Storage
+    void resumePendingVoiceUploads(userId);
 
     // ── 3. Stories ───────────────────────────────────────────────────────────
-    const { stories, error: storyErr } = await getStories(userId);
-    if (!storyErr && stories) {
-      // Store up to 50 most recent stories
-      const toCache = stories.slice(0, 50);
-      await AsyncStorage.setItem(KEYS.LOCAL_STORIES, JSON.stringify(toCache));
-    } else if (storyErr) {
-      allOk = false;
-    }
+    if (!(await pullStories(userId))) allOk = false;
 
     // ── 4. User preferences ──────────────────────────────────────────────────
-    const { preferences, error: prefsErr } = await getUserPreferences(userId);
+    const { preferences: pulledPrefs, error: prefsErr } = await getUserPreferences(userId);
+    const [preferences] = pulledPrefs ? await overlayPendingMutations('user_preferences', [pulledPrefs]) : [null];
     if (!prefsErr && preferences) {
       await AsyncStorage.setItem(KEYS.LOCAL_PREFS, JSON.stringify(preferences));
       // Keep individual preference keys in sync
       if (preferences.active_voice_id) {
         await AsyncStorage.setItem('active_voice_id', preferences.active_voice_id);
       }
-      if (preferences.active_child_id) {
-        await AsyncStorage.setItem('active_child_id', preferences.active_child_id);
-      }
       if (preferences.narrator_type) {
         await AsyncStorage.setItem('selected_voice_type', preferences.narrator_type);
       }
@@ -155,6 +246,40 @@ export async function syncFromCloud(userId: string): Promise<boolean> {
       allOk = false;
     }
 
+    // Keep the parent's active child if it still exists (never just children[0])
+    if (children && children.length > 0) {
+      await reconcileActiveChild(children, preferences?.active_child_id);
+    }
+
+    // ── 5. Story sagas ───────────────────────────────────────────────────────
+    const { sagas: pulledSagas, error: sagaErr } = await getStorySagas(userId);
+    if (!sagaErr && pulledSagas) {
+      await cacheSagasFromCloud(pulledSagas);
+    } else if (sagaErr) {
+      allOk = false;
+    }
+
+    // ── 6. Story characters (each child's recurring cast) ────────────────────
+    const { characters: pulledCast, error: castErr } = await getStoryCharacters(userId);
+    if (!castErr && pulledCast) {
+      await cacheCharactersFromCloud(pulledCast);
+    } else if (castErr) {
+      allOk = false;
+    }
+
+    // ── 7. Stardust ledger (per child – the ledger is private to its owner) ──
+    for (const child of (children ?? []).filter((c) => c.user_id === userId)) {
+      await syncStardust(child.id);
+    }
+
+    // ── 8. Family membership (role) ──────────────────────────────────────────
+    const { membership, error: memberErr } = await getFamilyMembership(userId);
+    if (!memberErr) {
+      await cacheFamilyMembership(membership);
+    } else {
+      allOk = false;
+    }
+
     if (allOk) {
       await markSynced();
       // Update last_sync_at in cloud preferences too
@@ -202,24 +327,6 @@ export async function getCachedVoices(): Promise<ParentVoice[]> {
   }
 }
 
-// ─── Get cached stories ───────────────────────────────────────────────────────
-export async function getCachedStories(): Promise<Story[]> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.LOCAL_STORIES);
-    if (raw) {
-      const parsed = JSON.parse(raw) as Story[];
-      return parsed.map((s) => ({
-        ...s,
-        is_favorite: s.is_favorite ?? false,
-        updated_at: s.updated_at ?? s.created_at,
-      }));
-    }
-    return [];
-  } catch {
-    return [];
-  }
-}
-
 // ─── Get cached user preferences ─────────────────────────────────────────────
 export async function getCachedPreferences(): Promise<UserPreferences | null> {
   try {
@@ -236,41 +343,46 @@ export async function getCachedPreferences(): Promise<UserPreferences | null> {
  * Loads all app data using the hybrid approach:
  *  1. Return cached data immediately (for fast first render)
  *  2. In the background, sync from cloud if authenticated
+ *
+ * Stories are not returned – they are pulled into lib/storyStore, which
+ * screens read a page at a time.
  */
 export interface HybridData {
   children:    Child[];
   voices:      ParentVoice[];
-  stories:     Story[];
   preferences: UserPreferences | null;
   fromCache:   boolean;
 }
 
 export async function loadHybridData(userId: string | null): Promise<HybridData> {
   // First load from local cache for immediate display
-  const [children, voices, stories, preferences] = await Promise.all([
+  const [children, voices, preferences] = await Promise.all([
     getCachedChildren(),
     getCachedVoices(),
-    getCachedStories(),
     getCachedPreferences(),
   ]);
 
   if (!userId || !isSupabaseAvailable) {
-    return { children, voices, stories, preferences, fromCache: true };
+    return { children, voices, preferences, fromCache: true };
   }
 
-  // Try to get fresh data from cloud
+  // Try to get fresh data from cloud (after pushing queued local writes)
   try {
-    const [cloudChildren, cloudVoices, cloudStories, cloudPrefs] = await Promise.all([
+    await flushMutations();
+    const [cloudChildren, cloudVoices, storiesOk, cloudPrefs] = await Promise.all([
       getChildren(userId),
       getParentVoices(userId),
-      getStories(userId),
+      pullStories(userId),
       getUserPreferences(userId),
     ]);
+    if (!storiesOk) console.warn('[SyncService] Story pull incomplete, showing stored stories');
 
-    const freshChildren  = cloudChildren.children   ?? children;
-    const freshVoices    = cloudVoices.voices        ?? voices;
-    const freshStories   = cloudStories.stories      ?? stories;
-    const freshPrefs     = cloudPrefs.preferences    ?? preferences;
+    const freshChildren  = cloudChildren.children
+      ? await overlayPendingMutations('child_profiles', cloudChildren.children) : children;
+    const freshVoices    = cloudVoices.voices
+      ? await overlayPendingMutations('voice_profiles', cloudVoices.voices) : voices;
+    const freshPrefs     = cloudPrefs.preferences
+      ? (await overlayPendingMutations('user_preferences', [cloudPrefs.preferences]))[0] : preferences;
 
     // Update caches with fresh data
     const now = new Date().toISOString();
@@ -279,31 +391,25 @@ export async function loadHybridData(userId: string | null): Promise<HybridData>
       [KEYS.SYNC_STATUS,  'success'],
       [KEYS.LOCAL_CHILDREN, JSON.stringify(freshChildren)],
       [KEYS.LOCAL_VOICES,   JSON.stringify(freshVoices)],
-      [KEYS.LOCAL_STORIES,  JSON.stringify(freshStories.slice(0, 50))],
     ];
 
     if (freshPrefs) {
       cacheOps.push([KEYS.LOCAL_PREFS, JSON.stringify(freshPrefs)]);
     }
 
-    if (freshChildren.length > 0) {
-      cacheOps.push(['pending_child_profile', JSON.stringify(freshChildren[0])]);
-      cacheOps.push(['active_child_id', freshChildren[0].id]);
-    }
-
     await AsyncStorage.multiSet(cacheOps);
+    await reconcileActiveChild(freshChildren, freshPrefs?.active_child_id);
 
     return {
       children:    freshChildren,
       voices:      freshVoices,
-      stories:     freshStories,
       preferences: freshPrefs,
       fromCache:   false,
     };
   } catch (err) {
     console.warn('[SyncService] Cloud fetch failed, using cache:', err);
     await markSyncFailed();
-    return { children, voices, stories, preferences, fromCache: true };
+    return { children, voices, preferences, fromCache: true };
   }
 }
 
@@ -314,7 +420,11 @@ export async function clearSyncCache(): Promise<void> {
     KEYS.SYNC_STATUS,
     KEYS.LOCAL_CHILDREN,
     KEYS.LOCAL_VOICES,
-    KEYS.LOCAL_STORIES,
+    KEYS.STORY_PULL,
     KEYS.LOCAL_PREFS,
+    KEYS.LOCAL_SAGAS,
+    KEYS.LOCAL_CAST,
   ]);
+  await clearFamilyMembership();
+  await clearStoryStore();
 }
@@ -0,0 +1,65 @@
+/**
+ * Voice Recording Invitations
+ *
+ * Lets someone far away – a grandparent, say – record the Voice Studio script
+ * on their own device for one child in the family group
+ * (011_voice_recording_invites.sql):
+ *
+ *   1. The family owner creates an invitation for a child and shares its
+ *      code or link.
+ *   2. The recorder opens it in the Family Hub; accepting creates a pending
+ *      voice owned by them and Voice Studio records into it.
+ *   3. The owner listens and approves it – only then does it show up in the
+ *      family's voice switcher, and only for that child.
+ *
+ * Nothing is cached here: invitations and pending voices are read from the
+ * cloud, and approved voices arrive with the regular voice sync.
+ */
+
+import * as Linking from 'expo-linking';
+import { translate } from './i18n';
+import type { LanguageCode } from './newell';
+import type { ParentVoice, VoiceRecordingInvite } from './supabase';
+
+// ─── Links ────────────────────────────────────────────────────────────────────
+
+/** Opens the Family Hub with the invitation code filled in. */
+export function voiceInviteLink(code: string): string {
+  return Linking.createURL('/family-sharing', { queryParams: { voiceInvite: code } });
+}
+
+export function voiceInviteMessage(
+  invite: Pick<VoiceRecordingInvite, 'code' | 'voice_name'>,
+  childName: string,
+  language: LanguageCode
+): string {
+  return translate(language, 'family.voiceInviteMessage', {
+    child: childName,
+    voice: invite.voice_name,
+    link:  voiceInviteLink(invite.code),
+    code:  invite.code,
+  });
+}
+
+// ─── Voices ───────────────────────────────────────────────────────────────────
+
+/**
+ * Whether a voice belongs in the narrator switcher for the active child:
+ * approved, and for an invited voice, recorded for that child by someone
+ * else (the recorder's own copy isn't their narrator).
+ */
+export function isVoiceSelectable(
+  voice: ParentVoice,
+  userId: string | null | undefined,
+  activeChildId: string | null | undefined
+): boolean {
+  if ((voice.approval_status ?? 'approved') !== 'approved') return false;
+  if (!voice.invite_id) return true;
+  return voice.user_id !== userId && voice.child_id === activeChildId;
+}
+
+/** Storage path of the first recorded paragraph, for the owner to listen to. */
+export function previewRecordingPath(voice: ParentVoice): string | null {
+  const path = voice.recording_labels?.paragraph_1;
+  return typeof path === 'string' ? path : null;
+}
@@ -0,0 +1,425 @@
+/**
+ * Voice Recording Upload Service
+ *
+ * Moves Voice Studio recordings off the device and into the private
+ * `voice-recordings` Supabase Storage bucket so a parent's voice survives
+ * reinstalls and follows them to a new phone.
+ *
+ * Every paragraph is an upload job in a persistent queue:
+ *   1. The recording is copied out of the volatile cache directory into
+ *      documentDirectory/voice_recordings/ so a retry can still find it.
+ *   2. Jobs upload one at a time with per-paragraph progress events.
+ *   3. Failed jobs retry with exponential backoff, and any job still pending
+ *      is resumed on the next resumePendingVoiceUploads() (app start / sync).
+ *   4. Once uploaded, voice_profiles.recording_labels[paragraph_<n>] is set to
+ *      the object path and the local copy is deleted.
+ *
+ * Voice Studio's quality scores (recording_labels.quality) are kept on the
+ * device too until they are written, so they survive being offline. Label
+ * writes read the current labels first and are skipped when that read
+ * fails – a partial map must never replace the stored one.
+ *
+ * Storage keys:
+ *   voice_upload_queue      → VoiceUploadJob[]
+ *   voice_recording_quality → voice id → paragraph_<n> → RecordingQuality,
+ *                             until written to voice_profiles
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { RecordingQuality } from './recordingQuality';
+import {
+  VOICE_RECORDINGS_BUCKET,
+  getParentVoice,
+  getStorageAuthHeaders,
+  getStorageObjectEndpoint,
+  isSupabaseAvailable,
+  updateParentVoice,
+} from './supabase';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type VoiceUploadStatus = 'pending' | 'uploading' | 'uploaded' | 'failed';
+
+export interface VoiceUploadJob {
+  userId:     string;
+  voiceId:    string;
+  /** 1-based paragraph number from buildVoiceScript */
+  paragraph:  number;
+  /** Durable local copy of the recording */
+  localUri:   string;
+  objectPath: string;
+  status:     VoiceUploadStatus;
+  attempts:   number;
+  lastError?: string;
+  updatedAt:  string;
+}
+
+export interface VoiceUploadProgress {
+  voiceId:   string;
+  paragraph: number;
+  status:    VoiceUploadStatus;
+  /** 0–1 */
+  fraction:  number;
+}
+
+export type VoiceUploadListener = (progress: VoiceUploadProgress) => void;
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const QUEUE_KEY           = 'voice_upload_queue';
+const QUALITY_KEY         = 'voice_recording_quality';
+const LOCAL_DIR           = `${FileSystem.documentDirectory ?? ''}voice_recordings/`;
+const ATTEMPTS_PER_RUN    = 3;
+const MAX_TOTAL_ATTEMPTS  = 12; // give up on a paragraph after this many failures
+const BASE_BACKOFF_MS     = 1000;
+
+// ─── Path helpers ─────────────────────────────────────────────────────────────
+
+/** Object path inside the voice-recordings bucket for one paragraph. */
+export function recordingObjectPath(userId: string, voiceId: string, paragraph: number): string {
+  return `${userId}/${voiceId}/paragraph_${paragraph}.m4a`;
+}
+
+/** Folder stored in voice_profiles.recording_url. */
+export function recordingFolderPath(userId: string, voiceId: string): string {
+  return `${userId}/${voiceId}`;
+}
+
+/** True for device URIs (file://, content://, absolute paths) that must not be stored in the cloud. */
+export function isLocalRecordingUri(value: unknown): value is string {
+  return typeof value === 'string' &&
+    (value.startsWith('file://') || value.startsWith('content://') || value.startsWith('/'));
+}
+
+/** Extract `paragraph_<n>` → local URI entries that still need uploading. */
+export function localRecordingEntries(labels: Record<string, unknown> | null | undefined): { paragraph: number; uri: string }[] {
+  if (!labels) return [];
+  return Object.entries(labels)
+    .map(([key, value]) => {
+      const match = key.match(/^paragraph_(\d+)$/);
+      return match && isLocalRecordingUri(value) ? { paragraph: Number(match[1]), uri: value } : null;
+    })
+    .filter((e): e is { paragraph: number; uri: string } => e !== null);
+}
+
+// ─── Queue persistence ────────────────────────────────────────────────────────
+
+async function readQueue(): Promise<VoiceUploadJob[]> {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    return raw ? (JSON.parse(raw) as VoiceUploadJob[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeQueue(queue: VoiceUploadJob[]): Promise<void> {
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+}
+
+async function patchJob(objectPath: string, patch: Partial<VoiceUploadJob>): Promise<void> {
+  const queue = await readQueue();
+  await writeQueue(queue.map((j) =>
+    j.objectPath === objectPath ? { ...j, ...patch, updatedAt: new Date().toISOString() } : j
+  ));
+}
+
+type PendingQualities = Record<string, Record<string, RecordingQuality>>;
+
+async function readQualities(): Promise<PendingQualities> {
+  try {
+    const raw = await AsyncStorage.getItem(QUALITY_KEY);
+    return raw ? (JSON.parse(raw) as PendingQualities) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Drop a voice's kept scores once written – unless newer ones arrived meanwhile. */
+async function clearQualities(voiceId: string, written: Record<string, RecordingQuality>): Promise<void> {
+  const pending = await readQualities();
+  const current = pending[voiceId];
+  if (!current) return;
+  const rest = Object.fromEntries(
+    Object.entries(current).filter(([key, q]) => JSON.stringify(written[key]) !== JSON.stringify(q)),
+  );
+  const next = { ...pending };
+  if (Object.keys(rest).length > 0) next[voiceId] = rest; else delete next[voiceId];
+  await AsyncStorage.setItem(QUALITY_KEY, JSON.stringify(next));
+}
+
+// ─── Progress listeners ───────────────────────────────────────────────────────
+
+const listeners = new Set<VoiceUploadListener>();
+
+/** Subscribe to per-paragraph upload progress. Returns an unsubscribe function. */
+export function onVoiceUploadProgress(listener: VoiceUploadListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function emit(job: VoiceUploadJob, status: VoiceUploadStatus, fraction: number) {
+  listeners.forEach((l) => l({ voiceId: job.voiceId, paragraph: job.paragraph, status, fraction }));
+}
+
+// ─── Enqueue ──────────────────────────────────────────────────────────────────
+
+/**
+ * Keep Voice Studio quality scores (paragraph_<n> → score) for a voice on
+ * the device until commitVoiceLabels writes them to recording_labels.quality.
+ */
+export async function saveRecordingQualities(
+  voiceId: string,
+  qualities: Record<string, RecordingQuality>,
+): Promise<void> {
+  const pending = await readQualities();
+  await AsyncStorage.setItem(QUALITY_KEY, JSON.stringify({
+    ...pending,
+    [voiceId]: { ...pending[voiceId], ...qualities },
+  }));
+}
+
+/**
+ * Queue one paragraph recording for upload.
+ * Re-recording a paragraph replaces its pending job.
+ */
+export async function enqueueVoiceRecording(params: {
+  userId:    string;
+  voiceId:   string;
+  paragraph: number;
+  uri:       string;
+}): Promise<VoiceUploadJob> {
+  const { userId, voiceId, paragraph, uri } = params;
+  const objectPath = recordingObjectPath(userId, voiceId, paragraph);
+
+  // Copy out of the cache directory so the OS can't purge it before upload
+  let localUri = uri;
+  try {
+    await FileSystem.makeDirectoryAsync(LOCAL_DIR, { intermediates: true });
+    localUri = `${LOCAL_DIR}${voiceId}_paragraph_${paragraph}_${Date.now()}.m4a`;
+    await FileSystem.copyAsync({ from: uri, to: localUri });
+  } catch (err) {
+    console.warn('[VoiceUpload] Could not copy recording, uploading from original URI:', err);
+    localUri = uri;
+  }
+
+  const job: VoiceUploadJob = {
+    userId,
+    voiceId,
+    paragraph,
+    localUri,
+    objectPath,
+    status:    'pending',
+    attempts:  0,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const queue = await readQueue();
+  const replaced = queue.find((j) => j.objectPath === objectPath);
+  if (replaced && replaced.localUri !== localUri && replaced.status !== 'uploading') {
+    void FileSystem.deleteAsync(replaced.localUri, { idempotent: true }).catch(() => {});
+  }
+  await writeQueue([...queue.filter((j) => j.objectPath !== objectPath), job]);
+  emit(job, 'pending', 0);
+  return job;
+}
+
+/** Jobs for a voice (or all voices) that have not finished uploading. */
+export async function getPendingVoiceUploads(voiceId?: string): Promise<VoiceUploadJob[]> {
+  const queue = await readQueue();
+  return queue.filter((j) => j.status !== 'uploaded' && (!voiceId || j.voiceId === voiceId));
+}
+
+// ─── Upload ───────────────────────────────────────────────────────────────────
+
+async function uploadOnce(job: VoiceUploadJob): Promise<void> {
+  const headers = await getStorageAuthHeaders();
+  if (!headers) throw new Error('Not signed in');
+
+  const info = await FileSystem.getInfoAsync(job.localUri);
+  if (!info.exists) throw new Error('RECORDING_MISSING');
+
+  const task = FileSystem.createUploadTask(
+    getStorageObjectEndpoint(VOICE_RECORDINGS_BUCKET, job.objectPath),
+    job.localUri,
+    {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: {
+        ...headers,
+        'Content-Type': 'audio/m4a',
+        'x-upsert':     'true',
+      },
+    },
+    (data) => {
+      if (data.totalBytesExpectedToSend > 0) {
+        emit(job, 'uploading', data.totalBytesSent / data.totalBytesExpectedToSend);
+      }
+    },
+  );
+  const result = await task.uploadAsync();
+  if (!result || result.status < 200 || result.status >= 300) {
+    throw new Error(`Upload failed with status ${result?.status ?? 'unknown'}: ${result?.body ?? ''}`);
+  }
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Writes the uploaded object paths and kept quality scores for a voice into
+ * voice_profiles. The other labels are read first and kept, so nothing is
+ * written when that read fails.
+ */
+async function commitUploadedLabels(voiceId: string, uploaded: VoiceUploadJob[]): Promise<boolean> {
+  const qualities = (await readQualities())[voiceId];
+  if (uploaded.length === 0 && !qualities) return true;
+  const { voice, error: readError } = await getParentVoice(voiceId);
+  if (readError || !voice) return false;
+  const labels: Record<string, unknown> = { ...(voice.recording_labels ?? {}) };
+  uploaded.forEach((j) => { labels[`paragraph_${j.paragraph}`] = j.objectPath; });
+  if (qualities) {
+    labels.quality = { ...((labels.quality as Record<string, RecordingQuality> | undefined) ?? {}), ...qualities };
+  }
+
+  const { error } = await updateParentVoice(voiceId, {
+    recording_labels: labels,
+    ...(uploaded.length > 0 ? { recording_url: recordingFolderPath(uploaded[0].userId, voiceId) } : {}),
+  });
+  if (error) return false;
+  if (qualities) await clearQualities(voiceId, qualities);
+  return true;
+}
+
+/**
+ * Write a voice's kept quality scores to recording_labels.quality.
+ * False when they couldn't be written yet; they stay on the device and are
+ * retried by resumePendingVoiceUploads.
+ */
+export async function commitVoiceLabels(voiceId: string): Promise<boolean> {
+  if (!isSupabaseAvailable) return false;
+  return commitUploadedLabels(voiceId, []);
+}
+
+/** Commit uploaded jobs per voice, then drop them and their local copies. */
+async function commitUploadedJobs(jobs: VoiceUploadJob[]): Promise<void> {
+  const byVoice = new Map<string, VoiceUploadJob[]>();
+  jobs.forEach((j) => byVoice.set(j.voiceId, [...(byVoice.get(j.voiceId) ?? []), j]));
+
+  for (const [vid, uploaded] of byVoice) {
+    const committed = await commitUploadedLabels(vid, uploaded);
+    if (!committed) continue; // keep as 'uploaded' so a later pass re-commits
+    const paths = new Set(uploaded.map((j) => j.objectPath));
+    const queue = await readQueue();
+    await writeQueue(queue.filter((j) => !paths.has(j.objectPath)));
+    await Promise.all(uploaded.map((j) =>
+      FileSystem.deleteAsync(j.localUri, { idempotent: true }).catch(() => {})
+    ));
+  }
+}
+
+let activeRun: Promise<{ uploaded: number; failed: number }> | null = null;
+let rerunRequested = false;
+
+/**
+ * Upload every queued paragraph (optionally only for one voice).
+ * Callers arriving mid-run share it, and the queue is swept once more
+ * afterwards so paragraphs enqueued during the run are not left behind.
+ */
+export function processVoiceUploads(voiceId?: string): Promise<{ uploaded: number; failed: number }> {
+  if (activeRun) {
+    rerunRequested = true;
+    return activeRun;
+  }
+  activeRun = (async () => {
+    const total = { uploaded: 0, failed: 0 };
+    let scope = voiceId;
+    do {
+      rerunRequested = false;
+      const result = await runQueue(scope);
+      total.uploaded += result.uploaded;
+      total.failed   += result.failed;
+      scope = undefined;
+    } while (rerunRequested);
+    return total;
+  })().finally(() => { activeRun = null; });
+  return activeRun;
+}
+
+async function runQueue(voiceId?: string): Promise<{ uploaded: number; failed: number }> {
+  if (!isSupabaseAvailable) return { uploaded: 0, failed: 0 };
+
+  const jobs = await getPendingVoiceUploads(voiceId);
+  const justUploaded: VoiceUploadJob[] = [];
+  let failed = 0;
+
+  for (const job of jobs) {
+    let attempts = job.attempts;
+    let done = false;
+
+    for (let i = 0; i < ATTEMPTS_PER_RUN && !done && attempts < MAX_TOTAL_ATTEMPTS; i++) {
+      attempts++;
+      await patchJob(job.objectPath, { status: 'uploading', attempts });
+      emit(job, 'uploading', 0);
+      try {
+        await uploadOnce(job);
+        done = true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        await patchJob(job.objectPath, { status: 'failed', lastError: message });
+        if (message === 'RECORDING_MISSING' || message === 'Not signed in') break;
+        await wait(BASE_BACKOFF_MS * 2 ** i);
+      }
+    }
+
+    if (done) {
+      await patchJob(job.objectPath, { status: 'uploaded', lastError: undefined });
+      emit(job, 'uploaded', 1);
+      justUploaded.push(job);
+    } else {
+      failed++;
+      emit(job, 'failed', 0);
+    }
+  }
+
+  await commitUploadedJobs(justUploaded);
+
+  // Jobs that exhausted their attempts (or lost their file) are dropped;
+  // uploaded ones stay until their labels are committed
+  const queue = await readQueue();
+  await writeQueue(queue.filter((j) =>
+    j.status === 'uploaded' || (j.attempts < MAX_TOTAL_ATTEMPTS && j.lastError !== 'RECORDING_MISSING')
+  ));
+
+  return { uploaded: justUploaded.length, failed };
+}
+
+/**
+ * Resume any uploads left over from a previous session, including labels
+ * that were uploaded but never committed to voice_profiles.
+ */
+export async function resumePendingVoiceUploads(userId: string): Promise<void> {
+  if (!isSupabaseAvailable || !userId) return;
+  try {
+    // Already in storage – only their labels are missing
+    const uncommitted = (await readQueue()).filter((j) => j.userId === userId && j.status === 'uploaded');
+    await commitUploadedJobs(uncommitted);
+    for (const voiceId of Object.keys(await readQualities())) {
+      await commitVoiceLabels(voiceId);
+    }
+    if ((await getPendingVoiceUploads()).some((j) => j.userId === userId)) {
+      await processVoiceUploads();
+    }
+  } catch (err) {
+    console.warn('[VoiceUpload] resumePendingVoiceUploads error:', err);
+  }
+}
+
+/** Remove queued uploads and local copies (call on sign-out). */
+export async function clearVoiceUploadQueue(): Promise<void> {
+  const queue = await readQueue();
+  await Promise.all(queue.map((j) => FileSystem.deleteAsync(j.localUri, { idempotent: true }).catch(() => {})));
+  await AsyncStorage.multiRemove([QUEUE_KEY, QUALITY_KEY]);
+}
@@ -0,0 +1,52 @@
+-- =============================================================================
+-- StoryVoice: Voice Studio recordings storage
+-- Apply this in the Supabase SQL Editor after 001_phase2_cloud_schema.sql.
+--
+-- Recordings are stored as private objects at:
+--   voice-recordings/<user_id>/<voice_id>/paragraph_<n>.m4a
+-- voice_profiles.recording_labels maps paragraph_<n> → object path and
+-- voice_profiles.recording_url holds the <user_id>/<voice_id> folder.
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Bucket
+-- ─────────────────────────────────────────────────────────────────────────────
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'voice-recordings',
+  'voice-recordings',
+  FALSE,
+  20971520, -- 20 MB per paragraph
+  ARRAY['audio/m4a', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/mpeg', 'audio/wav']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. RLS — users can only touch objects inside their own <user_id>/ folder
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE POLICY "voice_recordings_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'voice-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "voice_recordings_insert" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'voice-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "voice_recordings_update" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'voice-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  ) WITH CHECK (
+    bucket_id = 'voice-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "voice_recordings_delete" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'voice-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
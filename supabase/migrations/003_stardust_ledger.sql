@@ -0,0 +1,220 @@
+-- =============================================================================
+-- StoryVoice: Stardust ledger
+-- Apply this in the Supabase SQL Editor after 002_voice_recordings_storage.sql.
+--
+-- Stardust is an append-only ledger per child. Clients can read their rows
+-- but never write them directly: every earn, purchase and one-time merge of
+-- a pre-cloud local balance goes through a SECURITY DEFINER function that
+-- validates it, so the balance can't be edited from the device.
+--
+--   balance = SUM(stardust_ledger.amount) for (user_id, child_id)
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Shop catalogue (prices live on the server)
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS stardust_shop_items (
+  id         TEXT        PRIMARY KEY,
+  cost       INTEGER     NOT NULL CHECK (cost > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE stardust_shop_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stardust_shop_items_select" ON stardust_shop_items
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Keep in sync with SHOP_ITEMS in lib/stardust.ts
+INSERT INTO stardust_shop_items (id, cost) VALUES
+  ('particle_moonbeam', 50),
+  ('particle_sunset',   50),
+  ('particle_emerald',  75),
+  ('particle_rainbow',  100),
+  ('particle_dragon',   120),
+  ('badge_star',        75),
+  ('badge_moon',        75),
+  ('badge_dragon',      150),
+  ('badge_rainbow',     150),
+  ('badge_fairy',       100)
+ON CONFLICT (id) DO UPDATE SET cost = EXCLUDED.cost;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. stardust_ledger (append-only)
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS stardust_ledger (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_id      UUID        NOT NULL REFERENCES child_profiles(id) ON DELETE CASCADE,
+  amount        INTEGER     NOT NULL CHECK (amount <> 0),
+  kind          TEXT        NOT NULL CHECK (kind IN ('earn', 'spend', 'merge')),
+  reason        TEXT        NOT NULL DEFAULT '',
+  emoji         TEXT        NOT NULL DEFAULT '⭐',
+  item_id       TEXT        REFERENCES stardust_shop_items(id),
+  -- Client-generated id so retried requests are recorded once
+  client_txn_id TEXT        NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, client_txn_id)
+);
+
+ALTER TABLE stardust_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; writes happen in the functions below
+CREATE POLICY "stardust_ledger_select" ON stardust_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS stardust_ledger_child_created_at_idx
+  ON stardust_ledger (user_id, child_id, created_at DESC);
+
+-- Only one merge of a local balance per child
+CREATE UNIQUE INDEX IF NOT EXISTS stardust_ledger_one_merge_idx
+  ON stardust_ledger (user_id, child_id) WHERE kind = 'merge';
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. stardust_unlocks
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS stardust_unlocks (
+  user_id     UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_id    UUID        NOT NULL REFERENCES child_profiles(id) ON DELETE CASCADE,
+  item_id     TEXT        NOT NULL REFERENCES stardust_shop_items(id),
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, child_id, item_id)
+);
+
+ALTER TABLE stardust_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stardust_unlocks_select" ON stardust_unlocks
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. Balance + guarded writes
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION stardust_balance(p_child_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(amount), 0)::INTEGER
+  FROM stardust_ledger
+  WHERE user_id = auth.uid() AND child_id = p_child_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Raises unless the child belongs to the caller, then serialises writes per child
+CREATE OR REPLACE FUNCTION stardust_lock_child(p_child_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '28000';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM child_profiles WHERE id = p_child_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Unknown child' USING ERRCODE = '42501';
+  END IF;
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text || p_child_id::text));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Earn: small, capped amounts only (10 per story, 15 per adventure today)
+CREATE OR REPLACE FUNCTION earn_stardust(
+  p_child_id      UUID,
+  p_amount        INTEGER,
+  p_reason        TEXT,
+  p_emoji         TEXT,
+  p_client_txn_id TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  earned_today INTEGER;
+BEGIN
+  PERFORM stardust_lock_child(p_child_id);
+
+  IF p_amount < 1 OR p_amount > 25 THEN
+    RAISE EXCEPTION 'Invalid stardust amount' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO earned_today
+  FROM stardust_ledger
+  WHERE user_id = auth.uid() AND child_id = p_child_id
+    AND kind = 'earn' AND created_at > NOW() - INTERVAL '1 day';
+
+  IF earned_today + p_amount > 200 THEN
+    RAISE EXCEPTION 'Daily stardust limit reached' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO stardust_ledger (user_id, child_id, amount, kind, reason, emoji, client_txn_id)
+  VALUES (auth.uid(), p_child_id, p_amount, 'earn', LEFT(p_reason, 120), LEFT(COALESCE(p_emoji, '⭐'), 8), p_client_txn_id)
+  ON CONFLICT (user_id, client_txn_id) DO NOTHING;
+
+  RETURN stardust_balance(p_child_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Purchase: price from the catalogue, balance checked under the child lock
+CREATE OR REPLACE FUNCTION purchase_stardust_item(
+  p_child_id      UUID,
+  p_item_id       TEXT,
+  p_client_txn_id TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  item_cost INTEGER;
+BEGIN
+  PERFORM stardust_lock_child(p_child_id);
+
+  IF EXISTS (SELECT 1 FROM stardust_ledger WHERE user_id = auth.uid() AND client_txn_id = p_client_txn_id)
+     OR EXISTS (SELECT 1 FROM stardust_unlocks WHERE user_id = auth.uid() AND child_id = p_child_id AND item_id = p_item_id) THEN
+    RETURN stardust_balance(p_child_id);
+  END IF;
+
+  SELECT cost INTO item_cost FROM stardust_shop_items WHERE id = p_item_id;
+  IF item_cost IS NULL THEN
+    RAISE EXCEPTION 'Unknown shop item' USING ERRCODE = '22023';
+  END IF;
+  IF stardust_balance(p_child_id) < item_cost THEN
+    RAISE EXCEPTION 'Not enough stardust' USING ERRCODE = 'P0001', HINT = 'INSUFFICIENT_STARDUST';
+  END IF;
+
+  INSERT INTO stardust_ledger (user_id, child_id, amount, kind, reason, emoji, item_id, client_txn_id)
+  VALUES (auth.uid(), p_child_id, -item_cost, 'spend', 'Unlocked ' || p_item_id, '🛍️', p_item_id, p_client_txn_id);
+
+  INSERT INTO stardust_unlocks (user_id, child_id, item_id)
+  VALUES (auth.uid(), p_child_id, p_item_id);
+
+  RETURN stardust_balance(p_child_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Merge: a device's pre-cloud balance and unlocks, accepted once per child
+CREATE OR REPLACE FUNCTION merge_local_stardust(
+  p_child_id       UUID,
+  p_balance        INTEGER,
+  p_unlocked_items TEXT[],
+  p_client_txn_id  TEXT
+)
+RETURNS INTEGER AS $$
+BEGIN
+  PERFORM stardust_lock_child(p_child_id);
+
+  IF EXISTS (SELECT 1 FROM stardust_ledger WHERE user_id = auth.uid() AND child_id = p_child_id AND kind = 'merge') THEN
+    RETURN stardust_balance(p_child_id);
+  END IF;
+
+  -- LEAST caps what a tampered device can bring in
+  IF p_balance > 0 THEN
+    INSERT INTO stardust_ledger (user_id, child_id, amount, kind, reason, emoji, client_txn_id)
+    VALUES (auth.uid(), p_child_id, LEAST(p_balance, 2000), 'merge', 'Stardust from this device', '📲', p_client_txn_id);
+  END IF;
+
+  INSERT INTO stardust_unlocks (user_id, child_id, item_id)
+  SELECT auth.uid(), p_child_id, s.id
+  FROM stardust_shop_items s
+  WHERE s.id = ANY (COALESCE(p_unlocked_items, '{}'))
+  ON CONFLICT DO NOTHING;
+
+  RETURN stardust_balance(p_child_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION stardust_lock_child(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION earn_stardust(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION purchase_stardust_item(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION merge_local_stardust(UUID, INTEGER, TEXT[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION stardust_balance(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION earn_stardust(UUID, INTEGER, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION purchase_stardust_item(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_local_stardust(UUID, INTEGER, TEXT[], TEXT) TO authenticated;
@@ -0,0 +1,61 @@
+-- =============================================================================
+-- StoryVoice: Consumable stardust items (streak freezes)
+-- Apply this in the Supabase SQL Editor after 003_stardust_ledger.sql.
+--
+-- Consumable items can be bought repeatedly and are never written to
+-- stardust_unlocks; the app keeps track of how many a child holds.
+-- =============================================================================
+
+ALTER TABLE stardust_shop_items
+  ADD COLUMN IF NOT EXISTS consumable BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Keep in sync with STREAK_FREEZE_ITEM in lib/stardust.ts
+INSERT INTO stardust_shop_items (id, cost, consumable) VALUES
+  ('streak_freeze', 30, TRUE)
+ON CONFLICT (id) DO UPDATE SET cost = EXCLUDED.cost, consumable = EXCLUDED.consumable;
+
+CREATE OR REPLACE FUNCTION purchase_stardust_item(
+  p_child_id      UUID,
+  p_item_id       TEXT,
+  p_client_txn_id TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  item_cost       INTEGER;
+  item_consumable BOOLEAN;
+BEGIN
+  PERFORM stardust_lock_child(p_child_id);
+
+  SELECT cost, consumable INTO item_cost, item_consumable
+  FROM stardust_shop_items WHERE id = p_item_id;
+  IF item_cost IS NULL THEN
+    RAISE EXCEPTION 'Unknown shop item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Retried request, or a permanent item the child already owns
+  IF EXISTS (SELECT 1 FROM stardust_ledger WHERE user_id = auth.uid() AND client_txn_id = p_client_txn_id)
+     OR (NOT item_consumable AND EXISTS (
+       SELECT 1 FROM stardust_unlocks WHERE user_id = auth.uid() AND child_id = p_child_id AND item_id = p_item_id
+     )) THEN
+    RETURN stardust_balance(p_child_id);
+  END IF;
+
+  IF stardust_balance(p_child_id) < item_cost THEN
+    RAISE EXCEPTION 'Not enough stardust' USING ERRCODE = 'P0001', HINT = 'INSUFFICIENT_STARDUST';
+  END IF;
+
+  INSERT INTO stardust_ledger (user_id, child_id, amount, kind, reason, emoji, item_id, client_txn_id)
+  VALUES (
+    auth.uid(), p_child_id, -item_cost, 'spend',
+    CASE WHEN item_consumable THEN 'Bought ' ELSE 'Unlocked ' END || p_item_id,
+    '🛍️', p_item_id, p_client_txn_id
+  );
+
+  IF NOT item_consumable THEN
+    INSERT INTO stardust_unlocks (user_id, child_id, item_id)
+    VALUES (auth.uid(), p_child_id, p_item_id);
+  END IF;
+
+  RETURN stardust_balance(p_child_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,21 @@
+-- =============================================================================
+-- StoryVoice: Parent-defined content boundaries per child
+-- Apply this in the Supabase SQL Editor after 004_stardust_consumables.sql.
+--
+-- avoid_topics – things stories must never mention ("monsters", "Grandpa")
+-- fears        – things the child is afraid of ("the bath", "thunder")
+-- inclusions   – who/what should appear: [{ "kind": "pet" | "sibling" |
+--                "comfort" | "other", "name": "Biscuit the beagle" }]
+--
+-- Existing child_profiles RLS policies already cover the new columns.
+-- =============================================================================
+
+ALTER TABLE child_profiles
+  ADD COLUMN IF NOT EXISTS avoid_topics TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS fears        TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS inclusions   JSONB  NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE child_profiles
+  DROP CONSTRAINT IF EXISTS child_profiles_inclusions_is_array;
+ALTER TABLE child_profiles
+  ADD CONSTRAINT child_profiles_inclusions_is_array CHECK (jsonb_typeof(inclusions) = 'array');
@@ -0,0 +1,59 @@
+-- =============================================================================
+-- StoryVoice: Story sagas – adventures that continue across nights
+-- Apply this in the Supabase SQL Editor after 005_child_content_boundaries.sql.
+--
+-- A saga keeps the memory each new chapter is written from: the characters
+-- and places met so far and a running summary. Chapters are ordinary rows in
+-- `stories`, linked by saga_id and numbered, each with a "previously on…"
+-- recap of the chapters before it.
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. story_sagas
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS story_sagas (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_id       UUID        REFERENCES child_profiles(id) ON DELETE CASCADE,
+  title          TEXT        NOT NULL,
+  theme          TEXT,
+  -- [{ "name": "Pip", "description": "a shy firefly who glows brighter when happy" }]
+  characters     JSONB       NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ "name": "Whispering Wood", "description": "…" }]
+  places         JSONB       NOT NULL DEFAULT '[]'::jsonb,
+  summary        TEXT        NOT NULL DEFAULT '',
+  chapter_count  INTEGER     NOT NULL DEFAULT 0,
+  status         TEXT        NOT NULL DEFAULT 'ongoing' CHECK (status IN ('ongoing', 'finished')),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS story_sagas_user_child_idx ON story_sagas (user_id, child_id, updated_at DESC);
+
+ALTER TABLE story_sagas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "story_sagas_select" ON story_sagas
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "story_sagas_insert" ON story_sagas
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "story_sagas_update" ON story_sagas
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "story_sagas_delete" ON story_sagas
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE OR REPLACE TRIGGER story_sagas_updated_at
+  BEFORE UPDATE ON story_sagas
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. Chapters – stories that belong to a saga
+-- ─────────────────────────────────────────────────────────────────────────────
+ALTER TABLE stories
+  ADD COLUMN IF NOT EXISTS saga_id        UUID    REFERENCES story_sagas(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS chapter_number INTEGER,
+  ADD COLUMN IF NOT EXISTS recap          TEXT;
+
+CREATE INDEX IF NOT EXISTS stories_saga_idx ON stories (saga_id, chapter_number) WHERE saga_id IS NOT NULL;
@@ -0,0 +1,46 @@
+-- =============================================================================
+-- StoryVoice: Recurring story characters – a per-child "cast"
+-- Apply this in the Supabase SQL Editor after 006_story_sagas.sql.
+--
+-- Each child can have a small cast of companions who come back night after
+-- night. The appearance description is fed to every cover illustration that
+-- features the character so they look the same from story to story.
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. story_characters
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS story_characters (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_id     UUID        NOT NULL REFERENCES child_profiles(id) ON DELETE CASCADE,
+  name         TEXT        NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  species      TEXT        NOT NULL DEFAULT '',
+  personality  TEXT        NOT NULL DEFAULT '',
+  appearance   TEXT        NOT NULL DEFAULT '',
+  emoji        TEXT        NOT NULL DEFAULT '✨',
+  -- 'parent' when written by hand, 'ai' when invented by Newell AI
+  created_by   TEXT        NOT NULL DEFAULT 'parent' CHECK (created_by IN ('parent', 'ai')),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS story_characters_user_child_idx ON story_characters (user_id, child_id);
+
+ALTER TABLE story_characters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "story_characters_select" ON story_characters
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "story_characters_insert" ON story_characters
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "story_characters_update" ON story_characters
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "story_characters_delete" ON story_characters
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE OR REPLACE TRIGGER story_characters_updated_at
+  BEFORE UPDATE ON story_characters
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
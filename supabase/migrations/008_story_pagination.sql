@@ -0,0 +1,14 @@
+-- =============================================================================
+-- StoryVoice: Keyset pagination over stories
+-- Apply this in the Supabase SQL Editor after 007_story_characters.sql.
+--
+-- The app reads stories a page at a time, ordered by (created_at, id), and
+-- syncs incrementally by updated_at – both need an index to stay fast for
+-- families with a long history.
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS stories_user_created_id_idx
+  ON stories (user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS stories_user_updated_at_idx
+  ON stories (user_id, updated_at);
@@ -0,0 +1,192 @@
+-- =============================================================================
+-- StoryVoice: Family Sharing and Cloud Magic profiles
+-- Apply this in the Supabase SQL Editor after 008_story_pagination.sql.
+--
+-- lib/supabase.ts reads and writes profiles, family_groups and
+-- family_members; until now no migration created them, so Family Sharing
+-- fell back to a group kept only on the device.
+--
+-- A family group has one owner and any number of members, and an account
+-- belongs to at most one group. Members can read – never change – each
+-- other's children, stories, voices and voice recordings, and see each
+-- other's profile. Nobody can see a group before joining it, so joining by
+-- invite code goes through join_family_group().
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. profiles (Cloud Magic identity)
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS profiles (
+  id          UUID        PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email       TEXT,
+  child_name  TEXT,
+  child_age   INTEGER     CHECK (child_age IS NULL OR child_age BETWEEN 0 AND 18),
+  avatar_url  TEXT,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE TRIGGER profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. family_groups
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS family_groups (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_user_id  UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Six characters a grandparent can read out over the phone
+  invite_code    TEXT        NOT NULL UNIQUE DEFAULT UPPER(SUBSTR(MD5(gen_random_uuid()::TEXT), 1, 6)),
+  group_name     TEXT        NOT NULL CHECK (char_length(group_name) BETWEEN 1 AND 60),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE family_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE TRIGGER family_groups_updated_at
+  BEFORE UPDATE ON family_groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. family_members
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS family_members (
+  id         UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id   UUID        NOT NULL REFERENCES family_groups(id) ON DELETE CASCADE,
+  user_id    UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role       TEXT        NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (group_id, user_id)
+);
+
+-- One family per account (getFamilyGroup reads a single membership)
+CREATE UNIQUE INDEX IF NOT EXISTS family_members_one_group_idx ON family_members (user_id);
+
+ALTER TABLE family_members ENABLE ROW LEVEL SECURITY;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. Membership checks
+-- SECURITY DEFINER so policies can consult family_members without
+-- recursing into its own RLS.
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION is_family_member(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM family_members WHERE group_id = p_group_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION shares_family_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM family_members mine
+    JOIN family_members theirs ON theirs.group_id = mine.group_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 5. RLS — groups, members, profiles
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE POLICY "family_groups_select" ON family_groups
+  FOR SELECT USING (auth.uid() = owner_user_id OR is_family_member(id));
+
+CREATE POLICY "family_groups_insert" ON family_groups
+  FOR INSERT WITH CHECK (auth.uid() = owner_user_id);
+
+CREATE POLICY "family_groups_update" ON family_groups
+  FOR UPDATE USING (auth.uid() = owner_user_id) WITH CHECK (auth.uid() = owner_user_id);
+
+CREATE POLICY "family_groups_delete" ON family_groups
+  FOR DELETE USING (auth.uid() = owner_user_id);
+
+CREATE POLICY "family_members_select" ON family_members
+  FOR SELECT USING (is_family_member(group_id));
+
+-- Only the owner adds themselves directly; everyone else joins by invite code
+CREATE POLICY "family_members_insert" ON family_members
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND role = 'owner'
+    AND EXISTS (SELECT 1 FROM family_groups g WHERE g.id = group_id AND g.owner_user_id = auth.uid())
+  );
+
+-- Members leave; the owner can remove anyone
+CREATE POLICY "family_members_delete" ON family_members
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM family_groups g WHERE g.id = group_id AND g.owner_user_id = auth.uid())
+  );
+
+CREATE POLICY "profiles_select" ON profiles
+  FOR SELECT USING (auth.uid() = id OR shares_family_with(id));
+
+CREATE POLICY "profiles_insert" ON profiles
+  FOR INSERT WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "profiles_update" ON profiles
+  FOR UPDATE USING (auth.uid() = id) WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "profiles_delete" ON profiles
+  FOR DELETE USING (auth.uid() = id);
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 6. Shared reads — a family sees each other's children, stories and voices
+-- (added to the owner-only policies of 001 and 002; writes stay owner-only)
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE POLICY "child_profiles_family_select" ON child_profiles
+  FOR SELECT USING (shares_family_with(user_id));
+
+CREATE POLICY "stories_family_select" ON stories
+  FOR SELECT USING (shares_family_with(user_id));
+
+CREATE POLICY "voice_profiles_family_select" ON voice_profiles
+  FOR SELECT USING (shares_family_with(user_id));
+
+CREATE POLICY "voice_recordings_family_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'voice-recordings'
+    AND CASE
+      WHEN (storage.foldername(name))[1] ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN shares_family_with(((storage.foldername(name))[1])::UUID)
+      ELSE FALSE
+    END
+  );
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 7. Joining by invite code
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION join_family_group(p_invite_code TEXT)
+RETURNS family_groups AS $$
+DECLARE
+  target family_groups;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO target FROM family_groups WHERE invite_code = UPPER(TRIM(p_invite_code));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite code not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM family_members WHERE user_id = auth.uid() AND group_id <> target.id) THEN
+    RAISE EXCEPTION 'Already in another family group – leave it first' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO family_members (group_id, user_id, role)
+  VALUES (target.id, auth.uid(), 'member')
+  ON CONFLICT (group_id, user_id) DO NOTHING;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_family_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION shares_family_with(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_family_group(TEXT) TO authenticated;
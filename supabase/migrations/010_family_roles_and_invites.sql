@@ -0,0 +1,347 @@
+-- =============================================================================
+-- StoryVoice: Family roles, expiring invites and the family audit trail
+-- Apply this in the Supabase SQL Editor after 009_family_sharing.sql.
+--
+-- Roles (family_members.role):
+--   owner        manages invites and members; reads, creates stories, records
+--   co_parent    reads the family library, creates stories, records a voice
+--   grandparent  reads the family library and records a voice
+--   caregiver    plays the family's stories (read-only)
+-- Members added as 'member' by 009 become co-parents.
+--
+-- The permanent family_groups.invite_code is replaced by family_invites:
+-- codes generated here, single-use or reusable until they expire, and
+-- revocable by the owner. Codes handed out before this migration stop
+-- working – the owner creates a new invite.
+--
+-- family_audit_log records joins, leaves, removals, role changes, ownership
+-- transfers and invites; it is written only by the triggers and functions
+-- below and readable by the group's members.
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Roles
+-- ─────────────────────────────────────────────────────────────────────────────
+ALTER TABLE family_members DROP CONSTRAINT IF EXISTS family_members_role_check;
+
+UPDATE family_members SET role = 'co_parent' WHERE role = 'member';
+
+ALTER TABLE family_members
+  ADD CONSTRAINT family_members_role_check
+  CHECK (role IN ('owner', 'co_parent', 'grandparent', 'caregiver'));
+
+ALTER TABLE family_members ALTER COLUMN role SET DEFAULT 'caregiver';
+
+-- One owner per group (ownership moves through transfer_family_ownership)
+CREATE UNIQUE INDEX IF NOT EXISTS family_members_one_owner_idx
+  ON family_members (group_id) WHERE role = 'owner';
+
+-- Role of p_user_id in the group the caller belongs to (NULL when they
+-- don't share a group). Passing auth.uid() gives the caller's own role.
+CREATE OR REPLACE FUNCTION family_role_of(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT theirs.role
+  FROM family_members mine
+  JOIN family_members theirs ON theirs.group_id = mine.group_id
+  WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stories may be made for one's own children, or for a family member's
+-- children by the owner and co-parents
+CREATE OR REPLACE FUNCTION can_create_stories_for(p_child_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM child_profiles c
+    WHERE c.id = p_child_id
+      AND (
+        c.user_id = auth.uid()
+        OR (shares_family_with(c.user_id) AND family_role_of(auth.uid()) IN ('owner', 'co_parent'))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. Role-aware sharing (replaces policies from 001 and 009)
+-- ─────────────────────────────────────────────────────────────────────────────
+DROP POLICY IF EXISTS "stories_insert" ON stories;
+CREATE POLICY "stories_insert" ON stories
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (child_id IS NULL OR can_create_stories_for(child_id))
+  );
+
+-- Caregivers don't record, so only the other roles' voices are shared
+DROP POLICY IF EXISTS "voice_profiles_family_select" ON voice_profiles;
+CREATE POLICY "voice_profiles_family_select" ON voice_profiles
+  FOR SELECT USING (family_role_of(user_id) IN ('owner', 'co_parent', 'grandparent'));
+
+DROP POLICY IF EXISTS "voice_recordings_family_select" ON storage.objects;
+CREATE POLICY "voice_recordings_family_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'voice-recordings'
+    AND CASE
+      WHEN (storage.foldername(name))[1] ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN family_role_of(((storage.foldername(name))[1])::UUID) IN ('owner', 'co_parent', 'grandparent')
+      ELSE FALSE
+    END
+  );
+
+-- The owner leaves by transferring ownership or deleting the group
+DROP POLICY IF EXISTS "family_members_delete" ON family_members;
+CREATE POLICY "family_members_delete" ON family_members
+  FOR DELETE USING (
+    role <> 'owner'
+    AND (
+      auth.uid() = user_id
+      OR EXISTS (SELECT 1 FROM family_groups g WHERE g.id = group_id AND g.owner_user_id = auth.uid())
+    )
+  );
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. Audit trail
+-- User ids are kept as plain values so entries outlive deleted accounts.
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS family_audit_log (
+  id               BIGINT      GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  group_id         UUID        NOT NULL REFERENCES family_groups(id) ON DELETE CASCADE,
+  actor_user_id    UUID,
+  subject_user_id  UUID,
+  action           TEXT        NOT NULL CHECK (action IN (
+                     'created', 'joined', 'left', 'removed', 'role_changed',
+                     'ownership_transferred', 'invite_created', 'invite_revoked'
+                   )),
+  role             TEXT,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS family_audit_log_group_created_at_idx
+  ON family_audit_log (group_id, created_at DESC);
+
+ALTER TABLE family_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "family_audit_log_select" ON family_audit_log
+  FOR SELECT USING (is_family_member(group_id));
+
+CREATE OR REPLACE FUNCTION log_family_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO family_audit_log (group_id, actor_user_id, subject_user_id, action, role)
+    VALUES (NEW.group_id, auth.uid(), NEW.user_id,
+            CASE WHEN NEW.role = 'owner' THEN 'created' ELSE 'joined' END, NEW.role);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Ownership moves are logged once, by transfer_family_ownership
+    IF NEW.role IS DISTINCT FROM OLD.role AND 'owner' NOT IN (OLD.role, NEW.role) THEN
+      INSERT INTO family_audit_log (group_id, actor_user_id, subject_user_id, action, role)
+      VALUES (NEW.group_id, auth.uid(), NEW.user_id, 'role_changed', NEW.role);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Nothing to log when the whole group is being deleted
+  IF EXISTS (SELECT 1 FROM family_groups WHERE id = OLD.group_id) THEN
+    INSERT INTO family_audit_log (group_id, actor_user_id, subject_user_id, action, role)
+    VALUES (OLD.group_id, auth.uid(), OLD.user_id,
+            CASE WHEN auth.uid() IS NULL OR auth.uid() = OLD.user_id THEN 'left' ELSE 'removed' END,
+            OLD.role);
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER family_members_audit
+  AFTER INSERT OR UPDATE OR DELETE ON family_members
+  FOR EACH ROW EXECUTE FUNCTION log_family_membership();
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. Invites
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS family_invites (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id    UUID        NOT NULL REFERENCES family_groups(id) ON DELETE CASCADE,
+  code        TEXT        NOT NULL UNIQUE,
+  role        TEXT        NOT NULL CHECK (role IN ('co_parent', 'grandparent', 'caregiver')),
+  single_use  BOOLEAN     NOT NULL DEFAULT TRUE,
+  use_count   INTEGER     NOT NULL DEFAULT 0,
+  expires_at  TIMESTAMPTZ NOT NULL,
+  revoked_at  TIMESTAMPTZ,
+  created_by  UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS family_invites_group_idx ON family_invites (group_id, created_at DESC);
+
+ALTER TABLE family_invites ENABLE ROW LEVEL SECURITY;
+
+-- Only the owner sees invites; creating and revoking go through the functions below
+CREATE POLICY "family_invites_select" ON family_invites
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM family_groups g WHERE g.id = group_id AND g.owner_user_id = auth.uid())
+  );
+
+ALTER TABLE family_groups DROP COLUMN IF EXISTS invite_code;
+
+-- Eight characters without look-alikes (no 0/O or 1/I): 32^8 ≈ 10^12 codes
+CREATE OR REPLACE FUNCTION generate_family_invite_code()
+RETURNS TEXT AS $$
+  SELECT string_agg(
+    substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + get_byte(uuid_send(gen_random_uuid()), 0) % 32, 1),
+    ''
+  )
+  FROM generate_series(1, 8);
+$$ LANGUAGE sql VOLATILE;
+
+CREATE OR REPLACE FUNCTION create_family_invite(
+  p_role        TEXT,
+  p_single_use  BOOLEAN DEFAULT TRUE,
+  p_valid_hours INTEGER DEFAULT 168
+)
+RETURNS family_invites AS $$
+DECLARE
+  v_group_id UUID;
+  v_invite   family_invites;
+  v_code     TEXT;
+BEGIN
+  SELECT id INTO v_group_id FROM family_groups WHERE owner_user_id = auth.uid();
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Only the family owner can invite' USING ERRCODE = '42501';
+  END IF;
+  IF p_role NOT IN ('co_parent', 'grandparent', 'caregiver') THEN
+    RAISE EXCEPTION 'Unknown family role: %', p_role USING ERRCODE = '22023';
+  END IF;
+  IF p_valid_hours NOT BETWEEN 1 AND 720 THEN
+    RAISE EXCEPTION 'Invites last between 1 hour and 30 days' USING ERRCODE = '22023';
+  END IF;
+
+  LOOP
+    v_code := generate_family_invite_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM family_invites WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO family_invites (group_id, code, role, single_use, expires_at, created_by)
+  VALUES (v_group_id, v_code, p_role, p_single_use, NOW() + make_interval(hours => p_valid_hours), auth.uid())
+  RETURNING * INTO v_invite;
+
+  INSERT INTO family_audit_log (group_id, actor_user_id, action, role)
+  VALUES (v_group_id, auth.uid(), 'invite_created', p_role);
+
+  RETURN v_invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_family_invite(p_invite_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_invite family_invites;
+BEGIN
+  UPDATE family_invites i SET revoked_at = NOW()
+  FROM family_groups g
+  WHERE i.id = p_invite_id AND g.id = i.group_id AND g.owner_user_id = auth.uid()
+    AND i.revoked_at IS NULL
+  RETURNING i.* INTO v_invite;
+
+  IF v_invite.id IS NOT NULL THEN
+    INSERT INTO family_audit_log (group_id, actor_user_id, action, role)
+    VALUES (v_invite.group_id, auth.uid(), 'invite_revoked', v_invite.role);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replaces the 009 version, which looked up family_groups.invite_code
+CREATE OR REPLACE FUNCTION join_family_group(p_invite_code TEXT)
+RETURNS family_groups AS $$
+DECLARE
+  v_invite family_invites;
+  v_group  family_groups;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite FROM family_invites
+  WHERE code = UPPER(TRIM(p_invite_code))
+  FOR UPDATE;
+  IF NOT FOUND OR v_invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite code not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_group FROM family_groups WHERE id = v_invite.group_id;
+
+  -- Already in this family: nothing to use up
+  IF EXISTS (SELECT 1 FROM family_members WHERE user_id = auth.uid() AND group_id = v_group.id) THEN
+    RETURN v_group;
+  END IF;
+  IF EXISTS (SELECT 1 FROM family_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Already in another family group – leave it first' USING ERRCODE = '23505';
+  END IF;
+  IF v_invite.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Invite code has expired' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_invite.single_use AND v_invite.use_count > 0 THEN
+    RAISE EXCEPTION 'Invite code has already been used' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO family_members (group_id, user_id, role)
+  VALUES (v_group.id, auth.uid(), v_invite.role);
+
+  UPDATE family_invites SET use_count = use_count + 1 WHERE id = v_invite.id;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 5. Managing members (owner only)
+-- Removal is a plain DELETE (see family_members_delete).
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION set_family_member_role(p_user_id UUID, p_role TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_role NOT IN ('co_parent', 'grandparent', 'caregiver') THEN
+    RAISE EXCEPTION 'Unknown family role: %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE family_members m SET role = p_role
+  FROM family_groups g
+  WHERE m.user_id = p_user_id AND m.role <> 'owner'
+    AND g.id = m.group_id AND g.owner_user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of your family group' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The previous owner stays on as a co-parent
+CREATE OR REPLACE FUNCTION transfer_family_ownership(p_new_owner UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_group_id UUID;
+BEGIN
+  SELECT id INTO v_group_id FROM family_groups WHERE owner_user_id = auth.uid();
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Only the family owner can transfer ownership' USING ERRCODE = '42501';
+  END IF;
+  IF p_new_owner = auth.uid()
+     OR NOT EXISTS (SELECT 1 FROM family_members WHERE group_id = v_group_id AND user_id = p_new_owner) THEN
+    RAISE EXCEPTION 'Not a member of your family group' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE family_members SET role = 'co_parent' WHERE group_id = v_group_id AND user_id = auth.uid();
+  UPDATE family_members SET role = 'owner'     WHERE group_id = v_group_id AND user_id = p_new_owner;
+  UPDATE family_groups  SET owner_user_id = p_new_owner WHERE id = v_group_id;
+
+  INSERT INTO family_audit_log (group_id, actor_user_id, subject_user_id, action, role)
+  VALUES (v_group_id, auth.uid(), p_new_owner, 'ownership_transferred', 'owner');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION family_role_of(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_create_stories_for(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_family_invite(TEXT, BOOLEAN, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_family_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_family_group(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_family_member_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_family_ownership(UUID) TO authenticated;
@@ -0,0 +1,314 @@
+-- =============================================================================
+-- StoryVoice: Remote voice recording invitations
+-- Apply this in the Supabase SQL Editor after 010_family_roles_and_invites.sql.
+--
+-- The family owner invites someone – a grandparent far away, say – to record
+-- the Voice Studio script on their own device for one child in the group.
+-- Accepting the invitation creates a voice_profiles row owned by the
+-- recorder, attached to that child and marked 'pending'. The owner listens
+-- to it and approves or rejects it; only approved voices reach the rest of
+-- the family. The recorder doesn't have to be a member of the group.
+--
+-- Re-recording an approved voice – new labels, or new audio in its storage
+-- folder – puts it back to 'pending'.
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. Invitations
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS voice_recording_invites (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id    UUID        NOT NULL REFERENCES family_groups(id) ON DELETE CASCADE,
+  child_id    UUID        NOT NULL REFERENCES child_profiles(id) ON DELETE CASCADE,
+  code        TEXT        NOT NULL UNIQUE,
+  -- Suggested name for the voice, e.g. 'Grandma'
+  voice_name  TEXT        NOT NULL,
+  expires_at  TIMESTAMPTZ NOT NULL,
+  revoked_at  TIMESTAMPTZ,
+  used_by     UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  used_at     TIMESTAMPTZ,
+  created_by  UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS voice_recording_invites_group_idx
+  ON voice_recording_invites (group_id, created_at DESC);
+
+ALTER TABLE voice_recording_invites ENABLE ROW LEVEL SECURITY;
+
+-- The owner sees the group's invitations, the recorder the one they accepted
+CREATE POLICY "voice_recording_invites_select" ON voice_recording_invites
+  FOR SELECT USING (
+    auth.uid() = used_by
+    OR EXISTS (SELECT 1 FROM family_groups g WHERE g.id = group_id AND g.owner_user_id = auth.uid())
+  );
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. Invited voices
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Deleting a child reaches an invited voice twice (child_id, and invite_id
+-- through the invitation), so the invite_id check waits for the end of the
+-- transaction
+ALTER TABLE voice_profiles
+  ADD COLUMN IF NOT EXISTS invite_id       UUID REFERENCES voice_recording_invites(id) ON DELETE SET NULL
+                                           DEFERRABLE INITIALLY DEFERRED,
+  ADD COLUMN IF NOT EXISTS approval_status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (approval_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS reviewed_by     UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at     TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS voice_profiles_invite_idx
+  ON voice_profiles (invite_id) WHERE invite_id IS NOT NULL;
+
+-- Whether the caller may see an invited voice: members of the invitation's
+-- group once it is approved, the group owner while it waits for review.
+-- Takes TEXT so storage policies can pass a folder name.
+CREATE OR REPLACE FUNCTION can_see_invited_voice(p_voice_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM voice_profiles v
+    JOIN voice_recording_invites i ON i.id = v.invite_id
+    JOIN family_members m ON m.group_id = i.group_id AND m.user_id = auth.uid()
+    WHERE v.id::TEXT = p_voice_id
+      AND (v.approval_status = 'approved' OR m.role = 'owner')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "voice_profiles_invited_select" ON voice_profiles
+  FOR SELECT USING (invite_id IS NOT NULL AND can_see_invited_voice(id::TEXT));
+
+-- Recordings live under <user_id>/<voice_id>/
+CREATE POLICY "voice_recordings_invited_select" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'voice-recordings'
+    AND can_see_invited_voice((storage.foldername(name))[2])
+  );
+
+-- A member's pending or rejected voice stays out of the family's lists
+DROP POLICY IF EXISTS "voice_profiles_family_select" ON voice_profiles;
+CREATE POLICY "voice_profiles_family_select" ON voice_profiles
+  FOR SELECT USING (
+    approval_status = 'approved'
+    AND family_role_of(user_id) IN ('owner', 'co_parent', 'grandparent')
+  );
+
+-- Clients can't approve their own voice or move it to another child: the
+-- review columns only change through review_invited_voice(), and invited
+-- voices are only created by accept_voice_recording_invite(). Those run as
+-- the function owner, so the guard applies to API roles only – and not to
+-- the ON DELETE SET NULL of a deleted child or invitation (a nested trigger).
+CREATE OR REPLACE FUNCTION guard_invited_voice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.invite_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Invited voices are created by accepting the invitation' USING ERRCODE = '42501';
+    END IF;
+    NEW.approval_status := 'approved';
+    NEW.reviewed_by     := NULL;
+    NEW.reviewed_at     := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.invite_id   := OLD.invite_id;
+  NEW.reviewed_by := OLD.reviewed_by;
+  NEW.reviewed_at := OLD.reviewed_at;
+  IF OLD.invite_id IS NULL THEN
+    NEW.approval_status := OLD.approval_status;
+  ELSE
+    NEW.child_id := OLD.child_id;
+    NEW.approval_status := CASE
+      WHEN NEW.recording_labels IS DISTINCT FROM OLD.recording_labels THEN 'pending'
+      ELSE OLD.approval_status
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER voice_profiles_guard_invited
+  BEFORE INSERT OR UPDATE ON voice_profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_invited_voice();
+
+-- Approval covers the audio the owner listened to. Recordings are written to
+-- fixed paths with upsert, so any write under an approved invited voice's
+-- folder (<user_id>/<voice_id>/) sends it back for review.
+CREATE OR REPLACE FUNCTION reset_invited_voice_on_upload()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE voice_profiles v SET approval_status = 'pending'
+  WHERE v.id::TEXT = (storage.foldername(NEW.name))[2]
+    AND v.user_id::TEXT = (storage.foldername(NEW.name))[1]
+    AND v.invite_id IS NOT NULL
+    AND v.approval_status = 'approved';
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER voice_recordings_reset_invited
+  AFTER INSERT OR UPDATE ON storage.objects
+  FOR EACH ROW WHEN (NEW.bucket_id = 'voice-recordings')
+  EXECUTE FUNCTION reset_invited_voice_on_upload();
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. Audit trail
+-- ─────────────────────────────────────────────────────────────────────────────
+ALTER TABLE family_audit_log DROP CONSTRAINT IF EXISTS family_audit_log_action_check;
+ALTER TABLE family_audit_log
+  ADD CONSTRAINT family_audit_log_action_check
+  CHECK (action IN (
+    'created', 'joined', 'left', 'removed', 'role_changed',
+    'ownership_transferred', 'invite_created', 'invite_revoked',
+    'voice_invite_created', 'voice_approved', 'voice_rejected'
+  ));
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 4. Functions
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION create_voice_recording_invite(
+  p_child_id    UUID,
+  p_voice_name  TEXT,
+  p_valid_hours INTEGER DEFAULT 168
+)
+RETURNS voice_recording_invites AS $$
+DECLARE
+  v_group_id UUID;
+  v_invite   voice_recording_invites;
+  v_code     TEXT;
+BEGIN
+  SELECT id INTO v_group_id FROM family_groups WHERE owner_user_id = auth.uid();
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Only the family owner can invite' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM child_profiles c
+    JOIN family_members m ON m.user_id = c.user_id AND m.group_id = v_group_id
+    WHERE c.id = p_child_id
+  ) THEN
+    RAISE EXCEPTION 'Not a child in your family group' USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(btrim(p_voice_name), '') = '' THEN
+    RAISE EXCEPTION 'Give the voice a name' USING ERRCODE = '22023';
+  END IF;
+  IF p_valid_hours NOT BETWEEN 1 AND 720 THEN
+    RAISE EXCEPTION 'Invites last between 1 hour and 30 days' USING ERRCODE = '22023';
+  END IF;
+
+  LOOP
+    v_code := generate_family_invite_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM voice_recording_invites WHERE code = v_code)
+          AND NOT EXISTS (SELECT 1 FROM family_invites WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO voice_recording_invites (group_id, child_id, code, voice_name, expires_at, created_by)
+  VALUES (v_group_id, p_child_id, v_code, btrim(p_voice_name),
+          NOW() + make_interval(hours => p_valid_hours), auth.uid())
+  RETURNING * INTO v_invite;
+
+  INSERT INTO family_audit_log (group_id, actor_user_id, action)
+  VALUES (v_group_id, auth.uid(), 'voice_invite_created');
+
+  RETURN v_invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_voice_recording_invite(p_invite_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE voice_recording_invites i SET revoked_at = NOW()
+  FROM family_groups g
+  WHERE i.id = p_invite_id AND g.id = i.group_id AND g.owner_user_id = auth.uid()
+    AND i.revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Starts (or, for the same recorder, resumes) the invited voice and tells the
+-- recorder who it is for – they can't read the child or the group themselves
+CREATE OR REPLACE FUNCTION accept_voice_recording_invite(
+  p_code       TEXT,
+  p_voice_type TEXT DEFAULT 'custom'
+)
+RETURNS TABLE (voice_id UUID, child_name TEXT, group_name TEXT, voice_name TEXT) AS $$
+DECLARE
+  v_invite voice_recording_invites;
+  v_voice  UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite FROM voice_recording_invites
+  WHERE code = upper(btrim(p_code)) AND revoked_at IS NULL
+  FOR UPDATE;
+  IF v_invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invite.used_by = auth.uid() THEN
+    SELECT v.id INTO v_voice FROM voice_profiles v
+    WHERE v.invite_id = v_invite.id AND v.user_id = auth.uid();
+  ELSIF v_invite.used_by IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been used' USING ERRCODE = 'P0001';
+  ELSIF v_invite.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Invitation has expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_voice IS NULL THEN
+    INSERT INTO voice_profiles (user_id, child_id, voice_type, voice_name, invite_id, approval_status)
+    VALUES (auth.uid(), v_invite.child_id,
+            CASE WHEN p_voice_type IN ('mom', 'dad', 'custom') THEN p_voice_type ELSE 'custom' END,
+            v_invite.voice_name, v_invite.id, 'pending')
+    RETURNING id INTO v_voice;
+
+    UPDATE voice_recording_invites SET used_by = auth.uid(), used_at = NOW()
+    WHERE id = v_invite.id;
+  END IF;
+
+  RETURN QUERY
+    SELECT v_voice, c.name, g.group_name, v_invite.voice_name
+    FROM child_profiles c, family_groups g
+    WHERE c.id = v_invite.child_id AND g.id = v_invite.group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_invited_voice(p_voice_id UUID, p_approve BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_group_id    UUID;
+  v_recorder    UUID;
+  v_is_complete BOOLEAN;
+BEGIN
+  SELECT i.group_id, v.user_id, v.is_complete INTO v_group_id, v_recorder, v_is_complete
+  FROM voice_profiles v
+  JOIN voice_recording_invites i ON i.id = v.invite_id
+  JOIN family_groups g ON g.id = i.group_id AND g.owner_user_id = auth.uid()
+  WHERE v.id = p_voice_id;
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Not an invited voice in your family group' USING ERRCODE = 'P0002';
+  END IF;
+  IF p_approve AND NOT v_is_complete THEN
+    RAISE EXCEPTION 'The recording is not finished yet' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE voice_profiles
+  SET approval_status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by     = auth.uid(),
+      reviewed_at     = NOW()
+  WHERE id = p_voice_id;
+
+  INSERT INTO family_audit_log (group_id, actor_user_id, subject_user_id, action)
+  VALUES (v_group_id, auth.uid(), v_recorder,
+          CASE WHEN p_approve THEN 'voice_approved' ELSE 'voice_rejected' END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_see_invited_voice(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_voice_recording_invite(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_voice_recording_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_voice_recording_invite(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_invited_voice(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,16 @@
+-- =============================================================================
+-- StoryVoice: Narrator, interactive flag and language on stories
+-- Apply this in the Supabase SQL Editor after 011_voice_recording_invites.sql.
+--
+-- Library search filters by narrator, interactive adventures and the language
+-- a story was written in. These used to live only in the device cache, so
+-- stories synced to another device lost them; they are now stored with the
+-- row. Stories written before this migration are English and not interactive.
+--
+-- Existing stories RLS policies already cover the new columns.
+-- =============================================================================
+
+ALTER TABLE stories
+  ADD COLUMN IF NOT EXISTS narrator_id    TEXT,
+  ADD COLUMN IF NOT EXISTS is_interactive BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS language       TEXT    NOT NULL DEFAULT 'en';
@@ -0,0 +1,174 @@
+-- =============================================================================
+-- 010_family_roles_and_invites.sql — roles, invite lifecycle, audit trail
+--
+-- Olive owns the family; Cole joins as a co-parent, Gwen as a grandparent
+-- and Kit as a caregiver. Pat never gets in.
+-- =============================================================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-0000000000a1', 'olive@example.com'),
+  ('00000000-0000-4000-8000-0000000000a2', 'cole@example.com'),
+  ('00000000-0000-4000-8000-0000000000a3', 'gwen@example.com'),
+  ('00000000-0000-4000-8000-0000000000a4', 'kit@example.com'),
+  ('00000000-0000-4000-8000-0000000000a5', 'pat@example.com');
+
+INSERT INTO child_profiles (id, user_id, name) VALUES
+  ('00000000-0000-4000-8000-0000000000c1', '00000000-0000-4000-8000-0000000000a1', 'Ivy');
+INSERT INTO voice_profiles (user_id, voice_type, voice_name) VALUES
+  ('00000000-0000-4000-8000-0000000000a1', 'mom', 'Olive'),
+  ('00000000-0000-4000-8000-0000000000a3', 'custom', 'Gwen'),
+  ('00000000-0000-4000-8000-0000000000a4', 'custom', 'Kit');
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('voice-recordings', '00000000-0000-4000-8000-0000000000a3/v/paragraph_1.m4a'),
+  ('voice-recordings', '00000000-0000-4000-8000-0000000000a4/v/paragraph_1.m4a');
+
+-- ─── Olive creates the family and its invites ─────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a1');
+
+INSERT INTO family_groups (owner_user_id, group_name) VALUES
+  ('00000000-0000-4000-8000-0000000000a1', 'Park Family');
+INSERT INTO family_members (group_id, user_id, role)
+  SELECT id, owner_user_id, 'owner' FROM family_groups;
+
+SELECT set_config('tests.co_parent',   (SELECT code FROM create_family_invite('co_parent')), TRUE);
+SELECT set_config('tests.grandparent', (SELECT code FROM create_family_invite('grandparent', TRUE, 24)), TRUE);
+SELECT set_config('tests.caregiver',   (SELECT code FROM create_family_invite('caregiver', FALSE)), TRUE);
+SELECT set_config('tests.expired',     (SELECT code FROM create_family_invite('caregiver')), TRUE);
+SELECT set_config('tests.revoked',     (SELECT code FROM create_family_invite('caregiver')), TRUE);
+
+SELECT tests.expect_count('owner sees the invites', 'SELECT 1 FROM family_invites', 5);
+SELECT tests.expect_count('codes are unique', 'SELECT DISTINCT code FROM family_invites', 5);
+SELECT tests.expect_count('invites expire',
+  $q$SELECT 1 FROM family_invites WHERE expires_at BETWEEN NOW() + INTERVAL '23 hours' AND NOW() + INTERVAL '25 hours'$q$, 1);
+SELECT tests.expect_error('no invites for a second owner',
+  $q$SELECT create_family_invite('owner')$q$, 'Unknown family role%');
+SELECT tests.expect_error('invites last at most 30 days',
+  $q$SELECT create_family_invite('caregiver', TRUE, 24 * 31)$q$, 'Invites last between%');
+
+SELECT revoke_family_invite((SELECT id FROM family_invites WHERE code = current_setting('tests.revoked')));
+
+SELECT tests.sign_out();
+UPDATE family_invites SET expires_at = NOW() - INTERVAL '1 minute'
+  WHERE code = current_setting('tests.expired');
+
+-- ─── Joining ──────────────────────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a2');
+SELECT tests.expect_count('invites hidden from non-owners', 'SELECT 1 FROM family_invites', 0);
+SELECT join_family_group(current_setting('tests.co_parent'));
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a3');
+SELECT join_family_group(current_setting('tests.grandparent'));
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a4');
+SELECT join_family_group(current_setting('tests.caregiver'));
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a5');
+SELECT tests.expect_error('single-use invite is used up',
+  $q$SELECT join_family_group(current_setting('tests.co_parent'))$q$, 'Invite code has already been used');
+SELECT tests.expect_error('expired invite',
+  $q$SELECT join_family_group(current_setting('tests.expired'))$q$, 'Invite code has expired');
+SELECT tests.expect_error('revoked invite',
+  $q$SELECT join_family_group(current_setting('tests.revoked'))$q$, 'Invite code not found');
+SELECT tests.expect_error('only the owner invites',
+  $q$SELECT create_family_invite('caregiver')$q$, 'Only the family owner can invite');
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a1');
+SELECT tests.expect_count('each member has the invite''s role',
+  $q$SELECT 1 FROM family_members WHERE (user_id, role) IN (
+       ('00000000-0000-4000-8000-0000000000a2'::UUID, 'co_parent'),
+       ('00000000-0000-4000-8000-0000000000a3'::UUID, 'grandparent'),
+       ('00000000-0000-4000-8000-0000000000a4'::UUID, 'caregiver'))$q$, 3);
+SELECT tests.expect_count('single-use invite counted once',
+  $q$SELECT 1 FROM family_invites WHERE code = current_setting('tests.co_parent') AND use_count = 1$q$, 1);
+
+-- ─── What each role may do ────────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a2');
+SELECT tests.expect_affected('co-parent creates stories for the family''s child',
+  $q$INSERT INTO stories (user_id, child_id, title)
+     VALUES ('00000000-0000-4000-8000-0000000000a2', '00000000-0000-4000-8000-0000000000c1', 'Cloud Ferry')$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a3');
+SELECT tests.expect_error('grandparent cannot create stories for the family''s child',
+  $q$INSERT INTO stories (user_id, child_id, title)
+     VALUES ('00000000-0000-4000-8000-0000000000a3', '00000000-0000-4000-8000-0000000000c1', 'Nope')$q$,
+  '%row-level security%');
+SELECT tests.expect_count('grandparent reads the family library', 'SELECT 1 FROM stories', 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a4');
+SELECT tests.expect_error('caregiver cannot create stories for the family''s child',
+  $q$INSERT INTO stories (user_id, child_id, title)
+     VALUES ('00000000-0000-4000-8000-0000000000a4', '00000000-0000-4000-8000-0000000000c1', 'Nope')$q$,
+  '%row-level security%');
+SELECT tests.expect_count('caregiver plays with the family''s recorded voices',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name IN ('Olive', 'Gwen')$q$, 2);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a1');
+SELECT tests.expect_count('grandparent''s voice is shared, caregiver''s is not',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name IN ('Gwen', 'Kit')$q$, 1);
+SELECT tests.expect_count('likewise for their recordings',
+  $q$SELECT 1 FROM storage.objects WHERE bucket_id = 'voice-recordings'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a5');
+SELECT tests.expect_error('outsiders cannot create stories for the child',
+  $q$INSERT INTO stories (user_id, child_id, title)
+     VALUES ('00000000-0000-4000-8000-0000000000a5', '00000000-0000-4000-8000-0000000000c1', 'Nope')$q$,
+  '%row-level security%');
+
+-- ─── Managing members ─────────────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a2');
+SELECT tests.expect_error('only the owner changes roles',
+  $q$SELECT set_family_member_role('00000000-0000-4000-8000-0000000000a4', 'co_parent')$q$,
+  'Not a member of your family group');
+SELECT tests.expect_affected('members cannot remove each other',
+  $q$DELETE FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a4'$q$, 0);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a1');
+SELECT set_family_member_role('00000000-0000-4000-8000-0000000000a4', 'grandparent');
+SELECT tests.expect_count('role changed',
+  $q$SELECT 1 FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a4' AND role = 'grandparent'$q$, 1);
+SELECT tests.expect_error('ownership only moves by transfer',
+  $q$SELECT set_family_member_role('00000000-0000-4000-8000-0000000000a4', 'owner')$q$, 'Unknown family role%');
+SELECT tests.expect_affected('the owner cannot just leave',
+  $q$DELETE FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a1'$q$, 0);
+SELECT tests.expect_affected('owner removes a member',
+  $q$DELETE FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a4'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a3');
+SELECT tests.expect_affected('grandparent leaves',
+  $q$DELETE FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a3'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a1');
+SELECT tests.expect_error('transfer only to a member',
+  $q$SELECT transfer_family_ownership('00000000-0000-4000-8000-0000000000a5')$q$, 'Not a member of your family group');
+SELECT transfer_family_ownership('00000000-0000-4000-8000-0000000000a2');
+SELECT tests.expect_count('ownership moved',
+  $q$SELECT 1 FROM family_groups WHERE owner_user_id = '00000000-0000-4000-8000-0000000000a2'$q$, 1);
+SELECT tests.expect_count('previous owner stays as a co-parent',
+  $q$SELECT 1 FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a1' AND role = 'co_parent'$q$, 1);
+SELECT tests.expect_error('previous owner no longer invites',
+  $q$SELECT create_family_invite('caregiver')$q$, 'Only the family owner can invite');
+SELECT tests.expect_affected('previous owner can now leave',
+  $q$DELETE FROM family_members WHERE user_id = '00000000-0000-4000-8000-0000000000a1'$q$, 1);
+
+-- ─── Audit trail ──────────────────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a5');
+SELECT tests.expect_count('outsiders cannot read the audit trail', 'SELECT 1 FROM family_audit_log', 0);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000a2');
+SELECT tests.expect_count('audit trail, in order',
+  $q$SELECT 1 FROM (
+       SELECT string_agg(action, ',' ORDER BY id) AS actions FROM family_audit_log
+     ) a
+     WHERE actions = 'created,invite_created,invite_created,invite_created,invite_created,invite_created,'
+                  || 'invite_revoked,joined,joined,joined,role_changed,removed,left,ownership_transferred,left'$q$, 1);
+SELECT tests.expect_count('removal records who removed whom',
+  $q$SELECT 1 FROM family_audit_log WHERE action = 'removed'
+       AND actor_user_id = '00000000-0000-4000-8000-0000000000a1'
+       AND subject_user_id = '00000000-0000-4000-8000-0000000000a4'$q$, 1);
+SELECT tests.expect_count('audit entries cannot be written directly',
+  $q$SELECT 1 FROM pg_policies WHERE tablename = 'family_audit_log' AND cmd <> 'SELECT'$q$, 0);
+
+SELECT tests.expect_affected('new owner deletes the group', 'DELETE FROM family_groups', 1);
+SELECT tests.expect_count('invites go with the group', 'SELECT 1 FROM family_invites', 0);
+
+SELECT tests.sign_out();
@@ -0,0 +1,137 @@
+-- =============================================================================
+-- 009_family_sharing.sql — groups, invite codes and shared reads
+--
+-- Alice owns the Rivera family, Bob joins it as a co-parent by invite
+-- code, Carol is outside it. Roles and invites in detail:
+-- family_roles.test.sql.
+-- =============================================================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'alice@example.com'),
+  ('b0000000-0000-4000-8000-000000000002', 'bob@example.com'),
+  ('c0000000-0000-4000-8000-000000000003', 'carol@example.com');
+
+INSERT INTO child_profiles (user_id, name) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'Mia'),
+  ('c0000000-0000-4000-8000-000000000003', 'Leo');
+INSERT INTO stories (user_id, title) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'The Sleepy Dragon'),
+  ('c0000000-0000-4000-8000-000000000003', 'Moon Boats');
+INSERT INTO voice_profiles (user_id, voice_type) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'mom'),
+  ('c0000000-0000-4000-8000-000000000003', 'dad');
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('voice-recordings', 'a0000000-0000-4000-8000-000000000001/v1/paragraph_0.m4a'),
+  ('voice-recordings', 'c0000000-0000-4000-8000-000000000003/v2/paragraph_0.m4a'),
+  ('voice-recordings', 'not-a-user/stray.m4a');
+
+-- ─── Alice creates the family ─────────────────────────────────────────────────
+SELECT tests.sign_in('a0000000-0000-4000-8000-000000000001');
+
+INSERT INTO profiles (id, email, child_name) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'alice@example.com', 'Mia');
+INSERT INTO family_groups (owner_user_id, group_name) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'Rivera Family');
+INSERT INTO family_members (group_id, user_id, role)
+  SELECT id, owner_user_id, 'owner' FROM family_groups;
+
+SELECT set_config('tests.invite_code', (SELECT code FROM create_family_invite('co_parent', FALSE)), TRUE);
+SELECT tests.expect_count('invite code generated server-side',
+  $q$SELECT 1 FROM family_invites WHERE code = current_setting('tests.invite_code')
+       AND code ~ '^[A-HJ-NP-Z2-9]{8}$'$q$, 1);
+SELECT tests.expect_error('owner cannot add someone else directly',
+  $q$INSERT INTO family_members (group_id, user_id, role)
+     SELECT id, 'b0000000-0000-4000-8000-000000000002', 'member' FROM family_groups$q$,
+  '%row-level security%');
+SELECT tests.expect_error('cannot create a group owned by someone else',
+  $q$INSERT INTO family_groups (owner_user_id, group_name)
+     VALUES ('b0000000-0000-4000-8000-000000000002', 'Not Mine')$q$,
+  '%row-level security%');
+
+-- ─── Bob before joining ───────────────────────────────────────────────────────
+SELECT tests.sign_in('b0000000-0000-4000-8000-000000000002');
+
+INSERT INTO profiles (id, email) VALUES
+  ('b0000000-0000-4000-8000-000000000002', 'bob@example.com');
+
+SELECT tests.expect_count('group hidden before joining', 'SELECT 1 FROM family_groups', 0);
+SELECT tests.expect_count('stories private before joining',
+  $q$SELECT 1 FROM stories WHERE user_id = 'a0000000-0000-4000-8000-000000000001'$q$, 0);
+SELECT tests.expect_error('unknown invite code',
+  $q$SELECT join_family_group('ZZZZZZ')$q$, 'Invite code not found');
+SELECT tests.expect_error('members cannot add themselves directly',
+  $q$INSERT INTO family_members (group_id, user_id, role)
+     VALUES ((SELECT id FROM family_groups LIMIT 1), 'b0000000-0000-4000-8000-000000000002', 'owner')$q$,
+  '%');
+
+-- ─── Bob joins by invite code ─────────────────────────────────────────────────
+SELECT tests.expect_count('join returns the group (code is case- and space-insensitive)',
+  $q$SELECT 1 FROM join_family_group(lower(current_setting('tests.invite_code')) || ' ')
+     WHERE group_name = 'Rivera Family'$q$, 1);
+SELECT tests.expect_count('joining twice is a no-op',
+  $q$SELECT join_family_group(current_setting('tests.invite_code'))$q$, 1);
+SELECT tests.expect_count('member sees the group', 'SELECT 1 FROM family_groups', 1);
+SELECT tests.expect_count('member sees both members', 'SELECT 1 FROM family_members', 2);
+SELECT tests.expect_count('member sees the shared child',  'SELECT 1 FROM child_profiles', 1);
+SELECT tests.expect_count('member sees the shared story',  'SELECT 1 FROM stories', 1);
+SELECT tests.expect_count('member sees the shared voice',  'SELECT 1 FROM voice_profiles', 1);
+SELECT tests.expect_count('member sees the shared recording', 'SELECT 1 FROM storage.objects', 1);
+SELECT tests.expect_count('member sees both profiles', 'SELECT 1 FROM profiles', 2);
+
+SELECT tests.expect_affected('shared stories are read-only',
+  $q$UPDATE stories SET title = 'Mine now'$q$, 0);
+SELECT tests.expect_affected('shared children are read-only',
+  'DELETE FROM child_profiles', 0);
+SELECT tests.expect_affected('only the owner renames the group',
+  $q$UPDATE family_groups SET group_name = 'Bob''s Family'$q$, 0);
+SELECT tests.expect_affected('a member cannot remove the owner',
+  $q$DELETE FROM family_members WHERE role = 'owner'$q$, 0);
+
+-- ─── Bob makes a story for the shared child ───────────────────────────────────
+INSERT INTO stories (user_id, child_id, title)
+  SELECT 'b0000000-0000-4000-8000-000000000002', id, 'Grandpa''s Lighthouse' FROM child_profiles;
+
+SELECT tests.sign_in('a0000000-0000-4000-8000-000000000001');
+SELECT tests.expect_count('owner sees the member''s story for their child',
+  $q$SELECT 1 FROM stories s JOIN child_profiles c ON c.id = s.child_id
+     WHERE s.title = 'Grandpa''s Lighthouse' AND c.name = 'Mia'$q$, 1);
+SELECT tests.expect_count('owner sees the member''s stories in the family library',
+  $q$SELECT 1 FROM stories WHERE user_id IN (
+       'a0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000002')$q$, 2);
+
+-- ─── Carol stays outside ──────────────────────────────────────────────────────
+SELECT tests.sign_in('c0000000-0000-4000-8000-000000000003');
+
+SELECT tests.expect_count('outsider sees only their own story', 'SELECT 1 FROM stories', 1);
+SELECT tests.expect_count('outsider sees no family', 'SELECT 1 FROM family_members', 0);
+SELECT tests.expect_count('outsider sees no profiles', 'SELECT 1 FROM profiles', 0);
+SELECT tests.expect_count('outsider sees no recordings',
+  $q$SELECT 1 FROM storage.objects WHERE name LIKE 'a0000000%'$q$, 0);
+
+INSERT INTO family_groups (owner_user_id, group_name) VALUES
+  ('c0000000-0000-4000-8000-000000000003', 'Chen Family');
+INSERT INTO family_members (group_id, user_id, role)
+  SELECT id, owner_user_id, 'owner' FROM family_groups
+  WHERE owner_user_id = 'c0000000-0000-4000-8000-000000000003';
+SELECT tests.expect_error('one family per account',
+  $q$SELECT join_family_group(current_setting('tests.invite_code'))$q$, 'Already in another family group%');
+
+-- ─── Leaving and removing ─────────────────────────────────────────────────────
+SELECT tests.sign_in('b0000000-0000-4000-8000-000000000002');
+
+SELECT tests.expect_affected('member leaves',
+  $q$DELETE FROM family_members WHERE user_id = 'b0000000-0000-4000-8000-000000000002'$q$, 1);
+SELECT tests.expect_count('stories private again after leaving',
+  $q$SELECT 1 FROM stories WHERE user_id = 'a0000000-0000-4000-8000-000000000001'$q$, 0);
+SELECT tests.expect_count('profiles private again after leaving', 'SELECT 1 FROM profiles', 1);
+
+SELECT join_family_group(current_setting('tests.invite_code'));
+SELECT tests.sign_in('a0000000-0000-4000-8000-000000000001');
+
+SELECT tests.expect_affected('owner removes a member',
+  $q$DELETE FROM family_members WHERE user_id = 'b0000000-0000-4000-8000-000000000002'$q$, 1);
+SELECT tests.expect_affected('owner deletes the group',
+  'DELETE FROM family_groups', 1);
+SELECT tests.expect_count('memberships go with the group', 'SELECT 1 FROM family_members', 0);
+
+SELECT tests.sign_out();
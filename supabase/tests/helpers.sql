@@ -0,0 +1,75 @@
+-- =============================================================================
+-- StoryVoice: assertions for the migration tests
+-- Loaded by supabase/tests/run.mjs after the migrations. Each *.test.sql runs
+-- in its own transaction that is rolled back afterwards; the first failed
+-- assertion raises and fails that file.
+--
+-- Acting as a signed-in user:
+--   SELECT tests.sign_in('<uuid>');   -- sets role authenticated + JWT claims
+--   SELECT tests.sign_out();          -- back to the superuser
+-- =============================================================================
+
+CREATE SCHEMA IF NOT EXISTS tests;
+GRANT USAGE ON SCHEMA tests TO anon, authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION tests.sign_in(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claims',
+    json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, TRUE);
+  PERFORM set_config('role', 'authenticated', TRUE);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION tests.sign_out()
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('role', 'none', TRUE);
+  PERFORM set_config('request.jwt.claims', '', TRUE);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rows returned by p_query
+CREATE OR REPLACE FUNCTION tests.expect_count(p_label TEXT, p_query TEXT, p_expected BIGINT)
+RETURNS VOID AS $$
+DECLARE
+  actual BIGINT;
+BEGIN
+  EXECUTE format('SELECT count(*) FROM (%s) AS q', p_query) INTO actual;
+  IF actual IS DISTINCT FROM p_expected THEN
+    RAISE EXCEPTION '%: expected % row(s), got %', p_label, p_expected, actual;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rows changed by an INSERT / UPDATE / DELETE
+CREATE OR REPLACE FUNCTION tests.expect_affected(p_label TEXT, p_statement TEXT, p_expected BIGINT)
+RETURNS VOID AS $$
+DECLARE
+  actual BIGINT;
+BEGIN
+  EXECUTE p_statement;
+  GET DIAGNOSTICS actual = ROW_COUNT;
+  IF actual IS DISTINCT FROM p_expected THEN
+    RAISE EXCEPTION '%: expected % row(s) changed, got %', p_label, p_expected, actual;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_statement must fail with a message matching p_message (ILIKE pattern)
+CREATE OR REPLACE FUNCTION tests.expect_error(p_label TEXT, p_statement TEXT, p_message TEXT DEFAULT '%')
+RETURNS VOID AS $$
+BEGIN
+  BEGIN
+    EXECUTE p_statement;
+  EXCEPTION WHEN OTHERS THEN
+    IF SQLERRM ILIKE p_message THEN
+      RETURN;
+    END IF;
+    RAISE EXCEPTION '%: failed with "%", expected "%"', p_label, SQLERRM, p_message;
+  END;
+  RAISE EXCEPTION '%: expected an error, statement succeeded', p_label;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA tests TO anon, authenticated, service_role;
@@ -0,0 +1,123 @@
+/**
+ * Migration test harness
+ *
+ * Applies every supabase/migrations/*.sql, in order, to a throwaway Postgres
+ * and then runs each supabase/tests/*.test.sql against it:
+ *
+ *   npm run test:migrations
+ *
+ * The cluster (embedded-postgres) lives in a temp directory on a free port
+ * and is deleted afterwards. supabase_shim.sql stands in for the auth and
+ * storage schemas a Supabase project provides; helpers.sql adds the
+ * tests.* assertions. Each test file runs in a transaction that is rolled
+ * back, so files can't leak rows into one another.
+ */
+
+import EmbeddedPostgres from 'embedded-postgres';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import { tmpdir, userInfo } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const TESTS_DIR      = path.dirname(fileURLToPath(import.meta.url));
+const MIGRATIONS_DIR = path.join(TESTS_DIR, '..', 'migrations');
+const DATABASE       = 'storyvoice_test';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function sqlFiles(dir, suffix) {
+  const names = (await readdir(dir)).filter((name) => name.endsWith(suffix)).sort();
+  return names.map((name) => path.join(dir, name));
+}
+
+function describeError(err) {
+  const where = err.position ? ` (at character ${err.position})` : '';
+  return `${err.message}${where}`;
+}
+
+// ─── Run ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const databaseDir = await mkdtemp(path.join(tmpdir(), 'storyvoice-pg-'));
+  const postgres = new EmbeddedPostgres({
+    databaseDir,
+    port:       await freePort(),
+    user:       'postgres',
+    password:   'postgres',
+    persistent: false,
+    // Postgres refuses to run as root (e.g. inside CI containers)
+    createPostgresUser: userInfo().uid === 0,
+    onLog:   () => {},
+    onError: () => {},
+  });
+
+  let client = null;
+  let failures = 0;
+  try {
+    await postgres.initialise();
+    await postgres.start();
+    await postgres.createDatabase(DATABASE);
+    client = postgres.getPgClient(DATABASE);
+    await client.connect();
+
+    const setup = [
+      path.join(TESTS_DIR, 'supabase_shim.sql'),
+      ...(await sqlFiles(MIGRATIONS_DIR, '.sql')),
+      path.join(TESTS_DIR, 'helpers.sql'),
+    ];
+    for (const file of setup) {
+      try {
+        await client.query(await readFile(file, 'utf8'));
+      } catch (err) {
+        throw new Error(`${path.basename(file)}: ${describeError(err)}`);
+      }
+      if (file.startsWith(MIGRATIONS_DIR)) console.log(`  applied  ${path.basename(file)}`);
+    }
+
+    for (const file of await sqlFiles(TESTS_DIR, '.test.sql')) {
+      await client.query('BEGIN');
+      try {
+        await client.query(await readFile(file, 'utf8'));
+        console.log(`  ✓ ${path.basename(file)}`);
+      } catch (err) {
+        failures++;
+        console.error(`  ✗ ${path.basename(file)}\n      ${describeError(err)}`);
+      } finally {
+        await client.query('ROLLBACK');
+      }
+    }
+  } finally {
+    await client?.end().catch(() => {});
+    await postgres.stop().catch(() => {});
+    await rm(databaseDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} migration test file(s) failed`);
+    return 1;
+  }
+  console.log('\nAll migration tests passed');
+  return 0;
+}
+
+// Exit explicitly: embedded-postgres' exit hook would otherwise report 0
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(`Migration tests could not run: ${err.message}`);
+    process.exit(1);
+  },
+);
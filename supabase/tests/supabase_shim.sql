@@ -0,0 +1,92 @@
+-- =============================================================================
+-- StoryVoice: stand-ins for what a Supabase project provides
+-- Loaded by supabase/tests/run.mjs before the migrations – never apply this
+-- to a real project.
+--
+-- Just enough of auth and storage for the migrations and their policies:
+-- the API roles, auth.users, auth.uid()/auth.role() read from the request's
+-- JWT claims, and the storage buckets/objects tables.
+-- =============================================================================
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 1. API roles
+-- ─────────────────────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    CREATE ROLE anon NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    CREATE ROLE authenticated NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+    CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+  END IF;
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES    TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 2. auth
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  email       TEXT,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS UUID AS $$
+  SELECT (NULLIF(current_setting('request.jwt.claims', TRUE), '')::JSONB ->> 'sub')::UUID;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION auth.role()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', TRUE), '')::JSONB ->> 'role';
+$$ LANGUAGE sql STABLE;
+
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA auth TO anon, authenticated, service_role;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- 3. storage
+-- ─────────────────────────────────────────────────────────────────────────────
+CREATE SCHEMA IF NOT EXISTS storage;
+
+CREATE TABLE IF NOT EXISTS storage.buckets (
+  id                  TEXT        PRIMARY KEY,
+  name                TEXT        NOT NULL UNIQUE,
+  public              BOOLEAN     NOT NULL DEFAULT FALSE,
+  file_size_limit     BIGINT,
+  allowed_mime_types  TEXT[],
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS storage.objects (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id   TEXT        REFERENCES storage.buckets(id),
+  name        TEXT,
+  owner       UUID,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (bucket_id, name)
+);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+
+-- 'a/b/c.m4a' → {a,b}
+CREATE OR REPLACE FUNCTION storage.foldername(name TEXT)
+RETURNS TEXT[] AS $$
+  SELECT parts[1:array_length(parts, 1) - 1]
+  FROM (SELECT string_to_array(name, '/') AS parts) AS split;
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT USAGE ON SCHEMA storage TO anon, authenticated, service_role;
+GRANT ALL ON ALL TABLES IN SCHEMA storage TO anon, authenticated, service_role;
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA storage TO anon, authenticated, service_role;
@@ -0,0 +1,177 @@
+-- =============================================================================
+-- 011_voice_recording_invites.sql — remote recording and owner approval
+--
+-- Olive owns the family and invites Gran, who is not a member, to record a
+-- voice for Ivy. Cole is a co-parent in the family; Eve is a stranger.
+-- =============================================================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-0000000000d1', 'olive@example.com'),
+  ('00000000-0000-4000-8000-0000000000d2', 'gran@example.com'),
+  ('00000000-0000-4000-8000-0000000000d3', 'cole@example.com'),
+  ('00000000-0000-4000-8000-0000000000d4', 'eve@example.com');
+
+INSERT INTO child_profiles (id, user_id, name) VALUES
+  ('00000000-0000-4000-8000-0000000000e1', '00000000-0000-4000-8000-0000000000d1', 'Ivy'),
+  ('00000000-0000-4000-8000-0000000000e4', '00000000-0000-4000-8000-0000000000d4', 'Max');
+
+-- ─── Olive's family ───────────────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+
+INSERT INTO family_groups (owner_user_id, group_name) VALUES
+  ('00000000-0000-4000-8000-0000000000d1', 'Park Family');
+INSERT INTO family_members (group_id, user_id, role)
+  SELECT id, owner_user_id, 'owner' FROM family_groups;
+SELECT set_config('tests.family_code', (SELECT code FROM create_family_invite('co_parent')), TRUE);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d3');
+SELECT join_family_group(current_setting('tests.family_code'));
+SELECT tests.expect_error('only the owner invites a voice',
+  $q$SELECT create_voice_recording_invite('00000000-0000-4000-8000-0000000000e1', 'Grandma')$q$,
+  'Only the family owner can invite');
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+SELECT set_config('tests.voice_code',
+  (SELECT code FROM create_voice_recording_invite('00000000-0000-4000-8000-0000000000e1', ' Grandma ')), TRUE);
+SELECT set_config('tests.expired_code',
+  (SELECT code FROM create_voice_recording_invite('00000000-0000-4000-8000-0000000000e1', 'Grandpa')), TRUE);
+SELECT set_config('tests.revoked_code',
+  (SELECT code FROM create_voice_recording_invite('00000000-0000-4000-8000-0000000000e1', 'Auntie')), TRUE);
+SELECT revoke_voice_recording_invite((SELECT id FROM voice_recording_invites WHERE code = current_setting('tests.revoked_code')));
+
+SELECT tests.expect_count('owner sees the invitations', 'SELECT 1 FROM voice_recording_invites', 3);
+SELECT tests.expect_error('only children in the family',
+  $q$SELECT create_voice_recording_invite('00000000-0000-4000-8000-0000000000e4', 'Grandma')$q$,
+  'Not a child in your family group');
+SELECT tests.expect_error('the voice needs a name',
+  $q$SELECT create_voice_recording_invite('00000000-0000-4000-8000-0000000000e1', '  ')$q$,
+  'Give the voice a name');
+
+SELECT tests.sign_out();
+UPDATE voice_recording_invites SET expires_at = NOW() - INTERVAL '1 minute'
+  WHERE code = current_setting('tests.expired_code');
+
+-- ─── Gran records from afar ───────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d2');
+
+SELECT tests.expect_count('accepting says who the voice is for',
+  $q$SELECT 1 FROM accept_voice_recording_invite(lower(current_setting('tests.voice_code')))
+     WHERE child_name = 'Ivy' AND group_name = 'Park Family' AND voice_name = 'Grandma'$q$, 1);
+SELECT tests.expect_count('accepting again resumes the same voice',
+  $q$SELECT 1 FROM accept_voice_recording_invite(current_setting('tests.voice_code')) a
+     JOIN voice_profiles v ON v.id = a.voice_id$q$, 1);
+SELECT tests.expect_count('one pending voice for Ivy',
+  $q$SELECT 1 FROM voice_profiles WHERE approval_status = 'pending'
+       AND child_id = '00000000-0000-4000-8000-0000000000e1' AND voice_name = 'Grandma'$q$, 1);
+SELECT tests.expect_count('recorder sees the invitation they accepted', 'SELECT 1 FROM voice_recording_invites', 1);
+SELECT tests.expect_count('but not the family''s children', 'SELECT 1 FROM child_profiles', 0);
+
+UPDATE voice_profiles SET approval_status = 'approved', child_id = NULL;
+SELECT tests.expect_count('recorder cannot approve or move their voice',
+  $q$SELECT 1 FROM voice_profiles WHERE approval_status = 'pending'
+       AND child_id = '00000000-0000-4000-8000-0000000000e1'$q$, 1);
+SELECT tests.expect_error('invited voices only come from an invitation',
+  $q$INSERT INTO voice_profiles (user_id, voice_type, invite_id)
+     SELECT '00000000-0000-4000-8000-0000000000d2', 'custom', id FROM voice_recording_invites$q$,
+  'Invited voices are created by accepting the invitation');
+SELECT tests.expect_affected('ordinary voices are unaffected',
+  $q$INSERT INTO voice_profiles (user_id, voice_type, approval_status)
+     VALUES ('00000000-0000-4000-8000-0000000000d2', 'mom', 'pending')$q$, 1);
+SELECT tests.expect_count('and always approved',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_type = 'mom' AND approval_status = 'approved'$q$, 1);
+
+SELECT tests.sign_out();
+INSERT INTO storage.objects (bucket_id, name)
+  SELECT 'voice-recordings', user_id || '/' || id || '/paragraph_1.m4a'
+  FROM voice_profiles WHERE invite_id IS NOT NULL;
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d4');
+SELECT tests.expect_error('an invitation is used once',
+  $q$SELECT accept_voice_recording_invite(current_setting('tests.voice_code'))$q$,
+  'Invitation has already been used');
+SELECT tests.expect_error('expired invitation',
+  $q$SELECT accept_voice_recording_invite(current_setting('tests.expired_code'))$q$,
+  'Invitation has expired');
+SELECT tests.expect_error('revoked invitation',
+  $q$SELECT accept_voice_recording_invite(current_setting('tests.revoked_code'))$q$,
+  'Invitation not found');
+
+-- ─── Review ───────────────────────────────────────────────────────────────────
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d3');
+SELECT tests.expect_count('members don''t see a pending voice',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma'$q$, 0);
+SELECT tests.expect_error('only the owner reviews',
+  $q$SELECT review_invited_voice((SELECT id FROM voice_profiles WHERE voice_name = 'Grandma'), TRUE)$q$,
+  'Not an invited voice in your family group');
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+SELECT tests.expect_count('owner hears the pending voice',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND approval_status = 'pending'$q$, 1);
+SELECT tests.expect_count('and its recordings',
+  $q$SELECT 1 FROM storage.objects WHERE name LIKE '00000000-0000-4000-8000-0000000000d2/%'$q$, 1);
+SELECT tests.expect_error('unfinished recordings wait',
+  $q$SELECT review_invited_voice((SELECT id FROM voice_profiles WHERE voice_name = 'Grandma'), TRUE)$q$,
+  'The recording is not finished yet');
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d2');
+UPDATE voice_profiles SET is_complete = TRUE, recording_labels = '{"paragraph_1": "x"}' WHERE invite_id IS NOT NULL;
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+SELECT review_invited_voice((SELECT id FROM voice_profiles WHERE voice_name = 'Grandma'), TRUE);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d3');
+SELECT tests.expect_count('members get the approved voice',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND approval_status = 'approved'$q$, 1);
+SELECT tests.expect_count('and its recordings',
+  $q$SELECT 1 FROM storage.objects WHERE name LIKE '00000000-0000-4000-8000-0000000000d2/%'$q$, 1);
+SELECT tests.expect_count('but not the recorder''s other voices',
+  $q$SELECT 1 FROM voice_profiles WHERE user_id = '00000000-0000-4000-8000-0000000000d2'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d4');
+SELECT tests.expect_count('strangers never see it', 'SELECT 1 FROM voice_profiles', 0);
+SELECT tests.expect_count('nor its recordings', 'SELECT 1 FROM storage.objects', 0);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d2');
+UPDATE voice_profiles SET recording_labels = '{"paragraph_1": "y"}' WHERE invite_id IS NOT NULL;
+SELECT tests.expect_count('re-recording needs a new approval',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND approval_status = 'pending'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+SELECT review_invited_voice((SELECT id FROM voice_profiles WHERE voice_name = 'Grandma'), TRUE);
+
+-- Overwriting the approved audio in place, as the app's upsert upload does
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d2');
+UPDATE storage.objects SET updated_at = NOW()
+  WHERE name LIKE '00000000-0000-4000-8000-0000000000d2/%';
+SELECT tests.expect_count('new audio needs a new approval',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND approval_status = 'pending'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+SELECT review_invited_voice((SELECT id FROM voice_profiles WHERE voice_name = 'Grandma'), TRUE);
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d2');
+INSERT INTO storage.objects (bucket_id, name)
+  SELECT 'voice-recordings', user_id || '/' || id || '/paragraph_2.m4a'
+  FROM voice_profiles WHERE invite_id IS NOT NULL;
+SELECT tests.expect_count('and so does an added recording',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND approval_status = 'pending'$q$, 1);
+SELECT tests.expect_count('ordinary voices keep their approval',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_type = 'mom' AND approval_status = 'approved'$q$, 1);
+
+SELECT tests.sign_in('00000000-0000-4000-8000-0000000000d1');
+SELECT review_invited_voice((SELECT id FROM voice_profiles WHERE voice_name = 'Grandma'), FALSE);
+SELECT tests.expect_count('rejected',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND approval_status = 'rejected'
+       AND reviewed_by = '00000000-0000-4000-8000-0000000000d1'$q$, 1);
+SELECT tests.expect_count('reviews are in the audit trail',
+  $q$SELECT 1 FROM family_audit_log WHERE action IN ('voice_invite_created', 'voice_approved', 'voice_rejected')$q$, 7);
+
+-- ─── Clean-up ─────────────────────────────────────────────────────────────────
+SELECT tests.expect_affected('the child can still be deleted',
+  $q$DELETE FROM child_profiles WHERE id = '00000000-0000-4000-8000-0000000000e1'$q$, 1);
+SELECT tests.expect_count('invitations go with the child', 'SELECT 1 FROM voice_recording_invites', 0);
+-- Run the deferred invite_id check now rather than at a commit that never comes
+SET CONSTRAINTS voice_profiles_invite_id_fkey IMMEDIATE;
+
+SELECT tests.sign_out();
+SELECT tests.expect_count('the recorder keeps their voice',
+  $q$SELECT 1 FROM voice_profiles WHERE voice_name = 'Grandma' AND invite_id IS NULL AND child_id IS NULL$q$, 1);